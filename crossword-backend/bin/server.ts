@@ -1,9 +1,15 @@
 #!/usr/bin/env bun
 import app from '../hono-app'
+import db from '../db-knex'
 import { SSEService } from '../services/sseService'
+import { Broadcaster } from '../services/broadcaster'
+import { createPubSubTransport } from '../services/pubsub'
 
 const port = Number(process.env.PORT || 8921)
 
+// Share live updates with any other instances (see PUBSUB_TRANSPORT)
+await Broadcaster.connect(createPubSubTransport(db))
+
 /**
  * Bun server using Hono framework
  */
@@ -1,5 +1,7 @@
 export const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || 'admin-password'
 export const JWT_SECRET = process.env.JWT_SECRET || 'dev-jwt-secret'
+// Encrypts puzzle answers at rest; changing it requires re-sealing existing rows
+export const ANSWERS_KEY = process.env.ANSWERS_KEY || 'dev-answers-key'
 
 export const OPENROUTER_MODELS = {
   flash: 'google/gemini-3-flash-preview',
@@ -15,3 +17,71 @@ export const OPENROUTER_MODELS = {
   [`qwen-max`]: 'qwen/qwen3.7-max',
   [`grok-4.3`]: 'x-ai/grok-4.3',
 }
+
+// Providers tried in order when generating a clue explanation, each one of
+// 'openrouter:<OPENROUTER_MODELS key or slug>', 'openai' or 'mock' (offline)
+export const EXPLANATION_PROVIDERS = (
+  process.env.EXPLANATION_PROVIDERS || 'openrouter:deepseek-pro,openrouter:gpt-5.4-mini'
+)
+  .split(',')
+  .map((entry) => entry.trim())
+  .filter(Boolean)
+
+// How many times a saved explanation whose wordplay steps fail verification
+// is sent back to the model, with the failures as feedback
+export const EXPLANATION_VERIFY_RETRIES = Number(process.env.EXPLANATION_VERIFY_RETRIES ?? 2)
+
+export interface ModelPrice {
+  // USD per million prompt tokens
+  input: number
+  // USD per million completion tokens, reasoning included
+  output: number
+}
+
+// List prices used to estimate spend in the model call ledger. Keyed by slug,
+// with direct OpenAI calls recorded under their OpenRouter slug. Estimates
+// only: check the provider's bill for the real figure.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'google/gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'google/gemini-3.1-flash-lite': { input: 0.25, output: 1.5 },
+  'google/gemini-3.5-flash': { input: 0.5, output: 3 },
+  'google/gemini-3-pro-preview': { input: 2, output: 12 },
+  'anthropic/claude-haiku-4.5': { input: 1, output: 5 },
+  'anthropic/claude-sonnet-4.6': { input: 3, output: 15 },
+  'openai/gpt-5-mini': { input: 0.25, output: 2 },
+  'openai/gpt-5.4-mini': { input: 0.75, output: 4.5 },
+  'deepseek/deepseek-v4-flash': { input: 0.3, output: 1.2 },
+  'deepseek/deepseek-v4-pro': { input: 0.6, output: 2.4 },
+  'xiaomi/mimo-v2.5-pro': { input: 1, output: 3 },
+  'qwen/qwen3.7-max': { input: 1.2, output: 6 },
+  'x-ai/grok-4.3': { input: 3, output: 15 },
+}
+
+export interface RateLimitBudget {
+  // Requests allowed in a burst
+  capacity: number
+  // Requests regained per hour
+  perHour: number
+}
+
+// Override a budget with e.g. RATE_LIMIT_EXPLAIN=20/60 (capacity/perHour)
+const rateLimitBudget = (name: string, fallback: RateLimitBudget): RateLimitBudget => {
+  const [capacity, perHour] = (process.env[`RATE_LIMIT_${name}`] || '').split('/').map(Number)
+  return capacity && perHour ? { capacity, perHour } : fallback
+}
+
+// Budgets for endpoints that can trigger paid model calls, per user or guest
+export const RATE_LIMITS = {
+  explain: rateLimitBudget('EXPLAIN', { capacity: 10, perHour: 30 }),
+  clueTranscription: rateLimitBudget('CLUE_TRANSCRIPTION', { capacity: 5, perHour: 20 }),
+  parsewordsGenerate: rateLimitBudget('PARSEWORDS_GENERATE', { capacity: 10, perHour: 60 }),
+  adminChat: rateLimitBudget('ADMIN_CHAT', { capacity: 20, perHour: 120 }),
+}
+
+export type RateLimitName = keyof typeof RATE_LIMITS
+
+// Autofill word list, one WORD or WORD;SCORE per line, and words it must never use
+export const AUTOFILL_WORDLIST_PATH = process.env.AUTOFILL_WORDLIST_PATH || 'data/wordlist.txt'
+export const AUTOFILL_BLACKLIST_PATH = process.env.AUTOFILL_BLACKLIST_PATH || 'data/blacklist.txt'
+// Score given to answers from our own puzzles when they seed the word list
+export const AUTOFILL_CORPUS_SCORE = Number(process.env.AUTOFILL_CORPUS_SCORE ?? 60)
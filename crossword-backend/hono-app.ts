@@ -1,7 +1,5 @@
 import { Hono } from 'hono'
-import jwt from 'jsonwebtoken'
-import { JWT_SECRET } from './config'
-import type { AuthUser } from './hono-middleware/auth'
+import { verifyToken, type AuthUser } from './hono-middleware/auth'
 
 // Import route modules
 import { auth } from './hono-routes/auth'
@@ -13,6 +11,11 @@ import { adminSessions } from './hono-routes/admin-sessions'
 import { adminExplanations } from './hono-routes/admin-explanations'
 import { parsewords } from './hono-routes/parsewords'
 import { adminChat } from './hono-routes/admin-chat'
+import { adminRateLimits } from './hono-routes/admin-rate-limits'
+import { adminModelUsage } from './hono-routes/admin-model-usage'
+import { adminAutofill } from './hono-routes/admin-autofill'
+import { friends } from './hono-routes/friends'
+import { me } from './hono-routes/me'
 import { createLogger } from './middleware/customLogger'
 
 // Extend Hono context with our user type
@@ -24,8 +27,14 @@ type Variables = {
 export const app = new Hono<{ Variables: Variables }>()
 
 app.use('*', createLogger({
-  ignoredPatterns: [/^\/api\/sessions\/[^/]+\/cell$/, /^\/api\/sessions\/[^/]+\/cells$/],
+  ignoredPatterns: [
+    /^\/api\/sessions\/[^/]+\/cell$/,
+    /^\/api\/sessions\/[^/]+\/cells$/,
+    /^\/api\/sessions\/[^/]+\/presence$/,
+  ],
   ignoredPaths: ['/api/notifications'],
+  // EventSource can't send headers, so the SSE stream authenticates in its query
+  redactedParams: ['token', 'anonymousId'],
   getUserId: (c) => c.get('user')?.id,
 }))
 
@@ -33,17 +42,7 @@ app.use('*', createLogger({
 app.use('/api/*', async (c, next) => {
   const authHeader = c.req.header('authorization') || ''
   const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null
-
-  if (token) {
-    try {
-      const decoded = jwt.verify(token, JWT_SECRET) as AuthUser
-      c.set('user', decoded)
-    } catch {
-      c.set('user', null)
-    }
-  } else {
-    c.set('user', null)
-  }
+  c.set('user', verifyToken(token))
 
   await next()
 })
@@ -58,6 +57,11 @@ app.route('/api/admin/sessions', adminSessions)
 app.route('/api/admin/explanations', adminExplanations)
 app.route('/api/parsewords', parsewords)
 app.route('/api/admin/chat', adminChat)
+app.route('/api/admin/rate-limits', adminRateLimits)
+app.route('/api/admin/model-usage', adminModelUsage)
+app.route('/api/admin/autofill', adminAutofill)
+app.route('/api/friends', friends)
+app.route('/api/me', me)
 
 // Also mount reports under admin (proxies to admin-explanations)
 app.get('/api/admin/reports', async (c) => {
@@ -1,5 +1,7 @@
 import { HTTPException } from 'hono/http-exception'
 import type { Context, Next } from 'hono'
+import jwt from 'jsonwebtoken'
+import { JWT_SECRET } from '../config'
 
 // Types that match the existing auth system
 export interface AuthUser {
@@ -8,6 +10,18 @@ export interface AuthUser {
   isAdmin?: boolean
 }
 
+/**
+ * Decode a JWT, returning null if it is missing, expired or forged
+ */
+export function verifyToken(token: string | null | undefined): AuthUser | null {
+  if (!token) return null
+  try {
+    return jwt.verify(token, JWT_SECRET) as AuthUser
+  } catch {
+    return null
+  }
+}
+
 /**
  * Get user from context (set by auth middleware in hono-app.ts)
  */
@@ -0,0 +1,49 @@
+import { HTTPException } from 'hono/http-exception'
+import { createMiddleware } from 'hono/factory'
+import type { Context } from 'hono'
+import type { RateLimitName } from '../config'
+import { RateLimitService } from '../services/rateLimitService'
+import { getUser } from './auth'
+
+/**
+ * Who a request is charged to: the logged-in user, else the client's address.
+ * Guests share their address's budget, since anyone can mint a fresh
+ * anonymous id for every request.
+ */
+export function rateLimitSubject(c: Context): string {
+  const user = getUser(c)
+  if (user) return `user:${user.id}`
+
+  // nginx sets X-Real-IP and appends the peer it saw to X-Forwarded-For; the
+  // entries before that came from the client
+  const forwarded = c.req.header('x-forwarded-for')?.split(',').pop()?.trim()
+  return `ip:${c.req.header('x-real-ip')?.trim() || forwarded || 'unknown'}`
+}
+
+/**
+ * Spend one request from the caller's budget, or throw 429 with Retry-After.
+ * Call this directly where only some requests reach a model (e.g. cache misses).
+ */
+export async function enforceRateLimit(c: Context, name: RateLimitName): Promise<void> {
+  const result = await RateLimitService.consume(name, rateLimitSubject(c))
+  if (!result.allowed) {
+    const message = 'Too many requests, please try again later'
+    throw new HTTPException(429, {
+      message,
+      res: new Response(message, {
+        status: 429,
+        headers: { 'Retry-After': String(result.retryAfterSeconds) },
+      }),
+    })
+  }
+  c.header('X-RateLimit-Remaining', String(result.remaining))
+}
+
+/**
+ * Middleware: charge every request to the route against the named budget
+ */
+export const rateLimit = (name: RateLimitName) =>
+  createMiddleware(async (c, next) => {
+    await enforceRateLimit(c, name)
+    await next()
+  })
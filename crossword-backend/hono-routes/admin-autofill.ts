@@ -0,0 +1,59 @@
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { adminMiddleware, type AuthUser } from '../hono-middleware/auth'
+import { AutofillService } from '../services/autofillService'
+import { parseGridString } from '../utils/gridIntegrityChecker'
+import { isCellType } from '../utils/gridCells'
+
+type Variables = { user: AuthUser | null }
+
+// Ceilings on what a caller may ask the search to spend
+const MAX_STATES_LIMIT = 2_000_000
+const MAX_MILLIS_LIMIT = 20_000
+
+const clampLimit = (value: unknown, ceiling: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0
+    ? Math.min(Math.floor(value), ceiling)
+    : undefined
+
+const adminAutofill = new Hono<{ Variables: Variables }>()
+
+adminAutofill.use('*', adminMiddleware)
+
+// POST /api/admin/autofill - Fill a grid's empty cells from the word list
+adminAutofill.post('/', async (c) => {
+  const body = await c.req.json().catch(() => ({}))
+  const { grid, letters, blacklist, useCorpus, maxStates, maxMillis } = body
+
+  if (typeof grid !== 'string' || !grid.trim()) {
+    throw new HTTPException(400, { message: 'Missing required field: grid' })
+  }
+  const cells = parseGridString(grid.trim())
+  if (cells.some((row) => row.length !== cells[0]!.length || !row.every(isCellType))) {
+    throw new HTTPException(400, { message: 'Grid rows must be equal-length lists of cell tokens' })
+  }
+  const isStringList = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  if (letters !== undefined && !isStringList(letters)) {
+    throw new HTTPException(400, { message: 'letters must be an array of row strings' })
+  }
+  if (blacklist !== undefined && !isStringList(blacklist)) {
+    throw new HTTPException(400, { message: 'blacklist must be an array of words' })
+  }
+
+  try {
+    const result = await AutofillService.autofill(
+      { grid: cells, letters, blacklist, useCorpus: useCorpus !== false },
+      {
+        maxStates: clampLimit(maxStates, MAX_STATES_LIMIT),
+        maxMillis: clampLimit(maxMillis, MAX_MILLIS_LIMIT),
+      },
+    )
+    return c.json(result)
+  } catch (error) {
+    console.error('Error autofilling grid:', error)
+    throw new HTTPException(500, { message: 'Failed to autofill grid' })
+  }
+})
+
+export { adminAutofill }
@@ -1,8 +1,10 @@
 import { Hono } from 'hono'
 import { HTTPException } from 'hono/http-exception'
 import { requireAdmin, type AuthUser } from '../hono-middleware/auth'
+import { enforceRateLimit } from '../hono-middleware/rateLimit'
 import { OpenRouter } from '@openrouter/sdk'
 import { OPENROUTER_MODELS } from '../config'
+import { ModelUsageService } from '../services/modelUsageService'
 
 type Variables = { user: AuthUser | null }
 
@@ -16,6 +18,7 @@ const client = new OpenRouter({
 
 adminChat.post('/', async (c) => {
   requireAdmin(c)
+  await enforceRateLimit(c, 'adminChat')
 
   const body = await c.req.json().catch(() => ({}))
   const { message } = body as { message?: string }
@@ -27,16 +30,19 @@ adminChat.post('/', async (c) => {
   const systemPrompt = `You are a helpful assistant for helping to build a cryptic crossword. Answer the user's question about crossword clues. Answer very concisely, for example if asked for three synonyms of "quick", you might reply "fast, swift, rapid". If asked for a word that means "a type of tree" and has 5 letters, you might reply "birch".`
 
   try {
-    const result = await client.chat.send({
-      chatRequest: {
-        model: CHAT_MODEL,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: message },
-        ],
-        stream: false,
-      },
-    })
+    const result = await ModelUsageService.track(
+      { provider: 'openrouter', model: CHAT_MODEL, purpose: 'chat' },
+      client.chat.send({
+        chatRequest: {
+          model: CHAT_MODEL,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: message },
+          ],
+          stream: false,
+        },
+      }),
+    )
 
     const content = result?.choices[0]?.message.content
     if (!content) throw new Error('Empty response from model')
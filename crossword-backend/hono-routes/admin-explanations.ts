@@ -3,9 +3,12 @@ import { Hono } from 'hono'
 import { HTTPException } from 'hono/http-exception'
 import { requireAdmin, type AuthUser } from '../hono-middleware/auth'
 import db from '../db-knex'
-import { regenerateCrypticClueExplanation } from '../utils/openrouter'
+import { ExplanationGenerator } from '../services/explanationGenerator'
+import { ExplanationService } from '../services/explanationService'
+import { ExplanationRevisionService } from '../services/explanationRevisionService'
 import { OPENROUTER_MODELS } from '../config'
 import OpenAI from 'openai'
+import { openAnswers } from '../utils/answerVault'
 
 type Variables = { user: AuthUser | null }
 
@@ -131,13 +134,15 @@ adminExplanations.post('/regenerate', async (c) => {
   // Process in background
   setImmediate(async () => {
     try {
-      const newExplanation = await regenerateCrypticClueExplanation({
-        clue,
-        answer,
-        feedback: feedback || 'Admin requested regeneration',
-        previousExplanation,
-        model: modelSlug,
-      })
+      const { explanation: newExplanation } = await ExplanationGenerator.generate(
+        {
+          clue,
+          answer,
+          feedback: feedback || 'Admin requested regeneration',
+          previousExplanation,
+        },
+        { model: modelSlug },
+      )
 
       try {
         await db('explanation_regenerations')
@@ -180,8 +185,9 @@ adminExplanations.post('/regenerate', async (c) => {
 
 // POST /api/admin/explanations/save
 adminExplanations.post('/save', async (c) => {
+  const user = requireAdmin(c)
   const body = await c.req.json().catch(() => ({}))
-  const { puzzleId, clueNumber, direction, clueText, answer, explanation } = body
+  const { puzzleId, clueNumber, direction, clueText, answer, explanation, source } = body
 
   if (!puzzleId || !clueNumber || !direction || !explanation) {
     throw new HTTPException(400, { message: 'Missing required fields' })
@@ -190,17 +196,19 @@ adminExplanations.post('/save', async (c) => {
   try {
     const explanationToSave = explanation.explanation || explanation
 
-    await db('clue_explanations')
-      .insert({
-        puzzle_id: puzzleId,
-        clue_number: clueNumber,
-        direction: direction,
-        clue_text: clueText,
-        answer: answer,
-        explanation_json: JSON.stringify(explanationToSave),
-      })
-      .onConflict(['puzzle_id', 'clue_number', 'direction'])
-      .merge()
+    await ExplanationService.storeExplanation(
+      puzzleId,
+      clueNumber,
+      direction,
+      clueText,
+      answer,
+      explanationToSave,
+      {
+        // The review page saves both hand edits and approved regenerations
+        source: source === 'regeneration' ? 'regeneration' : 'admin_edit',
+        authorId: user.id as number,
+      },
+    )
 
     const updatedCount = await db('explanation_reports')
       .where({
@@ -218,6 +226,49 @@ adminExplanations.post('/save', async (c) => {
   }
 })
 
+// GET /api/admin/explanations/revisions/:puzzleId/:clueNumber/:direction - History, newest first
+adminExplanations.get('/revisions/:puzzleId/:clueNumber/:direction', async (c) => {
+  requireAdmin(c)
+  const puzzleId = Number(c.req.param('puzzleId'))
+  const clueNumber = Number(c.req.param('clueNumber'))
+  const direction = c.req.param('direction')
+
+  if (!Number.isInteger(puzzleId) || !Number.isInteger(clueNumber)) {
+    throw new HTTPException(400, { message: 'Invalid puzzle or clue number' })
+  }
+
+  try {
+    const revisions = await ExplanationRevisionService.list({ puzzleId, clueNumber, direction })
+    return c.json(revisions)
+  } catch (error) {
+    console.error('Error fetching explanation revisions:', error)
+    throw new HTTPException(500, { message: 'Failed to fetch explanation revisions' })
+  }
+})
+
+// POST /api/admin/explanations/revisions/:revisionId/restore - Make a revision current again
+adminExplanations.post('/revisions/:revisionId/restore', async (c) => {
+  const user = requireAdmin(c)
+  const revisionId = Number(c.req.param('revisionId'))
+
+  if (!Number.isInteger(revisionId)) {
+    throw new HTTPException(400, { message: 'Invalid revision id' })
+  }
+
+  try {
+    const verification = await ExplanationService.restoreRevision(revisionId, user.id as number)
+    if (!verification) {
+      throw new HTTPException(404, { message: 'Revision not found' })
+    }
+
+    return c.json({ success: true, verified: verification.verified })
+  } catch (error) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error restoring explanation revision:', error)
+    throw new HTTPException(500, { message: 'Failed to restore explanation revision' })
+  }
+})
+
 // POST /api/admin/reports
 adminExplanations.post('/reports', async (c) => {
   const body = await c.req.json().catch(() => ({}))
@@ -333,7 +384,7 @@ adminExplanations.post('/batches/create', async (c) => {
     }
 
     const clues = JSON.parse(puzzle.clues)
-    const encrypted = JSON.parse(puzzle.answers_encrypted || '{}')
+    const encrypted = openAnswers(puzzle.answers_encrypted) ?? {}
     
     const rot13 = (str: string): string => {
       return str.replace(/[a-zA-Z]/g, (c) => {
@@ -471,7 +522,7 @@ adminExplanations.post('/batches/status/:batchId', async (c) => {
 
 // POST /api/admin/explanations/batches/apply/:batchId
 adminExplanations.post('/batches/apply/:batchId', async (c) => {
-  requireAdmin(c)
+  const user = requireAdmin(c)
   const batchId = c.req.param('batchId')
 
   try {
@@ -521,7 +572,7 @@ adminExplanations.post('/batches/apply/:batchId', async (c) => {
     }
 
     const { ExplanationSchema } = await import('../utils/crypticSchema')
-    const { ExplanationService } = await import('../services/explanationService')
+    const { ModelUsageService } = await import('../services/modelUsageService')
 
     for (const result of results) {
       try {
@@ -538,6 +589,7 @@ adminExplanations.post('/batches/apply/:batchId', async (c) => {
 
         let content: string | undefined
         const body = result.response.body
+        await ModelUsageService.recordBatchResult(body, puzzleId)
 
         if (body.output && Array.isArray(body.output)) {
           const messageOutput = body.output.find((o: any) => o.type === 'message')
@@ -581,7 +633,7 @@ adminExplanations.post('/batches/apply/:batchId', async (c) => {
         if (!puzzle) continue
 
         const clues = JSON.parse(puzzle.clues)
-        const encrypted = JSON.parse(puzzle.answers_encrypted || '{}')
+        const encrypted = openAnswers(puzzle.answers_encrypted) ?? {}
 
         const clueList = direction === 'across' ? clues.across : clues.down
         const answerList = direction === 'across' ? encrypted.across : encrypted.down
@@ -600,6 +652,7 @@ adminExplanations.post('/batches/apply/:batchId', async (c) => {
           clueObj.clue,
           decryptedAnswer,
           explanation,
+          { source: 'batch', authorId: user.id as number, note: `Batch ${batchId}` },
         )
 
         successCount++
@@ -0,0 +1,30 @@
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { adminMiddleware, type AuthUser } from '../hono-middleware/auth'
+import { ModelUsageService } from '../services/modelUsageService'
+
+type Variables = { user: AuthUser | null }
+
+const adminModelUsage = new Hono<{ Variables: Variables }>()
+
+adminModelUsage.use('*', adminMiddleware)
+
+const MAX_DAYS = 365
+
+// GET /api/admin/model-usage?days=30 - Model spend by day, purpose, puzzle and model
+adminModelUsage.get('/', async (c) => {
+  const days = Number(c.req.query('days') ?? 30)
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    throw new HTTPException(400, { message: `days must be a whole number from 1 to ${MAX_DAYS}` })
+  }
+
+  try {
+    const summary = await ModelUsageService.getSummary(days)
+    return c.json(summary)
+  } catch (error) {
+    console.error('Error fetching model usage:', error)
+    throw new HTTPException(500, { message: 'Failed to fetch model usage' })
+  }
+})
+
+export { adminModelUsage }
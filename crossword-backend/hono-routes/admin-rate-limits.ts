@@ -0,0 +1,43 @@
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { adminMiddleware, type AuthUser } from '../hono-middleware/auth'
+import { RateLimitService } from '../services/rateLimitService'
+import { RATE_LIMITS } from '../config'
+
+type Variables = { user: AuthUser | null }
+
+const adminRateLimits = new Hono<{ Variables: Variables }>()
+
+adminRateLimits.use('*', adminMiddleware)
+
+// GET /api/admin/rate-limits - Configured budgets and everyone currently drawing on them
+adminRateLimits.get('/', async (c) => {
+  try {
+    const usage = await RateLimitService.getUsage()
+    return c.json({ budgets: RATE_LIMITS, usage })
+  } catch (error) {
+    console.error('Error fetching rate limit usage:', error)
+    throw new HTTPException(500, { message: 'Failed to fetch rate limit usage' })
+  }
+})
+
+// DELETE /api/admin/rate-limits/:bucket/:subject - Restore a caller's full budget
+adminRateLimits.delete('/:bucket/:subject', async (c) => {
+  const bucket = c.req.param('bucket')
+  const subject = c.req.param('subject')
+
+  try {
+    const reset = await RateLimitService.reset(bucket, subject)
+    if (!reset) {
+      throw new HTTPException(404, { message: 'No usage recorded for that caller' })
+    }
+
+    return c.json({ success: true })
+  } catch (error: any) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error resetting rate limit:', error)
+    throw new HTTPException(500, { message: 'Failed to reset rate limit' })
+  }
+})
+
+export { adminRateLimits }
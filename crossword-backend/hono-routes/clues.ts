@@ -1,6 +1,7 @@
 import { Hono } from 'hono'
 import { HTTPException } from 'hono/http-exception'
 import { adminMiddleware, type AuthUser } from '../hono-middleware/auth'
+import { rateLimit } from '../hono-middleware/rateLimit'
 import { getCrosswordClues } from '../utils/openai'
 
 type Variables = { user: AuthUser | null }
@@ -8,7 +9,7 @@ type Variables = { user: AuthUser | null }
 const clues = new Hono<{ Variables: Variables }>()
 
 // POST /api/clues/from-image - Transcribe clues from image
-clues.post('/from-image', adminMiddleware, async (c) => {
+clues.post('/from-image', adminMiddleware, rateLimit('clueTranscription'), async (c) => {
   const body = await c.req.json().catch(() => ({}))
   const { image } = body
 
@@ -0,0 +1,141 @@
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { requireAuth, type AuthUser } from '../hono-middleware/auth'
+import { FriendshipService } from '../services/friendshipService'
+import db from '../db-knex'
+
+type Variables = { user: AuthUser | null }
+
+const friends = new Hono<{ Variables: Variables }>()
+
+// Map service errors onto HTTP status codes
+function toHttpError(error: any, fallback: string): HTTPException {
+  if (error instanceof HTTPException) return error
+  switch (error?.message) {
+    case 'User not found':
+    case 'Friend request not found':
+    case 'Friendship not found':
+      return new HTTPException(404, { message: error.message })
+    case 'Cannot friend yourself':
+      return new HTTPException(400, { message: error.message })
+    case 'Already friends':
+    case 'Friend request already sent':
+      return new HTTPException(409, { message: error.message })
+    default:
+      console.error(`${fallback}:`, error)
+      return new HTTPException(500, { message: fallback })
+  }
+}
+
+function parseUserId(raw: string): number {
+  const id = Number(raw)
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HTTPException(400, { message: 'Invalid user id' })
+  }
+  return id
+}
+
+// GET /api/friends - List accepted friends
+friends.get('/', async (c) => {
+  const user = requireAuth(c)
+
+  try {
+    const list = await FriendshipService.getFriends(user.id as number)
+    return c.json(list)
+  } catch (error) {
+    throw toHttpError(error, 'Failed to fetch friends')
+  }
+})
+
+// GET /api/friends/requests - Pending requests (incoming and outgoing)
+friends.get('/requests', async (c) => {
+  const user = requireAuth(c)
+
+  try {
+    const requests = await FriendshipService.getPendingRequests(user.id as number)
+    return c.json(requests)
+  } catch (error) {
+    throw toHttpError(error, 'Failed to fetch friend requests')
+  }
+})
+
+// GET /api/friends/search?q= - Search users by username
+friends.get('/search', async (c) => {
+  const user = requireAuth(c)
+  const q = c.req.query('q') || ''
+
+  try {
+    const results = await FriendshipService.searchUsers(user.id as number, q)
+    return c.json(results)
+  } catch (error) {
+    throw toHttpError(error, 'Failed to search users')
+  }
+})
+
+// POST /api/friends/requests - Send a friend request by userId or username
+friends.post('/requests', async (c) => {
+  const user = requireAuth(c)
+  const body = await c.req.json().catch(() => ({}))
+  const { userId, username } = body
+
+  if (!userId && !username) {
+    throw new HTTPException(400, { message: 'Missing userId or username' })
+  }
+  let targetId = userId ? parseUserId(String(userId)) : null
+
+  try {
+    if (!targetId) {
+      const target = await db('users').where({ username }).first()
+      if (!target) {
+        throw new Error('User not found')
+      }
+      targetId = target.id as number
+    }
+
+    const result = await FriendshipService.sendRequest(user.id as number, targetId)
+    return c.json({ success: true, status: result.status })
+  } catch (error) {
+    throw toHttpError(error, 'Failed to send friend request')
+  }
+})
+
+// POST /api/friends/requests/:userId/accept - Accept a request from :userId
+friends.post('/requests/:userId/accept', async (c) => {
+  const user = requireAuth(c)
+  const requesterId = parseUserId(c.req.param('userId'))
+
+  try {
+    await FriendshipService.acceptRequest(user.id as number, requesterId)
+    return c.json({ success: true })
+  } catch (error) {
+    throw toHttpError(error, 'Failed to accept friend request')
+  }
+})
+
+// POST /api/friends/requests/:userId/decline - Decline a request from :userId
+friends.post('/requests/:userId/decline', async (c) => {
+  const user = requireAuth(c)
+  const requesterId = parseUserId(c.req.param('userId'))
+
+  try {
+    await FriendshipService.declineRequest(user.id as number, requesterId)
+    return c.json({ success: true })
+  } catch (error) {
+    throw toHttpError(error, 'Failed to decline friend request')
+  }
+})
+
+// DELETE /api/friends/:userId - Remove a friend or cancel an outgoing request
+friends.delete('/:userId', async (c) => {
+  const user = requireAuth(c)
+  const otherId = parseUserId(c.req.param('userId'))
+
+  try {
+    await FriendshipService.removeFriendship(user.id as number, otherId)
+    return c.json({ success: true })
+  } catch (error) {
+    throw toHttpError(error, 'Failed to remove friend')
+  }
+})
+
+export { friends }
@@ -0,0 +1,23 @@
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { requireAuth, type AuthUser } from '../hono-middleware/auth'
+import { StatsService } from '../services/statsService'
+
+type Variables = { user: AuthUser | null }
+
+const me = new Hono<{ Variables: Variables }>()
+
+// GET /api/me/stats - Solve history and statistics for the current user
+me.get('/stats', async (c) => {
+  const user = requireAuth(c)
+
+  try {
+    const stats = await StatsService.getUserStats(user.id as number)
+    return c.json(stats)
+  } catch (error) {
+    console.error('Error fetching user stats:', error)
+    throw new HTTPException(500, { message: 'Failed to fetch stats' })
+  }
+})
+
+export { me }
@@ -1,8 +1,10 @@
 import { Hono } from 'hono'
 import { HTTPException } from 'hono/http-exception'
 import { requireAdmin, type AuthUser } from '../hono-middleware/auth'
+import { enforceRateLimit } from '../hono-middleware/rateLimit'
 import db from '../db-knex'
 import { generateParsewordsPuzzle, models as OPENROUTER_MODELS } from '../utils/parsewordsGenerator'
+import { normalize } from '../utils/parsewordsSolver'
 
 type Variables = { user: AuthUser | null }
 
@@ -19,11 +21,16 @@ function shuffleArray<T>(arr: T[]): T[] {
   return out
 }
 
-function shufflePuzzleTriggers(puzzle: Record<string, unknown>): Record<string, unknown> {
-  const triggers = puzzle.triggers as Array<{ action: Record<string, unknown> }> | undefined
-  if (!triggers) return puzzle
+/**
+ * A puzzle as players get it: without the answer or the generator's notes on
+ * the solution path, and with each trigger's options shuffled
+ */
+function toPlayablePuzzle(puzzle: Record<string, unknown>): Record<string, unknown> {
+  const { answer: _answer, displayAnswer: _display, analysis: _analysis, ...playable } = puzzle
+  const triggers = playable.triggers as Array<{ action: Record<string, unknown> }> | undefined
+  if (!triggers) return playable
   return {
-    ...puzzle,
+    ...playable,
     triggers: triggers.map((trigger) => {
       const action = trigger.action
       if ((action.kind === 'replace' || action.kind === 'result') && Array.isArray(action.options)) {
@@ -46,7 +53,6 @@ parsewords.get('/', async (c) => {
       'parsewords_puzzles.puzzle_json',
       'parsewords_puzzles.updated_at',
       'clue_explanations.clue_text',
-      'clue_explanations.answer',
     )
     .leftJoin('clue_explanations', function () {
       this.on('clue_explanations.puzzle_id', 'parsewords_puzzles.puzzle_id')
@@ -61,9 +67,8 @@ parsewords.get('/', async (c) => {
     clueNumber: row.clue_number,
     direction: row.direction,
     clueText: row.clue_text,
-    answer: row.answer,
     updatedAt: row.updated_at,
-    puzzle: shufflePuzzleTriggers(JSON.parse(row.puzzle_json)),
+    puzzle: toPlayablePuzzle(JSON.parse(row.puzzle_json)),
   })))
 })
 
@@ -81,7 +86,6 @@ parsewords.get('/puzzle/:puzzleId', async (c) => {
       'parsewords_puzzles.puzzle_json',
       'parsewords_puzzles.updated_at',
       'clue_explanations.clue_text',
-      'clue_explanations.answer',
     )
     .leftJoin('clue_explanations', function () {
       this.on('clue_explanations.puzzle_id', 'parsewords_puzzles.puzzle_id')
@@ -95,12 +99,32 @@ parsewords.get('/puzzle/:puzzleId', async (c) => {
     clueNumber: row.clue_number,
     direction: row.direction,
     clueText: row.clue_text,
-    answer: row.answer,
     updatedAt: row.updated_at,
-    puzzle: shufflePuzzleTriggers(JSON.parse(row.puzzle_json)),
+    puzzle: toPlayablePuzzle(JSON.parse(row.puzzle_json)),
   })))
 })
 
+// POST /api/parsewords/:id/check
+// Checks the word a player ended up with; the answer is only sent back when it matches
+parsewords.post('/:id/check', async (c) => {
+  const body = await c.req.json().catch(() => ({}))
+  if (typeof body.guess !== 'string') {
+    throw new HTTPException(400, { message: 'Missing guess' })
+  }
+
+  const row = await db('parsewords_puzzles').where({ id: c.req.param('id') }).first('puzzle_json')
+  if (!row) {
+    throw new HTTPException(404, { message: 'Parsewords puzzle not found' })
+  }
+
+  const { answer, displayAnswer } = JSON.parse(row.puzzle_json)
+  const guess = normalize(body.guess)
+  if (typeof answer !== 'string' || !guess || guess !== normalize(answer)) {
+    return c.json({ correct: false })
+  }
+  return c.json({ correct: true, answer, displayAnswer: displayAnswer ?? answer })
+})
+
 // GET /api/parsewords/admin/clues/:puzzleId
 // Returns all clues that have explanations for a puzzle, with parsewords status
 parsewords.get('/admin/clues/:puzzleId', async (c) => {
@@ -164,6 +188,7 @@ function scheduleJobCleanup(requestId: string) {
 // Starts async generation and returns a requestId immediately (202)
 parsewords.post('/admin/generate', async (c) => {
   requireAdmin(c)
+  await enforceRateLimit(c, 'parsewordsGenerate')
   const body = await c.req.json().catch(() => ({}))
   const { puzzleId, clueNumber, direction, modelKey } = body
 
@@ -188,7 +213,13 @@ parsewords.post('/admin/generate', async (c) => {
   const explanation = JSON.parse(row.explanation_json)
   ;(async () => {
     try {
-      const puzzle = await generateParsewordsPuzzle(row.clue_text, row.answer, explanation, modelSlug)
+      const puzzle = await generateParsewordsPuzzle(
+        row.clue_text,
+        row.answer,
+        explanation,
+        modelSlug,
+        row.puzzle_id,
+      )
       generationJobs.set(requestId, { status: 'success', puzzle })
     } catch (e: any) {
       generationJobs.set(requestId, { status: 'error', message: e?.message ?? 'Generation failed' })
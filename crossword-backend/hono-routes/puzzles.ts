@@ -1,8 +1,20 @@
 import { Hono } from 'hono'
 import { HTTPException } from 'hono/http-exception'
-import { requireAdmin, type AuthUser } from '../hono-middleware/auth'
+import { optionalAuth, requireAdmin, type AuthUser } from '../hono-middleware/auth'
 import { PuzzleService } from '../services/puzzleService'
 import { generateGrid } from '../utils/openrouter'
+import { checkGridIntegrity } from '../utils/gridIntegrityChecker'
+import {
+  fromIpuz,
+  fromPuz,
+  isPuzFile,
+  portableToPuzzleFields,
+  puzzleRowToPortable,
+  toIpuz,
+  toPuz,
+  type PortablePuzzle,
+  type PuzzleFileFormat,
+} from '../utils/puzzleFormats'
 
 type Variables = { user: AuthUser | null }
 
@@ -61,6 +73,129 @@ puzzles.get('/missing-clues', async (c) => {
   }
 })
 
+// POST /api/puzzles/import - Create a puzzle from an uploaded .puz or .ipuz file
+puzzles.post('/import', async (c) => {
+  requireAdmin(c)
+  const body = await c.req.json().catch(() => ({}))
+  const { data, filename, title, dryRun } = body
+  let { format } = body as { format?: PuzzleFileFormat }
+
+  if (!data || typeof data !== 'string') {
+    throw new HTTPException(400, { message: 'Missing file data' })
+  }
+
+  // Accept either a data URL or bare base64
+  const base64 = data.replace(/^data:[^;]*;base64,/, '')
+  const bytes = new Uint8Array(Buffer.from(base64, 'base64'))
+
+  if (!format) {
+    const ext = typeof filename === 'string' ? filename.split('.').pop()?.toLowerCase() : undefined
+    if (ext === 'puz' || ext === 'ipuz') {
+      format = ext
+    } else {
+      format = isPuzFile(bytes) ? 'puz' : 'ipuz'
+    }
+  }
+
+  if (format !== 'puz' && format !== 'ipuz') {
+    throw new HTTPException(400, { message: 'Unsupported format. Use puz or ipuz' })
+  }
+
+  let imported: PortablePuzzle
+  try {
+    imported =
+      format === 'puz' ? fromPuz(bytes) : fromIpuz(new TextDecoder('utf-8').decode(bytes))
+  } catch (error: any) {
+    throw new HTTPException(400, { message: `Could not read ${format} file: ${error.message}` })
+  }
+
+  if (title) imported.title = String(title)
+
+  const fields = portableToPuzzleFields(imported)
+  const integrity = fields.answersEncrypted
+    ? checkGridIntegrity(imported.grid, fields.answersEncrypted, fields.rebusCells, fields.clues)
+    : null
+
+  // Missing answers are tolerated (they can be added in the editor), and so are
+  // enumerations that disagree with the answer; structural problems are not
+  const blockingErrors =
+    integrity?.errors.filter(
+      (e) => e.errorType !== 'missing_clue' && e.errorType !== 'enumeration_mismatch',
+    ) ?? []
+  if (blockingErrors.length > 0) {
+    return c.json({ success: false, message: 'Grid integrity check failed', integrity }, 400)
+  }
+
+  if (dryRun) {
+    return c.json({ success: true, dryRun: true, puzzle: fields, integrity })
+  }
+
+  try {
+    const serviceClues = { ...fields.clues, answers_encrypted: fields.answersEncrypted ?? undefined }
+    const puzzle = await PuzzleService.createPuzzle(
+      fields.title,
+      fields.grid,
+      serviceClues,
+      fields.rebusCells,
+    )
+    return c.json({ success: true, puzzle, integrity })
+  } catch (error) {
+    console.error('Error importing puzzle:', error)
+    throw new HTTPException(500, { message: 'Failed to import puzzle' })
+  }
+})
+
+// GET /api/puzzles/:id/export?format=ipuz|puz
+puzzles.get('/:id/export', async (c) => {
+  const id = c.req.param('id')
+  const format = (c.req.query('format') || 'ipuz') as PuzzleFileFormat
+
+  if (format !== 'ipuz' && format !== 'puz') {
+    throw new HTTPException(400, { message: 'Unsupported format. Use puz or ipuz' })
+  }
+
+  try {
+    const puzzle = await PuzzleService.getPuzzleById(Number(id))
+    if (!puzzle) {
+      throw new HTTPException(404, { message: 'Puzzle not found' })
+    }
+
+    // Only admins get the solution; everyone else exports a blank puzzle. A
+    // .puz file can't be saved without its solution, so that's admins only
+    const isAdmin = !!optionalAuth(c)?.isAdmin
+    if (format === 'puz' && !isAdmin) {
+      throw new HTTPException(403, {
+        message: '.puz files always include the solution; export ipuz instead',
+      })
+    }
+    const portable = puzzleRowToPortable(puzzle)
+    if (!isAdmin) portable.answers = null
+    const safeTitle = String(puzzle.title).replace(/[^\w\- ]+/g, '').trim() || `puzzle-${id}`
+
+    if (format === 'puz') {
+      let bytes: Uint8Array
+      try {
+        bytes = toPuz(portable)
+      } catch (error: any) {
+        throw new HTTPException(400, { message: error.message })
+      }
+      return c.body(bytes as any, 200, {
+        'Content-Type': 'application/x-crossword',
+        'Content-Disposition': `attachment; filename="${safeTitle}.puz"`,
+      })
+    }
+
+    return c.body(JSON.stringify(toIpuz(portable)), 200, {
+      'Content-Type': 'application/x-ipuz+json',
+      'Content-Disposition': `attachment; filename="${safeTitle}.ipuz"`,
+    })
+  } catch (error: any) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error exporting puzzle:', error)
+    throw new HTTPException(500, { message: 'Failed to export puzzle' })
+  }
+})
+
 // GET /api/puzzles/:id
 puzzles.get('/:id', async (c) => {
   const id = c.req.param('id')
@@ -69,6 +204,11 @@ puzzles.get('/:id', async (c) => {
     const puzzle = await PuzzleService.getPuzzleById(Number(id))
 
     if (puzzle) {
+      // Answers are for the editor only; solvers check against the server
+      if (!optionalAuth(c)?.isAdmin) {
+        delete puzzle.answers
+      }
+      delete puzzle.answers_encrypted
       return c.json(puzzle)
     } else {
       throw new HTTPException(404, { message: 'Puzzle not found' })
@@ -84,7 +224,7 @@ puzzles.get('/:id', async (c) => {
 puzzles.post('/', async (c) => {
   requireAdmin(c)
   const body = await c.req.json().catch(() => ({}))
-  const { title, grid, clues, answers } = body
+  const { title, grid, clues, answers, rebus_cells } = body
 
   if (!title || !grid || !clues) {
     throw new HTTPException(400, { message: 'Missing required fields: title, grid, clues' })
@@ -92,7 +232,7 @@ puzzles.post('/', async (c) => {
 
   try {
     const serviceClues = { ...clues, answers_encrypted: answers }
-    const puzzle = await PuzzleService.createPuzzle(title, grid, serviceClues)
+    const puzzle = await PuzzleService.createPuzzle(title, grid, serviceClues, rebus_cells)
     return c.json(puzzle)
   } catch (error) {
     console.error('Error creating puzzle:', error)
@@ -105,7 +245,7 @@ puzzles.put('/:id', async (c) => {
   requireAdmin(c)
   const id = c.req.param('id')
   const body = await c.req.json().catch(() => ({}))
-  const { grid, clues, title, answers } = body
+  const { grid, clues, title, answers, rebus_cells } = body
 
   try {
     const result = await PuzzleService.updatePuzzle(Number(id), {
@@ -113,6 +253,7 @@ puzzles.put('/:id', async (c) => {
       clues,
       title,
       answers,
+      rebus_cells,
     } as any)
 
     if (result === null) {
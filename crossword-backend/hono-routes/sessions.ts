@@ -1,18 +1,69 @@
 import crypto from 'crypto'
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import { streamSSE } from 'hono/streaming'
 import { HTTPException } from 'hono/http-exception'
-import { requireAuth, optionalAuth, type AuthUser } from '../hono-middleware/auth'
-import { SessionService } from '../services/sessionService'
-import { SSEService } from '../services/sseService'
+import { requireAuth, optionalAuth, verifyToken, type AuthUser } from '../hono-middleware/auth'
+import { enforceRateLimit } from '../hono-middleware/rateLimit'
+import { SessionService, cellKey, type CellChange, type MergeResult } from '../services/sessionService'
+import { SSEService, type ClientIdentity, type Presence } from '../services/sseService'
 import { Broadcaster } from '../services/broadcaster'
 import { PushService } from '../services/pushService'
+import { StatsService } from '../services/statsService'
+import {
+  HintLadderService,
+  buildHintLadder,
+  type HintClue,
+  type HintRung,
+} from '../services/hintLadderService'
+import { CellMarkService, type MarkedCell } from '../services/cellMarkService'
+import { EditHistoryService } from '../services/editHistoryService'
+import { ChatService, MAX_MESSAGE_LENGTH } from '../services/chatService'
+import {
+  SessionAccessService,
+  isAccessMode,
+  isInviteRole,
+  type SessionAccess,
+  type SessionCaller,
+  type SessionRole,
+} from '../services/sessionAccessService'
+import { getCellAt } from '../utils/stateHelpers'
+import { parseGridString } from '../utils/gridIntegrityChecker'
+import { getEntryHead } from '../utils/linkedClues'
 import db from '../db-knex'
 
 type Variables = { user: AuthUser | null }
 
 const sessions = new Hono<{ Variables: Variables }>()
 
+// Guests are known by the anonymous id the client sends with every request
+// (as a header, or in the query where headers can't be set). Older clients
+// still put it in the body, so routes pass that along as a fallback.
+function getCaller(c: Context<{ Variables: Variables }>, bodyAnonymousId?: unknown): SessionCaller {
+  const user = c.get('user')
+  const sent = c.req.header('x-anonymous-id') || c.req.query('anonymousId') || bodyAnonymousId
+  const anonymousId = typeof sent === 'string' ? sent.trim() : ''
+  return { userId: user ? (user.id as number) : null, anonymousId: anonymousId || null }
+}
+
+// Throws 404 for unknown sessions and 403 when the caller's role is too low
+async function requireSessionRole(
+  c: Context<{ Variables: Variables }>,
+  sessionId: string,
+  minimum: SessionRole,
+  bodyAnonymousId?: unknown,
+): Promise<SessionAccess> {
+  const access = await SessionAccessService.getAccess(sessionId, getCaller(c, bodyAnonymousId))
+  if (!access) {
+    throw new HTTPException(404, { message: 'Session not found' })
+  }
+  if (!SessionAccessService.atLeast(access.role, minimum)) {
+    throw new HTTPException(403, {
+      message: access.role ? 'You can only watch this session' : 'You do not have access to this session',
+    })
+  }
+  return access
+}
+
 // GET /api/sessions - Get all sessions for authenticated user
 sessions.get('/', async (c) => {
   const user = requireAuth(c)
@@ -106,6 +157,7 @@ sessions.post('/go', async (c) => {
 // GET /api/sessions/:sessionId - Get session details
 sessions.get('/:sessionId', async (c) => {
   const sessionId = c.req.param('sessionId')
+  const access = await requireSessionRole(c, sessionId, 'spectator')
 
   try {
     const result = await SessionService.getSessionWithPuzzle(sessionId)
@@ -114,7 +166,18 @@ sessions.get('/:sessionId', async (c) => {
       throw new HTTPException(404, { message: 'Session or puzzle not found' })
     }
 
-    return c.json(result)
+    const [cellMarks, settings] = await Promise.all([
+      CellMarkService.getMarks(sessionId, result.sessionState),
+      CellMarkService.getSettings(sessionId),
+    ])
+
+    return c.json({
+      ...result,
+      role: access.role,
+      accessMode: access.mode,
+      autocheck: settings?.autocheck ?? false,
+      cellMarks,
+    })
   } catch (error: any) {
     if (error instanceof HTTPException) throw error
     console.error('Error fetching session:', error)
@@ -122,24 +185,37 @@ sessions.get('/:sessionId', async (c) => {
   }
 })
 
-// PUT /api/sessions/:sessionId - Update session state
+// PUT /api/sessions/:sessionId - Merge a full grid into the session state
+// Only cells that differ are written, each against the client's `cellVersions`,
+// so a stale snapshot can't overwrite newer letters
 sessions.put('/:sessionId', async (c) => {
   const sessionId = c.req.param('sessionId')
   const body = await c.req.json().catch(() => ({}))
-  const { state } = body
+  const { state, cellVersions } = body
 
-  if (state === undefined) {
+  if (!Array.isArray(state)) {
     throw new HTTPException(400, { message: 'Missing state' })
   }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
 
   try {
-    const updated = await SessionService.updateSessionState(sessionId, state)
+    const result = await SessionService.mergeState(sessionId, state, cellVersions || {})
 
-    if (!updated) {
+    if (!result) {
       throw new HTTPException(404, { message: 'Session not found' })
     }
 
-    return c.json({ success: true })
+    await EditHistoryService.recordEdits(
+      sessionId,
+      EditHistoryService.editorFor(c.get('user'), getCaller(c, body.anonymousId).anonymousId),
+      result.applied,
+    )
+
+    const senderId = c.req.query('socketId') || 'REST_API'
+    await Broadcaster.broadcastCellChanges(sessionId, result.applied, senderId)
+    await autocheckChanges(sessionId, result.applied)
+
+    return c.json({ success: true, ...summarizeMerge(result) })
   } catch (error: any) {
     if (error instanceof HTTPException) throw error
     console.error('Error updating session:', error)
@@ -147,9 +223,132 @@ sessions.put('/:sessionId', async (c) => {
   }
 })
 
+// Shape a merge result for the client: what landed, and what it should take from the server
+function summarizeMerge(result: MergeResult) {
+  return {
+    applied: result.applied.map(({ r, c, value, version, tentative }) => ({
+      r,
+      c,
+      value,
+      version,
+      tentative,
+    })),
+    rejected: result.rejected,
+  }
+}
+
+// Store check and reveal marks and show them to everyone in the session
+async function publishMarks(sessionId: string, marked: MarkedCell[]) {
+  if (marked.length === 0) return
+  await CellMarkService.setMarks(sessionId, marked)
+  await Broadcaster.broadcast(sessionId, 'cells_marked', {
+    marks: Object.fromEntries(marked.map(({ r, c, mark }) => [cellKey(r, c), mark])),
+  })
+}
+
+// With autocheck on, wrong letters are marked as soon as they land. The edit
+// itself has already been applied, so a failure here is only logged.
+async function autocheckChanges(
+  sessionId: string,
+  changes: Array<{ r: number; c: number; tentative?: boolean }>,
+) {
+  if (changes.length === 0) return
+  try {
+    const settings = await CellMarkService.getSettings(sessionId)
+    if (!settings?.autocheck) return
+
+    const state = await SessionService.getSessionState(sessionId)
+    if (!state) return
+
+    const { getSolutionCells } = await import('../utils/answerChecker')
+    const solution = await getSolutionCells(settings.puzzleId)
+    const tentative = new Set(changes.filter((c) => c.tentative).map((c) => cellKey(c.r, c.c)))
+    const { marked } = CellMarkService.markCells(solution, state, changes, tentative, true)
+    await publishMarks(sessionId, marked)
+  } catch (error) {
+    console.error('Error autochecking cells:', error)
+  }
+}
+
+// POST /api/sessions/:sessionId/merge - Replay cell edits made offline
+sessions.post('/:sessionId/merge', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const body = await c.req.json().catch(() => ({}))
+  const { updates, anonymousId } = body
+
+  if (!Array.isArray(updates)) {
+    throw new HTTPException(400, { message: 'Missing or invalid updates array' })
+  }
+
+  for (const update of updates) {
+    if (
+      !Number.isInteger(update?.r) ||
+      !Number.isInteger(update?.c) ||
+      typeof update.value !== 'string' ||
+      !Number.isInteger(update.baseVersion)
+    ) {
+      throw new HTTPException(400, {
+        message: 'Each update needs integer r, c and baseVersion, and a string value',
+      })
+    }
+  }
+  await requireSessionRole(c, sessionId, 'editor', anonymousId)
+
+  try {
+    const result = await SessionService.mergeCells(
+      sessionId,
+      updates.map(({ r, c: col, value, baseVersion, tentative }) => ({
+        r,
+        c: col,
+        value,
+        baseVersion,
+        tentative: tentative === true,
+      })),
+    )
+
+    if (!result) {
+      throw new HTTPException(404, { message: 'Session not found' })
+    }
+
+    await EditHistoryService.recordEdits(
+      sessionId,
+      EditHistoryService.editorFor(c.get('user'), getCaller(c, anonymousId).anonymousId),
+      result.applied,
+    )
+
+    const senderId = c.req.query('socketId') || 'REST_API'
+    await Broadcaster.broadcastCellChanges(sessionId, result.applied, senderId)
+    await autocheckChanges(sessionId, result.applied)
+
+    return c.json({ success: true, ...summarizeMerge(result) })
+  } catch (error) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error merging offline edits:', error)
+    throw new HTTPException(500, { message: 'Failed to merge edits' })
+  }
+})
+
 // POST /api/sessions/:sessionId/check - Check answers
+// `scope` picks what to check: 'grid' (default) checks every finished word,
+// 'word' the filled letters of { target: { number, direction } } and 'letter'
+// the cell { target: { r, c } }. Pencilled-in letters are guesses and left
+// unchecked. Checked letters are marked for everyone in the session.
 sessions.post('/:sessionId/check', async (c) => {
   const sessionId = c.req.param('sessionId')
+  const body = await c.req.json().catch(() => ({}))
+  const scope = body.scope ?? 'grid'
+  const target = body.target ?? {}
+
+  if (scope !== 'grid' && scope !== 'word' && scope !== 'letter') {
+    throw new HTTPException(400, { message: "scope must be 'grid', 'word' or 'letter'" })
+  }
+  if (scope === 'word' && (!Number.isInteger(target.number) || !parseDirection(target.direction))) {
+    throw new HTTPException(400, { message: 'Checking a word needs target.number and target.direction' })
+  }
+  if (scope === 'letter' && (!Number.isInteger(target.r) || !Number.isInteger(target.c))) {
+    throw new HTTPException(400, { message: 'Checking a letter needs target.r and target.c' })
+  }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
 
   try {
     const session = await SessionService.getSessionWithPuzzle(sessionId)
@@ -157,33 +356,168 @@ sessions.post('/:sessionId/check', async (c) => {
       throw new HTTPException(404, { message: 'Session not found' })
     }
 
-    const { checkSessionAnswers } = await import('../utils/answerChecker')
-    const { results } = await checkSessionAnswers(session.id, session.sessionState)
-
-    const incorrect = results.filter((r) => !r.isCorrect)
-    const errorCells: string[] = []
-    incorrect.forEach((item) => {
-      item.cells.forEach((cell) => {
-        errorCells.push(`${cell.r}-${cell.c}`)
+    const {
+      checkSessionAnswers,
+      extractClueMetadata,
+      findAnswerLights,
+      getEntryCells,
+      getSolutionCells,
+      groupLinkedLights,
+    } = await import('../utils/answerChecker')
+    const tentative = new Set<string>(session.tentativeCells)
+    const { results, totalLetters, filledLetters, tentativeSkipped } = await checkSessionAnswers(
+      session.id,
+      session.sessionState,
+      tentative,
+    )
+    const solution = await getSolutionCells(session.id)
+    const isComplete =
+      filledLetters === totalLetters && tentativeSkipped === 0 && results.every((r) => r.isCorrect)
+
+    let response
+    let marked: MarkedCell[]
+
+    if (scope === 'grid') {
+      // Whole words are checked, but each of their letters is marked
+      const incorrect = results.filter((r) => !r.isCorrect)
+      const errorCells: string[] = []
+      incorrect.forEach((item) => {
+        item.cells.forEach((cell) => {
+          errorCells.push(`${cell.r}-${cell.c}`)
+        })
       })
-    })
+      marked = CellMarkService.markCells(
+        solution,
+        session.sessionState,
+        results.flatMap((r) => r.cells),
+        tentative,
+      ).marked
+
+      response = {
+        incorrectCount: incorrect.length,
+        errorCells,
+        totalChecked: results.length,
+        isComplete,
+        tentativeSkipped,
+      }
+    } else {
+      let cells: Array<{ r: number; c: number }>
+      if (scope === 'word') {
+        // A linked answer is checked across all of its lights
+        const grid = parseGridString(session.grid)
+        const entry = findAnswerLights(
+          groupLinkedLights(extractClueMetadata(grid), session.clues),
+          target,
+        )
+        if (!entry) {
+          throw new HTTPException(404, { message: 'Clue not found in grid' })
+        }
+        cells = getEntryCells(grid, entry)
+      } else {
+        if (!solution.has(cellKey(target.r, target.c))) {
+          throw new HTTPException(404, { message: 'Answer not found for this cell' })
+        }
+        cells = [{ r: target.r, c: target.c }]
+      }
+
+      // Letters are checked one by one, so unfinished words can be checked too
+      const checked = CellMarkService.markCells(solution, session.sessionState, cells, tentative)
+      marked = checked.marked
+      const errorCells = marked.filter((m) => m.mark === 'incorrect').map((m) => cellKey(m.r, m.c))
+
+      response = {
+        incorrectCount: errorCells.length,
+        errorCells,
+        totalChecked: marked.length,
+        isComplete,
+        tentativeSkipped: checked.tentativeSkipped,
+      }
+    }
+
+    await publishMarks(sessionId, marked)
+    await StatsService.recordCheck(sessionId)
 
-    return c.json({ success: true, incorrectCount: incorrect.length, errorCells })
+    return c.json({
+      success: true,
+      scope,
+      ...response,
+      marks: Object.fromEntries(marked.map(({ r, c: col, mark }) => [cellKey(r, col), mark])),
+    })
   } catch (error) {
+    if (error instanceof HTTPException) throw error
     console.error('Error checking session:', error)
     throw new HTTPException(500, { message: 'Failed to check session' })
   }
 })
 
+// POST /api/sessions/:sessionId/check-word - Check one word the solver has filled in
+// Only the letters saved in the session are checked, so clients send it once the
+// cell update has been answered. A linked answer is one word across all of its
+// lights, in order. The response never includes the answer.
+sessions.post('/:sessionId/check-word', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const body = await c.req.json().catch(() => ({}))
+  const { number, direction } = body
+
+  if (typeof number !== 'number' || (direction !== 'across' && direction !== 'down')) {
+    throw new HTTPException(400, { message: 'Missing number or direction' })
+  }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
+
+  try {
+    const session = await SessionService.getSessionWithPuzzle(sessionId)
+    if (!session) {
+      throw new HTTPException(404, { message: 'Session not found' })
+    }
+
+    const { checkSessionAnswers, extractClueMetadata, findAnswerLights, groupLinkedLights } =
+      await import('../utils/answerChecker')
+    const grid = parseGridString(session.grid)
+    const entry = findAnswerLights(groupLinkedLights(extractClueMetadata(grid), session.clues), {
+      number,
+      direction,
+    })
+    if (!entry) {
+      throw new HTTPException(404, { message: 'Clue not found in grid' })
+    }
+
+    const { results, totalLetters, filledLetters, tentativeSkipped } = await checkSessionAnswers(
+      session.id,
+      session.sessionState,
+      new Set(session.tentativeCells),
+    )
+    const { head } = entry
+    const result = results.find((r) => r.number === head.number && r.direction === head.direction)
+
+    return c.json({
+      success: true,
+      // null while the word is incomplete, pencilled in, or has no answer on file
+      isCorrect: result ? result.isCorrect : null,
+      puzzleComplete:
+        filledLetters === totalLetters &&
+        tentativeSkipped === 0 &&
+        results.every((r) => r.isCorrect),
+    })
+  } catch (error: any) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error checking word:', error)
+    throw new HTTPException(500, { message: 'Failed to check word' })
+  }
+})
+
 // POST /api/sessions/:sessionId/hint - Get hint
+// Reveals a letter, a word or (type 'grid', no target) every wrong or empty
+// cell. Unless dryRun is set the letters are written to the grid and marked
+// as revealed.
 sessions.post('/:sessionId/hint', async (c) => {
   const sessionId = c.req.param('sessionId')
   const body = await c.req.json().catch(() => ({}))
   const { type, target, dryRun } = body
 
-  if (!type || !target) {
+  if (!type || (!target && type !== 'grid')) {
     throw new HTTPException(400, { message: 'Missing type or target' })
   }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
 
   try {
     const session = await SessionService.getSessionWithPuzzle(sessionId)
@@ -191,9 +525,15 @@ sessions.post('/:sessionId/hint', async (c) => {
       throw new HTTPException(404, { message: 'Session not found' })
     }
 
-    const { getCorrectAnswersStructure, rot13, extractClueMetadata } = await import(
-      '../utils/answerChecker'
-    )
+    const {
+      getCorrectAnswersStructure,
+      rot13,
+      extractClueMetadata,
+      findAnswerLights,
+      getEntryCells,
+      groupLinkedLights,
+      splitAnswer,
+    } = await import('../utils/answerChecker')
     const { puzzle, puzzleAnswers } = await getCorrectAnswersStructure(session.id)
 
     if (!puzzleAnswers) {
@@ -201,52 +541,71 @@ sessions.post('/:sessionId/hint', async (c) => {
     }
 
     let valueToReveal = ''
+    let revealed: CellChange[] = []
 
     if (type === 'letter') {
-      const { r, c } = target
-      const grid = puzzle.grid.split('\n').map((row: string) => row.trim().split(' ') as any[])
-      const metadata = extractClueMetadata(grid)
+      const grid = parseGridString(puzzle.grid)
+      const entries = groupLinkedLights(extractClueMetadata(grid), puzzle.clues)
+
+      // Target is either a cell ({ r, c }) or a position within a clue
+      // ({ number, direction, index }) for reveals that don't touch the grid.
+      // The index counts along the whole answer when the clue is linked.
+      let { r, c: col } = target
+      if (r === undefined || col === undefined) {
+        const entry = findAnswerLights(entries, target)
+        const cell =
+          entry && typeof target.index === 'number' ? getEntryCells(grid, entry)[target.index] : undefined
+        if (!cell) {
+          throw new HTTPException(404, { message: 'Clue not found in grid' })
+        }
+        r = cell.r
+        col = cell.c
+      }
 
       let found = false
-      for (const item of metadata) {
-        let cr = item.row
-        let cc = item.col
-        let index = 0
-        while (cr < grid.length && cc < grid[0].length && grid[cr][cc] !== 'B') {
-          if (cr === r && cc === c) {
-            const list = puzzleAnswers[item.direction]
-            const answerEntry = list?.find((a: any) => a.number === item.number)
-            if (answerEntry) {
-              const decrypted = rot13(answerEntry.answer)
-                .toUpperCase()
-                .replace(/[^A-Z]/g, '')
-              valueToReveal = decrypted[index] || ''
-              found = true
-              break
-            }
-          }
-          if (item.direction === 'across') cc++
-          else cr++
-          index++
+      for (const entry of entries) {
+        const item = entry.head
+        const cells = getEntryCells(grid, entry)
+        const index = cells.findIndex((cell) => cell.r === r && cell.c === col)
+        if (index === -1) continue
+
+        const list = puzzleAnswers[item.direction]
+        const answerEntry = list?.find((a: any) => a.number === item.number)
+        if (answerEntry) {
+          const decrypted = rot13(answerEntry.answer)
+            .toUpperCase()
+            .replace(/[^A-Z]/g, '')
+          // A rebus cell reveals all of its letters
+          valueToReveal = splitAnswer(decrypted, cells, puzzle.rebus_cells)[index] || ''
+          found = true
+          break
         }
-        if (found) break
       }
 
       if (!found) {
         throw new HTTPException(404, { message: 'Answer not found for this cell' })
       }
 
+      await StatsService.recordHint(sessionId, 'letter')
+
       if (dryRun) {
         return c.json({ success: true, value: valueToReveal })
       }
 
-      await SessionService.updateCell(sessionId, r, c, valueToReveal)
-      const senderId = c.req.query('socketId') || 'REST_API'
-      await Broadcaster.broadcastCellUpdate(sessionId, r, c, valueToReveal, senderId)
+      revealed = await SessionService.updateCell(sessionId, r, col, valueToReveal)
     } else if (type === 'word') {
-      const { number, direction } = target
-      const list = puzzleAnswers[direction]
-      const answerEntry = list?.find((a: any) => a.number === number)
+      // A linked answer is revealed across all of its lights
+      const grid = parseGridString(puzzle.grid)
+      const entry = findAnswerLights(
+        groupLinkedLights(extractClueMetadata(grid), puzzle.clues),
+        target,
+      )
+      if (!entry) {
+        throw new HTTPException(404, { message: 'Clue not found in grid' })
+      }
+
+      const list = puzzleAnswers[entry.head.direction]
+      const answerEntry = list?.find((a: any) => a.number === entry.head.number)
 
       if (!answerEntry) {
         throw new HTTPException(404, { message: 'Answer not found for this clue' })
@@ -257,38 +616,58 @@ sessions.post('/:sessionId/hint', async (c) => {
         .replace(/[^A-Z]/g, '')
       valueToReveal = decrypted
 
-      const grid = puzzle.grid.split('\n').map((row: string) => row.trim().split(' ') as any[])
-      const metadata = extractClueMetadata(grid)
-      const clueInfo = metadata.find((m) => m.number === number && m.direction === direction)
-
-      if (!clueInfo) {
-        throw new HTTPException(404, { message: 'Clue not found in grid' })
-      }
-
-      let r = clueInfo.row
-      let cc = clueInfo.col
+      await StatsService.recordHint(sessionId, 'word')
 
       if (dryRun) {
         return c.json({ success: true, value: valueToReveal })
       }
 
-      const cellUpdates: Array<{ r: number; c: number; value: string }> = []
-      for (let i = 0; i < decrypted.length; i++) {
-        cellUpdates.push({ r, c: cc, value: decrypted[i] || '' })
-        if (direction === 'across') cc++
-        else r++
-      }
+      const cells = getEntryCells(grid, entry)
+      const cellUpdates = splitAnswer(decrypted, cells, puzzle.rebus_cells)
+        .map((value, i) => ({ ...cells[i]!, value }))
+        .filter((update) => update.value)
+
+      revealed = await SessionService.updateCells(sessionId, cellUpdates)
+    } else if (type === 'grid') {
+      const { getSolutionCells } = await import('../utils/answerChecker')
+      const solution = await getSolutionCells(session.id)
+      const state = session.sessionState as string[]
+
+      // Letters that are already right stay as they are, and unmarked
+      const cellUpdates = [...solution]
+        .filter(([key, value]) => {
+          const [r, col] = key.split('-').map(Number)
+          return getCellAt(state, r!, col!).trim().toUpperCase() !== value
+        })
+        .map(([key, value]) => {
+          const [r, col] = key.split('-').map(Number)
+          return { r: r!, c: col!, value }
+        })
 
-      await SessionService.updateCells(sessionId, cellUpdates)
-      const senderId = c.req.query('socketId') || 'REST_API'
-      for (const update of cellUpdates) {
-        await Broadcaster.broadcastCellUpdate(sessionId, update.r, update.c, update.value, senderId)
-      }
+      revealed = await SessionService.updateCells(sessionId, cellUpdates)
+      await StatsService.recordHint(sessionId, 'letter', revealed.length)
     } else {
       throw new HTTPException(400, { message: 'Invalid hint type' })
     }
 
-    return c.json({ success: true, value: valueToReveal })
+    await EditHistoryService.recordEdits(
+      sessionId,
+      EditHistoryService.editorFor(c.get('user'), getCaller(c, body.anonymousId).anonymousId),
+      revealed,
+    )
+    const senderId = c.req.query('socketId') || 'REST_API'
+    await Broadcaster.broadcastCellChanges(sessionId, revealed, senderId)
+    await publishMarks(
+      sessionId,
+      revealed.map(({ r, c: col, value }) => ({ r, c: col, mark: 'revealed' as const, value })),
+    )
+
+    return c.json({
+      success: true,
+      value: valueToReveal,
+      // What was written, so the caller can apply it without waiting for the broadcast
+      cells: revealed.map(({ r, c: col, value, version }) => ({ r, c: col, value, version })),
+    })
   } catch (error: any) {
     if (error instanceof HTTPException) throw error
     console.error('Error providing hint:', error)
@@ -296,16 +675,61 @@ sessions.post('/:sessionId/hint', async (c) => {
   }
 })
 
+// GET /api/sessions/:sessionId/timer - Get persisted solve time
+sessions.get('/:sessionId/timer', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  await requireSessionRole(c, sessionId, 'spectator')
+
+  try {
+    const seconds = await StatsService.getSolveTime(sessionId)
+    if (seconds === null) {
+      throw new HTTPException(404, { message: 'Session not found' })
+    }
+
+    return c.json({ seconds })
+  } catch (error: any) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error fetching solve time:', error)
+    throw new HTTPException(500, { message: 'Failed to fetch solve time' })
+  }
+})
+
+// PUT /api/sessions/:sessionId/timer - Persist solve time reported by the client
+sessions.put('/:sessionId/timer', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const body = await c.req.json().catch(() => ({}))
+  const { seconds } = body
+
+  if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0) {
+    throw new HTTPException(400, { message: 'seconds must be a non-negative number' })
+  }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
+
+  try {
+    const stored = await StatsService.recordSolveTime(sessionId, seconds)
+    if (stored === null) {
+      throw new HTTPException(404, { message: 'Session not found' })
+    }
+
+    return c.json({ seconds: stored })
+  } catch (error: any) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error saving solve time:', error)
+    throw new HTTPException(500, { message: 'Failed to save solve time' })
+  }
+})
+
 // POST /api/sessions/:sessionId/explain - Get explanation for a clue
 sessions.post('/:sessionId/explain', async (c) => {
   const user = c.get('user')
   const sessionId = c.req.param('sessionId')
   const body = await c.req.json().catch(() => ({}))
-  const { clueNumber, direction, cachedOnly } = body
+  const { cachedOnly } = body
 
-  if (!clueNumber || !direction) {
+  if (!body.clueNumber || !body.direction) {
     throw new HTTPException(400, { message: 'Missing clueNumber or direction' })
   }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
 
   const requestId = crypto.randomUUID()
 
@@ -315,6 +739,12 @@ sessions.post('/:sessionId/explain', async (c) => {
       throw new HTTPException(404, { message: 'Session not found' })
     }
 
+    // Linked lights share one clue and answer, so they share one explanation
+    const { number: clueNumber, direction } = getEntryHead(session.clues, {
+      number: body.clueNumber,
+      direction: body.direction,
+    })
+
     const { ExplanationService } = await import('../services/explanationService')
     const cached = await ExplanationService.getCachedExplanation(session.id, clueNumber, direction)
 
@@ -334,6 +764,9 @@ sessions.post('/:sessionId/explain', async (c) => {
       })
     }
 
+    // Cached explanations are free; only charge requests that reach the model
+    await enforceRateLimit(c, 'explain')
+
     // Return 202 immediately and process in background
     setImmediate(async () => {
       try {
@@ -414,6 +847,7 @@ sessions.post('/:sessionId/report-explanation', async (c) => {
   if (!clueNumber || !direction) {
     throw new HTTPException(400, { message: 'Missing clueNumber or direction' })
   }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
 
   try {
     const session = await SessionService.getSessionWithPuzzle(sessionId)
@@ -442,6 +876,96 @@ sessions.post('/:sessionId/report-explanation', async (c) => {
   }
 })
 
+// The hint ladder for a clue, built from its cached explanation. Players
+// generate explanations from the Explain tab; the ladder never calls the model.
+// Linked lights share one ladder, kept under the light that carries the clue.
+async function loadHintLadder(
+  sessionId: string,
+  requested: { number: number; direction: 'across' | 'down' },
+): Promise<{ clue: HintClue; rungs: HintRung[] }> {
+  const session = await SessionService.getSessionWithPuzzle(sessionId)
+  if (!session) {
+    throw new HTTPException(404, { message: 'Session not found' })
+  }
+
+  const { number: clueNumber, direction } = getEntryHead(session.clues, requested)
+
+  const { ExplanationService } = await import('../services/explanationService')
+  const explanation = await ExplanationService.getCachedExplanation(session.id, clueNumber, direction)
+  if (!explanation) {
+    throw new HTTPException(404, { message: 'Explanation not cached yet' })
+  }
+
+  const { getCorrectAnswersStructure, rot13 } = await import('../utils/answerChecker')
+  const { puzzleAnswers } = await getCorrectAnswersStructure(session.id)
+  const answerEntry = puzzleAnswers?.[direction]?.find((a: any) => a.number === clueNumber)
+  if (!answerEntry) {
+    throw new HTTPException(404, { message: 'Answer not found for this clue' })
+  }
+
+  return {
+    clue: { sessionId, clueNumber, direction },
+    rungs: buildHintLadder(explanation, rot13(answerEntry.answer).toUpperCase()),
+  }
+}
+
+// GET /api/sessions/:sessionId/hint-ladder - Hint levels used so far for a clue
+sessions.get('/:sessionId/hint-ladder', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const clueNumber = Number(c.req.query('clueNumber'))
+  const direction = parseDirection(c.req.query('direction'))
+
+  if (!Number.isInteger(clueNumber) || !direction) {
+    throw new HTTPException(400, { message: 'Missing clueNumber or direction' })
+  }
+  await requireSessionRole(c, sessionId, 'editor')
+
+  try {
+    const { clue, rungs } = await loadHintLadder(sessionId, { number: clueNumber, direction })
+    const level = await HintLadderService.getLevel(clue)
+
+    return c.json(HintLadderService.view(rungs, level))
+  } catch (error: any) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error loading hint ladder:', error)
+    throw new HTTPException(500, { message: 'Failed to load hint ladder' })
+  }
+})
+
+// POST /api/sessions/:sessionId/hint-ladder - Reveal the next hint level for a clue
+sessions.post('/:sessionId/hint-ladder', async (c) => {
+  const user = c.get('user')
+  const sessionId = c.req.param('sessionId')
+  const body = await c.req.json().catch(() => ({}))
+  const clueNumber = body.clueNumber
+  const direction = parseDirection(body.direction)
+
+  if (!Number.isInteger(clueNumber) || !direction) {
+    throw new HTTPException(400, { message: 'Missing clueNumber or direction' })
+  }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
+
+  try {
+    const { clue, rungs } = await loadHintLadder(sessionId, { number: clueNumber, direction })
+    const level = await HintLadderService.getLevel(clue)
+    const rung = rungs[level]
+
+    if (rung) {
+      await HintLadderService.recordLevel(clue, rung, user ? (user.id as number) : null)
+      // Reaching the answer counts like any other revealed word
+      if (rung.kind === 'answer') {
+        await StatsService.recordHint(sessionId, 'word')
+      }
+    }
+
+    return c.json(HintLadderService.view(rungs, level + 1))
+  } catch (error: any) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error revealing hint level:', error)
+    throw new HTTPException(500, { message: 'Failed to reveal hint' })
+  }
+})
+
 // POST /api/sessions/:sessionId/claim - Claim a word
 sessions.post('/:sessionId/claim', async (c) => {
   const sessionId = c.req.param('sessionId')
@@ -451,20 +975,22 @@ sessions.post('/:sessionId/claim', async (c) => {
   if (!sessionId || !clueKey || !username) {
     throw new HTTPException(400, { message: 'Missing sessionId, clueKey, or username' })
   }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
 
   try {
-    const claimed = await SessionService.recordWordAttribution(
+    // Linked lights are claimed under the light with their clue
+    const claimedKey = await SessionService.recordWordAttribution(
       sessionId,
       clueKey,
       userId || null,
       username,
     )
 
-    if (claimed) {
+    if (claimedKey) {
       const timestamp = new Date().toISOString()
 
       await Broadcaster.broadcast(sessionId, 'word_claimed', {
-        clueKey,
+        clueKey: claimedKey,
         userId: userId || null,
         username,
         timestamp,
@@ -480,7 +1006,13 @@ sessions.post('/:sessionId/claim', async (c) => {
           .first()
 
         if (session) {
-          void PushService.notifyOnWordClaim(sessionId, session.title, userId || null, username, clueKey)
+          void PushService.notifyOnWordClaim(
+            sessionId,
+            session.title,
+            userId || null,
+            username,
+            claimedKey,
+          )
         }
       } catch (notifyError) {
         // Don't fail the claim if notifications fail
@@ -488,7 +1020,7 @@ sessions.post('/:sessionId/claim', async (c) => {
       }
     }
 
-    return c.json({ success: true, claimed })
+    return c.json({ success: true, claimed: claimedKey !== null })
   } catch (error: any) {
     if (error instanceof HTTPException) throw error
     console.error('Error claiming word via HTTP:', error)
@@ -496,9 +1028,49 @@ sessions.post('/:sessionId/claim', async (c) => {
   }
 })
 
+const MAX_DISPLAY_NAME_LENGTH = 40
+
+// EventSource can't send auth headers, so the client names itself in the query
+function getClientIdentity(c: Context<{ Variables: Variables }>): ClientIdentity {
+  const user = c.get('user')
+  if (user) {
+    return { userId: user.id as number, username: user.username }
+  }
+
+  const username = (c.req.query('username') || '').trim().slice(0, MAX_DISPLAY_NAME_LENGTH)
+  const userId = Number(c.req.query('userId'))
+  return {
+    userId: Number.isInteger(userId) && userId > 0 ? userId : null,
+    username: username || 'Guest',
+  }
+}
+
+function parseDirection(value: unknown): 'across' | 'down' | null {
+  return value === 'across' || value === 'down' ? value : null
+}
+
+function parseCursor(value: any): Presence['cursor'] {
+  const direction = parseDirection(value?.direction)
+  if (!direction || !Number.isInteger(value.r) || !Number.isInteger(value.c)) return null
+  return { r: value.r, c: value.c, direction }
+}
+
+function parseClue(value: any): Presence['clue'] {
+  const direction = parseDirection(value?.direction)
+  if (!direction || !Number.isInteger(value.number)) return null
+  return { number: value.number, direction }
+}
+
 // GET /api/sessions/:sessionId/events - SSE endpoint
 sessions.get('/:sessionId/events', async (c) => {
   const sessionId = c.req.param('sessionId')
+  // Nor can it send the Authorization header, so logged-in clients pass their token
+  if (!c.get('user')) {
+    c.set('user', verifyToken(c.req.query('token')))
+  }
+  await requireSessionRole(c, sessionId, 'spectator')
+  const identity = getClientIdentity(c)
+  const caller = getCaller(c)
 
   return streamSSE(c, async (stream) => {
     let clientId: string | null = null
@@ -508,10 +1080,13 @@ sessions.get('/:sessionId/events', async (c) => {
       write(data: string) {
         stream.write(data)
       },
+      close() {
+        void stream.close()
+      },
     } as any
 
     // Add client to SSE service
-    clientId = SSEService.addClient(sessionId, writer)
+    clientId = SSEService.addClient(sessionId, writer, identity, caller)
 
     // Send initial connection message
     await stream.writeSSE({
@@ -519,6 +1094,12 @@ sessions.get('/:sessionId/events', async (c) => {
       data: JSON.stringify({ socketId: clientId }),
     })
 
+    // Tell the newcomer who else is here
+    await stream.writeSSE({
+      event: 'presence',
+      data: JSON.stringify({ clients: SSEService.getPresence(sessionId, clientId) }),
+    })
+
     // Send initial puzzle snapshot
     try {
       const state = await SessionService.getSessionState(sessionId)
@@ -539,30 +1120,134 @@ sessions.get('/:sessionId/events', async (c) => {
       }
     })
 
-    // Keep the connection open
-    while (true) {
+    // Keep the connection open until the client leaves or loses access
+    while (!stream.closed && !stream.aborted) {
       await stream.sleep(30000) // Sleep for 30 seconds
     }
   })
 })
 
+// POST /api/sessions/:sessionId/presence - Share the caller's selected cell and clue
+sessions.post('/:sessionId/presence', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const socketId = c.req.query('socketId')
+  const body = await c.req.json().catch(() => ({}))
+
+  if (!socketId) {
+    throw new HTTPException(400, { message: 'Missing socketId' })
+  }
+  await requireSessionRole(c, sessionId, 'spectator')
+
+  // Only whoever opened the connection may move its cursor
+  const openedByCaller = SSEService.isOpenedBy(sessionId, socketId, getCaller(c))
+  if (openedByCaller === null) {
+    throw new HTTPException(404, { message: 'Connection not found' })
+  }
+  if (!openedByCaller) {
+    throw new HTTPException(403, { message: 'This connection belongs to someone else' })
+  }
+
+  const presence = SSEService.updatePresence(sessionId, socketId, {
+    cursor: parseCursor(body.cursor),
+    clue: parseClue(body.clue),
+  })
+
+  if (!presence) {
+    throw new HTTPException(404, { message: 'Connection not found' })
+  }
+
+  await Broadcaster.broadcast(sessionId, 'presence_updated', presence, socketId)
+
+  return c.json({ success: true })
+})
+
+// GET /api/sessions/:sessionId/messages - Chat history, oldest first
+sessions.get('/:sessionId/messages', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  await requireSessionRole(c, sessionId, 'spectator')
+  const before = Number(c.req.query('before'))
+  const limit = Number(c.req.query('limit'))
+
+  try {
+    const messages = await ChatService.getMessages(sessionId, {
+      before: Number.isInteger(before) && before > 0 ? before : undefined,
+      limit: Number.isInteger(limit) && limit > 0 ? limit : undefined,
+    })
+    return c.json(messages)
+  } catch (error) {
+    console.error('Error fetching chat messages:', error)
+    throw new HTTPException(500, { message: 'Failed to fetch messages' })
+  }
+})
+
+// POST /api/sessions/:sessionId/messages - Send a chat message to everyone in the session
+sessions.post('/:sessionId/messages', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const body = await c.req.json().catch(() => ({}))
+  const text = typeof body.body === 'string' ? body.body.trim() : ''
+
+  if (!text) {
+    throw new HTTPException(400, { message: 'Message cannot be empty' })
+  }
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    throw new HTTPException(400, {
+      message: `Message must be at most ${MAX_MESSAGE_LENGTH} characters`,
+    })
+  }
+  // Guests are who their X-Anonymous-Id header says, never what the body claims
+  await requireSessionRole(c, sessionId, 'editor')
+
+  const user = c.get('user')
+  const nickname = typeof body.username === 'string' ? body.username.trim() : ''
+  const author = user
+    ? { userId: user.id as number, anonymousId: null, username: user.username }
+    : {
+        userId: null,
+        anonymousId: getCaller(c).anonymousId,
+        username: nickname.slice(0, MAX_DISPLAY_NAME_LENGTH) || 'Guest',
+      }
+
+  try {
+    const message = await ChatService.postMessage(sessionId, author, text)
+    if (!message) {
+      throw new HTTPException(404, { message: 'Session not found' })
+    }
+
+    const senderId = c.req.query('socketId') || 'REST_API'
+    await Broadcaster.broadcast(sessionId, 'chat_message', message, senderId)
+
+    return c.json(message, 201)
+  } catch (error) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error sending chat message:', error)
+    throw new HTTPException(500, { message: 'Failed to send message' })
+  }
+})
+
 // POST /api/sessions/:sessionId/cell - Update single cell
 sessions.post('/:sessionId/cell', async (c) => {
   const sessionId = c.req.param('sessionId')
   const body = await c.req.json().catch(() => ({}))
-  const { r, c: col, value } = body
+  const { r, c: col, value, tentative, anonymousId } = body
 
   if (r === undefined || col === undefined || value === undefined) {
     throw new HTTPException(400, { message: 'Missing r, c, or value' })
   }
+  await requireSessionRole(c, sessionId, 'editor', anonymousId)
 
   try {
-    await SessionService.updateCell(sessionId, r, col, value)
+    const changes = await SessionService.updateCell(sessionId, r, col, value, tentative === true)
+    await EditHistoryService.recordEdits(
+      sessionId,
+      EditHistoryService.editorFor(c.get('user'), getCaller(c, anonymousId).anonymousId),
+      changes,
+    )
 
     const senderId = c.req.query('socketId') || 'REST_API'
-    await Broadcaster.broadcastCellUpdate(sessionId, r, col, value, senderId)
+    await Broadcaster.broadcastCellChanges(sessionId, changes, senderId)
+    await autocheckChanges(sessionId, changes)
 
-    return c.json({ success: true })
+    return c.json({ success: true, version: changes[0]?.version ?? null })
   } catch (error) {
     console.error('Error updating cell:', error)
     throw new HTTPException(500, { message: 'Failed to update cell' })
@@ -573,7 +1258,7 @@ sessions.post('/:sessionId/cell', async (c) => {
 sessions.post('/:sessionId/cells', async (c) => {
   const sessionId = c.req.param('sessionId')
   const body = await c.req.json().catch(() => ({}))
-  const { updates } = body
+  const { updates, anonymousId } = body
 
   if (!Array.isArray(updates)) {
     throw new HTTPException(400, { message: 'Missing or invalid updates array' })
@@ -584,25 +1269,92 @@ sessions.post('/:sessionId/cells', async (c) => {
       throw new HTTPException(400, { message: 'Missing r, c, or value in update item' })
     }
   }
+  await requireSessionRole(c, sessionId, 'editor', anonymousId)
 
   try {
-    await SessionService.updateCells(sessionId, updates)
+    const changes = await SessionService.updateCells(
+      sessionId,
+      updates.map(({ r, c: col, value, tentative }) => ({
+        r,
+        c: col,
+        value,
+        tentative: tentative === true,
+      })),
+    )
+    await EditHistoryService.recordEdits(
+      sessionId,
+      EditHistoryService.editorFor(c.get('user'), getCaller(c, anonymousId).anonymousId),
+      changes,
+    )
 
     const senderId = c.req.query('socketId') || 'REST_API'
-    for (const update of updates) {
-      await Broadcaster.broadcastCellUpdate(sessionId, update.r, update.c, update.value, senderId)
-    }
+    await Broadcaster.broadcastCellChanges(sessionId, changes, senderId)
+    await autocheckChanges(sessionId, changes)
 
-    return c.json({ success: true })
+    return c.json({
+      success: true,
+      versions: changes.map(({ r, c: col, version }) => ({ r, c: col, version })),
+    })
   } catch (error) {
     console.error('Error updating cells in bulk:', error)
     throw new HTTPException(500, { message: 'Failed to update cells' })
   }
 })
 
+// POST /api/sessions/:sessionId/undo - Revert the caller's most recent edit
+// POST /api/sessions/:sessionId/redo - Re-apply the caller's most recently undone edit
+for (const action of ['undo', 'redo'] as const) {
+  sessions.post(`/:sessionId/${action}`, async (c) => {
+    const sessionId = c.req.param('sessionId')
+    const body = await c.req.json().catch(() => ({}))
+
+    const editor = EditHistoryService.editorFor(
+      c.get('user'),
+      getCaller(c, body.anonymousId).anonymousId,
+    )
+    if (!editor) {
+      throw new HTTPException(400, { message: 'Missing anonymousId' })
+    }
+    await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
+
+    try {
+      const cells = await EditHistoryService[action](sessionId, editor)
+
+      const senderId = c.req.query('socketId') || 'REST_API'
+      const versions = await SessionService.getCellVersions(sessionId)
+      await Broadcaster.broadcastCellChanges(
+        sessionId,
+        (cells ?? []).map((cell) => ({ ...cell, version: versions[cellKey(cell.r, cell.c)] })),
+        senderId,
+      )
+      await autocheckChanges(sessionId, cells ?? [])
+
+      return c.json({ success: true, done: cells !== null, cells: cells ?? [] })
+    } catch (error) {
+      console.error(`Error performing ${action}:`, error)
+      throw new HTTPException(500, { message: `Failed to ${action}` })
+    }
+  })
+}
+
+// GET /api/sessions/:sessionId/edits - Recent cell edit history
+sessions.get('/:sessionId/edits', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  await requireSessionRole(c, sessionId, 'editor')
+
+  try {
+    const edits = await EditHistoryService.getHistory(sessionId)
+    return c.json(edits)
+  } catch (error) {
+    console.error('Error fetching edit history:', error)
+    throw new HTTPException(500, { message: 'Failed to fetch edit history' })
+  }
+})
+
 // POST /api/sessions/:sessionId/puzzle-complete - Broadcast puzzle completion to all session clients
 sessions.post('/:sessionId/puzzle-complete', async (c) => {
   const sessionId = c.req.param('sessionId')
+  await requireSessionRole(c, sessionId, 'editor')
 
   try {
     const senderId = c.req.query('socketId') || 'REST_API'
@@ -624,6 +1376,7 @@ sessions.post('/:sessionId/feedback', async (c) => {
   if (!Array.isArray(cells) || typeof isCorrect !== 'boolean') {
     throw new HTTPException(400, { message: 'Missing or invalid cells or isCorrect' })
   }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
 
   try {
     const senderId = c.req.query('socketId') || 'REST_API'
@@ -636,4 +1389,158 @@ sessions.post('/:sessionId/feedback', async (c) => {
   }
 })
 
+// GET /api/sessions/:sessionId/invites - Invite links, newest first (owner only)
+sessions.get('/:sessionId/invites', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  await requireSessionRole(c, sessionId, 'owner')
+
+  try {
+    const invites = await SessionAccessService.listInvites(sessionId)
+    return c.json(invites)
+  } catch (error) {
+    console.error('Error listing invites:', error)
+    throw new HTTPException(500, { message: 'Failed to list invites' })
+  }
+})
+
+// POST /api/sessions/:sessionId/invites - Create an editor or spectator invite link (owner only)
+sessions.post('/:sessionId/invites', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const body = await c.req.json().catch(() => ({}))
+  const { role } = body
+
+  if (!isInviteRole(role)) {
+    throw new HTTPException(400, { message: "role must be 'editor' or 'spectator'" })
+  }
+  await requireSessionRole(c, sessionId, 'owner', body.anonymousId)
+
+  try {
+    const invite = await SessionAccessService.createInvite(sessionId, role)
+    return c.json(invite, 201)
+  } catch (error) {
+    console.error('Error creating invite:', error)
+    throw new HTTPException(500, { message: 'Failed to create invite' })
+  }
+})
+
+// DELETE /api/sessions/:sessionId/invites/:inviteId - Revoke a link and everyone who joined with it
+sessions.delete('/:sessionId/invites/:inviteId', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const inviteId = Number(c.req.param('inviteId'))
+
+  if (!Number.isInteger(inviteId)) {
+    throw new HTTPException(400, { message: 'Invalid invite id' })
+  }
+  await requireSessionRole(c, sessionId, 'owner')
+
+  try {
+    const revoked = await SessionAccessService.revokeInvite(sessionId, inviteId)
+    if (!revoked) {
+      throw new HTTPException(404, { message: 'Invite not found' })
+    }
+
+    await Broadcaster.refreshSessionAccess(sessionId)
+    return c.json({ success: true })
+  } catch (error) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error revoking invite:', error)
+    throw new HTTPException(500, { message: 'Failed to revoke invite' })
+  }
+})
+
+// PUT /api/sessions/:sessionId/settings - Change shared solving settings (autocheck)
+sessions.put('/:sessionId/settings', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const body = await c.req.json().catch(() => ({}))
+  const { autocheck } = body
+
+  if (typeof autocheck !== 'boolean') {
+    throw new HTTPException(400, { message: 'autocheck must be a boolean' })
+  }
+  await requireSessionRole(c, sessionId, 'editor', body.anonymousId)
+
+  try {
+    const session = await SessionService.getSessionWithPuzzle(sessionId)
+    if (!session || !(await CellMarkService.setAutocheck(sessionId, autocheck))) {
+      throw new HTTPException(404, { message: 'Session not found' })
+    }
+
+    await Broadcaster.broadcast(sessionId, 'settings_updated', { autocheck })
+
+    // Turning autocheck on marks the wrong letters already in the grid
+    if (autocheck) {
+      const { getSolutionCells } = await import('../utils/answerChecker')
+      const solution = await getSolutionCells(session.id)
+      const cells = [...solution.keys()].map((key) => {
+        const [r, col] = key.split('-').map(Number)
+        return { r: r!, c: col! }
+      })
+      const { marked } = CellMarkService.markCells(
+        solution,
+        session.sessionState,
+        cells,
+        new Set(session.tentativeCells),
+        true,
+      )
+      await publishMarks(sessionId, marked)
+    }
+
+    return c.json({ success: true, autocheck })
+  } catch (error) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error changing session settings:', error)
+    throw new HTTPException(500, { message: 'Failed to change session settings' })
+  }
+})
+
+// PUT /api/sessions/:sessionId/access - Open the session to anyone with the link, or to friends only (owner only)
+sessions.put('/:sessionId/access', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const body = await c.req.json().catch(() => ({}))
+  const { mode } = body
+
+  if (!isAccessMode(mode)) {
+    throw new HTTPException(400, { message: "mode must be 'link' or 'friends'" })
+  }
+  await requireSessionRole(c, sessionId, 'owner', body.anonymousId)
+
+  try {
+    await SessionAccessService.setMode(sessionId, mode)
+    await Broadcaster.refreshSessionAccess(sessionId)
+    return c.json({ success: true, accessMode: mode })
+  } catch (error) {
+    console.error('Error changing session access:', error)
+    throw new HTTPException(500, { message: 'Failed to change session access' })
+  }
+})
+
+// POST /api/sessions/:sessionId/join - Redeem an invite link
+sessions.post('/:sessionId/join', async (c) => {
+  const sessionId = c.req.param('sessionId')
+  const body = await c.req.json().catch(() => ({}))
+  const { token } = body
+
+  if (typeof token !== 'string' || !token) {
+    throw new HTTPException(400, { message: 'Missing token' })
+  }
+
+  const caller = getCaller(c, body.anonymousId)
+  if (caller.userId === null && !caller.anonymousId) {
+    throw new HTTPException(400, { message: 'Missing anonymousId' })
+  }
+
+  try {
+    const role = await SessionAccessService.join(sessionId, token, caller)
+    if (!role) {
+      throw new HTTPException(404, { message: 'Invite link is invalid or has been revoked' })
+    }
+
+    return c.json({ success: true, role })
+  } catch (error) {
+    if (error instanceof HTTPException) throw error
+    console.error('Error joining session:', error)
+    throw new HTTPException(500, { message: 'Failed to join session' })
+  }
+})
+
 export { sessions }
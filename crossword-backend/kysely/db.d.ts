@@ -18,6 +18,9 @@ export interface ClueExplanations {
   explanation_json: string;
   id: Generated<number>;
   puzzle_id: number;
+  verification_json: string | null;
+  verified: Generated<number | null>;
+  verified_at: string | null;
 }
 
 export interface ExplanationBatches {
@@ -57,6 +60,18 @@ export interface ExplanationReports {
   user_id: number | null;
 }
 
+export interface ExplanationRevisions {
+  author_id: number | null;
+  clue_number: number;
+  created_at: Generated<string | null>;
+  direction: string;
+  explanation_json: string;
+  id: Generated<number>;
+  note: string | null;
+  puzzle_id: number;
+  source: string;
+}
+
 export interface Friendships {
   created_at: Generated<string>;
   id: Generated<number>;
@@ -67,6 +82,20 @@ export interface Friendships {
   user_id_2: number;
 }
 
+export interface ModelCalls {
+  cost_usd: number | null;
+  created_at: Generated<string | null>;
+  error: string | null;
+  id: Generated<number>;
+  input_tokens: Generated<number>;
+  latency_ms: number | null;
+  model: string;
+  output_tokens: Generated<number>;
+  provider: string;
+  purpose: string;
+  puzzle_id: number | null;
+}
+
 export interface ParsewordsPuzzles {
   clue_number: number;
   created_at: Generated<string | null>;
@@ -77,6 +106,13 @@ export interface ParsewordsPuzzles {
   updated_at: Generated<string | null>;
 }
 
+export interface PubsubMessages {
+  created_at: number;
+  id: Generated<number>;
+  origin: string;
+  payload: string;
+}
+
 export interface Puzzles {
   answers_encrypted: string | null;
   book: string | null;
@@ -86,19 +122,100 @@ export interface Puzzles {
   is_published: Generated<number>;
   letter_count: number | null;
   puzzle_number: number | null;
+  rebus_cells: Generated<string>;
   title: string;
 }
 
 export interface PuzzleSessions {
+  access_mode: Generated<string>;
   anonymous_id: string | null;
   attributions: Generated<string | null>;
+  autocheck: Generated<number>;
+  cell_versions: Generated<string>;
+  check_count: Generated<number>;
+  completed_at: string | null;
   created_at: string | null;
   is_complete: Generated<number | null>;
+  letters_revealed: Generated<number>;
   puzzle_id: number;
   session_id: string | null;
+  solve_seconds: Generated<number>;
   state: string;
+  tentative_cells: Generated<string>;
   updated_at: string | null;
   user_id: number | null;
+  words_revealed: Generated<number>;
+}
+
+export interface RateLimitBuckets {
+  bucket: string;
+  subject: string;
+  tokens: number;
+  updated_at: number;
+}
+
+export interface SessionCellMarks {
+  col: number;
+  id: Generated<number>;
+  mark: string;
+  row: number;
+  session_id: string;
+  updated_at: Generated<string | null>;
+  value: string;
+}
+
+export interface SessionEdits {
+  batch_id: string;
+  col: number;
+  created_at: Generated<string | null>;
+  editor_key: string;
+  id: Generated<number>;
+  new_value: string;
+  previous_value: string;
+  row: number;
+  session_id: string;
+  undone: Generated<number>;
+  user_id: number | null;
+}
+
+export interface SessionHintLevels {
+  clue_number: number;
+  created_at: Generated<string | null>;
+  direction: string;
+  id: Generated<number>;
+  kind: string;
+  level: number;
+  session_id: string;
+  user_id: number | null;
+}
+
+export interface SessionInvites {
+  created_at: Generated<string | null>;
+  id: Generated<number>;
+  revoked_at: string | null;
+  role: string;
+  session_id: string;
+  token: string;
+}
+
+export interface SessionMembers {
+  anonymous_id: string | null;
+  created_at: Generated<string | null>;
+  id: Generated<number>;
+  invite_id: number;
+  role: string;
+  session_id: string;
+  user_id: number | null;
+}
+
+export interface SessionMessages {
+  anonymous_id: string | null;
+  body: string;
+  created_at: Generated<string | null>;
+  id: Generated<number>;
+  session_id: string;
+  user_id: number | null;
+  username: string;
 }
 
 export interface SessionPushSubscriptions {
@@ -126,10 +243,20 @@ export interface DB {
   explanation_batches: ExplanationBatches;
   explanation_regenerations: ExplanationRegenerations;
   explanation_reports: ExplanationReports;
+  explanation_revisions: ExplanationRevisions;
   friendships: Friendships;
+  model_calls: ModelCalls;
   parsewords_puzzles: ParsewordsPuzzles;
+  pubsub_messages: PubsubMessages;
   puzzle_sessions: PuzzleSessions;
   puzzles: Puzzles;
+  rate_limit_buckets: RateLimitBuckets;
+  session_cell_marks: SessionCellMarks;
+  session_edits: SessionEdits;
+  session_hint_levels: SessionHintLevels;
+  session_invites: SessionInvites;
+  session_members: SessionMembers;
+  session_messages: SessionMessages;
   session_push_subscriptions: SessionPushSubscriptions;
   users: Users;
 }
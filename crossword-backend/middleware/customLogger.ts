@@ -3,6 +3,8 @@ import type { Context, Next } from 'hono'
 interface LoggerConfig {
   ignoredPaths?: string[]
   ignoredPatterns?: RegExp[]
+  // Query parameters that carry credentials, logged as "REDACTED"
+  redactedParams?: string[]
   getUserId?: (c: Context) => string | undefined
 }
 
@@ -19,11 +21,11 @@ const statusColor = (s: number): string =>
   s >= 500 ? '\x1b[31m' : s >= 400 ? '\x1b[33m' : s >= 300 ? '\x1b[36m' : '\x1b[32m'
 
 export function createLogger(config: LoggerConfig = {}) {
-  const { ignoredPaths = [], ignoredPatterns = [], getUserId } = config
+  const { ignoredPaths = [], ignoredPatterns = [], redactedParams = [], getUserId } = config
 
   return async (c: Context, next: Next) => {
     const start = Date.now()
-    const { pathname, search } = new URL(c.req.url)
+    const { pathname, searchParams } = new URL(c.req.url)
 
     if (
       ignoredPaths.some((p) => pathname.startsWith(p)) ||
@@ -40,6 +42,11 @@ export function createLogger(config: LoggerConfig = {}) {
     const userId = getUserId?.(c)
     const ts = new Date().toTimeString().slice(0, 8)
 
+    for (const param of redactedParams) {
+      if (searchParams.has(param)) searchParams.set(param, 'REDACTED')
+    }
+    const search = searchParams.size > 0 ? `?${searchParams.toString()}` : ''
+
     const parts = [
       `[${ts}]`,
       `${METHOD_COLOR[method] ?? '\x1b[36m'}${method}${RESET}`,
@@ -0,0 +1,21 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('puzzle_sessions', (table) => {
+    table.integer('solve_seconds').notNullable().defaultTo(0)
+    table.integer('letters_revealed').notNullable().defaultTo(0)
+    table.integer('words_revealed').notNullable().defaultTo(0)
+    table.integer('check_count').notNullable().defaultTo(0)
+    table.datetime('completed_at').nullable()
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('puzzle_sessions', (table) => {
+    table.dropColumn('completed_at')
+    table.dropColumn('check_count')
+    table.dropColumn('words_revealed')
+    table.dropColumn('letters_revealed')
+    table.dropColumn('solve_seconds')
+  })
+}
@@ -0,0 +1,28 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('session_edits', (table) => {
+    table.increments('id').primary()
+    table.string('session_id').notNullable()
+    // One keystroke or one bulk update (e.g. a revealed word) is undone as a unit
+    table.string('batch_id').notNullable()
+    // 'user:<id>' for logged-in solvers, 'anon:<anonymousId>' for guests
+    table.string('editor_key').notNullable()
+    table.integer('user_id').unsigned().nullable()
+    table.integer('row').notNullable()
+    table.integer('col').notNullable()
+    table.string('previous_value', 1).notNullable()
+    table.string('new_value', 1).notNullable()
+    table.boolean('undone').notNullable().defaultTo(false)
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+
+    table.foreign('session_id').references('puzzle_sessions.session_id').onDelete('CASCADE')
+    table.foreign('user_id').references('users.id').onDelete('SET NULL')
+    table.index(['session_id', 'editor_key'])
+    table.index(['batch_id'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('session_edits')
+}
@@ -0,0 +1,22 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('session_messages', (table) => {
+    table.increments('id').primary()
+    table.string('session_id').notNullable()
+    table.integer('user_id').unsigned().nullable()
+    // Guests are identified by their anonymous id and chat under their nickname
+    table.string('anonymous_id').nullable()
+    table.string('username').notNullable()
+    table.text('body').notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+
+    table.foreign('session_id').references('puzzle_sessions.session_id').onDelete('CASCADE')
+    table.foreign('user_id').references('users.id').onDelete('SET NULL')
+    table.index(['session_id', 'id'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('session_messages')
+}
@@ -0,0 +1,18 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  // Short-lived message log that lets several backend processes share updates
+  await knex.schema.createTable('pubsub_messages', (table) => {
+    table.increments('id').primary()
+    table.string('origin').notNullable()
+    table.text('payload').notNullable()
+    // Epoch milliseconds, for cheap pruning
+    table.bigInteger('created_at').notNullable()
+
+    table.index(['created_at'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('pubsub_messages')
+}
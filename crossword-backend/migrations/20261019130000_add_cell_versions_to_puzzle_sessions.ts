@@ -0,0 +1,14 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('puzzle_sessions', (table) => {
+    // { "r-c": n } write counter per cell; cells never written are version 0
+    table.text('cell_versions').notNullable().defaultTo('{}')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('puzzle_sessions', (table) => {
+    table.dropColumn('cell_versions')
+  })
+}
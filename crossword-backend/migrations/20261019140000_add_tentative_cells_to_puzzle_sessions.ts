@@ -0,0 +1,14 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('puzzle_sessions', (table) => {
+    // JSON array of "r-c" keys for letters pencilled in rather than inked
+    table.text('tentative_cells').notNullable().defaultTo('[]')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('puzzle_sessions', (table) => {
+    table.dropColumn('tentative_cells')
+  })
+}
@@ -0,0 +1,14 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('puzzles', (table) => {
+    // JSON object of "r-c" keys for cells holding several letters, mapped to the letter count
+    table.text('rebus_cells').notNullable().defaultTo('{}')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('puzzles', (table) => {
+    table.dropColumn('rebus_cells')
+  })
+}
@@ -0,0 +1,23 @@
+import type { Knex } from 'knex'
+import { isSealed, openAnswers, sealAnswers } from '../utils/answerVault'
+
+// Encrypt answer keys that were stored as plain ROT13 JSON
+export async function up(knex: Knex): Promise<void> {
+  const rows = await knex('puzzles').whereNotNull('answers_encrypted').select('id', 'answers_encrypted')
+  for (const row of rows) {
+    if (isSealed(row.answers_encrypted)) continue
+    await knex('puzzles')
+      .where({ id: row.id })
+      .update({ answers_encrypted: sealAnswers(JSON.parse(row.answers_encrypted)) })
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  const rows = await knex('puzzles').whereNotNull('answers_encrypted').select('id', 'answers_encrypted')
+  for (const row of rows) {
+    if (!isSealed(row.answers_encrypted)) continue
+    await knex('puzzles')
+      .where({ id: row.id })
+      .update({ answers_encrypted: JSON.stringify(openAnswers(row.answers_encrypted)) })
+  }
+}
@@ -0,0 +1,47 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('puzzle_sessions', (table) => {
+    // 'link': anyone with the session URL may edit; 'friends': only the owner,
+    // people holding an invite, and the owner's friends
+    table.string('access_mode').notNullable().defaultTo('link')
+  })
+
+  await knex.schema.createTable('session_invites', (table) => {
+    table.increments('id').primary()
+    table.string('session_id').notNullable()
+    table.string('token').notNullable().unique()
+    // 'editor' or 'spectator'
+    table.string('role').notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+    table.timestamp('revoked_at').nullable()
+
+    table.foreign('session_id').references('puzzle_sessions.session_id').onDelete('CASCADE')
+    table.index(['session_id'])
+  })
+
+  await knex.schema.createTable('session_members', (table) => {
+    table.increments('id').primary()
+    table.string('session_id').notNullable()
+    table.integer('user_id').unsigned().nullable()
+    // Guests are remembered by their anonymous id
+    table.string('anonymous_id').nullable()
+    table.string('role').notNullable()
+    // Revoking the invite removes everyone who joined through it
+    table.integer('invite_id').unsigned().notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+
+    table.foreign('session_id').references('puzzle_sessions.session_id').onDelete('CASCADE')
+    table.foreign('user_id').references('users.id').onDelete('CASCADE')
+    table.foreign('invite_id').references('session_invites.id').onDelete('CASCADE')
+    table.index(['session_id'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('session_members')
+  await knex.schema.dropTableIfExists('session_invites')
+  await knex.schema.alterTable('puzzle_sessions', (table) => {
+    table.dropColumn('access_mode')
+  })
+}
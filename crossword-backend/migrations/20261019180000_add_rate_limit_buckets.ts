@@ -0,0 +1,20 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('rate_limit_buckets', (table) => {
+    // Which budget this bucket draws from, e.g. 'explain'
+    table.string('bucket').notNullable()
+    // Who is spending it: 'user:<id>', 'anon:<anonymous id>' or 'ip:<address>'
+    table.string('subject').notNullable()
+    // Tokens left as of updated_at; refills continuously up to the budget's capacity
+    table.float('tokens').notNullable()
+    // Milliseconds since epoch
+    table.bigInteger('updated_at').notNullable()
+
+    table.primary(['bucket', 'subject'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('rate_limit_buckets')
+}
@@ -0,0 +1,31 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('model_calls', (table) => {
+    table.increments('id').primary()
+    // 'openai' or 'openrouter'
+    table.string('provider').notNullable()
+    // Model slug as listed in OPENROUTER_MODELS, e.g. 'deepseek/deepseek-v4-pro'
+    table.string('model').notNullable()
+    // What the call was for: explanation, hint, transcription, parsewords or chat
+    table.string('purpose').notNullable()
+    // No foreign key: spend stays on the books after a puzzle is deleted
+    table.integer('puzzle_id').nullable()
+    table.integer('input_tokens').notNullable().defaultTo(0)
+    table.integer('output_tokens').notNullable().defaultTo(0)
+    // Null for batch results, where the request wasn't timed
+    table.integer('latency_ms').nullable()
+    // Null when the model has no entry in MODEL_PRICES
+    table.float('cost_usd').nullable()
+    // Set when the call failed
+    table.text('error').nullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+
+    table.index(['created_at'])
+    table.index(['puzzle_id'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('model_calls')
+}
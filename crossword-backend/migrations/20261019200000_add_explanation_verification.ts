@@ -0,0 +1,14 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('clue_explanations', (table) => {
+    // Per-step results from verifyExplanation, recorded on every save
+    table.text('verification_json').nullable()
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('clue_explanations', (table) => {
+    table.dropColumn('verification_json')
+  })
+}
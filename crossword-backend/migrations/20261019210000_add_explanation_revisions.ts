@@ -0,0 +1,34 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('explanation_revisions', (table) => {
+    table.increments('id').primary()
+    table.integer('puzzle_id').notNullable()
+    table.integer('clue_number').notNullable()
+    table.string('direction', 10).notNullable()
+    table.text('explanation_json').notNullable()
+    // import, generated, batch, admin_edit, regeneration, restore or script
+    table.string('source', 20).notNullable()
+    // Admin who saved it; null for generated, batch and script writes
+    table.integer('author_id').unsigned().nullable()
+    // Free-form context, e.g. the batch id or the revision that was restored
+    table.text('note').nullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+
+    table.foreign('puzzle_id').references('puzzles.id').onDelete('CASCADE')
+    table.foreign('author_id').references('users.id').onDelete('SET NULL')
+    table.index(['puzzle_id', 'clue_number', 'direction'])
+  })
+
+  // Start every existing explanation's history with the version in use today
+  await knex.raw(`
+    INSERT INTO explanation_revisions
+      (puzzle_id, clue_number, direction, explanation_json, source, created_at)
+    SELECT puzzle_id, clue_number, direction, explanation_json, 'import', created_at
+    FROM clue_explanations
+  `)
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('explanation_revisions')
+}
@@ -0,0 +1,24 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('session_hint_levels', (table) => {
+    table.increments('id').primary()
+    table.string('session_id').notNullable()
+    table.integer('clue_number').notNullable()
+    table.string('direction', 10).notNullable()
+    // 1-based position on the clue's hint ladder
+    table.integer('level').notNullable()
+    // What the level revealed, e.g. 'definition' or 'step'
+    table.string('kind', 20).notNullable()
+    table.integer('user_id').unsigned().nullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now())
+
+    table.foreign('session_id').references('puzzle_sessions.session_id').onDelete('CASCADE')
+    table.foreign('user_id').references('users.id').onDelete('SET NULL')
+    table.unique(['session_id', 'clue_number', 'direction', 'level'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('session_hint_levels')
+}
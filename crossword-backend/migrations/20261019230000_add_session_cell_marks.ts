@@ -0,0 +1,30 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('puzzle_sessions', (table) => {
+    // Mark wrong letters as they are typed, for everyone in the session
+    table.boolean('autocheck').notNullable().defaultTo(false)
+  })
+
+  await knex.schema.createTable('session_cell_marks', (table) => {
+    table.increments('id').primary()
+    table.string('session_id').notNullable()
+    table.integer('row').notNullable()
+    table.integer('col').notNullable()
+    // 'checked', 'incorrect' or 'revealed'
+    table.string('mark', 10).notNullable()
+    // The letters the mark was given for; once the cell changes the mark lapses
+    table.string('value').notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now())
+
+    table.foreign('session_id').references('puzzle_sessions.session_id').onDelete('CASCADE')
+    table.unique(['session_id', 'row', 'col'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('session_cell_marks')
+  await knex.schema.alterTable('puzzle_sessions', (table) => {
+    table.dropColumn('autocheck')
+  })
+}
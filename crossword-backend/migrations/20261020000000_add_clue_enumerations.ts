@@ -0,0 +1,36 @@
+import type { Knex } from 'knex'
+import { withEnumerations } from '../utils/enumeration'
+
+// Store each clue's enumeration, parsed from its text, alongside the clue
+export async function up(knex: Knex): Promise<void> {
+  const rows = await knex('puzzles').select('id', 'clues')
+  for (const row of rows) {
+    let clues: any
+    try {
+      clues = JSON.parse(row.clues)
+    } catch {
+      continue
+    }
+    await knex('puzzles')
+      .where({ id: row.id })
+      .update({ clues: JSON.stringify(withEnumerations(clues)) })
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  const rows = await knex('puzzles').select('id', 'clues')
+  for (const row of rows) {
+    let clues: any
+    try {
+      clues = JSON.parse(row.clues)
+    } catch {
+      continue
+    }
+    for (const direction of ['across', 'down']) {
+      for (const clue of Array.isArray(clues?.[direction]) ? clues[direction] : []) {
+        if (clue && typeof clue === 'object') delete clue.enumeration
+      }
+    }
+    await knex('puzzles').where({ id: row.id }).update({ clues: JSON.stringify(clues) })
+  }
+}
@@ -0,0 +1,21 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('session_edits', (table) => {
+    // A rebus cell holds several letters
+    table.string('previous_value').notNullable().alter()
+    table.string('new_value').notNullable().alter()
+    // Whether each side of the edit was pencilled in, so undo restores it too
+    table.boolean('previous_tentative').notNullable().defaultTo(false)
+    table.boolean('new_tentative').notNullable().defaultTo(false)
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('session_edits', (table) => {
+    table.dropColumn('previous_tentative')
+    table.dropColumn('new_tentative')
+    table.string('previous_value', 1).notNullable().alter()
+    table.string('new_value', 1).notNullable().alter()
+  })
+}
@@ -1,4 +1,5 @@
 const db = require('../db-knex').default
+const { sealAnswers } = require('../utils/answerVault')
 const answers_data = require('../transcribed_answers.json')
 
 const run = async () => {
@@ -22,7 +23,7 @@ const run = async () => {
 
     await db('puzzles')
       .update({
-        answers_encrypted: JSON.stringify(answers),
+        answers_encrypted: sealAnswers(answers),
       })
       .where({
         id: puzzleMatch.id,
@@ -1,6 +1,7 @@
 import db from '../db-knex'
 import { constructGridFromAnswerKey } from '../utils/gridConstructor'
 import { calculateLetterCount } from '../utils/stateHelpers'
+import { sealAnswers } from '../utils/answerVault'
 
 function removeAccents(str: string): string {
   return str.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
@@ -102,7 +103,7 @@ async function main() {
     title: String(puzzleNumber),
     grid,
     clues: JSON.stringify(placeholderClues),
-    answers_encrypted: JSON.stringify(encryptedAnswers),
+    answers_encrypted: sealAnswers(encryptedAnswers),
     letter_count: calculateLetterCount(grid),
     puzzle_number: puzzleNumber,
     book,
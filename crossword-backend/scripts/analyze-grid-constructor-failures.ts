@@ -2,6 +2,7 @@ import db from '../db-knex'
 import { extractClueMetadata, rot13, type CellType } from '../utils/answerChecker'
 import { parseGridString } from '../utils/gridIntegrityChecker'
 import { getAnswerKeyLengthSignature, getGridLengthSignature } from '../utils/gridConstructor'
+import { openAnswers } from '../utils/answerVault'
 
 type AnswerEntry = { number: number; answer: string }
 
@@ -43,7 +44,7 @@ async function main() {
     const grid = parseGridString(puzzle.grid)
     const positions = extractCluePositions(grid)
 
-    const encrypted = JSON.parse(puzzle.answers_encrypted)
+    const encrypted = openAnswers(puzzle.answers_encrypted)
     const across = (encrypted.across ?? []) as AnswerEntry[]
     const down = (encrypted.down ?? []) as AnswerEntry[]
 
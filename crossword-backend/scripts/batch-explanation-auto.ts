@@ -54,7 +54,9 @@ import db from '../db-knex'
 import { ExplanationSchema } from '../utils/crypticSchema'
 import { buildExplanationRequestBody } from '../utils/openai'
 import { ExplanationService } from '../services/explanationService'
+import { ModelUsageService } from '../services/modelUsageService'
 import he from 'he'
+import { openAnswers } from '../utils/answerVault'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -289,7 +291,7 @@ async function analyzePuzzlesForDryRun(
         continue
       }
 
-      const encrypted = JSON.parse(puzzleRow.answers_encrypted || '{}')
+      const encrypted = openAnswers(puzzleRow.answers_encrypted) ?? {}
       if (!encrypted.across && !encrypted.down) {
         puzWithInfo.error = 'No answers found'
         analyzed.push(puzWithInfo)
@@ -414,7 +416,7 @@ async function verifyAnswersExist(puzzleId: number): Promise<boolean> {
   }
 
   try {
-    const encrypted = JSON.parse(puzzle.answers_encrypted || '{}')
+    const encrypted = openAnswers(puzzle.answers_encrypted) ?? {}
     if (!encrypted.across && !encrypted.down) {
       console.log(`❌ No answers found for puzzle "${puzzle.title}"`)
       return false
@@ -446,7 +448,7 @@ async function createBatchForPuzzle(puzzleId: number, force = false): Promise<st
   let answersData: PuzzleAnswers
 
   try {
-    const encrypted = JSON.parse(puzzle.answers_encrypted || '{}')
+    const encrypted = openAnswers(puzzle.answers_encrypted) ?? {}
     answersData = encrypted
   } catch (e) {
     console.error('  ❌ Failed to parse encrypted answers JSON')
@@ -744,6 +746,7 @@ async function processBatchResults(batchId: string) {
 
       let content: string | undefined
       const body = result.response.body
+      await ModelUsageService.recordBatchResult(body, puzzleId)
 
       // Try Responses API structure
       if (body.output && Array.isArray(body.output)) {
@@ -799,7 +802,7 @@ async function processBatchResults(batchId: string) {
       if (!puzzle) continue
 
       const clues: PuzzleClues = JSON.parse(puzzle.clues)
-      const encrypted = JSON.parse(puzzle.answers_encrypted || '{}')
+      const encrypted = openAnswers(puzzle.answers_encrypted) ?? {}
 
       const clueList = direction === 'across' ? clues.across : clues.down
       const answerList = direction === 'across' ? encrypted.across : encrypted.down
@@ -822,6 +825,7 @@ async function processBatchResults(batchId: string) {
         clueObj.clue,
         decryptedAnswer,
         explanation,
+        { source: 'batch' },
       )
 
       successCount++
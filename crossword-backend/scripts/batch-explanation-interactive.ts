@@ -2,8 +2,10 @@ import OpenAI from 'openai'
 import db from '../db-knex'
 import { generateExplanationMessages, crypticSchema, ExplanationSchema } from '../utils/crypticSchema'
 import { ExplanationService } from '../services/explanationService'
+import { ModelUsageService } from '../services/modelUsageService'
 import he from 'he'
 import { select, confirm, input } from '@inquirer/prompts'
+import { openAnswers } from '../utils/answerVault'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -100,7 +102,7 @@ async function createBatch(puzzleId: number) {
   let answersData: PuzzleAnswers
 
   try {
-    const encrypted = JSON.parse(puzzle.answers_encrypted || '{}')
+    const encrypted = openAnswers(puzzle.answers_encrypted) ?? {}
     if (!encrypted.puzzle_id) {
       answersData = encrypted
     } else {
@@ -305,6 +307,7 @@ async function retrieveBatch(batchId: string) {
 
       let content: string | undefined
       const body = result.response.body
+      await ModelUsageService.recordBatchResult(body, puzzleId)
 
       // Try Responses API structure
       if (body.output && Array.isArray(body.output)) {
@@ -373,7 +376,7 @@ async function retrieveBatch(batchId: string) {
       if (!puzzle) continue
 
       const clues: PuzzleClues = JSON.parse(puzzle.clues)
-      const encrypted = JSON.parse(puzzle.answers_encrypted || '{}')
+      const encrypted = openAnswers(puzzle.answers_encrypted) ?? {}
 
       const clueList = direction === 'across' ? clues.across : clues.down
       const answerList = direction === 'across' ? encrypted.across : encrypted.down
@@ -396,6 +399,7 @@ async function retrieveBatch(batchId: string) {
         clueObj.clue,
         decryptedAnswer,
         explanation,
+        { source: 'batch' },
       )
 
       successCount++
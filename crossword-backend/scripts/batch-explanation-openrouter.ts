@@ -24,6 +24,7 @@ import minimist from 'minimist'
 import db from '../db-knex'
 import { explainCrypticClue } from '../utils/openrouter'
 import { ExplanationService } from '../services/explanationService'
+import { openAnswers } from '../utils/answerVault'
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -117,7 +118,7 @@ async function buildJobs(puzzleIdFilter: number | null, puzzleTitleFilter: strin
 
     try {
       clues = JSON.parse(puzzle.clues)
-      const encrypted = JSON.parse(puzzle.answers_encrypted || '{}')
+      const encrypted = openAnswers(puzzle.answers_encrypted) ?? {}
       answers = {
         across: (encrypted.across || []).map((a: Answer) => ({ ...a, answer: rot13(a.answer) })),
         down: (encrypted.down || []).map((a: Answer) => ({ ...a, answer: rot13(a.answer) })),
@@ -176,11 +177,12 @@ async function callWithRetry(
   model: string,
   timeoutMs: number,
   label: string,
+  puzzleId: number,
   maxAttempts = 3,
 ): Promise<unknown> {
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
-      return await explainCrypticClue({ clue: clueText, answer, model, timeoutMs })
+      return await explainCrypticClue({ clue: clueText, answer, model, timeoutMs, puzzleId })
     } catch (err: any) {
       if (isRateLimitError(err) && attempt < maxAttempts) {
         const delay = Math.min(2 ** attempt * 1000, 30_000)
@@ -203,7 +205,7 @@ async function processJob(
   let result: unknown
 
   try {
-    result = await callWithRetry(job.clueText, job.answer, model, timeoutMs, label)
+    result = await callWithRetry(job.clueText, job.answer, model, timeoutMs, label, job.puzzleId)
   } catch (primaryErr: any) {
     const shouldFallback =
       model !== FALLBACK_MODEL && (isTimeoutError(primaryErr) || isTruncatedError(primaryErr))
@@ -212,7 +214,7 @@ async function processJob(
       const reason = isTimeoutError(primaryErr) ? 'timeout' : 'truncated response'
       console.log(`  ⚠️  ${label}: ${reason} on ${model}, retrying with ${FALLBACK_MODEL}`)
       try {
-        result = await callWithRetry(job.clueText, job.answer, FALLBACK_MODEL, timeoutMs, label)
+        result = await callWithRetry(job.clueText, job.answer, FALLBACK_MODEL, timeoutMs, label, job.puzzleId)
       } catch (fallbackErr: any) {
         console.log(`  ❌ ${label} "${job.answer}": fallback also failed — ${fallbackErr?.message ?? fallbackErr}`)
         return 'failed'
@@ -231,6 +233,7 @@ async function processJob(
       job.clueText,
       job.answer,
       result as any,
+      { source: 'batch' },
     )
     return 'saved'
   } catch (saveErr: any) {
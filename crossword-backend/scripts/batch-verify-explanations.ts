@@ -3,7 +3,7 @@
  *
  * Walks through every clue_explanation in the database, runs
  * verifyExplanation() on each, and updates the verified/verified_at
- * columns. Only checks explanations with wordplay_steps (not
+ * and verification_json columns. Only checks explanations with wordplay_steps (not
  * double_definition, cryptic_definition, or no_clean_parse).
  *
  * USAGE:
@@ -13,6 +13,7 @@
  */
 
 import db from '../db-knex'
+import { ExplanationService } from '../services/explanationService'
 import { verifyExplanation } from '../utils/verifyExplanation'
 
 interface ExplanationRow {
@@ -62,7 +63,7 @@ async function main() {
         if (!dryRun) {
           await db('clue_explanations')
             .where('id', row.id)
-            .update({ verified: true, verified_at: db.fn.now() })
+            .update(ExplanationService.verificationColumns(result))
         }
         verifiedCount++
       } else {
@@ -75,7 +76,7 @@ async function main() {
         if (!dryRun) {
           await db('clue_explanations')
             .where('id', row.id)
-            .update({ verified: false, verified_at: db.fn.now() })
+            .update(ExplanationService.verificationColumns(result))
         }
         failedCount++
       }
@@ -1,6 +1,7 @@
 import db from '../db-knex'
 import { extractClueMetadata, rot13, type CellType, type Direction } from '../utils/answerChecker'
 import { parseGridString } from '../utils/gridIntegrityChecker'
+import { openAnswers } from '../utils/answerVault'
 
 type AnswerEntry = { number: number; answer: string }
 
@@ -55,7 +56,7 @@ async function main() {
     const metadata = extractClueMetadata(grid)
     const totalLetters = grid.flat().filter((x) => x !== 'B').length
 
-    const answers = JSON.parse(puzzle.answers_encrypted)
+    const answers = openAnswers(puzzle.answers_encrypted)
     const byAcross = new Map<number, string>(
       ((answers.across ?? []) as AnswerEntry[]).map((a) => [a.number, normalize(rot13(a.answer))]),
     )
@@ -1,6 +1,7 @@
 import db from '../db-knex'
 import { extractClueMetadata, rot13, type Direction } from '../utils/answerChecker'
 import { parseGridString } from '../utils/gridIntegrityChecker'
+import { openAnswers } from '../utils/answerVault'
 
 type SessionRow = {
   session_id: string
@@ -102,7 +103,7 @@ async function main() {
     console.log(`  Best session: ${best.sessionId}`)
     console.log(`  Filled cells: ${best.filled}/${totalLetters}`)
 
-    const encryptedAnswers = JSON.parse(puzzle.answers_encrypted)
+    const encryptedAnswers = openAnswers(puzzle.answers_encrypted)
     const expectedAcross = new Map<number, string>(
       (encryptedAnswers.across ?? []).map((item: { number: number; answer: string }) => [
         item.number,
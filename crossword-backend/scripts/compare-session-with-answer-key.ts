@@ -1,6 +1,7 @@
 import db from '../db-knex'
 import { extractClueMetadata, rot13, type CellType, type Direction } from '../utils/answerChecker'
 import { parseGridString } from '../utils/gridIntegrityChecker'
+import { openAnswers } from '../utils/answerVault'
 
 type AnswerEntry = { number: number; answer: string }
 
@@ -70,7 +71,7 @@ async function main() {
   const grid = parseGridString(puzzle.grid)
   const metadata = extractClueMetadata(grid)
 
-  const encryptedAnswers = JSON.parse(puzzle.answers_encrypted)
+  const encryptedAnswers = openAnswers(puzzle.answers_encrypted)
   const byAcross = new Map<number, string>(
     ((encryptedAnswers.across ?? []) as AnswerEntry[]).map((a) => [a.number, normalize(rot13(a.answer))]),
   )
@@ -3,6 +3,7 @@ import db from '../db-knex'
 import { transcribeAnswers } from '../utils/openai'
 import { calculateLetterCount } from '../utils/stateHelpers'
 import { constructGridFromAnswerKey } from '../utils/gridConstructor'
+import { sealAnswers } from '../utils/answerVault'
 
 interface AnswerEntry {
   number: number
@@ -436,7 +437,7 @@ async function main() {
       title: String(puzzleNumber),
       grid,
       clues: JSON.stringify(placeholderClues),
-      answers_encrypted: JSON.stringify(encryptedAnswers),
+      answers_encrypted: sealAnswers(encryptedAnswers),
       letter_count: calculateLetterCount(grid),
       puzzle_number: puzzleNumber,
       book: BOOK_ID,
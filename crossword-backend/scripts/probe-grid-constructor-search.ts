@@ -2,6 +2,7 @@ import db from '../db-knex'
 import { rot13 } from '../utils/answerChecker'
 import { parseGridString } from '../utils/gridIntegrityChecker'
 import { constructGridFromAnswerKey } from '../utils/gridConstructor'
+import { openAnswers } from '../utils/answerVault'
 
 async function main() {
   const puzzles = await db('puzzles')
@@ -12,7 +13,7 @@ async function main() {
 
   for (const puzzle of puzzles) {
     const grid = parseGridString(puzzle.grid)
-    const answers = JSON.parse(puzzle.answers_encrypted)
+    const answers = openAnswers(puzzle.answers_encrypted)
 
     const across = (answers.across ?? []).map((a: { number: number; answer: string }) => ({
       number: a.number,
@@ -8,6 +8,7 @@ import db from '../db-knex'
 import { generateExplanationMessages, crypticSchema } from '../utils/crypticSchema'
 import { ExplanationSchema } from '../utils/crypticSchema'
 import { Readable } from 'stream'
+import { openAnswers } from '../utils/answerVault'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -109,7 +110,7 @@ async function createRegenerationBatch(clues: InvalidClue[], limit: number = 6)
     }
 
     // Get the answer - use direction from the invalid clue data
-    const answersEncrypted = JSON.parse(puzzle.answers_encrypted || '{}')
+    const answersEncrypted = openAnswers(puzzle.answers_encrypted) ?? {}
     const puzzleClues = JSON.parse(puzzle.clues)
     const direction = clue.direction
 
@@ -1,6 +1,7 @@
 import db from '../db-knex'
 import { extractClueMetadata, rot13, type CellType, type Direction } from '../utils/answerChecker'
 import { parseGridString } from '../utils/gridIntegrityChecker'
+import { openAnswers } from '../utils/answerVault'
 
 type ClueItem = { number: number; clue: string }
 type AnswerItem = { number: number; answer: string }
@@ -54,7 +55,7 @@ async function main() {
   const positions = getCluePositions(grid)
 
   const clues = JSON.parse(puzzle.clues) as { across: ClueItem[]; down: ClueItem[] }
-  const answers = JSON.parse(puzzle.answers_encrypted) as { across: AnswerItem[]; down: AnswerItem[] }
+  const answers = openAnswers(puzzle.answers_encrypted) as { across: AnswerItem[]; down: AnswerItem[] }
 
   const clueAcross = new Map<number, string>((clues.across ?? []).map((c) => [c.number, c.clue]))
   const clueDown = new Map<number, string>((clues.down ?? []).map((c) => [c.number, c.clue]))
@@ -7,7 +7,9 @@ import OpenAI from 'openai'
 import db from '../db-knex'
 import { ExplanationSchema } from '../utils/crypticSchema'
 import { ExplanationService } from '../services/explanationService'
+import { ModelUsageService } from '../services/modelUsageService'
 import he from 'he'
+import { openAnswers } from '../utils/answerVault'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -108,6 +110,7 @@ async function retrieveAndValidateBatch(batchId: string) {
       // Extract content from response
       let content: string | undefined
       const body = result.response.body
+      await ModelUsageService.recordBatchResult(body, puzzleId)
 
       // Try Responses API structure
       if (body.output && Array.isArray(body.output)) {
@@ -202,7 +205,7 @@ async function retrieveAndValidateBatch(batchId: string) {
       }
 
       const clues = JSON.parse(puzzle.clues)
-      const answersEncrypted = JSON.parse(puzzle.answers_encrypted || '{}')
+      const answersEncrypted = openAnswers(puzzle.answers_encrypted) ?? {}
 
       const clueList = direction === 'across' ? clues.across : clues.down
       const answerList = direction === 'across' ? answersEncrypted.across : answersEncrypted.down
@@ -226,6 +229,7 @@ async function retrieveAndValidateBatch(batchId: string) {
         clueObj.clue,
         decryptedAnswer,
         explanation,
+        { source: 'batch' },
       )
 
       savedCount++
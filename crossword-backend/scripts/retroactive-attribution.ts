@@ -1,4 +1,5 @@
 import db from '../db-knex'
+import { getCellAt } from '../utils/stateHelpers'
 
 // Users to attribute to
 const users = [
@@ -60,7 +61,7 @@ function isWordComplete(
   let c = clue.col
 
   while (r < grid.length && c < (grid[0]?.length || 0) && grid[r]?.[c] !== 'B') {
-    const cellValue = state[r]?.[c] || ' '
+    const cellValue = getCellAt(state, r, c) || ' '
     if (cellValue === ' ' || cellValue === '') {
       return false
     }
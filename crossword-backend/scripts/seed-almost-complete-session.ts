@@ -15,7 +15,7 @@ import { PuzzleService } from '../services/puzzleService'
 import { SessionService } from '../services/sessionService'
 import { getCorrectAnswersStructure, extractClueMetadata, rot13 } from '../utils/answerChecker'
 import type { CellType } from '../utils/answerChecker'
-import { createEmptyState, setCharAt } from '../utils/stateHelpers'
+import { createEmptyState, setCellAt } from '../utils/stateHelpers'
 
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173'
 
@@ -84,7 +84,7 @@ async function main() {
     let c = clue.col
     for (let i = 0; i < answer.length; i++) {
       if (r >= height || c >= width || grid[r][c] === 'B') break
-      state[r] = setCharAt(state[r], c, answer[i])
+      state[r] = setCellAt(state[r], c, answer[i])
       if (clue.direction === 'across') c++
       else r++
     }
@@ -107,7 +107,7 @@ async function main() {
     c++
   }
   // Blank the last letter
-  state[r] = setCharAt(state[r], c, ' ')
+  state[r] = setCellAt(state[r], c, ' ')
 
   console.log(
     `Leaving blank: ${lastAcross.number}-Across "${lastAnswer}" — last letter at (${r},${c})`,
@@ -50,6 +50,7 @@ import db from '../db-knex'
 import { transcribeAnswers, transcribeAnswersOpenRouter } from '../utils/openai'
 import { calculateLetterCount } from '../utils/stateHelpers'
 import { constructGridFromAnswerKey } from '../utils/gridConstructor'
+import { sealAnswers } from '../utils/answerVault'
 
 const HELP_TEXT = `
 Transcribe puzzle answers from a PDF using OpenAI vision.
@@ -389,7 +390,7 @@ async function main() {
           title: String(puzzleNumber),
           grid,
           clues: JSON.stringify(placeholderClues),
-          answers_encrypted: JSON.stringify(encryptedAnswers),
+          answers_encrypted: sealAnswers(encryptedAnswers),
           letter_count: calculateLetterCount(grid),
           puzzle_number: puzzleNumber,
           book,
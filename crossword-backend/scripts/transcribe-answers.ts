@@ -2,6 +2,7 @@ import { transcribeAnswers } from '../utils/openai'
 import db from '../db-knex'
 import type { PuzzleAnswers } from '../utils/answerSchema'
 import { resolve } from 'path'
+import { sealAnswers } from '../utils/answerVault'
 
 // Remove accent marks from string
 const removeAccents = (str: string): string => {
@@ -51,7 +52,7 @@ const updateAnswersInDatabase = async (puzzles: PuzzleAnswers[], book: string) =
 
     await db('puzzles')
       .update({
-        answers_encrypted: JSON.stringify(answers),
+        answers_encrypted: sealAnswers(answers),
       })
       .where({
         id: puzzleMatch.id,
@@ -2,6 +2,7 @@ import db from '../db-knex'
 import { rot13 } from '../utils/answerChecker'
 import { parseGridString } from '../utils/gridIntegrityChecker'
 import { constructGridFromAnswerKey } from '../utils/gridConstructor'
+import { openAnswers } from '../utils/answerVault'
 
 type AnswerEntry = { number: number; answer: string }
 
@@ -26,7 +27,7 @@ async function main() {
     const height = expectedGrid.length
     const width = expectedGrid[0]?.length ?? 0
 
-    const encrypted = JSON.parse(puzzle.answers_encrypted)
+    const encrypted = openAnswers(puzzle.answers_encrypted)
     const across = decrypt(encrypted.across)
     const down = decrypt(encrypted.down)
 
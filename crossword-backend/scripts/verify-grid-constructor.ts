@@ -6,6 +6,7 @@ import {
   getAnswerKeyLengthSignature,
   getGridLengthSignature,
 } from '../utils/gridConstructor'
+import { openAnswers } from '../utils/answerVault'
 
 type AnswerEntry = { number: number; answer: string }
 
@@ -31,7 +32,7 @@ async function main() {
     const expectedGrid = parseGridString(puzzle.grid)
     const height = expectedGrid.length
     const width = expectedGrid[0]?.length ?? 0
-    const answers = JSON.parse(puzzle.answers_encrypted)
+    const answers = openAnswers(puzzle.answers_encrypted)
     const across = toDecrypted(answers.across)
     const down = toDecrypted(answers.down)
 
@@ -65,7 +66,7 @@ async function main() {
     const height = expectedGrid.length
     const width = expectedGrid[0]?.length ?? 0
 
-    const answers = JSON.parse(puzzle.answers_encrypted)
+    const answers = openAnswers(puzzle.answers_encrypted)
     const across = toDecrypted(answers.across)
     const down = toDecrypted(answers.down)
 
@@ -0,0 +1,112 @@
+import { readFile } from 'fs/promises'
+import db from '../db-knex'
+import { openAnswers } from '../utils/answerVault'
+import { rot13 } from '../utils/answerChecker'
+import {
+  autofillGrid,
+  normalizeFillWord,
+  type AutofillOptions,
+  type AutofillResult,
+  type ScoredWord,
+} from '../utils/gridAutofill'
+import type { CellType, Direction } from '../utils/gridCells'
+import { AUTOFILL_BLACKLIST_PATH, AUTOFILL_CORPUS_SCORE, AUTOFILL_WORDLIST_PATH } from '../config'
+
+// Words on the list without a score
+const DEFAULT_WORD_SCORE = 50
+
+export interface AutofillRequest {
+  grid: CellType[][]
+  letters?: string[]
+  blacklist?: string[]
+  // Also fill from the answers to our own puzzles
+  useCorpus?: boolean
+}
+
+export interface AutofillResponse extends AutofillResult {
+  // The fill as an answer key, ROT13 as stored, ready to save with the grid
+  answers?: Record<Direction, Array<{ number: number; answer: string }>>
+}
+
+export class AutofillService {
+  /**
+   * Reads a word list: one word per line, optionally followed by ";" and a
+   * score, as in most setters' lists. Blank lines and "#" comments are
+   * skipped. A missing file is an empty list.
+   */
+  static async readWordList(path: string): Promise<ScoredWord[]> {
+    let text: string
+    try {
+      text = await readFile(path, 'utf8')
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return []
+      throw error
+    }
+    return AutofillService.parseWordList(text)
+  }
+
+  static parseWordList(text: string): ScoredWord[] {
+    const words: ScoredWord[] = []
+    for (const line of text.split(/\r?\n/)) {
+      const trimmed = line.trim()
+      if (!trimmed || trimmed.startsWith('#')) continue
+      const [word = '', score] = trimmed.split(';')
+      const parsed = Number(score)
+      words.push({
+        word,
+        score: score !== undefined && Number.isFinite(parsed) ? parsed : DEFAULT_WORD_SCORE,
+      })
+    }
+    return words
+  }
+
+  // Every answer in the puzzles we hold, decoded, for use as fill
+  static async getCorpusWords(): Promise<ScoredWord[]> {
+    const rows = await db('puzzles').select('answers_encrypted').whereNotNull('answers_encrypted')
+    const words: ScoredWord[] = []
+    for (const row of rows) {
+      let answers: any
+      try {
+        answers = openAnswers(row.answers_encrypted)
+      } catch (error) {
+        console.error('Skipping unreadable answer key in autofill corpus:', error)
+        continue
+      }
+      for (const direction of ['across', 'down'] as const) {
+        for (const item of Array.isArray(answers?.[direction]) ? answers[direction] : []) {
+          if (typeof item?.answer !== 'string') continue
+          words.push({ word: normalizeFillWord(rot13(item.answer)), score: AUTOFILL_CORPUS_SCORE })
+        }
+      }
+    }
+    return words
+  }
+
+  static async autofill(
+    request: AutofillRequest,
+    options: AutofillOptions = {},
+  ): Promise<AutofillResponse> {
+    const [listed, corpus, blacklisted] = await Promise.all([
+      AutofillService.readWordList(AUTOFILL_WORDLIST_PATH),
+      request.useCorpus === false ? Promise.resolve([]) : AutofillService.getCorpusWords(),
+      AutofillService.readWordList(AUTOFILL_BLACKLIST_PATH),
+    ])
+
+    const result = autofillGrid(
+      {
+        grid: request.grid,
+        letters: request.letters,
+        words: [...listed, ...corpus],
+        blacklist: [...blacklisted.map((w) => w.word), ...(request.blacklist ?? [])],
+      },
+      options,
+    )
+    if (!result.success || !result.entries) return result
+
+    const answers: NonNullable<AutofillResponse['answers']> = { across: [], down: [] }
+    for (const entry of result.entries) {
+      answers[entry.direction].push({ number: entry.number, answer: rot13(entry.word) })
+    }
+    return { ...result, answers }
+  }
+}
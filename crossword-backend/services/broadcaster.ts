@@ -1,9 +1,81 @@
 import { SSEService } from './sseService'
+import { SessionService } from './sessionService'
+import { SessionAccessService } from './sessionAccessService'
+import { PubSub, type PubSubMessage, type PubSubTransport } from './pubsub'
 
 /**
- * Service to handle broadcasting to SSE clients
+ * Service to handle broadcasting to SSE clients, on this instance and, through
+ * the pub/sub transport, on every other instance serving the same sessions
  */
 export class Broadcaster {
+  /**
+   * Start exchanging updates with other instances over the given transport.
+   * Until this is called, broadcasts only reach clients on this instance.
+   */
+  static async connect(transport: PubSubTransport) {
+    await PubSub.use(transport, (message) => this.handleRemote(message))
+
+    // Joins and leaves happen inside SSEService rather than through a route
+    SSEService.onPresenceChange((sessionId, type, data, caller) => {
+      void PubSub.publish({ kind: 'sse', sessionId, type, data, caller })
+    })
+  }
+
+  /**
+   * Apply a message published by another instance
+   */
+  static handleRemote(message: PubSubMessage) {
+    try {
+      switch (message.kind) {
+        case 'sse':
+          if (message.type.startsWith('presence_')) {
+            SSEService.applyRemotePresence(
+              message.sessionId,
+              message.type,
+              message.data,
+              message.caller,
+            )
+          }
+          SSEService.broadcast(
+            message.sessionId,
+            message.type,
+            message.data,
+            message.excludeClientId,
+          )
+          break
+        case 'session_cells':
+          SessionService.applyRemoteCells(message.sessionId, message.cells, message.origin)
+          break
+        case 'session_invalidate':
+          SessionService.applyRemoteInvalidate(message.sessionId)
+          break
+        case 'session_access':
+          this.evictUnauthorized(message.sessionId).catch((error) =>
+            console.error('[Broadcaster] Failed to re-check session access:', error),
+          )
+          break
+      }
+    } catch (error) {
+      console.error('[Broadcaster] Failed to apply remote message:', error)
+    }
+  }
+
+  /**
+   * Disconnect clients, here and on other instances, that lost access to a
+   * session after an invite was revoked or the access mode changed
+   */
+  static async refreshSessionAccess(sessionId: string) {
+    await this.evictUnauthorized(sessionId)
+    await PubSub.publish({ kind: 'session_access', sessionId })
+  }
+
+  private static async evictUnauthorized(sessionId: string) {
+    await SSEService.evictClients(sessionId, async (caller) => {
+      const access = await SessionAccessService.getAccess(sessionId, caller)
+      return SessionAccessService.atLeast(access?.role ?? null, 'spectator')
+    })
+  }
+
   /**
    * Broadcast an event to all clients in a session (SSE)
    * @param sessionId The session ID to broadcast to
@@ -19,6 +91,8 @@ export class Broadcaster {
     } catch (error) {
       console.error('[Broadcaster] SSE error:', error)
     }
+
+    await PubSub.publish({ kind: 'sse', sessionId, type, data, excludeClientId: excludeSenderId })
   }
 
   /**
@@ -30,8 +104,13 @@ export class Broadcaster {
     c: number,
     value: string,
     senderId: string,
+    version?: number,
+    tentative = false,
   ) {
-    const data = { r, c, value, senderId }
+    // The version lets clients base offline edits on the latest write they saw
+    const data: Record<string, unknown> = { r, c, value, senderId }
+    if (version !== undefined) data.version = version
+    if (tentative) data.tentative = true
     try {
       // We pass senderId so SSE implementation implies it *might* exclude it,
       // but for now our SSE broadcast implementation uses it to filter.
@@ -39,6 +118,34 @@ export class Broadcaster {
     } catch (e) {
       console.error('[Broadcaster] SSE error', e)
     }
+
+    await PubSub.publish({
+      kind: 'sse',
+      sessionId,
+      type: 'cell_updated',
+      data,
+      excludeClientId: senderId,
+    })
+  }
+
+  /**
+   * Broadcast every cell written by one request as a single `cells_updated`
+   * event, so a revealed word or an undone paste costs one message
+   */
+  static async broadcastCellChanges(
+    sessionId: string,
+    changes: Array<{ r: number; c: number; value: string; version?: number; tentative?: boolean }>,
+    senderId: string,
+  ) {
+    if (changes.length === 0) return
+
+    const cells = changes.map(({ r, c, value, version, tentative }) => {
+      const cell: Record<string, unknown> = { r, c, value }
+      if (version !== undefined) cell.version = version
+      if (tentative) cell.tentative = true
+      return cell
+    })
+    await this.broadcast(sessionId, 'cells_updated', { cells, senderId }, senderId)
   }
 
   /**
@@ -56,5 +163,13 @@ export class Broadcaster {
     } catch (e) {
       console.error('[Broadcaster] SSE error broadcasting answer feedback', e)
     }
+
+    await PubSub.publish({
+      kind: 'sse',
+      sessionId,
+      type: 'answer_feedback',
+      data,
+      excludeClientId: senderId,
+    })
   }
 }
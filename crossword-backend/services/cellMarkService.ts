@@ -0,0 +1,110 @@
+import db from '../db-knex'
+import { getCellAt } from '../utils/stateHelpers'
+
+export type CellMark =
+  | 'checked' // checked and found correct
+  | 'incorrect' // checked, or autochecked, and found wrong
+  | 'revealed' // filled in from the answer
+
+export interface MarkedCell {
+  r: number
+  c: number
+  mark: CellMark
+  value: string
+}
+
+export interface SessionSettings {
+  puzzleId: number
+  autocheck: boolean
+}
+
+const normalize = (value: string) => value.trim().toUpperCase()
+
+/**
+ * Check and reveal marks on a session's cells. A mark belongs to the letters
+ * it was given for: once someone changes the cell the mark lapses, so edits
+ * never have to clear marks themselves.
+ */
+export class CellMarkService {
+  /**
+   * Compare the given cells against the solution. Empty cells and pencilled
+   * guesses are skipped; with `incorrectOnly` (autocheck) right letters go
+   * unmarked.
+   */
+  static markCells(
+    solution: Map<string, string>,
+    state: string[],
+    cells: Array<{ r: number; c: number }>,
+    tentative: Set<string>,
+    incorrectOnly = false,
+  ): { marked: MarkedCell[]; tentativeSkipped: number } {
+    const marked: MarkedCell[] = []
+    let tentativeSkipped = 0
+
+    for (const { r, c } of cells) {
+      const key = `${r}-${c}`
+      const value = normalize(getCellAt(state, r, c))
+      const expected = solution.get(key)
+      if (!value || !expected) continue
+      if (tentative.has(key)) {
+        tentativeSkipped++
+        continue
+      }
+
+      const mark: CellMark = value === expected ? 'checked' : 'incorrect'
+      if (incorrectOnly && mark === 'checked') continue
+      marked.push({ r, c, mark, value })
+    }
+
+    return { marked, tentativeSkipped }
+  }
+
+  static async setMarks(sessionId: string, marked: MarkedCell[]): Promise<void> {
+    if (marked.length === 0) return
+
+    await db('session_cell_marks')
+      .insert(
+        marked.map(({ r, c, mark, value }) => ({
+          session_id: sessionId,
+          row: r,
+          col: c,
+          mark,
+          value: normalize(value),
+          updated_at: db.fn.now(),
+        })),
+      )
+      .onConflict(['session_id', 'row', 'col'])
+      .merge(['mark', 'value', 'updated_at'])
+  }
+
+  /**
+   * Marks still in force for the session's current letters, keyed "r-c"
+   */
+  static async getMarks(sessionId: string, state: string[]): Promise<Record<string, CellMark>> {
+    const rows = await db('session_cell_marks').where({ session_id: sessionId })
+
+    const marks: Record<string, CellMark> = {}
+    for (const row of rows) {
+      if (normalize(getCellAt(state, row.row, row.col)) === row.value) {
+        marks[`${row.row}-${row.col}`] = row.mark
+      }
+    }
+    return marks
+  }
+
+  static async getSettings(sessionId: string): Promise<SessionSettings | null> {
+    const row = await db('puzzle_sessions')
+      .where({ session_id: sessionId })
+      .select('puzzle_id', 'autocheck')
+      .first()
+
+    return row ? { puzzleId: row.puzzle_id, autocheck: Boolean(row.autocheck) } : null
+  }
+
+  static async setAutocheck(sessionId: string, autocheck: boolean): Promise<boolean> {
+    const updated = await db('puzzle_sessions')
+      .where({ session_id: sessionId })
+      .update({ autocheck })
+    return updated > 0
+  }
+}
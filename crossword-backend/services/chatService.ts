@@ -0,0 +1,79 @@
+import db from '../db-knex'
+
+export interface ChatAuthor {
+  userId: number | null
+  anonymousId: string | null
+  username: string
+}
+
+export interface ChatMessage {
+  id: number
+  sessionId: string
+  userId: number | null
+  username: string
+  body: string
+  createdAt: string
+}
+
+export const MAX_MESSAGE_LENGTH = 1000
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+const toMessage = (row: any): ChatMessage => ({
+  id: row.id,
+  sessionId: row.session_id,
+  userId: row.user_id ?? null,
+  username: row.username,
+  body: row.body,
+  createdAt: row.created_at,
+})
+
+/**
+ * Chat between the collaborators on a shared session
+ */
+export class ChatService {
+  /**
+   * Store a message. Returns null if the session doesn't exist.
+   */
+  static async postMessage(
+    sessionId: string,
+    author: ChatAuthor,
+    body: string,
+  ): Promise<ChatMessage | null> {
+    const session = await db('puzzle_sessions').where({ session_id: sessionId }).first('session_id')
+    if (!session) return null
+
+    const [id] = await db('session_messages').insert({
+      session_id: sessionId,
+      user_id: author.userId,
+      anonymous_id: author.anonymousId,
+      username: author.username,
+      body,
+    })
+
+    const row = await db('session_messages').where({ id }).first()
+    return toMessage(row)
+  }
+
+  /**
+   * Most recent messages, oldest first. Pass `before` (a message id) to page back.
+   */
+  static async getMessages(
+    sessionId: string,
+    options: { before?: number; limit?: number } = {},
+  ): Promise<ChatMessage[]> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+
+    const query = db('session_messages')
+      .where({ session_id: sessionId })
+      .orderBy('id', 'desc')
+      .limit(limit)
+
+    if (options.before !== undefined) {
+      query.where('id', '<', options.before)
+    }
+
+    const rows = await query
+    return rows.reverse().map(toMessage)
+  }
+}
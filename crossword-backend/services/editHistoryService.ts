@@ -0,0 +1,182 @@
+import crypto from 'crypto'
+import db from '../db-knex'
+import { SessionService, type CellChange } from './sessionService'
+import { getCellAt } from '../utils/stateHelpers'
+
+export interface Editor {
+  key: string
+  userId: number | null
+}
+
+export interface RevertedCell {
+  r: number
+  c: number
+  value: string
+  tentative: boolean
+}
+
+// Oldest entries beyond this are dropped so long sessions don't grow without bound
+const HISTORY_LIMIT_PER_SESSION = 2000
+
+/**
+ * Per-session edit log backing collaborative undo/redo.
+ *
+ * Each collaborator has their own stack: undo only reverts edits made by the
+ * same editor, and skips cells someone else has overwritten since, so undoing
+ * never clobbers a partner's work. A collaborator's undone batches always sit
+ * above their live ones (a fresh edit clears them), which makes the redo
+ * target simply the lowest undone batch.
+ */
+export class EditHistoryService {
+  /**
+   * Identify who is editing: logged-in users by id, guests by their anonymous id
+   */
+  static editorFor(user: { id: unknown } | null | undefined, anonymousId?: unknown): Editor | null {
+    if (user?.id != null) {
+      return { key: `user:${user.id}`, userId: user.id as number }
+    }
+    if (typeof anonymousId === 'string' && anonymousId.trim()) {
+      return { key: `anon:${anonymousId.trim()}`, userId: null }
+    }
+    return null
+  }
+
+  static async recordEdits(
+    sessionId: string,
+    editor: Editor | null,
+    changes: CellChange[],
+  ): Promise<void> {
+    const effective = changes.filter(
+      (change) =>
+        change.previous !== change.value || change.previousTentative !== change.tentative,
+    )
+    if (!editor || effective.length === 0) return
+
+    const batchId = crypto.randomUUID()
+
+    await db.transaction(async (trx) => {
+      // A new edit invalidates anything this editor could have redone
+      await trx('session_edits')
+        .where({ session_id: sessionId, editor_key: editor.key, undone: true })
+        .del()
+
+      await trx('session_edits').insert(
+        effective.map((change) => ({
+          session_id: sessionId,
+          batch_id: batchId,
+          editor_key: editor.key,
+          user_id: editor.userId,
+          row: change.r,
+          col: change.c,
+          previous_value: change.previous,
+          new_value: change.value,
+          previous_tentative: change.previousTentative,
+          new_tentative: change.tentative,
+        })),
+      )
+
+      const cutoff = await trx('session_edits')
+        .where({ session_id: sessionId })
+        .orderBy('id', 'desc')
+        .offset(HISTORY_LIMIT_PER_SESSION)
+        .first('id')
+
+      if (cutoff) {
+        await trx('session_edits')
+          .where({ session_id: sessionId })
+          .where('id', '<=', cutoff.id)
+          .del()
+      }
+    })
+  }
+
+  /**
+   * Revert the editor's most recent edit. Returns the cells written, an empty
+   * array when every cell had since been overwritten by someone else, or null
+   * when there is nothing left to undo.
+   */
+  static async undo(sessionId: string, editor: Editor): Promise<RevertedCell[] | null> {
+    return this.step(sessionId, editor, 'undo')
+  }
+
+  /**
+   * Re-apply the editor's most recently undone edit
+   */
+  static async redo(sessionId: string, editor: Editor): Promise<RevertedCell[] | null> {
+    return this.step(sessionId, editor, 'redo')
+  }
+
+  /**
+   * Recent edits, newest first. A guest's editor key holds their anonymous id,
+   * which is all it takes to act as them, so editors are told apart by a hash
+   * of the key instead.
+   */
+  static async getHistory(sessionId: string, limit = 100) {
+    const rows = await db('session_edits')
+      .leftJoin('users', 'session_edits.user_id', 'users.id')
+      .where('session_edits.session_id', sessionId)
+      .select(
+        'session_edits.id',
+        'session_edits.batch_id',
+        'session_edits.editor_key',
+        'session_edits.user_id',
+        'users.username',
+        'session_edits.row',
+        'session_edits.col',
+        'session_edits.previous_value',
+        'session_edits.new_value',
+        'session_edits.previous_tentative',
+        'session_edits.new_tentative',
+        'session_edits.undone',
+        'session_edits.created_at',
+      )
+      .orderBy('session_edits.id', 'desc')
+      .limit(limit)
+
+    return rows.map(({ editor_key, ...row }) => ({
+      ...row,
+      editor: crypto.createHash('sha256').update(editor_key).digest('hex').slice(0, 16),
+    }))
+  }
+
+  private static async step(
+    sessionId: string,
+    editor: Editor,
+    direction: 'undo' | 'redo',
+  ): Promise<RevertedCell[] | null> {
+    const isUndo = direction === 'undo'
+
+    const next = await db('session_edits')
+      .where({ session_id: sessionId, editor_key: editor.key, undone: !isUndo })
+      .orderBy('id', isUndo ? 'desc' : 'asc')
+      .first('batch_id')
+
+    if (!next) return null
+
+    const rows = await db('session_edits').where({ batch_id: next.batch_id }).orderBy('id')
+    const state = (await SessionService.getSessionState(sessionId)) ?? []
+
+    // Only touch cells that still hold what this editor left there
+    const updates: RevertedCell[] = []
+    for (const row of rows) {
+      const current = getCellAt(state, row.row, row.col) || ' '
+      const expected = isUndo ? row.new_value : row.previous_value
+      if (current === expected) {
+        updates.push({
+          r: row.row,
+          c: row.col,
+          value: isUndo ? row.previous_value : row.new_value,
+          tentative: Boolean(isUndo ? row.previous_tentative : row.new_tentative),
+        })
+      }
+    }
+
+    if (updates.length > 0) {
+      await SessionService.updateCells(sessionId, updates)
+    }
+
+    await db('session_edits').where({ batch_id: next.batch_id }).update({ undone: isUndo })
+
+    return updates
+  }
+}
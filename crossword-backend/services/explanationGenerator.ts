@@ -0,0 +1,73 @@
+import { EXPLANATION_PROVIDERS, OPENROUTER_MODELS } from '../config'
+import type { CrypticExplanation } from '../utils/crypticSchema'
+import {
+  createMockExplanationProvider,
+  parseExplanation,
+  type ExplanationProvider,
+  type ExplanationRequest,
+} from '../utils/explanationProviders'
+import { openAiExplanationProvider } from '../utils/openai'
+import { openRouterExplanationProvider } from '../utils/openrouter'
+
+const providerFromConfig = (entry: string): ExplanationProvider => {
+  if (entry === 'mock') return createMockExplanationProvider()
+  if (entry === 'openai') return openAiExplanationProvider
+  if (entry.startsWith('openrouter:')) {
+    const model = entry.slice('openrouter:'.length)
+    return openRouterExplanationProvider(
+      OPENROUTER_MODELS[model as keyof typeof OPENROUTER_MODELS] ?? model,
+    )
+  }
+  throw new Error(`Unknown explanation provider "${entry}" in EXPLANATION_PROVIDERS`)
+}
+
+/**
+ * Generates clue explanations through an ordered chain of providers. A
+ * provider that errors, or returns something that doesn't pass the schema,
+ * hands over to the next one.
+ */
+export class ExplanationGenerator {
+  private static override: ExplanationProvider[] | null = null
+
+  /**
+   * Replace the configured chain, e.g. with mock providers in tests.
+   * Pass null to go back to EXPLANATION_PROVIDERS.
+   */
+  static use(providers: ExplanationProvider[] | null) {
+    this.override = providers
+  }
+
+  /**
+   * Providers to try, in order. A specifically requested OpenRouter model goes
+   * first, ahead of the configured chain.
+   */
+  static providers(model?: string): ExplanationProvider[] {
+    if (this.override) return this.override
+
+    const configured = EXPLANATION_PROVIDERS.map(providerFromConfig)
+    if (!model) return configured
+
+    const requested = openRouterExplanationProvider(model)
+    return [requested, ...configured.filter((p) => p.name !== requested.name)]
+  }
+
+  static async generate(
+    request: ExplanationRequest,
+    options: { model?: string } = {},
+  ): Promise<{ explanation: CrypticExplanation; provider: string }> {
+    const failures: string[] = []
+
+    for (const provider of this.providers(options.model)) {
+      try {
+        const explanation = parseExplanation(await provider.explain(request))
+        return { explanation, provider: provider.name }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.warn(`[ExplanationGenerator] ${provider.name} failed, trying next: ${message}`)
+        failures.push(`${provider.name}: ${message}`)
+      }
+    }
+
+    throw new Error(`All explanation providers failed:\n  ${failures.join('\n  ')}`)
+  }
+}
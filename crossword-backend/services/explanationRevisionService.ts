@@ -0,0 +1,103 @@
+import type { Knex } from 'knex'
+import db from '../db-knex'
+
+export type RevisionSource =
+  | 'import' // already stored when revisions were introduced
+  | 'generated' // on-demand explanation for a player
+  | 'batch' // applied from a batch job
+  | 'admin_edit' // JSON edited by hand in the review page
+  | 'regeneration' // admin-approved regeneration
+  | 'restore' // an earlier revision brought back
+  | 'script' // maintenance scripts
+
+export interface RevisionInfo {
+  source: RevisionSource
+  authorId?: number | null
+  note?: string | null
+}
+
+export interface ClueKey {
+  puzzleId: number
+  clueNumber: number
+  direction: string
+}
+
+export interface ExplanationRevision {
+  id: number
+  puzzleId: number
+  clueNumber: number
+  direction: string
+  explanation: unknown
+  source: RevisionSource
+  authorId: number | null
+  authorName: string | null
+  note: string | null
+  createdAt: string
+}
+
+const toRevision = (row: any): ExplanationRevision => ({
+  id: row.id,
+  puzzleId: row.puzzle_id,
+  clueNumber: row.clue_number,
+  direction: row.direction,
+  explanation: JSON.parse(row.explanation_json),
+  source: row.source,
+  authorId: row.author_id ?? null,
+  authorName: row.author_name ?? null,
+  note: row.note ?? null,
+  createdAt: row.created_at,
+})
+
+/**
+ * Append-only history of every explanation written to clue_explanations.
+ * The newest revision of a clue is always the one currently in use.
+ */
+export class ExplanationRevisionService {
+  /**
+   * Append a revision; pass the transaction that writes clue_explanations
+   * so the history can't drift from the current explanation
+   */
+  static async record(
+    trx: Knex | Knex.Transaction,
+    clue: ClueKey,
+    explanationJson: string,
+    info: RevisionInfo,
+  ): Promise<void> {
+    await trx('explanation_revisions').insert({
+      puzzle_id: clue.puzzleId,
+      clue_number: clue.clueNumber,
+      direction: clue.direction,
+      explanation_json: explanationJson,
+      source: info.source,
+      author_id: info.authorId ?? null,
+      note: info.note ?? null,
+    })
+  }
+
+  /**
+   * All revisions of a clue's explanation, newest first
+   */
+  static async list(clue: ClueKey): Promise<ExplanationRevision[]> {
+    const rows = await db('explanation_revisions')
+      .leftJoin('users', 'users.id', 'explanation_revisions.author_id')
+      .where({
+        'explanation_revisions.puzzle_id': clue.puzzleId,
+        'explanation_revisions.clue_number': clue.clueNumber,
+        'explanation_revisions.direction': clue.direction,
+      })
+      .select('explanation_revisions.*', 'users.username as author_name')
+      .orderBy('explanation_revisions.id', 'desc')
+
+    return rows.map(toRevision)
+  }
+
+  static async get(revisionId: number): Promise<ExplanationRevision | null> {
+    const row = await db('explanation_revisions')
+      .leftJoin('users', 'users.id', 'explanation_revisions.author_id')
+      .where('explanation_revisions.id', revisionId)
+      .select('explanation_revisions.*', 'users.username as author_name')
+      .first()
+
+    return row ? toRevision(row) : null
+  }
+}
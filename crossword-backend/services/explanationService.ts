@@ -1,6 +1,14 @@
 import db from '../db-knex'
-import { explainCrypticClue } from '../utils/openrouter'
+import { EXPLANATION_VERIFY_RETRIES } from '../config'
+import { ExplanationGenerator } from './explanationGenerator'
+import { ExplanationRevisionService, type RevisionInfo } from './explanationRevisionService'
 import { assertValidExplanation } from '../utils/validateExplanation'
+import {
+  describeVerificationFailure,
+  verifyExplanation,
+  type ExplanationVerification,
+  type StepVerification,
+} from '../utils/verifyExplanation'
 
 export type FlatClueExplanation =
   | WordplayExplanation
@@ -84,6 +92,16 @@ export interface NoCleanParseExplanation {
   full_explanation: string
 }
 
+// Whether the wordplay steps reduce the clue to the answer. Clue types without
+// wordplay steps (double definitions, cryptic definitions) stay 'unchecked'.
+export interface ExplanationCheck {
+  status: 'verified' | 'failed' | 'unchecked'
+  steps: StepVerification[]
+}
+
+// What players receive: the flat explanation plus its verification result
+export type ClientClueExplanation = FlatClueExplanation & { verification: ExplanationCheck }
+
 // OLD FORMAT (for backward compatibility)
 interface OldClueExplanation {
   definition?: string
@@ -105,6 +123,9 @@ interface StoredExplanation {
   answer: string
   explanation_json: string
   created_at: string
+  verified: number | boolean | null
+  verified_at: string | null
+  verification_json: string | null
 }
 
 const extractInnerExplanationForStorage = (
@@ -149,6 +170,17 @@ const normalizeForClient = (data: any): FlatClueExplanation => {
   } as FlatClueExplanation
 }
 
+const toCheck = (verification: ExplanationVerification): ExplanationCheck => ({
+  status: verification.error ? 'unchecked' : verification.verified ? 'verified' : 'failed',
+  steps: verification.steps,
+})
+
+// Rows verified before verification_json existed only have the verified flag
+const checkFromRow = (row: StoredExplanation): ExplanationCheck => ({
+  status: row.verified ? 'verified' : row.verified_at ? 'failed' : 'unchecked',
+  steps: row.verification_json ? (JSON.parse(row.verification_json).steps ?? []) : [],
+})
+
 export class ExplanationService {
   /**
    * Get an existing explanation from the cache
@@ -157,7 +189,7 @@ export class ExplanationService {
     puzzleId: number,
     clueNumber: number,
     direction: string,
-  ): Promise<FlatClueExplanation | null> {
+  ): Promise<ClientClueExplanation | null> {
     const row = await db<StoredExplanation>('clue_explanations')
       .where({
         puzzle_id: puzzleId,
@@ -172,12 +204,127 @@ export class ExplanationService {
 
     const data = JSON.parse(row.explanation_json)
 
-    return normalizeForClient(data)
+    return { ...normalizeForClient(data), verification: checkFromRow(row) }
+  }
+
+  /**
+   * Columns recording a verifyExplanation result on a clue_explanations row.
+   * verified_at stays null when there were no wordplay steps to check.
+   */
+  static verificationColumns(verification: ExplanationVerification) {
+    return {
+      verified: verification.verified,
+      verified_at: verification.error ? null : db.fn.now(),
+      verification_json: JSON.stringify({
+        steps: verification.steps,
+        finalAnswerPresent: verification.finalAnswerPresent,
+        error: verification.error,
+      }),
+    }
+  }
+
+  /**
+   * Verify an explanation's wordplay steps. While they fail, ask the model
+   * again with the failing steps as feedback, up to EXPLANATION_VERIFY_RETRIES
+   * times. Returns the first regeneration that passes, or else the explanation
+   * as given with its own result.
+   */
+  private static async verifyOrRegenerate(
+    puzzleId: number,
+    clueText: string,
+    answer: string,
+    explanation: unknown,
+  ): Promise<{
+    explanation: unknown
+    verification: ExplanationVerification
+    regenerated: boolean
+  }> {
+    const verification = verifyExplanation(explanation, clueText, answer)
+    let attempt = { explanation, verification }
+
+    for (let retry = 1; retry <= EXPLANATION_VERIFY_RETRIES; retry++) {
+      if (toCheck(attempt.verification).status !== 'failed') break
+
+      const feedback = `The wordplay steps do not reduce the clue to the answer: ${describeVerificationFailure(attempt.verification)}`
+      try {
+        const regenerated = await ExplanationGenerator.generate({
+          clue: clueText,
+          answer,
+          mode: 'full',
+          puzzleId,
+          feedback,
+          previousExplanation: attempt.explanation,
+        })
+        const inner = extractInnerExplanationForStorage(
+          regenerated.explanation as StoredClueExplanation,
+        )
+        attempt = { explanation: inner, verification: verifyExplanation(inner, clueText, answer) }
+      } catch (error) {
+        // Keep the unverified explanation rather than failing the save
+        console.error('Failed to regenerate unverified explanation:', error)
+        break
+      }
+      if (toCheck(attempt.verification).status !== 'failed') {
+        return { ...attempt, regenerated: true }
+      }
+    }
+
+    return { explanation, verification, regenerated: false }
+  }
+
+  /**
+   * Write the current explanation for a clue and append it to the clue's
+   * revision history. Wordplay that fails verification is regenerated first
+   * (see verifyOrRegenerate); a regeneration that passes is stored instead,
+   * after the original's own revision. Doesn't validate the schema: admin
+   * edits and restores may hold hand-written JSON.
+   */
+  static async storeExplanation(
+    puzzleId: number,
+    clueNumber: number,
+    direction: string,
+    clueText: string,
+    answer: string,
+    explanation: unknown,
+    revision: RevisionInfo,
+  ): Promise<ExplanationVerification> {
+    const checked = await this.verifyOrRegenerate(puzzleId, clueText, answer, explanation)
+    const explanationJson = JSON.stringify(checked.explanation)
+    const clue = { puzzleId, clueNumber, direction }
+
+    await db.transaction(async (trx) => {
+      await trx('clue_explanations')
+        .insert({
+          puzzle_id: puzzleId,
+          clue_number: clueNumber,
+          direction: direction,
+          clue_text: clueText,
+          answer: answer,
+          explanation_json: explanationJson,
+          ...this.verificationColumns(checked.verification),
+        })
+        .onConflict(['puzzle_id', 'clue_number', 'direction'])
+        .merge() // Update existing record on conflict
+
+      if (checked.regenerated) {
+        await ExplanationRevisionService.record(trx, clue, JSON.stringify(explanation), revision)
+        await ExplanationRevisionService.record(trx, clue, explanationJson, {
+          source: 'generated',
+          note: 'Regenerated after failing verification',
+        })
+      } else {
+        await ExplanationRevisionService.record(trx, clue, explanationJson, revision)
+      }
+    })
+
+    return checked.verification
   }
 
   /**
    * Save an explanation to the database
-   * Validates the explanation before saving to ensure schema conformance
+   * Validates the explanation before saving to ensure schema conformance,
+   * then stores it through storeExplanation, which verifies its wordplay
+   * steps and records the per-step results
    */
   static async saveExplanation(
     puzzleId: number,
@@ -186,27 +333,61 @@ export class ExplanationService {
     clueText: string,
     answer: string,
     explanation: StoredClueExplanation | FlatClueExplanation,
-  ): Promise<void> {
+    revision: RevisionInfo = { source: 'script' },
+  ): Promise<ExplanationVerification> {
     const explanationToStore = extractInnerExplanationForStorage(explanation)
 
     // Validate the explanation before saving
     assertValidExplanation(explanationToStore)
 
-    await db('clue_explanations')
-      .insert({
-        puzzle_id: puzzleId,
-        clue_number: clueNumber,
-        direction: direction,
-        clue_text: clueText,
-        answer: answer,
-        explanation_json: JSON.stringify(explanationToStore),
+    return this.storeExplanation(
+      puzzleId,
+      clueNumber,
+      direction,
+      clueText,
+      answer,
+      explanationToStore,
+      revision,
+    )
+  }
+
+  /**
+   * Make an earlier revision the current explanation again. The restore is
+   * itself recorded as a new revision, so it can be undone the same way.
+   * Returns null if the revision or its clue no longer exists.
+   */
+  static async restoreRevision(
+    revisionId: number,
+    authorId: number | null,
+  ): Promise<ExplanationVerification | null> {
+    const revision = await ExplanationRevisionService.get(revisionId)
+    if (!revision) return null
+
+    const current = await db<StoredExplanation>('clue_explanations')
+      .where({
+        puzzle_id: revision.puzzleId,
+        clue_number: revision.clueNumber,
+        direction: revision.direction,
       })
-      .onConflict(['puzzle_id', 'clue_number', 'direction'])
-      .merge() // Update existing record on conflict
+      .first()
+    if (!current) return null
+
+    return this.storeExplanation(
+      revision.puzzleId,
+      revision.clueNumber,
+      revision.direction,
+      current.clue_text,
+      current.answer,
+      revision.explanation,
+      { source: 'restore', authorId, note: `Restored revision #${revision.id}` },
+    )
   }
 
   /**
    * Get or create an explanation for a clue.
+   * A new explanation is saved through storeExplanation, so wordplay that
+   * fails verification is regenerated there; if it still fails it is saved
+   * anyway and shown to players as unverified.
    * Returns { explanation, cached: boolean }
    */
   static async getOrCreateExplanation(
@@ -215,23 +396,32 @@ export class ExplanationService {
     direction: string,
     clueText: string,
     answer: string,
-  ): Promise<{ explanation: FlatClueExplanation; cached: boolean }> {
+  ): Promise<{ explanation: ClientClueExplanation; cached: boolean }> {
     // Check cache first
     const cached = await this.getCachedExplanation(puzzleId, clueNumber, direction)
     if (cached) {
       return { explanation: cached, cached: true }
     }
 
-    // Generate new explanation from OpenAI
-    const explanation = (await explainCrypticClue({
-      clue: clueText,
-      answer: answer,
-      mode: 'full',
-    })) as StoredClueExplanation
+    // Generate a new explanation, falling back through the configured providers
+    const request = { clue: clueText, answer: answer, mode: 'full' as const, puzzleId }
+    const { explanation } = await ExplanationGenerator.generate(request)
 
-    // Save to cache
-    await this.saveExplanation(puzzleId, clueNumber, direction, clueText, answer, explanation)
+    // Save to cache, then read back whichever version was kept
+    await this.saveExplanation(
+      puzzleId,
+      clueNumber,
+      direction,
+      clueText,
+      answer,
+      explanation as StoredClueExplanation,
+      { source: 'generated' },
+    )
+    const saved = await this.getCachedExplanation(puzzleId, clueNumber, direction)
+    if (!saved) {
+      throw new Error('Explanation was not saved')
+    }
 
-    return { explanation: normalizeForClient(explanation), cached: false }
+    return { explanation: saved, cached: false }
   }
 }
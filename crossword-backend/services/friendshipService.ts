@@ -5,6 +5,28 @@ interface User {
   username: string
 }
 
+export type FriendshipStatus = 'accepted' | 'pending'
+
+interface Friendship {
+  id: number
+  user_id_1: number
+  user_id_2: number
+  status: FriendshipStatus
+  requested_by: number
+  created_at: string
+  updated_at: string
+}
+
+export interface FriendRequest {
+  id: number
+  user: User
+  created_at: string
+}
+
+export interface UserSearchResult extends User {
+  relationship: 'none' | 'friends' | 'incoming' | 'outgoing'
+}
+
 export class FriendshipService {
   /**
    * Get all accepted friends for a user
@@ -70,7 +92,7 @@ export class FriendshipService {
   static async createFriendship(
     userId1: number,
     userId2: number,
-    status: 'accepted' | 'pending' = 'accepted',
+    status: FriendshipStatus = 'accepted',
   ): Promise<void> {
     const [smallerId, largerId] = userId1 < userId2 ? [userId1, userId2] : [userId2, userId1]
 
@@ -83,4 +105,192 @@ export class FriendshipService {
       updated_at: new Date().toISOString(),
     })
   }
+
+  /**
+   * Find the friendship row (any status) between two users
+   */
+  static async getFriendship(userId1: number, userId2: number): Promise<Friendship | undefined> {
+    const [smallerId, largerId] = userId1 < userId2 ? [userId1, userId2] : [userId2, userId1]
+
+    return db('friendships').where({ user_id_1: smallerId, user_id_2: largerId }).first()
+  }
+
+  /**
+   * Get pending requests involving a user, split by direction
+   */
+  static async getPendingRequests(
+    userId: number,
+  ): Promise<{ incoming: FriendRequest[]; outgoing: FriendRequest[] }> {
+    const rows = await db('friendships')
+      .where('friendships.status', 'pending')
+      .andWhere(function () {
+        this.where('user_id_1', userId).orWhere('user_id_2', userId)
+      })
+      .select('friendships.*')
+      .orderBy('friendships.created_at', 'desc')
+
+    if (rows.length === 0) {
+      return { incoming: [], outgoing: [] }
+    }
+
+    const otherIds = rows.map((f: Friendship) => (f.user_id_1 === userId ? f.user_id_2 : f.user_id_1))
+    const users = await db('users').whereIn('id', otherIds).select('id', 'username')
+    const usernames = new Map<number, string>(users.map((u: User) => [u.id, u.username]))
+
+    const incoming: FriendRequest[] = []
+    const outgoing: FriendRequest[] = []
+
+    for (const f of rows as Friendship[]) {
+      const otherId = f.user_id_1 === userId ? f.user_id_2 : f.user_id_1
+      const request: FriendRequest = {
+        id: f.id,
+        user: { id: otherId, username: usernames.get(otherId) || 'Unknown' },
+        created_at: f.created_at,
+      }
+      if (f.requested_by === userId) {
+        outgoing.push(request)
+      } else {
+        incoming.push(request)
+      }
+    }
+
+    return { incoming, outgoing }
+  }
+
+  /**
+   * Send a friend request. If the target has already asked us, the request is accepted instead.
+   */
+  static async sendRequest(
+    requesterId: number,
+    targetId: number,
+  ): Promise<{ status: FriendshipStatus }> {
+    if (requesterId === targetId) {
+      throw new Error('Cannot friend yourself')
+    }
+
+    const target = await db('users').where({ id: targetId }).first()
+    if (!target) {
+      throw new Error('User not found')
+    }
+
+    const existing = await this.getFriendship(requesterId, targetId)
+
+    if (existing) {
+      if (existing.status === 'accepted') {
+        throw new Error('Already friends')
+      }
+      if (existing.requested_by === requesterId) {
+        throw new Error('Friend request already sent')
+      }
+
+      // They asked us first - treat this as acceptance
+      await db('friendships')
+        .where({ id: existing.id })
+        .update({ status: 'accepted', updated_at: new Date().toISOString() })
+      return { status: 'accepted' }
+    }
+
+    const [smallerId, largerId] =
+      requesterId < targetId ? [requesterId, targetId] : [targetId, requesterId]
+
+    await db('friendships').insert({
+      user_id_1: smallerId,
+      user_id_2: largerId,
+      status: 'pending',
+      requested_by: requesterId,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+
+    return { status: 'pending' }
+  }
+
+  /**
+   * Accept a pending request that another user sent to us
+   */
+  static async acceptRequest(userId: number, requesterId: number): Promise<void> {
+    const existing = await this.getFriendship(userId, requesterId)
+
+    if (!existing || existing.status !== 'pending' || existing.requested_by !== requesterId) {
+      throw new Error('Friend request not found')
+    }
+
+    await db('friendships')
+      .where({ id: existing.id })
+      .update({ status: 'accepted', updated_at: new Date().toISOString() })
+  }
+
+  /**
+   * Decline a pending request that another user sent to us
+   */
+  static async declineRequest(userId: number, requesterId: number): Promise<void> {
+    const existing = await this.getFriendship(userId, requesterId)
+
+    if (!existing || existing.status !== 'pending' || existing.requested_by !== requesterId) {
+      throw new Error('Friend request not found')
+    }
+
+    await db('friendships').where({ id: existing.id }).del()
+  }
+
+  /**
+   * Remove a friend, or cancel a request we sent
+   */
+  static async removeFriendship(userId: number, otherUserId: number): Promise<void> {
+    const existing = await this.getFriendship(userId, otherUserId)
+
+    if (!existing) {
+      throw new Error('Friendship not found')
+    }
+
+    // Only the requester may withdraw a pending request; the recipient declines it instead
+    if (existing.status === 'pending' && existing.requested_by !== userId) {
+      throw new Error('Friendship not found')
+    }
+
+    await db('friendships').where({ id: existing.id }).del()
+  }
+
+  /**
+   * Search users by username prefix, annotated with their relationship to the searcher
+   */
+  static async searchUsers(userId: number, query: string, limit = 20): Promise<UserSearchResult[]> {
+    const term = query.trim()
+    if (!term) {
+      return []
+    }
+
+    const users: User[] = await db('users')
+      .where('username', 'like', `${term.replace(/[%_]/g, '')}%`)
+      .andWhereNot('id', userId)
+      .orderBy('username', 'asc')
+      .limit(limit)
+      .select('id', 'username')
+
+    if (users.length === 0) {
+      return []
+    }
+
+    const friendships: Friendship[] = await db('friendships')
+      .where(function () {
+        this.where('user_id_1', userId).orWhere('user_id_2', userId)
+      })
+      .select('*')
+
+    const byOtherId = new Map<number, Friendship>()
+    for (const f of friendships) {
+      byOtherId.set(f.user_id_1 === userId ? f.user_id_2 : f.user_id_1, f)
+    }
+
+    return users.map((u) => {
+      const f = byOtherId.get(u.id)
+      let relationship: UserSearchResult['relationship'] = 'none'
+      if (f?.status === 'accepted') {
+        relationship = 'friends'
+      } else if (f?.status === 'pending') {
+        relationship = f.requested_by === userId ? 'outgoing' : 'incoming'
+      }
+      return { ...u, relationship }
+    })
+  }
 }
@@ -0,0 +1,201 @@
+import db from '../db-knex'
+import type { ClueToken, FlatClueExplanation } from './explanationService'
+
+export type HintRungKind =
+  | 'definition_location'
+  | 'definition'
+  | 'wordplay_types'
+  | 'indicators'
+  | 'step'
+  | 'answer'
+
+export interface HintRung {
+  level: number
+  kind: HintRungKind
+  text: string
+  // Clue words the player should look at once this rung is revealed
+  highlight: string[]
+}
+
+export interface HintLadder {
+  levels: HintRung[] // the rungs used so far
+  total: number
+  next: HintRungKind | null
+}
+
+export interface HintClue {
+  sessionId: string
+  clueNumber: number
+  direction: string
+}
+
+type Rung = Omit<HintRung, 'level'>
+
+const quote = (words: string[]) => words.map((w) => `"${w}"`).join(', ')
+
+const tokensWithRole = (segmentation: ClueToken[] | undefined, role: ClueToken['role']) =>
+  (segmentation ?? []).filter((t) => t.role === role).map((t) => t.text)
+
+// Older explanations have no hint.definition_location, so fall back to where
+// the definition tokens sit in the segmentation
+function definitionLocation(explanation: any): 'start' | 'end' | null {
+  const location = explanation.hint?.definition_location
+  if (location === 'start' || location === 'end') return location
+
+  const tokens: ClueToken[] = (explanation.clue_segmentation ?? []).filter(
+    (t: ClueToken) => t.role !== 'link',
+  )
+  if (tokens[0]?.role === 'definition') return 'start'
+  if (tokens[tokens.length - 1]?.role === 'definition') return 'end'
+  return null
+}
+
+function wordplayRungs(explanation: any): Rung[] {
+  const rungs: Rung[] = []
+
+  const types: string[] = explanation.hint?.wordplay_types ?? []
+  if (types.length > 0) {
+    rungs.push({ kind: 'wordplay_types', text: `Wordplay: ${types.join(', ')}.`, highlight: [] })
+  }
+
+  const indicators = tokensWithRole(explanation.clue_segmentation, 'indicator')
+  if (indicators.length > 0) {
+    rungs.push({
+      kind: 'indicators',
+      text: `${indicators.length === 1 ? 'Indicator' : 'Indicators'}: ${quote(indicators)}.`,
+      highlight: indicators,
+    })
+  }
+
+  const steps: Array<{ tokens: string; operation: string; result: string }> =
+    explanation.wordplay_steps ?? []
+  steps.forEach((step, i) => {
+    rungs.push({
+      kind: 'step',
+      text: `Step ${i + 1} of ${steps.length}: "${step.tokens}" (${step.operation}) gives ${step.result}.`,
+      highlight: [],
+    })
+  })
+
+  return rungs
+}
+
+/**
+ * The graded hints an explanation supports, from where the definition sits
+ * through each wordplay step to the answer. Rungs with nothing to say for
+ * the clue type (e.g. indicators in a double definition) are left out.
+ */
+export function buildHintLadder(explanation: FlatClueExplanation, answer: string): HintRung[] {
+  const e = explanation as any
+  const rungs: Rung[] = []
+
+  switch (explanation.clue_type) {
+    case 'double_definition': {
+      const definitions: string[] = (e.definitions ?? []).map((d: any) => d.definition)
+      rungs.push({
+        kind: 'definition_location',
+        text: 'This is a double definition: the clue is two definitions side by side.',
+        highlight: [],
+      })
+      if (definitions.length > 0) {
+        rungs.push({
+          kind: 'definition',
+          text: `Definitions: ${quote(definitions)}.`,
+          highlight: definitions,
+        })
+      }
+      break
+    }
+
+    case 'cryptic_definition':
+      rungs.push({
+        kind: 'definition_location',
+        text: 'The whole clue is a cryptic definition; there is no wordplay.',
+        highlight: [],
+      })
+      if (e.definition_paraphrase) {
+        rungs.push({
+          kind: 'definition',
+          text: `Read it as: ${e.definition_paraphrase}`,
+          highlight: [],
+        })
+      }
+      break
+
+    case '&lit':
+      rungs.push({
+        kind: 'definition_location',
+        text: 'The whole clue is both the definition and the wordplay.',
+        highlight: [],
+      })
+      rungs.push(...wordplayRungs(e))
+      break
+
+    default: {
+      // 'wordplay', and 'no_clean_parse' which still names a definition
+      const location = definitionLocation(e)
+      if (location) {
+        rungs.push({
+          kind: 'definition_location',
+          text: `The definition is at the ${location} of the clue.`,
+          highlight: [],
+        })
+      }
+      const definition = tokensWithRole(e.clue_segmentation, 'definition')
+      const highlight = definition.length > 0 ? definition : e.definition ? [e.definition] : []
+      if (highlight.length > 0) {
+        rungs.push({ kind: 'definition', text: `Definition: ${quote(highlight)}.`, highlight })
+      }
+      if (explanation.clue_type === 'wordplay') rungs.push(...wordplayRungs(e))
+    }
+  }
+
+  rungs.push({ kind: 'answer', text: `The answer is ${answer}.`, highlight: [] })
+
+  return rungs.map((rung, i) => ({ level: i + 1, ...rung }))
+}
+
+/**
+ * How far each clue of a session has been climbed. Levels are shared by
+ * everyone solving the session and recorded once, when first revealed.
+ */
+export class HintLadderService {
+  static async getLevel(clue: HintClue): Promise<number> {
+    const row = await db('session_hint_levels')
+      .where({
+        session_id: clue.sessionId,
+        clue_number: clue.clueNumber,
+        direction: clue.direction,
+      })
+      .max('level as level')
+      .first()
+
+    return Number(row?.level) || 0
+  }
+
+  static async recordLevel(clue: HintClue, rung: HintRung, userId: number | null): Promise<void> {
+    await db('session_hint_levels')
+      .insert({
+        session_id: clue.sessionId,
+        clue_number: clue.clueNumber,
+        direction: clue.direction,
+        level: rung.level,
+        kind: rung.kind,
+        user_id: userId,
+      })
+      .onConflict(['session_id', 'clue_number', 'direction', 'level'])
+      .ignore()
+  }
+
+  /**
+   * The ladder as seen by the session: rungs up to the level reached
+   */
+  static view(rungs: HintRung[], level: number): HintLadder {
+    const used = Math.min(level, rungs.length)
+    return {
+      levels: rungs.slice(0, used),
+      total: rungs.length,
+      next: rungs[used]?.kind ?? null,
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import db from '../db-knex'
+import { MODEL_PRICES } from '../config'
+
+export type ModelProvider = 'openai' | 'openrouter'
+
+export type ModelPurpose = 'explanation' | 'hint' | 'transcription' | 'parsewords' | 'chat'
+
+export interface ModelCallContext {
+  provider: ModelProvider
+  model: string
+  purpose: ModelPurpose
+  puzzleId?: number | null
+  // Batch API requests are billed at half price
+  batch?: boolean
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface SpendTotals {
+  calls: number
+  failures: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+export interface SpendSummary {
+  days: number
+  totals: SpendTotals
+  byDay: Array<SpendTotals & { day: string }>
+  byPurpose: Array<SpendTotals & { purpose: string }>
+  byPuzzle: Array<SpendTotals & { puzzleId: number; title: string | null }>
+  byModel: Array<SpendTotals & { provider: string; model: string }>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PUZZLE_LIMIT = 50
+
+// The OpenAI SDK calls models by bare name, and batch results report dated
+// snapshots like 'gpt-5-mini-2025-08-07'; the ledger uses OpenRouter slugs
+const toSlug = (provider: ModelProvider, model: string) =>
+  provider === 'openai' && !model.includes('/')
+    ? `openai/${model.replace(/-\d{4}-\d{2}-\d{2}$/, '')}`
+    : model
+
+/**
+ * Token counts from any response shape we get back: the OpenAI Responses
+ * API, OpenAI chat completions, or the OpenRouter SDK
+ */
+export function readTokenUsage(response: any): TokenUsage | null {
+  const usage = response?.usage
+  if (!usage) return null
+  const inputTokens = usage.input_tokens ?? usage.prompt_tokens ?? usage.promptTokens
+  const outputTokens = usage.output_tokens ?? usage.completion_tokens ?? usage.completionTokens
+  if (typeof inputTokens !== 'number' && typeof outputTokens !== 'number') return null
+  return { inputTokens: inputTokens ?? 0, outputTokens: outputTokens ?? 0 }
+}
+
+const SPEND_COLUMNS = [
+  db.raw('COUNT(*) as calls'),
+  db.raw('SUM(CASE WHEN error IS NULL THEN 0 ELSE 1 END) as failures'),
+  db.raw('COALESCE(SUM(input_tokens), 0) as inputTokens'),
+  db.raw('COALESCE(SUM(output_tokens), 0) as outputTokens'),
+  db.raw('COALESCE(SUM(cost_usd), 0) as costUsd'),
+]
+
+const toTotals = (row: any): SpendTotals => ({
+  calls: Number(row?.calls ?? 0),
+  failures: Number(row?.failures ?? 0),
+  inputTokens: Number(row?.inputTokens ?? 0),
+  outputTokens: Number(row?.outputTokens ?? 0),
+  costUsd: Number(row?.costUsd ?? 0),
+})
+
+/**
+ * Ledger of every paid model call, so spend can be traced back to the
+ * feature and puzzle that caused it.
+ */
+export class ModelUsageService {
+  /**
+   * Estimated cost in USD, or null when the model has no listed price
+   */
+  static estimateCost(model: string, usage: TokenUsage, batch = false): number | null {
+    const price = MODEL_PRICES[model]
+    if (!price) return null
+    const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+    return batch ? cost / 2 : cost
+  }
+
+  /**
+   * Write one call to the ledger. Never throws: losing a ledger row is better
+   * than failing a request the model has already been paid for.
+   */
+  static async record(
+    context: ModelCallContext,
+    usage: TokenUsage | null,
+    latencyMs: number | null,
+    error?: unknown,
+  ) {
+    const model = toSlug(context.provider, context.model)
+    const tokens = usage ?? { inputTokens: 0, outputTokens: 0 }
+    try {
+      await db('model_calls').insert({
+        provider: context.provider,
+        model,
+        purpose: context.purpose,
+        puzzle_id: context.puzzleId ?? null,
+        input_tokens: tokens.inputTokens,
+        output_tokens: tokens.outputTokens,
+        latency_ms: latencyMs === null ? null : Math.round(latencyMs),
+        cost_usd: usage ? this.estimateCost(model, tokens, context.batch) : null,
+        error: error === undefined ? null : error instanceof Error ? error.message : String(error),
+      })
+    } catch (e) {
+      console.error('[ModelUsage] Failed to record model call:', e)
+    }
+  }
+
+  /**
+   * Record one line of an OpenAI Batch API output file. Batches only ever
+   * carry clue explanations.
+   */
+  static async recordBatchResult(body: any, puzzleId: number | null) {
+    if (!body?.model) return
+    await this.record(
+      { provider: 'openai', model: body.model, purpose: 'explanation', puzzleId, batch: true },
+      readTokenUsage(body),
+      null,
+    )
+  }
+
+  /**
+   * Record a model call once it settles, whether it succeeds or not. Pass the
+   * request as soon as it is made so the latency covers the whole call.
+   */
+  static async track<T>(context: ModelCallContext, request: Promise<T>): Promise<T> {
+    const start = performance.now()
+    try {
+      const response = await request
+      await this.record(context, readTokenUsage(response), performance.now() - start)
+      return response
+    } catch (error) {
+      await this.record(context, null, performance.now() - start, error)
+      throw error
+    }
+  }
+
+  /**
+   * Spend over the last `days` days, in total and broken down by day,
+   * purpose, puzzle and model. Biggest spenders come first.
+   */
+  static async getSummary(days = 30, now = Date.now()): Promise<SpendSummary> {
+    // created_at is stored as UTC 'YYYY-MM-DD HH:MM:SS', so strings compare in order
+    const since = new Date(now - days * DAY_MS).toISOString().slice(0, 19).replace('T', ' ')
+    const calls = () => db('model_calls').where('model_calls.created_at', '>=', since)
+
+    const [totals, byDay, byPurpose, byPuzzle, byModel] = await Promise.all([
+      calls().select(SPEND_COLUMNS).first(),
+      calls()
+        .select(db.raw('date(created_at) as day'), ...SPEND_COLUMNS)
+        .groupBy('day')
+        .orderBy('day', 'desc'),
+      calls().select('purpose', ...SPEND_COLUMNS).groupBy('purpose').orderBy('costUsd', 'desc'),
+      calls()
+        .leftJoin('puzzles', 'puzzles.id', 'model_calls.puzzle_id')
+        .whereNotNull('model_calls.puzzle_id')
+        .select('model_calls.puzzle_id as puzzleId', 'puzzles.title', ...SPEND_COLUMNS)
+        .groupBy('model_calls.puzzle_id')
+        .orderBy('costUsd', 'desc')
+        .limit(PUZZLE_LIMIT),
+      calls()
+        .select('provider', 'model', ...SPEND_COLUMNS)
+        .groupBy('provider', 'model')
+        .orderBy('costUsd', 'desc'),
+    ])
+
+    return {
+      days,
+      totals: toTotals(totals),
+      byDay: byDay.map((row: any) => ({ day: row.day, ...toTotals(row) })),
+      byPurpose: byPurpose.map((row: any) => ({ purpose: row.purpose, ...toTotals(row) })),
+      byPuzzle: byPuzzle.map((row: any) => ({
+        puzzleId: row.puzzleId,
+        title: row.title ?? null,
+        ...toTotals(row),
+      })),
+      byModel: byModel.map((row: any) => ({
+        provider: row.provider,
+        model: row.model,
+        ...toTotals(row),
+      })),
+    }
+  }
+}
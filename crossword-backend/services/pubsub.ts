@@ -0,0 +1,260 @@
+import crypto from 'crypto'
+import type { Knex } from 'knex'
+import type { SessionCaller } from './sessionAccessService'
+
+export interface CellPatch {
+  r: number
+  c: number
+  value: string
+  version: number
+  tentative?: boolean
+}
+
+// Everything one backend instance needs to tell its peers
+export type PubSubMessage =
+  // Deliver an SSE event to clients connected to other instances. A join also
+  // carries who opened the connection, which is kept from the clients.
+  | {
+      kind: 'sse'
+      sessionId: string
+      type: string
+      data: unknown
+      excludeClientId?: string
+      caller?: SessionCaller | null
+    }
+  // Keep peers' session caches in step with a cell write. `origin` is the
+  // publishing instance, which settles writes that carry the same version.
+  | { kind: 'session_cells'; sessionId: string; origin: string; cells: CellPatch[] }
+  // Session reset, merged or deleted: peers must reload it from the database
+  | { kind: 'session_invalidate'; sessionId: string }
+  // Invites or access mode changed: peers must re-check their connected clients
+  | { kind: 'session_access'; sessionId: string }
+
+export type PubSubHandler = (message: PubSubMessage) => void
+
+/**
+ * Carries messages between backend instances. Implementations never deliver
+ * a message back to the instance that published it.
+ */
+export interface PubSubTransport {
+  readonly instanceId: string
+  publish(message: PubSubMessage): Promise<void>
+  subscribe(handler: PubSubHandler): void
+  close(): Promise<void>
+}
+
+/**
+ * Connects LocalPubSub transports living in the same process. Give several
+ * transports one hub to stand in for several instances in tests.
+ */
+export class LocalPubSubHub {
+  private members = new Set<LocalPubSub>()
+
+  join(member: LocalPubSub) {
+    this.members.add(member)
+  }
+
+  leave(member: LocalPubSub) {
+    this.members.delete(member)
+  }
+
+  deliver(from: LocalPubSub, message: PubSubMessage) {
+    this.members.forEach((member) => {
+      if (member !== from) member.receive(message)
+    })
+  }
+}
+
+/**
+ * In-process transport. With its own hub (the default) there are no peers,
+ * which is exactly right for a single server.
+ */
+export class LocalPubSub implements PubSubTransport {
+  readonly instanceId = crypto.randomUUID()
+  private handlers: PubSubHandler[] = []
+
+  constructor(private hub: LocalPubSubHub = new LocalPubSubHub()) {
+    hub.join(this)
+  }
+
+  async publish(message: PubSubMessage): Promise<void> {
+    // Round-trip through JSON so tests see exactly what a real transport would carry
+    this.hub.deliver(this, JSON.parse(JSON.stringify(message)))
+  }
+
+  subscribe(handler: PubSubHandler): void {
+    this.handlers.push(handler)
+  }
+
+  receive(message: PubSubMessage) {
+    this.handlers.forEach((handler) => handler(message))
+  }
+
+  async close(): Promise<void> {
+    this.hub.leave(this)
+    this.handlers = []
+  }
+}
+
+/**
+ * Cross-process transport over the database every instance already shares.
+ * Messages are appended to `pubsub_messages` and each instance polls for rows
+ * it hasn't seen yet, so no extra infrastructure is needed to run several
+ * processes under pm2.
+ */
+export class SqlitePubSub implements PubSubTransport {
+  readonly instanceId = crypto.randomUUID()
+  private handlers: PubSubHandler[] = []
+  private lastSeenId: number | null = null
+  // Reads the high-water mark when we first subscribe; polls wait on it
+  private started: Promise<void> | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  private polling: Promise<void> | null = null
+  private lastPrune = Date.now()
+
+  private readonly pollIntervalMs: number
+  private readonly retentionMs: number
+
+  constructor(
+    private db: Knex,
+    options: { pollIntervalMs?: number; retentionMs?: number } = {},
+  ) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 100
+    // Only needs to outlive the slowest poll; rows are never replayed on startup
+    this.retentionMs = options.retentionMs ?? 60_000
+  }
+
+  async publish(message: PubSubMessage): Promise<void> {
+    await this.db('pubsub_messages').insert({
+      origin: this.instanceId,
+      payload: JSON.stringify(message),
+      created_at: Date.now(),
+    })
+  }
+
+  subscribe(handler: PubSubHandler): void {
+    this.handlers.push(handler)
+    if (this.timer) return
+
+    // Start from "now": history from before we subscribed isn't ours to replay,
+    // but anything a peer publishes from here on is
+    this.started ??= this.markHighWater()
+
+    this.timer = setInterval(() => {
+      if (!this.polling) {
+        this.polling = this.poll().finally(() => {
+          this.polling = null
+        })
+      }
+    }, this.pollIntervalMs)
+    // Polling alone shouldn't keep a script or test run alive
+    this.timer.unref?.()
+  }
+
+  /**
+   * Deliver everything published by other instances since the last poll.
+   * Public so tests can step the transport without waiting on the timer.
+   */
+  async poll(): Promise<void> {
+    try {
+      await this.started
+      if (this.lastSeenId === null) {
+        await this.markHighWater()
+        return
+      }
+
+      const rows = await this.db('pubsub_messages')
+        .where('id', '>', this.lastSeenId)
+        .orderBy('id')
+        .limit(500)
+
+      for (const row of rows) {
+        this.lastSeenId = row.id
+        if (row.origin === this.instanceId) continue
+
+        let message: PubSubMessage
+        try {
+          message = JSON.parse(row.payload)
+        } catch (e) {
+          console.error('[PubSub] Dropping malformed message', row.id, e)
+          continue
+        }
+        this.handlers.forEach((handler) => handler(message))
+      }
+
+      if (Date.now() - this.lastPrune > this.retentionMs) {
+        this.lastPrune = Date.now()
+        await this.db('pubsub_messages')
+          .where('created_at', '<', Date.now() - this.retentionMs)
+          .del()
+      }
+    } catch (error) {
+      console.error('[PubSub] Poll failed:', error)
+    }
+  }
+
+  private async markHighWater(): Promise<void> {
+    try {
+      const row = await this.db('pubsub_messages').max('id as id').first()
+      this.lastSeenId ??= Number(row?.id) || 0
+    } catch (error) {
+      console.error('[PubSub] Could not read the message high-water mark:', error)
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    await this.polling
+    this.handlers = []
+  }
+}
+
+/**
+ * Build the transport selected by PUBSUB_TRANSPORT: 'sqlite' when running more
+ * than one instance against the same database, otherwise in-process.
+ */
+export function createPubSubTransport(db: Knex): PubSubTransport {
+  const transport = process.env.PUBSUB_TRANSPORT || 'local'
+
+  switch (transport) {
+    case 'sqlite':
+      return new SqlitePubSub(db)
+    case 'local':
+      return new LocalPubSub()
+    default:
+      throw new Error(`Unknown PUBSUB_TRANSPORT: ${transport}`)
+  }
+}
+
+/**
+ * The transport this instance publishes on. Services publish through here;
+ * Broadcaster subscribes and applies what peers send.
+ */
+export class PubSub {
+  private static transport: PubSubTransport = new LocalPubSub()
+
+  static get instanceId(): string {
+    return this.transport.instanceId
+  }
+
+  static async use(transport: PubSubTransport, handler: PubSubHandler): Promise<void> {
+    const previous = this.transport
+    this.transport = transport
+    transport.subscribe(handler)
+    if (previous !== transport) {
+      await previous.close()
+    }
+  }
+
+  static async publish(message: PubSubMessage): Promise<void> {
+    try {
+      await this.transport.publish(message)
+    } catch (error) {
+      // Peers miss this update, but local clients are already served
+      console.error('[PubSub] Publish failed:', error)
+    }
+  }
+}
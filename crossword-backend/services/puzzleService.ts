@@ -1,5 +1,7 @@
 import db from '../db-knex'
-import { calculateLetterCount } from '../utils/stateHelpers'
+import { calculateLetterCount, parseRebusCells, type RebusCells } from '../utils/stateHelpers'
+import { openAnswers, sealAnswers } from '../utils/answerVault'
+import { withEnumerations } from '../utils/enumeration'
 
 export class PuzzleService {
   static async getAllPuzzles(includeUnpublished = false) {
@@ -56,39 +58,51 @@ export class PuzzleService {
     }
 
     puzzle.clues = JSON.parse(puzzle.clues)
-    // Return encrypted answers as 'answers' for frontend compatibility
-    // but keep as string since it's encrypted JSON/string
+    puzzle.rebus_cells = parseRebusCells(puzzle.rebus_cells)
+    // Decrypted (still ROT13) answers for server-side use; routes decide who sees them
     if (puzzle.answers_encrypted) {
-      puzzle.answers = JSON.parse(puzzle.answers_encrypted)
+      puzzle.answers = openAnswers(puzzle.answers_encrypted)
     }
     return puzzle
   }
 
-  static async createPuzzle(title: string, grid: string, clues: any) {
+  static async createPuzzle(title: string, grid: string, clues: any, rebusCells: RebusCells = {}) {
     // Normalize the grid so trailing/leading whitespace doesn't create phantom
     // cells that mismatch letter_count later.
     const normalizedGrid = grid.trim()
     const letterCount = calculateLetterCount(normalizedGrid)
     const isPublished = !PuzzleService.hasMissingClues(clues)
+    const annotatedClues = withEnumerations(clues)
 
     const [id] = await db('puzzles').insert({
       title,
       grid: normalizedGrid,
-      clues: JSON.stringify(clues),
+      clues: JSON.stringify(annotatedClues),
       letter_count: letterCount,
-      answers_encrypted: clues.answers_encrypted
-        ? JSON.stringify(clues.answers_encrypted)
-        : undefined,
+      rebus_cells: JSON.stringify(parseRebusCells(rebusCells)),
+      answers_encrypted: clues.answers_encrypted ? sealAnswers(clues.answers_encrypted) : undefined,
       // Hack: populating puzzle_number with title and hardcoding book to 3
       puzzle_number: title as any,
       book: '3',
       is_published: isPublished,
     })
 
-    return { id, title, grid: normalizedGrid, clues, letter_count: letterCount, answers: clues.answers_encrypted, is_published: isPublished }
+    return {
+      id,
+      title,
+      grid: normalizedGrid,
+      clues: annotatedClues,
+      letter_count: letterCount,
+      rebus_cells: parseRebusCells(rebusCells),
+      answers: clues.answers_encrypted,
+      is_published: isPublished,
+    }
   }
 
-  static async updatePuzzle(id: number, updates: { grid?: string; clues?: any; title?: string; is_published?: boolean }) {
+  static async updatePuzzle(
+    id: number,
+    updates: { grid?: string; clues?: any; title?: string; is_published?: boolean; rebus_cells?: RebusCells },
+  ) {
     const exists = await db('puzzles').where({ id }).first()
 
     if (!exists) {
@@ -105,7 +119,7 @@ export class PuzzleService {
       dbUpdates.letter_count = calculateLetterCount(normalizedGrid)
     }
     if (updates.clues !== undefined) {
-      dbUpdates.clues = JSON.stringify(updates.clues)
+      dbUpdates.clues = JSON.stringify(withEnumerations(updates.clues))
       // Auto-publish if they fix the clues
       if (!PuzzleService.hasMissingClues(updates.clues)) {
         dbUpdates.is_published = true
@@ -113,9 +127,12 @@ export class PuzzleService {
     }
     if (updates.title !== undefined) dbUpdates.title = updates.title
     if (updates.is_published !== undefined) dbUpdates.is_published = updates.is_published
+    if (updates.rebus_cells !== undefined) {
+      dbUpdates.rebus_cells = JSON.stringify(parseRebusCells(updates.rebus_cells))
+    }
     // Handle answers separately if passed in updates (e.g. from frontend as 'answers')
     if ((updates as any).answers !== undefined) {
-      dbUpdates.answers_encrypted = JSON.stringify((updates as any).answers)
+      dbUpdates.answers_encrypted = sealAnswers((updates as any).answers)
     }
 
     if (Object.keys(dbUpdates).length === 0) {
@@ -0,0 +1,113 @@
+import db from '../db-knex'
+import { RATE_LIMITS, type RateLimitBudget, type RateLimitName } from '../config'
+
+export interface RateLimitResult {
+  allowed: boolean
+  // Whole requests left right now
+  remaining: number
+  // When refused, how long until one request's worth has refilled
+  retryAfterSeconds: number
+}
+
+export interface RateLimitUsage {
+  bucket: RateLimitName
+  subject: string
+  tokens: number
+  capacity: number
+  perHour: number
+  updatedAt: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Tokens a bucket holds at `now`, given what it held when last written
+const refill = (
+  row: { tokens: number; updated_at: number } | undefined,
+  budget: RateLimitBudget,
+  now: number,
+) => {
+  if (!row) return budget.capacity
+  const elapsed = Math.max(0, now - Number(row.updated_at))
+  return Math.min(budget.capacity, row.tokens + (elapsed * budget.perHour) / HOUR_MS)
+}
+
+/**
+ * Token buckets guarding endpoints that can run up model bills.
+ *
+ * State lives in SQLite rather than memory so every backend instance draws
+ * from the same budget and a restart doesn't hand everyone a fresh one.
+ */
+export class RateLimitService {
+  /**
+   * Spend one request from `subject`'s bucket, if there is one to spend
+   */
+  static async consume(
+    bucket: RateLimitName,
+    subject: string,
+    now = Date.now(),
+  ): Promise<RateLimitResult> {
+    const budget = RATE_LIMITS[bucket]
+
+    return db.transaction(async (trx) => {
+      const row = await trx('rate_limit_buckets').where({ bucket, subject }).first()
+      const tokens = refill(row, budget, now)
+
+      if (tokens < 1) {
+        const waitMs = ((1 - tokens) * HOUR_MS) / budget.perHour
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterSeconds: Math.max(1, Math.ceil(waitMs / 1000)),
+        }
+      }
+
+      await trx('rate_limit_buckets')
+        .insert({ bucket, subject, tokens: tokens - 1, updated_at: now })
+        .onConflict(['bucket', 'subject'])
+        .merge()
+
+      return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 }
+    })
+  }
+
+  /**
+   * Every bucket that has been drawn down, emptiest first. Buckets that have
+   * refilled completely are left out, and cleared away.
+   */
+  static async getUsage(now = Date.now()): Promise<RateLimitUsage[]> {
+    const rows = await db('rate_limit_buckets').select()
+    const usage: RateLimitUsage[] = []
+    const full: Array<{ bucket: string; subject: string }> = []
+
+    for (const row of rows) {
+      const budget = RATE_LIMITS[row.bucket as RateLimitName]
+      const tokens = budget ? refill(row, budget, now) : Infinity
+      if (!budget || tokens >= budget.capacity) {
+        full.push({ bucket: row.bucket, subject: row.subject })
+        continue
+      }
+      usage.push({
+        bucket: row.bucket,
+        subject: row.subject,
+        tokens,
+        capacity: budget.capacity,
+        perHour: budget.perHour,
+        updatedAt: Number(row.updated_at),
+      })
+    }
+
+    for (const key of full) {
+      await db('rate_limit_buckets').where(key).del()
+    }
+
+    return usage.sort((a, b) => a.tokens / a.capacity - b.tokens / b.capacity)
+  }
+
+  /**
+   * Give a subject their full budget back
+   */
+  static async reset(bucket: string, subject: string): Promise<boolean> {
+    const deleted = await db('rate_limit_buckets').where({ bucket, subject }).del()
+    return deleted > 0
+  }
+}
@@ -0,0 +1,175 @@
+import crypto from 'crypto'
+import db from '../db-knex'
+import { FriendshipService } from './friendshipService'
+
+export type SessionRole = 'owner' | 'editor' | 'spectator'
+export type InviteRole = Exclude<SessionRole, 'owner'>
+export type AccessMode = 'link' | 'friends'
+
+// Who is asking: logged-in users by id, guests by their anonymous id
+export interface SessionCaller {
+  userId: number | null
+  anonymousId: string | null
+}
+
+export interface SessionAccess {
+  role: SessionRole | null
+  mode: AccessMode
+}
+
+export interface SessionInvite {
+  id: number
+  token: string
+  role: InviteRole
+  createdAt: string
+  revokedAt: string | null
+}
+
+const ROLE_RANK: Record<SessionRole, number> = { spectator: 1, editor: 2, owner: 3 }
+
+export const isInviteRole = (value: unknown): value is InviteRole =>
+  value === 'editor' || value === 'spectator'
+
+export const isAccessMode = (value: unknown): value is AccessMode =>
+  value === 'link' || value === 'friends'
+
+const toInvite = (row: any): SessionInvite => ({
+  id: row.id,
+  token: row.token,
+  role: row.role,
+  createdAt: row.created_at,
+  revokedAt: row.revoked_at ?? null,
+})
+
+/**
+ * Who may do what in a session.
+ *
+ * The owner is whoever created it (user or guest). The owner's friends edit,
+ * and others get the role of the invite link they joined through, until it is
+ * revoked. In 'link' mode anyone else holding the session URL may watch; in
+ * 'friends' mode they are turned away. A session without an owner has nobody
+ * to hand out invites, so anyone with its URL edits.
+ */
+export class SessionAccessService {
+  static atLeast(role: SessionRole | null, minimum: SessionRole): boolean {
+    return role !== null && ROLE_RANK[role] >= ROLE_RANK[minimum]
+  }
+
+  /**
+   * Resolve the caller's role. Returns null if the session doesn't exist.
+   */
+  static async getAccess(sessionId: string, caller: SessionCaller): Promise<SessionAccess | null> {
+    const session = await db('puzzle_sessions')
+      .where({ session_id: sessionId })
+      .first('user_id', 'anonymous_id', 'access_mode')
+    if (!session) return null
+
+    const mode: AccessMode = session.access_mode === 'friends' ? 'friends' : 'link'
+    const isOwner =
+      (session.user_id != null && session.user_id === caller.userId) ||
+      (session.user_id == null &&
+        session.anonymous_id != null &&
+        session.anonymous_id === caller.anonymousId)
+    if (isOwner) return { role: 'owner', mode }
+
+    let best: SessionRole | null = null
+    const consider = (role: SessionRole) => {
+      if (!best || ROLE_RANK[role] > ROLE_RANK[best]) best = role
+    }
+
+    // Joined through a link that has since been revoked
+    let revoked = false
+    if (caller.userId !== null || caller.anonymousId) {
+      const memberships = await db('session_members')
+        .join('session_invites', 'session_members.invite_id', 'session_invites.id')
+        .where('session_members.session_id', sessionId)
+        .where((q) => {
+          if (caller.userId !== null) q.orWhere('session_members.user_id', caller.userId)
+          if (caller.anonymousId) q.orWhere('session_members.anonymous_id', caller.anonymousId)
+        })
+        .select('session_members.role', 'session_invites.revoked_at')
+      for (const membership of memberships) {
+        if (membership.revoked_at) revoked = true
+        else consider(membership.role)
+      }
+    }
+
+    if (
+      caller.userId !== null &&
+      session.user_id != null &&
+      (await FriendshipService.areFriends(session.user_id, caller.userId))
+    ) {
+      consider('editor')
+    }
+
+    if (mode === 'link' && !best && !revoked) {
+      const hasOwner = session.user_id != null || session.anonymous_id != null
+      consider(hasOwner ? 'spectator' : 'editor')
+    }
+
+    return { role: best, mode }
+  }
+
+  static async setMode(sessionId: string, mode: AccessMode): Promise<void> {
+    await db('puzzle_sessions').where({ session_id: sessionId }).update({ access_mode: mode })
+  }
+
+  static async createInvite(sessionId: string, role: InviteRole): Promise<SessionInvite> {
+    const token = crypto.randomBytes(18).toString('base64url')
+    const [id] = await db('session_invites').insert({ session_id: sessionId, token, role })
+    const row = await db('session_invites').where({ id }).first()
+    return toInvite(row)
+  }
+
+  static async listInvites(sessionId: string): Promise<SessionInvite[]> {
+    const rows = await db('session_invites').where({ session_id: sessionId }).orderBy('id', 'desc')
+    return rows.map(toInvite)
+  }
+
+  /**
+   * Revoke an invite, taking access away from everyone who joined through it.
+   * Their memberships are kept so the session URL alone doesn't let them back
+   * in. Returns false if the invite doesn't belong to this session.
+   */
+  static async revokeInvite(sessionId: string, inviteId: number): Promise<boolean> {
+    const invite = await db('session_invites').where({ id: inviteId, session_id: sessionId }).first()
+    if (!invite) return false
+
+    if (!invite.revoked_at) {
+      await db('session_invites')
+        .where({ id: inviteId })
+        .update({ revoked_at: new Date().toISOString() })
+    }
+    return true
+  }
+
+  /**
+   * Redeem an invite. Returns the caller's resulting role, or null if the
+   * token is unknown, revoked or for another session.
+   */
+  static async join(
+    sessionId: string,
+    token: string,
+    caller: SessionCaller,
+  ): Promise<SessionRole | null> {
+    const invite = await db('session_invites')
+      .where({ session_id: sessionId, token })
+      .whereNull('revoked_at')
+      .first()
+    if (!invite) return null
+
+    const current = await this.getAccess(sessionId, caller)
+    if (!current) return null
+    // Owners keep ownership; a spectator link doesn't downgrade an editor
+    if (this.atLeast(current.role, invite.role)) return current.role
+
+    await db('session_members').insert({
+      session_id: sessionId,
+      user_id: caller.userId,
+      anonymous_id: caller.userId === null ? caller.anonymousId : null,
+      role: invite.role,
+      invite_id: invite.id,
+    })
+    return invite.role
+  }
+}
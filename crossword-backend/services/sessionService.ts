@@ -1,12 +1,95 @@
 import db from '../db-knex'
 
 import {
-  setCharAt,
+  setCellAt,
+  getCellAt,
+  parseRow,
   createEmptyState,
   migrateLegacyState,
   countFilledLetters,
+  parseRebusCells,
 } from '../utils/stateHelpers'
+import { isLetterCell } from '../utils/gridCells'
+import { clueRefKey, getEntryHead, parseClueRefKey } from '../utils/linkedClues'
 import { FriendshipService } from './friendshipService'
+import { PubSub, type CellPatch } from './pubsub'
+
+// A single cell write, with the value it replaced (' ' for an empty cell)
+export interface CellChange {
+  r: number
+  c: number
+  previous: string
+  value: string
+  // The cell's version after this write
+  version: number
+  // Pencilled in as a guess rather than inked, after and before this write
+  tentative: boolean
+  previousTentative: boolean
+}
+
+// A write made against a known version of the cell, e.g. queued while offline
+export interface VersionedCellUpdate {
+  r: number
+  c: number
+  value: string
+  baseVersion: number
+  tentative?: boolean
+}
+
+export interface MergeResult {
+  applied: CellChange[]
+  // Cells someone else changed in the meantime, with what the server holds now
+  rejected: Array<{ r: number; c: number; value: string; version: number }>
+}
+
+export const cellKey = (r: number, c: number) => `${r}-${c}`
+
+const parseVersions = (raw: unknown): Record<string, number> => {
+  try {
+    const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+const parseTentative = (raw: unknown): Set<string> => {
+  try {
+    const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw
+    return new Set(Array.isArray(parsed) ? parsed : [])
+  } catch {
+    return new Set()
+  }
+}
+
+// Only a letter can be pencilled in; clearing or inking a cell drops the flag
+const markTentative = (
+  cells: Set<string>,
+  r: number,
+  c: number,
+  value: string,
+  tentative?: boolean,
+) => {
+  if (tentative && value.trim()) {
+    cells.add(cellKey(r, c))
+  } else {
+    cells.delete(cellKey(r, c))
+  }
+}
+
+// How long to hold peers' edits to a session we haven't loaded yet. Must
+// comfortably exceed the write-behind delay so the database has caught up.
+const REMOTE_PATCH_TTL_MS = 10_000
+
+// Solve history columns cleared whenever a session is reset for a fresh attempt
+const RESET_STATS = {
+  is_complete: false,
+  completed_at: null,
+  solve_seconds: 0,
+  letters_revealed: 0,
+  words_revealed: 0,
+  check_count: 0,
+}
 
 export class SessionService {
   static generateSessionId(length = 12) {
@@ -81,13 +164,12 @@ export class SessionService {
                 if (!anonRow) continue
 
                 if (!mergedState[r]) mergedState[r] = ''
-                for (let c = 0; c < anonRow.length; c++) {
-                  const anonChar = anonRow[c]
+                parseRow(anonRow).forEach((anonCell, c) => {
                   // If anon has a letter (and it's not a space), overwrite
-                  if (anonChar && anonChar.trim() !== '') {
-                    mergedState[r] = setCharAt(mergedState[r], c, anonChar as string)
+                  if (anonCell.trim() !== '') {
+                    mergedState[r] = setCellAt(mergedState[r], c, anonCell)
                   }
-                }
+                })
               }
             }
           }
@@ -108,15 +190,22 @@ export class SessionService {
             .update({
               state: JSON.stringify(mergedState),
               updated_at: now,
-              is_complete: isComplete
+              is_complete: isComplete,
+              completed_at: isComplete ? userSession.completed_at || now : null,
+              // Both sessions were spent on the same puzzle, so carry the
+              // anonymous solve history over to the surviving one
+              solve_seconds: Math.max(userSession.solve_seconds || 0, anonymousSession.solve_seconds || 0),
+              letters_revealed: (userSession.letters_revealed || 0) + (anonymousSession.letters_revealed || 0),
+              words_revealed: (userSession.words_revealed || 0) + (anonymousSession.words_revealed || 0),
+              check_count: (userSession.check_count || 0) + (anonymousSession.check_count || 0),
             })
 
           // Invalidate cache for user session if it exists so next load gets merged state
-          this.cache.delete(userSession.session_id)
+          await this.invalidate(userSession.session_id)
 
           // Delete anonymous session
           await db('puzzle_sessions').where({ session_id: anonymousSessionId }).del()
-          this.cache.delete(anonymousSessionId)
+          await this.invalidate(anonymousSessionId)
 
           count++
         } catch (e) {
@@ -160,7 +249,11 @@ export class SessionService {
         await db('puzzle_sessions').where({ session_id: existingSession.session_id }).update({
           state: initialState,
           updated_at: now,
+          ...RESET_STATS,
+          cell_versions: '{}',
+          tentative_cells: '[]',
         })
+        await this.invalidate(existingSession.session_id)
         return existingSession.session_id
       }
     } else if (anonymousId) {
@@ -179,7 +272,11 @@ export class SessionService {
         await db('puzzle_sessions').where({ session_id: existingSession.session_id }).update({
           state: initialState,
           updated_at: now,
+          ...RESET_STATS,
+          cell_versions: '{}',
+          tentative_cells: '[]',
         })
+        await this.invalidate(existingSession.session_id)
         return existingSession.session_id
       }
     }
@@ -279,14 +376,27 @@ export class SessionService {
   // Map<sessionId, { state: string[], lastAccess: number, dirty: boolean, letter_count?: number | null, is_complete?: boolean }>
   private static cache = new Map<string, {
     state: string[]
+    // Per-cell write counters, see VersionedCellUpdate
+    versions: Record<string, number>
+    // "r-c" keys of pencilled-in letters
+    tentative: Set<string>
     lastAccess: number
     dirty: boolean
     letter_count?: number | null
     is_complete?: boolean
   }>()
   private static saveTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  private static runningSaves = new Set<Promise<void>>()
   private static pendingLoads = new Map<string, Promise<string[] | null>>()
   private static pendingInits = new Map<string, Promise<string[]>>()
+  // Edits from other instances to sessions we haven't cached, replayed on load
+  private static remotePatches = new Map<
+    string,
+    Array<{ cells: CellPatch[]; origin: string; receivedAt: number }>
+  >()
+  // Which peer wrote a cell's current version, for cells last written elsewhere:
+  // sessionId -> "r-c" -> { version, origin }
+  private static cellOrigins = new Map<string, Map<string, { version: number; origin: string }>>()
 
   private static MAX_CACHE_SIZE = 1000
   private static CACHE_CLEANUP_THRESHOLD = 0.9
@@ -309,14 +419,23 @@ export class SessionService {
 
     // Remove oldest candidates
     const count = Math.min(itemsToRemove, candidates.length)
-    for (let i = 0; i < count; i++) {
-      this.cache.delete(candidates[i][0])
+    for (const [evictedId] of candidates.slice(0, count)) {
+      this.cache.delete(evictedId)
+      this.cellOrigins.delete(evictedId)
     }
   }
 
   private static setCache(
     sessionId: string,
-    data: { state: string[]; lastAccess: number; dirty: boolean }
+    data: {
+      state: string[]
+      versions: Record<string, number>
+      tentative: Set<string>
+      lastAccess: number
+      dirty: boolean
+      letter_count?: number | null
+      is_complete?: boolean
+    }
   ) {
     if (!this.cache.has(sessionId)) {
       this.evictCache()
@@ -338,7 +457,7 @@ export class SessionService {
           const session = await db('puzzle_sessions')
             .join('puzzles', 'puzzle_sessions.puzzle_id', 'puzzles.id')
             .where('puzzle_sessions.session_id', sessionId)
-            .select('puzzle_sessions.*', 'puzzles.letter_count')
+            .select('puzzle_sessions.*', 'puzzles.letter_count', 'puzzles.grid')
             .first()
           if (!session) return null
 
@@ -350,13 +469,27 @@ export class SessionService {
             console.error('Failed to parse session state', e)
           }
 
+          // A peer may hold edits it hasn't written back yet
+          const versions = parseVersions(session.cell_versions)
+          const tentative = parseTentative(session.tentative_cells)
+          const dirty = this.replayRemotePatches(
+            sessionId,
+            state,
+            versions,
+            tentative,
+            session.grid,
+          )
+
           this.setCache(sessionId, {
             state,
+            versions,
+            tentative,
             lastAccess: Date.now(),
-            dirty: false,
+            dirty,
             letter_count: session.letter_count,
             is_complete: Boolean(session.is_complete),
           })
+          if (dirty) this.scheduleSave(sessionId)
           return state
         } finally {
           this.pendingLoads.delete(sessionId)
@@ -375,63 +508,96 @@ export class SessionService {
   private static scheduleSave(sessionId: string) {
     if (this.saveTimers.has(sessionId)) return
 
-    const timer = setTimeout(async () => {
+    const timer = setTimeout(() => {
       this.saveTimers.delete(sessionId)
-      const cached = this.cache.get(sessionId)
-      if (cached && cached.dirty) {
-        try {
-          const now = new Date().toISOString()
-          // Check for completion
-          const filledCount = countFilledLetters(cached.state)
-
-          // Get puzzle's letter_count for comparison
-          let letterCount = cached.letter_count
-          let currentIsComplete = cached.is_complete
-
-          // Lazy load if missing from cache
-          if (letterCount === undefined || currentIsComplete === undefined) {
-            const session = await db('puzzle_sessions')
-              .join('puzzles', 'puzzle_sessions.puzzle_id', 'puzzles.id')
-              .where('puzzle_sessions.session_id', sessionId)
-              .select('puzzles.letter_count', 'puzzle_sessions.is_complete')
-              .first()
-
-            if (session) {
-              letterCount = session.letter_count
-              currentIsComplete = Boolean(session.is_complete)
-              // Update cache
-              cached.letter_count = letterCount
-              cached.is_complete = currentIsComplete
-            }
-          }
+      this.startSave(sessionId)
+    }, 1000) // 1 second debounce
 
-          const isComplete = letterCount != null && filledCount >= letterCount
+    this.saveTimers.set(sessionId, timer)
+  }
 
-          // Only update is_complete if it changed
-          const updateData: any = {
-            state: JSON.stringify(cached.state),
-            updated_at: now,
-          }
-          if (isComplete !== currentIsComplete) {
-            updateData.is_complete = isComplete
-            // Update cache to reflect new status
-            cached.is_complete = isComplete
+  /**
+   * Write every save still waiting on its debounce now, e.g. before the
+   * schema under them is torn down
+   */
+  static async flushSaves() {
+    const pending = [...this.saveTimers]
+    this.saveTimers.clear()
+    for (const [sessionId, timer] of pending) {
+      clearTimeout(timer)
+      this.startSave(sessionId)
+    }
+    await Promise.all(this.runningSaves)
+  }
+
+  private static startSave(sessionId: string) {
+    const save = this.saveCached(sessionId).finally(() => this.runningSaves.delete(save))
+    this.runningSaves.add(save)
+  }
+
+  private static async saveCached(sessionId: string) {
+    const cached = this.cache.get(sessionId)
+    if (cached && cached.dirty) {
+      try {
+        const now = new Date().toISOString()
+        // Check for completion; pencilled letters don't count as filled
+        const filledCount = countFilledLetters(cached.state) - cached.tentative.size
+
+        // Get puzzle's letter_count for comparison
+        let letterCount = cached.letter_count
+        let currentIsComplete = cached.is_complete
+
+        // Lazy load if missing from cache
+        if (letterCount === undefined || currentIsComplete === undefined) {
+          const session = await db('puzzle_sessions')
+            .join('puzzles', 'puzzle_sessions.puzzle_id', 'puzzles.id')
+            .where('puzzle_sessions.session_id', sessionId)
+            .select('puzzles.letter_count', 'puzzle_sessions.is_complete')
+            .first()
+
+          if (session) {
+            letterCount = session.letter_count
+            currentIsComplete = Boolean(session.is_complete)
+            // Update cache
+            cached.letter_count = letterCount
+            cached.is_complete = currentIsComplete
           }
+        }
 
-          await db('puzzle_sessions').where({ session_id: sessionId }).update(updateData)
-          cached.dirty = false
-        } catch (e) {
-          console.error('Failed to save session state to DB', sessionId, e)
+        const isComplete = letterCount != null && filledCount >= letterCount
+
+        // Only update is_complete if it changed
+        const updateData: any = {
+          state: JSON.stringify(cached.state),
+          cell_versions: JSON.stringify(cached.versions),
+          tentative_cells: JSON.stringify([...cached.tentative]),
+          updated_at: now,
+        }
+        if (isComplete !== currentIsComplete) {
+          updateData.is_complete = isComplete
+          // completed_at stops the solve clock; clearing a letter restarts it
+          updateData.completed_at = isComplete ? now : null
+          // Update cache to reflect new status
+          cached.is_complete = isComplete
         }
-      }
-    }, 1000) // 1 second debounce
 
-    this.saveTimers.set(sessionId, timer)
+        await db('puzzle_sessions').where({ session_id: sessionId }).update(updateData)
+        cached.dirty = false
+      } catch (e) {
+        console.error('Failed to save session state to DB', sessionId, e)
+      }
+    }
   }
 
-  static async updateCell(sessionId: string, r: number, c: number, value: string): Promise<void> {
+  static async updateCell(
+    sessionId: string,
+    r: number,
+    c: number,
+    value: string,
+    tentative = false,
+  ): Promise<CellChange[]> {
     let state = await this.getCachedOrLoad(sessionId)
-    if (!state) return // Session not found
+    if (!state) return [] // Session not found
 
     // Initialize state if empty (first edit)
     if (!Array.isArray(state) || state.length === 0 || !state[r]) {
@@ -465,30 +631,49 @@ export class SessionService {
       try {
         state = await initPromise
       } catch (err) {
-        return
+        return []
       }
     }
 
     // Now state is string[]
     if (state && state[r] !== undefined) {
-      // Use helper to set char
-      state[r] = setCharAt(state[r], c, value || ' ')
+      const previous = getCellAt(state, r, c) || ' '
+
+      // Use helper to set the cell (rebus cells hold several letters)
+      state[r] = setCellAt(state[r], c, value || ' ')
 
       // Mark dirty and schedule save
       const cached = this.cache.get(sessionId)
+      const previousTentative = Boolean(cached?.tentative.has(cellKey(r, c)))
+      const version = this.bumpVersion(sessionId, r, c)
       if (cached) {
+        markTentative(cached.tentative, r, c, value || ' ', tentative)
         cached.dirty = true
         this.scheduleSave(sessionId)
       }
+      const isTentative = Boolean(cached?.tentative.has(cellKey(r, c)))
+
+      await PubSub.publish({
+        kind: 'session_cells',
+        sessionId,
+        origin: PubSub.instanceId,
+        cells: [{ r, c, value: value || ' ', version, tentative: isTentative }],
+      })
+
+      return [
+        { r, c, previous, value: value || ' ', version, tentative: isTentative, previousTentative },
+      ]
     }
+
+    return []
   }
 
   static async updateCells(
     sessionId: string,
-    updates: Array<{ r: number; c: number; value: string }>
-  ): Promise<void> {
+    updates: Array<{ r: number; c: number; value: string; tentative?: boolean }>
+  ): Promise<CellChange[]> {
     let state = await this.getCachedOrLoad(sessionId)
-    if (!state) return // Session not found
+    if (!state) return [] // Session not found
 
     // Initialize state if empty (first edit)
     let needsInit = !Array.isArray(state) || state.length === 0
@@ -532,25 +717,132 @@ export class SessionService {
       try {
         state = await initPromise
       } catch (err) {
-        return
+        return []
       }
     }
 
-    let changed = false
-    for (const { r, c, value } of updates) {
+    const cached = this.cache.get(sessionId)
+    const changes: CellChange[] = []
+    for (const { r, c, value, tentative } of updates) {
       if (state && state[r] !== undefined) {
-        state[r] = setCharAt(state[r], c, value || ' ')
-        changed = true
+        const previous = getCellAt(state, r, c) || ' '
+        const previousTentative = Boolean(cached?.tentative.has(cellKey(r, c)))
+        state[r] = setCellAt(state[r], c, value || ' ')
+        const version = this.bumpVersion(sessionId, r, c)
+        if (cached) markTentative(cached.tentative, r, c, value || ' ', tentative)
+        changes.push({
+          r,
+          c,
+          previous,
+          value: value || ' ',
+          version,
+          tentative: Boolean(cached?.tentative.has(cellKey(r, c))),
+          previousTentative,
+        })
       }
     }
 
-    if (changed) {
-      const cached = this.cache.get(sessionId)
+    if (changes.length > 0) {
       if (cached) {
         cached.dirty = true
         this.scheduleSave(sessionId)
       }
+
+      await PubSub.publish({
+        kind: 'session_cells',
+        sessionId,
+        origin: PubSub.instanceId,
+        cells: changes.map(({ r, c, value, version, tentative }) => ({
+          r,
+          c,
+          value,
+          version,
+          tentative,
+        })),
+      })
     }
+
+    return changes
+  }
+
+  private static bumpVersion(sessionId: string, r: number, c: number): number {
+    const cached = this.cache.get(sessionId)
+    if (!cached) return 0
+    const key = cellKey(r, c)
+    cached.versions[key] = (cached.versions[key] ?? 0) + 1
+    return cached.versions[key]
+  }
+
+  static async getCellVersions(sessionId: string): Promise<Record<string, number>> {
+    await this.getCachedOrLoad(sessionId)
+    return { ...(this.cache.get(sessionId)?.versions ?? {}) }
+  }
+
+  static async getTentativeCells(sessionId: string): Promise<Set<string>> {
+    await this.getCachedOrLoad(sessionId)
+    return new Set(this.cache.get(sessionId)?.tentative)
+  }
+
+  /**
+   * Apply writes made against a known version of each cell. A write only
+   * lands if nobody else has changed the cell since, so replaying edits made
+   * offline can't overwrite a partner's letters. Returns null if the session
+   * doesn't exist.
+   */
+  static async mergeCells(
+    sessionId: string,
+    updates: VersionedCellUpdate[],
+  ): Promise<MergeResult | null> {
+    const current = await this.getCachedOrLoad(sessionId)
+    if (!current) return null
+
+    const versions = this.cache.get(sessionId)?.versions ?? {}
+
+    // Only one write per cell per merge: the last one the client sent
+    const latest = new Map<string, VersionedCellUpdate>()
+    updates.forEach((update) => latest.set(cellKey(update.r, update.c), update))
+
+    const accepted: Array<{ r: number; c: number; value: string; tentative?: boolean }> = []
+    const rejected: MergeResult['rejected'] = []
+
+    for (const [key, { r, c, value, baseVersion, tentative }] of latest) {
+      const version = versions[key] ?? 0
+      if (baseVersion === version) {
+        accepted.push({ r, c, value, tentative })
+      } else {
+        rejected.push({ r, c, value: getCellAt(current, r, c) || ' ', version })
+      }
+    }
+
+    const applied = accepted.length > 0 ? await this.updateCells(sessionId, accepted) : []
+    return { applied, rejected }
+  }
+
+  /**
+   * Merge a whole grid submitted by a client. Only cells that differ from what
+   * the server holds are written, each against the version the client last saw
+   * (version 0 if it didn't say), so a stale snapshot can't wipe newer letters.
+   */
+  static async mergeState(
+    sessionId: string,
+    submitted: any,
+    baseVersions: Record<string, number> = {},
+  ): Promise<MergeResult | null> {
+    const current = await this.getSessionState(sessionId)
+    if (!current) return null
+
+    const incoming = migrateLegacyState(submitted)
+    const updates: VersionedCellUpdate[] = []
+    incoming.forEach((row, r) => {
+      parseRow(row).forEach((cell, c) => {
+        const value = cell || ' '
+        if (value !== (getCellAt(current, r, c) || ' ')) {
+          updates.push({ r, c, value, baseVersion: Number(baseVersions[cellKey(r, c)]) || 0 })
+        }
+      })
+    })
+
+    return this.mergeCells(sessionId, updates)
   }
 
   static async getSessionWithPuzzle(sessionId: string) {
@@ -567,28 +859,41 @@ export class SessionService {
     }
 
     puzzle.clues = JSON.parse(puzzle.clues)
-
-    // Parse encrypted answers for frontend answer checking
-    let answersEncrypted = null
-    if (puzzle.answers_encrypted) {
-      try {
-        answersEncrypted = JSON.parse(puzzle.answers_encrypted)
-      } catch (e) {
-        console.error('Failed to parse answers_encrypted', e)
-      }
-    }
+    puzzle.rebus_cells = parseRebusCells(puzzle.rebus_cells)
+    // Solvers never receive the answer key; checks go through the server
+    delete puzzle.answers_encrypted
 
     // Use cached state if available (it might be newer than DB)
     const cached = this.cache.get(sessionId)
     let sessionState
+    let cellVersions
+    let tentativeCells
     if (cached) {
       sessionState = cached.state
+      cellVersions = cached.versions
+      tentativeCells = cached.tentative
       cached.lastAccess = Date.now()
     } else {
       const parsed = JSON.parse(session.state)
       sessionState = migrateLegacyState(parsed)
+      cellVersions = parseVersions(session.cell_versions)
+      tentativeCells = parseTentative(session.tentative_cells)
+      const dirty = this.replayRemotePatches(
+        sessionId,
+        sessionState,
+        cellVersions,
+        tentativeCells,
+        puzzle.grid,
+      )
       // Populate cache
-      this.setCache(sessionId, { state: sessionState, lastAccess: Date.now(), dirty: false })
+      this.setCache(sessionId, {
+        state: sessionState,
+        versions: cellVersions,
+        tentative: tentativeCells,
+        lastAccess: Date.now(),
+        dirty,
+      })
+      if (dirty) this.scheduleSave(sessionId)
     }
 
     // Parse attributions
@@ -603,20 +908,143 @@ export class SessionService {
       ...puzzle,
       puzzleId: puzzle.id,
       sessionState,
-      answersEncrypted,
+      cellVersions: { ...cellVersions },
+      tentativeCells: [...tentativeCells],
       attributions,
     }
   }
 
-  static async updateSessionState(sessionId: string, state: any): Promise<boolean> {
-    // legacy direct update
-    const migratedState = migrateLegacyState(state)
-    // Update cache
-    this.setCache(sessionId, { state: migratedState, lastAccess: Date.now(), dirty: true })
-    this.scheduleSave(sessionId)
+  /**
+   * Drop our cached copy after the database row changed underneath it, and
+   * tell other instances to do the same
+   */
+  private static async invalidate(sessionId: string) {
+    this.dropCached(sessionId)
+    await PubSub.publish({ kind: 'session_invalidate', sessionId })
+  }
+
+  private static dropCached(sessionId: string) {
+    this.cache.delete(sessionId)
+    this.remotePatches.delete(sessionId)
+    this.cellOrigins.delete(sessionId)
+    const saveTimer = this.saveTimers.get(sessionId)
+    if (saveTimer) {
+      clearTimeout(saveTimer)
+      this.saveTimers.delete(sessionId)
+    }
+  }
+
+  private static replayRemotePatches(
+    sessionId: string,
+    state: string[],
+    versions: Record<string, number>,
+    tentative: Set<string>,
+    grid?: string,
+  ): boolean {
+    const patches = this.remotePatches.get(sessionId)
+    if (!patches) return false
+    this.remotePatches.delete(sessionId)
+
+    // The peer made the first edit, so the saved state may not exist yet
+    if (state.length === 0 && grid) {
+      const rows = grid.split('\n').map((row: string) => row.trim().split(' '))
+      state.push(...createEmptyState(rows.length, rows[0]?.length ?? 0))
+    }
+
+    const cutoff = Date.now() - REMOTE_PATCH_TTL_MS
+    let applied = false
+    for (const patch of patches) {
+      if (patch.receivedAt < cutoff) continue
+      for (const { r, c, value, version, tentative: isTentative } of patch.cells) {
+        if (
+          state[r] !== undefined &&
+          this.winsOver(sessionId, versions, r, c, version, patch.origin)
+        ) {
+          state[r] = setCellAt(state[r], c, value)
+          markTentative(tentative, r, c, value, isTentative)
+          applied = true
+        }
+      }
+    }
+    return applied
+  }
+
+  /**
+   * Whether a peer's write should replace the cell's current value: it must be
+   * a later version, or the same version from the peer with the greater
+   * instance id, so every instance settles on the same letter. A winning write
+   * is recorded as the cell's current version.
+   */
+  private static winsOver(
+    sessionId: string,
+    versions: Record<string, number>,
+    r: number,
+    c: number,
+    version: number,
+    origin: string,
+  ): boolean {
+    const key = cellKey(r, c)
+    const current = versions[key] ?? 0
+    if (version < current) return false
+    if (version === current) {
+      // Versions this instance wrote, or loaded from the database, count as its own
+      const known = this.cellOrigins.get(sessionId)?.get(key)
+      const holder = known?.version === current ? known.origin : PubSub.instanceId
+      if (origin <= holder) return false
+    }
+
+    versions[key] = version
+    let origins = this.cellOrigins.get(sessionId)
+    if (!origins) {
+      origins = new Map()
+      this.cellOrigins.set(sessionId, origins)
+    }
+    origins.set(key, { version, origin })
     return true
   }
 
+  /**
+   * Apply cell writes made on another instance, skipping any this instance
+   * already has a newer letter for (see winsOver). Every instance that holds
+   * the session also persists it, so whichever saves last has seen every edit
+   * delivered so far.
+   */
+  static applyRemoteCells(sessionId: string, cells: CellPatch[], origin: string) {
+    let cached = this.cache.get(sessionId)
+    if (cached && cached.state.length === 0 && !cached.dirty) {
+      // Not initialised here yet: reload it (with this patch) on next access
+      this.cache.delete(sessionId)
+      cached = undefined
+    }
+    if (!cached) {
+      const patches = (this.remotePatches.get(sessionId) ?? []).filter(
+        (patch) => patch.receivedAt >= Date.now() - REMOTE_PATCH_TTL_MS,
+      )
+      patches.push({ cells, origin, receivedAt: Date.now() })
+      this.remotePatches.set(sessionId, patches)
+      return
+    }
+
+    let applied = false
+    for (const { r, c, value, version, tentative } of cells) {
+      if (
+        cached.state[r] !== undefined &&
+        this.winsOver(sessionId, cached.versions, r, c, version, origin)
+      ) {
+        cached.state[r] = setCellAt(cached.state[r], c, value)
+        markTentative(cached.tentative, r, c, value, tentative)
+        applied = true
+      }
+    }
+    if (!applied) return
+    cached.dirty = true
+    this.scheduleSave(sessionId)
+  }
+
+  static applyRemoteInvalidate(sessionId: string) {
+    this.dropCached(sessionId)
+  }
+
   /**
    * Get sessions for user and all their friends
    */
@@ -681,20 +1109,30 @@ export class SessionService {
   }
 
   /**
-   * Record word attribution (first correct completion wins)
+   * Record word attribution (first correct completion wins). A linked answer
+   * is one word: whichever of its lights is claimed, the attribution goes to
+   * the light that carries its clue. Returns the key claimed, or null if the
+   * word was already taken.
    */
   static async recordWordAttribution(
     sessionId: string,
-    clueKey: string,
+    requestedKey: string,
     userId: number | null,
     username: string,
-  ): Promise<boolean> {
-    const session = await db('puzzle_sessions').where({ session_id: sessionId }).first()
+  ): Promise<string | null> {
+    const session = await db('puzzle_sessions')
+      .join('puzzles', 'puzzle_sessions.puzzle_id', 'puzzles.id')
+      .where('puzzle_sessions.session_id', sessionId)
+      .select('puzzle_sessions.attributions', 'puzzles.clues')
+      .first()
 
     if (!session) {
-      return false
+      return null
     }
 
+    const ref = parseClueRefKey(requestedKey)
+    const clueKey = ref ? clueRefKey(getEntryHead(JSON.parse(session.clues), ref)) : requestedKey
+
     // Parse existing attributions
     let attributions: Record<string, any> = {}
     try {
@@ -705,7 +1143,7 @@ export class SessionService {
 
     // Check if already claimed
     if (attributions[clueKey]) {
-      return false // Already attributed
+      return null // Already attributed
     }
 
     // Add attribution
@@ -723,7 +1161,7 @@ export class SessionService {
         updated_at: new Date().toISOString(),
       })
 
-    return true // Successfully claimed
+    return clueKey // Successfully claimed
   }
 
   /**
@@ -731,13 +1169,13 @@ export class SessionService {
    */
   private static countFilledCells(state: string[]): number {
     return state.reduce((count, row) => {
-      return count + row.split('').filter((ch) => ch !== ' ' && ch !== '').length
+      return count + parseRow(row).filter((cell) => cell !== ' ' && cell !== '').length
     }, 0)
   }
 
   /**
    * Helper: Count total playable cells from grid.
-   * Only 'W' (white) and 'N' (numbered) cells are fillable; this matches
+   * Only 'W' (white) and 'N' (numbered) cells, barred or not, are fillable; this matches
    * calculateLetterCount() in utils/stateHelpers.
    */
   private static countTotalCells(gridString: string): number {
@@ -746,7 +1184,7 @@ export class SessionService {
     for (const row of rows) {
       const cells = row.trim().split(' ')
       for (const cell of cells) {
-        if (cell === 'W' || cell === 'N') total++
+        if (isLetterCell(cell)) total++
       }
     }
     return total
@@ -795,16 +1233,11 @@ export class SessionService {
   }
 
   static async deleteSession(sessionId: string): Promise<boolean> {
-    // Remove from cache if present
-    this.cache.delete(sessionId)
-    const saveTimer = this.saveTimers.get(sessionId)
-    if (saveTimer) {
-      clearTimeout(saveTimer)
-      this.saveTimers.delete(sessionId)
-    }
-
     // Delete from database
     const count = await db('puzzle_sessions').where({ session_id: sessionId }).del()
+
+    // Remove from cache if present, here and on every other instance
+    await this.invalidate(sessionId)
     return count > 0
   }
 }
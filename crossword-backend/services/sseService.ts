@@ -1,13 +1,42 @@
+import type { SessionCaller } from './sessionAccessService'
+
 // Interface compatible with both Express Response and Bun custom writer
 export interface SSEWriter {
   write(data: string): void
   on?: (event: string, callback: () => void) => void
+  // Lets the service end a stream it no longer wants to serve
+  close?: () => void
+}
+
+// Who is on the other end of a connection. Supplied by the client and used
+// for display only (names and cursor colours), never for authorisation.
+export interface ClientIdentity {
+  userId: number | null
+  username: string
+}
+
+export interface Presence extends ClientIdentity {
+  clientId: string
+  cursor: { r: number; c: number; direction: 'across' | 'down' } | null
+  clue: { number: number; direction: 'across' | 'down' } | null
+  updatedAt: string
 }
 
+// The caller is only passed along on joins, for peers to check presence updates against
+type PresenceListener = (
+  sessionId: string,
+  type: string,
+  data: any,
+  caller?: SessionCaller | null,
+) => void
+
 interface SSEClient {
   id: string
   res: SSEWriter
   sessionId: string
+  presence: Presence | null
+  // Verified identity the connection was authorised with; never broadcast
+  caller: SessionCaller | null
 }
 
 /**
@@ -18,17 +47,38 @@ export class SSEService {
   private static sessions = new Map<string, Set<SSEClient>>()
   // Map of socketId (generated) -> client
   private static clients = new Map<string, SSEClient>()
+  // Clients connected to other backend instances: sessionId -> clientId -> presence
+  private static remotePresence = new Map<string, Map<string, Presence>>()
+  // Who opened each of those remote connections: clientId -> caller
+  private static remoteCallers = new Map<string, SessionCaller>()
+  // Lets Broadcaster forward joins and leaves to other instances
+  private static presenceListener: PresenceListener | null = null
 
   /**
    * Add a new client to a session
    */
-  static addClient(sessionId: string, res: SSEWriter): string {
+  static addClient(
+    sessionId: string,
+    res: SSEWriter,
+    identity?: ClientIdentity,
+    caller?: SessionCaller,
+  ): string {
     const clientId = `sse-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
     const client: SSEClient = {
       id: clientId,
       res,
       sessionId,
+      presence: identity
+        ? {
+            ...identity,
+            clientId,
+            cursor: null,
+            clue: null,
+            updatedAt: new Date().toISOString(),
+          }
+        : null,
+      caller: caller ?? null,
     }
 
     // Initialize session set if needed
@@ -40,6 +90,11 @@ export class SSEService {
 
     console.log(`[SSE] Client ${clientId} joined session ${sessionId}`)
 
+    if (client.presence) {
+      this.broadcast(sessionId, 'presence_joined', client.presence, clientId)
+      this.presenceListener?.(sessionId, 'presence_joined', client.presence, client.caller)
+    }
+
     // Handle client disconnect if the writer supports it (Express)
     // For Bun streams, the cleanup is often external, but we support the hook.
     if (res.on) {
@@ -70,6 +125,153 @@ export class SSEService {
     // Remove from global map
     this.clients.delete(clientId)
     console.log(`[SSE] Client ${clientId} disconnected from session ${client.sessionId}`)
+
+    if (client.presence) {
+      const left = {
+        clientId,
+        userId: client.presence.userId,
+        username: client.presence.username,
+      }
+      this.broadcast(client.sessionId, 'presence_left', left)
+      this.presenceListener?.(client.sessionId, 'presence_left', left)
+    }
+  }
+
+  /**
+   * Re-check every client watching a session, e.g. after an invite was revoked.
+   * Those no longer allowed in get an `access_revoked` event and are dropped.
+   */
+  static async evictClients(
+    sessionId: string,
+    isAllowed: (caller: SessionCaller) => Promise<boolean>,
+  ): Promise<void> {
+    const clients = [...(this.sessions.get(sessionId) ?? [])]
+    for (const client of clients) {
+      const caller = client.caller ?? { userId: null, anonymousId: null }
+      if (await isAllowed(caller)) continue
+
+      this.sendToClient(client.id, 'access_revoked', { sessionId })
+      this.removeClient(client.id)
+      try {
+        client.res.close?.()
+      } catch (err) {
+        console.log(`[SSE] Client ${client.id} close failed`)
+      }
+    }
+  }
+
+  static onPresenceChange(listener: PresenceListener | null): void {
+    this.presenceListener = listener
+  }
+
+  /**
+   * Track a presence event relayed from another instance, so newcomers here
+   * see clients connected there
+   */
+  static applyRemotePresence(
+    sessionId: string,
+    type: string,
+    data: any,
+    caller?: SessionCaller | null,
+  ): void {
+    if (!data?.clientId) return
+
+    const local = this.clients.get(data.clientId)
+    if (local) {
+      // The client's cursor update was posted to another instance
+      if (type === 'presence_updated' && local.presence) {
+        local.presence = {
+          ...local.presence,
+          cursor: data.cursor,
+          clue: data.clue,
+          updatedAt: data.updatedAt,
+        }
+      }
+      return
+    }
+
+    let remote = this.remotePresence.get(sessionId)
+    if (type === 'presence_left') {
+      remote?.delete(data.clientId)
+      if (remote?.size === 0) this.remotePresence.delete(sessionId)
+      this.remoteCallers.delete(data.clientId)
+      return
+    }
+
+    if (!remote) {
+      remote = new Map()
+      this.remotePresence.set(sessionId, remote)
+    }
+    remote.set(data.clientId, data)
+    if (caller) this.remoteCallers.set(data.clientId, caller)
+  }
+
+  /**
+   * Whether a connection was opened by the given caller, or null if no such
+   * connection is known in the session. Connections opened without a verified
+   * caller belong to nobody.
+   */
+  static isOpenedBy(sessionId: string, clientId: string, caller: SessionCaller): boolean | null {
+    const client = this.clients.get(clientId)
+    let owner: SessionCaller | undefined
+    if (client) {
+      if (client.sessionId !== sessionId) return null
+      owner = client.caller ?? undefined
+    } else {
+      if (!this.remotePresence.get(sessionId)?.has(clientId)) return null
+      owner = this.remoteCallers.get(clientId)
+    }
+    if (!owner) return false
+
+    if (owner.userId !== null) return owner.userId === caller.userId
+    return caller.userId === null && !!owner.anonymousId && owner.anonymousId === caller.anonymousId
+  }
+
+  /**
+   * Everyone currently visible in a session, optionally leaving out one client (e.g. the asker)
+   */
+  static getPresence(sessionId: string, excludeClientId?: string): Presence[] {
+    const result: Presence[] = []
+    this.sessions.get(sessionId)?.forEach((client) => {
+      if (client.presence && client.id !== excludeClientId) {
+        result.push(client.presence)
+      }
+    })
+    this.remotePresence.get(sessionId)?.forEach((presence) => {
+      if (presence.clientId !== excludeClientId) {
+        result.push(presence)
+      }
+    })
+    return result
+  }
+
+  /**
+   * Record where a client is working. Returns the updated presence, or null if
+   * the client is unknown or belongs to a different session.
+   */
+  static updatePresence(
+    sessionId: string,
+    clientId: string,
+    update: Pick<Presence, 'cursor' | 'clue'>,
+  ): Presence | null {
+    const client = this.clients.get(clientId)
+    if (!client) {
+      // Connected to another instance; the update reaches it via Broadcaster
+      const remote = this.remotePresence.get(sessionId)?.get(clientId)
+      if (!remote) return null
+      const updated = { ...remote, ...update, updatedAt: new Date().toISOString() }
+      this.remotePresence.get(sessionId)!.set(clientId, updated)
+      return updated
+    }
+    if (client.sessionId !== sessionId || !client.presence) return null
+
+    client.presence = {
+      ...client.presence,
+      cursor: update.cursor,
+      clue: update.clue,
+      updatedAt: new Date().toISOString(),
+    }
+    return client.presence
   }
 
   /**
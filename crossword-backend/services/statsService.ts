@@ -0,0 +1,162 @@
+import db from '../db-knex'
+
+export type HintKind = 'letter' | 'word'
+
+export interface SolveRecord {
+  sessionId: string
+  puzzleId: number
+  title: string
+  solveSeconds: number
+  lettersRevealed: number
+  wordsRevealed: number
+  checkCount: number
+  completedAt: string
+}
+
+export interface UserStats {
+  sessionsStarted: number
+  puzzlesCompleted: number
+  averageSolveSeconds: number | null
+  fastestSolveSeconds: number | null
+  lettersRevealed: number
+  wordsRevealed: number
+  checkCount: number
+  hintFreeSolves: number
+  currentStreak: number
+  longestStreak: number
+  recentSolves: SolveRecord[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RECENT_SOLVES_LIMIT = 10
+
+// Whole UTC days since the epoch, so streaks don't depend on server timezone
+const toDayNumber = (date: Date) => Math.floor(date.getTime() / DAY_MS)
+
+/**
+ * Count consecutive days with at least one completed puzzle.
+ * The current streak survives until a full day passes without a completion,
+ * so solving yesterday but not (yet) today still counts.
+ */
+export function computeStreaks(
+  completionDates: string[],
+  now: Date = new Date(),
+): { current: number; longest: number } {
+  const days = [
+    ...new Set(
+      completionDates
+        .map((d) => new Date(d))
+        .filter((d) => !Number.isNaN(d.getTime()))
+        .map(toDayNumber),
+    ),
+  ].sort((a, b) => a - b)
+
+  if (days.length === 0) return { current: 0, longest: 0 }
+
+  let longest = 1
+  let run = 1
+  for (let i = 1; i < days.length; i++) {
+    run = days[i]! === days[i - 1]! + 1 ? run + 1 : 1
+    longest = Math.max(longest, run)
+  }
+
+  const today = toDayNumber(now)
+  const lastDay = days[days.length - 1]!
+  const current = today - lastDay <= 1 ? run : 0
+
+  return { current, longest }
+}
+
+export class StatsService {
+  /**
+   * Persist the client's running solve time. Only ever moves forward, so
+   * several devices (or collaborators) reporting at once can't rewind it,
+   * and it is frozen once the grid is complete.
+   */
+  static async recordSolveTime(sessionId: string, seconds: number): Promise<number | null> {
+    await db('puzzle_sessions')
+      .where({ session_id: sessionId })
+      .whereNull('completed_at')
+      .update({ solve_seconds: db.raw('MAX(solve_seconds, ?)', [Math.floor(seconds)]) })
+
+    return this.getSolveTime(sessionId)
+  }
+
+  static async getSolveTime(sessionId: string): Promise<number | null> {
+    const row = await db('puzzle_sessions')
+      .where({ session_id: sessionId })
+      .select('solve_seconds')
+      .first()
+
+    return row ? Number(row.solve_seconds) || 0 : null
+  }
+
+  static async recordHint(sessionId: string, kind: HintKind, count = 1): Promise<void> {
+    if (count <= 0) return
+    const column = kind === 'letter' ? 'letters_revealed' : 'words_revealed'
+    await db('puzzle_sessions').where({ session_id: sessionId }).increment(column, count)
+  }
+
+  static async recordCheck(sessionId: string): Promise<void> {
+    await db('puzzle_sessions').where({ session_id: sessionId }).increment('check_count', 1)
+  }
+
+  /**
+   * Aggregate solve history across every session owned by the user
+   */
+  static async getUserStats(userId: number, now: Date = new Date()): Promise<UserStats> {
+    const sessions = await db('puzzle_sessions')
+      .join('puzzles', 'puzzle_sessions.puzzle_id', 'puzzles.id')
+      .where('puzzle_sessions.user_id', userId)
+      .select(
+        'puzzle_sessions.session_id',
+        'puzzle_sessions.puzzle_id',
+        'puzzle_sessions.solve_seconds',
+        'puzzle_sessions.letters_revealed',
+        'puzzle_sessions.words_revealed',
+        'puzzle_sessions.check_count',
+        'puzzle_sessions.completed_at',
+        'puzzles.title',
+      )
+      .orderBy('puzzle_sessions.completed_at', 'desc')
+
+    const solves: SolveRecord[] = sessions
+      .filter((s: any) => s.completed_at)
+      .map((s: any) => ({
+        sessionId: s.session_id,
+        puzzleId: s.puzzle_id,
+        title: s.title,
+        solveSeconds: Number(s.solve_seconds) || 0,
+        lettersRevealed: Number(s.letters_revealed) || 0,
+        wordsRevealed: Number(s.words_revealed) || 0,
+        checkCount: Number(s.check_count) || 0,
+        completedAt: s.completed_at,
+      }))
+
+    // Sessions completed before timing was recorded have no usable time
+    const timed = solves.map((s) => s.solveSeconds).filter((t) => t > 0)
+    const { current, longest } = computeStreaks(
+      solves.map((s) => s.completedAt),
+      now,
+    )
+
+    const sum = (key: 'letters_revealed' | 'words_revealed' | 'check_count') =>
+      sessions.reduce((total: number, s: any) => total + (Number(s[key]) || 0), 0)
+
+    return {
+      sessionsStarted: sessions.length,
+      puzzlesCompleted: solves.length,
+      averageSolveSeconds:
+        timed.length > 0 ? Math.round(timed.reduce((a, b) => a + b, 0) / timed.length) : null,
+      fastestSolveSeconds: timed.length > 0 ? Math.min(...timed) : null,
+      lettersRevealed: sum('letters_revealed'),
+      wordsRevealed: sum('words_revealed'),
+      checkCount: sum('check_count'),
+      hintFreeSolves: solves.filter((s) => s.lettersRevealed === 0 && s.wordsRevealed === 0)
+        .length,
+      currentStreak: current,
+      longestStreak: longest,
+      recentSolves: solves.slice(0, RECENT_SOLVES_LIMIT),
+    }
+  }
+}
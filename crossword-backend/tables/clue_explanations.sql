@@ -7,5 +7,8 @@ CREATE TABLE `clue_explanations` (
   `answer` text not null,
   `explanation_json` text not null,
   `created_at` datetime default CURRENT_TIMESTAMP,
+  `verified` boolean default '0',
+  `verified_at` datetime,
+  `verification_json` text,
   foreign key(`puzzle_id`) references `puzzles`(`id`)
 )
\ No newline at end of file
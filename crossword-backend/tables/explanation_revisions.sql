@@ -0,0 +1,13 @@
+CREATE TABLE `explanation_revisions` (
+  `id` integer not null primary key autoincrement,
+  `puzzle_id` integer not null,
+  `clue_number` integer not null,
+  `direction` varchar(10) not null,
+  `explanation_json` text not null,
+  `source` varchar(20) not null,
+  `author_id` integer null,
+  `note` text null,
+  `created_at` datetime default CURRENT_TIMESTAMP,
+  foreign key(`puzzle_id`) references `puzzles`(`id`) on delete CASCADE,
+  foreign key(`author_id`) references `users`(`id`) on delete SET NULL
+)
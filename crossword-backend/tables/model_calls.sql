@@ -0,0 +1,13 @@
+CREATE TABLE `model_calls` (
+  `id` integer not null primary key autoincrement,
+  `provider` varchar(255) not null,
+  `model` varchar(255) not null,
+  `purpose` varchar(255) not null,
+  `puzzle_id` integer null,
+  `input_tokens` integer not null default '0',
+  `output_tokens` integer not null default '0',
+  `latency_ms` integer null,
+  `cost_usd` float null,
+  `error` text null,
+  `created_at` datetime default CURRENT_TIMESTAMP
+)
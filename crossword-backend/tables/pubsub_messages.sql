@@ -0,0 +1,6 @@
+CREATE TABLE `pubsub_messages` (
+  `id` integer not null primary key autoincrement,
+  `origin` varchar(255) not null,
+  `payload` text not null,
+  `created_at` bigint not null
+)
@@ -8,6 +8,15 @@ CREATE TABLE "puzzle_sessions" (
   `created_at` datetime,
   `updated_at` datetime,
   `attributions` text default '{}',
+  `solve_seconds` integer not null default '0',
+  `letters_revealed` integer not null default '0',
+  `words_revealed` integer not null default '0',
+  `check_count` integer not null default '0',
+  `completed_at` datetime null,
+  `cell_versions` text not null default '{}',
+  `tentative_cells` text not null default '[]',
+  `access_mode` varchar(255) not null default 'link',
+  `autocheck` boolean not null default '0',
   FOREIGN KEY (`puzzle_id`) REFERENCES `puzzles` (`id`),
   PRIMARY KEY (`session_id`),
   FOREIGN KEY (`user_id`) REFERENCES `users` (`id`)
@@ -6,5 +6,6 @@ CREATE TABLE `puzzles` (
   `letter_count` integer null,
   `answers_encrypted` text,
   `book` varchar(255),
-  `puzzle_number` integer
+  `puzzle_number` integer,
+  `rebus_cells` text not null default '{}'
 )
\ No newline at end of file
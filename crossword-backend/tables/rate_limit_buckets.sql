@@ -0,0 +1,7 @@
+CREATE TABLE `rate_limit_buckets` (
+  `bucket` varchar(255) not null,
+  `subject` varchar(255) not null,
+  `tokens` float not null,
+  `updated_at` bigint not null,
+  primary key (`bucket`, `subject`)
+)
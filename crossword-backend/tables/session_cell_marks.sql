@@ -0,0 +1,10 @@
+CREATE TABLE `session_cell_marks` (
+  `id` integer not null primary key autoincrement,
+  `session_id` varchar(255) not null,
+  `row` integer not null,
+  `col` integer not null,
+  `mark` varchar(10) not null,
+  `value` varchar(255) not null,
+  `updated_at` datetime default CURRENT_TIMESTAMP,
+  foreign key(`session_id`) references `puzzle_sessions`(`session_id`) on delete CASCADE
+)
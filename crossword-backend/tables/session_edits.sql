@@ -0,0 +1,17 @@
+CREATE TABLE `session_edits` (
+  `id` integer not null primary key autoincrement,
+  `session_id` varchar(255) not null,
+  `batch_id` varchar(255) not null,
+  `editor_key` varchar(255) not null,
+  `user_id` integer null,
+  `row` integer not null,
+  `col` integer not null,
+  `previous_value` varchar(255) not null,
+  `new_value` varchar(255) not null,
+  `undone` boolean not null default '0',
+  `created_at` datetime default CURRENT_TIMESTAMP,
+  `previous_tentative` boolean not null default '0',
+  `new_tentative` boolean not null default '0',
+  foreign key(`session_id`) references `puzzle_sessions`(`session_id`) on delete CASCADE,
+  foreign key(`user_id`) references `users`(`id`) on delete SET NULL
+)
@@ -0,0 +1,12 @@
+CREATE TABLE `session_hint_levels` (
+  `id` integer not null primary key autoincrement,
+  `session_id` varchar(255) not null,
+  `clue_number` integer not null,
+  `direction` varchar(10) not null,
+  `level` integer not null,
+  `kind` varchar(20) not null,
+  `user_id` integer null,
+  `created_at` datetime default CURRENT_TIMESTAMP,
+  foreign key(`session_id`) references `puzzle_sessions`(`session_id`) on delete CASCADE,
+  foreign key(`user_id`) references `users`(`id`) on delete SET NULL
+)
@@ -0,0 +1,9 @@
+CREATE TABLE `session_invites` (
+  `id` integer not null primary key autoincrement,
+  `session_id` varchar(255) not null,
+  `token` varchar(255) not null,
+  `role` varchar(255) not null,
+  `created_at` datetime default CURRENT_TIMESTAMP,
+  `revoked_at` datetime null,
+  foreign key(`session_id`) references `puzzle_sessions`(`session_id`) on delete CASCADE
+)
@@ -0,0 +1,12 @@
+CREATE TABLE `session_members` (
+  `id` integer not null primary key autoincrement,
+  `session_id` varchar(255) not null,
+  `user_id` integer null,
+  `anonymous_id` varchar(255) null,
+  `role` varchar(255) not null,
+  `invite_id` integer not null,
+  `created_at` datetime default CURRENT_TIMESTAMP,
+  foreign key(`session_id`) references `puzzle_sessions`(`session_id`) on delete CASCADE,
+  foreign key(`user_id`) references `users`(`id`) on delete CASCADE,
+  foreign key(`invite_id`) references `session_invites`(`id`) on delete CASCADE
+)
@@ -0,0 +1,11 @@
+CREATE TABLE `session_messages` (
+  `id` integer not null primary key autoincrement,
+  `session_id` varchar(255) not null,
+  `user_id` integer null,
+  `anonymous_id` varchar(255) null,
+  `username` varchar(255) not null,
+  `body` text not null,
+  `created_at` datetime default CURRENT_TIMESTAMP,
+  foreign key(`session_id`) references `puzzle_sessions`(`session_id`) on delete CASCADE,
+  foreign key(`user_id`) references `users`(`id`) on delete SET NULL
+)
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'bun:test'
+import { isSealed, openAnswers, sealAnswers } from '../utils/answerVault'
+
+describe('answerVault', () => {
+  const answers = { across: [{ number: 1, answer: 'PNG' }], down: [] }
+
+  it('should round-trip answers without storing them readably', () => {
+    const sealed = sealAnswers(answers)
+
+    expect(isSealed(sealed)).toBe(true)
+    expect(sealed).not.toContain('PNG')
+    expect(openAnswers(sealed)).toEqual(answers)
+    // A fresh IV each time, so equal keys don't give equal ciphertext
+    expect(sealAnswers(answers)).not.toBe(sealed)
+  })
+
+  it('should still read answer keys stored before encryption', () => {
+    expect(openAnswers(JSON.stringify(answers))).toEqual(answers)
+    expect(openAnswers(null)).toBeNull()
+  })
+
+  it('should refuse a tampered value', () => {
+    const sealed = sealAnswers(answers)
+    const raw = Buffer.from(sealed.slice(3), 'base64')
+    const last = raw.length - 1
+    raw[last] = raw[last]! ^ 1
+
+    expect(() => openAnswers(`v1:${raw.toString('base64')}`)).toThrow()
+  })
+})
@@ -18,6 +18,7 @@ describe('SessionService Cache Benchmark', () => {
   })
 
   afterEach(async () => {
+    await SessionService.flushSaves()
     await db.migrate.rollback()
   })
 
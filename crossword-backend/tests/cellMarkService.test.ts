@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'bun:test'
+import { CellMarkService } from '../services/cellMarkService'
+
+// C A T across the top row, with a rebus cell holding "AT" in the second row
+const solution = new Map([
+  ['0-0', 'C'],
+  ['0-1', 'A'],
+  ['0-2', 'T'],
+  ['1-0', 'AT'],
+])
+const cells = [...solution.keys()].map((key) => {
+  const [r, c] = key.split('-').map(Number)
+  return { r: r!, c: c! }
+})
+
+describe('CellMarkService.markCells', () => {
+  it('should mark each filled letter right or wrong', () => {
+    const { marked, tentativeSkipped } = CellMarkService.markCells(
+      solution,
+      ['cO ', '[AT]  '],
+      cells,
+      new Set(),
+    )
+
+    expect(marked).toEqual([
+      { r: 0, c: 0, mark: 'checked', value: 'C' },
+      { r: 0, c: 1, mark: 'incorrect', value: 'O' },
+      { r: 1, c: 0, mark: 'checked', value: 'AT' },
+    ])
+    expect(tentativeSkipped).toBe(0)
+  })
+
+  it('should skip pencilled letters and, for autocheck, right ones', () => {
+    const { marked, tentativeSkipped } = CellMarkService.markCells(
+      solution,
+      ['COX', '   '],
+      cells,
+      new Set(['0-2']),
+      true,
+    )
+
+    expect(marked).toEqual([{ r: 0, c: 1, mark: 'incorrect', value: 'O' }])
+    expect(tentativeSkipped).toBe(1)
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import db from '../db-knex'
+import { ChatService } from '../services/chatService'
+
+const guest = { userId: null, anonymousId: 'guest-1', username: 'Bob' }
+
+describe('ChatService', () => {
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('session_messages').del()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+
+    await db('puzzles').insert({ id: 1, title: 'Chat', grid: 'N W', clues: '{}' })
+    await db('puzzle_sessions').insert([
+      { session_id: 's1', puzzle_id: 1, state: '[]' },
+      { session_id: 's2', puzzle_id: 1, state: '[]' },
+    ])
+  })
+
+  afterEach(async () => {
+    await db.migrate.rollback()
+  })
+
+  it('should not post to a missing session', async () => {
+    expect(await ChatService.postMessage('missing', guest, 'hello')).toBeNull()
+  })
+
+  it('should keep messages scoped to their session', async () => {
+    await ChatService.postMessage('s1', guest, 'one')
+    await ChatService.postMessage('s2', guest, 'elsewhere')
+
+    const messages = await ChatService.getMessages('s1')
+    expect(messages).toHaveLength(1)
+    expect(messages[0]).toMatchObject({ sessionId: 's1', userId: null, username: 'Bob', body: 'one' })
+  })
+
+  it('should return the latest page in chronological order', async () => {
+    for (const body of ['a', 'b', 'c', 'd']) {
+      await ChatService.postMessage('s1', guest, body)
+    }
+
+    const latest = await ChatService.getMessages('s1', { limit: 2 })
+    expect(latest.map((m) => m.body)).toEqual(['c', 'd'])
+
+    const earlier = await ChatService.getMessages('s1', { before: latest[0]!.id, limit: 2 })
+    expect(earlier.map((m) => m.body)).toEqual(['a', 'b'])
+  })
+})
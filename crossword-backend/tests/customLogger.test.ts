@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, spyOn } from 'bun:test'
+import { Hono } from 'hono'
+import { createLogger } from '../middleware/customLogger'
+
+describe('createLogger', () => {
+  const logSpy = spyOn(console, 'log')
+
+  afterEach(() => {
+    logSpy.mockClear()
+  })
+
+  it('should redact credential query parameters', async () => {
+    const app = new Hono()
+    app.use('*', createLogger({ redactedParams: ['token', 'anonymousId'] }))
+    app.get('/api/sessions/:id/events', (c) => c.text('ok'))
+
+    await app.request('/api/sessions/abc/events?username=Sam&token=secret.jwt&anonymousId=anon-1')
+
+    const line = String(logSpy.mock.calls.at(-1)?.[0])
+    expect(line).toContain('/api/sessions/abc/events?username=Sam&token=REDACTED&anonymousId=REDACTED')
+    expect(line).not.toContain('secret.jwt')
+    expect(line).not.toContain('anon-1')
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import db from '../db-knex'
+import { SessionService } from '../services/sessionService'
+import { EditHistoryService, type Editor } from '../services/editHistoryService'
+
+const alice: Editor = { key: 'user:1', userId: 1 }
+const bob: Editor = { key: 'anon:bob', userId: null }
+
+describe('EditHistoryService', () => {
+  let sessionId: string
+
+  const edit = async (
+    editor: Editor,
+    updates: Array<{ r: number; c: number; value: string; tentative?: boolean }>,
+  ) => {
+    const changes = await SessionService.updateCells(sessionId, updates)
+    await EditHistoryService.recordEdits(sessionId, editor, changes)
+  }
+
+  const row = async (r: number) => ((await SessionService.getSessionState(sessionId)) ?? [])[r]
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('session_edits').del()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+    await db('users').del()
+
+    await db('users').insert({ id: 1, username: 'alice', password_hash: 'hash' })
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Test Puzzle',
+      grid: 'N W W\nW B W',
+      clues: JSON.stringify({ across: [], down: [] }),
+    })
+    sessionId = await SessionService.createOrResetSession(1, 1)
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  it('should identify editors by user before anonymous id', () => {
+    expect(EditHistoryService.editorFor({ id: 7 }, 'guest')).toEqual({ key: 'user:7', userId: 7 })
+    expect(EditHistoryService.editorFor(null, 'guest')).toEqual({ key: 'anon:guest', userId: null })
+    expect(EditHistoryService.editorFor(null, '  ')).toBeNull()
+  })
+
+  it('should log previous values and skip no-op writes', async () => {
+    await edit(alice, [{ r: 0, c: 0, value: 'C' }])
+    await edit(alice, [{ r: 0, c: 0, value: 'C' }])
+    await edit(bob, [{ r: 0, c: 0, value: 'K' }])
+
+    const history = await EditHistoryService.getHistory(sessionId)
+    expect(history).toHaveLength(2)
+    expect(history[0]).toMatchObject({ username: null, previous_value: 'C', new_value: 'K' })
+    expect(history[1]).toMatchObject({ username: 'alice', previous_value: ' ', new_value: 'C' })
+    // Guests' anonymous ids stay out of the history
+    expect(history[0]).not.toHaveProperty('editor_key')
+    expect(JSON.stringify(history)).not.toContain('bob')
+    expect(history[0]!.editor).not.toBe(history[1]!.editor)
+  })
+
+  it('should undo and redo a whole batch', async () => {
+    await edit(alice, [
+      { r: 0, c: 0, value: 'C' },
+      { r: 0, c: 1, value: 'A' },
+      { r: 0, c: 2, value: 'T' },
+    ])
+    expect(await row(0)).toBe('CAT')
+
+    const undone = await EditHistoryService.undo(sessionId, alice)
+    expect(undone).toHaveLength(3)
+    expect(await row(0)).toBe('   ')
+
+    expect(await EditHistoryService.undo(sessionId, alice)).toBeNull()
+
+    await EditHistoryService.redo(sessionId, alice)
+    expect(await row(0)).toBe('CAT')
+    expect(await EditHistoryService.redo(sessionId, alice)).toBeNull()
+  })
+
+  it('should only undo edits made by the same editor', async () => {
+    await edit(alice, [{ r: 0, c: 0, value: 'C' }])
+    await edit(bob, [{ r: 0, c: 1, value: 'O' }])
+
+    await EditHistoryService.undo(sessionId, alice)
+    expect(await row(0)).toBe(' O ')
+    expect(await EditHistoryService.undo(sessionId, alice)).toBeNull()
+  })
+
+  it('should not clobber cells a partner has overwritten since', async () => {
+    await edit(alice, [
+      { r: 0, c: 0, value: 'C' },
+      { r: 0, c: 1, value: 'A' },
+    ])
+    await edit(bob, [{ r: 0, c: 1, value: 'O' }])
+
+    const undone = await EditHistoryService.undo(sessionId, alice)
+    expect(undone).toEqual([{ r: 0, c: 0, value: ' ', tentative: false }])
+    expect(await row(0)).toBe(' O ')
+  })
+
+  it('should redo in reverse order of undo and clear redo on a new edit', async () => {
+    await edit(alice, [{ r: 0, c: 0, value: 'A' }])
+    await edit(alice, [{ r: 0, c: 1, value: 'B' }])
+
+    await EditHistoryService.undo(sessionId, alice)
+    await EditHistoryService.undo(sessionId, alice)
+    expect(await EditHistoryService.redo(sessionId, alice)).toEqual([
+      { r: 0, c: 0, value: 'A', tentative: false },
+    ])
+
+    await edit(alice, [{ r: 0, c: 2, value: 'C' }])
+    expect(await EditHistoryService.redo(sessionId, alice)).toBeNull()
+    expect(await row(0)).toBe('A C')
+  })
+
+  it('should restore pencilled letters as pencilled', async () => {
+    await edit(alice, [{ r: 0, c: 0, value: 'A', tentative: true }])
+    await edit(alice, [{ r: 0, c: 0, value: 'A' }])
+
+    expect(await EditHistoryService.undo(sessionId, alice)).toEqual([
+      { r: 0, c: 0, value: 'A', tentative: true },
+    ])
+    expect((await SessionService.getTentativeCells(sessionId)).has('0-0')).toBe(true)
+
+    await EditHistoryService.redo(sessionId, alice)
+    expect((await SessionService.getTentativeCells(sessionId)).has('0-0')).toBe(false)
+  })
+
+  it('should undo rebus cells', async () => {
+    await edit(alice, [{ r: 0, c: 0, value: 'HEART' }])
+    expect(await row(0)).toBe('[HEART]  ')
+
+    await EditHistoryService.undo(sessionId, alice)
+    expect(await row(0)).toBe('   ')
+  })
+})
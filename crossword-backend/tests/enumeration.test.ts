@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  enumerationFromAnswer,
+  enumerationFromClue,
+  formatEnumeration,
+  letterBreaks,
+  parseEnumeration,
+  withEnumerations,
+} from '../utils/enumeration'
+import type { PuzzleClues } from '../utils/linkedClues'
+
+describe('enumeration', () => {
+  it('should parse word breaks and hyphens', () => {
+    expect(parseEnumeration('7')).toEqual({ words: [7], breaks: [] })
+    expect(parseEnumeration('2, 3-4')).toEqual({ words: [2, 3, 4], breaks: ['space', 'hyphen'] })
+    expect(parseEnumeration('3 words')).toBeNull()
+  })
+
+  it('should read enumerations from the end of a clue only', () => {
+    expect(enumerationFromClue('Frozen dessert (3,5)')).toEqual({ words: [3, 5], breaks: ['space'] })
+    expect(enumerationFromClue('Arrive (in time) early')).toBeNull()
+    expect(enumerationFromClue('See 5')).toBeNull()
+  })
+
+  it('should read the spacing written into an answer', () => {
+    expect(enumerationFromAnswer('Drive-in')).toEqual({ words: [5, 2], breaks: ['hyphen'] })
+    expect(formatEnumeration(enumerationFromAnswer('Rocket scientist')!)).toBe('6,9')
+  })
+
+  it('should key breaks by the letters before them', () => {
+    expect([...letterBreaks(parseEnumeration('2,3-4')!)]).toEqual([
+      [2, 'space'],
+      [5, 'hyphen'],
+    ])
+  })
+
+  it('should store enumerations with the clues that have one', () => {
+    const clues = withEnumerations<PuzzleClues>({
+      across: [
+        { number: 1, clue: 'Frozen dessert (3,5)' },
+        { number: 2, clue: 'See 1', enumeration: { words: [4], breaks: [] } },
+      ],
+      down: [],
+    })
+    expect(clues.across).toEqual([
+      { number: 1, clue: 'Frozen dessert (3,5)', enumeration: { words: [3, 5], breaks: ['space'] } },
+      { number: 2, clue: 'See 1' },
+    ])
+  })
+})
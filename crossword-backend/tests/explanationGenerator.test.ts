@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from 'bun:test'
+import { ExplanationGenerator } from '../services/explanationGenerator'
+import {
+  createMockExplanationProvider,
+  parseExplanation,
+  type ExplanationProvider,
+} from '../utils/explanationProviders'
+
+describe('ExplanationGenerator', () => {
+  afterEach(() => {
+    ExplanationGenerator.use(null)
+  })
+
+  const request = { clue: 'Pet (3)', answer: 'cat' }
+
+  it('should give the same explanation for the same request', async () => {
+    const mock = createMockExplanationProvider()
+    expect(await mock.explain(request)).toEqual(await mock.explain(request))
+
+    const parsed = parseExplanation(await mock.explain(request))
+    expect(parsed.explanation).toMatchObject({
+      clue_type: 'cryptic_definition',
+      clue_segmentation: [{ text: 'Pet', role: 'definition' }],
+    })
+  })
+
+  it('should wrap a bare inner explanation and reject one that fails validation', async () => {
+    const { explanation } = (await createMockExplanationProvider().explain(request)) as any
+    expect(parseExplanation(explanation).clue_type).toBe('cryptic_definition')
+
+    expect(() => parseExplanation({ ...explanation, hint: {} })).toThrow(/does not match schema/)
+    expect(() => parseExplanation('not json')).toThrow()
+  })
+
+  it('should fall back in order past errors and invalid output', async () => {
+    const tried: string[] = []
+    const record = (provider: ExplanationProvider): ExplanationProvider => ({
+      name: provider.name,
+      explain: (req) => {
+        tried.push(provider.name)
+        return provider.explain(req)
+      },
+    })
+
+    ExplanationGenerator.use([
+      record(createMockExplanationProvider({ name: 'offline', fail: 'error' })),
+      record(createMockExplanationProvider({ name: 'sloppy', fail: 'invalid' })),
+      record(createMockExplanationProvider({ name: 'good' })),
+      record(createMockExplanationProvider({ name: 'unused' })),
+    ])
+
+    const result = await ExplanationGenerator.generate(request)
+    expect(result.provider).toBe('good')
+    expect(tried).toEqual(['offline', 'sloppy', 'good'])
+  })
+
+  it('should put a requested model ahead of the configured chain', () => {
+    const names = ExplanationGenerator.providers('openai/gpt-5.4-mini').map((p) => p.name)
+    expect(names).toEqual(['openrouter:openai/gpt-5.4-mini', 'openrouter:deepseek/deepseek-v4-pro'])
+  })
+})
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import db from '../db-knex'
+import { ExplanationService } from '../services/explanationService'
+import { ExplanationGenerator } from '../services/explanationGenerator'
+import { ExplanationRevisionService } from '../services/explanationRevisionService'
+import type { ExplanationProvider, ExplanationRequest } from '../utils/explanationProviders'
+
+const CLUE = 'Feline act badly (3)'
+
+// Anagram of ACT; the sloppy version claims 'act' alone gives CAT
+const wordplay = (tokens: string) => ({
+  clue_type: 'wordplay',
+  explanation: {
+    clue_type: 'wordplay',
+    clue_segmentation: [
+      { text: 'Feline', role: 'definition' },
+      { text: 'act', role: 'wordplay' },
+      { text: 'badly', role: 'indicator' },
+    ],
+    definition: 'Feline',
+    wordplay_steps: [
+      { tokens, operation: 'anagram', result: 'CAT', clue_after: 'Feline CAT (3)' },
+    ],
+    hint: { definition_location: 'start', wordplay_types: ['anagram'] },
+    full_explanation: 'Definition: Feline. ACT rearranged (badly) gives CAT.',
+  },
+})
+
+// Returns each scripted explanation in turn and records what it was asked
+const scripted = (...outputs: unknown[]) => {
+  const requests: ExplanationRequest[] = []
+  const provider: ExplanationProvider = {
+    name: 'scripted',
+    async explain(request) {
+      requests.push(request)
+      return outputs[Math.min(requests.length, outputs.length) - 1]
+    },
+  }
+  return { provider, requests }
+}
+
+describe('ExplanationService verification', () => {
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('clue_explanations').del()
+    await db('puzzles').del()
+    await db('puzzles').insert({ id: 1, title: 'Cats', grid: 'W W W', clues: '{}' })
+  })
+
+  afterEach(async () => {
+    ExplanationGenerator.use(null)
+    await db.migrate.rollback()
+  })
+
+  const stored = () =>
+    db('clue_explanations').where({ puzzle_id: 1, clue_number: 1, direction: 'across' }).first()
+
+  it('should record per-step results when saving', async () => {
+    const verification = await ExplanationService.saveExplanation(
+      1,
+      1,
+      'across',
+      CLUE,
+      'CAT',
+      wordplay('act badly') as any,
+    )
+    expect(verification.verified).toBe(true)
+
+    const row = await stored()
+    expect(Boolean(row.verified)).toBe(true)
+    expect(row.verified_at).not.toBeNull()
+    expect(JSON.parse(row.verification_json).steps).toEqual([
+      {
+        stepIndex: 0,
+        verified: true,
+        detail: 'step matches',
+        operation: { operation: 'anagram', status: 'pass', detail: 'anagram of "act" gives CAT' },
+      },
+    ])
+
+    const cached = await ExplanationService.getCachedExplanation(1, 1, 'across')
+    expect(cached?.verification.status).toBe('verified')
+  })
+
+  it('should regenerate with the failing steps as feedback', async () => {
+    const { provider, requests } = scripted(wordplay('act'), wordplay('act badly'))
+    ExplanationGenerator.use([provider])
+
+    const { explanation } = await ExplanationService.getOrCreateExplanation(1, 1, 'across', CLUE, 'CAT')
+    expect(explanation.verification.status).toBe('verified')
+
+    expect(requests).toHaveLength(2)
+    expect(requests[1]?.feedback).toContain('step 1:')
+    expect(requests[1]?.previousExplanation).toEqual(wordplay('act').explanation)
+  })
+
+  it('should save an explanation that never verifies and flag it', async () => {
+    const { provider, requests } = scripted(wordplay('act'))
+    ExplanationGenerator.use([provider])
+
+    const { explanation } = await ExplanationService.getOrCreateExplanation(1, 1, 'across', CLUE, 'CAT')
+    expect(requests).toHaveLength(3)
+    expect(explanation.verification.status).toBe('failed')
+    expect(explanation.verification.steps[0]?.verified).toBe(false)
+
+    const cached = await ExplanationService.getCachedExplanation(1, 1, 'across')
+    expect(cached?.verification).toEqual(explanation.verification)
+  })
+
+  it('should leave clue types without wordplay steps unchecked', async () => {
+    const { provider, requests } = scripted({
+      clue_type: 'double_definition',
+      explanation: {
+        clue_type: 'double_definition',
+        clue_segmentation: [
+          { text: 'Feline', role: 'definition' },
+          { text: 'act badly', role: 'definition' },
+        ],
+        definitions: [
+          { definition: 'Feline', sense: 'the animal' },
+          { definition: 'act badly', sense: 'misbehave' },
+        ],
+        hint: { definition_count: 2 },
+        full_explanation: 'Two definitions of CAT.',
+      },
+    })
+    ExplanationGenerator.use([provider])
+
+    const { explanation } = await ExplanationService.getOrCreateExplanation(1, 1, 'across', CLUE, 'CAT')
+    expect(requests).toHaveLength(1)
+    expect(explanation.verification).toEqual({ status: 'unchecked', steps: [] })
+    expect((await stored()).verified_at).toBeNull()
+  })
+})
+
+describe('ExplanationService revisions', () => {
+  const clue = { puzzleId: 1, clueNumber: 1, direction: 'across' }
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('explanation_revisions').del()
+    await db('clue_explanations').del()
+    await db('puzzles').del()
+    await db('puzzles').insert({ id: 1, title: 'Cats', grid: 'W W W', clues: '{}' })
+  })
+
+  afterEach(async () => {
+    ExplanationGenerator.use(null)
+    await db.migrate.rollback()
+  })
+
+  it('should keep every saved version and restore an earlier one', async () => {
+    // Regeneration never produces anything better, so what is saved is kept
+    ExplanationGenerator.use([scripted(wordplay('act')).provider])
+
+    await ExplanationService.saveExplanation(1, 1, 'across', CLUE, 'CAT', wordplay('act') as any, {
+      source: 'generated',
+    })
+    await ExplanationService.storeExplanation(
+      1,
+      1,
+      'across',
+      CLUE,
+      'CAT',
+      wordplay('act badly').explanation,
+      { source: 'admin_edit', authorId: 7 },
+    )
+
+    const [edit, generated] = await ExplanationRevisionService.list(clue)
+    expect(edit).toMatchObject({ source: 'admin_edit', authorId: 7 })
+    expect(generated).toMatchObject({ source: 'generated', authorId: null })
+    expect((generated!.explanation as any).wordplay_steps[0].tokens).toBe('act')
+
+    const verification = await ExplanationService.restoreRevision(generated!.id, 7)
+    expect(verification?.verified).toBe(false)
+
+    const current = await ExplanationService.getCachedExplanation(1, 1, 'across')
+    expect((current as any).wordplay_steps[0].tokens).toBe('act')
+    expect(current?.verification.status).toBe('failed')
+
+    const revisions = await ExplanationRevisionService.list(clue)
+    expect(revisions).toHaveLength(3)
+    expect(revisions[0]).toMatchObject({ source: 'restore', note: `Restored revision #${generated!.id}` })
+  })
+
+  it('should regenerate a hand edit that fails, keeping the edit as a revision', async () => {
+    const { provider, requests } = scripted(wordplay('act badly'))
+    ExplanationGenerator.use([provider])
+
+    const verification = await ExplanationService.storeExplanation(
+      1,
+      1,
+      'across',
+      CLUE,
+      'CAT',
+      wordplay('act').explanation,
+      { source: 'admin_edit', authorId: 7 },
+    )
+    expect(verification.verified).toBe(true)
+    expect(requests[0]?.feedback).toContain('step 1:')
+
+    const current = await ExplanationService.getCachedExplanation(1, 1, 'across')
+    expect((current as any).wordplay_steps[0].tokens).toBe('act badly')
+
+    const [regenerated, edit] = await ExplanationRevisionService.list(clue)
+    expect(regenerated).toMatchObject({ source: 'generated', authorId: null })
+    expect(edit).toMatchObject({ source: 'admin_edit', authorId: 7 })
+    expect((edit!.explanation as any).wordplay_steps[0].tokens).toBe('act')
+  })
+
+  it('should not restore a revision that does not exist', async () => {
+    expect(await ExplanationService.restoreRevision(999, null)).toBeNull()
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import db from '../db-knex'
+import { FriendshipService } from '../services/friendshipService'
+
+describe('FriendshipService', () => {
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('friendships').del()
+    await db('users').del()
+
+    await db('users').insert([
+      { id: 1, username: 'alice', password_hash: 'hash' },
+      { id: 2, username: 'bob', password_hash: 'hash' },
+      { id: 3, username: 'bobby', password_hash: 'hash' },
+    ])
+  })
+
+  afterEach(async () => {
+    await db.migrate.rollback()
+  })
+
+  it('should create a pending request recorded against the requester', async () => {
+    const result = await FriendshipService.sendRequest(2, 1)
+    expect(result.status).toBe('pending')
+
+    const row = await db('friendships').first()
+    expect(row.user_id_1).toBe(1)
+    expect(row.user_id_2).toBe(2)
+    expect(row.requested_by).toBe(2)
+    expect(await FriendshipService.areFriends(1, 2)).toBe(false)
+
+    const forAlice = await FriendshipService.getPendingRequests(1)
+    expect(forAlice.incoming.map((r) => r.user.username)).toEqual(['bob'])
+    expect(forAlice.outgoing).toHaveLength(0)
+
+    const forBob = await FriendshipService.getPendingRequests(2)
+    expect(forBob.outgoing.map((r) => r.user.username)).toEqual(['alice'])
+  })
+
+  it('should accept a request only from the recipient side', async () => {
+    await FriendshipService.sendRequest(1, 2)
+
+    await expect(FriendshipService.acceptRequest(1, 2)).rejects.toThrow('Friend request not found')
+
+    await FriendshipService.acceptRequest(2, 1)
+    expect(await FriendshipService.areFriends(1, 2)).toBe(true)
+    expect(await FriendshipService.getFriendIds(2)).toEqual([1])
+  })
+
+  it('should auto-accept when both users request each other', async () => {
+    await FriendshipService.sendRequest(1, 2)
+    const result = await FriendshipService.sendRequest(2, 1)
+
+    expect(result.status).toBe('accepted')
+    expect(await FriendshipService.areFriends(1, 2)).toBe(true)
+  })
+
+  it('should reject duplicate and self requests', async () => {
+    await FriendshipService.sendRequest(1, 2)
+
+    await expect(FriendshipService.sendRequest(1, 2)).rejects.toThrow('Friend request already sent')
+    await expect(FriendshipService.sendRequest(1, 1)).rejects.toThrow('Cannot friend yourself')
+    await expect(FriendshipService.sendRequest(1, 99)).rejects.toThrow('User not found')
+  })
+
+  it('should delete the row on decline and on remove', async () => {
+    await FriendshipService.sendRequest(1, 2)
+    await FriendshipService.declineRequest(2, 1)
+    expect(await db('friendships').count('* as n').first()).toEqual({ n: 0 })
+
+    await FriendshipService.createFriendship(1, 2)
+    await FriendshipService.removeFriendship(2, 1)
+    expect(await FriendshipService.areFriends(1, 2)).toBe(false)
+  })
+
+  it('should not let the recipient cancel a request via remove', async () => {
+    await FriendshipService.sendRequest(1, 2)
+
+    await expect(FriendshipService.removeFriendship(2, 1)).rejects.toThrow('Friendship not found')
+
+    await FriendshipService.removeFriendship(1, 2)
+    expect(await FriendshipService.getFriendship(1, 2)).toBeUndefined()
+  })
+
+  it('should search by username prefix and annotate relationships', async () => {
+    await FriendshipService.sendRequest(3, 1)
+
+    const results = await FriendshipService.searchUsers(1, 'bo')
+    expect(results).toEqual([
+      { id: 2, username: 'bob', relationship: 'none' },
+      { id: 3, username: 'bobby', relationship: 'incoming' },
+    ])
+
+    expect(await FriendshipService.searchUsers(1, '   ')).toEqual([])
+    expect((await FriendshipService.searchUsers(1, 'ali')).length).toBe(0)
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'bun:test'
+import { parseGridString } from '../utils/gridIntegrityChecker'
+import { autofillGrid, type ScoredWord } from '../utils/gridAutofill'
+import { AutofillService } from '../services/autofillService'
+
+// A 3x3 word square: 1, 4, 5 across and 1, 2, 3 down
+const SQUARE = parseGridString(`N N N
+N W W
+N W W`)
+
+const words = (...list: string[]): ScoredWord[] => list.map((word) => ({ word, score: 50 }))
+
+describe('gridAutofill', () => {
+  it('fills an empty grid with crossing words', () => {
+    const result = autofillGrid({
+      grid: SQUARE,
+      words: words('CAR', 'ONE', 'DEW', 'COD', 'ANE', 'REW', 'TEN', 'ODE'),
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.letters).toHaveLength(3)
+    for (const entry of result.entries!) expect(entry.word).toHaveLength(3)
+    // Every across row reads as an entry and every column as one too
+    const across = result.entries!.filter((e) => e.direction === 'across').map((e) => e.word)
+    expect(across).toEqual(result.letters!)
+  })
+
+  it('never uses a word twice', () => {
+    // The only fill of this square with repeats allowed is BAT/ACE/TEN in both directions
+    const result = autofillGrid({ grid: SQUARE, words: words('BAT', 'ACE', 'TEN') })
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('exhausted')
+  })
+
+  it('keeps letters already placed and tries higher scores first', () => {
+    const result = autofillGrid({
+      grid: SQUARE,
+      letters: ['C  ', '   ', '   '],
+      words: [
+        ...words('ONE', 'DEW', 'COD', 'ANE', 'REW'),
+        { word: 'COT', score: 10 },
+        { word: 'CAR', score: 90 },
+      ],
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.letters![0]![0]).toBe('C')
+    const oneAcross = result.entries!.find((e) => e.number === 1 && e.direction === 'across')
+    expect(oneAcross?.word).toBe('CAR')
+    expect(oneAcross?.score).toBe(90)
+  })
+
+  it('checks crossing lights a placement completes', () => {
+    // Placing AB and BY leaves 3 across as XY, which is not a word
+    const result = autofillGrid({
+      grid: parseGridString('N N\nN W'),
+      words: words('AB', 'AX', 'BY', 'XZ'),
+    })
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('exhausted')
+  })
+
+  it('scores every light, including crossings a placement completes', () => {
+    const result = autofillGrid({
+      grid: parseGridString('N N\nN W'),
+      words: words('AB', 'AX', 'BY', 'XZ', 'CD', 'AC', 'BD'),
+    })
+    expect(result.success).toBe(true)
+    expect(result.letters).toEqual(['AB', 'CD'])
+    for (const entry of result.entries!) expect(entry.score).toBe(50)
+  })
+
+  it('leaves blacklisted words out', () => {
+    const result = autofillGrid({
+      grid: parseGridString('N W W'),
+      words: [{ word: 'Bad', score: 100 }, ...words('GOOD')],
+      blacklist: ['bad'],
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('stops at the state limit', () => {
+    const result = autofillGrid(
+      { grid: SQUARE, words: words('CAR', 'ONE', 'DEW', 'COD', 'ANE', 'REW') },
+      { maxStates: 1 },
+    )
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('explored states')
+    expect(result.exploredStates).toBe(1)
+  })
+
+  it('reads scored word lists', () => {
+    expect(AutofillService.parseWordList('# setter list\nice cream;70\nDRIVE-IN\n\nbad;x')).toEqual([
+      { word: 'ice cream', score: 70 },
+      { word: 'DRIVE-IN', score: 50 },
+      { word: 'bad', score: 50 },
+    ])
+  })
+})
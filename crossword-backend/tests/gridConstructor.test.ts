@@ -92,4 +92,28 @@ describe('gridConstructor', () => {
     expect(result.success).toBe(false)
     expect(result.message).toBeDefined()
   })
+
+  it('separates lights with bars when asked for a barred grid', () => {
+    const input = {
+      width: 3,
+      height: 3,
+      across: [
+        { number: 1, answer: 'CAT' },
+        { number: 4, answer: 'RE' },
+        { number: 5, answer: 'SEA' },
+      ],
+      down: [
+        { number: 1, answer: 'COS' },
+        { number: 2, answer: 'ARE' },
+        { number: 3, answer: 'TEA' },
+      ],
+    }
+
+    // Every cell is a letter, so there is nowhere to put a block
+    expect(constructGridFromAnswerKey(input, { maxStates: 20_000 }).success).toBe(false)
+
+    const result = constructGridFromAnswerKey(input, { maxStates: 20_000, barred: true })
+    expect(result.success).toBe(true)
+    expect(result.gridString).toBe('N N N\nW| N W\nN W W')
+  })
 })
@@ -138,5 +138,98 @@ describe('gridIntegrityChecker', () => {
       expect(result.isValid).toBe(true)
       expect(result.errors).toHaveLength(0)
     })
+
+    it('should end lights at bars in a barred grid', () => {
+      //  C A T
+      //  O|R E   (bar between O and R)
+      //  S E A
+      const grid = parseGridString('N N N\nW| N W\nN W W')
+      const answers = {
+        across: [
+          { number: 1, answer: 'PNG' },
+          { number: 4, answer: 'ER' },
+          { number: 5, answer: 'FRN' },
+        ],
+        down: [
+          { number: 1, answer: 'PBF' },
+          { number: 2, answer: 'NER' },
+          { number: 3, answer: 'GRN' },
+        ],
+      }
+
+      const result = checkGridIntegrity(grid, answers)
+      expect(result.isValid).toBe(true)
+      expect(result.totalClues).toBe(6)
+
+      // Without the bar the middle row would be one three-letter light
+      const tooLong = checkGridIntegrity(grid, {
+        ...answers,
+        across: [...answers.across.filter((a) => a.number !== 4), { number: 4, answer: 'BER' }],
+      })
+      expect(tooLong.errors.map((e) => e.errorType)).toEqual(['length_mismatch'])
+    })
+
+    it('should check a linked answer against all of its lights', () => {
+      //  T O M     1/2 across: TOMCAT (3,3)
+      //  # # #
+      //  C A T
+      const grid = parseGridString('N W W\nB B B\nN W W')
+      const answers = { across: [{ number: 1, answer: 'GBZPNG' }], down: [] }
+      const clues = {
+        across: [
+          { number: 1, clue: 'Male feline (3,3)', continued: [{ number: 2, direction: 'across' as const }] },
+          { number: 2, clue: 'See 1' },
+        ],
+      }
+
+      const result = checkGridIntegrity(grid, answers, {}, clues)
+      expect(result.isValid).toBe(true)
+      expect(result.totalClues).toBe(1)
+
+      // Unlinked, the answer overflows 1 across and 2 across has none
+      const unlinked = checkGridIntegrity(grid, answers)
+      expect(unlinked.errors.map((e) => e.errorType)).toEqual(['length_mismatch', 'missing_clue'])
+
+      const tooShort = checkGridIntegrity(grid, { across: [{ number: 1, answer: 'GBZ' }], down: [] }, {}, clues)
+      expect(tooShort.errors[0]!.message).toContain('Clue 1/2 across')
+      expect(tooShort.errors[0]!.cells).toHaveLength(6)
+    })
+
+    it('should report links to lights the grid does not have', () => {
+      const grid = parseGridString('N W W\nB B B\nN W W')
+      const clues = {
+        across: [{ number: 1, clue: 'Tom (3)', continued: [{ number: 5, direction: 'down' as const }] }],
+      }
+      const answers = {
+        across: [
+          { number: 1, answer: 'GBZ' },
+          { number: 2, answer: 'PNG' },
+        ],
+        down: [],
+      }
+
+      const result = checkGridIntegrity(grid, answers, {}, clues)
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0]!.message).toContain('links to 5 down')
+    })
+
+    it('should flag answers that disagree with their enumeration', () => {
+      const grid = parseGridString('N W W W W W W W')
+      const clues = (clue: string) => ({ across: [{ number: 1, clue }] })
+      // ICE CREAM and ICECREAM
+      const spaced = { across: [{ number: 1, answer: 'VPR PERNZ' }], down: [] }
+      const unspaced = { across: [{ number: 1, answer: 'VPRPERNZ' }], down: [] }
+
+      expect(checkGridIntegrity(grid, spaced, {}, clues('Frozen dessert (3,5)')).isValid).toBe(true)
+      expect(checkGridIntegrity(grid, unspaced, {}, clues('Frozen dessert (3,5)')).isValid).toBe(true)
+
+      const hyphenated = checkGridIntegrity(grid, spaced, {}, clues('Frozen dessert (3-5)'))
+      expect(hyphenated.errors[0]!.errorType).toBe('enumeration_mismatch')
+      expect(hyphenated.errors[0]!.message).toContain('Enumeration (3-5) does not match answer "ICE CREAM" (3,5)')
+
+      const tooLong = checkGridIntegrity(grid, unspaced, {}, clues('Frozen dessert (4,5)'))
+      expect(tooLong.errors.map((e) => e.errorType)).toEqual(['enumeration_mismatch'])
+      expect(tooLong.validClues).toBe(0)
+    })
   })
 })
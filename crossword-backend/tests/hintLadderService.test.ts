@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import db from '../db-knex'
+import { HintLadderService, buildHintLadder } from '../services/hintLadderService'
+import type { FlatClueExplanation } from '../services/explanationService'
+
+const wordplay = {
+  clue_type: 'wordplay',
+  clue_segmentation: [
+    { text: 'Feline', role: 'definition' },
+    { text: 'act', role: 'wordplay' },
+    { text: 'badly', role: 'indicator' },
+  ],
+  definition: 'Feline',
+  wordplay_steps: [
+    { tokens: 'act badly', operation: 'anagram', result: 'CAT', clue_after: 'Feline CAT (3)' },
+  ],
+  hint: { definition_location: 'start', wordplay_types: ['anagram'] },
+  full_explanation: 'Definition: Feline. ACT rearranged (badly) gives CAT.',
+} as FlatClueExplanation
+
+describe('buildHintLadder', () => {
+  it('should climb from the definition through each step to the answer', () => {
+    const ladder = buildHintLadder(wordplay, 'CAT')
+
+    expect(ladder.map((r) => [r.level, r.kind])).toEqual([
+      [1, 'definition_location'],
+      [2, 'definition'],
+      [3, 'wordplay_types'],
+      [4, 'indicators'],
+      [5, 'step'],
+      [6, 'answer'],
+    ])
+    expect(ladder[0]!.text).toBe('The definition is at the start of the clue.')
+    expect(ladder[1]!.highlight).toEqual(['Feline'])
+    expect(ladder[3]!.highlight).toEqual(['badly'])
+    expect(ladder[4]!.text).toBe('Step 1 of 1: "act badly" (anagram) gives CAT.')
+    expect(ladder[5]!.text).toBe('The answer is CAT.')
+  })
+
+  it('should find the definition from the segmentation when the hint lacks it', () => {
+    const { hint, ...rest } = wordplay as any
+    const ladder = buildHintLadder(
+      { ...rest, clue_segmentation: [...rest.clue_segmentation].reverse() },
+      'CAT',
+    )
+    expect(ladder[0]!.text).toBe('The definition is at the end of the clue.')
+    // No wordplay types to give away
+    expect(ladder.map((r) => r.kind)).not.toContain('wordplay_types')
+  })
+
+  it('should skip wordplay rungs for a double definition', () => {
+    const ladder = buildHintLadder(
+      {
+        clue_type: 'double_definition',
+        clue_segmentation: [
+          { text: 'Pet', role: 'definition' },
+          { text: 'tom', role: 'definition' },
+        ],
+        definitions: [
+          { definition: 'Pet', sense: 'domestic animal' },
+          { definition: 'tom', sense: 'male cat' },
+        ],
+        hint: { definition_count: 2 },
+        full_explanation: 'Two definitions.',
+      },
+      'CAT',
+    )
+    expect(ladder.map((r) => r.kind)).toEqual(['definition_location', 'definition', 'answer'])
+    expect(ladder[1]!.highlight).toEqual(['Pet', 'tom'])
+  })
+})
+
+describe('HintLadderService', () => {
+  const clue = { sessionId: 'ladder-session', clueNumber: 1, direction: 'across' }
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+    await db('puzzles').insert({ id: 1, title: 'Cats', grid: 'W W W', clues: '{}' })
+    await db('puzzle_sessions').insert({ session_id: 'ladder-session', puzzle_id: 1, state: '[]' })
+  })
+
+  afterEach(async () => {
+    await db.migrate.rollback()
+  })
+
+  it('should record each level once and report the highest reached', async () => {
+    const ladder = buildHintLadder(wordplay, 'CAT')
+    expect(await HintLadderService.getLevel(clue)).toBe(0)
+
+    await HintLadderService.recordLevel(clue, ladder[0]!, null)
+    await HintLadderService.recordLevel(clue, ladder[1]!, null)
+    await HintLadderService.recordLevel(clue, ladder[1]!, null)
+
+    expect(await HintLadderService.getLevel(clue)).toBe(2)
+    expect(await db('session_hint_levels').count('* as n').first()).toEqual({ n: 2 })
+  })
+
+  it('should show the rungs used and the next one', () => {
+    const ladder = buildHintLadder(wordplay, 'CAT')
+
+    const view = HintLadderService.view(ladder, 2)
+    expect(view.levels.map((r) => r.kind)).toEqual(['definition_location', 'definition'])
+    expect(view).toMatchObject({ total: 6, next: 'wordplay_types' })
+
+    expect(HintLadderService.view(ladder, 10)).toMatchObject({ next: null })
+  })
+})
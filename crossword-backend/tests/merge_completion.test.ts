@@ -28,6 +28,7 @@ describe('Session Reconciliation Completion', () => {
   })
 
   afterEach(async () => {
+    await SessionService.flushSaves()
     await db.migrate.rollback()
   })
 
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import db from '../db-knex'
+import { ModelUsageService, readTokenUsage } from '../services/modelUsageService'
+
+describe('ModelUsageService', () => {
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('model_calls').del()
+    await db('puzzles').del()
+  })
+
+  afterEach(async () => {
+    await db.migrate.rollback()
+  })
+
+  it('should read token counts from each API response shape', () => {
+    expect(readTokenUsage({ usage: { input_tokens: 10, output_tokens: 20 } })).toEqual({
+      inputTokens: 10,
+      outputTokens: 20,
+    })
+    expect(readTokenUsage({ usage: { prompt_tokens: 3, completion_tokens: 4 } })).toEqual({
+      inputTokens: 3,
+      outputTokens: 4,
+    })
+    expect(readTokenUsage({ usage: { promptTokens: 5, completionTokens: 6 } })).toEqual({
+      inputTokens: 5,
+      outputTokens: 6,
+    })
+    expect(readTokenUsage({ choices: [] })).toBeNull()
+  })
+
+  it('should record tokens, latency and estimated cost of a tracked call', async () => {
+    const response = { usage: { promptTokens: 1_000_000, completionTokens: 500_000 } }
+    const result = await ModelUsageService.track(
+      { provider: 'openrouter', model: 'deepseek/deepseek-v4-pro', purpose: 'explanation', puzzleId: 7 },
+      Promise.resolve(response),
+    )
+    expect(result).toBe(response)
+
+    const row = await db('model_calls').first()
+    expect(row).toMatchObject({
+      provider: 'openrouter',
+      model: 'deepseek/deepseek-v4-pro',
+      purpose: 'explanation',
+      puzzle_id: 7,
+      input_tokens: 1_000_000,
+      output_tokens: 500_000,
+      error: null,
+    })
+    expect(row.cost_usd).toBeCloseTo(0.6 + 1.2)
+    expect(row.latency_ms).toBeGreaterThanOrEqual(0)
+  })
+
+  it('should record failed calls and rethrow', async () => {
+    const call = ModelUsageService.track(
+      { provider: 'openrouter', model: 'deepseek/deepseek-v4-flash', purpose: 'chat' },
+      Promise.reject(new Error('upstream unavailable')),
+    )
+    await expect(call).rejects.toThrow('upstream unavailable')
+
+    const row = await db('model_calls').first()
+    expect(row).toMatchObject({ purpose: 'chat', error: 'upstream unavailable', cost_usd: null })
+  })
+
+  it('should file OpenAI batch results under the undated slug at half price', async () => {
+    await ModelUsageService.recordBatchResult(
+      { model: 'gpt-5-mini-2025-08-07', usage: { input_tokens: 1_000_000, output_tokens: 0 } },
+      3,
+    )
+
+    const row = await db('model_calls').first()
+    expect(row).toMatchObject({ provider: 'openai', model: 'openai/gpt-5-mini', latency_ms: null })
+    expect(row.cost_usd).toBeCloseTo(0.125)
+  })
+
+  it('should total spend by day, purpose, puzzle and model', async () => {
+    await db('puzzles').insert({ id: 1, title: 'Puzzle One', grid: 'A', clues: '{}' })
+    const row = (overrides: Record<string, unknown>) => ({
+      provider: 'openrouter',
+      model: 'deepseek/deepseek-v4-pro',
+      purpose: 'explanation',
+      input_tokens: 100,
+      output_tokens: 50,
+      cost_usd: 0.01,
+      ...overrides,
+    })
+    await db('model_calls').insert([
+      row({ puzzle_id: 1, created_at: '2026-10-18 09:00:00' }),
+      row({ puzzle_id: 1, created_at: '2026-10-19 09:00:00', purpose: 'hint' }),
+      row({ created_at: '2026-10-19 10:00:00', purpose: 'chat', cost_usd: 0.5, error: 'boom' }),
+      // Outside the window
+      row({ puzzle_id: 1, created_at: '2026-08-01 09:00:00' }),
+    ])
+
+    const summary = await ModelUsageService.getSummary(7, Date.parse('2026-10-19T12:00:00Z'))
+
+    expect(summary.totals).toMatchObject({ calls: 3, failures: 1, inputTokens: 300 })
+    expect(summary.totals.costUsd).toBeCloseTo(0.52)
+    expect(summary.byDay.map((d) => [d.day, d.calls])).toEqual([
+      ['2026-10-19', 2],
+      ['2026-10-18', 1],
+    ])
+    expect(summary.byPurpose).toHaveLength(3)
+    expect(summary.byPurpose[0]).toMatchObject({ purpose: 'chat', calls: 1, failures: 1 })
+    expect(summary.byPuzzle).toEqual([
+      expect.objectContaining({ puzzleId: 1, title: 'Puzzle One', calls: 2 }),
+    ])
+    expect(summary.byModel).toEqual([
+      expect.objectContaining({ provider: 'openrouter', model: 'deepseek/deepseek-v4-pro', calls: 3 }),
+    ])
+  })
+})
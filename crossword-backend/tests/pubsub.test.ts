@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import db from '../db-knex'
+import {
+  LocalPubSub,
+  LocalPubSubHub,
+  SqlitePubSub,
+  type PubSubMessage,
+} from '../services/pubsub'
+import { Broadcaster } from '../services/broadcaster'
+import { SessionService } from '../services/sessionService'
+import { SSEService } from '../services/sseService'
+
+const cellsMessage = (
+  sessionId: string,
+  value: string,
+  { version = 1, origin = 'peer' } = {},
+): PubSubMessage => ({
+  kind: 'session_cells',
+  sessionId,
+  origin,
+  cells: [{ r: 0, c: 0, value, version }],
+})
+
+describe('LocalPubSub', () => {
+  it('should deliver to other members of the hub but not back to the sender', async () => {
+    const hub = new LocalPubSubHub()
+    const a = new LocalPubSub(hub)
+    const b = new LocalPubSub(hub)
+    const seenByA: PubSubMessage[] = []
+    const seenByB: PubSubMessage[] = []
+    a.subscribe((m) => seenByA.push(m))
+    b.subscribe((m) => seenByB.push(m))
+
+    await a.publish(cellsMessage('s1', 'X'))
+
+    expect(seenByA).toEqual([])
+    expect(seenByB).toEqual([cellsMessage('s1', 'X')])
+  })
+})
+
+describe('SqlitePubSub', () => {
+  const transports: SqlitePubSub[] = []
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('pubsub_messages').del()
+  })
+
+  afterEach(async () => {
+    await Promise.all(transports.splice(0).map((t) => t.close()))
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  const create = () => {
+    const transport = new SqlitePubSub(db, { pollIntervalMs: 60_000 })
+    transports.push(transport)
+    return transport
+  }
+
+  it('should relay messages between instances in publish order', async () => {
+    const a = create()
+    const b = create()
+    const seenByA: PubSubMessage[] = []
+    const seenByB: PubSubMessage[] = []
+    a.subscribe((m) => seenByA.push(m))
+    b.subscribe((m) => seenByB.push(m))
+    await a.poll()
+    await b.poll()
+
+    await a.publish(cellsMessage('s1', 'X'))
+    await b.publish(cellsMessage('s1', 'Y'))
+    await a.poll()
+    await b.poll()
+
+    expect(seenByA).toEqual([cellsMessage('s1', 'Y')])
+    expect(seenByB).toEqual([cellsMessage('s1', 'X')])
+  })
+
+  it('should not replay messages published before subscribing', async () => {
+    const a = create()
+    await a.publish(cellsMessage('s1', 'X'))
+
+    const b = create()
+    const seen: PubSubMessage[] = []
+    b.subscribe((m) => seen.push(m))
+    await b.poll()
+    await b.poll()
+
+    expect(seen).toEqual([])
+  })
+
+  it('should deliver messages published between subscribing and the first poll', async () => {
+    const a = create()
+    const b = create()
+    const seen: PubSubMessage[] = []
+    b.subscribe((m) => seen.push(m))
+
+    await a.publish(cellsMessage('s1', 'X'))
+    await b.poll()
+
+    expect(seen).toEqual([cellsMessage('s1', 'X')])
+  })
+})
+
+describe('Broadcaster across instances', () => {
+  let hub: LocalPubSubHub
+  let peer: LocalPubSub
+  let fromPeer: PubSubMessage[]
+  let sessionId: string
+  const clients: string[] = []
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Shared',
+      grid: 'W W\nW W',
+      clues: JSON.stringify({ across: [], down: [] }),
+    })
+    sessionId = await SessionService.createOrResetSession(null, 1)
+
+    // This process plays one instance; `peer` stands in for another
+    hub = new LocalPubSubHub()
+    await Broadcaster.connect(new LocalPubSub(hub))
+    peer = new LocalPubSub(hub)
+    fromPeer = []
+    peer.subscribe((m) => fromPeer.push(m))
+  })
+
+  afterEach(async () => {
+    clients.splice(0).forEach((id) => SSEService.removeClient(id))
+    await peer.close()
+    await Broadcaster.connect(new LocalPubSub())
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  const listen = () => {
+    const frames: string[] = []
+    clients.push(SSEService.addClient(sessionId, { write: (data) => frames.push(data) }))
+    return frames
+  }
+
+  it('should forward local cell writes and events to peers', async () => {
+    await SessionService.updateCell(sessionId, 0, 1, 'Q')
+    await Broadcaster.broadcastCellUpdate(sessionId, 0, 1, 'Q', 'sse-sender')
+
+    expect(fromPeer).toContainEqual({
+      kind: 'session_cells',
+      sessionId,
+      origin: expect.any(String),
+      cells: [{ r: 0, c: 1, value: 'Q', version: 1, tentative: false }],
+    })
+    expect(fromPeer).toContainEqual({
+      kind: 'sse',
+      sessionId,
+      type: 'cell_updated',
+      data: { r: 0, c: 1, value: 'Q', senderId: 'sse-sender' },
+      excludeClientId: 'sse-sender',
+    })
+  })
+
+  it('should send the cells written by one request as one event', async () => {
+    const frames = listen()
+
+    await Broadcaster.broadcastCellChanges(
+      sessionId,
+      [
+        { r: 0, c: 0, value: 'A', version: 2 },
+        { r: 0, c: 1, value: 'B', version: 1, tentative: true },
+      ],
+      'sse-sender',
+    )
+
+    const cells = [
+      { r: 0, c: 0, value: 'A', version: 2 },
+      { r: 0, c: 1, value: 'B', version: 1, tentative: true },
+    ]
+    expect(frames).toEqual([
+      `event: cells_updated\ndata: ${JSON.stringify({ cells, senderId: 'sse-sender' })}\n\n`,
+    ])
+    expect(fromPeer.filter((m) => m.kind === 'sse')).toEqual([
+      {
+        kind: 'sse',
+        sessionId,
+        type: 'cells_updated',
+        data: { cells, senderId: 'sse-sender' },
+        excludeClientId: 'sse-sender',
+      },
+    ])
+  })
+
+  it('should deliver peer events to clients connected here', async () => {
+    const frames = listen()
+
+    await peer.publish({
+      kind: 'sse',
+      sessionId,
+      type: 'cell_updated',
+      data: { r: 1, c: 0, value: 'Z', senderId: 'sse-elsewhere' },
+    })
+
+    expect(frames.some((f) => f.startsWith('event: cell_updated'))).toBe(true)
+  })
+
+  it('should keep a cached session in step with peer edits', async () => {
+    await SessionService.updateCell(sessionId, 1, 1, 'Z')
+
+    await peer.publish(cellsMessage(sessionId, 'K'))
+
+    expect(await SessionService.getSessionState(sessionId)).toEqual(['K ', ' Z'])
+  })
+
+  it('should ignore peer edits older than the letter held here', async () => {
+    await SessionService.updateCell(sessionId, 0, 0, 'A')
+    await SessionService.updateCell(sessionId, 0, 0, 'B')
+
+    await peer.publish(cellsMessage(sessionId, 'K', { version: 1 }))
+
+    expect((await SessionService.getSessionState(sessionId))?.[0]).toBe('B ')
+  })
+
+  it('should settle writes of the same version by instance id', async () => {
+    await SessionService.updateCell(sessionId, 0, 0, 'A')
+
+    // Instance ids are UUIDs, so '0' sorts before and 'z' after this one
+    await peer.publish(cellsMessage(sessionId, 'K', { origin: '0' }))
+    expect((await SessionService.getSessionState(sessionId))?.[0]).toBe('A ')
+
+    await peer.publish(cellsMessage(sessionId, 'K', { origin: 'z' }))
+    expect((await SessionService.getSessionState(sessionId))?.[0]).toBe('K ')
+
+    // Once 'z' holds the cell, a smaller id at that version can't take it back
+    await peer.publish(cellsMessage(sessionId, 'Q', { origin: 'y' }))
+    expect((await SessionService.getSessionState(sessionId))?.[0]).toBe('K ')
+  })
+
+  it('should replay peer edits made before the session was loaded here', async () => {
+    await peer.publish(cellsMessage(sessionId, 'K'))
+
+    expect((await SessionService.getSessionState(sessionId))?.[0]).toBe('K ')
+  })
+
+  it('should drop the cached copy when a peer resets the session', async () => {
+    await SessionService.updateCell(sessionId, 0, 0, 'A')
+    await db('puzzle_sessions')
+      .where({ session_id: sessionId })
+      .update({ state: JSON.stringify(['  ', '  ']) })
+
+    await peer.publish({ kind: 'session_invalidate', sessionId })
+
+    expect((await SessionService.getSessionState(sessionId))?.[0]).toBe('  ')
+  })
+
+  it('should show clients connected to a peer in presence lists', async () => {
+    const remoteGuest = { userId: null, anonymousId: 'remote-guest' }
+    await peer.publish({
+      kind: 'sse',
+      sessionId,
+      type: 'presence_joined',
+      data: {
+        clientId: 'sse-remote',
+        userId: null,
+        username: 'Remote',
+        cursor: null,
+        clue: null,
+        updatedAt: new Date().toISOString(),
+      },
+      caller: remoteGuest,
+    })
+    expect(SSEService.getPresence(sessionId).map((p) => p.username)).toEqual(['Remote'])
+    // Only the guest who connected over there may move that cursor from here
+    expect(SSEService.isOpenedBy(sessionId, 'sse-remote', remoteGuest)).toBe(true)
+    const stranger = { userId: null, anonymousId: 'stranger' }
+    expect(SSEService.isOpenedBy(sessionId, 'sse-remote', stranger)).toBe(false)
+
+    await peer.publish({
+      kind: 'sse',
+      sessionId,
+      type: 'presence_left',
+      data: { clientId: 'sse-remote', userId: null, username: 'Remote' },
+    })
+    expect(SSEService.getPresence(sessionId)).toEqual([])
+    expect(SSEService.isOpenedBy(sessionId, 'sse-remote', remoteGuest)).toBeNull()
+  })
+})
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  fromIpuz,
+  fromPuz,
+  isPuzFile,
+  numberGrid,
+  portableToPuzzleFields,
+  puzzleRowToPortable,
+  toIpuz,
+  toPuz,
+} from '../utils/puzzleFormats'
+import { rot13 } from '../utils/answerChecker'
+import { checkGridIntegrity } from '../utils/gridIntegrityChecker'
+import { calculateLetterCount } from '../utils/stateHelpers'
+
+// 3x3 with a centre block:
+//  C A T
+//  A # O
+//  B E E
+const row = {
+  title: 'Tiny',
+  grid: 'N W N\nW B W\nN W W',
+  clues: JSON.stringify({
+    across: [
+      { number: 1, clue: 'Pet (3)' },
+      { number: 3, clue: 'Insect (3)' },
+    ],
+    down: [
+      { number: 1, clue: 'Taxi (3)' },
+      { number: 2, clue: 'Also (3)' },
+    ],
+  }),
+  answers_encrypted: JSON.stringify({
+    across: [
+      { number: 1, answer: rot13('CAT') },
+      { number: 3, answer: rot13('BEE') },
+    ],
+    down: [
+      { number: 1, answer: rot13('CAB') },
+      { number: 2, answer: rot13('TOE') },
+    ],
+  }),
+}
+
+describe('puzzleFormats', () => {
+  it('numberGrid marks only light starts as N', () => {
+    const grid = numberGrid([
+      [false, false, false],
+      [false, true, false],
+      [false, false, false],
+    ])
+    expect(grid.map((r) => r.join(' ')).join('\n')).toBe('N W N\nW B W\nN W W')
+  })
+
+  it('round-trips through ipuz', () => {
+    const portable = puzzleRowToPortable(row)
+    const ipuz = toIpuz(portable) as any
+
+    expect(ipuz.puzzle).toEqual([
+      [1, 0, 2],
+      [0, '#', 0],
+      [3, 0, 0],
+    ])
+    expect(ipuz.solution[2]).toEqual(['B', 'E', 'E'])
+    expect(ipuz.clues.Across[0]).toEqual({ number: 1, clue: 'Pet (3)', enumeration: '3' })
+
+    const back = fromIpuz(JSON.stringify(ipuz))
+    expect(back.grid).toEqual(portable.grid)
+    expect(back.answers?.down).toEqual([
+      { number: 1, answer: 'CAB' },
+      { number: 2, answer: 'TOE' },
+    ])
+    expect(back.clues.across[1]).toEqual({ number: 3, clue: 'Insect (3)' })
+  })
+
+  it('reads ipuz array clues and appends enumerations', () => {
+    const parsed = fromIpuz({
+      kind: ['http://ipuz.org/crossword#1'],
+      title: 'Arrays',
+      dimensions: { width: 2, height: 1 },
+      puzzle: [[1, 0]],
+      clues: { 'Across:Across': [{ number: 1, clue: 'Say', enumeration: '2' }], Down: [] },
+    })
+    expect(parsed.answers).toBeNull()
+    expect(parsed.clues.across).toEqual([{ number: 1, clue: 'Say (2)' }])
+  })
+
+  it('rejects non-crossword ipuz', () => {
+    expect(() => fromIpuz({ kind: ['http://ipuz.org/sudoku#1'], puzzle: [[0]] })).toThrow(
+      'ipuz file is not a crossword',
+    )
+  })
+
+  it('round-trips through .puz with valid header', () => {
+    const portable = puzzleRowToPortable(row)
+    const bytes = toPuz(portable)
+
+    expect(isPuzFile(bytes)).toBe(true)
+    expect(bytes[0x2c]).toBe(3)
+    expect(bytes[0x2d]).toBe(3)
+    // Solution section directly follows the header
+    expect(String.fromCharCode(...bytes.subarray(0x34, 0x34 + 9))).toBe('CATA.OBEE')
+
+    const back = fromPuz(bytes)
+    expect(back.title).toBe('Tiny')
+    expect(back.grid).toEqual(portable.grid)
+    expect(back.clues).toEqual(portable.clues)
+    expect(back.answers?.across).toEqual([
+      { number: 1, answer: 'CAT' },
+      { number: 3, answer: 'BEE' },
+    ])
+  })
+
+  it('refuses .puz export without a full solution', () => {
+    const portable = puzzleRowToPortable({ ...row, answers_encrypted: null })
+    expect(() => toPuz(portable)).toThrow('.puz export requires a complete solution')
+  })
+
+  it('produces fields that pass grid integrity checks', () => {
+    const fields = portableToPuzzleFields(fromPuz(toPuz(puzzleRowToPortable(row))))
+    const grid = fields.grid.split('\n').map((r) => r.split(' ') as any)
+
+    expect(checkGridIntegrity(grid, fields.answersEncrypted!).isValid).toBe(true)
+    expect(calculateLetterCount(fields.grid)).toBe(8)
+    expect(rot13(fields.answersEncrypted!.across[0]!.answer)).toBe('CAT')
+  })
+  it('carries rebus cells through ipuz and integrity checks', () => {
+    // 1 across is HEART-S-S across the top row, the first cell holding HEART
+    const ipuz = {
+      kind: ['http://ipuz.org/crossword#1'],
+      title: 'Rebus',
+      dimensions: { width: 3, height: 1 },
+      puzzle: [[1, 0, 0]],
+      solution: [['heart', 'S', 'S']],
+      clues: { Across: [[1, 'Loves (7)']] },
+    }
+
+    const portable = fromIpuz(ipuz)
+    expect(portable.rebus).toEqual({ '0-0': 5 })
+    expect(portable.answers?.across).toEqual([{ number: 1, answer: 'HEARTSS' }])
+
+    const fields = portableToPuzzleFields(portable)
+    const grid = fields.grid.split('\n').map((r) => r.split(' ') as any)
+    expect(checkGridIntegrity(grid, fields.answersEncrypted!).isValid).toBe(false)
+    expect(checkGridIntegrity(grid, fields.answersEncrypted!, fields.rebusCells).isValid).toBe(true)
+
+    const exported = toIpuz(
+      puzzleRowToPortable({
+        title: fields.title,
+        grid: fields.grid,
+        clues: fields.clues,
+        answers_encrypted: JSON.stringify(fields.answersEncrypted),
+        rebus_cells: JSON.stringify(fields.rebusCells),
+      }),
+    ) as any
+    expect(exported.solution).toEqual([['HEART', 'S', 'S']])
+  })
+
+  it('carries bars through ipuz and refuses them in .puz', () => {
+    // A left bar on the R is the same edge as a right bar on the O
+    const ipuz = {
+      kind: ['http://ipuz.org/crossword#1'],
+      title: 'Barred',
+      dimensions: { width: 3, height: 3 },
+      puzzle: [
+        [1, 2, 3],
+        [0, { cell: 4, style: { barred: 'L' } }, 0],
+        [5, 0, 0],
+      ],
+      solution: [
+        ['C', 'A', 'T'],
+        ['O', 'R', 'E'],
+        ['S', 'E', 'A'],
+      ],
+      clues: { Across: [], Down: [] },
+    }
+
+    const portable = fromIpuz(ipuz)
+    expect(portable.grid.map((r) => r.join(' ')).join('\n')).toBe('N N N\nW| N W\nN W W')
+    expect(portable.answers?.across).toEqual([
+      { number: 1, answer: 'CAT' },
+      { number: 4, answer: 'RE' },
+      { number: 5, answer: 'SEA' },
+    ])
+
+    const exported = toIpuz(portable) as any
+    expect(exported.puzzle[1]).toEqual([{ cell: 0, style: { barred: 'R' } }, 4, 0])
+    expect(fromIpuz(exported).grid).toEqual(portable.grid)
+
+    expect(() => toPuz(portable)).toThrow('.puz has no way to store bars')
+  })
+
+  it('reads and writes linked answers as ipuz continued clues', () => {
+    const ipuz = {
+      kind: ['http://ipuz.org/crossword#1'],
+      title: 'Linked',
+      dimensions: { width: 3, height: 3 },
+      puzzle: [
+        [1, 0, 0],
+        ['#', '#', '#'],
+        [2, 0, 0],
+      ],
+      solution: [
+        ['T', 'O', 'M'],
+        ['#', '#', '#'],
+        ['C', 'A', 'T'],
+      ],
+      clues: {
+        Across: [
+          { number: 1, clue: 'Male feline', continued: [{ number: '2', direction: 'Across' }] },
+          [2, 'See 1'],
+        ],
+        Down: [],
+      },
+    }
+
+    const portable = fromIpuz(ipuz)
+    expect(portable.clues.across[0]!.continued).toEqual([{ number: 2, direction: 'across' }])
+    // The whole answer is filed under the clued light
+    expect(portable.answers?.across).toEqual([{ number: 1, answer: 'TOMCAT' }])
+
+    const exported = toIpuz(portable) as any
+    expect(exported.clues.Across[0].continued).toEqual([{ number: 2, direction: 'Across' }])
+    expect(exported.solution[2]).toEqual(['C', 'A', 'T'])
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
 import db from '../db-knex'
 import { PuzzleService } from '../services/puzzleService'
+import { SessionService } from '../services/sessionService'
 
 describe('PuzzleService', () => {
   beforeEach(async () => {
@@ -12,6 +13,7 @@ describe('PuzzleService', () => {
   })
 
   afterEach(async () => {
+    await SessionService.flushSaves()
     await db.migrate.rollback()
   })
 
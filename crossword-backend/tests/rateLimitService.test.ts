@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { Hono } from 'hono'
+import db from '../db-knex'
+import { RATE_LIMITS } from '../config'
+import { RateLimitService } from '../services/rateLimitService'
+import { rateLimitSubject } from '../hono-middleware/rateLimit'
+import type { AuthUser } from '../hono-middleware/auth'
+
+describe('RateLimitService', () => {
+  const original = { ...RATE_LIMITS.explain }
+  const start = Date.parse('2026-10-19T12:00:00Z')
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('rate_limit_buckets').del()
+    // Two at once, then one every 30 minutes
+    Object.assign(RATE_LIMITS.explain, { capacity: 2, perHour: 2 })
+  })
+
+  afterEach(async () => {
+    Object.assign(RATE_LIMITS.explain, original)
+    await db.migrate.rollback()
+  })
+
+  it('should allow a burst up to capacity, then refuse with a wait', async () => {
+    expect(await RateLimitService.consume('explain', 'user:1', start)).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    })
+    await RateLimitService.consume('explain', 'user:1', start)
+
+    const refused = await RateLimitService.consume('explain', 'user:1', start + 60_000)
+    expect(refused.allowed).toBe(false)
+    expect(refused.retryAfterSeconds).toBe(29 * 60)
+  })
+
+  it('should refill over time and keep callers separate', async () => {
+    await RateLimitService.consume('explain', 'user:1', start)
+    await RateLimitService.consume('explain', 'user:1', start)
+
+    expect((await RateLimitService.consume('explain', 'anon:guest', start)).allowed).toBe(true)
+    expect((await RateLimitService.consume('explain', 'user:1', start + 30 * 60_000)).allowed).toBe(
+      true,
+    )
+  })
+
+  it('should report drawn-down buckets and drop refilled ones', async () => {
+    await RateLimitService.consume('explain', 'user:1', start)
+    await RateLimitService.consume('explain', 'user:1', start)
+    await RateLimitService.consume('explain', 'user:2', start - 60 * 60_000)
+
+    const usage = await RateLimitService.getUsage(start)
+    expect(usage.map((u) => [u.subject, u.tokens])).toEqual([['user:1', 0]])
+    expect(await db('rate_limit_buckets').count({ n: '*' }).first()).toMatchObject({ n: 1 })
+
+    expect(await RateLimitService.reset('explain', 'user:1')).toBe(true)
+    expect(await RateLimitService.getUsage(start)).toEqual([])
+  })
+})
+
+describe('rateLimitSubject', () => {
+  // Stands in for the app's auth middleware: a user id header logs the caller in
+  const app = new Hono<{ Variables: { user: AuthUser | null } }>().get('/', (c) => {
+    const userId = c.req.header('x-test-user')
+    if (userId) c.set('user', { id: Number(userId), username: 'alice' })
+    return c.text(rateLimitSubject(c))
+  })
+  const subject = async (headers: Record<string, string>) =>
+    (await app.request('/', { headers })).text()
+
+  it('should charge users to their account', async () => {
+    expect(await subject({ 'X-Test-User': '7', 'X-Real-IP': '10.0.0.1' })).toBe('user:7')
+  })
+
+  it('should charge guests to their address whatever anonymous id they send', async () => {
+    expect(await subject({ 'X-Anonymous-Id': 'guest-1', 'X-Real-IP': '10.0.0.1' })).toBe(
+      'ip:10.0.0.1',
+    )
+    expect(await subject({ 'X-Anonymous-Id': 'guest-2', 'X-Real-IP': '10.0.0.1' })).toBe(
+      'ip:10.0.0.1',
+    )
+    // Only the hop added by the proxy counts, not what the client claimed
+    expect(await subject({ 'X-Forwarded-For': '1.2.3.4, 10.0.0.2' })).toBe('ip:10.0.0.2')
+  })
+})
@@ -26,6 +26,7 @@ describe('Session Reconciliation', () => {
   })
 
   afterEach(async () => {
+    await SessionService.flushSaves()
     await db.migrate.rollback()
   })
 
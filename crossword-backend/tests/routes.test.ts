@@ -3,6 +3,14 @@ import { testClient } from 'hono/testing'
 import app from '../hono-app'
 import db from '../db-knex'
 import { AuthService } from '../services/authService'
+import { SSEService } from '../services/sseService'
+import { SessionService } from '../services/sessionService'
+import { FriendshipService } from '../services/friendshipService'
+import { ExplanationGenerator } from '../services/explanationGenerator'
+import { createMockExplanationProvider } from '../utils/explanationProviders'
+import jwt from 'jsonwebtoken'
+import { JWT_SECRET, RATE_LIMITS } from '../config'
+import { sealAnswers } from '../utils/answerVault'
 
 // Type the test client
 const client = testClient(app)
@@ -126,6 +134,48 @@ describe('Auth Routes', () => {
   })
 })
 
+describe('Autofill Routes', () => {
+  const adminToken = jwt.sign({ id: 1, username: 'admin', isAdmin: true }, JWT_SECRET)
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzles').del()
+  })
+
+  afterEach(async () => {
+    await db.migrate.rollback()
+  })
+
+  it('should fill a grid from answers in the puzzle corpus', async () => {
+    await db('puzzles').insert({
+      title: 'Corpus',
+      grid: 'N W W',
+      clues: JSON.stringify({ across: [], down: [] }),
+      answers_encrypted: sealAnswers({ across: [{ number: 1, answer: 'Png' }], down: [] }),
+    })
+
+    const res = await app.request('/api/admin/autofill', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+      body: JSON.stringify({ grid: 'N W W', letters: ['C  '] }),
+    })
+    expect(res.status).toBe(200)
+    const data = (await res.json()) as any
+    expect(data.success).toBe(true)
+    expect(data.letters).toEqual(['CAT'])
+    expect(data.answers.across).toEqual([{ number: 1, answer: 'PNG' }])
+  })
+
+  it('should reject malformed grids', async () => {
+    const res = await app.request('/api/admin/autofill', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+      body: JSON.stringify({ grid: 'N W\nN X' }),
+    })
+    expect(res.status).toBe(400)
+  })
+})
+
 describe('Puzzle Routes', () => {
   beforeEach(async () => {
     await db.migrate.latest()
@@ -143,6 +193,7 @@ describe('Puzzle Routes', () => {
   })
 
   afterEach(async () => {
+    await SessionService.flushSaves()
     await db.migrate.rollback()
   })
 
@@ -174,6 +225,109 @@ describe('Puzzle Routes', () => {
   })
 })
 
+describe('Puzzle Import/Export Routes', () => {
+  const adminToken = jwt.sign({ id: 1, username: 'admin', isAdmin: true }, JWT_SECRET)
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Tiny',
+      grid: 'N W N\nW B W\nN W W',
+      clues: JSON.stringify({
+        across: [
+          { number: 1, clue: 'Pet (3)' },
+          { number: 3, clue: 'Insect (3)' },
+        ],
+        down: [
+          { number: 1, clue: 'Taxi (3)' },
+          { number: 2, clue: 'Digit (3)' },
+        ],
+      }),
+      // ROT13 of CAT, BEE, CAB, TOE
+      answers_encrypted: JSON.stringify({
+        across: [
+          { number: 1, answer: 'PNG' },
+          { number: 3, answer: 'ORR' },
+        ],
+        down: [
+          { number: 1, answer: 'PNO' },
+          { number: 2, answer: 'GBR' },
+        ],
+      }),
+    })
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  it('should export ipuz with the solution for admins', async () => {
+    const res = await app.request('/api/puzzles/1/export?format=ipuz', {
+      headers: { Authorization: `Bearer ${adminToken}` },
+    })
+
+    expect(res.status).toBe(200)
+    const data = (await res.json()) as any
+    expect(data.title).toBe('Tiny')
+    expect(data.solution[0]).toEqual(['C', 'A', 'T'])
+  })
+
+  it('should leave the solution out of public exports', async () => {
+    const res = await app.request('/api/puzzles/1/export?format=ipuz')
+
+    expect(res.status).toBe(200)
+    const data = (await res.json()) as any
+    expect(data.solution).toBeUndefined()
+  })
+
+  it('should not export .puz, which carries the solution, for non-admins', async () => {
+    const res = await app.request('/api/puzzles/1/export?format=puz')
+    expect(res.status).toBe(403)
+  })
+
+  it('should return 400 for unknown export format', async () => {
+    const res = await app.request('/api/puzzles/1/export?format=pdf')
+    expect(res.status).toBe(400)
+  })
+
+  it('should require admin to import', async () => {
+    const res = await app.request('/api/puzzles/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data: 'AAAA' }),
+    })
+    expect(res.status).toBe(401)
+  })
+
+  it('should import an exported .puz file as a new puzzle', async () => {
+    const exportRes = await app.request('/api/puzzles/1/export?format=puz', {
+      headers: { Authorization: `Bearer ${adminToken}` },
+    })
+    expect(exportRes.status).toBe(200)
+    const bytes = Buffer.from(await exportRes.arrayBuffer())
+
+    const res = await app.request('/api/puzzles/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+      body: JSON.stringify({ data: bytes.toString('base64'), filename: 'tiny.puz', title: 'Copy' }),
+    })
+
+    expect(res.status).toBe(200)
+    const data = (await res.json()) as any
+    expect(data.integrity.isValid).toBe(true)
+
+    const row = await db('puzzles').where({ id: data.puzzle.id }).first()
+    expect(row.title).toBe('Copy')
+    expect(row.grid).toBe('N W N\nW B W\nN W W')
+    expect(row.letter_count).toBe(8)
+  })
+})
+
 describe('Clue Routes', () => {
   beforeEach(async () => {
     await db.migrate.latest()
@@ -216,6 +370,164 @@ describe('Clue Routes', () => {
   })
 })
 
+describe('Rate Limit Routes', () => {
+  const adminToken = jwt.sign({ id: 1, username: 'admin', isAdmin: true }, JWT_SECRET)
+  const original = { ...RATE_LIMITS.clueTranscription }
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('rate_limit_buckets').del()
+    Object.assign(RATE_LIMITS.clueTranscription, { capacity: 1, perHour: 1 })
+  })
+
+  afterEach(async () => {
+    Object.assign(RATE_LIMITS.clueTranscription, original)
+    await db.migrate.rollback()
+  })
+
+  const transcribe = () =>
+    app.request('/api/clues/from-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+      body: JSON.stringify({}),
+    })
+
+  it('should answer 429 with Retry-After once the budget is spent', async () => {
+    expect((await transcribe()).status).toBe(400)
+
+    const res = await transcribe()
+    expect(res.status).toBe(429)
+    expect(Number(res.headers.get('Retry-After'))).toBeGreaterThan(3500)
+  })
+
+  it('should show admins who is drawing on each budget', async () => {
+    await transcribe()
+
+    const res = await app.request('/api/admin/rate-limits', {
+      headers: { Authorization: `Bearer ${adminToken}` },
+    })
+    const data = (await res.json()) as any
+    expect(data.budgets.clueTranscription).toEqual({ capacity: 1, perHour: 1 })
+    expect(data.usage).toEqual([
+      expect.objectContaining({ bucket: 'clueTranscription', subject: 'user:1', capacity: 1 }),
+    ])
+
+    const reset = await app.request('/api/admin/rate-limits/clueTranscription/user:1', {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${adminToken}` },
+    })
+    expect(reset.status).toBe(200)
+    expect((await transcribe()).status).toBe(400)
+  })
+})
+
+describe('Model Usage Routes', () => {
+  const adminToken = jwt.sign({ id: 1, username: 'admin', isAdmin: true }, JWT_SECRET)
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('model_calls').del()
+  })
+
+  afterEach(async () => {
+    await db.migrate.rollback()
+  })
+
+  it('should total recorded model spend for admins', async () => {
+    await db('model_calls').insert({
+      provider: 'openrouter',
+      model: 'deepseek/deepseek-v4-flash',
+      purpose: 'chat',
+      input_tokens: 10,
+      output_tokens: 5,
+      cost_usd: 0.25,
+    })
+
+    const res = await app.request('/api/admin/model-usage?days=7', {
+      headers: { Authorization: `Bearer ${adminToken}` },
+    })
+    expect(res.status).toBe(200)
+    const data = (await res.json()) as any
+    expect(data.days).toBe(7)
+    expect(data.totals).toMatchObject({ calls: 1, costUsd: 0.25 })
+    expect(data.byPurpose).toEqual([expect.objectContaining({ purpose: 'chat' })])
+  })
+
+  it('should reject non-admins and out-of-range windows', async () => {
+    const userToken = jwt.sign({ id: 2, username: 'user', isAdmin: false }, JWT_SECRET)
+    const forbidden = await app.request('/api/admin/model-usage', {
+      headers: { Authorization: `Bearer ${userToken}` },
+    })
+    expect(forbidden.status).toBe(403)
+
+    const invalid = await app.request('/api/admin/model-usage?days=0', {
+      headers: { Authorization: `Bearer ${adminToken}` },
+    })
+    expect(invalid.status).toBe(400)
+  })
+})
+
+describe('Parsewords Routes', () => {
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('parsewords_puzzles').del()
+    await db('puzzles').del()
+
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Parsewords Puzzle',
+      grid: 'N W W W W W W',
+      clues: JSON.stringify({ across: [], down: [] }),
+    })
+    await db('parsewords_puzzles').insert({
+      id: 1,
+      puzzle_id: 1,
+      clue_number: 1,
+      direction: 'across',
+      puzzle_json: JSON.stringify({
+        label: 'TROUNCE',
+        clue: 'Beat counter, frustrated (7)',
+        answer: 'TROUNCE',
+        analysis: { correct_path_steps: ['counter, frustrated -> TROUNCE'] },
+        tokens: [{ id: 't1', text: 'Beat', role: 'definition' }],
+        triggers: [],
+      }),
+    })
+  })
+
+  afterEach(async () => {
+    await db.migrate.rollback()
+  })
+
+  const check = (guess: unknown, id = 1) =>
+    app.request(`/api/parsewords/${id}/check`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ guess }),
+    })
+
+  it('should leave the answer out of puzzles sent to players', async () => {
+    for (const path of ['/api/parsewords', '/api/parsewords/puzzle/1']) {
+      const [entry] = (await (await app.request(path)).json()) as any[]
+      expect(entry.puzzle.label).toBe('TROUNCE')
+      expect(entry.puzzle).not.toHaveProperty('answer')
+      expect(entry.puzzle).not.toHaveProperty('displayAnswer')
+      expect(entry.puzzle).not.toHaveProperty('analysis')
+    }
+  })
+
+  it('should only reveal the answer to a correct guess', async () => {
+    expect(await (await check('RECOUNT')).json()).toEqual({ correct: false })
+    expect(await (await check('trounce')).json()).toEqual({
+      correct: true,
+      answer: 'TROUNCE',
+      displayAnswer: 'TROUNCE',
+    })
+    expect((await check(undefined)).status).toBe(400)
+    expect((await check('TROUNCE', 99)).status).toBe(404)
+  })
+})
+
 describe('Session Routes', () => {
   beforeEach(async () => {
     await db.migrate.latest()
@@ -233,6 +545,7 @@ describe('Session Routes', () => {
   })
 
   afterEach(async () => {
+    await SessionService.flushSaves()
     await db.migrate.rollback()
   })
 
@@ -320,3 +633,1331 @@ describe('Session Routes', () => {
     })
   })
 })
+
+describe('Rebus Routes', () => {
+  let counter = 0
+  let sessionId: string
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+
+    // STARDOM across three cells: [STAR] D [OM]
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Rebus Puzzle',
+      grid: 'N W W',
+      clues: JSON.stringify({ across: [{ number: 1, clue: 'Fame (7)' }], down: [] }),
+      answers_encrypted: JSON.stringify({ across: [{ number: 1, answer: 'FGNEQBZ' }], down: [] }),
+      rebus_cells: JSON.stringify({ '0-0': 4, '0-2': 2 }),
+    })
+    sessionId = `rebus-session-${++counter}`
+    await db('puzzle_sessions').insert({
+      session_id: sessionId,
+      puzzle_id: 1,
+      state: JSON.stringify(['   ']),
+    })
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  const post = (path: string, body: object) =>
+    app.request(`/api/sessions/${sessionId}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+  it('should reveal every letter of a rebus cell', async () => {
+    const res = await post('hint', { type: 'letter', target: { r: 0, c: 2 } })
+    expect(((await res.json()) as any).value).toBe('OM')
+
+    await post('hint', { type: 'word', target: { number: 1, direction: 'across' } })
+    expect(await SessionService.getSessionState(sessionId)).toEqual(['[STAR]D[OM]'])
+  })
+
+  it('should check words made of multi-letter cells', async () => {
+    await post('cells', {
+      updates: [
+        { r: 0, c: 0, value: 'STAR' },
+        { r: 0, c: 1, value: 'D' },
+      ],
+    })
+    const partial = (await (await post('check', {})).json()) as any
+    expect(partial).toMatchObject({ incorrectCount: 0, errorCells: [] })
+
+    await post('cell', { r: 0, c: 2, value: 'OM' })
+    const full = (await (await post('check', {})).json()) as any
+    expect(full).toMatchObject({ incorrectCount: 0, errorCells: [] })
+
+    await post('cell', { r: 0, c: 2, value: 'O' })
+    const wrong = (await (await post('check', {})).json()) as any
+    expect(wrong.incorrectCount).toBe(1)
+  })
+})
+
+describe('Linked Clue Routes', () => {
+  let counter = 0
+  let sessionId: string
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+
+    // TOMCAT split across 1 and 2 across
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Linked Puzzle',
+      grid: 'N W W\nB B B\nN W W',
+      clues: JSON.stringify({
+        across: [
+          { number: 1, clue: 'Male feline (3,3)', continued: [{ number: 2, direction: 'across' }] },
+          { number: 2, clue: 'See 1' },
+        ],
+        down: [],
+      }),
+      answers_encrypted: JSON.stringify({ across: [{ number: 1, answer: 'GBZPNG' }], down: [] }),
+    })
+    sessionId = `linked-session-${++counter}`
+    await db('puzzle_sessions').insert({
+      session_id: sessionId,
+      puzzle_id: 1,
+      state: JSON.stringify(['   ', '   ', '   ']),
+    })
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  const post = (path: string, body: object) =>
+    app.request(`/api/sessions/${sessionId}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+  it('should reveal and check a linked answer from either light', async () => {
+    await post('hint', { type: 'word', target: { number: 2, direction: 'across' } })
+    expect(await SessionService.getSessionState(sessionId)).toEqual(['TOM', '   ', 'CAT'])
+
+    const check = (await (await post('check', {})).json()) as any
+    expect(check).toMatchObject({ incorrectCount: 0, totalChecked: 1, isComplete: true })
+
+    await post('cell', { r: 2, c: 2, value: 'X' })
+    const word = (await (await post('check-word', { number: 2, direction: 'across' })).json()) as any
+    expect(word.isCorrect).toBe(false)
+  })
+
+  it('should count a letter hint index along the whole linked answer', async () => {
+    const res = await post('hint', {
+      type: 'letter',
+      target: { number: 1, direction: 'across', index: 4 },
+      dryRun: true,
+    })
+    expect(((await res.json()) as any).value).toBe('A')
+  })
+
+  it('should claim a linked answer once, under its clued light', async () => {
+    const first = (await (
+      await post('claim', { clueKey: '2-across', username: 'alice' })
+    ).json()) as any
+    expect(first.claimed).toBe(true)
+
+    const second = (await (
+      await post('claim', { clueKey: '1-across', username: 'bob' })
+    ).json()) as any
+    expect(second.claimed).toBe(false)
+
+    const row = await db('puzzle_sessions').where({ session_id: sessionId }).first()
+    expect(Object.keys(JSON.parse(row.attributions))).toEqual(['1-across'])
+  })
+})
+
+describe('Answer Checking Routes', () => {
+  let counter = 0
+  let sessionId: string
+  const adminToken = jwt.sign({ id: 1, username: 'admin', isAdmin: true }, JWT_SECRET)
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Sealed',
+      grid: 'N W W',
+      clues: JSON.stringify({ across: [{ number: 1, clue: 'Pet (3)' }], down: [] }),
+      answers_encrypted: sealAnswers({ across: [{ number: 1, answer: 'PNG' }], down: [] }),
+    })
+    sessionId = `check-word-session-${++counter}`
+    await db('puzzle_sessions').insert({
+      session_id: sessionId,
+      puzzle_id: 1,
+      state: JSON.stringify(['CA ']),
+    })
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  const checkWord = async (extra: object = {}) => {
+    const res = await app.request(`/api/sessions/${sessionId}/check-word`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ number: 1, direction: 'across', ...extra }),
+    })
+    expect(res.status).toBe(200)
+    return (await res.json()) as any
+  }
+
+  it('should not send the answer key with a session', async () => {
+    const res = await app.request(`/api/sessions/${sessionId}`)
+    const data = (await res.json()) as any
+
+    expect(data.sessionState).toEqual(['CA '])
+    expect(JSON.stringify(data)).not.toContain('answers')
+  })
+
+  it('should only show puzzle answers to admins', async () => {
+    const publicData = (await (await app.request('/api/puzzles/1')).json()) as any
+    expect(publicData.answers).toBeUndefined()
+    expect(publicData.answers_encrypted).toBeUndefined()
+
+    const adminRes = await app.request('/api/puzzles/1', {
+      headers: { Authorization: `Bearer ${adminToken}` },
+    })
+    const adminData = (await adminRes.json()) as any
+    expect(adminData.answers.across[0].answer).toBe('PNG')
+  })
+
+  it('should confirm a finished word without revealing it', async () => {
+    expect(await checkWord()).toEqual({ success: true, isCorrect: null, puzzleComplete: false })
+
+    await post('cell', { r: 0, c: 2, value: 'B' })
+    const wrong = await checkWord()
+    expect(wrong).toEqual({ success: true, isCorrect: false, puzzleComplete: false })
+
+    await post('cell', { r: 0, c: 2, value: 'T' })
+    const right = await checkWord()
+    expect(right).toEqual({ success: true, isCorrect: true, puzzleComplete: true })
+  })
+
+  it('should only check the letters in the grid', async () => {
+    // Letters sent along with the check would let anyone test guesses
+    const guess = await checkWord({ cells: ['C', 'A', 'T'] })
+    expect(guess).toEqual({ success: true, isCorrect: null, puzzleComplete: false })
+    expect(await SessionService.getSessionState(sessionId)).toEqual(['CA '])
+  })
+
+  const post = (path: string, body: object, method = 'POST') =>
+    app.request(`/api/sessions/${sessionId}/${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+  const sessionMarks = async () =>
+    ((await (await app.request(`/api/sessions/${sessionId}`)).json()) as any).cellMarks
+
+  it('should check a letter or a word and keep the marks until the cell changes', async () => {
+    const letter = (await (await post('check', { scope: 'letter', target: { r: 0, c: 1 } })).json()) as any
+    expect(letter).toMatchObject({ scope: 'letter', errorCells: [], marks: { '0-1': 'checked' } })
+
+    await post('cell', { r: 0, c: 1, value: 'O' })
+    const word = (await (
+      await post('check', { scope: 'word', target: { number: 1, direction: 'across' } })
+    ).json()) as any
+    expect(word).toMatchObject({
+      incorrectCount: 1,
+      errorCells: ['0-1'],
+      totalChecked: 2,
+      marks: { '0-0': 'checked', '0-1': 'incorrect' },
+    })
+    expect(await sessionMarks()).toEqual({ '0-0': 'checked', '0-1': 'incorrect' })
+
+    // Fixing the letter lapses its mark
+    await post('cell', { r: 0, c: 1, value: 'A' })
+    expect(await sessionMarks()).toEqual({ '0-0': 'checked' })
+  })
+
+  it('should not call a grid complete while its letters are pencilled', async () => {
+    await post('cells', {
+      updates: [
+        { r: 0, c: 0, value: 'C', tentative: true },
+        { r: 0, c: 1, value: 'A', tentative: true },
+        { r: 0, c: 2, value: 'T', tentative: true },
+      ],
+    })
+
+    const pencilled = (await (await post('check', { scope: 'grid' })).json()) as any
+    expect(pencilled).toMatchObject({ incorrectCount: 0, isComplete: false, tentativeSkipped: 1 })
+
+    await post('cells', {
+      updates: [
+        { r: 0, c: 0, value: 'C' },
+        { r: 0, c: 1, value: 'A' },
+        { r: 0, c: 2, value: 'T' },
+      ],
+    })
+    const inked = (await (await post('check', { scope: 'grid' })).json()) as any
+    expect(inked).toMatchObject({ incorrectCount: 0, isComplete: true, tentativeSkipped: 0 })
+  })
+
+  it('should reveal the wrong and empty cells of the grid', async () => {
+    const res = await post('hint', { type: 'grid' })
+    expect(res.status).toBe(200)
+    const data = (await res.json()) as any
+    expect(data.cells).toEqual([{ r: 0, c: 2, value: 'T', version: 1 }])
+
+    expect(await SessionService.getSessionState(sessionId)).toEqual(['CAT'])
+    expect(await sessionMarks()).toEqual({ '0-2': 'revealed' })
+    const row = await db('puzzle_sessions').where({ session_id: sessionId }).first()
+    expect(row.letters_revealed).toBe(1)
+  })
+
+  it('should autocheck letters for everyone once the setting is on', async () => {
+    await post('cell', { r: 0, c: 1, value: 'O' })
+    expect(await sessionMarks()).toEqual({})
+
+    const on = await post('settings', { autocheck: true }, 'PUT')
+    expect(on.status).toBe(200)
+    // The wrong letter already in the grid is marked straight away
+    expect(await sessionMarks()).toEqual({ '0-1': 'incorrect' })
+
+    await post('cell', { r: 0, c: 2, value: 'X' })
+    await post('cell', { r: 0, c: 1, value: 'A' })
+    const session = (await (await app.request(`/api/sessions/${sessionId}`)).json()) as any
+    expect(session.autocheck).toBe(true)
+    expect(session.cellMarks).toEqual({ '0-2': 'incorrect' })
+  })
+
+  it('should reject unknown check scopes and settings', async () => {
+    expect((await post('check', { scope: 'sideways' })).status).toBe(400)
+    expect((await post('check', { scope: 'letter', target: { r: 0 } })).status).toBe(400)
+    expect((await post('settings', { autocheck: 'yes' }, 'PUT')).status).toBe(400)
+  })
+
+  it('should reject a malformed word check', async () => {
+    const res = await app.request(`/api/sessions/${sessionId}/check-word`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ number: 1, direction: 'sideways' }),
+    })
+    expect(res.status).toBe(400)
+  })
+})
+
+describe('Explanation Routes', () => {
+  const userToken = jwt.sign({ id: 1, username: 'alice' }, JWT_SECRET)
+  const adminToken = jwt.sign({ id: 1, username: 'admin', isAdmin: true }, JWT_SECRET)
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+    await db('clue_explanations').del()
+
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Explained',
+      grid: 'N W W',
+      clues: JSON.stringify({ across: [{ number: 1, clue: 'Pet, one purring (3)' }], down: [] }),
+      answers_encrypted: sealAnswers({ across: [{ number: 1, answer: 'PNG' }], down: [] }),
+    })
+    await db('puzzle_sessions').insert({
+      session_id: 'explain-session',
+      puzzle_id: 1,
+      state: JSON.stringify(['   ']),
+    })
+
+    // The first provider is down, so every request exercises the fallback
+    ExplanationGenerator.use([
+      createMockExplanationProvider({ name: 'down', fail: 'error' }),
+      createMockExplanationProvider(),
+    ])
+  })
+
+  afterEach(async () => {
+    ExplanationGenerator.use(null)
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  // Explanations are generated after the response is sent
+  const eventually = async <T>(check: () => Promise<T | undefined>): Promise<T> => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const result = await check()
+      if (result) return result
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+    throw new Error('Timed out waiting for background work')
+  }
+
+  const explain = () =>
+    app.request('/api/sessions/explain-session/explain', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${userToken}` },
+      body: JSON.stringify({ clueNumber: 1, direction: 'across' }),
+    })
+
+  it('should generate, store and then serve a cached explanation', async () => {
+    const first = await explain()
+    expect(first.status).toBe(202)
+
+    const row = await eventually(() =>
+      db('clue_explanations').where({ puzzle_id: 1, clue_number: 1, direction: 'across' }).first(),
+    )
+    expect(row.answer).toBe('CAT')
+    expect(JSON.parse(row.explanation_json)).toMatchObject({
+      clue_type: 'cryptic_definition',
+      clue_segmentation: [
+        { text: 'Pet', role: 'definition' },
+        { text: 'one', role: 'definition' },
+        { text: 'purring', role: 'definition' },
+      ],
+    })
+
+    const second = await explain()
+    expect(second.status).toBe(200)
+    const data = (await second.json()) as any
+    expect(data.cached).toBe(true)
+    expect(data.explanation.full_explanation).toContain('CAT')
+  })
+
+  it('should regenerate an explanation with admin feedback', async () => {
+    const res = await app.request('/api/admin/explanations/regenerate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+      body: JSON.stringify({ clue: 'Pet (3)', answer: 'CAT', feedback: 'Too vague' }),
+    })
+    expect(res.status).toBe(202)
+    const { requestId } = (await res.json()) as any
+
+    const status = await eventually(async () => {
+      const poll = await app.request(`/api/admin/explanations/regenerate/${requestId}`, {
+        headers: { Authorization: `Bearer ${adminToken}` },
+      })
+      const data = (await poll.json()) as any
+      return data.status === 'pending' ? undefined : data
+    })
+    expect(status.status).toBe('success')
+    expect(status.explanation.explanation.full_explanation).toContain('Revised for: Too vague')
+  })
+
+  it('should report an error when every provider fails', async () => {
+    ExplanationGenerator.use([createMockExplanationProvider({ fail: 'invalid' })])
+
+    const res = await app.request('/api/admin/explanations/regenerate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+      body: JSON.stringify({ clue: 'Pet (3)', answer: 'CAT' }),
+    })
+    const { requestId } = (await res.json()) as any
+
+    const status = await eventually(async () => {
+      const poll = await app.request(`/api/admin/explanations/regenerate/${requestId}`, {
+        headers: { Authorization: `Bearer ${adminToken}` },
+      })
+      const data = (await poll.json()) as any
+      return data.status === 'pending' ? undefined : data
+    })
+    expect(status.status).toBe('error')
+    expect(status.error).toContain('All explanation providers failed')
+  })
+
+  it('should record admin saves as revisions and restore an earlier one', async () => {
+    const admin = { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` }
+    const save = (fullExplanation: string, source?: string) =>
+      app.request('/api/admin/explanations/save', {
+        method: 'POST',
+        headers: admin,
+        body: JSON.stringify({
+          puzzleId: 1,
+          clueNumber: 1,
+          direction: 'across',
+          clueText: 'Pet, one purring (3)',
+          answer: 'CAT',
+          explanation: { clue_type: 'cryptic_definition', full_explanation: fullExplanation },
+          source,
+        }),
+      })
+
+    expect((await save('First take', 'regeneration')).status).toBe(200)
+    expect((await save('Hand edit')).status).toBe(200)
+
+    const listed = await app.request('/api/admin/explanations/revisions/1/1/across', {
+      headers: admin,
+    })
+    const revisions = (await listed.json()) as any[]
+    expect(revisions.map((r) => [r.source, r.explanation.full_explanation, r.authorId])).toEqual([
+      ['admin_edit', 'Hand edit', 1],
+      ['regeneration', 'First take', 1],
+    ])
+
+    const restored = await app.request(
+      `/api/admin/explanations/revisions/${revisions[1].id}/restore`,
+      { method: 'POST', headers: admin },
+    )
+    expect(restored.status).toBe(200)
+
+    const current = await explain()
+    expect(((await current.json()) as any).explanation.full_explanation).toBe('First take')
+
+    const missing = await app.request('/api/admin/explanations/revisions/999/restore', {
+      method: 'POST',
+      headers: admin,
+    })
+    expect(missing.status).toBe(404)
+  })
+
+  it('should climb the hint ladder one level at a time', async () => {
+    const ladder = (method = 'GET') =>
+      method === 'GET'
+        ? app.request('/api/sessions/explain-session/hint-ladder?clueNumber=1&direction=across')
+        : app.request('/api/sessions/explain-session/hint-ladder', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ clueNumber: 1, direction: 'across' }),
+          })
+
+    // The ladder is built from a cached explanation
+    expect((await ladder()).status).toBe(404)
+
+    await db('clue_explanations').insert({
+      puzzle_id: 1,
+      clue_number: 1,
+      direction: 'across',
+      clue_text: 'Pet, one purring (3)',
+      answer: 'CAT',
+      explanation_json: JSON.stringify({
+        clue_type: 'double_definition',
+        clue_segmentation: [
+          { text: 'Pet', role: 'definition' },
+          { text: 'one purring', role: 'definition' },
+        ],
+        definitions: [
+          { definition: 'Pet', sense: 'animal' },
+          { definition: 'one purring', sense: 'what purrs' },
+        ],
+        hint: { definition_count: 2 },
+        full_explanation: 'Two definitions of CAT.',
+      }),
+    })
+
+    const start = (await (await ladder()).json()) as any
+    expect(start).toEqual({ levels: [], total: 3, next: 'definition_location' })
+
+    await ladder('POST')
+    const second = (await (await ladder('POST')).json()) as any
+    expect(second.levels.map((r: any) => r.kind)).toEqual(['definition_location', 'definition'])
+    expect(second.next).toBe('answer')
+
+    const last = (await (await ladder('POST')).json()) as any
+    expect(last.levels[2].text).toBe('The answer is CAT.')
+    expect(last.next).toBeNull()
+
+    // Climbing past the top reveals nothing more
+    expect(((await (await ladder('POST')).json()) as any).levels).toHaveLength(3)
+
+    const recorded = await db('session_hint_levels')
+      .where({ session_id: 'explain-session' })
+      .orderBy('level')
+      .pluck('kind')
+    expect(recorded).toEqual(['definition_location', 'definition', 'answer'])
+    const session = await db('puzzle_sessions').where({ session_id: 'explain-session' }).first()
+    expect(session.words_revealed).toBe(1)
+  })
+
+  it('should only let admins save explanations', async () => {
+    const res = await app.request('/api/admin/explanations/save', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${userToken}` },
+      body: JSON.stringify({ puzzleId: 1, clueNumber: 1, direction: 'across', explanation: {} }),
+    })
+    expect(res.status).toBe(403)
+  })
+})
+
+describe('Session Stats Routes', () => {
+  const token = jwt.sign({ id: 1, username: 'alice' }, JWT_SECRET)
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+    await db('users').del()
+
+    await db('users').insert({ id: 1, username: 'alice', password_hash: 'hash' })
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Stats Puzzle',
+      grid: 'N W W',
+      clues: JSON.stringify({ across: [{ number: 1, clue: 'Pet (3)' }], down: [] }),
+      answers_encrypted: JSON.stringify({ across: [{ number: 1, answer: 'PNG' }], down: [] }),
+    })
+    await db('puzzle_sessions').insert({
+      session_id: 'stats-session',
+      puzzle_id: 1,
+      user_id: 1,
+      state: JSON.stringify(['   ']),
+    })
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  it('should persist solve time through the timer endpoints', async () => {
+    const put = await app.request('/api/sessions/stats-session/timer', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ seconds: 95 }),
+    })
+    expect(put.status).toBe(200)
+
+    const res = await app.request('/api/sessions/stats-session/timer')
+    expect(((await res.json()) as any).seconds).toBe(95)
+  })
+
+  it('should reject invalid timer payloads and unknown sessions', async () => {
+    const bad = await app.request('/api/sessions/stats-session/timer', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ seconds: -1 }),
+    })
+    expect(bad.status).toBe(400)
+
+    const missing = await app.request('/api/sessions/nope/timer')
+    expect(missing.status).toBe(404)
+  })
+
+  it('should record dry-run hints by clue position and checks', async () => {
+    const hint = await app.request('/api/sessions/stats-session/hint', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({
+        type: 'letter',
+        target: { number: 1, direction: 'across', index: 2 },
+        dryRun: true,
+      }),
+    })
+    expect(hint.status).toBe(200)
+    expect(((await hint.json()) as any).value).toBe('T')
+
+    const check = await app.request('/api/sessions/stats-session/check', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    expect(check.status).toBe(200)
+
+    const row = await db('puzzle_sessions').where({ session_id: 'stats-session' }).first()
+    expect(row.letters_revealed).toBe(1)
+    expect(row.check_count).toBe(1)
+  })
+
+  it('should leave words with pencilled letters unchecked', async () => {
+    const post = (path: string, body: object) =>
+      app.request(`/api/sessions/stats-session/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(body),
+      })
+
+    await post('cells', {
+      updates: [
+        { r: 0, c: 0, value: 'D' },
+        { r: 0, c: 1, value: 'O' },
+        { r: 0, c: 2, value: 'G', tentative: true },
+      ],
+    })
+
+    const pencilled = (await (await post('check', {})).json()) as any
+    expect(pencilled).toMatchObject({ incorrectCount: 0, errorCells: [], tentativeSkipped: 1 })
+
+    await post('cell', { r: 0, c: 2, value: 'G' })
+    const inked = (await (await post('check', {})).json()) as any
+    expect(inked).toMatchObject({ incorrectCount: 1, tentativeSkipped: 0 })
+  })
+
+  it('should require auth for /api/me/stats', async () => {
+    const res = await app.request('/api/me/stats')
+    expect(res.status).toBe(401)
+  })
+
+  it('should return stats for the current user', async () => {
+    await db('puzzle_sessions').where({ session_id: 'stats-session' }).update({
+      solve_seconds: 240,
+      is_complete: true,
+      completed_at: new Date().toISOString(),
+    })
+
+    const res = await app.request('/api/me/stats', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+
+    expect(res.status).toBe(200)
+    const data = (await res.json()) as any
+    expect(data.puzzlesCompleted).toBe(1)
+    expect(data.averageSolveSeconds).toBe(240)
+    expect(data.currentStreak).toBe(1)
+  })
+})
+
+describe('Session Edit History Routes', () => {
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Undo Puzzle',
+      grid: 'N W W',
+      clues: JSON.stringify({ across: [], down: [] }),
+    })
+    await db('puzzle_sessions').insert({
+      session_id: 'undo-session',
+      puzzle_id: 1,
+      state: JSON.stringify(['   ']),
+    })
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  const post = (path: string, body: object) =>
+    app.request(`/api/sessions/undo-session/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+  it('should list edits without the guest ids behind them', async () => {
+    await db('puzzle_sessions').insert({
+      session_id: 'edits-session',
+      puzzle_id: 1,
+      state: JSON.stringify(['   ']),
+    })
+    await app.request('/api/sessions/edits-session/cell', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Anonymous-Id': 'guest-1' },
+      body: JSON.stringify({ r: 0, c: 1, value: 'X' }),
+    })
+
+    const res = await app.request('/api/sessions/edits-session/edits', {
+      headers: { 'X-Anonymous-Id': 'guest-2' },
+    })
+    expect(res.status).toBe(200)
+    const edits = (await res.json()) as any[]
+    expect(edits).toEqual([expect.objectContaining({ new_value: 'X', editor: expect.any(String) })])
+    expect(JSON.stringify(edits)).not.toContain('guest-1')
+  })
+
+  it('should undo and redo a guest edit', async () => {
+    await post('cell', { r: 0, c: 1, value: 'X', anonymousId: 'guest-1' })
+
+    const undo = await post('undo', { anonymousId: 'guest-1' })
+    expect(undo.status).toBe(200)
+    expect(((await undo.json()) as any).cells).toEqual([
+      { r: 0, c: 1, value: ' ', tentative: false },
+    ])
+
+    const redo = await post('redo', { anonymousId: 'guest-1' })
+    expect(((await redo.json()) as any).cells).toEqual([
+      { r: 0, c: 1, value: 'X', tentative: false },
+    ])
+  })
+
+  it('should credit edits to the guest in the header, not the body', async () => {
+    await db('puzzle_sessions').insert({
+      session_id: 'header-session',
+      puzzle_id: 1,
+      state: JSON.stringify(['   ']),
+    })
+    const guestPost = (path: string, anonymousId: string, body: object = {}) =>
+      app.request(`/api/sessions/header-session/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Anonymous-Id': anonymousId },
+        body: JSON.stringify(body),
+      })
+
+    await guestPost('cell', 'guest-1', { r: 0, c: 1, value: 'X', anonymousId: 'guest-2' })
+
+    const spoofed = await guestPost('undo', 'guest-2')
+    expect(((await spoofed.json()) as any).done).toBe(false)
+    const undo = await guestPost('undo', 'guest-1')
+    expect(((await undo.json()) as any).done).toBe(true)
+  })
+
+  it('should undo letters saved as a full grid', async () => {
+    // A session of its own, so letters cached by the tests above don't interfere
+    await db('puzzle_sessions').insert({
+      session_id: 'undo-grid-session',
+      puzzle_id: 1,
+      state: JSON.stringify(['   ']),
+    })
+    const put = await app.request('/api/sessions/undo-grid-session', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'X-Anonymous-Id': 'guest-1' },
+      body: JSON.stringify({ state: ['AB '] }),
+    })
+    expect(put.status).toBe(200)
+
+    const undo = await app.request('/api/sessions/undo-grid-session/undo', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ anonymousId: 'guest-1' }),
+    })
+    expect(((await undo.json()) as any).cells).toEqual([
+      { r: 0, c: 0, value: ' ', tentative: false },
+      { r: 0, c: 1, value: ' ', tentative: false },
+    ])
+  })
+
+  it('should report nothing to undo for another collaborator', async () => {
+    await post('cell', { r: 0, c: 1, value: 'X', anonymousId: 'guest-1' })
+
+    const res = await post('undo', { anonymousId: 'guest-2' })
+    const data = (await res.json()) as any
+    expect(data.done).toBe(false)
+    expect(data.cells).toEqual([])
+  })
+
+  it('should require an editor identity', async () => {
+    const res = await post('undo', {})
+    expect(res.status).toBe(400)
+  })
+})
+
+describe('Session Merge Routes', () => {
+  // Fresh id per test so cached state from an earlier test never leaks in
+  let sessionId: string
+  let counter = 0
+
+  beforeEach(async () => {
+    sessionId = `merge-session-${++counter}`
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Merge Puzzle',
+      grid: 'N W W',
+      clues: JSON.stringify({ across: [], down: [] }),
+    })
+    await db('puzzle_sessions').insert({
+      session_id: sessionId,
+      puzzle_id: 1,
+      state: JSON.stringify(['   ']),
+    })
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  const send = (method: string, path: string, body: object) =>
+    app.request(`/api/sessions/${sessionId}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+  it('should return the new version of a written cell', async () => {
+    const res = await send('POST', '/cell', { r: 0, c: 1, value: 'X' })
+    expect(((await res.json()) as any).version).toBe(1)
+  })
+
+  it('should apply fresh offline edits and reject stale ones', async () => {
+    await send('POST', '/cell', { r: 0, c: 0, value: 'P' })
+
+    const res = await send('POST', '/merge', {
+      updates: [
+        { r: 0, c: 0, value: 'X', baseVersion: 0 },
+        { r: 0, c: 2, value: 'Y', baseVersion: 0 },
+      ],
+      anonymousId: 'guest-1',
+    })
+
+    expect(res.status).toBe(200)
+    const data = (await res.json()) as any
+    expect(data.applied).toEqual([{ r: 0, c: 2, value: 'Y', version: 1, tentative: false }])
+    expect(data.rejected).toEqual([{ r: 0, c: 0, value: 'P', version: 1 }])
+  })
+
+  it('should validate merge updates', async () => {
+    const res = await send('POST', '/merge', { updates: [{ r: 0, c: 0, value: 'X' }] })
+    expect(res.status).toBe(400)
+  })
+
+  it('should not let a stale full-grid save overwrite newer letters', async () => {
+    await send('POST', '/cell', { r: 0, c: 1, value: 'Q' })
+
+    const res = await send('PUT', '', { state: ['A  '] })
+    const data = (await res.json()) as any
+    expect(data.applied).toEqual([{ r: 0, c: 0, value: 'A', version: 1, tentative: false }])
+    expect(data.rejected).toEqual([{ r: 0, c: 1, value: 'Q', version: 1 }])
+  })
+
+  it('should require a state array when saving a full grid', async () => {
+    const res = await send('PUT', '', {})
+    expect(res.status).toBe(400)
+  })
+})
+
+describe('Session Presence Routes', () => {
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Presence Puzzle',
+      grid: 'W W',
+      clues: JSON.stringify({ across: [], down: [] }),
+    })
+    await db('puzzle_sessions').insert({
+      session_id: 'presence-session',
+      puzzle_id: 1,
+      state: JSON.stringify(['  ']),
+    })
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  const post = (query: string, body: object, anonymousId = 'guest-1') =>
+    app.request(`/api/sessions/presence-session/presence${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Anonymous-Id': anonymousId },
+      body: JSON.stringify(body),
+    })
+
+  it('should require a known connection', async () => {
+    expect((await post('', {})).status).toBe(400)
+    expect((await post('?socketId=sse-missing', {})).status).toBe(404)
+  })
+
+  it('should store a sanitised cursor for the connection', async () => {
+    const clientId = SSEService.addClient(
+      'presence-session',
+      { write() {} },
+      { userId: null, username: 'guest' },
+      { userId: null, anonymousId: 'guest-1' },
+    )
+
+    const res = await post(`?socketId=${clientId}`, {
+      cursor: { r: 2, c: 3, direction: 'across' },
+      clue: { number: 'x', direction: 'across' },
+    })
+    expect(res.status).toBe(200)
+
+    const [presence] = SSEService.getPresence('presence-session')
+    expect(presence?.cursor).toEqual({ r: 2, c: 3, direction: 'across' })
+    expect(presence?.clue).toBeNull()
+
+    SSEService.removeClient(clientId)
+  })
+
+  it("should not move someone else's cursor", async () => {
+    const clientId = SSEService.addClient(
+      'presence-session',
+      { write() {} },
+      { userId: null, username: 'guest' },
+      { userId: null, anonymousId: 'guest-1' },
+    )
+
+    const cursor = { r: 0, c: 1, direction: 'down' }
+    expect((await post(`?socketId=${clientId}`, { cursor }, 'guest-2')).status).toBe(403)
+    expect(SSEService.getPresence('presence-session')[0]?.cursor).toBeNull()
+
+    SSEService.removeClient(clientId)
+  })
+})
+
+describe('Session Chat Routes', () => {
+  const token = jwt.sign({ id: 1, username: 'alice' }, JWT_SECRET)
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('session_messages').del()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+    await db('users').del()
+
+    await db('users').insert({ id: 1, username: 'alice', password_hash: 'hash' })
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Chat Puzzle',
+      grid: 'N W W',
+      clues: JSON.stringify({ across: [], down: [] }),
+    })
+    await db('puzzle_sessions').insert({
+      session_id: 'chat-session',
+      puzzle_id: 1,
+      state: JSON.stringify(['   ']),
+    })
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  const post = (sessionId: string, body: object, headers: Record<string, string> = {}) =>
+    app.request(`/api/sessions/${sessionId}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    })
+
+  it('should store messages and list them oldest first', async () => {
+    const first = await post(
+      'chat-session',
+      { body: 'Try 14 across' },
+      { Authorization: `Bearer ${token}` },
+    )
+    expect(first.status).toBe(201)
+    expect(await first.json()).toMatchObject({ userId: 1, username: 'alice', body: 'Try 14 across' })
+
+    await post(
+      'chat-session',
+      { body: '  got it  ', username: 'Bob' },
+      { 'X-Anonymous-Id': 'guest-1' },
+    )
+
+    const res = await app.request('/api/sessions/chat-session/messages')
+    const messages = (await res.json()) as any[]
+    expect(messages.map((m) => [m.username, m.body])).toEqual([
+      ['alice', 'Try 14 across'],
+      ['Bob', 'got it'],
+    ])
+
+    const older = await app.request(`/api/sessions/chat-session/messages?before=${messages[1].id}`)
+    expect(((await older.json()) as any[]).map((m) => m.body)).toEqual(['Try 14 across'])
+  })
+
+  it('should take a guest author from the header, not the body', async () => {
+    const res = await post(
+      'chat-session',
+      { body: 'hi', username: 'Bob', anonymousId: 'guest-2' },
+      { 'X-Anonymous-Id': 'guest-1' },
+    )
+    expect(res.status).toBe(201)
+
+    const row = await db('session_messages').where({ id: ((await res.json()) as any).id }).first()
+    expect(row.anonymous_id).toBe('guest-1')
+  })
+
+  it('should broadcast new messages to other connections', async () => {
+    const received: string[] = []
+    const listener = SSEService.addClient('chat-session', { write: (data) => received.push(data) })
+
+    await post('chat-session', { body: 'hello', username: 'Bob' })
+
+    expect(received.some((data) => data.startsWith('event: chat_message'))).toBe(true)
+    SSEService.removeClient(listener)
+  })
+
+  it('should reject empty messages and unknown sessions', async () => {
+    expect((await post('chat-session', { body: '   ' })).status).toBe(400)
+    expect((await post('chat-session', { body: 'x'.repeat(1001) })).status).toBe(400)
+    expect((await post('missing-session', { body: 'hello' })).status).toBe(404)
+  })
+})
+
+describe('Session Access Routes', () => {
+  const ownerToken = jwt.sign({ id: 1, username: 'owner' }, JWT_SECRET)
+  const friendToken = jwt.sign({ id: 2, username: 'friend' }, JWT_SECRET)
+  const strangerToken = jwt.sign({ id: 3, username: 'stranger' }, JWT_SECRET)
+
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+    await db('friendships').del()
+    await db('users').del()
+
+    for (const [id, username] of [[1, 'owner'], [2, 'friend'], [3, 'stranger']] as const) {
+      await db('users').insert({ id, username, password_hash: 'hash' })
+    }
+    await FriendshipService.createFriendship(1, 2)
+    await db('puzzles').insert({
+      id: 1,
+      title: 'Private Puzzle',
+      grid: 'W W',
+      clues: JSON.stringify({ across: [], down: [] }),
+    })
+    await db('puzzle_sessions').insert({
+      session_id: 'access-session',
+      puzzle_id: 1,
+      user_id: 1,
+      state: JSON.stringify(['  ']),
+    })
+  })
+
+  afterEach(async () => {
+    await SessionService.flushSaves()
+    await db.migrate.rollback()
+  })
+
+  const request = (
+    path: string,
+    options: { method?: string; body?: object; token?: string; anonymousId?: string } = {},
+  ) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (options.token) headers.Authorization = `Bearer ${options.token}`
+    if (options.anonymousId) headers['X-Anonymous-Id'] = options.anonymousId
+    return app.request(`/api/sessions/access-session${path}`, {
+      method: options.method || 'GET',
+      headers,
+      body: options.body ? JSON.stringify(options.body) : undefined,
+    })
+  }
+
+  const createInvite = async (role: string) => {
+    const res = await request('/invites', { method: 'POST', body: { role }, token: ownerToken })
+    expect(res.status).toBe(201)
+    return (await res.json()) as any
+  }
+
+  const writeCell = (options: { token?: string; anonymousId?: string }) =>
+    request('/cell', { method: 'POST', body: { r: 0, c: 0, value: 'A' }, ...options })
+
+  it('should let anyone with the link watch, and friends edit, by default', async () => {
+    const res = await request('', { anonymousId: 'guest-1' })
+    expect(await res.json()).toMatchObject({ role: 'spectator', accessMode: 'link' })
+    expect((await writeCell({ anonymousId: 'guest-1' })).status).toBe(403)
+    expect((await writeCell({ token: strangerToken })).status).toBe(403)
+    expect((await writeCell({ token: friendToken })).status).toBe(200)
+
+    const owner = await request('', { token: ownerToken })
+    expect(await owner.json()).toMatchObject({ role: 'owner' })
+  })
+
+  it('should give link-mode invitees the role of their invite', async () => {
+    const editorInvite = await createInvite('editor')
+    await request('/join', {
+      method: 'POST',
+      body: { token: editorInvite.token },
+      anonymousId: 'guest-1',
+    })
+    expect((await writeCell({ anonymousId: 'guest-1' })).status).toBe(200)
+
+    const spectatorInvite = await createInvite('spectator')
+    const joined = await request('/join', {
+      method: 'POST',
+      body: { token: spectatorInvite.token },
+      token: strangerToken,
+    })
+    expect(await joined.json()).toMatchObject({ role: 'spectator' })
+    expect((await writeCell({ token: strangerToken })).status).toBe(403)
+  })
+
+  it('should shut out link-mode invitees once their link is revoked', async () => {
+    const invite = await createInvite('editor')
+    await request('/join', { method: 'POST', body: { token: invite.token }, anonymousId: 'guest-1' })
+    await request(`/invites/${invite.id}`, { method: 'DELETE', token: ownerToken })
+
+    expect((await request('', { anonymousId: 'guest-1' })).status).toBe(403)
+    expect((await writeCell({ anonymousId: 'guest-1' })).status).toBe(403)
+    // Someone who never joined through it can still watch
+    expect(await (await request('', { anonymousId: 'guest-2' })).json()).toMatchObject({
+      role: 'spectator',
+    })
+  })
+
+  it('should let anyone edit a session without an owner', async () => {
+    await db('puzzle_sessions').insert({
+      session_id: 'ownerless-session',
+      puzzle_id: 1,
+      state: JSON.stringify(['  ']),
+    })
+    const res = await app.request('/api/sessions/ownerless-session', {
+      headers: { 'X-Anonymous-Id': 'guest-1' },
+    })
+    expect(await res.json()).toMatchObject({ role: 'editor' })
+  })
+
+  it('should only let the owner manage invites and access', async () => {
+    expect((await request('/invites', { token: friendToken })).status).toBe(403)
+    expect(
+      (await request('/access', { method: 'PUT', body: { mode: 'friends' }, token: friendToken }))
+        .status,
+    ).toBe(403)
+    expect(
+      (await request('/invites', { method: 'POST', body: { role: 'owner' }, token: ownerToken }))
+        .status,
+    ).toBe(400)
+
+    await createInvite('editor')
+    await createInvite('spectator')
+    const list = await request('/invites', { token: ownerToken })
+    expect(((await list.json()) as any[]).map((i) => i.role)).toEqual(['spectator', 'editor'])
+  })
+
+  it('should keep friends-only sessions to friends and invitees', async () => {
+    await request('/access', { method: 'PUT', body: { mode: 'friends' }, token: ownerToken })
+
+    expect((await request('', { token: strangerToken })).status).toBe(403)
+    expect((await request('/events', { anonymousId: 'guest-1' })).status).toBe(403)
+    const presence = await request('/presence?socketId=sse-any', {
+      method: 'POST',
+      body: {},
+      token: strangerToken,
+    })
+    expect(presence.status).toBe(403)
+    expect((await writeCell({ token: friendToken })).status).toBe(200)
+
+    const invite = await createInvite('editor')
+    const joined = await request('/join', {
+      method: 'POST',
+      body: { token: invite.token },
+      token: strangerToken,
+    })
+    expect(await joined.json()).toMatchObject({ role: 'editor' })
+    expect((await writeCell({ token: strangerToken })).status).toBe(200)
+  })
+
+  it('should make spectators read-only', async () => {
+    await request('/access', { method: 'PUT', body: { mode: 'friends' }, token: ownerToken })
+    const invite = await createInvite('spectator')
+    await request('/join', { method: 'POST', body: { token: invite.token }, anonymousId: 'guest-1' })
+
+    const res = await request('', { anonymousId: 'guest-1' })
+    expect(await res.json()).toMatchObject({ role: 'spectator' })
+    expect((await request('/messages', { anonymousId: 'guest-1' })).status).toBe(200)
+    expect((await writeCell({ anonymousId: 'guest-1' })).status).toBe(403)
+    expect(
+      (await request('/check', { method: 'POST', anonymousId: 'guest-1' })).status,
+    ).toBe(403)
+    expect((await request('/edits', { anonymousId: 'guest-1' })).status).toBe(403)
+  })
+
+  it('should cut off everyone who joined with a revoked link', async () => {
+    await request('/access', { method: 'PUT', body: { mode: 'friends' }, token: ownerToken })
+    const invite = await createInvite('spectator')
+    await request('/join', { method: 'POST', body: { token: invite.token }, anonymousId: 'guest-1' })
+
+    const frames: string[] = []
+    let closed = false
+    const clientId = SSEService.addClient(
+      'access-session',
+      { write: (data) => frames.push(data), close: () => (closed = true) },
+      { userId: null, username: 'Guest' },
+      { userId: null, anonymousId: 'guest-1' },
+    )
+
+    const res = await request(`/invites/${invite.id}`, { method: 'DELETE', token: ownerToken })
+    expect(res.status).toBe(200)
+
+    expect(frames.some((f) => f.startsWith('event: access_revoked'))).toBe(true)
+    expect(closed).toBe(true)
+    expect(SSEService.getPresence('access-session')).toEqual([])
+    expect((await request('', { anonymousId: 'guest-1' })).status).toBe(403)
+
+    const rejoin = await request('/join', {
+      method: 'POST',
+      body: { token: invite.token },
+      anonymousId: 'guest-1',
+    })
+    expect(rejoin.status).toBe(404)
+    SSEService.removeClient(clientId)
+  })
+})
+
+describe('Friend Routes', () => {
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('friendships').del()
+    await db('users').del()
+  })
+
+  afterEach(async () => {
+    await db.migrate.rollback()
+  })
+
+  const registerUser = async (username: string) => {
+    const res = await app.request('/api/auth/register', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password: 'password' }),
+    })
+    return (await res.json()) as any
+  }
+
+  it('should return 401 without token', async () => {
+    const res = await app.request('/api/friends')
+    expect(res.status).toBe(401)
+  })
+
+  it('should send and accept a friend request', async () => {
+    const alice = await registerUser('alice')
+    const bob = await registerUser('bob')
+
+    const sendRes = await app.request('/api/friends/requests', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${alice.token}` },
+      body: JSON.stringify({ username: 'bob' }),
+    })
+    expect(sendRes.status).toBe(200)
+
+    const duplicateRes = await app.request('/api/friends/requests', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${alice.token}` },
+      body: JSON.stringify({ username: 'bob' }),
+    })
+    expect(duplicateRes.status).toBe(409)
+
+    const acceptRes = await app.request(`/api/friends/requests/${alice.user.id}/accept`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${bob.token}` },
+    })
+    expect(acceptRes.status).toBe(200)
+
+    const listRes = await app.request('/api/friends', {
+      headers: { Authorization: `Bearer ${bob.token}` },
+    })
+    const list = (await listRes.json()) as any
+    expect(list.map((f: any) => f.username)).toEqual(['alice'])
+  })
+
+  it('should return 404 when sending to an unknown username', async () => {
+    const alice = await registerUser('alice')
+
+    const res = await app.request('/api/friends/requests', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${alice.token}` },
+      body: JSON.stringify({ username: 'nobody' }),
+    })
+    expect(res.status).toBe(404)
+  })
+
+  it('should return 400 for a malformed userId', async () => {
+    const alice = await registerUser('alice')
+
+    const res = await app.request('/api/friends/requests', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${alice.token}` },
+      body: JSON.stringify({ userId: 'bob' }),
+    })
+    expect(res.status).toBe(400)
+  })
+})
@@ -21,6 +21,7 @@ describe('SessionService', () => {
 
   afterEach(async () => {
     // In memory DB, but good practice to clean/rollback if persistent
+    await SessionService.flushSaves()
     await db.migrate.rollback()
   })
 
@@ -223,6 +224,172 @@ describe('SessionService', () => {
     expect(result.sessionState[0][2]).toBe('Y')
   })
 
+  describe('versioned cell merging', () => {
+    it('should bump a cell version on every write', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+
+      await SessionService.updateCell(sessionId, 0, 0, 'X')
+      await SessionService.updateCells(sessionId, [
+        { r: 0, c: 0, value: 'Y' },
+        { r: 1, c: 1, value: 'Z' },
+      ])
+
+      expect(await SessionService.getCellVersions(sessionId)).toEqual({ '0-0': 2, '1-1': 1 })
+    })
+
+    it('should apply writes made against the current version', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+      await SessionService.updateCell(sessionId, 0, 0, 'X')
+
+      const result = await SessionService.mergeCells(sessionId, [
+        { r: 0, c: 0, value: 'Q', baseVersion: 1 },
+        { r: 1, c: 0, value: 'R', baseVersion: 0 },
+      ])
+
+      expect(result?.rejected).toEqual([])
+      expect(result?.applied.map(({ r, c, version }) => ({ r, c, version }))).toEqual([
+        { r: 0, c: 0, version: 2 },
+        { r: 1, c: 0, version: 1 },
+      ])
+      expect(await SessionService.getSessionState(sessionId)).toEqual(['Q ', 'R '])
+    })
+
+    it("should reject stale writes and report the partner's letter", async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+      // A partner fills the cell after the offline client last saw it empty
+      await SessionService.updateCell(sessionId, 0, 0, 'P')
+
+      const result = await SessionService.mergeCells(sessionId, [
+        { r: 0, c: 0, value: 'X', baseVersion: 0 },
+      ])
+
+      expect(result).toEqual({ applied: [], rejected: [{ r: 0, c: 0, value: 'P', version: 1 }] })
+      expect((await SessionService.getSessionState(sessionId))?.[0]?.[0]).toBe('P')
+    })
+
+    it('should only write cells that differ when merging a whole grid', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+      await SessionService.updateCells(sessionId, [
+        { r: 0, c: 0, value: 'A' },
+        { r: 0, c: 1, value: 'P' },
+      ])
+
+      // Client saw A at version 1 but never saw the partner's P
+      const result = await SessionService.mergeState(sessionId, ['AX', 'B '], { '0-0': 1 })
+
+      expect(result?.applied.map(({ r, c, value }) => ({ r, c, value }))).toEqual([
+        { r: 1, c: 0, value: 'B' },
+      ])
+      expect(result?.rejected).toEqual([{ r: 0, c: 1, value: 'P', version: 1 }])
+      expect(await SessionService.getSessionState(sessionId)).toEqual(['AP', 'B '])
+    })
+
+    it('should persist versions with the session', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+      await SessionService.updateCell(sessionId, 1, 1, 'K')
+
+      await new Promise((resolve) => setTimeout(resolve, 1100))
+      const row = await db('puzzle_sessions').where({ session_id: sessionId }).first()
+      expect(JSON.parse(row.cell_versions)).toEqual({ '1-1': 1 })
+    })
+
+    it('should write pending saves straight away when flushed', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+      await SessionService.updateCell(sessionId, 0, 1, 'Q')
+
+      await SessionService.flushSaves()
+      const row = await db('puzzle_sessions').where({ session_id: sessionId }).first()
+      expect(JSON.parse(row.state)[0]).toBe(' Q')
+      expect(JSON.parse(row.cell_versions)).toEqual({ '0-1': 1 })
+    })
+  })
+
+  describe('tentative letters', () => {
+    it('should flag pencilled letters until they are inked or cleared', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+
+      const [change] = await SessionService.updateCell(sessionId, 0, 0, 'X', true)
+      expect(change?.tentative).toBe(true)
+      await SessionService.updateCells(sessionId, [{ r: 1, c: 1, value: 'Y', tentative: true }])
+      expect([...(await SessionService.getTentativeCells(sessionId))].sort()).toEqual([
+        '0-0',
+        '1-1',
+      ])
+
+      await SessionService.updateCell(sessionId, 0, 0, 'X')
+      await SessionService.updateCell(sessionId, 1, 1, ' ', true)
+      expect(await SessionService.getTentativeCells(sessionId)).toEqual(new Set())
+    })
+
+    it('should persist the flags and return them with the session', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+      await SessionService.updateCell(sessionId, 1, 0, 'P', true)
+
+      await new Promise((resolve) => setTimeout(resolve, 1100))
+      const row = await db('puzzle_sessions').where({ session_id: sessionId }).first()
+      expect(JSON.parse(row.tentative_cells)).toEqual(['1-0'])
+
+      const result = await SessionService.getSessionWithPuzzle(sessionId)
+      expect(result.tentativeCells).toEqual(['1-0'])
+    })
+
+    it('should not count pencilled letters towards completion', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+      await db('puzzles').where({ id: 1 }).update({ letter_count: 4 })
+      await SessionService.updateCells(sessionId, [
+        { r: 0, c: 0, value: 'A' },
+        { r: 0, c: 1, value: 'B' },
+        { r: 1, c: 0, value: 'C' },
+        { r: 1, c: 1, value: 'D', tentative: true },
+      ])
+
+      await new Promise((resolve) => setTimeout(resolve, 1100))
+      const row = await db('puzzle_sessions').where({ session_id: sessionId }).first()
+      expect(Boolean(row.is_complete)).toBe(false)
+    })
+  })
+
+  describe('rebus cells', () => {
+    it('should store several letters in one cell without shifting its neighbours', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+
+      await SessionService.updateCells(sessionId, [
+        { r: 0, c: 0, value: 'HEART' },
+        { r: 0, c: 1, value: 'S' },
+      ])
+      expect((await SessionService.getSessionState(sessionId))?.[0]).toBe('[HEART]S')
+
+      const [change] = await SessionService.updateCell(sessionId, 0, 0, 'H')
+      expect(change?.previous).toBe('HEART')
+      expect((await SessionService.getSessionState(sessionId))?.[0]).toBe('HS')
+    })
+
+    it('should keep multi-letter cells when migrating legacy string[][] state', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+      await db('puzzle_sessions')
+        .where({ session_id: sessionId })
+        .update({ state: JSON.stringify([['STAR', 'B'], ['', 'D']]) })
+
+      const result = await SessionService.getSessionWithPuzzle(sessionId)
+      expect(result.sessionState).toEqual(['[STAR]B', ' D'])
+    })
+
+    it('should count a rebus cell once towards completion', async () => {
+      const sessionId = await SessionService.createOrResetSession(null, 1)
+      await db('puzzles').where({ id: 1 }).update({ letter_count: 4 })
+      await SessionService.updateCells(sessionId, [
+        { r: 0, c: 0, value: 'ONE' },
+        { r: 0, c: 1, value: 'TWO' },
+        { r: 1, c: 0, value: 'C' },
+        { r: 1, c: 1, value: 'D' },
+      ])
+
+      await new Promise((resolve) => setTimeout(resolve, 1100))
+      const row = await db('puzzle_sessions').where({ session_id: sessionId }).first()
+      expect(Boolean(row.is_complete)).toBe(true)
+    })
+  })
+
   describe('session completion percentage', () => {
     it('should report 100% for a fully filled session', async () => {
       const userId = 100
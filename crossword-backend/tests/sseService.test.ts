@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach } from 'bun:test'
+import { SSEService } from '../services/sseService'
+
+// Collects raw SSE frames and parses them back into { event, data }
+function createWriter() {
+  const frames: string[] = []
+  return {
+    frames,
+    write(data: string) {
+      frames.push(data)
+    },
+    events() {
+      return frames.map((frame) => {
+        const [eventLine, dataLine] = frame.split('\n')
+        return {
+          event: eventLine!.replace('event: ', ''),
+          data: JSON.parse(dataLine!.replace('data: ', '')),
+        }
+      })
+    },
+  }
+}
+
+describe('SSEService presence', () => {
+  const added: string[] = []
+
+  afterEach(() => {
+    added.splice(0).forEach((id) => SSEService.removeClient(id))
+  })
+
+  const join = (sessionId: string, username: string, userId: number | null = null) => {
+    const writer = createWriter()
+    const id = SSEService.addClient(sessionId, writer, { userId, username })
+    added.push(id)
+    return { id, writer }
+  }
+
+  it('should announce joins to existing clients only', () => {
+    const alice = join('presence-a', 'alice', 1)
+    const bob = join('presence-a', 'bob')
+
+    expect(alice.writer.events()).toEqual([
+      {
+        event: 'presence_joined',
+        data: expect.objectContaining({ clientId: bob.id, username: 'bob', userId: null }),
+      },
+    ])
+    expect(bob.writer.frames).toHaveLength(0)
+  })
+
+  it('should list presence excluding the asker', () => {
+    const alice = join('presence-b', 'alice', 1)
+    join('presence-b', 'bob')
+    join('presence-other', 'carol')
+
+    const others = SSEService.getPresence('presence-b', alice.id)
+    expect(others.map((p) => p.username)).toEqual(['bob'])
+  })
+
+  it('should update cursor only for clients in the same session', () => {
+    const alice = join('presence-c', 'alice', 1)
+
+    const updated = SSEService.updatePresence('presence-c', alice.id, {
+      cursor: { r: 1, c: 2, direction: 'down' },
+      clue: { number: 3, direction: 'down' },
+    })
+    expect(updated?.cursor).toEqual({ r: 1, c: 2, direction: 'down' })
+    expect(SSEService.updatePresence('presence-x', alice.id, { cursor: null, clue: null })).toBe(
+      null,
+    )
+  })
+
+  it('should announce leaves to the remaining clients', () => {
+    const alice = join('presence-d', 'alice', 1)
+    const bob = join('presence-d', 'bob')
+
+    SSEService.removeClient(bob.id)
+
+    const events = alice.writer.events()
+    expect(events[events.length - 1]).toEqual({
+      event: 'presence_left',
+      data: { clientId: bob.id, userId: null, username: 'bob' },
+    })
+  })
+})
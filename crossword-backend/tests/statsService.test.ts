@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import db from '../db-knex'
+import { StatsService, computeStreaks } from '../services/statsService'
+
+describe('computeStreaks', () => {
+  const now = new Date('2026-03-10T12:00:00Z')
+
+  it('should return zeros with no completions', () => {
+    expect(computeStreaks([], now)).toEqual({ current: 0, longest: 0 })
+  })
+
+  it('should count consecutive days once each', () => {
+    const dates = [
+      '2026-03-01T09:00:00Z',
+      '2026-03-02T09:00:00Z',
+      '2026-03-02T20:00:00Z',
+      '2026-03-03T09:00:00Z',
+      '2026-03-08T09:00:00Z',
+      '2026-03-09T09:00:00Z',
+    ]
+    expect(computeStreaks(dates, now)).toEqual({ current: 2, longest: 3 })
+  })
+
+  it('should break the current streak after a missed day', () => {
+    expect(computeStreaks(['2026-03-07T09:00:00Z'], now)).toEqual({ current: 0, longest: 1 })
+  })
+})
+
+describe('StatsService', () => {
+  beforeEach(async () => {
+    await db.migrate.latest()
+    await db('puzzle_sessions').del()
+    await db('puzzles').del()
+    await db('users').del()
+
+    await db('users').insert({ id: 1, username: 'alice', password_hash: 'hash' })
+    await db('puzzles').insert([
+      { id: 1, title: 'First', grid: 'N W', clues: '{}' },
+      { id: 2, title: 'Second', grid: 'N W', clues: '{}' },
+      { id: 3, title: 'Third', grid: 'N W', clues: '{}' },
+    ])
+    await db('puzzle_sessions').insert([
+      { session_id: 's1', puzzle_id: 1, user_id: 1, state: '[]' },
+      { session_id: 's2', puzzle_id: 2, user_id: 1, state: '[]' },
+      { session_id: 's3', puzzle_id: 3, user_id: 1, state: '[]' },
+    ])
+  })
+
+  afterEach(async () => {
+    await db.migrate.rollback()
+  })
+
+  it('should only move solve time forward', async () => {
+    expect(await StatsService.recordSolveTime('s1', 120)).toBe(120)
+    expect(await StatsService.recordSolveTime('s1', 90)).toBe(120)
+    expect(await StatsService.recordSolveTime('s1', 150.7)).toBe(150)
+    expect(await StatsService.recordSolveTime('missing', 10)).toBeNull()
+  })
+
+  it('should freeze solve time once the session is complete', async () => {
+    await StatsService.recordSolveTime('s1', 200)
+    await db('puzzle_sessions')
+      .where({ session_id: 's1' })
+      .update({ is_complete: true, completed_at: '2026-03-09T10:00:00Z' })
+
+    expect(await StatsService.recordSolveTime('s1', 500)).toBe(200)
+  })
+
+  it('should count hints and checks per session', async () => {
+    await StatsService.recordHint('s1', 'letter')
+    await StatsService.recordHint('s1', 'letter')
+    await StatsService.recordHint('s1', 'word')
+    await StatsService.recordCheck('s1')
+
+    const row = await db('puzzle_sessions').where({ session_id: 's1' }).first()
+    expect(row.letters_revealed).toBe(2)
+    expect(row.words_revealed).toBe(1)
+    expect(row.check_count).toBe(1)
+  })
+
+  it('should aggregate completed sessions into user stats', async () => {
+    await db('puzzle_sessions').where({ session_id: 's1' }).update({
+      solve_seconds: 600,
+      letters_revealed: 2,
+      check_count: 1,
+      is_complete: true,
+      completed_at: '2026-03-08T10:00:00Z',
+    })
+    await db('puzzle_sessions').where({ session_id: 's2' }).update({
+      solve_seconds: 300,
+      is_complete: true,
+      completed_at: '2026-03-09T10:00:00Z',
+    })
+    // In progress: counts toward hint totals but not solve times
+    await db('puzzle_sessions').where({ session_id: 's3' }).update({
+      solve_seconds: 50,
+      words_revealed: 1,
+    })
+
+    const stats = await StatsService.getUserStats(1, new Date('2026-03-10T08:00:00Z'))
+
+    expect(stats.sessionsStarted).toBe(3)
+    expect(stats.puzzlesCompleted).toBe(2)
+    expect(stats.averageSolveSeconds).toBe(450)
+    expect(stats.fastestSolveSeconds).toBe(300)
+    expect(stats.lettersRevealed).toBe(2)
+    expect(stats.wordsRevealed).toBe(1)
+    expect(stats.checkCount).toBe(1)
+    expect(stats.hintFreeSolves).toBe(1)
+    expect(stats.currentStreak).toBe(2)
+    expect(stats.longestStreak).toBe(2)
+    expect(stats.recentSolves.map((s) => s.title)).toEqual(['Second', 'First'])
+  })
+
+  it('should report empty stats for a new user', async () => {
+    const stats = await StatsService.getUserStats(99)
+    expect(stats.puzzlesCompleted).toBe(0)
+    expect(stats.averageSolveSeconds).toBeNull()
+    expect(stats.currentStreak).toBe(0)
+  })
+})
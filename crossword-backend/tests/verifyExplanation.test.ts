@@ -267,8 +267,10 @@ describe('verifyExplanation', () => {
       'Peer at medal, dangling from this? (3,4)',
       'Ear lobe',
     )
-    expect(result.verified).toBe(true)
     expect(result.finalAnswerPresent).toBe(true)
+    // PEER AT MEDAL has no O or B, so the anagram itself doesn't hold
+    expect(result.verified).toBe(false)
+    expect(result.steps[0]?.operation.status).toBe('fail')
   })
 
   test('reports correct step verification results', () => {
@@ -278,10 +280,50 @@ describe('verifyExplanation', () => {
       'Dwell',
     ) as ExplanationVerification
 
-    expect(result.steps[0]).toEqual({ stepIndex: 0, verified: true, detail: 'step matches' })
-    expect(result.steps[1]).toEqual({ stepIndex: 1, verified: true, detail: 'step matches' })
-    expect(result.steps[2]).toEqual({ stepIndex: 2, verified: true, detail: 'step matches' })
-    expect(result.steps[3]).toEqual({ stepIndex: 3, verified: true, detail: 'step matches' })
+    expect(result.steps[0]).toEqual({
+      stepIndex: 0,
+      verified: true,
+      detail: 'step matches',
+      operation: { operation: 'synonym', status: 'unchecked', detail: "synonym can't be checked letter by letter" },
+    })
+    expect(result.steps[1]).toEqual({
+      stepIndex: 1,
+      verified: true,
+      detail: 'step matches',
+      operation: { operation: 'reversal', status: 'pass', detail: 'reversal of "LEWD" gives DWEL' },
+    })
+    expect(result.steps[2]).toEqual({
+      stepIndex: 2,
+      verified: true,
+      detail: 'step matches',
+      operation: { operation: 'abbreviate', status: 'pass', detail: '"student" abbreviates to L' },
+    })
+    expect(result.steps[3]).toEqual({
+      stepIndex: 3,
+      verified: true,
+      detail: 'step matches',
+      operation: { operation: 'concatenate', status: 'pass', detail: 'concatenate of "DWEL L" gives DWELL' },
+    })
+  })
+
+  test('rejects a step whose result does not follow from its operation', () => {
+    const badAnagram = {
+      ...BLOOD_SPORTS_EXPLANATION,
+      wordplay_steps: [
+        {
+          ...BLOOD_SPORTS_EXPLANATION.wordplay_steps[0],
+          result: 'BLOOD SPORTY',
+          clue_after: "BLOOD SPORTY huntin', shootin' and fishin'?",
+        },
+      ],
+    }
+    const result = verifyExplanation(
+      badAnagram,
+      "Boss told pro about huntin', shootin' and fishin'? (5,6)",
+      'Blood sporty',
+    )
+    expect(result.verified).toBe(false)
+    expect(result.steps[0]?.detail).toBe('anagram: no part of "Boss told pro about" gives BLOODSPORTY')
   })
 
   test('handles legacy array token format gracefully', () => {
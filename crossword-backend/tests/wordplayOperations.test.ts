@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'bun:test'
+import { checkOperation, parseOperation } from '../utils/wordplayOperations'
+
+const check = (tokens: string, operation: string, result: string) =>
+  checkOperation({ tokens, operation, result })
+
+describe('checkOperation', () => {
+  it('should read free-text operations from older explanations', () => {
+    expect(parseOperation('reverse (indicator "having put up")')).toBe('reversal')
+    expect(parseOperation('insert E into ACTIC (container)')).toBe('container')
+    expect(parseOperation('concatenate (charade)')).toBe('concatenate')
+    expect(parseOperation('spoonerism')).toBeNull()
+  })
+
+  it('should check anagrams, including composite ones', () => {
+    expect(check('Boss told pro about', 'anagram', 'BLOOD SPORTS').status).toBe('pass')
+    expect(check('act badly', 'anagram', 'CAT').status).toBe('pass')
+    expect(check('badly act', 'anagram', 'COT').status).toBe('fail')
+    // CALUMNY is ANY COLUMN without NO
+    expect(check('No — may appear in any column edited', 'anagram', 'CALUMNY').detail).toBe(
+      'anagram of "any column - No" gives CALUMNY',
+    )
+  })
+
+  it('should check reversals, hidden words, trims and deletions', () => {
+    expect(check('having put up LEWD', 'reversal', 'DWEL').status).toBe('pass')
+    expect(check('having put up LEWD', 'reversal', 'LEWD').status).toBe('fail')
+
+    expect(check('some rapscallion', 'hidden', 'MERA').status).toBe('pass')
+    expect(check('sad log backed', 'hidden', 'GOLD').status).toBe('pass')
+    expect(check('some rapscallion', 'hidden', 'SOME').status).toBe('fail')
+
+    expect(check('endless YULE', 'trim', 'YUL').status).toBe('pass')
+    expect(check('endless YULE', 'trim', 'YL').status).toBe('fail')
+
+    expect(check('THREE losing H', 'delete', 'TREE').status).toBe('pass')
+    expect(check('THREE losing H', 'delete', 'TERSE').status).toBe('fail')
+  })
+
+  it('should check containers, initials and concatenation', () => {
+    expect(check('ACTIC found around E', 'container', 'ACETIC').detail).toBe(
+      'container of "E in ACTIC" gives ACETIC',
+    )
+    expect(check('ACTIC found around E', 'container', 'ACTICE').status).toBe('fail')
+
+    expect(check('initially big old xylophone', 'initials', 'BOX').status).toBe('pass')
+    expect(check('initially big old xylophone', 'initials', 'BOY').status).toBe('fail')
+
+    expect(check('DWEL L', 'concatenate', 'DWELL').status).toBe('pass')
+    expect(check('CAR and PET', 'concatenate', 'CARPET').status).toBe('pass')
+    expect(check('CAR and PET', 'concatenate', 'CARPED').status).toBe('fail')
+  })
+
+  it('should pass listed abbreviations and leave the rest unchecked', () => {
+    expect(check('student', 'abbreviate', 'L').status).toBe('pass')
+    expect(check('Old boy', 'abbreviate', 'OB').status).toBe('pass')
+    expect(check('student', 'abbreviate', 'X').status).toBe('unchecked')
+    expect(check('Christmas', 'synonym', 'YULE').status).toBe('unchecked')
+  })
+})
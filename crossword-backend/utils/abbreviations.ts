@@ -0,0 +1,205 @@
+/**
+ * Standard cryptic crossword abbreviations, keyed by the lowercase clue
+ * word or phrase. Used to check 'abbreviate' wordplay steps.
+ *
+ * The list is curated rather than exhaustive: a word missing from it, or an
+ * abbreviation missing from a word's entry, means the step can't be checked,
+ * not that it is wrong.
+ */
+export const ABBREVIATIONS: Record<string, string[]> = {
+  about: ['C', 'CA', 'RE'],
+  account: ['AC', 'ACC'],
+  ace: ['A', 'I'],
+  afternoon: ['PM'],
+  american: ['A', 'AM'],
+  and: ['N'],
+  answer: ['A', 'ANS'],
+  army: ['TA'],
+  artist: ['RA'],
+  bachelor: ['B', 'BA'],
+  bishop: ['B'],
+  black: ['B'],
+  book: ['B', 'VOL'],
+  born: ['B', 'NE'],
+  bowled: ['B'],
+  british: ['B', 'BR'],
+  castle: ['R'],
+  catholic: ['C', 'RC'],
+  caught: ['C', 'CT'],
+  celsius: ['C'],
+  century: ['C'],
+  chapter: ['C', 'CH'],
+  church: ['CE', 'CH'],
+  circa: ['C', 'CA'],
+  city: ['EC'],
+  clubs: ['C'],
+  cold: ['C'],
+  college: ['C'],
+  commercial: ['AD'],
+  conservative: ['C', 'CON', 'TORY'],
+  copper: ['CU'],
+  daughter: ['D'],
+  day: ['D'],
+  dead: ['D'],
+  degree: ['BA', 'MA', 'D'],
+  democrat: ['D', 'DEM'],
+  diamonds: ['D'],
+  died: ['D'],
+  doctor: ['DR', 'MB', 'MO', 'GP', 'MD'],
+  duck: ['O'],
+  east: ['E'],
+  ecstasy: ['E'],
+  editor: ['ED'],
+  energy: ['E'],
+  engineer: ['CE', 'RE'],
+  engineers: ['RE'],
+  english: ['E', 'ENG'],
+  european: ['E'],
+  fellow: ['F'],
+  female: ['F'],
+  fine: ['F'],
+  following: ['F'],
+  force: ['F'],
+  forte: ['F'],
+  french: ['F', 'FR'],
+  gold: ['AU', 'OR'],
+  good: ['G'],
+  gram: ['G'],
+  grand: ['G', 'K'],
+  gun: ['GAT'],
+  hard: ['H'],
+  heart: ['H'],
+  hearts: ['H'],
+  hello: ['HI'],
+  henry: ['H', 'HAL'],
+  home: ['IN'],
+  hospital: ['H'],
+  hot: ['H'],
+  hour: ['H', 'HR'],
+  hundred: ['C'],
+  husband: ['H'],
+  hydrogen: ['H'],
+  i: ['I'],
+  international: ['I'],
+  iron: ['FE'],
+  island: ['I', 'IS'],
+  italian: ['I', 'IT'],
+  journalist: ['ED'],
+  judge: ['J'],
+  king: ['K', 'R', 'REX'],
+  knight: ['K', 'N', 'SIR'],
+  labour: ['LAB'],
+  lake: ['L'],
+  large: ['L'],
+  latin: ['L'],
+  lead: ['PB'],
+  learner: ['L'],
+  left: ['L'],
+  liberal: ['L', 'LIB'],
+  line: ['L'],
+  litre: ['L'],
+  little: ['L'],
+  love: ['O'],
+  male: ['M'],
+  man: ['M'],
+  married: ['M'],
+  medium: ['M'],
+  member: ['M', 'MP'],
+  metre: ['M'],
+  mile: ['M'],
+  miles: ['M'],
+  million: ['M'],
+  minute: ['M', 'MIN'],
+  model: ['T'],
+  monsieur: ['M'],
+  morning: ['AM'],
+  mother: ['MA', 'MUM'],
+  motorway: ['M', 'MI'],
+  new: ['N'],
+  nitrogen: ['N'],
+  no: ['O'],
+  north: ['N'],
+  nothing: ['O'],
+  number: ['N', 'NO'],
+  nurse: ['EN', 'SRN'],
+  officer: ['CO', 'NCO', 'OC'],
+  old: ['O'],
+  'old boy': ['OB'],
+  one: ['A', 'I'],
+  oxygen: ['O'],
+  page: ['P'],
+  parking: ['P'],
+  penny: ['P', 'D'],
+  piano: ['P'],
+  police: ['CID', 'MET'],
+  politician: ['MP'],
+  pole: ['N', 'S'],
+  port: ['L'],
+  potassium: ['K'],
+  pound: ['L', 'LB'],
+  power: ['P'],
+  president: ['P', 'PRES'],
+  priest: ['P', 'FR', 'REV'],
+  prince: ['P'],
+  public: ['P'],
+  quarter: ['E', 'N', 'S', 'W'],
+  queen: ['Q', 'QU', 'R', 'ER'],
+  question: ['Q', 'QU'],
+  quiet: ['P', 'SH'],
+  railway: ['BR', 'RY'],
+  ring: ['O'],
+  river: ['R'],
+  road: ['RD', 'ST'],
+  rook: ['R'],
+  round: ['O'],
+  royal: ['R'],
+  sailor: ['AB', 'OS', 'TAR', 'RATING'],
+  saint: ['S', 'ST'],
+  second: ['S', 'MO', 'SEC'],
+  sex: ['IT'],
+  ship: ['SS'],
+  short: ['S'],
+  silver: ['AG'],
+  small: ['S'],
+  society: ['S'],
+  soft: ['P'],
+  son: ['S'],
+  south: ['S'],
+  spades: ['S'],
+  spain: ['E'],
+  special: ['S'],
+  square: ['T', 'SQ'],
+  street: ['ST'],
+  student: ['L', 'NUS'],
+  sulphur: ['S'],
+  sun: ['S'],
+  tax: ['VAT'],
+  teacher: ['SIR'],
+  temperature: ['T'],
+  ten: ['X'],
+  theatre: ['OR'],
+  time: ['T'],
+  ton: ['T', 'C'],
+  tory: ['C', 'CON'],
+  university: ['U'],
+  upper: ['U'],
+  'upper class': ['U'],
+  very: ['V'],
+  versus: ['V'],
+  victory: ['V'],
+  volume: ['V', 'VOL'],
+  vote: ['X'],
+  way: ['RD', 'ST', 'AVE'],
+  weight: ['W', 'WT'],
+  west: ['W'],
+  wicket: ['W'],
+  wide: ['W'],
+  wife: ['W'],
+  with: ['W'],
+  women: ['W'],
+  work: ['OP'],
+  worker: ['ANT', 'BEE'],
+  yard: ['Y', 'YD'],
+  year: ['Y', 'YR'],
+  zero: ['O'],
+}
@@ -1,8 +1,9 @@
 import { PuzzleService } from '../services/puzzleService'
-import { setCharAt, getCharAt } from './stateHelpers'
+import { getCellAt, type RebusCells } from './stateHelpers'
+import { continuesLight, isLetterCell, isNumberedCell, type CellType, type Direction } from './gridCells'
+import { clueRefKey, getLinkedEntries, type ClueRef, type PuzzleClues } from './linkedClues'
 
-export type CellType = 'N' | 'W' | 'B'
-export type Direction = 'across' | 'down'
+export type { CellType, Direction } from './gridCells'
 
 export interface ClueMetadata {
   number: number
@@ -11,6 +12,40 @@ export interface ClueMetadata {
   col: number
 }
 
+// The cells a light runs through, in answer order
+export function getWordCells(grid: CellType[][], item: ClueMetadata): { r: number; c: number }[] {
+  const cells: { r: number; c: number }[] = []
+  let r = item.row
+  let c = item.col
+  if (!isLetterCell(grid[r]?.[c])) return cells
+
+  cells.push({ r, c })
+  while (continuesLight(grid, r, c, item.direction)) {
+    if (item.direction === 'across') c++
+    else r++
+    cells.push({ r, c })
+  }
+  return cells
+}
+
+/**
+ * Split an answer's letters across the cells of its light, giving each rebus
+ * cell as many letters as it holds. Cells past the end of the answer get ''.
+ */
+export function splitAnswer(
+  letters: string,
+  cells: { r: number; c: number }[],
+  rebus: RebusCells = {},
+): string[] {
+  let offset = 0
+  return cells.map(({ r, c }) => {
+    const width = rebus[`${r}-${c}`] ?? 1
+    const part = letters.substring(offset, offset + width)
+    offset += width
+    return part
+  })
+}
+
 export function extractClueMetadata(grid: CellType[][]): ClueMetadata[] {
   const clues: ClueMetadata[] = []
 
@@ -19,26 +54,20 @@ export function extractClueMetadata(grid: CellType[][]): ClueMetadata[] {
   const height = grid.length
   const width = grid[0].length
 
-  // Helper to check if a cell contains a letter (White or Numbered)
-  const isLetter = (r: number, c: number) => {
-    if (r < 0 || r >= height || c < 0 || c >= width) return false
-    return grid[r][c] === 'W' || grid[r][c] === 'N'
-  }
-
   let currentNumber = 1
 
   for (let r = 0; r < height; r++) {
     for (let c = 0; c < width; c++) {
-      if (grid[r][c] === 'N') {
+      if (isNumberedCell(grid[r][c])) {
         const num = currentNumber
 
-        // Check Across
-        if (isLetter(r, c + 1) && !isLetter(r, c - 1)) {
+        // A light starts where one runs on and none runs in: the cell
+        // before is a block, a bar or the edge of the grid
+        if (continuesLight(grid, r, c, 'across') && !continuesLight(grid, r, c - 1, 'across')) {
           clues.push({ number: num, direction: 'across', row: r, col: c })
         }
 
-        // Check Down
-        if (isLetter(r + 1, c) && !isLetter(r - 1, c)) {
+        if (continuesLight(grid, r, c, 'down') && !continuesLight(grid, r - 1, c, 'down')) {
           clues.push({ number: num, direction: 'down', row: r, col: c })
         }
 
@@ -50,6 +79,56 @@ export function extractClueMetadata(grid: CellType[][]): ClueMetadata[] {
   return clues
 }
 
+/**
+ * One answer as the solver writes it: a single light, or lights linked in
+ * the clues ("5/14 Across") and read in order. The head carries the clue
+ * and the answer.
+ */
+export interface AnswerLights {
+  head: ClueMetadata
+  lights: ClueMetadata[]
+}
+
+/**
+ * Group the grid's lights into answers. Every light belongs to exactly one
+ * group; links to lights the grid doesn't have are dropped, and a light
+ * claimed by two links stays with the first.
+ */
+export function groupLinkedLights(
+  metadata: ClueMetadata[],
+  clues?: PuzzleClues | null,
+): AnswerLights[] {
+  const byKey = new Map(metadata.map((item) => [clueRefKey(item), item]))
+  const linked = new Map<string, AnswerLights>()
+
+  for (const refs of getLinkedEntries(clues)) {
+    const lights = refs
+      .map((ref) => byKey.get(clueRefKey(ref)))
+      .filter((item): item is ClueMetadata => !!item && !linked.has(clueRefKey(item)))
+    if (lights.length < 2 || lights[0] !== byKey.get(clueRefKey(refs[0]!))) continue
+
+    const entry = { head: lights[0]!, lights }
+    for (const light of lights) linked.set(clueRefKey(light), entry)
+  }
+
+  const entries: AnswerLights[] = []
+  for (const item of metadata) {
+    const entry = linked.get(clueRefKey(item))
+    if (!entry) entries.push({ head: item, lights: [item] })
+    else if (entry.head === item) entries.push(entry)
+  }
+  return entries
+}
+
+// The cells of an answer across all of its lights, in answer order
+export const getEntryCells = (grid: CellType[][], entry: AnswerLights) =>
+  entry.lights.flatMap((light) => getWordCells(grid, light))
+
+export const findAnswerLights = (entries: AnswerLights[], ref: ClueRef) =>
+  entries.find((entry) =>
+    entry.lights.some((light) => light.number === ref.number && light.direction === ref.direction),
+  )
+
 export function rot13(str: string): string {
   return str.replace(/[a-zA-Z]/g, (c) => {
     const base = c <= 'Z' ? 65 : 97
@@ -57,31 +136,6 @@ export function rot13(str: string): string {
   })
 }
 
-function extractWord(
-  grid: CellType[][],
-  sessionState: string[],
-  startRow: number,
-  startCol: number,
-  direction: Direction,
-): string {
-  let word = ''
-  let r = startRow
-  let c = startCol
-
-  while (r < grid.length && c < grid[0].length && (grid[r][c] === 'W' || grid[r][c] === 'N')) {
-    const char = getCharAt(sessionState, r, c) || ' '
-    word += char
-
-    if (direction === 'across') {
-      c++
-    } else {
-      r++
-    }
-  }
-
-  return word.trim()
-}
-
 export interface CheckResult {
   number: number
   direction: Direction
@@ -95,14 +149,7 @@ export async function getCorrectAnswersStructure(puzzleId: number) {
   const puzzle = await PuzzleService.getPuzzleById(puzzleId)
   if (!puzzle) throw new Error(`Puzzle ${puzzleId} not found`)
 
-  let correctAnswers: any = {}
-  if (puzzle.answers) {
-    // If API already returns answers (decrypted by service or stored as JSON), use them.
-    correctAnswers = puzzle.answers
-  } else if (puzzle.answers_encrypted) {
-    // Fallback if not processed
-    correctAnswers = JSON.parse(puzzle.answers_encrypted)
-  }
+  const correctAnswers: any = puzzle.answers ?? {}
 
   let puzzleAnswers = correctAnswers
   if (correctAnswers.puzzles && Array.isArray(correctAnswers.puzzles)) {
@@ -114,9 +161,10 @@ export async function getCorrectAnswersStructure(puzzleId: number) {
 
 interface CachedPuzzleData {
   grid: CellType[][]
-  metadata: ClueMetadata[]
+  entries: AnswerLights[]
   totalLetters: number
   rawGrid: string
+  rawClues: string
 }
 
 const puzzleCache = new Map<number, CachedPuzzleData>()
@@ -125,33 +173,37 @@ const MAX_CACHE_SIZE = 100
 export async function checkSessionAnswers(
   puzzleId: number,
   sessionState: string[],
+  tentativeCells: Set<string> = new Set(),
 ): Promise<{
   results: CheckResult[]
   totalClues: number
   totalLetters: number
   filledLetters: number
+  // Complete words left unchecked because they contain pencilled letters
+  tentativeSkipped: number
 }> {
   const { puzzle, puzzleAnswers } = await getCorrectAnswersStructure(puzzleId)
 
   let cached = puzzleCache.get(puzzleId)
+  const rawClues = JSON.stringify(puzzle.clues ?? null)
 
-  // Invalidate if grid changed
-  if (!cached || cached.rawGrid !== puzzle.grid) {
+  // Invalidate if the grid or the clue links changed
+  if (!cached || cached.rawGrid !== puzzle.grid || cached.rawClues !== rawClues) {
     const grid: CellType[][] = puzzle.grid
       .split('\n')
       .map((row: string) => row.trim().split(' ') as CellType[])
-    const metadata = extractClueMetadata(grid)
+    const entries = groupLinkedLights(extractClueMetadata(grid), puzzle.clues)
 
     let totalLetters = 0
     for (let r = 0; r < grid.length; r++) {
       for (let c = 0; c < grid[0].length; c++) {
-        if (grid[r][c] === 'W' || grid[r][c] === 'N') {
+        if (isLetterCell(grid[r][c])) {
           totalLetters++
         }
       }
     }
 
-    cached = { grid, metadata, totalLetters, rawGrid: puzzle.grid }
+    cached = { grid, entries, totalLetters, rawGrid: puzzle.grid, rawClues }
 
     if (puzzleCache.size >= MAX_CACHE_SIZE) {
       const firstKey = puzzleCache.keys().next().value
@@ -161,25 +213,25 @@ export async function checkSessionAnswers(
     puzzleCache.set(puzzleId, cached)
   }
 
-  const { grid, metadata, totalLetters } = cached
+  const { grid, entries, totalLetters } = cached
 
   const results: CheckResult[] = []
+  let tentativeSkipped = 0
 
-  for (const item of metadata) {
-    // Determine cell positions for this word
-    const cells: { r: number; c: number }[] = []
-    let r = item.row
-    let c = item.col
-    while (r < grid.length && c < grid[0].length && (grid[r][c] === 'W' || grid[r][c] === 'N')) {
-      cells.push({ r, c })
-      if (item.direction === 'across') c++
-      else r++
-    }
+  for (const entry of entries) {
+    // Linked lights are checked as one answer, reported under the head
+    const item = entry.head
+    const cells = getEntryCells(grid, entry)
 
-    const userAnswer = extractWord(grid, sessionState, item.row, item.col, item.direction)
+    // Skip if incomplete. A rebus cell contributes all of its letters.
+    const cellValues = cells.map((cell) => getCellAt(sessionState, cell.r, cell.c).trim())
+    if (cellValues.some((value) => value === '')) {
+      continue
+    }
+    const userAnswer = cellValues.join('')
 
-    // Skip if incomplete (contains spaces)
-    if (userAnswer.includes(' ') || userAnswer.length !== cells.length) {
+    if (cells.some((cell) => tentativeCells.has(`${cell.r}-${cell.c}`))) {
+      tentativeSkipped++
       continue
     }
 
@@ -213,14 +265,43 @@ export async function checkSessionAnswers(
 
   for (let r = 0; r < grid.length; r++) {
     for (let c = 0; c < grid[0].length; c++) {
-      if (grid[r][c] === 'W' || grid[r][c] === 'N') {
-        const char = getCharAt(sessionState, r, c)
-        if (char && char.trim() !== '') {
+      if (isLetterCell(grid[r][c])) {
+        const value = getCellAt(sessionState, r, c)
+        if (value && value.trim() !== '' && !tentativeCells.has(`${r}-${c}`)) {
           filledLetters++
         }
       }
     }
   }
 
-  return { results, totalClues: metadata.length, totalLetters, filledLetters }
+  return { results, totalClues: entries.length, totalLetters, filledLetters, tentativeSkipped }
+}
+
+/**
+ * The correct letters of every cell, keyed "r-c". A rebus cell holds all of
+ * its letters; cells whose clue has no answer on file are left out. A linked
+ * answer is spread over all of its lights.
+ */
+export async function getSolutionCells(puzzleId: number): Promise<Map<string, string>> {
+  const { puzzle, puzzleAnswers } = await getCorrectAnswersStructure(puzzleId)
+  const grid: CellType[][] = puzzle.grid
+    .split('\n')
+    .map((row: string) => row.trim().split(' ') as CellType[])
+
+  const solution = new Map<string, string>()
+  for (const entry of groupLinkedLights(extractClueMetadata(grid), puzzle.clues)) {
+    const item = entry.head
+    const answerEntry = puzzleAnswers?.[item.direction]?.find((a: any) => a.number === item.number)
+    if (!answerEntry) continue
+
+    const letters = rot13(answerEntry.answer)
+      .toUpperCase()
+      .replace(/[^A-Z]/g, '')
+    const cells = getEntryCells(grid, entry)
+    splitAnswer(letters, cells, puzzle.rebus_cells).forEach((value, i) => {
+      const cell = cells[i]
+      if (cell && value) solution.set(`${cell.r}-${cell.c}`, value)
+    })
+  }
+  return solution
 }
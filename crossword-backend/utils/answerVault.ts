@@ -0,0 +1,44 @@
+import crypto from 'crypto'
+import { ANSWERS_KEY } from '../config'
+
+const PREFIX = 'v1:'
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+const key = crypto.createHash('sha256').update(ANSWERS_KEY).digest()
+
+/**
+ * Encrypt an answer key (the ROT13 `{ across, down }` structure) for storage
+ * in `puzzles.answers_encrypted`. AES-256-GCM, stored as
+ * "v1:" + base64(iv | tag | ciphertext).
+ */
+export function sealAnswers(answers: unknown): string {
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(answers), 'utf8'), cipher.final()])
+  return PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+}
+
+/**
+ * Read a stored answer key. Rows written before encryption hold plain JSON
+ * and are accepted as-is. Throws if a sealed value fails to authenticate.
+ */
+export function openAnswers(stored: string | null | undefined): any {
+  if (!stored) return null
+  if (!stored.startsWith(PREFIX)) return JSON.parse(stored)
+
+  const raw = Buffer.from(stored.slice(PREFIX.length), 'base64')
+  const iv = raw.subarray(0, IV_LENGTH)
+  const tag = raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH)
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv)
+  decipher.setAuthTag(tag)
+  const plaintext = Buffer.concat([
+    decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ])
+  return JSON.parse(plaintext.toString('utf8'))
+}
+
+export function isSealed(stored: string | null | undefined): boolean {
+  return typeof stored === 'string' && stored.startsWith(PREFIX)
+}
@@ -0,0 +1,99 @@
+export type WordBreak = 'space' | 'hyphen'
+
+/**
+ * A clue's enumeration, "(4,5)" or "(3-4)": the letters in each word of the
+ * answer and what separates each word from the next, so
+ * "(2,3-4)" is { words: [2, 3, 4], breaks: ['space', 'hyphen'] }.
+ */
+export interface Enumeration {
+  words: number[]
+  breaks: WordBreak[]
+}
+
+// Trailing "(7)" / "(3,4)" / "(5-3)" on a clue
+export const ENUMERATION_REGEX = /\s*\(([\d,\-\s]+)\)\s*$/
+
+const ENUMERATION_BODY = /^\d+(?:\s*[,\-\s]\s*\d+)*$/
+
+// Reads the inside of an enumeration, "4,5" or "3-4"
+export function parseEnumeration(text: string): Enumeration | null {
+  const body = text.trim()
+  if (!ENUMERATION_BODY.test(body)) return null
+
+  const words = body.split(/\D+/).map(Number)
+  const breaks = (body.match(/\D+/g) ?? []).map((sep): WordBreak =>
+    sep.includes('-') ? 'hyphen' : 'space',
+  )
+  if (words.some((n) => n <= 0)) return null
+  return { words, breaks }
+}
+
+export function enumerationFromClue(clue: string | undefined): Enumeration | null {
+  const match = clue?.match(ENUMERATION_REGEX)
+  return match ? parseEnumeration(match[1]!) : null
+}
+
+// The spacing written into an answer, "ICE CREAM" or "DRIVE-IN"
+export function enumerationFromAnswer(answer: string): Enumeration | null {
+  const text = answer.trim()
+  const words = text.split(/[\s-]+/).map((word) => word.replace(/[^A-Za-z0-9]/g, '').length)
+  if (words.some((n) => n === 0)) return null
+
+  const breaks = (text.match(/[\s-]+/g) ?? []).map((sep): WordBreak =>
+    sep.includes('-') ? 'hyphen' : 'space',
+  )
+  return { words, breaks }
+}
+
+export const enumerationLength = (enumeration: Enumeration) =>
+  enumeration.words.reduce((sum, n) => sum + n, 0)
+
+export function formatEnumeration(enumeration: Enumeration): string {
+  return enumeration.words
+    .map((n, i) => (i === 0 ? `${n}` : `${enumeration.breaks[i - 1] === 'hyphen' ? '-' : ','}${n}`))
+    .join('')
+}
+
+export const sameEnumeration = (a: Enumeration, b: Enumeration) =>
+  formatEnumeration(a) === formatEnumeration(b)
+
+/**
+ * The break after each letter that ends a word, keyed by the number of
+ * letters before it: (4,5) has a space after letter 4.
+ */
+export function letterBreaks(enumeration: Enumeration): Map<number, WordBreak> {
+  const breaks = new Map<number, WordBreak>()
+  let offset = 0
+  enumeration.words.slice(0, -1).forEach((n, i) => {
+    offset += n
+    breaks.set(offset, enumeration.breaks[i]!)
+  })
+  return breaks
+}
+
+// The clue's stored enumeration, or the one in its text if it has none yet
+export function clueEnumeration(clue: { clue?: string; enumeration?: Enumeration | null }) {
+  return clue.enumeration ?? enumerationFromClue(clue.clue)
+}
+
+/**
+ * Stores each clue's enumeration alongside it, parsed from its text. Clues
+ * without one (such as "See 5" on a linked light) are left without.
+ */
+export function withEnumerations<T extends { across?: unknown; down?: unknown }>(clues: T): T {
+  if (!clues || typeof clues !== 'object' || Array.isArray(clues)) return clues
+
+  const annotate = (clue: unknown) => {
+    if (!clue || typeof clue !== 'object') return clue
+    const { enumeration: _stale, ...rest } = clue as { clue?: unknown; enumeration?: unknown }
+    const enumeration = enumerationFromClue(typeof rest.clue === 'string' ? rest.clue : undefined)
+    return enumeration ? { ...rest, enumeration } : rest
+  }
+
+  const annotated: Record<string, unknown> = { ...clues }
+  for (const direction of ['across', 'down'] as const) {
+    const list = clues[direction]
+    if (Array.isArray(list)) annotated[direction] = list.map(annotate)
+  }
+  return annotated as T
+}
@@ -0,0 +1,94 @@
+import { CrypticExplanationZodSchema, type CrypticExplanation } from './crypticSchema'
+import { validateExplanation } from './validateExplanation'
+
+export interface ExplanationRequest {
+  clue: string
+  answer: string
+  mode?: 'hint' | 'full'
+  // Set when regenerating: what was wrong with the previous explanation
+  feedback?: string
+  previousExplanation?: unknown
+  // Puzzle the spend is charged to in the model call ledger
+  puzzleId?: number
+}
+
+/**
+ * Anything that can turn a clue and answer into a structured explanation.
+ * Providers return the model's parsed JSON as-is; checking it against the
+ * schema is left to the caller so every provider is held to the same rules.
+ */
+export interface ExplanationProvider {
+  // Shown in logs and errors, e.g. 'openrouter:deepseek/deepseek-v4-pro'
+  name: string
+  explain(request: ExplanationRequest): Promise<unknown>
+}
+
+/**
+ * Check a provider's output against CrypticExplanationZodSchema and the
+ * storage validator. Models sometimes drop the top-level wrapper and return
+ * the inner explanation alone, so that is wrapped before checking.
+ */
+export function parseExplanation(raw: unknown): CrypticExplanation {
+  const candidate =
+    raw && typeof raw === 'object' && !('explanation' in raw) && 'clue_type' in raw
+      ? { clue_type: (raw as { clue_type: unknown }).clue_type, explanation: raw }
+      : raw
+
+  const parsed = CrypticExplanationZodSchema.safeParse(candidate)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    throw new Error(`Explanation does not match schema: ${issues.join('; ')}`)
+  }
+
+  const validation = validateExplanation(parsed.data)
+  if (!validation.valid) {
+    throw new Error(`Explanation validation failed: ${validation.errors?.join('; ')}`)
+  }
+
+  return parsed.data
+}
+
+export interface MockExplanationOptions {
+  name?: string
+  // Simulate a provider outage, or a model that ignores the schema
+  fail?: 'error' | 'invalid'
+}
+
+/**
+ * Offline provider for tests and local development (EXPLANATION_PROVIDERS=mock).
+ * Always explains the clue as a cryptic definition, built only from its input,
+ * so the same request gives the same explanation.
+ */
+export function createMockExplanationProvider(
+  options: MockExplanationOptions = {},
+): ExplanationProvider {
+  const name = options.name ?? 'mock'
+
+  return {
+    name,
+    async explain({ clue, answer, feedback }) {
+      if (options.fail === 'error') throw new Error(`${name} is unavailable`)
+      if (options.fail === 'invalid') return { clue_type: 'wordplay', explanation: {} }
+
+      const words = clue
+        .replace(/\(\d[\d,\s-]*\)\s*$/, '')
+        .split(/\s+/)
+        .map((word) => word.replace(/[^\p{L}\p{N}'-]/gu, ''))
+        .filter(Boolean)
+
+      return {
+        clue_type: 'cryptic_definition',
+        explanation: {
+          clue_type: 'cryptic_definition',
+          definition_scope: 'entire_clue',
+          clue_segmentation: words.map((text) => ({ text, role: 'definition' })),
+          definition_paraphrase: `Something that is ${answer.toUpperCase()}`,
+          hint: { definition_scope: 'entire_clue' },
+          full_explanation: feedback
+            ? `The whole clue cryptically defines ${answer.toUpperCase()}. Revised for: ${feedback}`
+            : `The whole clue cryptically defines ${answer.toUpperCase()}.`,
+        },
+      }
+    },
+  }
+}
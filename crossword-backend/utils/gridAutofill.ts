@@ -0,0 +1,266 @@
+import type { CellType, Direction } from './answerChecker'
+import { extractClueMetadata, getWordCells } from './answerChecker'
+
+export interface ScoredWord {
+  word: string
+  // Higher is better; candidates are tried best first
+  score: number
+}
+
+export interface AutofillInput {
+  grid: CellType[][]
+  // Letters already placed, one string per row as in session state; ' ' is empty
+  letters?: string[]
+  words: ScoredWord[]
+  blacklist?: Iterable<string>
+}
+
+export interface AutofillOptions {
+  maxStates?: number
+  maxMillis?: number
+  // Words scoring below this are left out
+  minScore?: number
+}
+
+export interface AutofillEntry {
+  number: number
+  direction: Direction
+  word: string
+  // null for an entry the setter lettered in full that isn't on the word list
+  score: number | null
+}
+
+export interface AutofillResult {
+  success: boolean
+  letters?: string[]
+  entries?: AutofillEntry[]
+  score?: number
+  message?: string
+  exploredStates: number
+}
+
+interface Slot {
+  number: number
+  direction: Direction
+  cells: number[]
+}
+
+interface WordBucket {
+  words: string[]
+  scores: number[]
+  // Indexes of the words with a given letter at a given position, best first
+  byLetter: Map<string, number[]>
+}
+
+type StopReason = 'max_states' | 'time_limit' | null
+
+export const normalizeFillWord = (word: string) => word.toUpperCase().replace(/[^A-Z]/g, '')
+
+/**
+ * Words by length, best first, with an index from "position:letter" to the
+ * words that have it. Later duplicates of a word keep the higher score.
+ */
+function buildBuckets(words: ScoredWord[], blacklist: Set<string>, minScore: number) {
+  const best = new Map<string, number>()
+  for (const { word, score } of words) {
+    const normalized = normalizeFillWord(word)
+    if (normalized.length < 2 || blacklist.has(normalized) || score < minScore) continue
+    best.set(normalized, Math.max(score, best.get(normalized) ?? -Infinity))
+  }
+
+  const buckets = new Map<number, WordBucket>()
+  const sorted = [...best].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  for (const [word, score] of sorted) {
+    let bucket = buckets.get(word.length)
+    if (!bucket) {
+      bucket = { words: [], scores: [], byLetter: new Map() }
+      buckets.set(word.length, bucket)
+    }
+    const index = bucket.words.length
+    bucket.words.push(word)
+    bucket.scores.push(score)
+    for (let i = 0; i < word.length; i++) {
+      const key = `${i}:${word[i]}`
+      const list = bucket.byLetter.get(key)
+      if (list) list.push(index)
+      else bucket.byLetter.set(key, [index])
+    }
+  }
+  return { buckets, scores: best }
+}
+
+/**
+ * Fills the empty cells of a grid from a word list. Each light is a slot;
+ * the search fills the slot with fewest fitting words first, tries words
+ * best score first, and backs up as soon as some slot has no word left or a
+ * crossing it completes isn't on the list. No word is used twice. Letters
+ * the setter placed are kept, and a light they lettered in full stays as it
+ * is even if it isn't on the list.
+ */
+export function autofillGrid(input: AutofillInput, options: AutofillOptions = {}): AutofillResult {
+  const maxStates = options.maxStates ?? 200_000
+  const maxMillis = options.maxMillis ?? 4_000
+  const { grid } = input
+  const height = grid.length
+  const width = grid[0]?.length ?? 0
+
+  if (height === 0 || width === 0) {
+    return { success: false, message: 'Grid is empty', exploredStates: 0 }
+  }
+
+  const board: string[] = Array(width * height).fill('')
+  for (let r = 0; r < height; r++) {
+    for (let c = 0; c < width; c++) {
+      const letter = normalizeFillWord(input.letters?.[r]?.[c] ?? '')
+      if (letter) board[r * width + c] = letter
+    }
+  }
+
+  const slots: Slot[] = extractClueMetadata(grid).map((meta) => ({
+    number: meta.number,
+    direction: meta.direction,
+    cells: getWordCells(grid, meta).map(({ r, c }) => r * width + c),
+  }))
+  if (slots.length === 0) {
+    return { success: false, message: 'Grid has no lights to fill', exploredStates: 0 }
+  }
+
+  const blacklist = new Set([...(input.blacklist ?? [])].map(normalizeFillWord))
+  const { buckets, scores } = buildBuckets(input.words, blacklist, options.minScore ?? -Infinity)
+
+  const slotWord = (slot: Slot) => slot.cells.map((cell) => board[cell]).join('')
+  const isFilled = (slot: Slot) => slot.cells.every((cell) => board[cell])
+
+  // Lights the setter already lettered in full are theirs to keep
+  const used = new Set<string>()
+  for (const slot of slots) {
+    if (isFilled(slot)) used.add(slotWord(slot))
+  }
+
+  // The slots through each cell, to find the crossings a placement completes
+  const slotsByCell = new Map<number, Slot[]>()
+  for (const slot of slots) {
+    for (const cell of slot.cells) {
+      const list = slotsByCell.get(cell)
+      if (list) list.push(slot)
+      else slotsByCell.set(cell, [slot])
+    }
+  }
+
+  /**
+   * Crossing slots that filling `cells` completed, as words, or null if any
+   * of them isn't a word on the list or repeats one already in the grid.
+   */
+  const completedCrossings = (slot: Slot, cells: number[]): string[] | null => {
+    const completed = new Set<Slot>()
+    for (const cell of cells) {
+      for (const crossing of slotsByCell.get(cell) ?? []) {
+        if (crossing !== slot && isFilled(crossing)) completed.add(crossing)
+      }
+    }
+
+    const words: string[] = []
+    for (const crossing of completed) {
+      const word = slotWord(crossing)
+      if (!scores.has(word) || used.has(word) || words.includes(word)) return null
+      words.push(word)
+    }
+    return words
+  }
+
+  const candidates = (slot: Slot): number[] => {
+    const bucket = buckets.get(slot.cells.length)
+    if (!bucket) return []
+
+    const fixed: Array<[number, string]> = []
+    slot.cells.forEach((cell, i) => {
+      if (board[cell]) fixed.push([i, board[cell]!])
+    })
+
+    let pool: number[] | null = null
+    for (const [i, letter] of fixed) {
+      const list = bucket.byLetter.get(`${i}:${letter}`) ?? []
+      if (!pool || list.length < pool.length) pool = list
+    }
+    pool ??= bucket.words.map((_, index) => index)
+
+    return pool.filter((index) => {
+      const word = bucket.words[index]!
+      return !used.has(word) && fixed.every(([i, letter]) => word[i] === letter)
+    })
+  }
+
+  let exploredStates = 0
+  let stopReason: StopReason = null
+  const startedAt = Date.now()
+
+  const search = (): boolean => {
+    if (exploredStates % 100 === 0 && Date.now() - startedAt > maxMillis) {
+      stopReason = 'time_limit'
+      return false
+    }
+    if (exploredStates >= maxStates) {
+      stopReason = 'max_states'
+      return false
+    }
+
+    // The open slot with fewest fitting words; any with none is a dead end
+    let best: { slot: Slot; options: number[] } | null = null
+    for (const slot of slots) {
+      if (isFilled(slot)) continue
+      const options = candidates(slot)
+      if (options.length === 0) return false
+      if (!best || options.length < best.options.length) best = { slot, options }
+    }
+    if (!best) return true
+
+    const bucket = buckets.get(best.slot.cells.length)!
+    for (const index of best.options) {
+      exploredStates++
+      const word = bucket.words[index]!
+      const placed = best.slot.cells.filter((cell) => !board[cell])
+      best.slot.cells.forEach((cell, i) => {
+        board[cell] = word[i]!
+      })
+      used.add(word)
+
+      const crossings = completedCrossings(best.slot, placed)
+      crossings?.forEach((crossing) => used.add(crossing))
+
+      if (crossings && search()) return true
+
+      crossings?.forEach((crossing) => used.delete(crossing))
+      used.delete(word)
+      for (const cell of placed) board[cell] = ''
+      if (stopReason) return false
+    }
+    return false
+  }
+
+  if (!search()) {
+    let message = 'No fill exists with this word list (search exhausted)'
+    if (stopReason === 'time_limit') {
+      message = `No fill found before time limit (${maxMillis}ms)`
+    } else if (stopReason === 'max_states') {
+      message = `No fill found within ${maxStates.toLocaleString()} explored states`
+    }
+    return { success: false, message, exploredStates }
+  }
+
+  const entries: AutofillEntry[] = slots.map((slot) => {
+    const word = slotWord(slot)
+    return { number: slot.number, direction: slot.direction, word, score: scores.get(word) ?? null }
+  })
+
+  const letters = Array.from({ length: height }, (_, r) =>
+    Array.from({ length: width }, (_, c) => board[r * width + c] || ' ').join(''),
+  )
+
+  return {
+    success: true,
+    letters,
+    entries,
+    score: entries.reduce((sum, entry) => sum + (entry.score ?? 0), 0),
+    exploredStates,
+  }
+}
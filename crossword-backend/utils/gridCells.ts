@@ -0,0 +1,49 @@
+export type Direction = 'across' | 'down'
+
+/**
+ * One cell of a grid string. 'B' is a block, 'N' a letter cell carrying a
+ * clue number and 'W' any other letter cell. Barred grids put a thick bar on
+ * a letter cell's right and/or bottom edge by suffixing '|' and/or '_'
+ * ('W|', 'N_', 'W|_'). A bar ends a light just as a block does.
+ */
+export type CellType = 'B' | `${'N' | 'W'}${'' | '|' | '_' | '|_'}`
+
+const CELL_PATTERN = /^(B|[NW]\|?_?)$/
+
+export const isCellType = (token: string): token is CellType => CELL_PATTERN.test(token)
+
+// Raw tokens from a grid string are accepted too; anything unknown is not a letter
+export const isLetterCell = (cell: string | undefined): boolean =>
+  cell?.[0] === 'N' || cell?.[0] === 'W'
+
+export const isNumberedCell = (cell: string | undefined): boolean => cell?.[0] === 'N'
+
+export const hasRightBar = (cell: string | undefined): boolean => !!cell?.includes('|')
+
+export const hasBottomBar = (cell: string | undefined): boolean => !!cell?.includes('_')
+
+export function letterCell(numbered: boolean, rightBar = false, bottomBar = false): CellType {
+  return `${numbered ? 'N' : 'W'}${rightBar ? '|' : ''}${bottomBar ? '_' : ''}` as CellType
+}
+
+export function isBarredGrid(grid: CellType[][]): boolean {
+  return grid.some((row) => row.some((cell) => hasRightBar(cell) || hasBottomBar(cell)))
+}
+
+/**
+ * Whether a light carries on from (r, c) into the next cell in `direction`:
+ * both cells hold letters and no bar lies between them.
+ */
+export function continuesLight(
+  grid: CellType[][],
+  r: number,
+  c: number,
+  direction: Direction,
+): boolean {
+  const cell = grid[r]?.[c]
+  if (!isLetterCell(cell)) return false
+  if (direction === 'across') {
+    return !hasRightBar(cell) && isLetterCell(grid[r]?.[c + 1])
+  }
+  return !hasBottomBar(cell) && isLetterCell(grid[r + 1]?.[c])
+}
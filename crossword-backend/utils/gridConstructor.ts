@@ -1,5 +1,7 @@
 import type { CellType, Direction } from './answerChecker'
-import { extractClueMetadata } from './answerChecker'
+import { extractClueMetadata, getWordCells } from './answerChecker'
+import { enumerationFromClue, enumerationLength } from './enumeration'
+import { letterCell } from './gridCells'
 
 export interface AnswerLikeEntry {
   number: number
@@ -20,6 +22,8 @@ export interface GridConstructorOptions {
   maxMillis?: number
   templateGrids?: Array<string | CellType[][]>
   includeDiagnosticsInMessage?: boolean
+  // Separate lights with bars instead of blocks, as in Azed or Listener grids
+  barred?: boolean
 }
 
 export interface GridConstructorResult {
@@ -51,6 +55,10 @@ interface SolverState {
   boardKind: Int8Array // -1 unknown, 0 block, 1 letter
   boardChar: string[]
   chosenCandidates: Map<number, number>
+  // Barred grids only: the right and bottom edge of each cell, -1 unknown, 0 open, 1 bar
+  barred: boolean
+  rightEdge: Int8Array
+  bottomEdge: Int8Array
 }
 
 type StopReason = 'max_states' | 'time_limit' | null
@@ -58,19 +66,13 @@ type StopReason = 'max_states' | 'time_limit' | null
 const UNKNOWN = -1
 const BLOCK = 0
 const LETTER = 1
+const OPEN_EDGE = 0
+const BAR_EDGE = 1
 
 function normalizeAnswerLetters(answer: string): string {
   return answer.toUpperCase().replace(/[^A-Z0-9]/g, '')
 }
 
-function parseLengthFromClue(clue: string): number | null {
-  const match = clue.match(/\(([^)]+)\)\s*$/)
-  if (!match || !match[1]) return null
-  const parts = match[1].split(/[^0-9]+/).filter(Boolean)
-  if (parts.length === 0) return null
-  return parts.reduce((sum, p) => sum + Number(p), 0)
-}
-
 function getEntryLength(entry: AnswerLikeEntry): number {
   if (typeof entry.length === 'number' && entry.length > 0) {
     return entry.length
@@ -81,10 +83,8 @@ function getEntryLength(entry: AnswerLikeEntry): number {
     if (normalized.length > 0) return normalized.length
   }
 
-  if (entry.clue) {
-    const parsed = parseLengthFromClue(entry.clue)
-    if (parsed && parsed > 0) return parsed
-  }
+  const enumeration = enumerationFromClue(entry.clue)
+  if (enumeration) return enumerationLength(enumeration)
 
   throw new Error(`Could not determine length for clue #${entry.number}`)
 }
@@ -171,20 +171,33 @@ function setLetter(state: SolverState, index: number, char?: string): boolean {
   return true
 }
 
+function canSetEdge(edges: Int8Array, index: number, value: number): boolean {
+  return edges[index] === UNKNOWN || edges[index] === value
+}
+
 function cloneState(state: SolverState): SolverState {
   return {
     boardKind: state.boardKind.slice(),
     boardChar: [...state.boardChar],
     chosenCandidates: new Map(state.chosenCandidates),
+    barred: state.barred,
+    rightEdge: state.rightEdge.slice(),
+    bottomEdge: state.bottomEdge.slice(),
   }
 }
 
 function buildGridFromState(
   width: number,
   height: number,
-  boardKind: Int8Array,
+  state: SolverState,
   startIndices: Set<number>,
 ): CellType[][] {
+  const { boardKind } = state
+  // Between two letters that no light joins there must be a bar, or the
+  // letters would run together into a light nobody placed
+  const needsBar = (edges: Int8Array, idx: number, next: number) =>
+    state.barred && boardKind[next] === LETTER && edges[idx] !== OPEN_EDGE
+
   const grid: CellType[][] = []
   for (let r = 0; r < height; r++) {
     const row: CellType[] = []
@@ -192,10 +205,14 @@ function buildGridFromState(
       const idx = rowColToIndex(r, c, width)
       if (boardKind[idx] === BLOCK || boardKind[idx] === UNKNOWN) {
         row.push('B')
-      } else if (startIndices.has(idx)) {
-        row.push('N')
       } else {
-        row.push('W')
+        row.push(
+          letterCell(
+            startIndices.has(idx),
+            c + 1 < width && needsBar(state.rightEdge, idx, idx + 1),
+            r + 1 < height && needsBar(state.bottomEdge, idx, idx + width),
+          ),
+        )
       }
     }
     grid.push(row)
@@ -226,17 +243,8 @@ function validateConstructedGrid(
     return false
   }
 
-  const measureLength = (row: number, col: number, direction: Direction): number => {
-    let length = 0
-    let r = row
-    let c = col
-    while (r < grid.length && c < grid[0]!.length && grid[r]![c] !== 'B') {
-      length++
-      if (direction === 'across') c++
-      else r++
-    }
-    return length
-  }
+  const measureLength = (row: number, col: number, direction: Direction): number =>
+    getWordCells(grid, { number: 0, direction, row, col }).length
 
   for (const spec of specs) {
     if (spec.across) {
@@ -270,24 +278,11 @@ function getExpectedClueLengthSpecs(specs: NumberSpec[]): ClueLengthSpec[] {
 }
 
 function getGridClueLengthSpecs(grid: CellType[][]): ClueLengthSpec[] {
-  const metadata = extractClueMetadata(grid)
-  const out: ClueLengthSpec[] = []
-
-  for (const clue of metadata) {
-    let length = 0
-    let r = clue.row
-    let c = clue.col
-
-    while (r < grid.length && c < grid[0]!.length && grid[r]![c] !== 'B') {
-      length++
-      if (clue.direction === 'across') c++
-      else r++
-    }
-
-    out.push({ number: clue.number, direction: clue.direction, length })
-  }
-
-  return out
+  return extractClueMetadata(grid).map((clue) => ({
+    number: clue.number,
+    direction: clue.direction,
+    length: getWordCells(grid, clue).length,
+  }))
 }
 
 function clueLengthSignature(items: ClueLengthSpec[]): string {
@@ -350,13 +345,27 @@ function checkPlacement(
     const { length, answerLetters } = spec.across
     if (col + length > width) return false
 
-    // Before block
-    if (col > 0) {
-      if (!canSetBlock(state, rowColToIndex(row, col - 1, width))) return false
-    }
-    // After block
-    if (col + length < width) {
-      if (!canSetBlock(state, rowColToIndex(row, col + length, width))) return false
+    if (state.barred) {
+      // Bars before and after, none in between
+      if (col > 0 && !canSetEdge(state.rightEdge, cellIndex - 1, BAR_EDGE)) return false
+      if (
+        col + length < width &&
+        !canSetEdge(state.rightEdge, cellIndex + length - 1, BAR_EDGE)
+      ) {
+        return false
+      }
+      for (let i = 0; i < length - 1; i++) {
+        if (!canSetEdge(state.rightEdge, cellIndex + i, OPEN_EDGE)) return false
+      }
+    } else {
+      // Before block
+      if (col > 0) {
+        if (!canSetBlock(state, rowColToIndex(row, col - 1, width))) return false
+      }
+      // After block
+      if (col + length < width) {
+        if (!canSetBlock(state, rowColToIndex(row, col + length, width))) return false
+      }
     }
     // Word cells
     for (let i = 0; i < length; i++) {
@@ -371,13 +380,26 @@ function checkPlacement(
     const { length, answerLetters } = spec.down
     if (row + length > height) return false
 
-    // Before block
-    if (row > 0) {
-      if (!canSetBlock(state, rowColToIndex(row - 1, col, width))) return false
-    }
-    // After block
-    if (row + length < height) {
-      if (!canSetBlock(state, rowColToIndex(row + length, col, width))) return false
+    if (state.barred) {
+      if (row > 0 && !canSetEdge(state.bottomEdge, cellIndex - width, BAR_EDGE)) return false
+      if (
+        row + length < height &&
+        !canSetEdge(state.bottomEdge, cellIndex + (length - 1) * width, BAR_EDGE)
+      ) {
+        return false
+      }
+      for (let i = 0; i < length - 1; i++) {
+        if (!canSetEdge(state.bottomEdge, cellIndex + i * width, OPEN_EDGE)) return false
+      }
+    } else {
+      // Before block
+      if (row > 0) {
+        if (!canSetBlock(state, rowColToIndex(row - 1, col, width))) return false
+      }
+      // After block
+      if (row + length < height) {
+        if (!canSetBlock(state, rowColToIndex(row + length, col, width))) return false
+      }
     }
     // Word cells
     for (let i = 0; i < length; i++) {
@@ -404,10 +426,16 @@ function applyPlacement(
 
   if (spec.across) {
     const { length, answerLetters } = spec.across
-    // Block before
-    if (col > 0) setBlock(state, rowColToIndex(row, col - 1, width))
-    // Block after
-    if (col + length < width) setBlock(state, rowColToIndex(row, col + length, width))
+    if (state.barred) {
+      if (col > 0) state.rightEdge[cellIndex - 1] = BAR_EDGE
+      if (col + length < width) state.rightEdge[cellIndex + length - 1] = BAR_EDGE
+      for (let i = 0; i < length - 1; i++) state.rightEdge[cellIndex + i] = OPEN_EDGE
+    } else {
+      // Block before
+      if (col > 0) setBlock(state, rowColToIndex(row, col - 1, width))
+      // Block after
+      if (col + length < width) setBlock(state, rowColToIndex(row, col + length, width))
+    }
     // Letters
     for (let i = 0; i < length; i++) {
       setLetter(state, rowColToIndex(row, col + i, width), answerLetters?.[i])
@@ -416,10 +444,20 @@ function applyPlacement(
 
   if (spec.down) {
     const { length, answerLetters } = spec.down
-    // Block before
-    if (row > 0) setBlock(state, rowColToIndex(row - 1, col, width))
-    // Block after
-    if (row + length < height) setBlock(state, rowColToIndex(row + length, col, width))
+    if (state.barred) {
+      if (row > 0) state.bottomEdge[cellIndex - width] = BAR_EDGE
+      if (row + length < height) {
+        state.bottomEdge[cellIndex + (length - 1) * width] = BAR_EDGE
+      }
+      for (let i = 0; i < length - 1; i++) {
+        state.bottomEdge[cellIndex + i * width] = OPEN_EDGE
+      }
+    } else {
+      // Block before
+      if (row > 0) setBlock(state, rowColToIndex(row - 1, col, width))
+      // Block after
+      if (row + length < height) setBlock(state, rowColToIndex(row + length, col, width))
+    }
     // Letters
     for (let i = 0; i < length; i++) {
       setLetter(state, rowColToIndex(row + i, col, width), answerLetters?.[i])
@@ -457,6 +495,9 @@ export function constructGridFromAnswerKey(
     boardKind: new Int8Array(totalCells).fill(UNKNOWN),
     boardChar: Array(totalCells).fill(''),
     chosenCandidates: new Map(),
+    barred: options.barred ?? false,
+    rightEdge: new Int8Array(totalCells).fill(UNKNOWN),
+    bottomEdge: new Int8Array(totalCells).fill(UNKNOWN),
   }
 
   let exploredStates = 0
@@ -506,7 +547,7 @@ export function constructGridFromAnswerKey(
       const grid = buildGridFromState(
         input.width,
         input.height,
-        currentState.boardKind,
+        currentState,
         new Set(currentState.chosenCandidates.values()),
       )
       if (validateConstructedGrid(grid, specs, expectedAcross, expectedDown)) {
@@ -627,7 +668,7 @@ export function constructGridFromAnswerKey(
   const grid = buildGridFromState(
     input.width,
     input.height,
-    solvedState.boardKind,
+    solvedState,
     new Set(solvedState.chosenCandidates.values()),
   )
 
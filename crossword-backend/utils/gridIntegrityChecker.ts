@@ -1,10 +1,19 @@
 import type { CellType, Direction } from './answerChecker'
-import { extractClueMetadata, rot13 } from './answerChecker'
+import type { RebusCells } from './stateHelpers'
+import { extractClueMetadata, getEntryCells, groupLinkedLights, rot13 } from './answerChecker'
+import {
+  clueEnumeration,
+  enumerationFromAnswer,
+  enumerationLength,
+  formatEnumeration,
+  sameEnumeration,
+} from './enumeration'
+import { clueRefKey, entryLabel, getLinkedEntries, type PuzzleClues } from './linkedClues'
 
 export interface GridIntegrityError {
   number: number
   direction: Direction
-  errorType: 'blocked_cell' | 'length_mismatch' | 'missing_clue'
+  errorType: 'blocked_cell' | 'length_mismatch' | 'missing_clue' | 'enumeration_mismatch'
   expectedLength: number
   actualLength: number
   message: string
@@ -18,12 +27,22 @@ export interface GridIntegrityResult {
   validClues: number
 }
 
+/**
+ * Check every answer against the room the grid gives it. Linked lights
+ * (see linkedClues) are one answer, so the whole answer must fill all of
+ * them together. Where a clue has an enumeration, the answer must also
+ * match it: in length always, and in word breaks when the answer is
+ * stored with its spaces and hyphens.
+ */
 export function checkGridIntegrity(
   grid: CellType[][],
-  answers: { across: { number: number; answer: string }[]; down: { number: number; answer: string }[] }
+  answers: { across: { number: number; answer: string }[]; down: { number: number; answer: string }[] },
+  rebus: RebusCells = {},
+  clues?: PuzzleClues | null
 ): GridIntegrityResult {
   const errors: GridIntegrityError[] = []
   const metadata = extractClueMetadata(grid)
+  const entries = groupLinkedLights(metadata, clues)
 
   if (!grid || grid.length === 0) {
     return {
@@ -34,18 +53,30 @@ export function checkGridIntegrity(
     }
   }
 
-  for (const clue of metadata) {
-    const cells: { r: number; c: number }[] = []
-    let r = clue.row
-    let c = clue.col
+  // A link to a light the grid doesn't have leaves the answer with nowhere to go
+  const lightKeys = new Set(metadata.map(clueRefKey))
+  for (const refs of getLinkedEntries(clues)) {
+    const missing = refs.filter((ref) => !lightKeys.has(clueRefKey(ref)))
+    if (missing.length === 0) continue
+    errors.push({
+      number: refs[0]!.number,
+      direction: refs[0]!.direction,
+      errorType: 'missing_clue',
+      expectedLength: 0,
+      actualLength: 0,
+      message: `Clue ${entryLabel(refs)} links to ${missing.map((ref) => `${ref.number} ${ref.direction}`).join(', ')}, which the grid does not have`,
+      cells: [],
+    })
+  }
 
-    while (r < grid.length && c < grid[0].length && grid[r][c] !== 'B') {
-      cells.push({ r, c })
-      if (clue.direction === 'across') c++
-      else r++
-    }
+  for (const entry of entries) {
+    const clue = entry.head
+    const label = entryLabel(entry.lights)
+    // Lights end at a block, a bar or the edge of the grid
+    const cells = getEntryCells(grid, entry)
 
-    const actualLength = cells.length
+    // Rebus cells hold several letters of the answer
+    const actualLength = cells.reduce((sum, cell) => sum + (rebus[`${cell.r}-${cell.c}`] ?? 1), 0)
 
     const answerList = answers[clue.direction]
     const answerEntry = answerList?.find((a) => a.number === clue.number)
@@ -57,7 +88,7 @@ export function checkGridIntegrity(
         errorType: 'missing_clue',
         expectedLength: 0,
         actualLength,
-        message: `Clue ${clue.number} ${clue.direction} not found in answers`,
+        message: `Clue ${label} not found in answers`,
         cells,
       })
       continue
@@ -74,7 +105,7 @@ export function checkGridIntegrity(
         errorType: 'blocked_cell',
         expectedLength,
         actualLength: 0,
-        message: `Clue ${clue.number} ${clue.direction}: Answer starts at a blocked cell`,
+        message: `Clue ${label}: Answer starts at a blocked cell`,
         cells,
       })
       continue
@@ -88,7 +119,7 @@ export function checkGridIntegrity(
         errorType: 'blocked_cell',
         expectedLength,
         actualLength,
-        message: `Clue ${clue.number} ${clue.direction}: Contains blocked cells in answer path (${actualLength} cells but expected ${expectedLength})`,
+        message: `Clue ${label}: Contains blocked cells in answer path (${actualLength} cells but expected ${expectedLength})`,
         cells,
       })
       continue
@@ -101,7 +132,30 @@ export function checkGridIntegrity(
         errorType: 'length_mismatch',
         expectedLength,
         actualLength,
-        message: `Clue ${clue.number} ${clue.direction}: Grid has ${actualLength} cells but answer "${decrypted}" has ${expectedLength} letters`,
+        message: `Clue ${label}: Grid has room for ${actualLength} letters but answer "${decrypted}" has ${expectedLength} letters`,
+        cells,
+      })
+      continue
+    }
+
+    const headClue = clues?.[clue.direction]?.find((c) => c.number === clue.number)
+    const enumeration = headClue ? clueEnumeration(headClue) : null
+    if (!enumeration) continue
+
+    // An answer stored without spaces or hyphens can only be checked for length
+    const spacing = enumerationFromAnswer(decrypted)
+    const spaced = spacing !== null && spacing.words.length > 1
+    if (
+      enumerationLength(enumeration) !== expectedLength ||
+      (spaced && !sameEnumeration(enumeration, spacing))
+    ) {
+      errors.push({
+        number: clue.number,
+        direction: clue.direction,
+        errorType: 'enumeration_mismatch',
+        expectedLength,
+        actualLength,
+        message: `Clue ${label}: Enumeration (${formatEnumeration(enumeration)}) does not match answer "${decrypted}"${spaced ? ` (${formatEnumeration(spacing)})` : ''}`,
         cells,
       })
     }
@@ -110,8 +164,8 @@ export function checkGridIntegrity(
   return {
     isValid: errors.length === 0,
     errors,
-    totalClues: metadata.length,
-    validClues: metadata.length - errors.filter((e) => e.errorType !== 'missing_clue').length,
+    totalClues: entries.length,
+    validClues: entries.length - errors.filter((e) => e.errorType !== 'missing_clue').length,
   }
 }
 
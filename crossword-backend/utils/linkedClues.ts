@@ -0,0 +1,84 @@
+import type { Enumeration } from './enumeration'
+import type { Direction } from './gridCells'
+
+export interface ClueRef {
+  number: number
+  direction: Direction
+}
+
+/**
+ * A clue as stored in a puzzle's clue JSON. An answer split across several
+ * lights ("5/14 Across") is clued once, on its first light, which lists the
+ * lights the answer carries on into, in order:
+ *
+ *   { "number": 5, "clue": "...", "continued": [{ "number": 14, "direction": "across" }] }
+ *   { "number": 14, "clue": "See 5" }
+ *
+ * The answer key holds the whole answer under the first light.
+ */
+export interface PuzzleClue {
+  number: number
+  clue: string
+  continued?: ClueRef[]
+  // Parsed from the clue text when the puzzle is saved (see enumeration.ts)
+  enumeration?: Enumeration
+}
+
+export interface PuzzleClues {
+  across?: PuzzleClue[]
+  down?: PuzzleClue[]
+}
+
+export const clueRefKey = (ref: ClueRef) => `${ref.number}-${ref.direction}`
+
+// The reverse of clueRefKey, for keys such as "5-across"
+export function parseClueRefKey(key: string): ClueRef | null {
+  const match = key.match(/^(\d+)-(across|down)$/)
+  return match ? { number: Number(match[1]), direction: match[2] as Direction } : null
+}
+
+const isClueRef = (value: any): value is ClueRef =>
+  Number.isInteger(value?.number) && (value?.direction === 'across' || value?.direction === 'down')
+
+/**
+ * Every linked answer in the puzzle, each as its lights in answer order
+ * (the clued light first). Unlinked clues are left out.
+ */
+export function getLinkedEntries(clues: PuzzleClues | null | undefined): ClueRef[][] {
+  const entries: ClueRef[][] = []
+  for (const direction of ['across', 'down'] as const) {
+    for (const clue of clues?.[direction] ?? []) {
+      const continued = Array.isArray(clue?.continued) ? clue.continued.filter(isClueRef) : []
+      if (continued.length === 0) continue
+      entries.push([
+        { number: clue.number, direction },
+        ...continued.map(({ number, direction }) => ({ number, direction })),
+      ])
+    }
+  }
+  return entries
+}
+
+/**
+ * The lights answered together with `ref`, clued light first. A light that
+ * isn't linked is an answer of its own.
+ */
+export function getEntryRefs(clues: PuzzleClues | null | undefined, ref: ClueRef): ClueRef[] {
+  const key = clueRefKey(ref)
+  return getLinkedEntries(clues).find((entry) => entry.some((part) => clueRefKey(part) === key)) ?? [
+    { number: ref.number, direction: ref.direction },
+  ]
+}
+
+// The light that carries the clue and answer for `ref`
+export const getEntryHead = (clues: PuzzleClues | null | undefined, ref: ClueRef): ClueRef =>
+  getEntryRefs(clues, ref)[0]!
+
+// "5 across", "5/14 across", or "5 across/14 down" when the lights run both ways
+export function entryLabel(refs: ClueRef[]): string {
+  const direction = refs[0]?.direction
+  if (refs.every((ref) => ref.direction === direction)) {
+    return `${refs.map((ref) => ref.number).join('/')} ${direction}`
+  }
+  return refs.map((ref) => `${ref.number} ${ref.direction}`).join('/')
+}
@@ -9,15 +9,24 @@ import {
   openaiCrypticSchema,
 } from './crypticSchema'
 import { transcribeAnswersJsonSchema, TranscribeAnswersResponse } from './answerSchema'
+import { ModelUsageService, type ModelCallContext } from '../services/modelUsageService'
+import type { ExplanationProvider } from './explanationProviders'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+// Clients are built on first use: the SDK throws without an API key, and
+// importing this module (e.g. for the provider chain) shouldn't need one
+let openaiClient: OpenAI | null = null
+let openrouterClient: OpenAI | null = null
 
-const openrouter = new OpenAI({
-  apiKey: process.env.OPENROUTER_API_KEY,
-  baseURL: 'https://openrouter.ai/api/v1',
-})
+const getOpenAI = () =>
+  (openaiClient ??= new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+  }))
+
+const getOpenRouter = () =>
+  (openrouterClient ??= new OpenAI({
+    apiKey: process.env.OPENROUTER_API_KEY,
+    baseURL: 'https://openrouter.ai/api/v1',
+  }))
 
 export const getCrosswordClues = async (base64Image: string) => {
   const instructions = `
@@ -52,7 +61,8 @@ Rules:
 `
 
   // Using specific API and model as requested
-  const response = await (openai as any).responses.create({
+  const call: ModelCallContext = { provider: 'openai', model: 'gpt-5-mini', purpose: 'transcription' }
+  const response = await ModelUsageService.track<any>(call, (getOpenAI() as any).responses.create({
     model: 'gpt-5-mini',
     input: [
       {
@@ -71,7 +81,7 @@ Rules:
         type: 'json_object',
       },
     },
-  })
+  }))
 
   const outputText = response.output_text
   return JSON.parse(outputText)
@@ -101,7 +111,8 @@ Rules:
 - If a clue number is unclear, omit that clue.
 - Do not include any commentary, markdown, or extra text.`
 
-  const response = await openrouter.chat.completions.create({
+  const call: ModelCallContext = { provider: 'openrouter', model, purpose: 'transcription' }
+  const response = await ModelUsageService.track(call, getOpenRouter().chat.completions.create({
     model,
     messages: [
       {
@@ -113,7 +124,7 @@ Rules:
       },
     ],
     response_format: { type: 'json_object' },
-  })
+  }))
 
   const content = response.choices[0]?.message?.content
   if (!content) throw new Error('No content received from OpenRouter')
@@ -148,7 +159,8 @@ Extract all puzzle IDs, across clues with their numbers and answers, and down cl
 `
 
   try {
-    const response = await (openai as any).responses.create({
+    const call: ModelCallContext = { provider: 'openai', model, purpose: 'transcription' }
+    const response = await ModelUsageService.track<any>(call, (getOpenAI() as any).responses.create({
       model,
       input: [
         {
@@ -165,7 +177,7 @@ Extract all puzzle IDs, across clues with their numbers and answers, and down cl
       text: {
         format: transcribeAnswersJsonSchema,
       },
-    })
+    }))
 
     const outputText = response.output_text
     if (!outputText) {
@@ -216,7 +228,8 @@ Return ONLY valid JSON matching this exact structure:
   ]
 }`
 
-  const response = await openrouter.chat.completions.create({
+  const call: ModelCallContext = { provider: 'openrouter', model, purpose: 'transcription' }
+  const response = await ModelUsageService.track(call, getOpenRouter().chat.completions.create({
     model,
     messages: [
       {
@@ -228,7 +241,7 @@ Return ONLY valid JSON matching this exact structure:
       },
     ],
     response_format: { type: 'json_object' },
-  })
+  }))
 
   const content = response.choices[0]?.message?.content
   if (!content) throw new Error('No content received from OpenRouter')
@@ -253,9 +266,17 @@ export const explainCrypticClue = async (input: {
   clue: string
   answer: string
   mode?: 'hint' | 'full'
+  puzzleId?: number
 }) => {
-  const { clue, answer, mode = 'full' } = input
-  const response = await (openai as any).responses.create(buildExplanationRequestBody(clue, answer, mode))
+  const { clue, answer, mode = 'full', puzzleId } = input
+  const body = buildExplanationRequestBody(clue, answer, mode)
+  const call: ModelCallContext = {
+    provider: 'openai',
+    model: body.model,
+    purpose: mode === 'hint' ? 'hint' : 'explanation',
+    puzzleId,
+  }
+  const response = await ModelUsageService.track<any>(call, (getOpenAI() as any).responses.create(body))
   const outputText = response.output_text
   if (!outputText) throw new Error('No content received from OpenAI')
   return JSON.parse(outputText)
@@ -266,8 +287,9 @@ export const regenerateCrypticClueExplanation = async (input: {
   answer: string
   feedback: string
   previousExplanation?: any
+  puzzleId?: number
 }) => {
-  const { clue, answer, feedback } = input
+  const { clue, answer, feedback, puzzleId } = input
 
   const body = buildExplanationRequestBody(clue, answer)
   // Append feedback as an additional user message after the main prompt
@@ -286,7 +308,16 @@ export const regenerateCrypticClueExplanation = async (input: {
 
   console.log('[regenerateCrypticClueExplanation] Sending request to OpenAI (gpt-5-mini)...')
   const startTime = performance.now()
-  const response = await (openai as any).responses.create({ ...body, input: inputWithFeedback })
+  const call: ModelCallContext = {
+    provider: 'openai',
+    model: body.model,
+    purpose: 'explanation',
+    puzzleId,
+  }
+  const response = await ModelUsageService.track<any>(
+    call,
+    (getOpenAI() as any).responses.create({ ...body, input: inputWithFeedback }),
+  )
   const duration = (performance.now() - startTime) / 1000
   console.log(`[regenerateCrypticClueExplanation] Received response in ${duration.toFixed(2)}s`)
 
@@ -296,6 +327,17 @@ export const regenerateCrypticClueExplanation = async (input: {
   return JSON.parse(outputText)
 }
 
+/**
+ * Explanations from OpenAI directly, for use in an ExplanationGenerator chain
+ */
+export const openAiExplanationProvider: ExplanationProvider = {
+  name: 'openai:gpt-5-mini',
+  explain: (request) =>
+    request.feedback
+      ? regenerateCrypticClueExplanation({ ...request, feedback: request.feedback })
+      : explainCrypticClue(request),
+}
+
 const test = async () => {
   const args = Bun.argv.slice(2)
   const input = {
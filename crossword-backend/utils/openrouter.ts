@@ -1,6 +1,8 @@
 import { OpenRouter } from '@openrouter/sdk'
-import { crypticSchema, crypticInstructions } from './crypticSchema'
+import { openaiCrypticSchema, crypticInstructions } from './crypticSchema'
+import type { ExplanationProvider } from './explanationProviders'
 import { OPENROUTER_MODELS } from '../config'
+import { ModelUsageService, type ModelCallContext } from '../services/modelUsageService'
 
 const client = new OpenRouter({
   apiKey: process.env.OPENROUTER_API_KEY,
@@ -27,7 +29,8 @@ Rules:
 - If a clue number is unclear, omit that clue.
 `
 
-  const result = await client.chat.send({
+  const call: ModelCallContext = { provider: 'openrouter', model, purpose: 'transcription' }
+  const result = await ModelUsageService.track(call, client.chat.send({
     chatRequest: {
       model,
       messages: [
@@ -83,7 +86,7 @@ Rules:
       plugins: [{ id: 'response-healing' }],
       stream: false,
     },
-  })
+  }))
 
   const content = result?.choices[0]?.message.content
   if (!content) throw new Error('No content received from OpenRouter')
@@ -124,7 +127,12 @@ export const generateGrid = async (input: any) => {
 `
 
   try {
-    const result = await client.chat.send({
+    const call: ModelCallContext = {
+      provider: 'openrouter',
+      model: 'google/gemini-3-flash-preview',
+      purpose: 'transcription',
+    }
+    const result = await ModelUsageService.track(call, client.chat.send({
       chatRequest: {
         model: 'google/gemini-3-flash-preview',
         messages: [
@@ -169,7 +177,7 @@ export const generateGrid = async (input: any) => {
         plugins: [{ id: 'response-healing' }],
         stream: false,
       },
-    })
+    }))
 
     const content = result?.choices[0]?.message.content
 
@@ -222,7 +230,8 @@ export const transcribeAnswers = async (input: any, model = models.flash) => {
 `
 
   try {
-    const result = await client.chat.send({
+    const call: ModelCallContext = { provider: 'openrouter', model, purpose: 'transcription' }
+    const result = await ModelUsageService.track(call, client.chat.send({
       chatRequest: {
         model,
         messages: [
@@ -295,7 +304,7 @@ export const transcribeAnswers = async (input: any, model = models.flash) => {
         plugins: [{ id: 'response-healing' }],
         stream: false,
       },
-    })
+    }))
 
     const content = result?.choices[0]?.message.content
 
@@ -322,66 +331,22 @@ export const explainCrypticClue = async (input: {
   mode?: 'hint' | 'full'
   model?: string
   timeoutMs?: number
+  // Puzzle the spend is charged to in the model call ledger
+  puzzleId?: number
 }) => {
-  const { clue, answer, mode = 'full', model = models['deepseek-pro'], timeoutMs = 60_000 } = input
-
-  const controller = new AbortController()
-  const timer = setTimeout(() => controller.abort(), timeoutMs)
-
-  try {
-    const fetchPromise = client.chat.send({
-      chatRequest: {
-        model: model,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: crypticInstructions },
-              {
-                type: 'text',
-                text: `Clue: ${clue}\nAnswer: ${answer}`,
-              },
-            ],
-          },
-        ],
-        responseFormat: {
-          type: 'json_schema',
-          jsonSchema: {
-            name: crypticSchema.name,
-            strict: crypticSchema.strict,
-            schema: crypticSchema.schema,
-          },
-        },
-        plugins: [{ id: 'response-healing' }],
-        maxTokens: 16000,
-        stream: false,
-      },
-    })
-
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      controller.signal.addEventListener('abort', () =>
-        reject(new Error(`Request timed out after ${timeoutMs / 1000}s (model: ${model})`)),
-      )
-    })
-
-    const result = await Promise.race([fetchPromise, timeoutPromise])
-
-    const content = result?.choices[0]?.message.content
-
-    if (!content) {
-      throw new Error('No content received from OpenRouter')
-    }
-
-    if (typeof content !== 'string') {
-      throw new Error('Expected string content from OpenRouter')
-    }
-
-    return JSON.parse(content)
-  } catch (error) {
-    throw error
-  } finally {
-    clearTimeout(timer)
-  }
+  const { clue, answer, mode = 'full', model = models['deepseek-pro'], timeoutMs = 60_000, puzzleId } = input
+
+  return requestExplanation({
+    messages: [explanationPrompt(clue, answer)],
+    model,
+    timeoutMs,
+    call: {
+      provider: 'openrouter',
+      model,
+      purpose: mode === 'hint' ? 'hint' : 'explanation',
+      puzzleId,
+    },
+  })
 }
 
 export const regenerateCrypticClueExplanation = async (input: {
@@ -391,59 +356,95 @@ export const regenerateCrypticClueExplanation = async (input: {
   previousExplanation?: any
   model?: string
   timeoutMs?: number
+  puzzleId?: number
 }) => {
-  const { clue, answer, feedback, previousExplanation, model = models['deepseek-pro'], timeoutMs = 120_000 } = input
+  const {
+    clue,
+    answer,
+    feedback,
+    previousExplanation,
+    model = models['deepseek-pro'],
+    timeoutMs = 120_000,
+    puzzleId,
+  } = input
+
+  const followUp = previousExplanation
+    ? `Previous explanation:\n${JSON.stringify(previousExplanation, null, 2)}\n\nThe previous explanation had this issue:\n"${feedback}"\n\nPlease provide a corrected explanation that addresses this.`
+    : `Feedback for the explanation: ${feedback}`
+
+  console.log(`[regenerateCrypticClueExplanation] Sending request via OpenRouter (${model})...`)
+  const startTime = performance.now()
+
+  const explanation = await requestExplanation({
+    messages: [
+      explanationPrompt(clue, answer),
+      { role: 'user', content: [{ type: 'text', text: followUp }] },
+    ],
+    model,
+    timeoutMs,
+    call: { provider: 'openrouter', model, purpose: 'explanation', puzzleId },
+  })
 
-  const controller = new AbortController()
-  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  const duration = (performance.now() - startTime) / 1000
+  console.log(`[regenerateCrypticClueExplanation] Received response in ${duration.toFixed(2)}s`)
 
-  try {
-    const messages: Array<{ role: 'user'; content: Array<{ type: 'text'; text: string }> }> = [
-      {
-        role: 'user',
-        content: [
-          { type: 'text', text: crypticInstructions },
-          { type: 'text', text: `Clue: ${clue}\nAnswer: ${answer}` },
-        ],
-      },
-    ]
+  return explanation
+}
 
-    if (previousExplanation) {
-      messages.push({
-        role: 'user',
-        content: [
-          { type: 'text', text: `Previous explanation:\n${JSON.stringify(previousExplanation, null, 2)}\n\nThe previous explanation had this issue:\n"${feedback}"\n\nPlease provide a corrected explanation that addresses this.` },
-        ],
-      })
-    } else {
-      messages.push({
-        role: 'user',
-        content: [
-          { type: 'text', text: `Feedback for the explanation: ${feedback}` },
-        ],
-      })
-    }
+/**
+ * Explanations from one OpenRouter model, for use in an ExplanationGenerator chain
+ */
+export const openRouterExplanationProvider = (
+  model = models['deepseek-pro'],
+): ExplanationProvider => ({
+  name: `openrouter:${model}`,
+  explain: (request) =>
+    request.feedback
+      ? regenerateCrypticClueExplanation({ ...request, feedback: request.feedback, model })
+      : explainCrypticClue({ ...request, model }),
+})
 
-    console.log(`[regenerateCrypticClueExplanation] Sending request via OpenRouter (${model})...`)
-    const startTime = performance.now()
+type ExplanationMessage = { role: 'user'; content: Array<{ type: 'text'; text: string }> }
 
-    const fetchPromise = client.chat.send({
+const explanationPrompt = (clue: string, answer: string): ExplanationMessage => ({
+  role: 'user',
+  content: [
+    { type: 'text', text: crypticInstructions },
+    { type: 'text', text: `Clue: ${clue}\nAnswer: ${answer}` },
+  ],
+})
+
+// Shared by explain and regenerate. The response format comes from
+// CrypticExplanationZodSchema, converted to the strict JSON Schema subset.
+const requestExplanation = async (input: {
+  messages: ExplanationMessage[]
+  model: string
+  timeoutMs: number
+  call: ModelCallContext
+}) => {
+  const { messages, model, timeoutMs, call } = input
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const fetchPromise = ModelUsageService.track(call, client.chat.send({
       chatRequest: {
         model,
         messages,
         responseFormat: {
           type: 'json_schema',
           jsonSchema: {
-            name: crypticSchema.name,
-            strict: crypticSchema.strict,
-            schema: crypticSchema.schema,
+            name: openaiCrypticSchema.name,
+            strict: openaiCrypticSchema.strict,
+            schema: openaiCrypticSchema.schema,
           },
         },
         plugins: [{ id: 'response-healing' }],
         maxTokens: 16000,
         stream: false,
       },
-    })
+    }))
 
     const timeoutPromise = new Promise<never>((_, reject) => {
       controller.signal.addEventListener('abort', () =>
@@ -452,8 +453,6 @@ export const regenerateCrypticClueExplanation = async (input: {
     })
 
     const result = await Promise.race([fetchPromise, timeoutPromise])
-    const duration = (performance.now() - startTime) / 1000
-    console.log(`[regenerateCrypticClueExplanation] Received response in ${duration.toFixed(2)}s`)
 
     const content = result?.choices[0]?.message.content
 
@@ -13,6 +13,7 @@
 
 import { OpenRouter } from '@openrouter/sdk'
 import { OPENROUTER_MODELS } from '../config'
+import { ModelUsageService, type ModelCallContext } from '../services/modelUsageService'
 import { buildSkeletonFromExplanation } from './parsewordsSkeleton'
 import { validatePuzzle } from './parsewordsSolver'
 
@@ -124,6 +125,7 @@ Return ONLY the puzzle JSON object with this shape (no commentary):
 export async function enhanceSkeletonPuzzle(
   skeleton: ParsewordsPuzzle,
   model = DEFAULT_MODEL,
+  puzzleId?: number,
 ): Promise<ParsewordsPuzzle> {
   const userMessage = `Here is the SKELETON Parsewords puzzle (correct path only). Enhance it with genuine wrong options and red herrings per the rules. Keep the correct path intact.
 
@@ -131,7 +133,8 @@ ${JSON.stringify(skeleton, null, 2)}
 
 Return only the enhanced JSON puzzle object, no other text.`
 
-  const result = await client.chat.send({
+  const call: ModelCallContext = { provider: 'openrouter', model, purpose: 'parsewords', puzzleId }
+  const result = await ModelUsageService.track(call, client.chat.send({
     chatRequest: {
       model,
       messages: [
@@ -141,7 +144,7 @@ Return only the enhanced JSON puzzle object, no other text.`
       responseFormat: { type: 'json_object' },
       stream: false,
     },
-  })
+  }))
 
   const content = result?.choices[0]?.message.content
   if (!content) throw new Error('Empty response from model')
@@ -183,6 +186,7 @@ export async function generateParsewordsPuzzle(
   answer: string,
   explanationJson: unknown,
   model = DEFAULT_MODEL,
+  puzzleId?: number,
 ): Promise<ParsewordsPuzzle> {
   // 1. Deterministic skeleton (guaranteed correct path)
   const skeleton = buildSkeletonFromExplanation(
@@ -202,7 +206,7 @@ export async function generateParsewordsPuzzle(
   // 2. LLM enhancement
   let enhanced: ParsewordsPuzzle
   try {
-    enhanced = await enhanceSkeletonPuzzle(skeleton, model)
+    enhanced = await enhanceSkeletonPuzzle(skeleton, model, puzzleId)
   } catch (err) {
     // If the model call/parse fails, the bare skeleton is still a valid puzzle.
     return skeleton
@@ -261,7 +265,13 @@ if (import.meta.main) {
   }
 
   const start = performance.now()
-  const result = await generateParsewordsPuzzle(row.clue_text, row.answer, explanation, modelSlug)
+  const result = await generateParsewordsPuzzle(
+    row.clue_text,
+    row.answer,
+    explanation,
+    modelSlug,
+    row.puzzle_id,
+  )
   const elapsed = ((performance.now() - start) / 1000).toFixed(2)
 
   console.log('Enhanced puzzle:')
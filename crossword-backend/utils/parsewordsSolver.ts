@@ -30,7 +30,7 @@ export type ValidationResult =
   | { solvable: true; path: PathStep[] }
   | { solvable: false; reason: string }
 
-const normalize = (s: string): string => s.replace(/[^a-zA-Z]/g, '').toUpperCase()
+export const normalize = (s: string): string => s.replace(/[^a-zA-Z]/g, '').toUpperCase()
 
 const computeFns: Record<string, (s: string) => string> = {
   'trim-last': (s) => s.slice(0, -1),
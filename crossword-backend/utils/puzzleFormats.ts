@@ -0,0 +1,616 @@
+import type { CellType, Direction } from './answerChecker'
+import {
+  extractClueMetadata,
+  getEntryCells,
+  groupLinkedLights,
+  rot13,
+  splitAnswer,
+} from './answerChecker'
+import { parseRebusCells, type RebusCells } from './stateHelpers'
+import { openAnswers } from './answerVault'
+import { ENUMERATION_REGEX } from './enumeration'
+import { hasBottomBar, hasRightBar, isBarredGrid, letterCell } from './gridCells'
+import type { ClueRef } from './linkedClues'
+
+/**
+ * Conversion between our puzzle rows and standard crossword file formats:
+ * - ipuz (JSON, http://ipuz.org)
+ * - .puz (Across Lite binary)
+ *
+ * Both directions go through PortablePuzzle, which uses our own grid model
+ * (N/W/B cells, with bars for barred grids) and plain-text answers.
+ */
+
+export type PuzzleFileFormat = 'ipuz' | 'puz'
+
+export interface PortableClue {
+  number: number
+  clue: string
+  // Lights a linked answer carries on into (see linkedClues)
+  continued?: ClueRef[]
+}
+
+export interface PortableAnswer {
+  number: number
+  answer: string
+}
+
+export interface PortablePuzzle {
+  title: string
+  author?: string
+  copyright?: string
+  notes?: string
+  grid: CellType[][]
+  clues: { across: PortableClue[]; down: PortableClue[] }
+  // Plain-text answers (NOT rot13). Null when the source has no solution.
+  answers: { across: PortableAnswer[]; down: PortableAnswer[] } | null
+  // Cells holding several letters, when the puzzle has any
+  rebus?: RebusCells
+}
+
+/**
+ * Build a PortablePuzzle from a puzzles row (grid string, clues JSON, answers_encrypted).
+ */
+export function puzzleRowToPortable(row: {
+  title: string
+  grid: string
+  clues: any
+  answers_encrypted?: string | null
+  rebus_cells?: unknown
+}): PortablePuzzle {
+  const grid = row.grid
+    .trim()
+    .split('\n')
+    .map((line) => line.trim().split(' ') as CellType[])
+  const clues = typeof row.clues === 'string' ? JSON.parse(row.clues) : row.clues
+
+  let answers: PortablePuzzle['answers'] = null
+  if (row.answers_encrypted) {
+    let parsed = openAnswers(row.answers_encrypted)
+    if (parsed?.puzzles && Array.isArray(parsed.puzzles)) {
+      parsed = parsed.puzzles[0]
+    }
+    const decode = (list: PortableAnswer[] | undefined) =>
+      (list || []).map((a) => ({ number: a.number, answer: rot13(a.answer) }))
+    answers = { across: decode(parsed?.across), down: decode(parsed?.down) }
+  }
+
+  const toClues = (list: any[] | undefined): PortableClue[] =>
+    (list || []).map((c) =>
+      Array.isArray(c.continued) && c.continued.length > 0
+        ? { number: Number(c.number), clue: String(c.clue ?? ''), continued: c.continued }
+        : { number: Number(c.number), clue: String(c.clue ?? '') },
+    )
+
+  return {
+    title: row.title,
+    grid,
+    clues: { across: toClues(clues?.across), down: toClues(clues?.down) },
+    answers,
+    rebus: parseRebusCells(row.rebus_cells),
+  }
+}
+
+/**
+ * Convert a PortablePuzzle into the fields PuzzleService.createPuzzle expects.
+ * Answers are ROT13-encoded to match answers_encrypted.
+ */
+export function portableToPuzzleFields(puzzle: PortablePuzzle): {
+  title: string
+  grid: string
+  clues: { across: PortableClue[]; down: PortableClue[] }
+  answersEncrypted: { across: PortableAnswer[]; down: PortableAnswer[] } | null
+  rebusCells: RebusCells
+} {
+  const encode = (list: PortableAnswer[]) =>
+    list.map((a) => ({ number: a.number, answer: rot13(a.answer) }))
+
+  return {
+    title: puzzle.title,
+    grid: puzzle.grid.map((row) => row.join(' ')).join('\n'),
+    clues: puzzle.clues,
+    answersEncrypted: puzzle.answers
+      ? { across: encode(puzzle.answers.across), down: encode(puzzle.answers.down) }
+      : null,
+    rebusCells: puzzle.rebus ?? {},
+  }
+}
+
+export interface CellBars {
+  right: boolean
+  bottom: boolean
+}
+
+/**
+ * Mark every white cell that starts an across or down light as 'N', the rest as 'W'.
+ * File formats only tell us which cells are blocks (and, for barred grids, where
+ * the bars are); numbering is derived.
+ */
+export function numberGrid(blocks: boolean[][], bars?: CellBars[][]): CellType[][] {
+  const height = blocks.length
+  const width = blocks[0]?.length ?? 0
+  const open = (r: number, c: number) =>
+    r >= 0 && r < height && c >= 0 && c < width && !blocks[r]![c]
+  const joinsRight = (r: number, c: number) =>
+    open(r, c) && open(r, c + 1) && !bars?.[r]?.[c]?.right
+  const joinsBelow = (r: number, c: number) =>
+    open(r, c) && open(r + 1, c) && !bars?.[r]?.[c]?.bottom
+
+  return blocks.map((row, r) =>
+    row.map((isBlock, c) => {
+      if (isBlock) return 'B'
+      const startsAcross = !joinsRight(r, c - 1) && joinsRight(r, c)
+      const startsDown = !joinsBelow(r - 1, c) && joinsBelow(r, c)
+      return letterCell(
+        startsAcross || startsDown,
+        open(r, c + 1) && !!bars?.[r]?.[c]?.right,
+        open(r + 1, c) && !!bars?.[r]?.[c]?.bottom,
+      )
+    }),
+  )
+}
+
+/**
+ * Lay the answers out on the grid, one string per cell ('' where unknown, null for blocks).
+ * Rebus cells get all of their letters; a linked answer fills all of its lights.
+ */
+export function buildSolutionGrid(puzzle: PortablePuzzle): (string | null)[][] {
+  const { grid } = puzzle
+  const solution: (string | null)[][] = grid.map((row) =>
+    row.map((cell) => (cell === 'B' ? null : '')),
+  )
+  if (!puzzle.answers) return solution
+
+  for (const lights of groupLinkedLights(extractClueMetadata(grid), puzzle.clues)) {
+    const { head } = lights
+    const entry = puzzle.answers[head.direction].find((a) => a.number === head.number)
+    if (!entry) continue
+    const letters = entry.answer.toUpperCase().replace(/[^A-Z]/g, '')
+    const cells = getEntryCells(grid, lights)
+    splitAnswer(letters, cells, puzzle.rebus).forEach((value, i) => {
+      if (value) solution[cells[i]!.r]![cells[i]!.c] = value
+    })
+  }
+
+  return solution
+}
+
+/**
+ * Read answers back off a solution grid. Lights with any unknown cell are skipped;
+ * a linked answer is read across all of its lights and filed under the first.
+ */
+function answersFromSolution(
+  grid: CellType[][],
+  solution: (string | null)[][],
+  clues?: PortablePuzzle['clues'],
+): { across: PortableAnswer[]; down: PortableAnswer[] } {
+  const answers: { across: PortableAnswer[]; down: PortableAnswer[] } = { across: [], down: [] }
+
+  for (const lights of groupLinkedLights(extractClueMetadata(grid), clues)) {
+    const item = lights.head
+    let word = ''
+    let complete = true
+    for (const { r, c } of getEntryCells(grid, lights)) {
+      const value = solution[r]?.[c]
+      if (!value) complete = false
+      word += value || ''
+    }
+    if (complete && word) {
+      answers[item.direction].push({ number: item.number, answer: word.toUpperCase() })
+    }
+  }
+
+  return answers
+}
+
+// ---------------------------------------------------------------------------
+// ipuz
+// ---------------------------------------------------------------------------
+
+export function toIpuz(puzzle: PortablePuzzle): Record<string, unknown> {
+  const metadata = extractClueMetadata(puzzle.grid)
+  const numberAt = new Map<string, number>()
+  for (const item of metadata) {
+    numberAt.set(`${item.row}-${item.col}`, item.number)
+  }
+
+  const solution = buildSolutionGrid(puzzle)
+  const hasSolution = puzzle.answers !== null
+
+  const ipuzClues = (list: PortableClue[]) =>
+    list.map((c) => {
+      const match = c.clue.match(ENUMERATION_REGEX)
+      const clue: Record<string, unknown> = match
+        ? { number: c.number, clue: c.clue, enumeration: match[1]!.replace(/\s/g, '') }
+        : { number: c.number, clue: c.clue }
+      if (c.continued?.length) {
+        clue.continued = c.continued.map((ref) => ({
+          number: ref.number,
+          direction: ref.direction === 'across' ? 'Across' : 'Down',
+        }))
+      }
+      return clue
+    })
+
+  const ipuz: Record<string, unknown> = {
+    version: 'http://ipuz.org/v2',
+    kind: ['http://ipuz.org/crossword#1'],
+    title: puzzle.title,
+    dimensions: { width: puzzle.grid[0]?.length ?? 0, height: puzzle.grid.length },
+    block: '#',
+    empty: 0,
+    puzzle: puzzle.grid.map((row, r) =>
+      row.map((cell, c) => {
+        if (cell === 'B') return '#'
+        const number = numberAt.get(`${r}-${c}`) ?? 0
+        const barred = `${hasRightBar(cell) ? 'R' : ''}${hasBottomBar(cell) ? 'B' : ''}`
+        return barred ? { cell: number, style: { barred } } : number
+      }),
+    ),
+    clues: {
+      Across: ipuzClues(puzzle.clues.across),
+      Down: ipuzClues(puzzle.clues.down),
+    },
+  }
+
+  if (hasSolution) {
+    ipuz.solution = solution.map((row) => row.map((cell) => (cell === null ? '#' : cell || null)))
+  }
+  if (puzzle.author) ipuz.author = puzzle.author
+  if (puzzle.copyright) ipuz.copyright = puzzle.copyright
+  if (puzzle.notes) ipuz.notes = puzzle.notes
+
+  return ipuz
+}
+
+// ipuz bars can sit on any side of a cell ("barred": "TRBL"); a left or top bar
+// becomes the right or bottom bar of the neighbouring cell
+function readIpuzBars(puzzle: unknown[][], height: number, width: number): CellBars[][] | undefined {
+  const bars: CellBars[][] = Array.from({ length: height }, () =>
+    Array.from({ length: width }, () => ({ right: false, bottom: false })),
+  )
+  let found = false
+  for (let r = 0; r < height; r++) {
+    for (let c = 0; c < width; c++) {
+      const cell = puzzle[r]?.[c]
+      const sides = (cell as any)?.style?.barred
+      if (typeof sides !== 'string') continue
+      const upper = sides.toUpperCase()
+      if (upper.includes('R')) bars[r]![c]!.right = true
+      if (upper.includes('B')) bars[r]![c]!.bottom = true
+      if (upper.includes('L') && c > 0) bars[r]![c - 1]!.right = true
+      if (upper.includes('T') && r > 0) bars[r - 1]![c]!.bottom = true
+      found = true
+    }
+  }
+  return found ? bars : undefined
+}
+
+function ipuzCellValue(cell: unknown): unknown {
+  if (cell && typeof cell === 'object' && !Array.isArray(cell)) {
+    const obj = cell as Record<string, unknown>
+    return obj.cell ?? obj.value ?? null
+  }
+  return cell
+}
+
+function parseIpuzClue(entry: unknown): PortableClue | null {
+  if (Array.isArray(entry)) {
+    const [num, text] = entry
+    return { number: Number(num), clue: String(text ?? '') }
+  }
+  if (entry && typeof entry === 'object') {
+    const obj = entry as Record<string, unknown>
+    let text = String(obj.clue ?? '')
+    const enumeration = obj.enumeration
+    if (enumeration && !ENUMERATION_REGEX.test(text)) {
+      text = `${text} (${enumeration})`
+    }
+    // Linked answers list the lights they carry on into as "continued"
+    const continued = Array.isArray(obj.continued)
+      ? obj.continued
+          .map((ref: any) => ({
+            number: Number(ref?.number),
+            direction: String(ref?.direction ?? '').toLowerCase() as Direction,
+          }))
+          .filter(
+            (ref) =>
+              Number.isInteger(ref.number) && (ref.direction === 'across' || ref.direction === 'down'),
+          )
+      : []
+    return continued.length > 0
+      ? { number: Number(obj.number), clue: text, continued }
+      : { number: Number(obj.number), clue: text }
+  }
+  if (typeof entry === 'string') {
+    const match = entry.match(/^(\d+)\s+(.*)$/)
+    if (match) return { number: Number(match[1]), clue: match[2]! }
+  }
+  return null
+}
+
+export function fromIpuz(input: string | Record<string, unknown>): PortablePuzzle {
+  const data: any = typeof input === 'string' ? JSON.parse(input) : input
+
+  const kinds: string[] = Array.isArray(data?.kind) ? data.kind : []
+  if (!kinds.some((k) => k.startsWith('http://ipuz.org/crossword'))) {
+    throw new Error('ipuz file is not a crossword')
+  }
+  if (!Array.isArray(data.puzzle) || data.puzzle.length === 0) {
+    throw new Error('ipuz file has no puzzle grid')
+  }
+
+  const blockChar = data.block ?? '#'
+  const height: number = data.dimensions?.height ?? data.puzzle.length
+  const width: number = data.dimensions?.width ?? data.puzzle[0].length
+
+  const blocks: boolean[][] = []
+  for (let r = 0; r < height; r++) {
+    const row: boolean[] = []
+    for (let c = 0; c < width; c++) {
+      const value = ipuzCellValue(data.puzzle[r]?.[c])
+      // null cells are "omitted" in ipuz; we can only represent them as blocks
+      row.push(value === null || value === undefined || value === blockChar)
+    }
+    blocks.push(row)
+  }
+  const grid = numberGrid(blocks, readIpuzBars(data.puzzle, height, width))
+
+  const clues: PortablePuzzle['clues'] = { across: [], down: [] }
+  for (const [key, list] of Object.entries(data.clues ?? {})) {
+    const direction = key.split(':')[0]!.toLowerCase() as Direction
+    if (direction !== 'across' && direction !== 'down') continue
+    for (const entry of list as unknown[]) {
+      const clue = parseIpuzClue(entry)
+      if (clue && Number.isFinite(clue.number)) clues[direction].push(clue)
+    }
+  }
+
+  let answers: PortablePuzzle['answers'] = null
+  const rebus: RebusCells = {}
+  if (Array.isArray(data.solution)) {
+    const solution: (string | null)[][] = grid.map((row, r) =>
+      row.map((cell, c) => {
+        if (cell === 'B') return null
+        const value = ipuzCellValue(data.solution[r]?.[c])
+        return typeof value === 'string' && value !== blockChar ? value.toUpperCase() : ''
+      }),
+    )
+    answers = answersFromSolution(grid, solution, clues)
+    solution.forEach((row, r) =>
+      row.forEach((value, c) => {
+        if (value && value.length > 1) rebus[`${r}-${c}`] = value.length
+      }),
+    )
+  }
+
+  return {
+    title: String(data.title || 'Untitled'),
+    author: data.author ? String(data.author) : undefined,
+    copyright: data.copyright ? String(data.copyright) : undefined,
+    notes: data.notes ? String(data.notes) : undefined,
+    grid,
+    clues,
+    answers,
+    rebus,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// .puz (Across Lite)
+// ---------------------------------------------------------------------------
+
+const PUZ_MAGIC = 'ACROSS&DOWN\0'
+const PUZ_HEADER_SIZE = 0x34
+
+function puzChecksum(bytes: Uint8Array, seed = 0): number {
+  let cksum = seed
+  for (const byte of bytes) {
+    cksum = cksum & 1 ? (cksum >> 1) + 0x8000 : cksum >> 1
+    cksum = (cksum + byte) & 0xffff
+  }
+  return cksum
+}
+
+function latin1(str: string): Uint8Array {
+  const bytes = new Uint8Array(str.length)
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i)
+    bytes[i] = code < 256 ? code : 0x3f // '?'
+  }
+  return bytes
+}
+
+function stringsChecksum(
+  title: string,
+  author: string,
+  copyright: string,
+  clues: string[],
+  notes: string,
+  seed: number,
+): number {
+  let cksum = seed
+  if (title) cksum = puzChecksum(latin1(title + '\0'), cksum)
+  if (author) cksum = puzChecksum(latin1(author + '\0'), cksum)
+  if (copyright) cksum = puzChecksum(latin1(copyright + '\0'), cksum)
+  for (const clue of clues) cksum = puzChecksum(latin1(clue), cksum)
+  if (notes) cksum = puzChecksum(latin1(notes + '\0'), cksum)
+  return cksum
+}
+
+/**
+ * .puz clues are stored in a single list, ordered by number with across before down.
+ */
+function orderedPuzClues(grid: CellType[][]) {
+  return extractClueMetadata(grid).sort(
+    (a, b) => a.number - b.number || (a.direction === 'across' ? -1 : 1),
+  )
+}
+
+export function toPuz(puzzle: PortablePuzzle): Uint8Array {
+  const { grid } = puzzle
+  const height = grid.length
+  const width = grid[0]?.length ?? 0
+
+  if (width > 255 || height > 255) {
+    throw new Error('Grid is too large for .puz')
+  }
+  if (isBarredGrid(grid)) {
+    throw new Error('.puz has no way to store bars; export barred grids as ipuz')
+  }
+
+  const solutionGrid = buildSolutionGrid(puzzle)
+  let solution = ''
+  let state = ''
+  for (let r = 0; r < height; r++) {
+    for (let c = 0; c < width; c++) {
+      const cell = solutionGrid[r]![c]
+      if (cell === null) {
+        solution += '.'
+        state += '.'
+      } else {
+        if (!cell) {
+          throw new Error('.puz export requires a complete solution')
+        }
+        // .puz rebus needs the GRBS/RTBL extra sections; fall back to the first letter
+        solution += cell[0]
+        state += '-'
+      }
+    }
+  }
+
+  const clueText = orderedPuzClues(grid).map((item) => {
+    const found = puzzle.clues[item.direction].find((c) => c.number === item.number)
+    return found?.clue ?? ''
+  })
+
+  const title = puzzle.title || ''
+  const author = puzzle.author || ''
+  const copyright = puzzle.copyright || ''
+  const notes = puzzle.notes || ''
+
+  const stringsPart = latin1(
+    [title, author, copyright, ...clueText, notes].map((s) => s + '\0').join(''),
+  )
+  const solutionBytes = latin1(solution)
+  const stateBytes = latin1(state)
+
+  const out = new Uint8Array(PUZ_HEADER_SIZE + solutionBytes.length * 2 + stringsPart.length)
+  const view = new DataView(out.buffer)
+
+  out.set(latin1(PUZ_MAGIC), 0x02)
+  out.set(latin1('1.3\0'), 0x18)
+  view.setUint8(0x2c, width)
+  view.setUint8(0x2d, height)
+  view.setUint16(0x2e, clueText.length, true)
+  view.setUint16(0x30, 0x0001, true) // normal puzzle
+  view.setUint16(0x32, 0x0000, true) // not scrambled
+
+  out.set(solutionBytes, PUZ_HEADER_SIZE)
+  out.set(stateBytes, PUZ_HEADER_SIZE + solutionBytes.length)
+  out.set(stringsPart, PUZ_HEADER_SIZE + solutionBytes.length * 2)
+
+  // Checksums
+  const cib = puzChecksum(out.subarray(0x2c, 0x34))
+  const solCk = puzChecksum(solutionBytes)
+  const stateCk = puzChecksum(stateBytes)
+  const partCk = stringsChecksum(title, author, copyright, clueText, notes, 0)
+
+  let overall = cib
+  overall = puzChecksum(solutionBytes, overall)
+  overall = puzChecksum(stateBytes, overall)
+  overall = stringsChecksum(title, author, copyright, clueText, notes, overall)
+
+  view.setUint16(0x00, overall, true)
+  view.setUint16(0x0e, cib, true)
+
+  const magic = 'ICHEATED'
+  const parts = [cib, solCk, stateCk, partCk]
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(0x10 + i, magic.charCodeAt(i) ^ (parts[i]! & 0xff))
+    view.setUint8(0x14 + i, magic.charCodeAt(i + 4) ^ (parts[i]! >> 8))
+  }
+
+  return out
+}
+
+export function isPuzFile(bytes: Uint8Array): boolean {
+  if (bytes.length < PUZ_HEADER_SIZE) return false
+  const magic = String.fromCharCode(...bytes.subarray(0x02, 0x02 + PUZ_MAGIC.length))
+  return magic === PUZ_MAGIC
+}
+
+export function fromPuz(bytes: Uint8Array): PortablePuzzle {
+  if (!isPuzFile(bytes)) {
+    throw new Error('Not a valid .puz file')
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const width = view.getUint8(0x2c)
+  const height = view.getUint8(0x2d)
+  const numClues = view.getUint16(0x2e, true)
+  const scrambled = view.getUint16(0x32, true)
+
+  const size = width * height
+  if (bytes.length < PUZ_HEADER_SIZE + size * 2) {
+    throw new Error('.puz file is truncated')
+  }
+
+  const solution = bytes.subarray(PUZ_HEADER_SIZE, PUZ_HEADER_SIZE + size)
+
+  const blocks: boolean[][] = []
+  const letters: (string | null)[][] = []
+  for (let r = 0; r < height; r++) {
+    const blockRow: boolean[] = []
+    const letterRow: (string | null)[] = []
+    for (let c = 0; c < width; c++) {
+      const ch = String.fromCharCode(solution[r * width + c]!)
+      const isBlock = ch === '.' || ch === ':'
+      blockRow.push(isBlock)
+      letterRow.push(isBlock ? null : ch.toUpperCase())
+    }
+    blocks.push(blockRow)
+    letters.push(letterRow)
+  }
+  const grid = numberGrid(blocks)
+
+  // Null-terminated latin1 strings: title, author, copyright, clues..., notes
+  const strings: string[] = []
+  let current = ''
+  for (let i = PUZ_HEADER_SIZE + size * 2; i < bytes.length && strings.length < numClues + 4; i++) {
+    const byte = bytes[i]!
+    if (byte === 0) {
+      strings.push(current)
+      current = ''
+    } else {
+      current += String.fromCharCode(byte)
+    }
+  }
+
+  const [title = '', author = '', copyright = ''] = strings
+  const clueStrings = strings.slice(3, 3 + numClues)
+  const notes = strings[3 + numClues] || ''
+
+  const ordered = orderedPuzClues(grid)
+  if (ordered.length !== clueStrings.length) {
+    throw new Error(
+      `.puz clue count mismatch: grid has ${ordered.length} lights but file has ${clueStrings.length} clues`,
+    )
+  }
+
+  const clues: PortablePuzzle['clues'] = { across: [], down: [] }
+  ordered.forEach((item, i) => {
+    clues[item.direction].push({ number: item.number, clue: clueStrings[i]! })
+  })
+
+  return {
+    title: title || 'Untitled',
+    author: author || undefined,
+    copyright: copyright || undefined,
+    notes: notes || undefined,
+    grid,
+    clues,
+    // A scrambled solution can't be decoded without the key
+    answers: scrambled ? null : answersFromSolution(grid, letters),
+  }
+}
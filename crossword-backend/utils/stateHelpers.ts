@@ -1,17 +1,62 @@
-export // Set a character at position in a row string
-function setCharAt(str: string, index: number, char: string): string {
-  // Ensure the string is long enough, pad with spaces if needed
-  let paddedStr = str
-  if (paddedStr.length <= index) {
-    paddedStr = paddedStr.padEnd(index + 1, ' ')
+import { isLetterCell } from './gridCells'
+
+/**
+ * Session state is one string per row with one character per cell (a space
+ * when empty). A rebus cell holding several letters is written in brackets,
+ * e.g. "C[HEART]S" is three cells. Rows saved before rebus support never
+ * contain brackets, so they read back unchanged.
+ */
+export function parseRow(row: string): string[] {
+  if (!row.includes('[')) return row.split('')
+
+  const cells: string[] = []
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '[') {
+      const end = row.indexOf(']', i)
+      if (end !== -1) {
+        cells.push(row.substring(i + 1, end) || ' ')
+        i = end
+        continue
+      }
+    }
+    cells.push(row[i]!)
   }
-  return paddedStr.substring(0, index) + char + paddedStr.substring(index + 1)
+  return cells
 }
 
-// Get a character (handling undefined/out of bounds)
-export function getCharAt(state: string[] | undefined, r: number, c: number): string {
-  if (!state || !state[r]) return ''
-  return state[r][c] === ' ' ? '' : state[r][c] ?? ''
+export function serializeRow(cells: string[]): string {
+  return cells.map((cell) => (cell.length > 1 ? `[${cell}]` : cell || ' ')).join('')
+}
+
+// Brackets are reserved for the row encoding; blank values clear the cell
+function normalizeCell(value: string): string {
+  const cleaned = value.replace(/[[\]]/g, '')
+  if (cleaned.length <= 1) return cleaned || ' '
+  return cleaned.replace(/\s/g, '') || ' '
+}
+
+// Set a cell's contents (one letter, several for a rebus) in a row string
+export function setCellAt(row: string, index: number, value: string): string {
+  const cell = normalizeCell(value)
+
+  // Fast path for rows with no rebus cells, which is almost all of them
+  if (cell.length === 1 && !row.includes('[')) {
+    const paddedRow = row.length <= index ? row.padEnd(index + 1, ' ') : row
+    return paddedRow.substring(0, index) + cell + paddedRow.substring(index + 1)
+  }
+
+  const cells = parseRow(row)
+  while (cells.length <= index) cells.push(' ')
+  cells[index] = cell
+  return serializeRow(cells)
+}
+
+// Get a cell's contents ('' when empty or out of bounds)
+export function getCellAt(state: string[] | undefined, r: number, c: number): string {
+  const row = state?.[r]
+  if (!row) return ''
+  const cell = row.includes('[') ? parseRow(row)[c] : row[c]
+  return cell === ' ' ? '' : cell ?? ''
 }
 
 // Initialize empty state for a grid
@@ -33,14 +78,38 @@ export function migrateLegacyState(state: unknown): string[] {
 
   // Convert from string[][] format
   if (Array.isArray(state[0])) {
-    return (state as string[][]).map((row) => row.map((c) => c || ' ').join(''))
+    return (state as string[][]).map((row) => serializeRow(row.map((c) => c || ' ')))
   }
 
   return []
 }
 
+// Cells holding more than one letter (rebus squares), keyed "r-c", mapped to
+// how many letters of the answer they take
+export type RebusCells = Record<string, number>
+
+export function parseRebusCells(raw: unknown): RebusCells {
+  let parsed = raw
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      return {}
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {}
+
+  const rebus: RebusCells = {}
+  for (const [key, count] of Object.entries(parsed)) {
+    if (/^\d+-\d+$/.test(key) && Number.isInteger(count) && (count as number) > 1) {
+      rebus[key] = count as number
+    }
+  }
+  return rebus
+}
+
 /**
- * Calculate the number of fillable cells (W and N) in a grid.
+ * Calculate the number of fillable cells (W and N, barred or not) in a grid.
  * Grid format: "W B N\nW W B" (space-separated cells, newline-separated rows)
  */
 export function calculateLetterCount(grid: string): number {
@@ -48,7 +117,7 @@ export function calculateLetterCount(grid: string): number {
   let count = 0
   for (const row of rows) {
     for (const cell of row) {
-      if (cell === 'W' || cell === 'N') {
+      if (isLetterCell(cell)) {
         count++
       }
     }
@@ -57,14 +126,15 @@ export function calculateLetterCount(grid: string): number {
 }
 
 /**
- * Count the number of non-empty letters in a session state.
+ * Count the number of filled cells in a session state. A rebus cell counts
+ * once, matching calculateLetterCount.
  * State format: string[] where each string is a row, spaces are empty cells.
  */
 export function countFilledLetters(state: string[]): number {
   let count = 0
   for (const row of state) {
-    for (const char of row) {
-      if (char !== ' ' && char !== '') {
+    for (const cell of parseRow(row)) {
+      if (cell !== ' ' && cell !== '') {
         count++
       }
     }
@@ -12,12 +12,17 @@
  * - The span from the first token to the last token is replaced by
  *   the result, and the resulting text must match clue_after (normalized).
  * - The final state must contain the answer.
+ * - The step's result must follow from its operation, where that can be
+ *   checked letter by letter (see wordplayOperations.ts).
  */
 
+import { checkOperation, type OperationCheck } from './wordplayOperations'
+
 export interface StepVerification {
   stepIndex: number
   verified: boolean
   detail: string
+  operation: OperationCheck
 }
 
 export interface ExplanationVerification {
@@ -241,15 +246,19 @@ export function verifyExplanation(
     let allVerified = true
 
     for (let i = 0; i < steps.length; i++) {
-      const result = verifyStep(currentText, steps[i])
+      const step = steps[i]!
+      const result = verifyStep(currentText, step)
+      const operation = checkOperation({ ...step, tokens: tokensAsString(step.tokens) })
+      const verified = result.verified && operation.status !== 'fail'
 
       stepResults.push({
         stepIndex: i,
-        verified: result.verified,
-        detail: result.detail,
+        verified,
+        detail: result.verified && !verified ? operation.detail : result.detail,
+        operation,
       })
 
-      if (!result.verified) {
+      if (!verified) {
         allVerified = false
       }
 
@@ -279,3 +288,20 @@ export function verifyExplanation(
     }
   }
 }
+
+/**
+ * Summarise why a verification failed, one reason per failing step, in a
+ * form that can be fed back to the model when regenerating.
+ */
+export function describeVerificationFailure(result: ExplanationVerification): string {
+  const reasons = result.steps
+    .filter((s) => !s.verified)
+    .map((s) => `step ${s.stepIndex + 1}: ${s.detail}`)
+  if (result.steps.length > 0 && !result.finalAnswerPresent) {
+    reasons.push(`the final clue_after does not contain the answer ${result.answer}`)
+  }
+  if (result.error) {
+    reasons.push(result.error)
+  }
+  return reasons.join('; ')
+}
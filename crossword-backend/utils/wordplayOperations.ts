@@ -0,0 +1,257 @@
+/**
+ * Letter-level checks for the mechanical wordplay operations.
+ *
+ * verifyExplanation confirms that a step consumes contiguous tokens and
+ * produces the claimed clue_after; these checks confirm that the step's
+ * result actually follows from its operation. A step's tokens mix the
+ * fodder with its indicator (e.g. "Boss told pro about"), so each check
+ * looks for some span of the token words that works as the fodder.
+ *
+ * Operations that need a dictionary (synonym, translation, homophone) are
+ * reported as 'unchecked', as are abbreviations missing from ABBREVIATIONS.
+ */
+
+import { ABBREVIATIONS } from './abbreviations'
+
+export type OperationName =
+  | 'synonym'
+  | 'abbreviate'
+  | 'literal'
+  | 'translation'
+  | 'anagram'
+  | 'reversal'
+  | 'trim'
+  | 'delete'
+  | 'concatenate'
+  | 'container'
+  | 'hidden'
+  | 'homophone'
+  | 'initials'
+
+export interface OperationCheck {
+  // The WordplayStepSchema operation the step was read as, or null if unrecognised
+  operation: OperationName | null
+  status: 'pass' | 'fail' | 'unchecked'
+  detail: string
+}
+
+// Older explanations describe operations in free text, e.g.
+// 'reverse (indicator "having put up")' or 'insert E into ACTIC (container)'
+const OPERATION_PATTERNS: Array<[OperationName, RegExp]> = [
+  ['anagram', /anagram/],
+  ['hidden', /hidden/],
+  ['reversal', /revers/],
+  ['container', /contain|insert/],
+  ['initials', /initial|first letters/],
+  ['trim', /trim/],
+  ['delete', /delet|remov/],
+  ['concatenate', /concatenat|charade|join/],
+  ['abbreviate', /abbreviat/],
+  ['literal', /literal/],
+  ['translation', /translat/],
+  ['homophone', /homophone/],
+  ['synonym', /synonym/],
+]
+
+export function parseOperation(operation: string): OperationName | null {
+  const text = operation.toLowerCase()
+  return OPERATION_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null
+}
+
+const letters = (s: string): string => s.toUpperCase().replace(/[^A-Z]/g, '')
+
+const sorted = (s: string): string => [...s].sort().join('')
+
+const reversed = (s: string): string => [...s].reverse().join('')
+
+interface Span {
+  start: number
+  end: number
+  text: string
+  letters: string
+}
+
+/**
+ * Every run of consecutive words in the tokens, longest first
+ */
+function spansOf(words: string[]): Span[] {
+  const spans: Span[] = []
+  for (let length = words.length; length >= 1; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const run = words.slice(start, start + length)
+      spans.push({
+        start,
+        end: start + length,
+        text: run.join(' '),
+        letters: letters(run.join('')),
+      })
+    }
+  }
+  // Punctuation such as a dash is never fodder on its own
+  return spans.filter(
+    (span) => letters(words[span.start]!).length > 0 && letters(words[span.end - 1]!).length > 0,
+  )
+}
+
+const overlaps = (a: Span, b: Span): boolean => a.start < b.end && b.start < a.end
+
+// Letters of `whole` left after taking out each letter of `part`, or null
+// if `part` uses a letter `whole` doesn't have
+function subtractLetters(whole: string, part: string): string | null {
+  const remaining = [...whole]
+  for (const letter of part) {
+    const index = remaining.indexOf(letter)
+    if (index === -1) return null
+    remaining.splice(index, 1)
+  }
+  return remaining.join('')
+}
+
+function isSubsequence(short: string, long: string): boolean {
+  let i = 0
+  for (const letter of long) {
+    if (letter === short[i]) i++
+  }
+  return i === short.length
+}
+
+type Checker = (spans: Span[], result: string, words: string[]) => string | null
+
+// Each checker returns a description of the fodder that works, or null
+const CHECKERS: Partial<Record<OperationName, Checker>> = {
+  literal: (spans, result) => spans.find((s) => s.letters === result)?.text ?? null,
+
+  concatenate: (spans, result, words) => {
+    const run = spans.find((s) => s.letters === result)
+    if (run) return run.text
+    // Resolved fragments are upper case, so link words between them can be skipped
+    const fragments = words.filter((w) => /[A-Z]/.test(w) && w === w.toUpperCase())
+    return letters(fragments.join('')) === result ? fragments.join(' + ') : null
+  },
+
+  anagram: (spans, result) => {
+    const target = sorted(result)
+    const single = spans.find((s) => sorted(s.letters) === target)
+    if (single) return single.text
+
+    // Composite anagrams: two separate pieces of fodder, or fodder with
+    // another part of the clue taken away (e.g. "any column" less "No")
+    for (const a of spans) {
+      for (const b of spans) {
+        if (a === b || overlaps(a, b)) continue
+        if (a.start < b.start && sorted(a.letters + b.letters) === target) {
+          return `${a.text} + ${b.text}`
+        }
+        const rest = subtractLetters(a.letters, b.letters)
+        if (rest !== null && sorted(rest) === target) return `${a.text} - ${b.text}`
+      }
+    }
+    return null
+  },
+
+  reversal: (spans, result) => spans.find((s) => reversed(s.letters) === result)?.text ?? null,
+
+  hidden: (spans, result, words) => {
+    // Hidden words may also read backwards ("hidden reversal"), but a run of
+    // whole words is just the words themselves
+    for (const span of spans) {
+      const boundaries = new Set([0])
+      let offset = 0
+      for (const word of words.slice(span.start, span.end)) {
+        offset += letters(word).length
+        boundaries.add(offset)
+      }
+      for (const target of [result, reversed(result)]) {
+        let at = span.letters.indexOf(target)
+        while (at !== -1) {
+          if (!(boundaries.has(at) && boundaries.has(at + target.length))) return span.text
+          at = span.letters.indexOf(target, at + 1)
+        }
+      }
+    }
+    return null
+  },
+
+  trim: (spans, result) =>
+    spans.find(
+      (s) =>
+        s.letters.slice(1) === result ||
+        s.letters.slice(0, -1) === result ||
+        s.letters.slice(1, -1) === result,
+    )?.text ?? null,
+
+  delete: (spans, result) =>
+    spans.find((s) => s.letters.length > result.length && isSubsequence(result, s.letters))
+      ?.text ?? null,
+
+  container: (spans, result) => {
+    for (const inner of spans) {
+      for (const outer of spans) {
+        if (inner === outer || overlaps(inner, outer)) continue
+        if (inner.letters.length + outer.letters.length !== result.length) continue
+        for (let cut = 1; cut < outer.letters.length; cut++) {
+          if (outer.letters.slice(0, cut) + inner.letters + outer.letters.slice(cut) === result) {
+            return `${inner.text} in ${outer.text}`
+          }
+        }
+      }
+    }
+    return null
+  },
+
+  initials: (spans, result, words) => {
+    for (const span of spans) {
+      const initials = letters(
+        words.slice(span.start, span.end).map((w) => letters(w).charAt(0)).join(''),
+      )
+      if (initials === result) return span.text
+    }
+    return null
+  },
+}
+
+/**
+ * Check that a step's result follows from its operation and tokens.
+ */
+export function checkOperation(step: {
+  tokens: string
+  operation: string
+  result: string
+}): OperationCheck {
+  const operation = parseOperation(step.operation ?? '')
+  const result = letters(step.result ?? '')
+  const words = step.tokens.split(/\s+/).filter((w) => w.length > 0)
+
+  if (!operation) {
+    return { operation, status: 'unchecked', detail: `unrecognised operation "${step.operation}"` }
+  }
+  if (!result) {
+    return { operation, status: 'fail', detail: `${operation}: step has no result letters` }
+  }
+
+  const spans = spansOf(words)
+
+  if (operation === 'abbreviate') {
+    for (const span of spans) {
+      const listed = ABBREVIATIONS[span.text.toLowerCase().replace(/[^a-z' ]/g, '')]
+      if (listed?.includes(result)) {
+        return { operation, status: 'pass', detail: `"${span.text}" abbreviates to ${result}` }
+      }
+    }
+    return {
+      operation,
+      status: 'unchecked',
+      detail: `abbreviate: ${result} from "${step.tokens}" is not in the abbreviation list`,
+    }
+  }
+
+  const checker = CHECKERS[operation]
+  if (!checker) {
+    return { operation, status: 'unchecked', detail: `${operation} can't be checked letter by letter` }
+  }
+
+  const fodder = checker(spans, result, words)
+  return fodder
+    ? { operation, status: 'pass', detail: `${operation} of "${fodder}" gives ${result}` }
+    : { operation, status: 'fail', detail: `${operation}: no part of "${step.tokens}" gives ${result}` }
+}
@@ -3,16 +3,21 @@ import { HomePage } from './pages/HomePage'
 import { PlaySession } from './pages/PlaySession'
 import { PuzzleCreator } from './pages/PuzzleCreator'
 import { EditPuzzle } from './pages/EditPuzzle'
+import { GridDesigner } from './pages/GridDesigner'
 import { AdminDashboard } from './pages/AdminDashboard'
 import { ReportManagementPage } from './pages/ReportManagementPage'
 import { ExplanationReviewPage } from './pages/ExplanationReviewPage'
 import { SessionListPage } from './pages/SessionListPage'
+import { RateLimitsPage } from './pages/RateLimitsPage'
+import { ModelUsagePage } from './pages/ModelUsagePage'
 import { MissingCluesPage } from './pages/MissingCluesPage'
 import { BatchExplanationsPage } from './pages/BatchExplanationsPage'
 import { EditPuzzleClues } from './pages/EditPuzzleClues'
 import { WordplayDemoPage } from './pages/WordplayDemoPage'
 import { ParsewordsTestPage } from './pages/ParsewordsTestPage'
 import { ParsewordsAdminPage } from './pages/ParsewordsAdminPage'
+import { FriendsPage } from './pages/FriendsPage'
+import { ProfilePage } from './pages/ProfilePage'
 import { AuthModal } from './components/AuthModal'
 import { NavBar } from './components/NavBar'
 import { useViewportCssVars } from './utils/useViewportCssVars'
@@ -26,8 +31,12 @@ function App() {
       <AuthModal />
       <Routes>
         <Route path="/" element={<HomePage />} />
+        <Route path="/friends" element={<FriendsPage />} />
+        <Route path="/profile" element={<ProfilePage />} />
         <Route path="/admin" element={<AdminDashboard />} />
         <Route path="/admin/sessions" element={<SessionListPage />} />
+        <Route path="/admin/rate-limits" element={<RateLimitsPage />} />
+        <Route path="/admin/model-usage" element={<ModelUsagePage />} />
         <Route path="/admin/reports" element={<ReportManagementPage />} />
         <Route path="/admin/missing-clues" element={<MissingCluesPage />} />
         <Route path="/admin/batch-explanations" element={<BatchExplanationsPage />} />
@@ -35,6 +44,8 @@ function App() {
         <Route path="/admin/puzzles/:id/explanations" element={<ExplanationReviewPage />} />
         <Route path="/create" element={<PuzzleCreator />} />
         <Route path="/edit/:puzzleId" element={<EditPuzzle />} />
+        <Route path="/admin/designer" element={<GridDesigner />} />
+        <Route path="/admin/designer/:puzzleId" element={<GridDesigner />} />
 
         <Route path="/wordplay-demo" element={<WordplayDemoPage />} />
         <Route path="/parsewords-test" element={<ParsewordsTestPage />} />
@@ -1,4 +1,5 @@
-import { useRef, useEffect } from 'react'
+import { useRef, useEffect, useMemo } from 'react'
+import { clueRefKey, getEntryRefs } from './utils/linkedClues'
 import type { Clue, Direction } from './types'
 
 interface ClueListProps {
@@ -16,6 +17,13 @@ export function ClueList({
 }: ClueListProps) {
   const selectedRef = useRef<HTMLDivElement | null>(null)
 
+  // Every part of a linked answer is highlighted together
+  const selectedKeys = useMemo(() => {
+    if (currentClueNumber === null || !currentDirection) return new Set<string>()
+    const refs = getEntryRefs(clues, { number: currentClueNumber, direction: currentDirection })
+    return new Set(refs.map(clueRefKey))
+  }, [clues, currentClueNumber, currentDirection])
+
   useEffect(() => {
     if (selectedRef.current) {
       selectedRef.current.scrollIntoView({
@@ -32,11 +40,12 @@ export function ClueList({
       </h3>
       <div className="space-y-1">
         {items.map((clue) => {
-          const isSelected = currentDirection === dir && currentClueNumber === clue.number
+          const isSelected = selectedKeys.has(`${clue.number}-${dir}`)
+          const isCurrent = currentDirection === dir && currentClueNumber === clue.number
           return (
             <div
               key={`${dir}-${clue.number}`}
-              ref={isSelected ? selectedRef : null}
+              ref={isCurrent ? selectedRef : null}
               className={`
                                 p-3 rounded-lg cursor-pointer transition-all duration-200 flex items-start gap-3
                                 ${
@@ -47,7 +47,9 @@ describe('CrosswordGrid Performance', () => {
       title: 'Test Puzzle',
       sessionId: 'test-session',
       puzzleId: 1,
-      answersEncrypted: null,
+      rebusCells: {},
+      sessionRole: 'editor' as const,
+      accessMode: 'link' as const,
       changedCells: [],
       showChangeNotification: false,
       correctFlashCells: [],
@@ -55,6 +57,8 @@ describe('CrosswordGrid Performance', () => {
       isHintModalOpen: false,
       errorCells: [],
       isChecking: false,
+      cellMarks: {},
+      isAutocheckEnabled: false,
       checkResult: {
         message: null,
         errorCount: 0,
@@ -63,8 +67,12 @@ describe('CrosswordGrid Performance', () => {
         show: false,
       },
       attributions: {},
+      cellVersions: {},
+      tentativeCells: [],
       lockedCells: new Set<string>(),
       isLockModeEnabled: true,
+      isPencilModeEnabled: false,
+      isRebusEntryActive: false,
       isLoading: false,
       error: null,
       lastSyncedAt: 0,
@@ -1,7 +1,13 @@
 import React, { memo, useMemo } from 'react'
-import type { RenderedCell, Mode } from './types'
-import { getAttributionBackground, getAttributionBorder } from './utils/attributionColors'
-import { GridCell } from './GridCell'
+import type { RenderedCell, Mode, Collaborator } from './types'
+import {
+  getAttributionBackground,
+  getAttributionBorder,
+  getPresenceColor,
+} from './utils/attributionColors'
+import { GridCell, type CellPresence } from './GridCell'
+import type { CellWordBreaks } from './utils/enumeration'
+import { lightCells } from './utils/gridCells'
 
 interface CrosswordGridProps {
   grid: RenderedCell[][]
@@ -15,6 +21,8 @@ interface CrosswordGridProps {
   showAttributions?: boolean
   clueMetadata?: Array<{ number: number; direction: 'across' | 'down'; row: number; col: number }>
   selectedDirection?: 'across' | 'down'
+  collaborators?: Collaborator[]
+  wordBreaks?: Map<string, CellWordBreaks>
 }
 
 export function CrosswordGrid({
@@ -29,7 +37,11 @@ export function CrosswordGrid({
   showAttributions = false,
   clueMetadata,
   selectedDirection,
+  collaborators,
+  wordBreaks,
 }: CrosswordGridProps) {
+  const cellTypes = useMemo(() => grid.map((row) => row.map((cell) => cell.type)), [grid])
+
   // Pre-compute cell attributions map for O(1) lookup
   const cellAttributionMap = useMemo(() => {
     if (!attributions || !showAttributions || !clueMetadata)
@@ -42,22 +54,47 @@ export function CrosswordGrid({
       const attr = attributions[clueKey]
       if (!attr) continue
 
-      let r = meta.row
-      let c = meta.col
-
       // Trace the word and mark each cell
-      while (r < grid.length && c < grid[0].length && grid[r][c].type !== 'B') {
+      for (const { r, c } of lightCells(cellTypes, meta.row, meta.col, meta.direction)) {
         const cellKey = `${r}-${c}`
         if (!map.has(cellKey)) {
           map.set(cellKey, { userId: attr.userId, username: attr.username })
         }
-        if (meta.direction === 'across') c++
-        else r++
       }
     }
 
     return map
-  }, [attributions, showAttributions, clueMetadata, grid])
+  }, [attributions, showAttributions, clueMetadata, cellTypes])
+
+  // Remote cursors and the words they're working on
+  const presenceMap = useMemo(() => {
+    const map = new Map<string, CellPresence>()
+    if (!collaborators || cellTypes.length === 0) return map
+
+    for (const collaborator of collaborators) {
+      const { cursor } = collaborator
+      const word = cursor ? lightCells(cellTypes, cursor.r, cursor.c, cursor.direction) : []
+      if (!cursor || word.length === 0) continue
+
+      const color = getPresenceColor(collaborator.userId, collaborator.clientId)
+
+      // Mark every cell in the word, then the cursor itself
+      for (const { r, c } of word) {
+        const cellKey = `${r}-${c}`
+        if (!map.get(cellKey)?.isCursor) {
+          map.set(cellKey, { color, username: collaborator.username, isCursor: false })
+        }
+      }
+
+      map.set(`${cursor.r}-${cursor.c}`, {
+        color,
+        username: collaborator.username,
+        isCursor: true,
+      })
+    }
+
+    return map
+  }, [collaborators, cellTypes])
 
   return (
     <div className="flex justify-center max-w-full w-full overflow-hidden">
@@ -86,6 +123,8 @@ export function CrosswordGrid({
                     showAttributions={showAttributions}
                     onCellClick={onCellClick}
                     selectedDirection={selectedDirection}
+                    presence={presenceMap.get(cellKey) ?? null}
+                    wordBreaks={wordBreaks?.get(cellKey)}
                   />
                 )
               })}
@@ -1,7 +1,16 @@
 import React, { memo } from 'react'
-import type { RenderedCell, Mode, Direction } from '@/types'
+import type { RenderedCell, Mode, Direction, CellMark } from '@/types'
 import { FaLongArrowAltRight, FaLongArrowAltDown } from 'react-icons/fa'
 import { getAttributionBackground, getAttributionBorder } from './utils/attributionColors'
+import type { CellWordBreaks } from './utils/enumeration'
+import { hasBottomBar, hasRightBar } from './utils/gridCells'
+
+// A collaborator's cursor, or a cell in the word they're working on
+export interface CellPresence {
+  color: string
+  username: string
+  isCursor: boolean
+}
 
 export interface GridCellProps {
   cell: RenderedCell
@@ -16,6 +25,29 @@ export interface GridCellProps {
   showAttributions: boolean
   onCellClick: (r: number, c: number) => void
   selectedDirection?: Direction
+  presence?: CellPresence | null
+  // Word breaks and hyphens on this cell's right and bottom edges
+  wordBreaks?: CellWordBreaks
+}
+
+// Rebus cells shrink their letters to fit
+function answerSizeClass(answer: string): string {
+  if (answer.length <= 1) return 'text-xl md:text-2xl'
+  if (answer.length === 2) return 'text-sm md:text-base'
+  if (answer.length <= 4) return 'text-[10px] md:text-xs leading-none'
+  return 'text-[8px] md:text-[9px] leading-none break-all text-center px-0.5'
+}
+
+// A thin red line corner to corner through a wrong letter
+const INCORRECT_SLASH: React.CSSProperties = {
+  background:
+    'linear-gradient(to top right, transparent calc(50% - 1px), rgb(239 68 68) calc(50% - 1px), rgb(239 68 68) calc(50% + 1px), transparent calc(50% + 1px))',
+}
+
+const MARK_LABELS: Record<CellMark, string> = {
+  checked: 'checked correct',
+  incorrect: 'checked incorrect',
+  revealed: 'revealed',
 }
 
 // Memoized cell component to prevent unnecessary re-renders
@@ -32,6 +64,8 @@ export const GridCell = memo(function GridCell({
   showAttributions,
   onCellClick,
   selectedDirection,
+  presence = null,
+  wordBreaks,
 }: GridCellProps) {
   const isBlack = cell.type === 'B'
 
@@ -72,6 +106,14 @@ export const GridCell = memo(function GridCell({
     }
   }
 
+  // Tint a collaborator's word only where nothing more important is showing
+  if (presence && !isBlack && bgClass === 'bg-surface' && !(attribution && showAttributions)) {
+    borderStyle = { ...borderStyle, backgroundColor: `${presence.color}1A` }
+  }
+  if (presence?.isCursor && !isBlack) {
+    borderStyle = { ...borderStyle, boxShadow: `inset 0 0 0 3px ${presence.color}` }
+  }
+
   return (
     <div
       key={`${r}-${c}`}
@@ -106,7 +148,11 @@ export const GridCell = memo(function GridCell({
       onClick={() => onCellClick(r, c)}
       role="gridcell"
       tabIndex={isBlack ? -1 : 0}
-      aria-label={isBlack ? 'Black square' : `Cell${cell.number ? `, Clue ${cell.number}` : ''}`}
+      aria-label={
+        isBlack
+          ? 'Black square'
+          : `Cell${cell.number ? `, Clue ${cell.number}` : ''}${cell.mark ? `, ${MARK_LABELS[cell.mark]}` : ''}`
+      }
       onKeyDown={(e) => {
         if (e.key === 'Enter' || e.key === ' ') {
           e.preventDefault()
@@ -119,8 +165,53 @@ export const GridCell = memo(function GridCell({
           {cell.number}
         </span>
       )}
+      {presence?.isCursor && !isBlack && (
+        <span
+          className="absolute -top-2 right-0 z-20 px-1 rounded text-[9px] leading-tight font-bold text-white max-w-[4rem] truncate pointer-events-none"
+          style={{ backgroundColor: presence.color }}
+        >
+          {presence.username}
+        </span>
+      )}
       {mode === 'play' && cell.answer && (
-        <span className="text-xl md:text-2xl font-bold uppercase z-1 shrink-0">{cell.answer}</span>
+        <span
+          className={`${answerSizeClass(cell.answer.trim())} uppercase z-1 shrink-0 ${
+            cell.isTentative ? 'font-normal italic opacity-60' : 'font-bold'
+          }`}
+        >
+          {cell.answer}
+        </span>
+      )}
+      {/* Marks stay until the letter changes: a slash for wrong letters, a
+          corner for revealed (top) and checked-correct (bottom) ones */}
+      {mode === 'play' && cell.mark === 'incorrect' && (
+        <span className="absolute inset-0 pointer-events-none" style={INCORRECT_SLASH} />
+      )}
+      {mode === 'play' && cell.mark === 'revealed' && (
+        <span className="absolute top-0 right-0 w-0 h-0 border-t-[10px] border-l-[10px] border-t-blue-500 border-l-transparent pointer-events-none" />
+      )}
+      {mode === 'play' && cell.mark === 'checked' && (
+        <span className="absolute bottom-0 left-0 w-0 h-0 border-b-[8px] border-r-[8px] border-b-green-500 border-r-transparent pointer-events-none" />
+      )}
+      {/* Bars sit over the grid line they replace, so they overhang the cell */}
+      {hasRightBar(cell.type) && (
+        <span className="absolute top-0 -right-[2px] w-[4px] h-full bg-text z-20 pointer-events-none" />
+      )}
+      {hasBottomBar(cell.type) && (
+        <span className="absolute left-0 -bottom-[2px] h-[4px] w-full bg-text z-20 pointer-events-none" />
+      )}
+      {/* A word break thickens the grid line; a hyphen is a short dash across it */}
+      {wordBreaks?.right === 'space' && (
+        <span className="absolute top-0 -right-[2px] w-[3px] h-full bg-text/70 z-20 pointer-events-none" />
+      )}
+      {wordBreaks?.right === 'hyphen' && (
+        <span className="absolute top-1/2 -right-[5px] w-[9px] h-[3px] -translate-y-1/2 bg-text z-20 pointer-events-none" />
+      )}
+      {wordBreaks?.bottom === 'space' && (
+        <span className="absolute left-0 -bottom-[2px] h-[3px] w-full bg-text/70 z-20 pointer-events-none" />
+      )}
+      {wordBreaks?.bottom === 'hyphen' && (
+        <span className="absolute left-1/2 -bottom-[5px] h-[9px] w-[3px] -translate-x-1/2 bg-text z-20 pointer-events-none" />
       )}
       {cell.isSelected && selectedDirection === 'across' && (
         <span className="absolute bottom-[2px] left-1/2 text-primary dark:text-blue-400 pointer-events-none flex items-center justify-center animate-arrow-across">
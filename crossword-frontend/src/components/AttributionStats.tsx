@@ -1,8 +1,10 @@
 import { getUserColor } from '../utils/attributionColors'
+import { getLinkedEntries } from '../utils/linkedClues'
+import type { Clue } from '../types'
 
 interface AttributionStatsProps {
   attributions: Record<string, { userId: number | null; username: string; timestamp: string }>
-  clues: { across: { number: number; clue: string }[]; down: { number: number; clue: string }[] } | null
+  clues: { across: Clue[]; down: Clue[] } | null
 }
 
 export function AttributionStats({ attributions, clues }: AttributionStatsProps) {
@@ -25,7 +27,9 @@ export function AttributionStats({ attributions, clues }: AttributionStatsProps)
     }
   })
 
-  const totalClues = clues.across.length + clues.down.length
+  // A linked answer is one word however many lights it spans
+  const continuations = getLinkedEntries(clues).reduce((sum, entry) => sum + entry.length - 1, 0)
+  const totalClues = clues.across.length + clues.down.length - continuations
   const totalAttributed = Object.keys(attributions).length
   const sortedUsers = Array.from(userStats.values()).sort((a, b) => b.count - a.count)
 
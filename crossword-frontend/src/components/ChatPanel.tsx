@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react'
+import { LuSend } from 'react-icons/lu'
+import type { ChatMessage, Clue, Direction } from '../types'
+import { useAuth } from '../context/AuthContext'
+import { getNickname } from '../utils/sessionManager'
+import { parseClueReferences } from '../utils/clueReferences'
+
+interface ChatPanelProps {
+  messages: ChatMessage[]
+  clues: { across: Clue[]; down: Clue[] } | null
+  onSend: (body: string) => Promise<void>
+  onClueClick: (number: number, direction: Direction) => void
+}
+
+const MAX_MESSAGE_LENGTH = 1000
+
+const formatTime = (createdAt: string) => {
+  // SQLite timestamps come back without a zone but are UTC
+  const date = new Date(createdAt.includes('T') ? createdAt : `${createdAt.replace(' ', 'T')}Z`)
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+}
+
+export function ChatPanel({ messages, clues, onSend, onClueClick }: ChatPanelProps) {
+  const { user } = useAuth()
+  const [draft, setDraft] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight })
+  }, [messages.length])
+
+  const hasClue = (number: number, direction: Direction) =>
+    !!clues?.[direction].some((clue) => clue.number === number)
+
+  const isOwn = (message: ChatMessage) =>
+    user ? message.userId === user.id : message.userId === null && message.username === getNickname()
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    const body = draft.trim()
+    if (!body || isSending) return
+
+    setIsSending(true)
+    setError(null)
+    try {
+      await onSend(body)
+      setDraft('')
+    } catch (err) {
+      console.error('[ChatPanel] Failed to send message:', err)
+      setError('Message failed to send')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div ref={listRef} className="flex-1 min-h-0 overflow-y-auto flex flex-col gap-3 p-3">
+        {messages.length === 0 ? (
+          <p className="text-text-secondary italic text-sm text-center my-auto">
+            No messages yet. Mention a clue like &ldquo;14 across&rdquo; to link to it.
+          </p>
+        ) : (
+          messages.map((message) => (
+            <div
+              key={message.id}
+              className={`flex flex-col max-w-[85%] ${isOwn(message) ? 'self-end items-end' : 'self-start items-start'}`}
+            >
+              <span className="text-[11px] text-text-secondary">
+                {message.username} · {formatTime(message.createdAt)}
+              </span>
+              <p
+                className={`m-0 px-3 py-2 rounded-xl text-sm whitespace-pre-wrap break-words ${
+                  isOwn(message) ? 'bg-primary text-white' : 'bg-input-bg text-text'
+                }`}
+              >
+                {parseClueReferences(message.body, hasClue).map((segment, i) =>
+                  segment.type === 'clue' ? (
+                    <button
+                      key={i}
+                      type="button"
+                      onClick={() => onClueClick(segment.number, segment.direction)}
+                      className="inline p-0 bg-transparent border-none font-bold underline cursor-pointer text-inherit"
+                    >
+                      {segment.text}
+                    </button>
+                  ) : (
+                    <span key={i}>{segment.text}</span>
+                  ),
+                )}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      {error && <p className="px-3 m-0 text-error text-xs">{error}</p>}
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-2 p-3 border-t border-border">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder="Message your team..."
+          aria-label="Chat message"
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-input-bg border border-border text-text text-sm focus:outline-none focus:border-primary"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || isSending}
+          aria-label="Send message"
+          className="w-9 h-9 flex items-center justify-center rounded-lg bg-primary text-white border-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <LuSend size={16} />
+        </button>
+      </form>
+    </div>
+  )
+}
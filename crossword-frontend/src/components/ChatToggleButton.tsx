@@ -0,0 +1,33 @@
+import { LuMessageCircle } from 'react-icons/lu'
+import { ToolbarButton } from './ToolbarButton'
+
+interface ChatToggleButtonProps {
+  onClick: () => void
+  isOpen: boolean
+  unreadCount: number
+  compact?: boolean
+}
+
+export function ChatToggleButton({ onClick, isOpen, unreadCount, compact }: ChatToggleButtonProps) {
+  return (
+    <span className="relative inline-flex">
+      <ToolbarButton
+        onClick={onClick}
+        icon={<LuMessageCircle size={compact ? 18 : 20} />}
+        label={isOpen ? 'Close chat' : 'Open chat'}
+        title="Chat with collaborators"
+        compact={compact}
+        className={
+          isOpen
+            ? 'bg-primary/10 border-primary text-primary'
+            : 'bg-surface border-border text-text-secondary hover:border-primary hover:text-primary'
+        }
+      />
+      {unreadCount > 0 && (
+        <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-error text-white text-[10px] font-bold flex items-center justify-center pointer-events-none">
+          {unreadCount > 9 ? '9+' : unreadCount}
+        </span>
+      )}
+    </span>
+  )
+}
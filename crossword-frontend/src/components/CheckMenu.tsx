@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import { useSelector } from 'react-redux'
+import { LuSearch } from 'react-icons/lu'
+import { ToolbarButton } from './ToolbarButton'
+import { Spinner } from './Spinner'
+import { useGameConnection } from '@/context/GameConnectionContext'
+import {
+  selectCursor,
+  selectIsAutocheckEnabled,
+  selectIsChecking,
+  selectSessionId,
+} from '@/store/selectors/puzzleSelectors'
+import type { CheckRequest } from '@/types'
+
+interface CheckMenuProps {
+  // The word under the cursor, for the word-sized actions
+  currentClueNumber: number | null
+  onCheck: (request: CheckRequest) => void
+  onReveal: (request: CheckRequest) => void
+  compact?: boolean
+}
+
+const ITEM_CLASS =
+  'w-full px-4 py-2 text-left text-sm text-text hover:bg-input-bg transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+
+/**
+ * Check or reveal the letter under the cursor, its word or the whole grid,
+ * and switch autocheck on or off for everyone in the session.
+ */
+export function CheckMenu({ currentClueNumber, onCheck, onReveal, compact }: CheckMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const cursor = useSelector(selectCursor)
+  const sessionId = useSelector(selectSessionId)
+  const isChecking = useSelector(selectIsChecking)
+  const isAutocheckEnabled = useSelector(selectIsAutocheckEnabled)
+  const { setAutocheck } = useGameConnection()
+
+  const letter: CheckRequest | null = cursor
+    ? { scope: 'letter', target: { r: cursor.r, c: cursor.c } }
+    : null
+  const word: CheckRequest | null =
+    cursor && currentClueNumber !== null
+      ? { scope: 'word', target: { number: currentClueNumber, direction: cursor.direction } }
+      : null
+  const grid: CheckRequest = { scope: 'grid' }
+
+  const run = (action: (request: CheckRequest) => void, request: CheckRequest | null) => {
+    if (!request) return
+    setIsOpen(false)
+    action(request)
+  }
+
+  const handleRevealGrid = () => {
+    if (!confirm('Reveal every answer in the grid? Everyone in the session will see it.')) return
+    run(onReveal, grid)
+  }
+
+  const handleAutocheck = () => {
+    if (!sessionId) return
+    setAutocheck(sessionId, !isAutocheckEnabled).catch(() => {
+      alert('Failed to change autocheck')
+    })
+  }
+
+  const iconSize = compact ? 18 : 20
+
+  return (
+    <span className="relative inline-flex">
+      <ToolbarButton
+        onClick={() => setIsOpen((v) => !v)}
+        icon={isChecking ? <Spinner /> : <LuSearch size={iconSize} />}
+        label="Check and reveal"
+        disabled={isChecking}
+        compact={compact}
+        className={`bg-yellow-500/10 text-yellow-700 border-yellow-500/30 ${isChecking ? 'opacity-60' : 'hover:bg-yellow-500/20'} ${isAutocheckEnabled ? 'ring-2 ring-yellow-500/50' : ''}`}
+      />
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-48 bg-surface border border-border rounded-xl shadow-lg overflow-hidden z-50 flex flex-col">
+          <button onClick={() => run(onCheck, letter)} disabled={!letter} className={ITEM_CLASS}>
+            Check letter
+          </button>
+          <button onClick={() => run(onCheck, word)} disabled={!word} className={ITEM_CLASS}>
+            Check word
+          </button>
+          <button onClick={() => run(onCheck, grid)} className={ITEM_CLASS}>
+            Check grid
+          </button>
+          <div className="border-t border-border" />
+          <button onClick={() => run(onReveal, letter)} disabled={!letter} className={ITEM_CLASS}>
+            Reveal letter
+          </button>
+          <button onClick={() => run(onReveal, word)} disabled={!word} className={ITEM_CLASS}>
+            Reveal word
+          </button>
+          <button onClick={handleRevealGrid} className={ITEM_CLASS}>
+            Reveal grid
+          </button>
+          <div className="border-t border-border" />
+          <label className="px-4 py-2 flex items-center justify-between gap-2 text-sm text-text cursor-pointer hover:bg-input-bg">
+            Autocheck
+            <input
+              type="checkbox"
+              checked={isAutocheckEnabled}
+              onChange={handleAutocheck}
+              className="accent-yellow-500"
+            />
+          </label>
+        </div>
+      )}
+    </span>
+  )
+}
@@ -1,12 +1,22 @@
 import { useState } from 'react'
 import { LuBookOpen, LuPuzzle, LuWrench, LuLightbulb, LuFileText, LuTriangleAlert, LuCheck } from 'react-icons/lu'
 
-export type ClueExplanation =
+export type ClueExplanation = (
   | WordplayExplanation
   | DoubleDefinitionExplanation
   | AndLitExplanation
   | CrypticDefinitionExplanation
   | NoCleanParseExplanation
+) & {
+  verification?: ExplanationVerification
+}
+
+// Server-side check that the wordplay steps reduce the clue to the answer.
+// 'unchecked' covers clue types with no wordplay steps to check.
+export interface ExplanationVerification {
+  status: 'verified' | 'failed' | 'unchecked'
+  steps: Array<{ stepIndex: number; verified: boolean; detail: string }>
+}
 
 interface NewWordplayStep {
   tokens: string
@@ -287,8 +297,20 @@ export function ClueExplanationDisplay({ explanation, onReport, reportLoading, h
     </>
   )
 
+  const failedSteps = explanation.verification?.steps.filter((step) => !step.verified) ?? []
+
   return (
     <div className="flex flex-col gap-3">
+      {/* Caution badge for wordplay that failed automatic verification */}
+      {explanation.verification?.status === 'failed' && (
+        <span
+          title={failedSteps.map((step) => `Step ${step.stepIndex + 1}: ${step.detail}`).join('\n')}
+          className="self-start flex items-center gap-1.5 px-3 py-1 rounded-full bg-amber-500/10 text-amber-500 border border-amber-500/30 text-xs font-semibold"
+        >
+          <LuTriangleAlert size={14} /> Unverified: the wordplay steps may not add up
+        </span>
+      )}
+
       {/* Clue Segmentation Visualization */}
       {explanation.clue_segmentation && explanation.clue_segmentation.length > 0 && (
         <div className="p-4 bg-surface border border-border rounded-lg mb-2">
@@ -0,0 +1,40 @@
+import type { Collaborator } from '../types'
+import { getPresenceColor } from '../utils/attributionColors'
+
+interface CollaboratorListProps {
+  collaborators: Collaborator[]
+}
+
+const describeClue = (collaborator: Collaborator) =>
+  collaborator.clue
+    ? `${collaborator.username} is on ${collaborator.clue.number} ${collaborator.clue.direction}`
+    : collaborator.username
+
+export function CollaboratorList({ collaborators }: CollaboratorListProps) {
+  if (collaborators.length === 0) return null
+
+  return (
+    <ul className="flex flex-wrap items-center gap-1.5 list-none p-0 m-0" aria-label="Solving now">
+      {collaborators.map((collaborator) => {
+        const color = getPresenceColor(collaborator.userId, collaborator.clientId)
+        return (
+          <li
+            key={collaborator.clientId}
+            title={describeClue(collaborator)}
+            className="flex items-center gap-1.5 px-2 py-0.5 rounded-full border text-xs font-medium text-text"
+            style={{ borderColor: color, backgroundColor: `${color}1A` }}
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+            {collaborator.username}
+            {collaborator.clue && (
+              <span className="text-text-secondary">
+                {collaborator.clue.number}
+                {collaborator.clue.direction === 'across' ? 'A' : 'D'}
+              </span>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
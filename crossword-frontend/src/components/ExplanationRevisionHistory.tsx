@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react'
+import axios from 'axios'
+import { sideBySideDiff } from '../utils/lineDiff'
+
+interface ExplanationRevision {
+  id: number
+  explanation: unknown
+  source: string
+  authorName: string | null
+  note: string | null
+  createdAt: string
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  import: 'Before history',
+  generated: 'Generated for a player',
+  batch: 'Batch apply',
+  admin_edit: 'Admin edit',
+  regeneration: 'Approved regeneration',
+  restore: 'Restore',
+  script: 'Script',
+}
+
+const DIFF_STYLES = {
+  same: { left: '', right: '' },
+  changed: { left: 'bg-error/10 text-error', right: 'bg-green-500/10 text-green-600' },
+  removed: { left: 'bg-error/10 text-error', right: 'bg-input-bg/50' },
+  added: { left: 'bg-input-bg/50', right: 'bg-green-500/10 text-green-600' },
+}
+
+interface ExplanationRevisionHistoryProps {
+  puzzleId: number
+  clueNumber: number
+  direction: string
+  onRestored: () => void
+}
+
+/**
+ * Every saved version of a clue's explanation, with a side-by-side diff of
+ * the selected version against the current one and a button to restore it.
+ */
+export function ExplanationRevisionHistory({
+  puzzleId,
+  clueNumber,
+  direction,
+  onRestored,
+}: ExplanationRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<ExplanationRevision[] | null>(null)
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [restoring, setRestoring] = useState(false)
+
+  useEffect(() => {
+    let isActive = true
+    axios
+      .get(`/api/admin/explanations/revisions/${puzzleId}/${clueNumber}/${direction}`)
+      .then((res) => {
+        if (!isActive) return
+        setRevisions(res.data)
+        // Compare against the previous version by default
+        setSelectedId(res.data[1]?.id ?? res.data[0]?.id ?? null)
+      })
+      .catch((error) => {
+        console.error('Failed to load revisions:', error)
+        if (isActive) setRevisions([])
+      })
+    return () => {
+      isActive = false
+    }
+  }, [puzzleId, clueNumber, direction])
+
+  const handleRestore = async (revision: ExplanationRevision) => {
+    if (!confirm(`Restore revision #${revision.id} as the current explanation?`)) return
+
+    setRestoring(true)
+    try {
+      await axios.post(`/api/admin/explanations/revisions/${revision.id}/restore`)
+      onRestored()
+    } catch (error) {
+      console.error('Failed to restore revision:', error)
+      alert('Failed to restore revision')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  if (!revisions) {
+    return <p className="text-sm text-text-secondary italic">Loading history...</p>
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-text-secondary italic">No saved revisions yet.</p>
+  }
+
+  const current = revisions[0]
+  const selected = revisions.find((r) => r.id === selectedId) ?? current
+  const rows = sideBySideDiff(
+    JSON.stringify(selected.explanation, null, 2),
+    JSON.stringify(current.explanation, null, 2),
+  )
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-4">
+      <ol className="flex flex-col gap-1 max-h-96 overflow-y-auto">
+        {revisions.map((revision, i) => (
+          <li key={revision.id}>
+            <button
+              onClick={() => setSelectedId(revision.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg border text-xs transition-colors cursor-pointer ${
+                revision.id === selected.id
+                  ? 'border-primary bg-primary/10 text-text'
+                  : 'border-border bg-surface text-text-secondary hover:text-text'
+              }`}
+            >
+              <span className="flex justify-between gap-2 font-bold">
+                <span>
+                  #{revision.id} {SOURCE_LABELS[revision.source] ?? revision.source}
+                </span>
+                {i === 0 && <span className="text-primary">Current</span>}
+              </span>
+              <span className="block">
+                {new Date(revision.createdAt).toLocaleString()}
+                {revision.authorName && ` · ${revision.authorName}`}
+              </span>
+              {revision.note && <span className="block italic">{revision.note}</span>}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="min-w-0">
+        {selected.id === current.id ? (
+          <p className="text-sm text-text-secondary italic">
+            This is the current explanation. Pick an earlier revision to compare.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <div className="grid grid-cols-2 flex-1 text-xs font-bold text-text-secondary uppercase tracking-wider">
+                <span>Revision #{selected.id}</span>
+                <span>Current (#{current.id})</span>
+              </div>
+              <button
+                onClick={() => handleRestore(selected)}
+                disabled={restoring}
+                className="px-3 py-1.5 bg-primary text-white rounded-lg shadow hover:bg-primary-hover disabled:opacity-50 text-xs font-bold"
+              >
+                {restoring ? 'Restoring...' : `Restore #${selected.id}`}
+              </button>
+            </div>
+            <div className="bg-surface rounded-lg border border-border overflow-auto max-h-96 font-mono text-xs">
+              {rows.map((row, i) => (
+                <div key={i} className="grid grid-cols-2 divide-x divide-border">
+                  <pre className={`px-2 whitespace-pre-wrap break-all ${DIFF_STYLES[row.kind].left}`}>
+                    {row.left ?? ''}
+                  </pre>
+                  <pre className={`px-2 whitespace-pre-wrap break-all ${DIFF_STYLES[row.kind].right}`}>
+                    {row.right ?? ''}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { Fragment } from 'react'
+import { LuChevronRight } from 'react-icons/lu'
+import { Spinner } from './Spinner'
+import {
+  useGetHintLadderQuery,
+  useRevealHintLevelMutation,
+  type HintRungKind,
+} from '../store/api/sessionApi'
+
+interface HintLadderProps {
+  sessionId: string
+  clueNumber: number
+  direction: 'across' | 'down'
+  clue: string
+}
+
+const NEXT_LABELS: Record<HintRungKind, string> = {
+  definition_location: 'Where is the definition?',
+  definition: 'Show the definition',
+  wordplay_types: 'What kind of wordplay?',
+  indicators: 'Show the indicator words',
+  step: 'Show the next step',
+  answer: 'Reveal the answer',
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Splits the clue so the highlighted words can be marked up
+function highlightClue(clue: string, words: string[]): Array<{ text: string; marked: boolean }> {
+  if (words.length === 0) return [{ text: clue, marked: false }]
+  const pattern = new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi')
+  return clue
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({
+      text: part,
+      marked: words.some((w) => w.toLowerCase() === part.toLowerCase()),
+    }))
+}
+
+/**
+ * Graded hints for a clue: each click reveals one more level, from where the
+ * definition sits through the wordplay steps to the answer. Levels are shared
+ * by everyone in the session, so a collaborator's hints show up here too.
+ */
+export function HintLadder({ sessionId, clueNumber, direction, clue }: HintLadderProps) {
+  const { data: ladder, isLoading, isError } = useGetHintLadderQuery({
+    sessionId,
+    clueNumber,
+    direction,
+  })
+  const [revealHintLevel, { isLoading: isRevealing }] = useRevealHintLevelMutation()
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner />
+      </div>
+    )
+  }
+
+  if (isError || !ladder) {
+    return <p className="text-error text-center text-sm">Failed to load hints</p>
+  }
+
+  const highlights = ladder.levels.flatMap((rung) => rung.highlight)
+
+  const handleNext = async () => {
+    try {
+      await revealHintLevel({ sessionId, clueNumber, direction }).unwrap()
+    } catch (error) {
+      console.error('[HintLadder] Error revealing hint level:', error)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {highlights.length > 0 && (
+        <p className="text-center font-serif text-text">
+          {highlightClue(clue, highlights).map((part, i) => (
+            <Fragment key={i}>
+              {part.marked ? (
+                <mark className="bg-primary/20 text-primary rounded px-0.5">{part.text}</mark>
+              ) : (
+                part.text
+              )}
+            </Fragment>
+          ))}
+        </p>
+      )}
+
+      {ladder.levels.length > 0 && (
+        <ol className="flex flex-col gap-2">
+          {ladder.levels.map((rung) => (
+            <li
+              key={rung.level}
+              className={`px-3 py-2 rounded-lg border text-sm ${
+                rung.kind === 'answer'
+                  ? 'border-primary bg-primary/10 text-primary font-bold'
+                  : 'border-border bg-surface text-text'
+              }`}
+            >
+              {rung.text}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {ladder.next ? (
+        <button
+          onClick={handleNext}
+          disabled={isRevealing}
+          className="w-full py-3 bg-secondary/10 text-secondary font-bold rounded-lg hover:bg-secondary/20 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isRevealing ? (
+            <Spinner />
+          ) : (
+            <span className="flex items-center justify-center gap-2">
+              {NEXT_LABELS[ladder.next]} <LuChevronRight size={16} />
+            </span>
+          )}
+        </button>
+      ) : null}
+
+      <p className="text-xs text-center text-text-secondary">
+        Hint {ladder.levels.length} of {ladder.total}. Each hint you use is recorded for this
+        session.
+      </p>
+    </div>
+  )
+}
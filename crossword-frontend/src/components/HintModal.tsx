@@ -1,15 +1,18 @@
-import { useState, useEffect, useRef } from 'react'
-import { LuTimer, LuType, LuBookOpen, LuSearch, LuBrain } from 'react-icons/lu'
+import { Fragment, useState, useEffect, useRef } from 'react'
+import { LuTimer, LuType, LuBookOpen, LuSearch, LuBrain, LuFootprints } from 'react-icons/lu'
 import { Modal } from './Modal'
 import { ClueExplanationDisplay, type ClueExplanation } from './ClueExplanationDisplay'
+import { HintLadder } from './HintLadder'
 import { Spinner } from './Spinner'
 import {
   useGetCachedExplanationQuery,
   useRequestExplanationMutation,
   useReportExplanationMutation,
+  useRevealHintMutation,
 } from '../store/api/sessionApi'
 import { useAppDispatch, useAppSelector } from '../store/hooks'
 import { addPendingExplanation, clearLatestExplanation } from '../store/slices/sessionSlice'
+import type { WordBreak } from '../types'
 
 interface HintModalProps {
   isOpen: boolean
@@ -20,11 +23,14 @@ interface HintModalProps {
   clueNumber: number | null
   direction: 'across' | 'down' | undefined
   currentWordState: string[] // The characters currently in the grid for this word
-  onFetchAnswer: () => Promise<string>
+  // The word break or hyphen after each box, from the clue's enumeration
+  wordBreaks?: Array<WordBreak | undefined>
+  // Lays the answer out one entry per cell; rebus cells take several letters
+  splitAnswer?: (answer: string) => string[]
   timerDisplay: string
 }
 
-type TabType = 'letters' | 'explain'
+type TabType = 'letters' | 'ladder' | 'explain'
 
 type HintModalContentProps = Omit<HintModalProps, 'isOpen'>
 
@@ -43,7 +49,8 @@ function HintModalContent({
   clueNumber,
   direction,
   currentWordState,
-  onFetchAnswer,
+  wordBreaks = [],
+  splitAnswer = (answer) => answer.split(''),
   timerDisplay,
 }: HintModalContentProps) {
   const dispatch = useAppDispatch()
@@ -51,13 +58,13 @@ function HintModalContent({
 
   // Letters tab state
   const [modalState, setModalState] = useState<string[]>(() => currentWordState)
-  const [fullAnswer, setFullAnswer] = useState<string | null>(null)
-  const [loading, setLoading] = useState(true)
+  // Box index or whole word currently being revealed
+  const [pending, setPending] = useState<number | 'word' | null>(null)
   const [error, setError] = useState<string | null>(null)
 
-  // RTK Query hooks for explanations
+  // RTK Query hooks for explanations; the hint ladder is built from one too
   const shouldFetchCached =
-    activeTab === 'explain' && clueNumber !== null && direction !== undefined
+    activeTab !== 'letters' && clueNumber !== null && direction !== undefined
   const {
     data: cachedExplanation,
     isLoading: isCachedLoading,
@@ -75,6 +82,7 @@ function HintModalContent({
 
   const [requestExplanation, { isLoading: isRequestLoading }] = useRequestExplanationMutation()
   const [reportExplanation, { isLoading: isReportLoading }] = useReportExplanationMutation()
+  const [revealHint] = useRevealHintMutation()
 
   // Local state for explanation UI
   const [explanation, setExplanation] = useState<ClueExplanation | null>(null)
@@ -91,28 +99,6 @@ function HintModalContent({
   const processingMessage = pendingExplanation?.message ?? localProcessingMessage
   const showExplanationError = explanationError && !effectiveExplanation
 
-  useEffect(() => {
-    let isActive = true
-
-    onFetchAnswer()
-      .then((answer) => {
-        if (!isActive) return
-        setFullAnswer(answer)
-      })
-      .catch(() => {
-        if (!isActive) return
-        setError('Failed to load hint answer')
-      })
-      .finally(() => {
-        if (!isActive) return
-        setLoading(false)
-      })
-
-    return () => {
-      isActive = false
-    }
-  }, [onFetchAnswer])
-
   // Use a ref to track the current clue for the socket listener
   const currentClueRef = useRef<{ clueNumber: number; direction: 'across' | 'down' } | null>(null)
 
@@ -143,18 +129,49 @@ function HintModalContent({
     }
   }, [latestExplanation, dispatch])
 
-  const handleLetterHint = (index: number) => {
-    if (!fullAnswer) return
-    setModalState((prev) => {
-      const newState = [...prev]
-      newState[index] = fullAnswer[index]
-      return newState
-    })
+  // The answer stays on the server: each reveal asks for just what it shows.
+  // Reveals stay local to the modal; dryRun leaves the grid alone and only
+  // records them in the session stats.
+  const handleLetterHint = async (index: number) => {
+    if (clueNumber === null || !direction || pending !== null) return
+    setPending(index)
+    setError(null)
+    try {
+      const { value } = await revealHint({
+        sessionId,
+        type: 'letter',
+        target: { number: clueNumber, direction, index },
+        dryRun: true,
+      }).unwrap()
+      setModalState((prev) => {
+        const newState = [...prev]
+        newState[index] = value
+        return newState
+      })
+    } catch {
+      setError('Failed to load hint')
+    } finally {
+      setPending(null)
+    }
   }
 
-  const handleWordHint = () => {
-    if (!fullAnswer) return
-    setModalState(fullAnswer.split(''))
+  const handleWordHint = async () => {
+    if (clueNumber === null || !direction || pending !== null) return
+    setPending('word')
+    setError(null)
+    try {
+      const { value } = await revealHint({
+        sessionId,
+        type: 'word',
+        target: { number: clueNumber, direction },
+        dryRun: true,
+      }).unwrap()
+      setModalState(splitAnswer(value))
+    } catch {
+      setError('Failed to load hint')
+    } finally {
+      setPending(null)
+    }
   }
 
   const handleFetchExplanation = async () => {
@@ -195,6 +212,8 @@ function HintModalContent({
 
       if (errorStatus === 401) {
         setExplanationError('You must be registered and signed in to request new explanations.')
+      } else if (errorStatus === 429) {
+        setExplanationError("You've requested a lot of explanations. Please try again later.")
       } else {
         setExplanationError('Failed to load explanation. Please try again.')
       }
@@ -249,6 +268,16 @@ function HintModalContent({
           >
             <span className="flex items-center gap-1"><LuType size={16} /> Letters</span>
           </button>
+          <button
+            onClick={() => setActiveTab('ladder')}
+            className={`px-4 py-2 rounded-t-lg font-medium transition-colors ${
+              activeTab === 'ladder'
+                ? 'bg-primary/10 text-primary border-b-2 border-primary'
+                : 'text-text-secondary hover:text-text hover:bg-surface'
+            }`}
+          >
+            <span className="flex items-center gap-1"><LuFootprints size={16} /> Step by Step</span>
+          </button>
           <button
             onClick={() => setActiveTab('explain')}
             className={`px-4 py-2 rounded-t-lg font-medium transition-colors ${
@@ -267,23 +296,32 @@ function HintModalContent({
             {/* Word Boxes */}
             <div className="flex justify-center flex-wrap gap-2">
               {Array.from({ length: wordLength }).map((_, index) => (
-                <button
-                  key={index}
-                  onClick={() => handleLetterHint(index)}
-                  disabled={loading}
-                  className={`w-10 h-10 sm:w-12 sm:h-12 border-2 flex items-center justify-center text-xl font-bold rounded-lg transition-all ${
-                    modalState[index]?.trim()
-                      ? 'bg-primary/10 border-primary text-primary'
-                      : 'bg-surface border-border text-text hover:border-primary/50'
-                  }`}
-                  title="Click for single letter hint"
-                >
-                  {loading && !modalState[index]?.trim() ? (
-                    <div className="w-4 h-4 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
-                  ) : (
-                    modalState[index] || ''
+                <Fragment key={index}>
+                  <button
+                    onClick={() => handleLetterHint(index)}
+                    disabled={pending !== null}
+                    className={`w-10 h-10 sm:w-12 sm:h-12 border-2 flex items-center justify-center font-bold rounded-lg transition-all ${
+                      (modalState[index]?.trim().length ?? 0) > 1 ? 'text-xs' : 'text-xl'
+                    } ${
+                      modalState[index]?.trim()
+                        ? 'bg-primary/10 border-primary text-primary'
+                        : 'bg-surface border-border text-text hover:border-primary/50'
+                    }`}
+                    title="Click for single letter hint"
+                  >
+                    {(pending === index || pending === 'word') && !modalState[index]?.trim() ? (
+                      <div className="w-4 h-4 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+                    ) : (
+                      modalState[index] || ''
+                    )}
+                  </button>
+                  {wordBreaks[index] === 'space' && <span className="w-2" aria-hidden="true" />}
+                  {wordBreaks[index] === 'hyphen' && (
+                    <span className="self-center font-bold text-text-secondary" aria-hidden="true">
+                      -
+                    </span>
                   )}
-                </button>
+                </Fragment>
               ))}
             </div>
 
@@ -292,10 +330,10 @@ function HintModalContent({
             <div className="flex flex-col gap-2">
               <button
                 onClick={handleWordHint}
-                disabled={loading}
+                disabled={pending !== null}
                 className="w-full py-3 bg-secondary/10 text-secondary font-bold rounded-lg hover:bg-secondary/20 transition-colors flex items-center justify-center gap-2"
               >
-                {loading ? (
+                {pending === 'word' ? (
                   <Spinner />
                 ) : (
                   <span className="flex items-center justify-center gap-2"><LuSearch size={16} /> Reveal Whole Word</span>
@@ -308,7 +346,7 @@ function HintModalContent({
           </div>
         )}
 
-        {activeTab === 'explain' && (
+        {activeTab !== 'letters' && (
           <div className="flex flex-col gap-3">
             {/* Request Explanation Button */}
             {!effectiveExplanation &&
@@ -324,7 +362,9 @@ function HintModalContent({
                     <span className="flex items-center justify-center gap-2"><LuBrain size={20} /> Get AI Explanation</span>
                   </button>
                   <p className="text-xs text-text-secondary mt-2">
-                    Uses AI to explain the wordplay. May take 20-30 seconds.
+                    {activeTab === 'ladder'
+                      ? 'Step-by-step hints are built from an AI explanation of the clue. May take 20-30 seconds.'
+                      : 'Uses AI to explain the wordplay. May take 20-30 seconds.'}
                   </p>
                 </div>
               )}
@@ -353,8 +393,18 @@ function HintModalContent({
               </div>
             )}
 
+            {/* Hint Ladder */}
+            {activeTab === 'ladder' && effectiveExplanation && clueNumber !== null && direction && (
+              <HintLadder
+                sessionId={sessionId}
+                clueNumber={clueNumber}
+                direction={direction}
+                clue={clue}
+              />
+            )}
+
             {/* Explanation Display */}
-            {effectiveExplanation && (
+            {activeTab === 'explain' && effectiveExplanation && (
               <ClueExplanationDisplay
                 explanation={effectiveExplanation}
                 onReport={handleReport}
@@ -40,6 +40,22 @@ export function NavBar() {
           >
             Home
           </Link>
+          {user && (
+            <Link
+              to="/friends"
+              className="text-text-secondary no-underline font-medium hover:text-primary transition-colors"
+            >
+              Friends
+            </Link>
+          )}
+          {user && (
+            <Link
+              to="/profile"
+              className="text-text-secondary no-underline font-medium hover:text-primary transition-colors"
+            >
+              Stats
+            </Link>
+          )}
           {user?.isAdmin && (
             <Link
               to="/admin"
@@ -139,6 +155,24 @@ export function NavBar() {
               >
                 Home
               </Link>
+              {user && (
+                <Link
+                  to="/friends"
+                  onClick={() => setIsMenuOpen(false)}
+                  className="px-4 py-3 text-text no-underline hover:bg-input-bg transition-colors"
+                >
+                  Friends
+                </Link>
+              )}
+              {user && (
+                <Link
+                  to="/profile"
+                  onClick={() => setIsMenuOpen(false)}
+                  className="px-4 py-3 text-text no-underline hover:bg-input-bg transition-colors"
+                >
+                  Stats
+                </Link>
+              )}
               {user?.isAdmin && (
                 <Link
                   to="/admin"
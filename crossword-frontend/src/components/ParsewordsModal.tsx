@@ -1,15 +1,15 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { createPortal } from 'react-dom'
 import { ParsewordsGame } from './parsewords/ParsewordsGame'
-import type { Puzzle } from './parsewords/types'
+import type { PlayablePuzzle } from './parsewords/types'
+import { checkParsewordsAnswer } from './parsewords/checkAnswer'
 
 interface ParsewordsEntry {
   id: number
   clueNumber: number
   direction: 'across' | 'down'
   clueText: string | null
-  answer: string | null
-  puzzle: Puzzle
+  puzzle: PlayablePuzzle
 }
 
 interface ParsewordsModalProps {
@@ -23,7 +23,8 @@ export function ParsewordsModal({ isOpen, onClose, puzzleId, onFillAnswer }: Par
   const [entries, setEntries] = useState<ParsewordsEntry[]>([])
   const [loading, setLoading] = useState(false)
   const [selected, setSelected] = useState<ParsewordsEntry | null>(null)
-  const [wonEntryIds, setWonEntryIds] = useState<Set<number>>(new Set())
+  // Answers the server confirmed, by entry id
+  const [wonAnswers, setWonAnswers] = useState<Map<number, string>>(new Map())
 
   useEffect(() => {
     if (!isOpen) return
@@ -55,6 +56,18 @@ export function ParsewordsModal({ isOpen, onClose, puzzleId, onFillAnswer }: Par
     }
   }, [isOpen, onClose])
 
+  const selectedId = selected?.id
+  const checkAnswer = useCallback(
+    async (guess: string) => {
+      if (selectedId === undefined) return null
+      const result = await checkParsewordsAnswer(selectedId, guess)
+      if (!result) return null
+      setWonAnswers((prev) => new Map(prev).set(selectedId, result.answer))
+      return result.displayAnswer
+    },
+    [selectedId],
+  )
+
   if (!isOpen) return null
 
   const label = (entry: ParsewordsEntry) =>
@@ -106,7 +119,7 @@ export function ParsewordsModal({ isOpen, onClose, puzzleId, onFillAnswer }: Par
                   >
                     <span className="font-medium flex items-center gap-1.5">
                       {label(entry)}
-                      {wonEntryIds.has(entry.id) && <span className="text-green-500">✓</span>}
+                      {wonAnswers.has(entry.id) && <span className="text-green-500">✓</span>}
                     </span>
                     {entry.clueText && (
                       <span className="block text-xs mt-0.5 opacity-70 truncate">{entry.clueText}</span>
@@ -126,12 +139,12 @@ export function ParsewordsModal({ isOpen, onClose, puzzleId, onFillAnswer }: Par
                   <ParsewordsGame
                     key={selected.id}
                     puzzle={selected.puzzle}
-                    onWin={() => setWonEntryIds((prev) => new Set(prev).add(selected.id))}
+                    checkAnswer={checkAnswer}
                   />
-                  {wonEntryIds.has(selected.id) && onFillAnswer && (
+                  {wonAnswers.has(selected.id) && onFillAnswer && (
                     <button
                       onClick={() => {
-                        onFillAnswer(selected.clueNumber, selected.direction, selected.puzzle.answer)
+                        onFillAnswer(selected.clueNumber, selected.direction, wonAnswers.get(selected.id)!)
                         onClose()
                       }}
                       className="mt-2 w-full py-2 px-4 rounded-lg bg-green-600 hover:bg-green-500 text-white font-semibold transition-colors"
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import axios from 'axios'
+import { LuEye, LuLink, LuPencil, LuTrash2 } from 'react-icons/lu'
+import { Modal } from '@/components/Modal'
+import { Spinner } from '@/components/Spinner'
+import { setAccessMode } from '@/store/slices/puzzleSlice'
+import type { AppDispatch, RootState } from '@/store/store'
+import type { AccessMode } from '@/types'
+
+interface SessionInvite {
+  id: number
+  token: string
+  role: 'editor' | 'spectator'
+  createdAt: string
+  revokedAt: string | null
+}
+
+interface ShareSessionModalProps {
+  isOpen: boolean
+  onClose: () => void
+  sessionId: string
+  onCopied: (message: string) => void
+}
+
+const inviteUrl = (token: string) => {
+  const url = new URL(window.location.href)
+  url.search = ''
+  url.searchParams.set('invite', token)
+  return url.toString()
+}
+
+export function ShareSessionModal({ isOpen, onClose, sessionId, onCopied }: ShareSessionModalProps) {
+  const dispatch = useDispatch<AppDispatch>()
+  const accessMode = useSelector((state: RootState) => state.puzzle.accessMode)
+  const [invites, setInvites] = useState<SessionInvite[]>([])
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadInvites = useCallback(async () => {
+    try {
+      const response = await axios.get(`/api/sessions/${sessionId}/invites`)
+      setInvites(response.data)
+    } catch (e) {
+      console.error('Failed to load invites', e)
+      setError('Could not load invite links')
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null)
+      void loadInvites()
+    }
+  }, [isOpen, loadInvites])
+
+  const run = async (key: string, action: () => Promise<void>, failure: string) => {
+    setPending(key)
+    setError(null)
+    try {
+      await action()
+    } catch (e) {
+      console.error(failure, e)
+      setError(failure)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleModeChange = (mode: AccessMode) =>
+    run(
+      'mode',
+      async () => {
+        await axios.put(`/api/sessions/${sessionId}/access`, { mode })
+        dispatch(setAccessMode(mode))
+      },
+      'Could not change who can join',
+    )
+
+  const handleCreateInvite = (role: SessionInvite['role']) =>
+    run(
+      role,
+      async () => {
+        const response = await axios.post(`/api/sessions/${sessionId}/invites`, { role })
+        await navigator.clipboard.writeText(inviteUrl(response.data.token))
+        onCopied(role === 'editor' ? 'Editor link copied!' : 'Spectator link copied!')
+        await loadInvites()
+      },
+      'Could not create an invite link',
+    )
+
+  const handleRevoke = (invite: SessionInvite) =>
+    run(
+      `revoke-${invite.id}`,
+      async () => {
+        await axios.delete(`/api/sessions/${sessionId}/invites/${invite.id}`)
+        await loadInvites()
+      },
+      'Could not revoke the link',
+    )
+
+  const activeInvites = invites.filter((invite) => !invite.revokedAt)
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Share session">
+      <div className="flex flex-col gap-6">
+        <section>
+          <h3 className="text-sm font-semibold text-text mb-2">Who can join</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {(
+              [
+                ['link', 'Anyone with the link'],
+                ['friends', 'Friends and invitees only'],
+              ] as const
+            ).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => void handleModeChange(mode)}
+                disabled={pending !== null}
+                className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                  accessMode === mode
+                    ? 'bg-primary/10 border-primary text-primary font-medium'
+                    : 'bg-surface border-border text-text-secondary hover:border-primary'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-text-secondary">
+            {accessMode === 'link'
+              ? 'Anyone with the address can watch; friends and invited editors can fill in the grid.'
+              : 'Only your friends and people you invite can open this session.'}
+          </p>
+        </section>
+
+        <section>
+          <h3 className="text-sm font-semibold text-text mb-2">Invite links</h3>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => void handleCreateInvite('editor')}
+              disabled={pending !== null}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-primary text-white text-sm hover:bg-primary-hover disabled:opacity-60"
+            >
+              {pending === 'editor' ? <Spinner /> : <LuPencil size={16} />}
+              Copy editor link
+            </button>
+            <button
+              onClick={() => void handleCreateInvite('spectator')}
+              disabled={pending !== null}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border border-border text-text text-sm hover:border-primary disabled:opacity-60"
+            >
+              {pending === 'spectator' ? <Spinner /> : <LuEye size={16} />}
+              Copy spectator link
+            </button>
+            <button
+              onClick={() => {
+                void navigator.clipboard.writeText(window.location.href).then(() => {
+                  onCopied('Link copied!')
+                })
+              }}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border border-border text-text-secondary text-sm hover:border-primary"
+            >
+              <LuLink size={16} />
+              Copy session address
+            </button>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-sm font-semibold text-text mb-2">Active links</h3>
+          {activeInvites.length === 0 ? (
+            <p className="text-sm text-text-secondary">No invite links yet.</p>
+          ) : (
+            <ul className="flex flex-col divide-y divide-border border border-border rounded-lg">
+              {activeInvites.map((invite) => (
+                <li key={invite.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <div className="text-sm">
+                    <span className="font-medium text-text capitalize">{invite.role}</span>
+                    <span className="text-text-secondary">
+                      {' '}
+                      · created {new Date(invite.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => void handleRevoke(invite)}
+                    disabled={pending !== null}
+                    className="flex items-center gap-1 text-sm text-error hover:underline disabled:opacity-60"
+                    aria-label={`Revoke ${invite.role} link`}
+                  >
+                    {pending === `revoke-${invite.id}` ? <Spinner /> : <LuTrash2 size={14} />}
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {error && <p className="text-sm text-error">{error}</p>}
+      </div>
+    </Modal>
+  )
+}
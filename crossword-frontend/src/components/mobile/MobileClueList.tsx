@@ -1,3 +1,4 @@
+import { clueRefKey, getEntryRefs } from '../../utils/linkedClues'
 import type { Clue, Direction } from '../../types'
 
 interface MobileClueListProps {
@@ -13,8 +14,15 @@ export function MobileClueList({
   currentDirection,
   onClueSelect,
 }: MobileClueListProps) {
+  // Every part of a linked answer is highlighted together
+  const selectedKeys = new Set(
+    currentClueNumber !== null && currentDirection
+      ? getEntryRefs(clues, { number: currentClueNumber, direction: currentDirection }).map(clueRefKey)
+      : [],
+  )
+
   const renderClue = (clue: Clue, dir: Direction) => {
-    const isSelected = currentDirection === dir && currentClueNumber === clue.number
+    const isSelected = selectedKeys.has(`${clue.number}-${dir}`)
 
     return (
       <button
@@ -1,13 +1,27 @@
 import { useEffect, useRef } from 'react'
+import { LuPencil, LuSquareStack } from 'react-icons/lu'
 
 interface VirtualKeyboardProps {
   onKeyPress: (key: string) => void
   onDelete: () => void
   onClose: () => void
   isOpen: boolean
+  isPencilMode?: boolean
+  onTogglePencil?: () => void
+  isRebusMode?: boolean
+  onToggleRebus?: () => void
 }
 
-export function VirtualKeyboard({ onKeyPress, onDelete, onClose, isOpen }: VirtualKeyboardProps) {
+export function VirtualKeyboard({
+  onKeyPress,
+  onDelete,
+  onClose,
+  isOpen,
+  isPencilMode = false,
+  onTogglePencil,
+  isRebusMode = false,
+  onToggleRebus,
+}: VirtualKeyboardProps) {
   const keyboardRef = useRef<HTMLDivElement | null>(null)
 
   const rows = [
@@ -72,6 +86,25 @@ export function VirtualKeyboard({ onKeyPress, onDelete, onClose, isOpen }: Virtu
       <div className="flex flex-col gap-2 max-w-3xl mx-auto">
         {rows.map((row, i) => (
           <div key={i} className="flex justify-center gap-1.5">
+            {i === 2 && onTogglePencil && (
+              <button
+                onClick={onTogglePencil}
+                aria-label={isPencilMode ? 'Pencil mode enabled' : 'Pencil mode disabled'}
+                aria-pressed={isPencilMode}
+                className={`
+                  flex-1 min-w-[40px] h-11 rounded
+                  shadow-sm border-b flex items-center justify-center
+                  active:translate-y-[1px] active:shadow-none transition-all
+                  ${
+                    isPencilMode
+                      ? 'bg-primary text-white border-primary'
+                      : 'bg-gray-300 dark:bg-input-bg border-gray-400 dark:border-border text-gray-900 dark:text-text'
+                  }
+                `}
+              >
+                <LuPencil size={18} />
+              </button>
+            )}
             {row.map((key) => (
               <button
                 key={key}
@@ -87,6 +120,25 @@ export function VirtualKeyboard({ onKeyPress, onDelete, onClose, isOpen }: Virtu
                 {key}
               </button>
             ))}
+            {i === 1 && onToggleRebus && (
+              <button
+                onClick={onToggleRebus}
+                aria-label={isRebusMode ? 'Finish rebus entry' : 'Enter several letters in one cell'}
+                aria-pressed={isRebusMode}
+                className={`
+                  flex-1 min-w-[30px] h-11 rounded
+                  shadow-sm border-b flex items-center justify-center
+                  active:translate-y-[1px] active:shadow-none transition-all
+                  ${
+                    isRebusMode
+                      ? 'bg-primary text-white border-primary'
+                      : 'bg-gray-300 dark:bg-input-bg border-gray-400 dark:border-border text-gray-900 dark:text-text'
+                  }
+                `}
+              >
+                <LuSquareStack size={18} />
+              </button>
+            )}
             {i === 2 && (
               <button
                 onClick={onDelete}
@@ -1,16 +1,18 @@
 import { useRef, useState, useEffect } from 'react'
-import type { CrypticType, DisplayToken, Puzzle } from './types'
+import type { CrypticType, DisplayToken, PlayablePuzzle } from './types'
 import { CRYPTIC_DISPLAY } from './types'
 import { normalize, computeFns, allInsertions, findTriggers } from './helpers'
 
 type ResolvedGroup = { kind: 'replace' | 'result'; options: string[]; label?: CrypticType }
 
 interface Props {
-  puzzle: Puzzle
+  puzzle: PlayablePuzzle
+  // For puzzles without their answer: resolves to the answer to show if the guess is right
+  checkAnswer?: (guess: string) => Promise<string | null>
   onWin?: () => void
 }
 
-export function ParsewordsGame({ puzzle, onWin }: Props) {
+export function ParsewordsGame({ puzzle, checkAnswer, onWin }: Props) {
   const seedTokens = (tokens: typeof puzzle.tokens): DisplayToken[] =>
     tokens.map((t, i) => ({ ...t, id: t.id ?? `t${i + 1}` }))
 
@@ -61,7 +63,30 @@ export function ParsewordsGame({ puzzle, onWin }: Props) {
   const nonDefinitionTokens = displayTokens.filter(
     (t) => t.role !== 'definition' && t.role !== 'link',
   )
-  const won = nonDefinitionTokens.length === 1 && normalize(nonDefinitionTokens[0].text) === normalize(puzzle.answer)
+  const guess = nonDefinitionTokens.length === 1 ? normalize(nonDefinitionTokens[0].text) : null
+
+  // The server's verdict on the last guess sent to it
+  const [checked, setChecked] = useState<{ guess: string; answer: string | null } | null>(null)
+  useEffect(() => {
+    if (!guess || puzzle.answer !== undefined || !checkAnswer) return
+    let cancelled = false
+    checkAnswer(guess)
+      .then((answer) => {
+        if (!cancelled) setChecked({ guess, answer })
+      })
+      .catch(console.error)
+    return () => {
+      cancelled = true
+    }
+  }, [guess, puzzle.answer, checkAnswer])
+
+  let wonAnswer: string | null = null
+  if (guess && puzzle.answer !== undefined) {
+    if (guess === normalize(puzzle.answer)) wonAnswer = puzzle.displayAnswer ?? nonDefinitionTokens[0].text
+  } else if (guess && checked?.guess === guess) {
+    wonAnswer = checked.answer
+  }
+  const won = wonAnswer !== null
 
   const onWinRef = useRef(onWin)
   onWinRef.current = onWin
@@ -177,7 +202,7 @@ export function ParsewordsGame({ puzzle, onWin }: Props) {
                   </span>
                 ) : (
                   <div key={item.id} style={{ background: '#111', color: '#fff', boxShadow: '0 0 0 2px #facc15' }} className="px-4 py-2 rounded-lg text-base font-medium">
-                    {puzzle.displayAnswer ?? item.text}
+                    {wonAnswer ?? item.text}
                   </div>
                 ),
               )
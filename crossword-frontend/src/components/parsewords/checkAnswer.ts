@@ -0,0 +1,18 @@
+/**
+ * Ask the server whether a saved puzzle's answer is `guess`. Resolves to the
+ * answer, and how to display it, if so; players' copies don't include it.
+ */
+export async function checkParsewordsAnswer(
+  id: number,
+  guess: string,
+): Promise<{ answer: string; displayAnswer: string } | null> {
+  const res = await fetch(`/api/parsewords/${id}/check`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ guess }),
+  })
+  if (!res.ok) throw new Error(`Check failed: ${res.status}`)
+  const data: { correct: boolean; answer?: string; displayAnswer?: string } = await res.json()
+  if (!data.correct || !data.answer) return null
+  return { answer: data.answer, displayAnswer: data.displayAnswer ?? data.answer }
+}
@@ -55,4 +55,8 @@ export type Puzzle = {
   triggers: Trigger[]
 }
 
+// A puzzle as the server sends it to players, without its answer
+export type PlayablePuzzle = Omit<Puzzle, 'answer' | 'displayAnswer'> &
+  Partial<Pick<Puzzle, 'answer' | 'displayAnswer'>>
+
 export type DisplayToken = { id: string; text: string; role: TokenRole }
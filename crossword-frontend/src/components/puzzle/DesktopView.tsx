@@ -1,6 +1,6 @@
 import React, { useState } from 'react'
 import { useSelector, useDispatch } from 'react-redux'
-import { LuX, LuLightbulb, LuSearch, LuLock, LuLockOpen, LuBell, LuBellOff, LuPuzzle, LuShare2 } from 'react-icons/lu'
+import { LuX, LuLightbulb, LuLock, LuLockOpen, LuBell, LuBellOff, LuPuzzle, LuShare2, LuEye, LuPencil, LuSquareStack } from 'react-icons/lu'
 import { CrosswordGrid } from '@/CrosswordGrid'
 import { ClueList } from '@/ClueList'
 import { AttributionControls } from '@/components/AttributionControls'
@@ -10,19 +10,26 @@ import { ParsewordsModal } from '@/components/ParsewordsModal'
 import { ChangeNotification } from '@/components/ChangeNotification'
 import { CongratulationsModal } from '@/components/CongratulationsModal'
 import { Toast } from '@/components/Toast'
+import { CollaboratorList } from '@/components/CollaboratorList'
+import { ChatPanel } from '@/components/ChatPanel'
+import { ChatToggleButton } from '@/components/ChatToggleButton'
 import { ToolbarButton } from '@/components/ToolbarButton'
-import { Spinner } from '@/components/Spinner'
+import { CheckMenu } from '@/components/CheckMenu'
+import { ShareSessionModal } from '@/components/ShareSessionModal'
 import {
   clearErrorCells,
   dismissChangeNotification,
   setHintModalOpen,
   toggleLockMode,
+  togglePencilMode,
+  toggleRebusEntry,
 } from '@/store/slices/puzzleSlice'
 import { useRenderedGrid } from '@/hooks/useGridOptimized'
 import { useCurrentClue } from '@/hooks/useCurrentClue'
 import { useCheckResultAlert } from '@/hooks/useCheckResultAlert'
 import { useNotificationToggle } from '@/hooks/useNotificationToggle'
 import { usePuzzleTimer } from '@/hooks/usePuzzleTimer'
+import { useSessionChat } from '@/hooks/useSessionChat'
 import {
   selectTitle,
   selectClues,
@@ -32,23 +39,41 @@ import {
   selectCorrectFlashCells,
   selectIncorrectFlashCells,
   selectAttributions,
+  selectLightAttributions,
+  selectWordBreaks,
   selectSessionId,
   selectErrorCells,
-  selectIsChecking,
   selectIsLockModeEnabled,
+  selectIsPencilModeEnabled,
+  selectIsRebusEntryActive,
   selectIsHintModalOpen,
   selectPuzzleId,
+  selectSessionRole,
 } from '@/store/selectors/puzzleSelectors'
+import {
+  dismissPresenceNotice,
+  selectCollaborators,
+  selectPresenceNotice,
+} from '@/store/slices/presenceSlice'
+import {
+  selectChatMessages,
+  selectChatUnreadCount,
+  selectIsChatOpen,
+  setChatOpen,
+} from '@/store/slices/chatSlice'
+import type { CheckRequest } from '@/types'
 
 export function DesktopView({
   onClueClick,
   onCellClick,
-  onCheckAnswers,
+  onCheck,
+  onReveal,
   onFillAnswer,
 }: {
   onClueClick: (num: number, dir: 'across' | 'down') => void
   onCellClick: (r: number, c: number) => void
-  onCheckAnswers: () => void
+  onCheck: (request: CheckRequest) => void
+  onReveal: (request: CheckRequest) => void
   onFillAnswer?: (clueNumber: number, direction: 'across' | 'down', answer: string) => void
 }) {
   const dispatch = useDispatch()
@@ -60,23 +85,40 @@ export function DesktopView({
   const correctFlashCells = useSelector(selectCorrectFlashCells)
   const incorrectFlashCells = useSelector(selectIncorrectFlashCells)
   const attributions = useSelector(selectAttributions)
+  const lightAttributions = useSelector(selectLightAttributions)
+  const wordBreaks = useSelector(selectWordBreaks)
   const sessionId = useSelector(selectSessionId)
   const errorCells = useSelector(selectErrorCells)
-  const isChecking = useSelector(selectIsChecking)
   const isLockModeEnabled = useSelector(selectIsLockModeEnabled)
+  const isPencilModeEnabled = useSelector(selectIsPencilModeEnabled)
+  const isRebusEntryActive = useSelector(selectIsRebusEntryActive)
   const isHintModalOpen = useSelector(selectIsHintModalOpen)
   const [showAttributions, setShowAttributions] = useState(false)
   const [showParsewords, setShowParsewords] = useState(false)
+  const [showShare, setShowShare] = useState(false)
+  const sessionRole = useSelector(selectSessionRole)
   const puzzleId = useSelector(selectPuzzleId)
+  const collaborators = useSelector(selectCollaborators)
+  const presenceNotice = useSelector(selectPresenceNotice)
+  const chatMessages = useSelector(selectChatMessages)
+  const isChatOpen = useSelector(selectIsChatOpen)
+  const chatUnreadCount = useSelector(selectChatUnreadCount)
 
   const { renderedGrid, currentClueNumber } = useRenderedGrid()
-  const { clueMetadata, currentClue, currentWordState, handleFetchHintAnswer } =
-    useCurrentClue(currentClueNumber)
+  const {
+    clueMetadata,
+    currentClue,
+    currentClueDirection,
+    currentWordState,
+    currentWordBreaks,
+    splitCurrentAnswer,
+  } = useCurrentClue(currentClueNumber)
   const { toastMessage, setToastMessage, handleNotificationClick, isSupported, isSubscribed, isLoading } =
     useNotificationToggle(sessionId)
   useCheckResultAlert()
 
   const { timerDisplay } = usePuzzleTimer(sessionId ?? undefined)
+  const { sendMessage } = useSessionChat(sessionId)
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-8 pb-12">
@@ -92,6 +134,13 @@ export function DesktopView({
         onDismiss={() => setToastMessage(null)}
       />
 
+      <Toast
+        key={presenceNotice?.id}
+        show={!!presenceNotice}
+        message={presenceNotice?.message || ''}
+        onDismiss={() => dispatch(dismissPresenceNotice())}
+      />
+
       <CongratulationsModal />
 
       {/* Header */}
@@ -99,8 +148,18 @@ export function DesktopView({
         <div>
           <h1 className="text-3xl font-bold text-text mb-1 italic tracking-tight">{title}</h1>
           <p className="text-text-secondary text-sm">
-            Solve the cryptic clues to complete the grid.
+            {sessionRole === 'spectator' ? (
+              <span className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-input-bg border border-border text-xs font-medium">
+                <LuEye size={12} />
+                Watching (read-only)
+              </span>
+            ) : (
+              'Solve the cryptic clues to complete the grid.'
+            )}
           </p>
+          <div className="mt-3">
+            <CollaboratorList collaborators={collaborators} />
+          </div>
         </div>
         <div className="flex items-center gap-2">
           {errorCells.length > 0 && (
@@ -119,15 +178,10 @@ export function DesktopView({
             className={`bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/30 ${!cursor || !currentClue ? 'opacity-50 cursor-not-allowed' : 'hover:bg-blue-500/20'}`}
           />
           {sessionId && (
-            <ToolbarButton
-              onClick={() => {
-                console.log('[DesktopView] check answers click')
-                void onCheckAnswers()
-              }}
-              icon={isChecking ? <Spinner /> : <LuSearch size={20} />}
-              label="Check answers"
-              disabled={isChecking}
-              className={`bg-yellow-500/10 text-yellow-700 border-yellow-500/30 ${isChecking ? 'opacity-60' : 'hover:bg-yellow-500/20'}`}
+            <CheckMenu
+              currentClueNumber={currentClueNumber}
+              onCheck={onCheck}
+              onReveal={onReveal}
             />
           )}
           <ToolbarButton
@@ -139,6 +193,24 @@ export function DesktopView({
               ? 'bg-green-500/10 border-green-500/30 text-green-600 dark:text-green-400'
               : 'bg-surface border-border text-text-secondary hover:border-green-500 hover:text-green-600'}
           />
+          <ToolbarButton
+            onClick={() => dispatch(togglePencilMode())}
+            icon={<LuPencil size={20} />}
+            label={isPencilModeEnabled ? 'Pencil mode enabled' : 'Pencil mode disabled'}
+            title={isPencilModeEnabled ? 'Pencil: New letters are guesses' : 'Pencil: New letters are inked'}
+            className={isPencilModeEnabled
+              ? 'bg-slate-500/10 border-slate-500/30 text-slate-700 dark:text-slate-300'
+              : 'bg-surface border-border text-text-secondary hover:border-slate-500 hover:text-slate-600'}
+          />
+          <ToolbarButton
+            onClick={() => dispatch(toggleRebusEntry())}
+            icon={<LuSquareStack size={20} />}
+            label={isRebusEntryActive ? 'Finish rebus entry' : 'Enter several letters in one cell'}
+            title={isRebusEntryActive ? 'Rebus: Press Enter to finish this cell' : 'Rebus: Type several letters in one cell (Insert)'}
+            className={isRebusEntryActive
+              ? 'bg-amber-500/10 border-amber-500/30 text-amber-600 dark:text-amber-400'
+              : 'bg-surface border-border text-text-secondary hover:border-amber-500 hover:text-amber-600'}
+          />
           {puzzleId && (
             <button
               onClick={() => setShowParsewords(true)}
@@ -164,16 +236,28 @@ export function DesktopView({
           {sessionId && (
             <ToolbarButton
               onClick={() => {
+                // Only the owner manages invites; everyone else can still pass the address on
+                if (sessionRole === 'owner') {
+                  setShowShare(true)
+                  return
+                }
                 void navigator.clipboard.writeText(window.location.href).then(() => {
                   setToastMessage('Link copied!')
                 })
               }}
               icon={<LuShare2 size={20} />}
               label="Share session"
-              title="Copy link to this session"
+              title={sessionRole === 'owner' ? 'Invite people to this session' : 'Copy link to this session'}
               className="bg-surface border-border text-text-secondary hover:border-primary hover:text-primary"
             />
           )}
+          {sessionId && (
+            <ChatToggleButton
+              onClick={() => dispatch(setChatOpen(!isChatOpen))}
+              isOpen={isChatOpen}
+              unreadCount={chatUnreadCount}
+            />
+          )}
         </div>
       </header>
 
@@ -208,10 +292,12 @@ export function DesktopView({
             correctFlashCells={new Set(correctFlashCells)}
             incorrectFlashCells={new Set(incorrectFlashCells)}
             errorCells={new Set(errorCells)}
-            attributions={attributions}
+            attributions={lightAttributions}
             showAttributions={showAttributions}
             clueMetadata={clueMetadata}
             selectedDirection={cursor?.direction}
+            collaborators={collaborators}
+            wordBreaks={wordBreaks}
           />
 
           <div className="mt-8 pt-6 border-t border-border flex items-center justify-between">
@@ -234,6 +320,12 @@ export function DesktopView({
                 </kbd>{' '}
                 Clear
               </span>
+              <span className="flex items-center gap-1.5">
+                <kbd className="px-1.5 py-0.5 bg-input-bg border border-border rounded text-[10px]">
+                  Ctrl+Z
+                </kbd>{' '}
+                Undo
+              </span>
             </div>
           </div>
         </div>
@@ -247,13 +339,38 @@ export function DesktopView({
           wordLength={currentWordState.length}
           clue={currentClue.clue}
           clueNumber={currentClue.number}
-          direction={cursor?.direction}
+          direction={currentClueDirection}
           currentWordState={currentWordState}
-          onFetchAnswer={handleFetchHintAnswer}
+          wordBreaks={currentWordBreaks}
+          splitAnswer={splitCurrentAnswer}
           timerDisplay={timerDisplay}
         />
       )}
 
+      {sessionId && isChatOpen && (
+        <aside
+          className="fixed bottom-6 right-6 z-40 w-80 h-[28rem] bg-surface border border-border rounded-2xl shadow-2xl flex flex-col overflow-hidden"
+          aria-label="Session chat"
+        >
+          <header className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <h2 className="text-sm font-bold text-text m-0">Chat</h2>
+            <button
+              onClick={() => dispatch(setChatOpen(false))}
+              className="p-1 bg-transparent border-none text-text-secondary hover:text-text cursor-pointer"
+              aria-label="Close chat"
+            >
+              <LuX size={16} />
+            </button>
+          </header>
+          <ChatPanel
+            messages={chatMessages}
+            clues={clues}
+            onSend={sendMessage}
+            onClueClick={onClueClick}
+          />
+        </aside>
+      )}
+
       {puzzleId && (
         <ParsewordsModal
           isOpen={showParsewords}
@@ -262,6 +379,15 @@ export function DesktopView({
           onFillAnswer={onFillAnswer}
         />
       )}
+
+      {sessionId && sessionRole === 'owner' && (
+        <ShareSessionModal
+          isOpen={showShare}
+          onClose={() => setShowShare(false)}
+          sessionId={sessionId}
+          onCopied={setToastMessage}
+        />
+      )}
     </div>
   )
 }
@@ -1,6 +1,6 @@
 import React, { useState, useCallback } from 'react'
 import { useSelector, useDispatch } from 'react-redux'
-import { LuX, LuLightbulb, LuSearch, LuLock, LuLockOpen, LuChartBarBig, LuBell, LuBellOff, LuKeyboard, LuClipboardList, LuPuzzle, LuShare2 } from 'react-icons/lu'
+import { LuX, LuLightbulb, LuLock, LuLockOpen, LuChartBarBig, LuBell, LuBellOff, LuKeyboard, LuClipboardList, LuPuzzle, LuShare2, LuEye } from 'react-icons/lu'
 import { CrosswordGrid } from '@/CrosswordGrid'
 import { FloatingClueBar, VirtualKeyboard, BottomSheet, MobileClueList } from '@/components/mobile'
 import { AttributionControls } from '@/components/AttributionControls'
@@ -10,19 +10,26 @@ import { ParsewordsModal } from '@/components/ParsewordsModal'
 import { ChangeNotification } from '@/components/ChangeNotification'
 import { CongratulationsModal } from '@/components/CongratulationsModal'
 import { Toast } from '@/components/Toast'
+import { CollaboratorList } from '@/components/CollaboratorList'
+import { ChatPanel } from '@/components/ChatPanel'
+import { ChatToggleButton } from '@/components/ChatToggleButton'
 import { ToolbarButton } from '@/components/ToolbarButton'
-import { Spinner } from '@/components/Spinner'
+import { CheckMenu } from '@/components/CheckMenu'
+import { ShareSessionModal } from '@/components/ShareSessionModal'
 import {
   clearErrorCells,
   dismissChangeNotification,
   setHintModalOpen,
   toggleLockMode,
+  togglePencilMode,
+  toggleRebusEntry,
 } from '@/store/slices/puzzleSlice'
 import { useRenderedGrid } from '@/hooks/useGridOptimized'
 import { useCurrentClue } from '@/hooks/useCurrentClue'
 import { useCheckResultAlert } from '@/hooks/useCheckResultAlert'
 import { useNotificationToggle } from '@/hooks/useNotificationToggle'
 import { usePuzzleTimer } from '@/hooks/usePuzzleTimer'
+import { useSessionChat } from '@/hooks/useSessionChat'
 import {
   selectTitle,
   selectClues,
@@ -32,28 +39,45 @@ import {
   selectCorrectFlashCells,
   selectIncorrectFlashCells,
   selectAttributions,
+  selectLightAttributions,
+  selectWordBreaks,
   selectSessionId,
   selectErrorCells,
-  selectIsChecking,
   selectIsLockModeEnabled,
+  selectIsPencilModeEnabled,
+  selectIsRebusEntryActive,
   selectIsHintModalOpen,
   selectPuzzleId,
+  selectSessionRole,
 } from '@/store/selectors/puzzleSelectors'
-import type { Direction } from '@/types'
+import {
+  dismissPresenceNotice,
+  selectCollaborators,
+  selectPresenceNotice,
+} from '@/store/slices/presenceSlice'
+import {
+  selectChatMessages,
+  selectChatUnreadCount,
+  selectIsChatOpen,
+  setChatOpen,
+} from '@/store/slices/chatSlice'
+import type { CheckRequest, Direction } from '@/types'
 
 export function MobileView({
   onClueClick,
   onCellClick,
   onVirtualKeyPress,
   onVirtualDelete,
-  onCheckAnswers,
+  onCheck,
+  onReveal,
   onFillAnswer,
 }: {
   onClueClick: (num: number, dir: Direction) => void
   onCellClick: (r: number, c: number) => void
   onVirtualKeyPress: (key: string) => void
   onVirtualDelete: () => void
-  onCheckAnswers: () => void
+  onCheck: (request: CheckRequest) => void
+  onReveal: (request: CheckRequest) => void
   onFillAnswer?: (clueNumber: number, direction: 'across' | 'down', answer: string) => void
 }) {
   const dispatch = useDispatch()
@@ -65,10 +89,13 @@ export function MobileView({
   const correctFlashCells = useSelector(selectCorrectFlashCells)
   const incorrectFlashCells = useSelector(selectIncorrectFlashCells)
   const attributions = useSelector(selectAttributions)
+  const lightAttributions = useSelector(selectLightAttributions)
+  const wordBreaks = useSelector(selectWordBreaks)
   const sessionId = useSelector(selectSessionId)
   const errorCells = useSelector(selectErrorCells)
-  const isChecking = useSelector(selectIsChecking)
   const isLockModeEnabled = useSelector(selectIsLockModeEnabled)
+  const isPencilModeEnabled = useSelector(selectIsPencilModeEnabled)
+  const isRebusEntryActive = useSelector(selectIsRebusEntryActive)
   const isHintModalOpen = useSelector(selectIsHintModalOpen)
 
   // Local UI state
@@ -77,16 +104,30 @@ export function MobileView({
   const [isClueBarHidden, setIsClueBarHidden] = useState(false)
   const [showAttributions, setShowAttributions] = useState(false)
   const [showParsewords, setShowParsewords] = useState(false)
+  const [showShare, setShowShare] = useState(false)
+  const sessionRole = useSelector(selectSessionRole)
   const puzzleId = useSelector(selectPuzzleId)
+  const collaborators = useSelector(selectCollaborators)
+  const presenceNotice = useSelector(selectPresenceNotice)
+  const chatMessages = useSelector(selectChatMessages)
+  const isChatOpen = useSelector(selectIsChatOpen)
+  const chatUnreadCount = useSelector(selectChatUnreadCount)
 
   const { renderedGrid, currentClueNumber } = useRenderedGrid()
-  const { clueMetadata, currentClue, currentWordState, handleFetchHintAnswer } =
-    useCurrentClue(currentClueNumber)
+  const {
+    clueMetadata,
+    currentClue,
+    currentClueDirection,
+    currentWordState,
+    currentWordBreaks,
+    splitCurrentAnswer,
+  } = useCurrentClue(currentClueNumber)
   const { toastMessage, setToastMessage, handleNotificationClick, isSupported, isSubscribed, isLoading } =
     useNotificationToggle(sessionId)
   useCheckResultAlert()
 
   const { timerDisplay } = usePuzzleTimer(sessionId ?? undefined)
+  const { sendMessage } = useSessionChat(sessionId)
 
   const handleClueSelect = useCallback(
     (num: number, dir: Direction) => {
@@ -122,12 +163,19 @@ export function MobileView({
         onDismiss={() => setToastMessage(null)}
       />
 
+      <Toast
+        key={presenceNotice?.id}
+        show={!!presenceNotice}
+        message={presenceNotice?.message || ''}
+        onDismiss={() => dispatch(dismissPresenceNotice())}
+      />
+
       <CongratulationsModal />
 
       {/* Floating clue bar */}
       <FloatingClueBar
         clue={isClueBarHidden ? null : currentClue}
-        direction={cursor?.direction}
+        direction={currentClueDirection}
         onTap={() => setIsClueSheetOpen(true)}
         onDismiss={() => setIsClueBarHidden(true)}
       />
@@ -143,6 +191,15 @@ export function MobileView({
       >
         <div className="flex items-center justify-between py-3 px-2 gap-2">
           <h1 className="text-xl font-bold text-text m-0 truncate flex-1">{title}</h1>
+          {sessionRole === 'spectator' && (
+            <span
+              className="shrink-0 inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-input-bg border border-border text-xs text-text-secondary"
+              title="You are watching this session and can't change the grid"
+            >
+              <LuEye size={12} />
+              Read-only
+            </span>
+          )}
           <div className="flex items-center gap-4 shrink-0">
             {errorCells.length > 0 && (
               <ToolbarButton
@@ -164,13 +221,11 @@ export function MobileView({
               />
             )}
             {sessionId && (
-              <ToolbarButton
-                onClick={onCheckAnswers}
-                icon={isChecking ? <Spinner /> : <LuSearch size={18} />}
-                label="Check answers"
-                disabled={isChecking}
+              <CheckMenu
+                currentClueNumber={currentClueNumber}
+                onCheck={onCheck}
+                onReveal={onReveal}
                 compact
-                className={`bg-yellow-500/10 text-yellow-700 border-yellow-500/30 ${isChecking ? 'opacity-60' : 'active:bg-yellow-500/20'}`}
               />
             )}
             <ToolbarButton
@@ -218,20 +273,39 @@ export function MobileView({
             {sessionId && (
               <ToolbarButton
                 onClick={() => {
+                  // Only the owner manages invites; everyone else can still pass the address on
+                  if (sessionRole === 'owner') {
+                    setShowShare(true)
+                    return
+                  }
                   void navigator.clipboard.writeText(window.location.href).then(() => {
                     setToastMessage('Link copied!')
                   })
                 }}
                 icon={<LuShare2 size={18} />}
                 label="Share session"
-                title="Copy link to this session"
+                title={sessionRole === 'owner' ? 'Invite people to this session' : 'Copy link to this session'}
                 compact
                 className="bg-surface border-border text-text-secondary active:bg-input-bg"
               />
             )}
+            {sessionId && (
+              <ChatToggleButton
+                onClick={() => dispatch(setChatOpen(!isChatOpen))}
+                isOpen={isChatOpen}
+                unreadCount={chatUnreadCount}
+                compact
+              />
+            )}
           </div>
         </div>
 
+        {collaborators.length > 0 && (
+          <div className="px-2 pb-2">
+            <CollaboratorList collaborators={collaborators} />
+          </div>
+        )}
+
         <div className="bg-surface rounded-xl p-2 shadow-lg border border-border">
           <CrosswordGrid
             grid={renderedGrid}
@@ -241,10 +315,12 @@ export function MobileView({
             correctFlashCells={new Set(correctFlashCells)}
             incorrectFlashCells={new Set(incorrectFlashCells)}
             errorCells={new Set(errorCells)}
-            attributions={attributions}
+            attributions={lightAttributions}
             showAttributions={showAttributions}
             clueMetadata={clueMetadata}
             selectedDirection={cursor?.direction}
+            collaborators={collaborators}
+            wordBreaks={wordBreaks}
           />
         </div>
       </div>
@@ -307,6 +383,23 @@ export function MobileView({
         )}
       </BottomSheet>
 
+      <BottomSheet
+        isOpen={isChatOpen}
+        onClose={() => dispatch(setChatOpen(false))}
+        title="Chat"
+        height="60dvh"
+      >
+        <ChatPanel
+          messages={chatMessages}
+          clues={clues}
+          onSend={sendMessage}
+          onClueClick={(num, dir) => {
+            dispatch(setChatOpen(false))
+            handleClueSelect(num, dir)
+          }}
+        />
+      </BottomSheet>
+
       {sessionId && currentClue && (
         <HintModal
           isOpen={isHintModalOpen}
@@ -315,9 +408,10 @@ export function MobileView({
           wordLength={currentWordState.length}
           clue={currentClue.clue}
           clueNumber={currentClue.number}
-          direction={cursor?.direction}
+          direction={currentClueDirection}
           currentWordState={currentWordState}
-          onFetchAnswer={handleFetchHintAnswer}
+          wordBreaks={currentWordBreaks}
+          splitAnswer={splitCurrentAnswer}
           timerDisplay={timerDisplay}
         />
       )}
@@ -331,12 +425,25 @@ export function MobileView({
         />
       )}
 
+      {sessionId && sessionRole === 'owner' && (
+        <ShareSessionModal
+          isOpen={showShare}
+          onClose={() => setShowShare(false)}
+          sessionId={sessionId}
+          onCopied={setToastMessage}
+        />
+      )}
+
       {/* Virtual keyboard */}
       <VirtualKeyboard
         isOpen={isKeyboardOpen}
         onClose={() => setIsKeyboardOpen(false)}
         onKeyPress={onVirtualKeyPress}
         onDelete={onVirtualDelete}
+        isPencilMode={isPencilModeEnabled}
+        onTogglePencil={() => dispatch(togglePencilMode())}
+        isRebusMode={isRebusEntryActive}
+        onToggleRebus={() => dispatch(toggleRebusEntry())}
       />
     </div>
   )
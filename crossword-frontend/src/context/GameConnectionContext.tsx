@@ -8,14 +8,27 @@ import {
   socketReceivedExplanation,
   socketReceivedAnswerFeedback,
   socketReceivedPuzzleComplete,
+  socketReceivedPresence,
+  socketReceivedPresenceJoined,
+  socketReceivedPresenceUpdated,
+  socketReceivedPresenceLeft,
+  socketReceivedChatMessage,
+  socketReceivedAccessRevoked,
+  socketReceivedCellsMarked,
+  socketReceivedSettingsUpdated,
 } from '@/store/actions/socketActions'
 import { connectionEstablished, connectionLost } from '@/store/slices/socketSlice'
 import { clearFlashCells } from '@/store/slices/puzzleSlice'
+import { useAuth } from '@/context/AuthContext'
+import { getAnonymousId, getNickname } from '@/utils/sessionManager'
+import { getAuthToken } from '@/services/auth'
 import axios from 'axios'
+import type { CheckRequest } from '@/types'
 
 interface GameConnectionContextValue {
   sendCellUpdate: (sessionId: string, r: number, c: number, value: string) => Promise<void>
-  checkAnswers: (sessionId: string) => Promise<any>
+  checkAnswers: (sessionId: string, request?: CheckRequest) => Promise<any>
+  setAutocheck: (sessionId: string, autocheck: boolean) => Promise<void>
   claimWord: (
     sessionId: string,
     clueKey: string,
@@ -39,6 +52,7 @@ interface GameConnectionContextValue {
 export const GameConnectionContext = createContext<GameConnectionContextValue>({
   sendCellUpdate: async () => {},
   checkAnswers: async () => {},
+  setAutocheck: async () => {},
   claimWord: async () => {},
   requestExplanation: async () => {},
   sendAnswerFeedback: async () => {},
@@ -59,6 +73,11 @@ export const GameConnectionProvider: React.FC<GameConnectionProviderProps> = ({
   const [isConnected, setIsConnected] = useState(false)
   const [socketId, setSocketId] = useState<string | null>(null)
   const flashTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const { user } = useAuth()
+
+  // EventSource can't send auth headers, so say who we are in the query string
+  const displayName = user?.username ?? getNickname() ?? ''
+  const userId = user?.id ?? null
 
   const FLASH_DURATION_MS = 500
 
@@ -78,10 +97,13 @@ export const GameConnectionProvider: React.FC<GameConnectionProviderProps> = ({
     [socketId],
   )
 
-  // Check answers via REST
-  const checkAnswers = useCallback(async (sid: string) => {
+  // Check answers via REST; without a request the whole grid is checked
+  const checkAnswers = useCallback(async (sid: string, request?: CheckRequest) => {
     try {
-      const response = await axios.post(`/api/sessions/${sid}/check`)
+      const response = await axios.post(`/api/sessions/${sid}/check`, {
+        ...request,
+        anonymousId: getAnonymousId(),
+      })
       return response.data
     } catch (error) {
       console.error('[GameConnection] Failed to check answers:', error)
@@ -89,6 +111,19 @@ export const GameConnectionProvider: React.FC<GameConnectionProviderProps> = ({
     }
   }, [])
 
+  // Turn autocheck on or off for everyone in the session
+  const setAutocheck = useCallback(async (sid: string, autocheck: boolean) => {
+    try {
+      await axios.put(`/api/sessions/${sid}/settings`, {
+        autocheck,
+        anonymousId: getAnonymousId(),
+      })
+    } catch (error) {
+      console.error('[GameConnection] Failed to update settings:', error)
+      throw error
+    }
+  }, [])
+
   // Claim word via REST
   const claimWord = useCallback(
     async (sid: string, clueKey: string, userId: number | null, username: string) => {
@@ -161,10 +196,20 @@ export const GameConnectionProvider: React.FC<GameConnectionProviderProps> = ({
         eventSourceRef.current.close()
       }
 
-      const sseUrl = `/api/sessions/${sessionId}/events`
+      const params = new URLSearchParams()
+      if (displayName) params.set('username', displayName)
+      if (userId !== null) params.set('userId', String(userId))
+      const query = params.toString()
+      const sseUrl = `/api/sessions/${sessionId}/events${query ? `?${query}` : ''}`
       console.log('[GameConnection] Connecting to SSE:', sseUrl)
 
-      const es = new EventSource(sseUrl)
+      // Credentials go on the real URL only, so they stay out of the console
+      // log; the server's request logger redacts them
+      params.set('anonymousId', getAnonymousId())
+      const token = getAuthToken()
+      if (token) params.set('token', token)
+
+      const es = new EventSource(`/api/sessions/${sessionId}/events?${params.toString()}`)
       eventSourceRef.current = es
 
       es.onopen = () => {
@@ -203,10 +248,29 @@ export const GameConnectionProvider: React.FC<GameConnectionProviderProps> = ({
             c: data.c,
             value: data.value,
             senderId: data.senderId,
+            version: data.version,
+            tentative: data.tentative,
           }),
         )
       })
 
+      // Every cell written by one request, e.g. a revealed word
+      es.addEventListener('cells_updated', (e: MessageEvent) => {
+        const data = JSON.parse(e.data)
+        for (const cell of data.cells ?? []) {
+          store.dispatch(
+            socketReceivedCellUpdated({
+              r: cell.r,
+              c: cell.c,
+              value: cell.value,
+              senderId: data.senderId,
+              version: cell.version,
+              tentative: cell.tentative,
+            }),
+          )
+        }
+      })
+
       es.addEventListener('word_claimed', (e: MessageEvent) => {
         const data = JSON.parse(e.data)
         store.dispatch(
@@ -252,6 +316,47 @@ export const GameConnectionProvider: React.FC<GameConnectionProviderProps> = ({
       es.addEventListener('puzzle_complete', () => {
         store.dispatch(socketReceivedPuzzleComplete())
       })
+
+      es.addEventListener('presence', (e: MessageEvent) => {
+        const data = JSON.parse(e.data)
+        store.dispatch(socketReceivedPresence({ clients: data.clients ?? [] }))
+      })
+
+      es.addEventListener('presence_joined', (e: MessageEvent) => {
+        store.dispatch(socketReceivedPresenceJoined(JSON.parse(e.data)))
+      })
+
+      es.addEventListener('presence_updated', (e: MessageEvent) => {
+        store.dispatch(socketReceivedPresenceUpdated(JSON.parse(e.data)))
+      })
+
+      es.addEventListener('presence_left', (e: MessageEvent) => {
+        store.dispatch(socketReceivedPresenceLeft(JSON.parse(e.data)))
+      })
+
+      es.addEventListener('chat_message', (e: MessageEvent) => {
+        store.dispatch(socketReceivedChatMessage(JSON.parse(e.data)))
+      })
+
+      es.addEventListener('cells_marked', (e: MessageEvent) => {
+        const data = JSON.parse(e.data)
+        store.dispatch(socketReceivedCellsMarked({ marks: data.marks ?? {} }))
+      })
+
+      es.addEventListener('settings_updated', (e: MessageEvent) => {
+        const data = JSON.parse(e.data)
+        store.dispatch(socketReceivedSettingsUpdated({ autocheck: Boolean(data.autocheck) }))
+      })
+
+      // The owner revoked our link or closed the session to friends
+      es.addEventListener('access_revoked', () => {
+        es.close()
+        eventSourceRef.current = null
+        setIsConnected(false)
+        setSocketId(null)
+        store.dispatch(connectionLost())
+        store.dispatch(socketReceivedAccessRevoked())
+      })
     }
 
     connect()
@@ -266,13 +371,14 @@ export const GameConnectionProvider: React.FC<GameConnectionProviderProps> = ({
         setSocketId(null)
       }
     }
-  }, [sessionId])
+  }, [sessionId, displayName, userId])
 
   return (
     <GameConnectionContext.Provider
       value={{
         sendCellUpdate,
         checkAnswers,
+        setAutocheck,
         claimWord,
         requestExplanation,
         sendAnswerFeedback,
@@ -7,40 +7,54 @@ import {
   setAttribution,
   setCheckInProgress,
   setCheckResult,
+  cellMarksReceived,
+  selectTentativeCells,
 } from '@/store/slices/puzzleSlice'
-import { checkSingleWord, extractClueMetadata, checkSessionAnswers } from '@/utils/answerChecker'
+import { extractClueMetadata } from '@/utils/answerChecker'
+import { getCellAt } from '@/utils/cellState'
+import { getCellsForClue } from '@/utils/lockCells'
+import { lightCells } from '@/utils/gridCells'
+import { clueRefKey, getEntryHead } from '@/utils/linkedClues'
 import { useAuth } from '@/context/AuthContext'
 import { useGameConnection } from '@/context/GameConnectionContext'
 import { getNickname } from '@/utils/sessionManager'
 import axios from 'axios'
 import type { AppDispatch, RootState } from '@/store/store'
-import type { Direction } from '@/types'
+import type { CheckRequest, Direction } from '@/types'
 
 // Selectors
 const selectGrid = (state: RootState) => state.puzzle.grid
 const selectAnswers = (state: RootState) => state.puzzle.answers
-const selectAnswersEncrypted = (state: RootState) => state.puzzle.answersEncrypted
+const selectClues = (state: RootState) => state.puzzle.clues
 const selectSessionId = (state: RootState) => state.puzzle.sessionId
 const selectAttributions = (state: RootState) => state.puzzle.attributions
 
 const FLASH_DURATION_MS = 500
 
+export interface WordCheck {
+  status: 'correct' | 'incorrect' | 'nickname_required'
+  // Whether this word finished the grid with every answer right
+  puzzleComplete: boolean
+}
+
 export function useAnswerChecker() {
   const dispatch = useDispatch<AppDispatch>()
   const { user } = useAuth()
-  const { sendAnswerFeedback } = useGameConnection()
+  const { sendAnswerFeedback, checkAnswers: requestCheck } = useGameConnection()
   const grid = useSelector(selectGrid)
   const answers = useSelector(selectAnswers)
-  const answersEncrypted = useSelector(selectAnswersEncrypted)
+  const clues = useSelector(selectClues)
   const sessionId = useSelector(selectSessionId)
   const attributions = useSelector(selectAttributions)
+  const tentativeCells = useSelector(selectTentativeCells)
   const flashTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   // Refs for stable callbacks
   const gridRef = useRef(grid)
   const answersRef = useRef(answers)
-  const answersEncryptedRef = useRef(answersEncrypted)
+  const cluesRef = useRef(clues)
   const attributionsRef = useRef(attributions)
+  const tentativeCellsRef = useRef(tentativeCells)
   const sessionIdRef = useRef(sessionId)
   const userRef = useRef(user)
 
@@ -61,18 +75,20 @@ export function useAnswerChecker() {
   useEffect(() => {
     gridRef.current = grid
     answersRef.current = answers
-    answersEncryptedRef.current = answersEncrypted
+    cluesRef.current = clues
     attributionsRef.current = attributions
+    tentativeCellsRef.current = tentativeCells
     sessionIdRef.current = sessionId
     userRef.current = user
-  }, [grid, answers, answersEncrypted, attributions, sessionId, user])
+  }, [grid, answers, clues, attributions, tentativeCells, sessionId, user])
 
   const claimWord = useCallback(
     async (clueNumber: number, direction: Direction) => {
       const currentSessionId = sessionIdRef.current
       if (!currentSessionId) return
 
-      const clueKey = `${clueNumber}-${direction}`
+      // A linked answer is claimed under the light that carries its clue
+      const clueKey = clueRefKey(getEntryHead(cluesRef.current, { number: clueNumber, direction }))
       const currentAttributions = attributionsRef.current
 
       // Don't claim if already attributed
@@ -106,56 +122,56 @@ export function useAnswerChecker() {
   )
 
   const checkCurrentWord = useCallback(
-    (
+    async (
       clueNumber: number,
       direction: Direction,
       answersOverride?: string[],
       onNicknameMissing?: () => void,
-    ) => {
+    ): Promise<WordCheck | undefined> => {
       const currentGrid = gridRef.current
-      const currentAnswers = answersRef.current
-      const currentAnswersEncrypted = answersEncryptedRef.current
-
-      if (!currentAnswersEncrypted || currentGrid.length === 0) return
-
-      const effectiveAnswers = answersOverride || currentAnswers
-
-      const normalizeEncrypted = (
-        value: Record<string, string> | Array<{ number: number; answer: string }>,
-      ) => {
-        if (Array.isArray(value)) {
-          return value
-        }
-        return Object.entries(value).map(([num, answer]) => ({
-          number: parseInt(num, 10),
-          answer,
-        }))
-      }
+      const currentSessionId = sessionIdRef.current
+      if (!currentSessionId || currentGrid.length === 0) return
 
-      const result = checkSingleWord(
-        currentGrid,
-        effectiveAnswers,
-        {
-          across: normalizeEncrypted(currentAnswersEncrypted.across),
-          down: normalizeEncrypted(currentAnswersEncrypted.down),
-        },
-        clueNumber,
-        direction,
-      )
+      // A linked answer is checked as one word across all of its lights
+      const cellKeys = getCellsForClue(currentGrid, clueNumber, direction, cluesRef.current)
+      if (cellKeys.length === 0) return
+
+      // Only finished words go to the server
+      const effectiveAnswers = answersOverride || answersRef.current
+      const values = cellKeys.map((key) => {
+        const [r, c] = key.split('-').map(Number)
+        return getCellAt(effectiveAnswers, r, c).trim()
+      })
+      if (values.some((value) => value === '')) return
+
+      // Pencilled letters are guesses: leave the word unchecked until inked
+      if (cellKeys.some((key) => tentativeCellsRef.current.has(key))) return
+
+      let result: { isCorrect: boolean | null; puzzleComplete: boolean }
+      try {
+        const { data } = await axios.post<typeof result>(
+          `/api/sessions/${currentSessionId}/check-word`,
+          { number: clueNumber, direction },
+        )
+        result = data
+      } catch (error) {
+        // Offline or unavailable: no feedback rather than a wrong one
+        console.error('[useAnswerChecker] Failed to check word:', error)
+        return
+      }
 
-      if (!result) return
+      const { isCorrect, puzzleComplete } = result
+      if (isCorrect === null) return
 
       // If the word is already correctly solved and attributed, a re-typed
       // letter shouldn't re-flash or re-broadcast it. Skip the correct path
       // entirely for already-claimed clues. (Incorrect still flashes red.)
-      const clueKey = `${clueNumber}-${direction}`
-      if (result.isCorrect && attributionsRef.current[clueKey]) {
-        return 'correct'
+      const clueKey = clueRefKey(getEntryHead(cluesRef.current, { number: clueNumber, direction }))
+      if (isCorrect && attributionsRef.current[clueKey]) {
+        return { status: 'correct', puzzleComplete }
       }
 
-      const cellKeys = result.cells.map((cell) => `${cell.r}-${cell.c}`)
-
-      if (result.isCorrect) {
+      if (isCorrect) {
         dispatch(setCorrectFlashCells(cellKeys))
       } else {
         dispatch(setIncorrectFlashCells(cellKeys))
@@ -169,129 +185,59 @@ export function useAnswerChecker() {
         dispatch(clearFlashCells())
       }, FLASH_DURATION_MS)
 
-      if (result.isCorrect) {
-        // Broadcast feedback to other session participants
-        const currentSessionId = sessionIdRef.current
-        if (currentSessionId) {
-          sendAnswerFeedback(currentSessionId, cellKeys, true)
-        }
-
-        // Check for nickname
-        const currentUser = userRef.current
-        const username = currentUser?.username || getNickname()
-        if (!username) {
-          if (onNicknameMissing) {
-            onNicknameMissing()
-            return 'nickname_required'
-          }
-          // Fallback: claim as Anonymous if no callback provided (restore old behavior)
-          void claimWord(clueNumber, direction)
-        } else {
-          void claimWord(clueNumber, direction)
-        }
-      } else {
-        // Broadcast feedback to other session participants
-        const currentSessionId = sessionIdRef.current
-        if (currentSessionId) {
-          sendAnswerFeedback(currentSessionId, cellKeys, false)
-        }
+      // Broadcast feedback to other session participants
+      sendAnswerFeedback(currentSessionId, cellKeys, isCorrect)
+
+      if (!isCorrect) {
+        return { status: 'incorrect', puzzleComplete }
+      }
+
+      // Check for nickname
+      const currentUser = userRef.current
+      const username = currentUser?.username || getNickname()
+      if (!username && onNicknameMissing) {
+        onNicknameMissing()
+        return { status: 'nickname_required', puzzleComplete }
       }
+      // Without a callback, claim as Anonymous
+      void claimWord(clueNumber, direction)
 
-      return result.isCorrect ? 'correct' : 'incorrect'
+      return { status: 'correct', puzzleComplete }
     },
     [dispatch, claimWord, sendAnswerFeedback],
   )
 
-  const checkAllAnswers = useCallback(() => {
-    console.log('[useAnswerChecker] checkAllAnswers START')
+  // Check a letter, a word or the whole grid. The marks also reach everyone
+  // else in the session over SSE.
+  const checkAnswers = useCallback(
+    async (request: CheckRequest = { scope: 'grid' }) => {
+      const currentSessionId = sessionIdRef.current
+      if (!currentSessionId || gridRef.current.length === 0) return
 
-    const currentGrid = gridRef.current
-    const currentAnswers = answersRef.current
-    const currentAnswersEncrypted = answersEncryptedRef.current
+      dispatch(setCheckInProgress(true))
 
-    if (!currentAnswersEncrypted || currentGrid.length === 0) {
-      console.log('[useAnswerChecker] early return - missing data')
-      return
-    }
+      try {
+        const { errorCells, totalChecked, isComplete, tentativeSkipped, marks } =
+          await requestCheck(currentSessionId, request)
 
-    dispatch(setCheckInProgress(true))
-
-    try {
-      const puzzleAnswers = {
-        across: Array.isArray(currentAnswersEncrypted.across)
-          ? currentAnswersEncrypted.across
-          : Object.entries(currentAnswersEncrypted.across).map(([num, answer]) => ({
-              number: parseInt(num, 10),
-              answer,
-            })),
-        down: Array.isArray(currentAnswersEncrypted.down)
-          ? currentAnswersEncrypted.down
-          : Object.entries(currentAnswersEncrypted.down).map(([num, answer]) => ({
-              number: parseInt(num, 10),
-              answer,
-            })),
+        dispatch(
+          setCheckResult({
+            errorCells,
+            totalChecked,
+            isComplete,
+            tentativeSkipped,
+            scope: request.scope,
+          }),
+        )
+        dispatch(cellMarksReceived(marks ?? {}))
+      } catch (err) {
+        console.error('[CheckAnswers] Failed:', err)
+      } finally {
+        dispatch(setCheckInProgress(false))
       }
-
-      console.log('[useAnswerChecker] calling checkSessionAnswers...')
-      const { results, totalLetters, filledLetters, errorCells } = checkSessionAnswers(
-        currentGrid,
-        currentAnswers,
-        puzzleAnswers,
-      )
-      console.log('[useAnswerChecker] result:', {
-        errorCount: errorCells.length,
-        totalChecked: results.length,
-      })
-
-      // Check if puzzle is complete (all filled and all correct)
-      const isComplete = filledLetters === totalLetters && errorCells.length === 0
-
-      dispatch(
-        setCheckResult({
-          errorCells,
-          totalChecked: results.length,
-          isComplete,
-        }),
-      )
-    } catch (err) {
-      console.error('[CheckAnswers] Failed:', err)
-    } finally {
-      dispatch(setCheckInProgress(false))
-    }
-  }, [dispatch])
-
-  // Silent check — returns true if all cells are filled and correct, without dispatching any UI state.
-  // Accepts answersOverride so it can use the latest local answers before Redux re-renders.
-  const checkIsPuzzleComplete = useCallback((answersOverride?: string[]): boolean => {
-    const currentGrid = gridRef.current
-    const currentAnswers = answersOverride ?? answersRef.current
-    const currentAnswersEncrypted = answersEncryptedRef.current
-
-    if (!currentAnswersEncrypted || currentGrid.length === 0) return false
-
-    const puzzleAnswers = {
-      across: Array.isArray(currentAnswersEncrypted.across)
-        ? currentAnswersEncrypted.across
-        : Object.entries(currentAnswersEncrypted.across).map(([num, answer]) => ({
-            number: parseInt(num, 10),
-            answer,
-          })),
-      down: Array.isArray(currentAnswersEncrypted.down)
-        ? currentAnswersEncrypted.down
-        : Object.entries(currentAnswersEncrypted.down).map(([num, answer]) => ({
-            number: parseInt(num, 10),
-            answer,
-          })),
-    }
-
-    const { totalLetters, filledLetters, errorCells } = checkSessionAnswers(
-      currentGrid,
-      currentAnswers,
-      puzzleAnswers,
-    )
-
-    return filledLetters === totalLetters && errorCells.length === 0
-  }, [])
+    },
+    [dispatch, requestCheck],
+  )
 
   const getCurrentClueNumber = useCallback(
     (r: number, c: number, direction: Direction): number | null => {
@@ -300,59 +246,17 @@ export function useAnswerChecker() {
 
       const metadata = extractClueMetadata(currentGrid)
 
-      // Find the clue that contains this cell
-      for (const meta of metadata) {
-        if (meta.direction !== direction) continue
-
-        let currR = meta.row
-        let currC = meta.col
-
-        // Check if our cell is in this word
-        while (
-          currR < currentGrid.length &&
-          currC < currentGrid[0].length &&
-          currentGrid[currR][currC] !== 'B'
-        ) {
-          if (currR === r && currC === c) {
-            return meta.number
-          }
-          if (direction === 'across') currC++
-          else currR++
-        }
-      }
+      // The clue whose light starts where the light through this cell does
+      const start = lightCells(currentGrid, r, c, direction)[0]
+      if (!start) return null
 
-      return null
+      const meta = metadata.find(
+        (m) => m.direction === direction && m.row === start.r && m.col === start.c,
+      )
+      return meta?.number ?? null
     },
     [],
   )
 
-  const getSolution = useCallback((clueNumber: number, direction: Direction): string | null => {
-    const currentAnswersEncrypted = answersEncryptedRef.current
-    if (!currentAnswersEncrypted) return null
-
-    const list =
-      direction === 'across' ? currentAnswersEncrypted.across : currentAnswersEncrypted.down
-
-    // Handle both array and object formats of answersEncrypted
-    let answerEncrypted: string | undefined
-
-    if (Array.isArray(list)) {
-      const entry = list.find((a) => a.number === clueNumber)
-      answerEncrypted = entry?.answer
-    } else {
-      answerEncrypted = (list as Record<string, string>)[clueNumber.toString()]
-    }
-
-    if (!answerEncrypted) return null
-
-    // Decrypt ROT13
-    const decrypted = answerEncrypted.replace(/[a-zA-Z]/g, (c) => {
-      const base = c <= 'Z' ? 65 : 97
-      return String.fromCharCode(base + ((c.charCodeAt(0) - base + 13) % 26))
-    })
-
-    return decrypted.toUpperCase().replace(/[^A-Z]/g, '')
-  }, [])
-
-  return { checkCurrentWord, getCurrentClueNumber, checkAllAnswers, checkIsPuzzleComplete, claimWord, getSolution }
+  return { checkCurrentWord, getCurrentClueNumber, checkAnswers, claimWord }
 }
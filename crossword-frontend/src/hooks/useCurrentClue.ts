@@ -1,61 +1,76 @@
-import { useMemo } from 'react'
+import { useCallback, useMemo } from 'react'
 import { useSelector } from 'react-redux'
-import { selectGrid, selectClues, selectAnswers, selectCursor } from '@/store/selectors/puzzleSelectors'
+import {
+  selectGrid,
+  selectClues,
+  selectAnswers,
+  selectCursor,
+  selectRebusCells,
+} from '@/store/selectors/puzzleSelectors'
 import { extractClueMetadata } from '@/utils/answerChecker'
-import { useAnswerChecker } from './useAnswerChecker'
+import { lightCells } from '@/utils/gridCells'
+import { getEntryHead } from '@/utils/linkedClues'
+import { getCellsForClue } from '@/utils/lockCells'
+import { getCellAt, splitAnswer } from '@/utils/cellState'
+import { cellBreaks } from '@/utils/enumeration'
 
 export function useCurrentClue(currentClueNumber: number | null) {
   const grid = useSelector(selectGrid)
   const clues = useSelector(selectClues)
   const answers = useSelector(selectAnswers)
   const cursor = useSelector(selectCursor)
-  const { getSolution } = useAnswerChecker()
+  const rebusCells = useSelector(selectRebusCells)
 
   const clueMetadata = useMemo(() => extractClueMetadata(grid), [grid])
 
-  const currentClue = useMemo(() => {
-    if (!clues || currentClueNumber === null || !cursor?.direction) return null
-    const clueList = cursor.direction === 'across' ? clues.across : clues.down
-    return clueList.find((c) => c.number === currentClueNumber) || null
+  // On any light of a linked answer, the clue is the one its first light carries
+  const currentClueRef = useMemo(() => {
+    if (currentClueNumber === null || !cursor?.direction) return null
+    return getEntryHead(clues, { number: currentClueNumber, direction: cursor.direction })
   }, [clues, currentClueNumber, cursor])
 
-  const currentWordState = useMemo(() => {
-    if (!cursor || grid.length === 0) return []
+  const currentClue = useMemo(() => {
+    if (!clues || !currentClueRef) return null
+    const clueList = currentClueRef.direction === 'across' ? clues.across : clues.down
+    return clueList.find((c) => c.number === currentClueRef.number) || null
+  }, [clues, currentClueRef])
 
-    const cells: string[] = []
-    let r = cursor.r
-    let c = cursor.c
-
-    if (cursor.direction === 'across') {
-      while (c > 0 && grid[r][c - 1] !== 'B') c--
-      while (c < grid[0].length && grid[r][c] !== 'B') {
-        cells.push(answers[r]?.[c] || ' ')
-        c++
-      }
-    } else {
-      while (r > 0 && grid[r - 1][c] !== 'B') r--
-      while (r < grid.length && grid[r][c] !== 'B') {
-        cells.push(answers[r]?.[c] || ' ')
-        r++
-      }
+  const currentWordKeys = useMemo(() => {
+    if (!cursor || grid.length === 0) return []
+    if (currentClueRef) {
+      return getCellsForClue(grid, currentClueRef.number, currentClueRef.direction, clues)
     }
 
-    return cells
-  }, [cursor, grid, answers])
+    return lightCells(grid, cursor.r, cursor.c, cursor.direction).map(({ r, c }) => `${r}-${c}`)
+  }, [cursor, grid, clues, currentClueRef])
 
-  const handleFetchHintAnswer = useMemo(() => {
-    return async () => {
-      if (!cursor || !currentClueNumber) {
-        throw new Error('No active clue')
-      }
+  const currentWordState = useMemo(
+    () =>
+      currentWordKeys.map((key) => {
+        const [r, c] = key.split('-').map(Number)
+        return getCellAt(answers, r, c)
+      }),
+    [currentWordKeys, answers],
+  )
 
-      const solution = getSolution(currentClueNumber, cursor.direction)
-      if (solution) {
-        return solution
-      }
-      throw new Error('Hint not found')
-    }
-  }, [cursor, currentClueNumber, getSolution])
+  // Word breaks and hyphens from the enumeration, after each cell of the word
+  const currentWordBreaks = useMemo(
+    () => cellBreaks(currentClue?.enumeration, currentWordKeys, rebusCells),
+    [currentClue, currentWordKeys, rebusCells],
+  )
+
+  // Lay a full answer out over the current word, one entry per cell
+  const splitCurrentAnswer = useCallback(
+    (answer: string) => splitAnswer(answer, currentWordKeys, rebusCells),
+    [currentWordKeys, rebusCells],
+  )
 
-  return { clueMetadata, currentClue, currentWordState, handleFetchHintAnswer }
+  return {
+    clueMetadata,
+    currentClue,
+    currentClueDirection: currentClueRef?.direction,
+    currentWordState,
+    currentWordBreaks,
+    splitCurrentAnswer,
+  }
 }
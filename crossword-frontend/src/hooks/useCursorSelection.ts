@@ -3,6 +3,7 @@ import { useDispatch, useSelector } from 'react-redux'
 import { setCursor, toggleDirection } from '@/store/slices/puzzleSlice'
 import type { AppDispatch, RootState } from '@/store/store'
 import type { Direction } from '@/types'
+import { continuesLight, isNumberedCell } from '@/utils/gridCells'
 
 // Selectors
 const selectGrid = (state: RootState) => state.puzzle.grid
@@ -38,14 +39,11 @@ export function useCursorSelection() {
         return
       }
 
-      // Determine default direction based on neighboring cells
-      const hasLeft = isPlayable(r, c - 1)
-      const hasRight = isPlayable(r, c + 1)
-      const hasUp = isPlayable(r - 1, c)
-      const hasDown = isPlayable(r + 1, c)
-
-      const isHorizontal = hasLeft || hasRight
-      const isVertical = hasUp || hasDown
+      // Determine default direction from the lights through the cell
+      const isHorizontal =
+        continuesLight(grid, r, c, 'across') || continuesLight(grid, r, c - 1, 'across')
+      const isVertical =
+        continuesLight(grid, r, c, 'down') || continuesLight(grid, r - 1, c, 'down')
 
       let direction: Direction = 'across'
       if (isVertical && !isHorizontal) direction = 'down'
@@ -54,7 +52,7 @@ export function useCursorSelection() {
 
       dispatch(setCursor({ r, c, direction }))
     },
-    [isPlayable, dispatch],
+    [grid, isPlayable, dispatch],
   )
 
   const navigateToClue = useCallback(
@@ -68,7 +66,7 @@ export function useCursorSelection() {
 
       for (let r = 0; r < grid.length; r++) {
         for (let c = 0; c < grid[0].length; c++) {
-          if (grid[r][c] === 'N') {
+          if (isNumberedCell(grid[r][c])) {
             if (currentNum === clueNumber) {
               targetR = r
               targetC = c
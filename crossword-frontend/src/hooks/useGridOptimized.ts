@@ -1,54 +1,45 @@
 import { useMemo } from 'react'
 import { useSelector } from 'react-redux'
 import type { RootState } from '@/store/store'
+import { selectTentativeCells } from '@/store/slices/puzzleSlice'
 import type { CellType, RenderedCell } from '@/types'
+import { extractClueMetadata } from '@/utils/answerChecker'
+import { getCellAt } from '@/utils/cellState'
+import { isNumberedCell, lightCells } from '@/utils/gridCells'
+import { getCellsForClue } from '@/utils/lockCells'
 
 // Selectors
 const selectGrid = (state: RootState) => state.puzzle.grid
 const selectAnswers = (state: RootState) => state.puzzle.answers
 const selectCursor = (state: RootState) => state.puzzle.cursor
+const selectClues = (state: RootState) => state.puzzle.clues
+const selectCellMarks = (state: RootState) => state.puzzle.cellMarks
 
 /**
  * Computes the set of cell keys that are part of the currently active word.
  * Returns O(n) where n is the word length, not O(n²) for the entire grid.
+ * A linked answer is one word, so all of its lights are active together.
  */
 export function useActiveWordCells(): Set<string> {
   const grid = useSelector(selectGrid)
   const cursor = useSelector(selectCursor)
+  const clues = useSelector(selectClues)
+  const metadata = useMemo(() => extractClueMetadata(grid), [grid])
 
   return useMemo(() => {
-    const activeCells = new Set<string>()
-
-    if (!cursor || grid.length === 0) return activeCells
-
-    const { r: cursorR, c: cursorC, direction } = cursor
-
-    if (direction === 'across') {
-      // Find word boundaries in this row
-      let startC = cursorC
-      while (startC > 0 && grid[cursorR][startC - 1] !== 'B') startC--
-      let endC = cursorC
-      while (endC < grid[0].length - 1 && grid[cursorR][endC + 1] !== 'B') endC++
-
-      // Mark all cells in the word
-      for (let c = startC; c <= endC; c++) {
-        activeCells.add(`${cursorR}-${c}`)
-      }
-    } else {
-      // Find word boundaries in this column
-      let startR = cursorR
-      while (startR > 0 && grid[startR - 1][cursorC] !== 'B') startR--
-      let endR = cursorR
-      while (endR < grid.length - 1 && grid[endR + 1][cursorC] !== 'B') endR++
-
-      // Mark all cells in the word
-      for (let r = startR; r <= endR; r++) {
-        activeCells.add(`${r}-${cursorC}`)
-      }
-    }
-
-    return activeCells
-  }, [grid, cursor])
+    if (!cursor || grid.length === 0) return new Set<string>()
+
+    const light = lightCells(grid, cursor.r, cursor.c, cursor.direction)
+    const start = light[0]
+    const meta = start
+      ? metadata.find(
+          (m) => m.direction === cursor.direction && m.row === start.r && m.col === start.c,
+        )
+      : undefined
+
+    if (!meta) return new Set(light.map(({ r, c }) => `${r}-${c}`))
+    return new Set(getCellsForClue(grid, meta.number, meta.direction, clues))
+  }, [grid, cursor, clues, metadata])
 }
 
 /**
@@ -69,7 +60,7 @@ export function useGridStructure(): {
     return grid.map((row) =>
       row.map((cell) => {
         let number = null
-        if (cell === 'N') {
+        if (isNumberedCell(cell)) {
           number = currentNumber
           currentNumber++
         }
@@ -82,16 +73,10 @@ export function useGridStructure(): {
   const currentClueNumber = useMemo(() => {
     if (!cursor || gridWithNumbers.length === 0) return null
 
-    let r = cursor.r
-    let c = cursor.c
+    const start = lightCells(grid, cursor.r, cursor.c, cursor.direction)[0]
+    if (!start) return null
 
-    if (cursor.direction === 'across') {
-      while (c > 0 && grid[r][c - 1] !== 'B') c--
-    } else {
-      while (r > 0 && grid[r - 1][c] !== 'B') r--
-    }
-
-    return gridWithNumbers[r]?.[c]?.number ?? null
+    return gridWithNumbers[start.r]?.[start.c]?.number ?? null
   }, [cursor, grid, gridWithNumbers])
 
   return { gridWithNumbers, currentClueNumber }
@@ -109,6 +94,8 @@ export function useRenderedGrid(): {
   const grid = useSelector(selectGrid)
   const answers = useSelector(selectAnswers)
   const cursor = useSelector(selectCursor)
+  const tentativeCells = useSelector(selectTentativeCells)
+  const cellMarks = useSelector(selectCellMarks)
   const { gridWithNumbers, currentClueNumber } = useGridStructure()
   const activeWordCells = useActiveWordCells()
 
@@ -125,11 +112,13 @@ export function useRenderedGrid(): {
           number: cell.number,
           isSelected,
           isActiveWord: activeWordCells.has(cellKey),
-          answer: answers[r]?.[c] || ' ',
+          answer: getCellAt(answers, r, c),
+          isTentative: tentativeCells.has(cellKey),
+          mark: cellMarks[cellKey] ?? null,
         }
       }),
     )
-  }, [gridWithNumbers, answers, cursor, activeWordCells])
+  }, [gridWithNumbers, answers, cursor, activeWordCells, tentativeCells, cellMarks])
 
   return { renderedGrid, currentClueNumber }
 }
@@ -0,0 +1,44 @@
+import { useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import axios from 'axios'
+import { useAnswerChecker } from './useAnswerChecker'
+import type { RootState } from '@/store/store'
+
+const PRESENCE_DEBOUNCE_MS = 150
+
+const selectCursor = (state: RootState) => state.puzzle.cursor
+const selectSocketId = (state: RootState) => state.socket.socketId
+
+/**
+ * Share our selected cell and clue with everyone else in the session.
+ * Debounced so arrowing across the grid sends one update, not one per cell.
+ */
+export function usePresenceBroadcast(sessionId: string | undefined) {
+  const cursor = useSelector(selectCursor)
+  const socketId = useSelector(selectSocketId)
+  const { getCurrentClueNumber } = useAnswerChecker()
+
+  const r = cursor?.r
+  const c = cursor?.c
+  const direction = cursor?.direction
+
+  useEffect(() => {
+    if (!sessionId || !socketId) return
+
+    const timer = setTimeout(() => {
+      const hasCursor = r !== undefined && c !== undefined && direction !== undefined
+      const clueNumber = hasCursor ? getCurrentClueNumber(r, c, direction) : null
+
+      axios
+        .post(`/api/sessions/${sessionId}/presence?socketId=${socketId}`, {
+          cursor: hasCursor ? { r, c, direction } : null,
+          clue: hasCursor && clueNumber !== null ? { number: clueNumber, direction } : null,
+        })
+        .catch((err) => {
+          console.warn('[usePresenceBroadcast] Failed to share cursor:', err)
+        })
+    }, PRESENCE_DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [sessionId, socketId, r, c, direction, getCurrentClueNumber])
+}
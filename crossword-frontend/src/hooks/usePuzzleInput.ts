@@ -1,9 +1,17 @@
 import { useEffect, useCallback, useRef } from 'react'
 import { useDispatch, useSelector } from 'react-redux'
-import { updateCell, moveCursor, toggleDirection, selectLockedCells } from '@/store/slices/puzzleSlice'
+import {
+  updateCell,
+  moveCursor,
+  setCursor,
+  toggleDirection,
+  toggleRebusEntry,
+  selectLockedCells,
+} from '@/store/slices/puzzleSlice'
 import { useAnswerChecker } from './useAnswerChecker'
 import type { AppDispatch, RootState } from '@/store/store'
 import type { Direction } from '@/types'
+import { getCellAt, setCellAt } from '@/utils/cellState'
 
 // Selectors
 const selectCursor = (state: RootState) => state.puzzle.cursor
@@ -11,10 +19,16 @@ const selectGrid = (state: RootState) => state.puzzle.grid
 const selectAnswers = (state: RootState) => state.puzzle.answers
 const selectIsHintModalOpen = (state: RootState) => state.puzzle.isHintModalOpen
 const selectIsLockModeEnabled = (state: RootState) => state.puzzle.isLockModeEnabled
+const selectIsPencilModeEnabled = (state: RootState) => state.puzzle.isPencilModeEnabled
+const selectIsRebusEntryActive = (state: RootState) => state.puzzle.isRebusEntryActive
+const selectIsSpectator = (state: RootState) => state.puzzle.sessionRole === 'spectator'
+
+type HistoryStep = () => Promise<Array<{ r: number; c: number; value: string }>>
 
 export function usePuzzleInput(
-  sendCellUpdate: (r: number, c: number, value: string) => void,
+  sendCellUpdate: (r: number, c: number, value: string, tentative?: boolean) => void,
   onCheckWord?: (clueNumber: number, direction: Direction, answersOverride?: string[]) => void,
+  history?: { undo: HistoryStep; redo: HistoryStep },
 ) {
   const dispatch = useDispatch<AppDispatch>()
   const cursor = useSelector(selectCursor)
@@ -23,6 +37,9 @@ export function usePuzzleInput(
   const answers = useSelector(selectAnswers)
   const lockedCells = useSelector(selectLockedCells)
   const isLockModeEnabled = useSelector(selectIsLockModeEnabled)
+  const isPencilModeEnabled = useSelector(selectIsPencilModeEnabled)
+  const isRebusEntryActive = useSelector(selectIsRebusEntryActive)
+  const isSpectator = useSelector(selectIsSpectator)
   const { getCurrentClueNumber } = useAnswerChecker()
 
   // Refs for stable callbacks
@@ -34,6 +51,12 @@ export function usePuzzleInput(
   const sendCellUpdateRef = useRef(sendCellUpdate)
   const lockedCellsRef = useRef(lockedCells)
   const isLockModeEnabledRef = useRef(isLockModeEnabled)
+  const isPencilModeEnabledRef = useRef(isPencilModeEnabled)
+  const isRebusEntryActiveRef = useRef(isRebusEntryActive)
+  const isSpectatorRef = useRef(isSpectator)
+  const historyRef = useRef(history)
+  // Cell being filled by the current rebus entry
+  const rebusCellRef = useRef<string | null>(null)
 
   useEffect(() => {
     cursorRef.current = cursor
@@ -44,12 +67,17 @@ export function usePuzzleInput(
     sendCellUpdateRef.current = sendCellUpdate
     lockedCellsRef.current = lockedCells
     isLockModeEnabledRef.current = isLockModeEnabled
-  }, [cursor, grid, answers, isHintModalOpen, onCheckWord, sendCellUpdate, lockedCells, isLockModeEnabled])
+    isPencilModeEnabledRef.current = isPencilModeEnabled
+    isRebusEntryActiveRef.current = isRebusEntryActive
+    isSpectatorRef.current = isSpectator
+    historyRef.current = history
+  }, [cursor, grid, answers, isHintModalOpen, onCheckWord, sendCellUpdate, lockedCells, isLockModeEnabled, isPencilModeEnabled, isRebusEntryActive, isSpectator, history])
 
   const handleUpdateCell = useCallback(
     (value: string): string[] | null => {
       const currentCursor = cursorRef.current
-      if (!currentCursor) return null
+      // Spectators can move around the grid but not write in it
+      if (!currentCursor || isSpectatorRef.current) return null
 
       // Check if cell is locked and lock mode is enabled
       const cellKey = `${currentCursor.r}-${currentCursor.c}`
@@ -58,14 +86,17 @@ export function usePuzzleInput(
         return [...answersRef.current]
       }
 
-      dispatch(updateCell({ r: currentCursor.r, c: currentCursor.c, value }))
-      sendCellUpdateRef.current(currentCursor.r, currentCursor.c, value)
+      const tentative = isPencilModeEnabledRef.current
+      dispatch(updateCell({ r: currentCursor.r, c: currentCursor.c, value, tentative }))
+      sendCellUpdateRef.current(currentCursor.r, currentCursor.c, value, tentative)
 
       const currentAnswers = answersRef.current
       const newAnswers = [...currentAnswers]
-      const row = newAnswers[currentCursor.r] || ''
-      newAnswers[currentCursor.r] =
-        row.substring(0, currentCursor.c) + value + row.substring(currentCursor.c + 1)
+      newAnswers[currentCursor.r] = setCellAt(
+        newAnswers[currentCursor.r] || '',
+        currentCursor.c,
+        value,
+      )
 
       return newAnswers
     },
@@ -85,7 +116,9 @@ export function usePuzzleInput(
       const currentCursor = cursorRef.current
       const checkCallback = onCheckWordRef.current
 
-      if (!currentCursor || !checkCallback) return
+      // A pencilled guess isn't an answer yet, so don't check or claim it
+      if (!currentCursor || !checkCallback || isPencilModeEnabledRef.current) return
+      if (isSpectatorRef.current) return
 
       // The typed cell sits at the intersection of an across word and a down
       // word. Completing EITHER deserves a flash + attribution, regardless of
@@ -105,6 +138,51 @@ export function usePuzzleInput(
     [getCurrentClueNumber],
   )
 
+  // In rebus entry, letters build up in the cursor cell instead of moving on
+  const handleRebusEdit = useCallback(
+    (letter: string | null) => {
+      const currentCursor = cursorRef.current
+      if (!currentCursor) return
+      const current = getCellAt(answersRef.current, currentCursor.r, currentCursor.c).trim()
+      handleUpdateCell(letter ? current + letter : current.slice(0, -1) || ' ')
+    },
+    [handleUpdateCell],
+  )
+
+  // Finishing rebus entry moves on like typing a single letter would, unless
+  // the cursor was moved elsewhere (which also ends it)
+  useEffect(() => {
+    const currentCursor = cursorRef.current
+    const cellKey = currentCursor ? `${currentCursor.r}-${currentCursor.c}` : null
+    if (isRebusEntryActive) {
+      rebusCellRef.current = cellKey
+      return
+    }
+    if (rebusCellRef.current === null) return
+
+    const finishedInPlace = rebusCellRef.current === cellKey
+    rebusCellRef.current = null
+    if (finishedInPlace && currentCursor) {
+      handleMoveCursor(currentCursor.direction, 1)
+      maybeCheckWord(currentCursor.direction)
+    }
+  }, [isRebusEntryActive, handleMoveCursor, maybeCheckWord])
+
+  // Undo/redo, then put the cursor on the first cell that changed
+  const handleHistoryStep = useCallback(
+    async (action: 'undo' | 'redo') => {
+      const step = historyRef.current?.[action]
+      if (!step || isSpectatorRef.current) return
+
+      const cells = await step()
+      const currentCursor = cursorRef.current
+      if (cells.length > 0 && currentCursor) {
+        dispatch(setCursor({ r: cells[0].r, c: cells[0].c, direction: currentCursor.direction }))
+      }
+    },
+    [dispatch],
+  )
+
   // Physical keyboard handler
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -125,6 +203,30 @@ export function usePuzzleInput(
 
       const key = e.key
 
+      // Undo: Ctrl/Cmd+Z. Redo: Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y
+      const lowerKey = key.toLowerCase()
+      if ((e.ctrlKey || e.metaKey) && (lowerKey === 'z' || lowerKey === 'y')) {
+        e.preventDefault()
+        void handleHistoryStep(lowerKey === 'y' || e.shiftKey ? 'redo' : 'undo')
+        return
+      }
+
+      // Insert starts or finishes rebus entry; Enter and Escape finish it
+      if (
+        key === 'Insert' ||
+        (isRebusEntryActiveRef.current && (key === 'Enter' || key === 'Escape'))
+      ) {
+        e.preventDefault()
+        dispatch(toggleRebusEntry())
+        return
+      }
+
+      if (isRebusEntryActiveRef.current && (key.match(/^[a-zA-Z]$/) || key === 'Backspace')) {
+        e.preventDefault()
+        handleRebusEdit(key === 'Backspace' ? null : key.toUpperCase())
+        return
+      }
+
       // Letter input
       if (key.match(/^[a-zA-Z]$/)) {
         e.preventDefault()
@@ -163,7 +265,7 @@ export function usePuzzleInput(
 
     window.addEventListener('keydown', handler)
     return () => window.removeEventListener('keydown', handler)
-  }, [handleUpdateCell, handleMoveCursor, dispatch, maybeCheckWord])
+  }, [handleUpdateCell, handleMoveCursor, handleHistoryStep, handleRebusEdit, dispatch, maybeCheckWord])
 
   // Return handlers for virtual keyboard
   return {
@@ -171,17 +273,25 @@ export function usePuzzleInput(
       (key: string) => {
         const currentCursor = cursorRef.current
         if (!currentCursor) return
+        if (isRebusEntryActiveRef.current) {
+          handleRebusEdit(key.toUpperCase())
+          return
+        }
         const updatedAnswers = handleUpdateCell(key.toUpperCase())
         handleMoveCursor(currentCursor.direction, 1)
         maybeCheckWord(currentCursor.direction, updatedAnswers || undefined)
       },
-      [handleUpdateCell, handleMoveCursor, maybeCheckWord],
+      [handleUpdateCell, handleMoveCursor, handleRebusEdit, maybeCheckWord],
     ),
     onVirtualDelete: useCallback(() => {
       const currentCursor = cursorRef.current
       if (!currentCursor) return
+      if (isRebusEntryActiveRef.current) {
+        handleRebusEdit(null)
+        return
+      }
       handleUpdateCell(' ')
       handleMoveCursor(currentCursor.direction, -1)
-    }, [handleUpdateCell, handleMoveCursor]),
+    }, [handleUpdateCell, handleMoveCursor, handleRebusEdit]),
   }
 }
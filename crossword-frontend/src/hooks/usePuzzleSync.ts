@@ -6,25 +6,72 @@ import {
   loadSessionError,
   syncFromServer,
   updateCell,
+  cellVersionsReceived,
+  cellMarksReceived,
+  setAutocheckEnabled,
+  tentativeCellsSynced,
 } from '@/store/slices/puzzleSlice'
 import { joinSession, leaveSession } from '@/store/slices/socketSlice'
 import type { AppDispatch, RootState } from '@/store/store'
 import axios from 'axios'
-import { getLocalSessionById, saveLocalSession } from '@/utils/sessionManager'
+import { getAnonymousId, getLocalSessionById, saveLocalSession } from '@/utils/sessionManager'
+import { clearQueuedEdits, getQueuedEdits, queueEdits } from '@/utils/offlineQueue'
+import { setCellAt } from '@/utils/cellState'
+import type { CheckRequest } from '@/types'
 
 const SYNC_DEBOUNCE_MS = 5000
 
+type CellUpdate = { r: number; c: number; value: string; tentative?: boolean }
+type VersionedCell = { r: number; c: number; version: number }
+
+const toVersionMap = (cells: VersionedCell[]) =>
+  Object.fromEntries(cells.map(({ r, c, version }) => [`${r}-${c}`, version]))
+
+function saveUpdatesLocally(sessionId: string, updates: CellUpdate[]) {
+  try {
+    const local = getLocalSessionById(sessionId)
+    if (local && local.lastKnownState) {
+      const state = [...local.lastKnownState]
+      const tentativeCells = new Set(local.tentativeCells)
+      updates.forEach(({ r, c, value, tentative }) => {
+        if (r >= 0 && r < state.length) {
+          state[r] = setCellAt(state[r] || '', c, value)
+          if (tentative && value.trim()) tentativeCells.add(`${r}-${c}`)
+          else tentativeCells.delete(`${r}-${c}`)
+        }
+      })
+
+      saveLocalSession({
+        ...local,
+        lastKnownState: state,
+        tentativeCells: [...tentativeCells],
+        lastPlayed: Date.now(),
+      })
+    }
+  } catch (e) {
+    console.error('Failed to update local storage', e)
+  }
+}
+
 export function usePuzzleSync(sessionId: string | undefined) {
   const dispatch = useDispatch<AppDispatch>()
   const puzzle = useSelector((state: RootState) => state.puzzle)
   const socketState = useSelector((state: RootState) => state.socket)
   const { isConnected, socketId } = socketState
+  const cellVersions = puzzle.cellVersions
 
   const hasJoinedRef = useRef(false)
 
   const syncInProgress = useRef(false)
   const pendingSync = useRef(false)
   const lastSyncTime = useRef(0)
+  // Cell writes still on their way to the server; word checks wait for them
+  const pendingWrites = useRef(new Set<Promise<void>>())
+
+  const trackWrite = (write: Promise<void>) => {
+    pendingWrites.current.add(write)
+    void write.finally(() => pendingWrites.current.delete(write))
+  }
 
   useEffect(() => {
     if (!sessionId) return
@@ -36,6 +83,19 @@ export function usePuzzleSync(sessionId: string | undefined) {
     dispatch(loadSessionStart())
 
     const loadSession = async () => {
+      // Opened from an invite link: redeem it before asking for the session
+      const url = new URL(window.location.href)
+      const invite = url.searchParams.get('invite')
+      if (invite) {
+        try {
+          await axios.post(`/api/sessions/${sessionId}/join`, { token: invite })
+        } catch (err) {
+          console.warn('Invite link could not be used', err)
+        }
+        url.searchParams.delete('invite')
+        window.history.replaceState(window.history.state, '', url.toString())
+      }
+
       try {
         const response = await axios.get(`/api/sessions/${sessionId}`)
         const data = response.data
@@ -53,15 +113,22 @@ export function usePuzzleSync(sessionId: string | undefined) {
           puzzleTitle: data.title,
           lastPlayed: Date.now(),
           lastKnownState: data.sessionState,
+          cellVersions: data.cellVersions,
+          tentativeCells: data.tentativeCells,
           puzzleData: {
             grid: data.grid,
             clues: data.clues,
-            answersEncrypted: data.answersEncrypted,
             attributions: data.attributions,
+            rebusCells: data.rebus_cells,
           },
         })
         return
       } catch (err) {
+        // A saved copy mustn't get around the owner keeping us out
+        if (axios.isAxiosError(err) && err.response?.status === 403) {
+          dispatch(loadSessionError('You do not have access to this session'))
+          return
+        }
         console.warn('Failed to load from server, checking local storage', err)
       }
 
@@ -75,8 +142,10 @@ export function usePuzzleSync(sessionId: string | undefined) {
             sessionState: localSession.lastKnownState,
             sessionId,
             puzzleId: localSession.puzzleId,
-            answersEncrypted: localSession.puzzleData.answersEncrypted,
             attributions: localSession.puzzleData.attributions,
+            rebus_cells: localSession.puzzleData.rebusCells,
+            cellVersions: localSession.cellVersions,
+            tentativeCells: localSession.tentativeCells,
           }),
         )
       } else {
@@ -108,6 +177,40 @@ export function usePuzzleSync(sessionId: string | undefined) {
     }
   }, [sessionId, dispatch])
 
+  // Replay edits made while offline. The server only applies those whose cell
+  // hasn't changed since; for the rest we take what a partner wrote instead.
+  const flushOfflineEdits = useCallback(async () => {
+    if (!sessionId) return
+
+    const queued = await getQueuedEdits(sessionId)
+    if (queued.length === 0) return
+
+    const response = await axios.post(
+      `/api/sessions/${sessionId}/merge${socketId ? `?socketId=${socketId}` : ''}`,
+      {
+        updates: queued.map(({ r, c, value, baseVersion, tentative }) => ({
+          r,
+          c,
+          value,
+          baseVersion,
+          tentative,
+        })),
+        anonymousId: getAnonymousId(),
+      },
+    )
+    const applied: Array<CellUpdate & VersionedCell> = response.data?.applied ?? []
+    const rejected: Array<CellUpdate & VersionedCell> = response.data?.rejected ?? []
+
+    const cells = [...applied, ...rejected]
+    cells.forEach(({ r, c, value, tentative }) => {
+      dispatch(updateCell({ r, c, value, tentative }))
+    })
+    dispatch(cellVersionsReceived(toVersionMap(cells)))
+    saveUpdatesLocally(sessionId, cells)
+
+    await clearQueuedEdits(sessionId, queued)
+  }, [sessionId, socketId, dispatch])
+
   const performSync = useCallback(async () => {
     if (!sessionId || syncInProgress.current) {
       pendingSync.current = true
@@ -122,15 +225,28 @@ export function usePuzzleSync(sessionId: string | undefined) {
     syncInProgress.current = true
 
     try {
+      // Offline edits go first, otherwise the server copy would replace them
+      await flushOfflineEdits()
+
       const response = await axios.get(`/api/sessions/${sessionId}`)
-      const serverState = response.data.sessionState
+      const { sessionState: serverState, cellVersions, tentativeCells, cellMarks, autocheck } =
+        response.data
 
       if (serverState) {
         dispatch(syncFromServer(serverState))
+        dispatch(tentativeCellsSynced(tentativeCells ?? []))
+        if (cellVersions) {
+          dispatch(cellVersionsReceived(cellVersions))
+        }
+        // Marks and settings broadcast while we were away
+        if (cellMarks) {
+          dispatch(cellMarksReceived(cellMarks))
+        }
+        dispatch(setAutocheckEnabled(Boolean(autocheck)))
 
         const local = getLocalSessionById(sessionId)
         if (local) {
-          saveLocalSession({ ...local, lastKnownState: serverState })
+          saveLocalSession({ ...local, lastKnownState: serverState, cellVersions, tentativeCells })
         }
       }
     } catch (err) {
@@ -144,7 +260,7 @@ export function usePuzzleSync(sessionId: string | undefined) {
         setTimeout(performSync, 100)
       }
     }
-  }, [sessionId, dispatch])
+  }, [sessionId, dispatch, flushOfflineEdits])
 
   useEffect(() => {
     if (!sessionId) return
@@ -169,87 +285,150 @@ export function usePuzzleSync(sessionId: string | undefined) {
     }
   }, [isConnected, sessionId, performSync])
 
+  // Undo/redo only ever touch this collaborator's own edits; the server
+  // broadcasts the reverted cells to everyone else
+  const requestHistoryStep = useCallback(
+    async (action: 'undo' | 'redo'): Promise<CellUpdate[]> => {
+      if (!sessionId) return []
+
+      try {
+        const response = await axios.post(
+          `/api/sessions/${sessionId}/${action}${socketId ? `?socketId=${socketId}` : ''}`,
+          { anonymousId: getAnonymousId() },
+        )
+        const cells: CellUpdate[] = response.data?.cells ?? []
+
+        cells.forEach(({ r, c, value, tentative }) => {
+          dispatch(updateCell({ r, c, value, tentative }))
+        })
+        saveUpdatesLocally(sessionId, cells)
+
+        return cells
+      } catch (err) {
+        console.warn(`[usePuzzleSync] Failed to ${action}:`, err)
+        return []
+      }
+    },
+    [sessionId, socketId, dispatch],
+  )
+
+  // Reveals are written by the server and broadcast to everyone else, so the
+  // revealed letters are applied here from the response
+  const reveal = useCallback(
+    async (request: CheckRequest): Promise<CellUpdate[]> => {
+      if (!sessionId) return []
+
+      try {
+        const response = await axios.post(
+          `/api/sessions/${sessionId}/hint${socketId ? `?socketId=${socketId}` : ''}`,
+          {
+            type: request.scope,
+            target: 'target' in request ? request.target : undefined,
+            anonymousId: getAnonymousId(),
+          },
+        )
+        const cells: Array<CellUpdate & VersionedCell> = response.data?.cells ?? []
+
+        cells.forEach(({ r, c, value, tentative }) => {
+          dispatch(updateCell({ r, c, value, tentative }))
+        })
+        dispatch(cellVersionsReceived(toVersionMap(cells)))
+        dispatch(
+          cellMarksReceived(Object.fromEntries(cells.map(({ r, c }) => [`${r}-${c}`, 'revealed']))),
+        )
+        saveUpdatesLocally(sessionId, cells)
+
+        return cells
+      } catch (err) {
+        console.warn(`[usePuzzleSync] Failed to reveal ${request.scope}:`, err)
+        return []
+      }
+    },
+    [sessionId, socketId, dispatch],
+  )
+
+  // Hold on to edits the server didn't get, stamped with the version we last saw
+  const queueOffline = (updates: CellUpdate[]) => {
+    if (!sessionId) return
+    queueEdits(
+      sessionId,
+      updates.map(({ r, c, value, tentative }) => ({
+        r,
+        c,
+        value,
+        tentative,
+        baseVersion: cellVersions[`${r}-${c}`] ?? 0,
+      })),
+    )
+  }
+
   return {
     isConnected,
     socketId,
-    sendCellUpdate: (r: number, c: number, value: string) => {
+    sendCellUpdate: (r: number, c: number, value: string, tentative = false) => {
       if (!sessionId) return
 
-      dispatch(updateCell({ r, c, value }))
+      dispatch(updateCell({ r, c, value, tentative }))
+      saveUpdatesLocally(sessionId, [{ r, c, value, tentative }])
 
-      try {
-        const local = getLocalSessionById(sessionId)
-        if (local && local.lastKnownState) {
-          const state = [...local.lastKnownState]
-          if (r >= 0 && r < state.length) {
-            const row = state[r] || ''
-            const paddedRow = row.padEnd(c + 1, ' ')
-            const newRow = paddedRow.substring(0, c) + value + paddedRow.substring(c + 1)
-            state[r] = newRow
-
-            saveLocalSession({
-              ...local,
-              lastKnownState: state,
-              lastPlayed: Date.now(),
-            })
-          }
-        }
-      } catch (e) {
-        console.error('Failed to update local storage', e)
+      if (!isConnected) {
+        queueOffline([{ r, c, value, tentative }])
+        return
       }
 
-      if (isConnected) {
-        // Send via REST API
-        axios
-          .post(`/api/sessions/${sessionId}/cell${socketId ? `?socketId=${socketId}` : ''}`, {
-            r,
-            c,
-            value,
-          })
-          .catch((err) => {
-            console.warn('[usePuzzleSync] Failed to send cell update via REST:', err)
-          })
-      }
+      // Send via REST API
+      const write = axios
+        .post(`/api/sessions/${sessionId}/cell${socketId ? `?socketId=${socketId}` : ''}`, {
+          r,
+          c,
+          value,
+          tentative,
+          anonymousId: getAnonymousId(),
+        })
+        .then((response) => {
+          if (response.data?.version) {
+            dispatch(cellVersionsReceived({ [`${r}-${c}`]: response.data.version }))
+          }
+        })
+        .catch((err) => {
+          console.warn('[usePuzzleSync] Failed to send cell update via REST:', err)
+          queueOffline([{ r, c, value, tentative }])
+        })
+      trackWrite(write)
     },
-    sendCellsUpdate: (updates: Array<{ r: number; c: number; value: string }>) => {
+    sendCellsUpdate: (updates: CellUpdate[]) => {
       if (!sessionId || updates.length === 0) return
 
-      updates.forEach(({ r, c, value }) => {
-        dispatch(updateCell({ r, c, value }))
+      updates.forEach(({ r, c, value, tentative }) => {
+        dispatch(updateCell({ r, c, value, tentative }))
       })
+      saveUpdatesLocally(sessionId, updates)
 
-      try {
-        const local = getLocalSessionById(sessionId)
-        if (local && local.lastKnownState) {
-          const state = [...local.lastKnownState]
-          updates.forEach(({ r, c, value }) => {
-            if (r >= 0 && r < state.length) {
-              const row = state[r] || ''
-              const paddedRow = row.padEnd(c + 1, ' ')
-              const newRow = paddedRow.substring(0, c) + value + paddedRow.substring(c + 1)
-              state[r] = newRow
-            }
-          })
-
-          saveLocalSession({
-            ...local,
-            lastKnownState: state,
-            lastPlayed: Date.now(),
-          })
-        }
-      } catch (e) {
-        console.error('Failed to update local storage', e)
+      if (!isConnected) {
+        queueOffline(updates)
+        return
       }
 
-      if (isConnected) {
-        axios
-          .post(`/api/sessions/${sessionId}/cells${socketId ? `?socketId=${socketId}` : ''}`, {
-            updates,
-          })
-          .catch((err) => {
-            console.warn('[usePuzzleSync] Failed to send cells update via REST:', err)
-          })
-      }
+      const write = axios
+        .post(`/api/sessions/${sessionId}/cells${socketId ? `?socketId=${socketId}` : ''}`, {
+          updates,
+          anonymousId: getAnonymousId(),
+        })
+        .then((response) => {
+          dispatch(cellVersionsReceived(toVersionMap(response.data?.versions ?? [])))
+        })
+        .catch((err) => {
+          console.warn('[usePuzzleSync] Failed to send cells update via REST:', err)
+          queueOffline(updates)
+        })
+      trackWrite(write)
+    },
+    // Resolves once every cell write sent so far has been answered
+    whenSaved: async () => {
+      await Promise.all(pendingWrites.current)
     },
+    undo: () => requestHistoryStep('undo'),
+    redo: () => requestHistoryStep('redo'),
+    reveal,
   }
 }
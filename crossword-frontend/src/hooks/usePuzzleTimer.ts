@@ -1,7 +1,13 @@
 import { useEffect, useRef, useState } from 'react'
+import { useSelector } from 'react-redux'
+import axios from 'axios'
+import type { RootState } from '@/store/store'
 
 const STORAGE_KEY_PREFIX = 'cryptic_timer_'
 const IDLE_THRESHOLD = 60 * 1000
+const SERVER_SYNC_INTERVAL = 15 * 1000
+
+const selectPuzzleComplete = (state: RootState) => state.puzzle.puzzleComplete
 
 const loadStoredSeconds = (key: string) => {
   try {
@@ -16,6 +22,22 @@ const loadStoredSeconds = (key: string) => {
   return 0
 }
 
+const storeSeconds = (key: string, totalSeconds: number) => {
+  localStorage.setItem(
+    key,
+    JSON.stringify({
+      totalSeconds,
+      lastTimestamp: Date.now(),
+    }),
+  )
+}
+
+// The server keeps the highest time it has seen, so pushing our local total is always safe
+const pushSeconds = (sessionId: string, totalSeconds: number) =>
+  axios.put(`/api/sessions/${sessionId}/timer`, { seconds: totalSeconds }).catch((err) => {
+    console.warn('[usePuzzleTimer] Failed to save solve time:', err)
+  })
+
 export const formatTimerTime = (seconds: number) => {
   const h = Math.floor(seconds / 3600)
   const m = Math.floor((seconds % 3600) / 60)
@@ -30,6 +52,7 @@ export const formatTimerTime = (seconds: number) => {
 export const usePuzzleTimer = (sessionId: string | undefined): { timerDisplay: string } => {
   const [timerSeconds, setTimerSeconds] = useState(0)
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const puzzleComplete = useSelector(selectPuzzleComplete)
 
   // Track last real update to total seconds
   const lastUpdateTimeRef = useRef<number>(0)
@@ -49,6 +72,31 @@ export const usePuzzleTimer = (sessionId: string | undefined): { timerDisplay: s
     lastUpdateTimeRef.current = Date.now()
     lastActivityRef.current = Date.now()
 
+    // Pick up time spent on other devices
+    let cancelled = false
+    axios
+      .get(`/api/sessions/${sessionId}/timer`)
+      .then((response) => {
+        const serverSeconds = Number(response.data?.seconds) || 0
+        if (cancelled || serverSeconds <= loadStoredSeconds(key)) return
+        storeSeconds(key, serverSeconds)
+        setTimerSeconds(serverSeconds)
+      })
+      .catch((err) => {
+        console.warn('[usePuzzleTimer] Failed to load solve time:', err)
+      })
+
+    let lastPushedAt = Date.now()
+    const flush = () => {
+      lastPushedAt = Date.now()
+      void pushSeconds(sessionId, loadStoredSeconds(key))
+    }
+
+    const handleVisibility = () => {
+      if (document.hidden) flush()
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+
     // Activity listeners to reset idle timer
     const handleActivity = () => {
       lastActivityRef.current = Date.now()
@@ -80,26 +128,33 @@ export const usePuzzleTimer = (sessionId: string | undefined): { timerDisplay: s
         const currentStored = loadStoredSeconds(key)
         const newValue = currentStored + delta
 
-        localStorage.setItem(
-          key,
-          JSON.stringify({
-            totalSeconds: newValue,
-            lastTimestamp: now,
-          }),
-        )
+        storeSeconds(key, newValue)
 
         setTimerSeconds(newValue)
         lastUpdateTimeRef.current = now
       }
+
+      if (now - lastPushedAt >= SERVER_SYNC_INTERVAL) {
+        flush()
+      }
     }, 1000)
 
     return () => {
+      cancelled = true
       if (timerRef.current) {
         clearInterval(timerRef.current)
       }
       events.forEach((event) => window.removeEventListener(event, handleActivity))
+      document.removeEventListener('visibilitychange', handleVisibility)
+      flush()
     }
   }, [sessionId])
 
+  // Record the final time before the server marks the session complete and stops the clock
+  useEffect(() => {
+    if (!sessionId || !puzzleComplete) return
+    void pushSeconds(sessionId, loadStoredSeconds(`${STORAGE_KEY_PREFIX}${sessionId}`))
+  }, [sessionId, puzzleComplete])
+
   return { timerDisplay: formatTimerTime(timerSeconds) }
 }
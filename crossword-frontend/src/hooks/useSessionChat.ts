@@ -0,0 +1,57 @@
+import { useCallback, useEffect } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import axios from 'axios'
+import type { ChatMessage } from '@/types'
+import type { RootState } from '@/store/store'
+import { chatHistoryLoaded, chatMessageSent } from '@/store/slices/chatSlice'
+import { useAuth } from '@/context/AuthContext'
+import { getNickname } from '@/utils/sessionManager'
+
+const selectSocketId = (state: RootState) => state.socket.socketId
+
+/**
+ * Load a session's chat history and send messages to its collaborators.
+ * New messages from others arrive over SSE (see GameConnectionContext).
+ */
+export function useSessionChat(sessionId: string | null | undefined) {
+  const dispatch = useDispatch()
+  const socketId = useSelector(selectSocketId)
+  const { user } = useAuth()
+
+  useEffect(() => {
+    if (!sessionId) return
+
+    let cancelled = false
+    axios
+      .get<ChatMessage[]>(`/api/sessions/${sessionId}/messages`)
+      .then((response) => {
+        if (!cancelled) {
+          dispatch(chatHistoryLoaded({ sessionId, messages: response.data }))
+        }
+      })
+      .catch((err) => {
+        console.error('[useSessionChat] Failed to load messages:', err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId, dispatch])
+
+  const sendMessage = useCallback(
+    async (body: string) => {
+      if (!sessionId) return
+      const response = await axios.post<ChatMessage>(
+        `/api/sessions/${sessionId}/messages${socketId ? `?socketId=${socketId}` : ''}`,
+        {
+          body,
+          username: user ? undefined : getNickname(),
+        },
+      )
+      dispatch(chatMessageSent(response.data))
+    },
+    [sessionId, socketId, user, dispatch],
+  )
+
+  return { sendMessage }
+}
@@ -1,11 +1,14 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Link } from 'react-router-dom'
+import axios from 'axios'
 import { SkeletonPuzzleCard } from '../components/SkeletonLoader'
 import { useAuth } from '../context/AuthContext'
 import {
   useGetPuzzlesQuery,
   useDeletePuzzleMutation,
   useRenamePuzzleMutation,
+  useImportPuzzleMutation,
+  type ImportPuzzleResponse,
 } from '../store/api/adminApi'
 
 export function AdminDashboard() {
@@ -17,6 +20,8 @@ export function AdminDashboard() {
   })
   const [deletePuzzle] = useDeletePuzzleMutation()
   const [renamePuzzle] = useRenamePuzzleMutation()
+  const [importPuzzle, { isLoading: isImporting }] = useImportPuzzleMutation()
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
@@ -35,6 +40,57 @@ export function AdminDashboard() {
     renamePuzzle({ id, title: newTitle })
   }
 
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = async () => {
+      try {
+        const result = await importPuzzle({
+          data: reader.result as string,
+          filename: file.name,
+        }).unwrap()
+        const missing = result.integrity?.errors.length ?? 0
+        alert(
+          missing > 0
+            ? `Imported "${result.puzzle.title}" with ${missing} clue(s) missing answers.`
+            : `Imported "${result.puzzle.title}".`,
+        )
+      } catch (err) {
+        const { data } = err as {
+          data?: { message?: string; integrity?: ImportPuzzleResponse['integrity'] }
+        }
+        const details = data?.integrity?.errors.map((e) => e.message)
+        alert(
+          details?.length
+            ? `Import failed:\n${details.join('\n')}`
+            : data?.message || (typeof data === 'string' ? data : 'Import failed'),
+        )
+      }
+    }
+    reader.readAsDataURL(file)
+  }
+
+  // Fetched with the admin token so the download includes the solution
+  const handleExport = async (id: number, title: string, format: 'ipuz' | 'puz') => {
+    try {
+      const { data } = await axios.get<Blob>(`/api/puzzles/${id}/export?format=${format}`, {
+        responseType: 'blob',
+      })
+      const url = URL.createObjectURL(data)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${title.replace(/[^\w\- ]+/g, '').trim() || `puzzle-${id}`}.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Export failed', err)
+      alert('Export failed')
+    }
+  }
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoginError(null)
@@ -122,6 +178,12 @@ export function AdminDashboard() {
           >
             Missing Clues Queue
           </Link>
+          <Link
+            to="/admin/designer"
+            className="px-4 lg:px-6 py-3 text-sm lg:text-base rounded-xl bg-surface border-2 border-primary text-primary font-bold shadow-sm hover:bg-primary/5 hover:shadow-md active:scale-95 transition-all text-center no-underline flex items-center justify-center gap-2"
+          >
+            Grid Designer
+          </Link>
           <Link
             to="/admin/batch-explanations"
             className="px-4 lg:px-6 py-3 text-sm lg:text-base rounded-xl bg-surface border-2 border-primary text-primary font-bold shadow-sm hover:bg-primary/5 hover:shadow-md active:scale-95 transition-all text-center no-underline flex items-center justify-center gap-2"
@@ -140,6 +202,32 @@ export function AdminDashboard() {
           >
             Manage Sessions
           </Link>
+          <Link
+            to="/admin/rate-limits"
+            className="px-4 lg:px-6 py-3 text-sm lg:text-base rounded-xl bg-surface border-2 border-primary text-primary font-bold shadow-sm hover:bg-primary/5 hover:shadow-md active:scale-95 transition-all text-center no-underline flex items-center justify-center gap-2"
+          >
+            AI Usage Limits
+          </Link>
+          <Link
+            to="/admin/model-usage"
+            className="px-4 lg:px-6 py-3 text-sm lg:text-base rounded-xl bg-surface border-2 border-primary text-primary font-bold shadow-sm hover:bg-primary/5 hover:shadow-md active:scale-95 transition-all text-center no-underline flex items-center justify-center gap-2"
+          >
+            AI Spend
+          </Link>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            className="px-4 lg:px-6 py-3 text-sm lg:text-base rounded-xl bg-surface border-2 border-primary text-primary font-bold shadow-sm hover:bg-primary/5 hover:shadow-md active:scale-95 transition-all text-center flex items-center justify-center gap-2 cursor-pointer disabled:opacity-60 disabled:cursor-wait"
+          >
+            {isImporting ? 'Importing...' : 'Import .puz/.ipuz'}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".puz,.ipuz,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
           <Link
             to="/create"
             className="col-span-2 lg:col-span-1 px-4 lg:px-6 py-3 text-sm lg:text-base rounded-xl bg-primary text-white font-bold shadow-md hover:bg-primary-hover hover:shadow-lg active:scale-95 transition-all text-center no-underline flex items-center justify-center gap-2"
@@ -182,6 +270,22 @@ export function AdminDashboard() {
                   >
                     Review Explanations
                   </Link>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleExport(puzzle.id, puzzle.title, 'ipuz')}
+                      className="flex-1 py-2 px-4 rounded-lg bg-input-bg border border-border text-text-secondary text-sm font-medium text-center no-underline hover:text-text hover:border-text transition-all"
+                    >
+                      .ipuz
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleExport(puzzle.id, puzzle.title, 'puz')}
+                      className="flex-1 py-2 px-4 rounded-lg bg-input-bg border border-border text-text-secondary text-sm font-medium text-center no-underline hover:text-text hover:border-text transition-all"
+                    >
+                      .puz
+                    </button>
+                  </div>
                   <div className="flex gap-2">
                     <button
                       onClick={() => handleRename(puzzle.id, puzzle.title)}
@@ -9,6 +9,7 @@ import { CrosswordGrid } from '../CrosswordGrid'
 import { EditOutput } from '../EditOutput'
 import { parseGridJson, parseGridString, renderGrid } from '../utils/gridRenderer'
 import { validateClues } from '../utils/clueHelpers'
+import { isCellType } from '../utils/gridCells'
 
 type EditPuzzleData = Omit<PuzzleData, 'clues'> & {
   clues?: PuzzleData['clues']
@@ -122,8 +123,10 @@ function EditPuzzleForm({ puzzle, puzzleId, updatePuzzle, isSaving }: EditPuzzle
         return
       }
       for (const cell of row) {
-        if (cell !== 'N' && cell !== 'W' && cell !== 'B') {
-          setReplaceGridError("Grid can only contain 'N', 'W', and 'B' cells.")
+        if (!isCellType(cell)) {
+          setReplaceGridError(
+            "Grid can only contain 'N', 'W', and 'B' cells, with '|' or '_' after a letter cell for a bar.",
+          )
           return
         }
       }
@@ -178,10 +181,11 @@ function EditPuzzleForm({ puzzle, puzzleId, updatePuzzle, isSaving }: EditPuzzle
     setGrid((prevGrid) => {
       const newGrid = [...prevGrid.map((row) => [...row])]
       const current = newGrid[r][c]
+      // Letter cells keep their bars; a block can't carry any
+      const bars = current.slice(1)
       let next: CellType = 'N'
-      if (current === 'N') next = 'W'
-      else if (current === 'W') next = 'B'
-      else if (current === 'B') next = 'N'
+      if (current[0] === 'N') next = `W${bars}` as CellType
+      else if (current[0] === 'W') next = 'B'
       newGrid[r][c] = next
       return newGrid
     })
@@ -209,6 +213,12 @@ function EditPuzzleForm({ puzzle, puzzleId, updatePuzzle, isSaving }: EditPuzzle
           </p>
         </div>
         <div className="flex gap-4">
+          <Link
+            to={`/admin/designer/${puzzleId}`}
+            className="px-6 py-2.5 rounded-xl bg-input-bg border border-border text-text-secondary font-bold hover:text-text hover:border-text transition-all text-center no-underline flex items-center justify-center gap-2"
+          >
+            Grid Designer
+          </Link>
           <Link
             to="/admin"
             className="px-6 py-2.5 rounded-xl bg-input-bg border border-border text-text-secondary font-bold hover:text-text hover:border-text transition-all text-center no-underline flex items-center justify-center gap-2"
@@ -326,7 +336,8 @@ function EditPuzzleForm({ puzzle, puzzleId, updatePuzzle, isSaving }: EditPuzzle
             </h3>
             <p className="text-sm text-text-secondary leading-relaxed">
               Grid structure and clues must match. Numbered cells ('N') in the grid require
-              corresponding entries in the JSON.
+              corresponding entries in the JSON. In barred grids a '|' or '_' after a letter
+              cell puts a bar on its right or bottom edge.
             </p>
           </div>
         </div>
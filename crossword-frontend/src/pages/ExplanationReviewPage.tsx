@@ -5,6 +5,7 @@ import { useAppDispatch, useAppSelector } from '../store/hooks'
 import { fetchClueExplanations } from '../store/slices/adminSlice'
 import type { ClueExplanation } from '../store/slices/adminSlice'
 import { ClueExplanationDisplay } from '../components/ClueExplanationDisplay'
+import { ExplanationRevisionHistory } from '../components/ExplanationRevisionHistory'
 import type { ClueExplanation as ParsedClueExplanation } from '../components/ClueExplanationDisplay'
 
 interface NewExplanation {
@@ -234,6 +235,7 @@ export function ExplanationReviewPage() {
         clueText: clue.clue_text,
         answer: clue.answer,
         explanation: newExplanation,
+        source: 'regeneration',
       })
 
       alert('Explanation saved.')
@@ -525,6 +527,20 @@ export function ExplanationReviewPage() {
                                 )}
                               </div>
                             </div>
+
+                            <div className="mt-6">
+                              <h4 className="font-bold text-sm text-text-secondary uppercase tracking-wider mb-2">
+                                History
+                              </h4>
+                              {/* Remounts, and so reloads, whenever the current explanation changes */}
+                              <ExplanationRevisionHistory
+                                key={clue.explanation_json}
+                                puzzleId={clue.puzzle_id}
+                                clueNumber={clue.clue_number}
+                                direction={clue.direction}
+                                onRestored={() => id && dispatch(fetchClueExplanations(id))}
+                              />
+                            </div>
                           </td>
                         </tr>
                       )}
@@ -0,0 +1,250 @@
+import { useState } from 'react'
+import { LuCheck, LuSearch, LuUserPlus, LuX } from 'react-icons/lu'
+import { useAuth } from '../context/AuthContext'
+import {
+  useGetFriendsQuery,
+  useGetFriendRequestsQuery,
+  useSearchUsersQuery,
+  useSendFriendRequestMutation,
+  useAcceptFriendRequestMutation,
+  useDeclineFriendRequestMutation,
+  useRemoveFriendMutation,
+  type UserSearchResult,
+} from '../store/api/friendsApi'
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const data = (error as { data?: unknown } | undefined)?.data
+  return typeof data === 'string' ? data : fallback
+}
+
+export function FriendsPage() {
+  const { user, loading: authLoading, openAuthModal } = useAuth()
+  const [searchInput, setSearchInput] = useState('')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const { data: friends = [], isLoading: friendsLoading } = useGetFriendsQuery(undefined, {
+    skip: !user,
+  })
+  const { data: requests, isLoading: requestsLoading } = useGetFriendRequestsQuery(undefined, {
+    skip: !user,
+  })
+  const { data: searchResults = [], isFetching: searching } = useSearchUsersQuery(searchTerm, {
+    skip: !user || !searchTerm,
+  })
+
+  const [sendRequest] = useSendFriendRequestMutation()
+  const [acceptRequest] = useAcceptFriendRequestMutation()
+  const [declineRequest] = useDeclineFriendRequestMutation()
+  const [removeFriend] = useRemoveFriendMutation()
+
+  const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+    setActionError(null)
+    try {
+      await action()
+    } catch (error) {
+      setActionError(getErrorMessage(error, fallback))
+    }
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSearchTerm(searchInput.trim())
+  }
+
+  const handleRemove = (friendId: number, username: string) => {
+    if (!confirm(`Remove ${username} from your friends?`)) return
+    runAction(() => removeFriend(friendId).unwrap(), 'Failed to remove friend')
+  }
+
+  const renderSearchAction = (result: UserSearchResult) => {
+    switch (result.relationship) {
+      case 'friends':
+        return <span className="text-xs text-green-600 dark:text-green-400 font-medium">Friends</span>
+      case 'outgoing':
+        return <span className="text-xs text-text-secondary italic">Request sent</span>
+      case 'incoming':
+        return (
+          <button
+            onClick={() =>
+              runAction(() => acceptRequest(result.id).unwrap(), 'Failed to accept request')
+            }
+            className="px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold hover:bg-primary-hover transition-all border-none cursor-pointer"
+          >
+            Accept
+          </button>
+        )
+      default:
+        return (
+          <button
+            onClick={() =>
+              runAction(() => sendRequest(result.id).unwrap(), 'Failed to send request')
+            }
+            className="px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold hover:bg-primary-hover transition-all border-none cursor-pointer flex items-center gap-1"
+          >
+            <LuUserPlus size={14} /> Add
+          </button>
+        )
+    }
+  }
+
+  if (authLoading) {
+    return null
+  }
+
+  if (!user) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-8 pb-12 text-center">
+        <p className="text-text-secondary mb-4">Log in to manage your friends.</p>
+        <button
+          onClick={openAuthModal}
+          className="px-6 py-3 rounded-xl bg-primary text-white font-bold shadow-md hover:bg-primary-hover active:scale-95 transition-all border-none cursor-pointer"
+        >
+          Login/Register
+        </button>
+      </div>
+    )
+  }
+
+  const incoming = requests?.incoming ?? []
+  const outgoing = requests?.outgoing ?? []
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-8 pb-12 flex flex-col gap-8">
+      <header>
+        <h1 className="text-3xl font-bold text-text italic tracking-tight">Friends</h1>
+        <p className="text-text-secondary text-sm">
+          Friends can see and join your puzzle sessions from their home page.
+        </p>
+      </header>
+
+      {actionError && (
+        <div className="px-4 py-3 rounded-lg bg-error/10 border border-error/30 text-error text-sm">
+          {actionError}
+        </div>
+      )}
+
+      {/* Pending requests */}
+      <section className="bg-surface rounded-xl shadow-lg border border-border p-6">
+        <h2 className="text-lg font-bold text-text mb-4">Pending Requests</h2>
+        {requestsLoading ? (
+          <p className="text-text-secondary text-sm">Loading...</p>
+        ) : incoming.length === 0 && outgoing.length === 0 ? (
+          <p className="text-text-secondary italic text-sm">No pending requests.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {incoming.map((request) => (
+              <li key={request.id} className="py-3 flex items-center justify-between gap-4">
+                <span className="text-text font-medium">{request.user.username}</span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() =>
+                      runAction(
+                        () => acceptRequest(request.user.id).unwrap(),
+                        'Failed to accept request',
+                      )
+                    }
+                    className="px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold hover:bg-primary-hover transition-all border-none cursor-pointer flex items-center gap-1"
+                  >
+                    <LuCheck size={14} /> Accept
+                  </button>
+                  <button
+                    onClick={() =>
+                      runAction(
+                        () => declineRequest(request.user.id).unwrap(),
+                        'Failed to decline request',
+                      )
+                    }
+                    className="px-3 py-1.5 rounded-lg bg-input-bg border border-border text-text-secondary text-xs font-bold hover:text-error hover:border-error/30 transition-all cursor-pointer flex items-center gap-1"
+                  >
+                    <LuX size={14} /> Decline
+                  </button>
+                </div>
+              </li>
+            ))}
+            {outgoing.map((request) => (
+              <li key={request.id} className="py-3 flex items-center justify-between gap-4">
+                <span className="text-text-secondary">
+                  {request.user.username} <span className="text-xs italic">(awaiting reply)</span>
+                </span>
+                <button
+                  onClick={() =>
+                    runAction(() => removeFriend(request.user.id).unwrap(), 'Failed to cancel request')
+                  }
+                  className="px-3 py-1.5 rounded-lg bg-input-bg border border-border text-text-secondary text-xs font-bold hover:text-error hover:border-error/30 transition-all cursor-pointer"
+                >
+                  Cancel
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Friends list */}
+      <section className="bg-surface rounded-xl shadow-lg border border-border p-6">
+        <h2 className="text-lg font-bold text-text mb-4">Your Friends</h2>
+        {friendsLoading ? (
+          <p className="text-text-secondary text-sm">Loading...</p>
+        ) : friends.length === 0 ? (
+          <p className="text-text-secondary italic text-sm">
+            No friends yet. Search for someone below.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {friends.map((friend) => (
+              <li key={friend.id} className="py-3 flex items-center justify-between gap-4">
+                <span className="inline-flex items-center gap-2 text-text font-medium">
+                  <span className="w-2 h-2 rounded-full bg-primary"></span>
+                  {friend.username}
+                </span>
+                <button
+                  onClick={() => handleRemove(friend.id, friend.username)}
+                  className="px-3 py-1.5 rounded-lg bg-error/10 border border-error/30 text-error text-xs font-medium hover:bg-error hover:text-white transition-all cursor-pointer"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* User search */}
+      <section className="bg-surface rounded-xl shadow-lg border border-border p-6">
+        <h2 className="text-lg font-bold text-text mb-4">Find People</h2>
+        <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by username"
+            className="flex-1 px-4 py-2 rounded-lg bg-input-bg border border-border text-text focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-all"
+          />
+          <button
+            type="submit"
+            disabled={!searchInput.trim()}
+            className="px-4 py-2 rounded-lg bg-primary text-white font-bold hover:bg-primary-hover transition-all border-none cursor-pointer disabled:opacity-50 flex items-center gap-2"
+          >
+            <LuSearch size={16} /> Search
+          </button>
+        </form>
+        {searchTerm &&
+          (searching ? (
+            <p className="text-text-secondary text-sm">Searching...</p>
+          ) : searchResults.length === 0 ? (
+            <p className="text-text-secondary italic text-sm">No users found.</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {searchResults.map((result) => (
+                <li key={result.id} className="py-3 flex items-center justify-between gap-4">
+                  <span className="text-text">{result.username}</span>
+                  {renderSearchAction(result)}
+                </li>
+              ))}
+            </ul>
+          ))}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,417 @@
+import { useState, useMemo, useEffect } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { LuCheck, LuTriangleAlert, LuWandSparkles } from 'react-icons/lu'
+import {
+  useAutofillGridMutation,
+  useCreatePuzzleMutation,
+  useGetPuzzleByIdQuery,
+  useUpdatePuzzleMutation,
+  type AutofillAnswers,
+  type PuzzleDetail,
+} from '../store/api/adminApi'
+import { useAuth } from '../context/AuthContext'
+import type { CellType, Direction } from '../types'
+import { CrosswordGrid } from '../CrosswordGrid'
+import { parseGridString, renderGrid } from '../utils/gridRenderer'
+import { setCellAt } from '../utils/cellState'
+import { isLetterCell, lightCells } from '../utils/gridCells'
+import {
+  emptyGrid,
+  emptyLetters,
+  findGridWarnings,
+  fitLetters,
+  getDesignLights,
+  gridToString,
+  mergeDesignClues,
+  renumberGrid,
+  toggleBlock,
+  type Symmetry,
+} from '../utils/gridDesign'
+
+const SYMMETRY_LABELS: Record<Symmetry, string> = {
+  rotational: 'Rotational',
+  mirror: 'Mirror',
+  none: 'None',
+}
+
+const MIN_SIZE = 3
+const MAX_SIZE = 25
+
+type Tool = 'blocks' | 'letters'
+
+/**
+ * Grid designer: click cells to place blocks, kept symmetric, with numbering
+ * and warnings updated as you go. Letters can be typed in and the rest
+ * filled from the word list. New grids are saved as puzzles with pending
+ * clues; an existing puzzle keeps the clues its lights still have.
+ */
+export function GridDesigner() {
+  const { puzzleId } = useParams<{ puzzleId: string }>()
+  const { user } = useAuth()
+  const isAdmin = user?.isAdmin === true
+
+  const {
+    data: puzzle,
+    isLoading: loading,
+    error,
+  } = useGetPuzzleByIdQuery(puzzleId!, { skip: !puzzleId || !isAdmin })
+
+  if (puzzleId && loading)
+    return (
+      <div className="flex items-center justify-center min-h-[50vh] text-text-secondary animate-pulse gap-2">
+        <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+        Loading puzzle layout...
+      </div>
+    )
+
+  if (puzzleId && (error || !puzzle))
+    return (
+      <div className="max-w-md mx-auto mt-12 p-8 bg-error/10 border border-error/20 rounded-2xl text-error text-center font-medium">
+        Failed to load puzzle.
+      </div>
+    )
+
+  return <GridDesignerForm key={puzzle?.id ?? 'new'} puzzle={puzzle ?? null} />
+}
+
+function GridDesignerForm({ puzzle }: { puzzle: PuzzleDetail | null }) {
+  const navigate = useNavigate()
+  const [createPuzzle, { isLoading: isCreating }] = useCreatePuzzleMutation()
+  const [updatePuzzle, { isLoading: isUpdating }] = useUpdatePuzzleMutation()
+  const [autofillGrid, { isLoading: isFilling }] = useAutofillGridMutation()
+  const isSaving = isCreating || isUpdating
+
+  const [title, setTitle] = useState(puzzle?.title ?? '')
+  const [height, setHeight] = useState(15)
+  const [width, setWidth] = useState(15)
+  const [symmetry, setSymmetry] = useState<Symmetry>('rotational')
+  const [grid, setGrid] = useState<CellType[][]>(() =>
+    puzzle ? renumberGrid(parseGridString(puzzle.grid)) : emptyGrid(15, 15),
+  )
+  const [letters, setLetters] = useState<string[]>(() => emptyLetters(grid))
+  const [tool, setTool] = useState<Tool>('blocks')
+  const [cursor, setCursor] = useState<{ r: number; c: number; direction: Direction } | null>(
+    null,
+  )
+  // The answer key from the last autofill, saved with the grid until either changes
+  const [fillAnswers, setFillAnswers] = useState<AutofillAnswers | null>(null)
+
+  const warnings = useMemo(() => findGridWarnings(grid, symmetry), [grid, symmetry])
+  const warningCells = useMemo(
+    () => new Set(warnings.flatMap((w) => w.cells.map(({ r, c }) => `${r}-${c}`))),
+    [warnings],
+  )
+  const lights = useMemo(() => getDesignLights(grid), [grid])
+  const { renderedGrid } = useMemo(
+    () =>
+      renderGrid({
+        grid,
+        answers: letters,
+        cursor: tool === 'letters' ? cursor : null,
+        mode: 'play',
+      }),
+    [grid, letters, cursor, tool],
+  )
+  const hasLetters = letters.some((row) => row.trim() !== '')
+
+  const updateLetters = (next: string[]) => {
+    setLetters(next)
+    setFillAnswers(null)
+  }
+
+  // Typing in the letters tool: a letter fills the cell and moves along the light
+  useEffect(() => {
+    if (tool !== 'letters' || !cursor) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.metaKey || e.ctrlKey || e.altKey) return
+      const cells = lightCells(grid, cursor.r, cursor.c, cursor.direction)
+      const index = cells.findIndex(({ r, c }) => r === cursor.r && c === cursor.c)
+
+      if (/^[a-zA-Z]$/.test(e.key) || e.key === 'Backspace' || e.key === 'Delete') {
+        e.preventDefault()
+        const value = e.key.length === 1 ? e.key.toUpperCase() : ' '
+        const next = [...letters]
+        next[cursor.r] = setCellAt(next[cursor.r] ?? '', cursor.c, value)
+        updateLetters(next)
+
+        const step = e.key === 'Backspace' ? -1 : e.key === 'Delete' ? 0 : 1
+        const target = step !== 0 ? cells[index + step] : null
+        if (target) setCursor({ ...cursor, ...target })
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  const handleNewGrid = () => {
+    const clamp = (n: number) => Math.min(MAX_SIZE, Math.max(MIN_SIZE, Math.round(n) || MIN_SIZE))
+    if (!confirm('Start again with an empty grid?')) return
+    const next = emptyGrid(clamp(height), clamp(width))
+    setGrid(next)
+    updateLetters(emptyLetters(next))
+    setCursor(null)
+  }
+
+  const handleCellClick = (r: number, c: number) => {
+    if (tool === 'blocks') {
+      const next = toggleBlock(grid, r, c, symmetry)
+      setGrid(next)
+      updateLetters(fitLetters(next, letters))
+      return
+    }
+
+    if (!isLetterCell(grid[r]?.[c])) return
+    // Clicking the selected cell again turns the other way
+    if (cursor?.r === r && cursor.c === c) {
+      setCursor({ r, c, direction: cursor.direction === 'across' ? 'down' : 'across' })
+    } else {
+      setCursor({ r, c, direction: cursor?.direction ?? 'across' })
+    }
+  }
+
+  const handleAutofill = async () => {
+    try {
+      const result = await autofillGrid({ grid: gridToString(grid), letters }).unwrap()
+      if (!result.success || !result.letters) {
+        alert(result.message ?? 'No fill found.')
+        return
+      }
+      setLetters(result.letters)
+      setFillAnswers(result.answers ?? null)
+    } catch (error) {
+      console.error('Failed to autofill grid:', error)
+      alert('Failed to autofill grid.')
+    }
+  }
+
+  const handleClearFill = () => {
+    if (!confirm('Remove every letter from the grid?')) return
+    updateLetters(emptyLetters(grid))
+  }
+
+  const handleSave = async () => {
+    if (!puzzle && !title.trim()) {
+      alert('Give the puzzle a title first.')
+      return
+    }
+    if (warnings.length > 0 && !confirm(`The grid has ${warnings.length} warnings. Save anyway?`)) {
+      return
+    }
+
+    const { clues, dropped } = mergeDesignClues(grid, puzzle?.clues)
+    if (
+      dropped.length > 0 &&
+      !confirm(
+        `${dropped.length} clues belong to lights the grid no longer has and will be removed. Save anyway?`,
+      )
+    ) {
+      return
+    }
+
+    try {
+      if (puzzle) {
+        await updatePuzzle({
+          id: String(puzzle.id),
+          data: { grid: gridToString(grid), clues, ...(fillAnswers && { answers: fillAnswers }) },
+        }).unwrap()
+        alert('Grid saved successfully!')
+      } else {
+        const created = await createPuzzle({
+          title: title.trim(),
+          grid: gridToString(grid),
+          clues,
+          ...(fillAnswers && { answers: fillAnswers }),
+        }).unwrap()
+        navigate(`/edit/${created.id}`)
+      }
+    } catch (error) {
+      console.error('Failed to save grid:', error)
+      alert('Failed to save grid.')
+    }
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-8 pb-12">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-10 pb-6 border-b border-border">
+        <div>
+          <h1 className="text-3xl font-bold text-text italic tracking-tight">
+            {puzzle ? `Grid Designer: ${puzzle.title}` : 'Grid Designer'}
+          </h1>
+          <p className="text-text-secondary text-sm font-medium">
+            {tool === 'blocks'
+              ? 'Click a cell to place or remove a block. Numbers update as you go.'
+              : 'Click a cell and type letters. Click it again to change direction.'}
+          </p>
+        </div>
+        <div className="flex gap-4">
+          <Link
+            to={puzzle ? `/edit/${puzzle.id}` : '/admin'}
+            className="px-6 py-2.5 rounded-xl bg-input-bg border border-border text-text-secondary font-bold hover:text-text hover:border-text transition-all text-center no-underline flex items-center justify-center gap-2"
+          >
+            Cancel
+          </Link>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-6 py-2.5 rounded-xl bg-primary text-white font-bold shadow-md hover:bg-primary-hover hover:shadow-lg active:scale-95 transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed border-none cursor-pointer"
+          >
+            {isSaving ? 'Saving...' : puzzle ? 'Save Grid' : 'Create Puzzle'}
+          </button>
+        </div>
+      </header>
+
+      <div className="flex flex-col lg:flex-row gap-8 items-start">
+        <div className="flex-1 w-full bg-surface p-6 md:p-10 rounded-2xl shadow-xl border border-border">
+          <div className="flex justify-center">
+            <div className="bg-bg p-4 rounded-xl border border-border shadow-inner">
+              <CrosswordGrid
+                grid={renderedGrid}
+                mode="play"
+                onCellClick={handleCellClick}
+                selectedDirection={cursor?.direction}
+                errorCells={warningCells}
+              />
+            </div>
+          </div>
+          <p className="mt-4 text-center text-sm text-text-secondary">
+            {lights.filter((l) => l.direction === 'across').length} across,{' '}
+            {lights.filter((l) => l.direction === 'down').length} down
+            {fillAnswers && ' · the answers will be saved with the grid'}
+          </p>
+        </div>
+
+        <div className="w-full lg:w-80 flex flex-col gap-6">
+          <div className="bg-surface p-6 rounded-2xl shadow-md border border-border flex flex-col gap-4">
+            {!puzzle && (
+              <label className="flex flex-col gap-1 text-sm font-semibold text-text-secondary">
+                Title
+                <input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className="px-3 py-2 rounded-lg bg-input-bg border border-border text-text outline-none focus:border-primary"
+                />
+              </label>
+            )}
+
+            <div className="flex flex-col gap-1 text-sm font-semibold text-text-secondary">
+              Symmetry
+              <div className="flex gap-2">
+                {(Object.keys(SYMMETRY_LABELS) as Symmetry[]).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setSymmetry(option)}
+                    className={`flex-1 py-2 rounded-lg border text-sm font-bold transition-all cursor-pointer ${
+                      symmetry === option
+                        ? 'bg-primary text-white border-primary'
+                        : 'bg-input-bg text-text-secondary border-border hover:text-text'
+                    }`}
+                  >
+                    {SYMMETRY_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-1 text-sm font-semibold text-text-secondary">
+              Tool
+              <div className="flex gap-2">
+                {(['blocks', 'letters'] as Tool[]).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setTool(option)}
+                    className={`flex-1 py-2 rounded-lg border text-sm font-bold transition-all cursor-pointer capitalize ${
+                      tool === option
+                        ? 'bg-primary text-white border-primary'
+                        : 'bg-input-bg text-text-secondary border-border hover:text-text'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleAutofill}
+                disabled={isFilling}
+                className="flex-1 py-2 rounded-lg bg-input-bg border border-border text-text font-bold hover:border-primary hover:text-primary transition-all cursor-pointer flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <LuWandSparkles size={16} /> {isFilling ? 'Filling...' : 'Autofill'}
+              </button>
+              <button
+                type="button"
+                onClick={handleClearFill}
+                disabled={!hasLetters || isFilling}
+                className="flex-1 py-2 rounded-lg bg-input-bg border border-border text-text font-bold hover:border-error hover:text-error transition-all cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Clear Fill
+              </button>
+            </div>
+
+            <div className="flex items-end gap-2">
+              <label className="flex flex-col gap-1 text-sm font-semibold text-text-secondary">
+                Rows
+                <input
+                  type="number"
+                  min={MIN_SIZE}
+                  max={MAX_SIZE}
+                  value={height}
+                  onChange={(e) => setHeight(Number(e.target.value))}
+                  className="w-20 px-3 py-2 rounded-lg bg-input-bg border border-border text-text outline-none focus:border-primary"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm font-semibold text-text-secondary">
+                Columns
+                <input
+                  type="number"
+                  min={MIN_SIZE}
+                  max={MAX_SIZE}
+                  value={width}
+                  onChange={(e) => setWidth(Number(e.target.value))}
+                  className="w-20 px-3 py-2 rounded-lg bg-input-bg border border-border text-text outline-none focus:border-primary"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={handleNewGrid}
+                className="flex-1 py-2 rounded-lg bg-input-bg border border-border text-text font-bold hover:border-primary hover:text-primary transition-all cursor-pointer"
+              >
+                New Grid
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-surface p-6 rounded-2xl shadow-md border border-border">
+            <h2 className="text-lg font-bold text-text mb-3 flex items-center gap-2">
+              {warnings.length === 0 ? (
+                <span className="text-success flex items-center gap-1">
+                  <LuCheck size={18} /> No warnings
+                </span>
+              ) : (
+                <span className="text-error flex items-center gap-1">
+                  <LuTriangleAlert size={18} /> {warnings.length} Warnings
+                </span>
+              )}
+            </h2>
+            {warnings.length > 0 && (
+              <ul className="space-y-1 max-h-[320px] overflow-y-auto custom-scrollbar">
+                {warnings.map((warning, i) => (
+                  <li key={i} className="flex gap-2 items-start text-xs text-error/90">
+                    <span>•</span>
+                    <span>{warning.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
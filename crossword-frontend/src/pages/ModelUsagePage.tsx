@@ -0,0 +1,201 @@
+import { useState, type ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import { useGetModelUsageQuery, type SpendTotals } from '../store/api/adminApi'
+import { useAuth } from '../context/AuthContext'
+
+const WINDOWS = [7, 30, 90]
+
+const PURPOSE_LABELS: Record<string, string> = {
+  explanation: 'Clue explanations',
+  hint: 'Hints',
+  transcription: 'Transcription from images',
+  parsewords: 'Parsewords generation',
+  chat: 'Admin chat assistant',
+}
+
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`
+const formatTokens = (tokens: number) => tokens.toLocaleString()
+
+interface SpendTableProps {
+  title: string
+  label: string
+  rows: Array<SpendTotals & { key: string; name: ReactNode }>
+  empty: string
+}
+
+function SpendTable({ title, label, rows, empty }: SpendTableProps) {
+  return (
+    <section className="bg-surface rounded-xl shadow-lg border border-border overflow-hidden">
+      <h2 className="px-6 py-4 text-lg font-bold text-text border-b border-border">{title}</h2>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-input-bg border-b border-border">
+            <tr>
+              <th className="px-6 py-3 text-left text-sm font-bold text-text">{label}</th>
+              <th className="px-6 py-3 text-right text-sm font-bold text-text">Calls</th>
+              <th className="px-6 py-3 text-right text-sm font-bold text-text">Failed</th>
+              <th className="px-6 py-3 text-right text-sm font-bold text-text">Tokens In</th>
+              <th className="px-6 py-3 text-right text-sm font-bold text-text">Tokens Out</th>
+              <th className="px-6 py-3 text-right text-sm font-bold text-text">Est. Cost</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {rows.map((row) => (
+              <tr key={row.key} className="hover:bg-input-bg/30 transition-colors">
+                <td className="px-6 py-3 text-sm text-text">{row.name}</td>
+                <td className="px-6 py-3 text-sm text-right font-mono text-text">{row.calls}</td>
+                <td
+                  className={`px-6 py-3 text-sm text-right font-mono ${
+                    row.failures > 0 ? 'text-error font-bold' : 'text-text-secondary'
+                  }`}
+                >
+                  {row.failures}
+                </td>
+                <td className="px-6 py-3 text-sm text-right font-mono text-text-secondary">
+                  {formatTokens(row.inputTokens)}
+                </td>
+                <td className="px-6 py-3 text-sm text-right font-mono text-text-secondary">
+                  {formatTokens(row.outputTokens)}
+                </td>
+                <td className="px-6 py-3 text-sm text-right font-mono text-text">
+                  {formatCost(row.costUsd)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rows.length === 0 && (
+        <div className="py-10 text-center">
+          <p className="text-text-secondary italic">{empty}</p>
+        </div>
+      )}
+    </section>
+  )
+}
+
+export function ModelUsagePage() {
+  const { user } = useAuth()
+  const isAdmin = user?.isAdmin === true
+  const [days, setDays] = useState(30)
+  const { data, isLoading, refetch } = useGetModelUsageQuery(days, { skip: !isAdmin })
+
+  const totals = data?.totals
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-8 pb-12">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-10 pb-6 border-b border-border pt-8">
+        <div>
+          <h1 className="text-3xl font-bold text-text italic tracking-tight">AI Spend</h1>
+          <p className="text-text-secondary text-sm">
+            Model calls and estimated cost from list prices. Check provider bills for exact figures.
+          </p>
+        </div>
+        <div className="flex gap-4">
+          <Link
+            to="/admin"
+            className="px-6 py-3 rounded-xl bg-surface border-2 border-border text-text font-bold shadow-sm hover:border-primary hover:text-primary active:scale-95 transition-all text-center no-underline flex items-center justify-center gap-2"
+          >
+            Back to Dashboard
+          </Link>
+          <button
+            onClick={() => refetch()}
+            className="px-6 py-3 rounded-xl bg-primary text-white font-bold shadow-md hover:bg-primary-hover active:scale-95 transition-all border-none cursor-pointer"
+          >
+            Refresh
+          </button>
+        </div>
+      </header>
+
+      <div className="flex gap-2 mb-6">
+        {WINDOWS.map((window) => (
+          <button
+            key={window}
+            onClick={() => setDays(window)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all border-none cursor-pointer ${
+              days === window
+                ? 'bg-primary text-white'
+                : 'bg-primary/10 text-primary hover:bg-primary hover:text-white'
+            }`}
+          >
+            Last {window} days
+          </button>
+        ))}
+      </div>
+
+      {isLoading || !data || !totals ? (
+        <div className="flex items-center justify-center py-12 text-text-secondary gap-2">
+          <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          Loading spend...
+        </div>
+      ) : (
+        <div className="flex flex-col gap-8">
+          <section className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              ['Estimated cost', formatCost(totals.costUsd)],
+              ['Model calls', totals.calls.toLocaleString()],
+              ['Failed calls', totals.failures.toLocaleString()],
+              ['Tokens in / out', `${formatTokens(totals.inputTokens)} / ${formatTokens(totals.outputTokens)}`],
+            ].map(([label, value]) => (
+              <div key={label} className="bg-surface rounded-xl shadow border border-border p-4">
+                <h2 className="text-sm font-bold text-text-secondary mb-1">{label}</h2>
+                <p className="text-2xl font-bold text-text font-mono">{value}</p>
+              </div>
+            ))}
+          </section>
+
+          <SpendTable
+            title="By Day"
+            label="Day (UTC)"
+            empty="No model calls in this period."
+            rows={data.byDay.map((row) => ({ ...row, key: row.day, name: row.day }))}
+          />
+
+          <SpendTable
+            title="By Purpose"
+            label="Purpose"
+            empty="No model calls in this period."
+            rows={data.byPurpose.map((row) => ({
+              ...row,
+              key: row.purpose,
+              name: PURPOSE_LABELS[row.purpose] ?? row.purpose,
+            }))}
+          />
+
+          <SpendTable
+            title="By Puzzle"
+            label="Puzzle"
+            empty="No model calls were tied to a puzzle in this period."
+            rows={data.byPuzzle.map((row) => ({
+              ...row,
+              key: String(row.puzzleId),
+              name: (
+                <Link
+                  to={`/admin/puzzles/${row.puzzleId}/explanations`}
+                  className="text-primary hover:underline"
+                >
+                  {row.title ?? `Deleted puzzle #${row.puzzleId}`}
+                </Link>
+              ),
+            }))}
+          />
+
+          <SpendTable
+            title="By Model"
+            label="Model"
+            empty="No model calls in this period."
+            rows={data.byModel.map((row) => ({
+              ...row,
+              key: `${row.provider}-${row.model}`,
+              name: (
+                <span className="font-mono">
+                  {row.model} <span className="text-text-secondary">via {row.provider}</span>
+                </span>
+              ),
+            }))}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
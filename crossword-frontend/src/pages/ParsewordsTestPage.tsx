@@ -1,7 +1,8 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import axios from 'axios'
-import type { Puzzle } from '../components/parsewords/types'
+import type { PlayablePuzzle, Puzzle } from '../components/parsewords/types'
 import { ParsewordsGame } from '../components/parsewords/ParsewordsGame'
+import { checkParsewordsAnswer } from '../components/parsewords/checkAnswer'
 
 // ---------------------------------------------------------------------------
 // Hardcoded fallback puzzles
@@ -158,26 +159,39 @@ const hardcodedPuzzles: Puzzle[] = [
 // Page
 // ---------------------------------------------------------------------------
 
+// Saved puzzles come without their answer and are checked by id
+type TestPuzzle = { id?: number; puzzle: PlayablePuzzle }
+
 export function ParsewordsTestPage() {
-  const [puzzles, setPuzzles] = useState<Puzzle[]>(hardcodedPuzzles)
+  const [puzzles, setPuzzles] = useState<TestPuzzle[]>(
+    hardcodedPuzzles.map((puzzle) => ({ puzzle })),
+  )
   const [puzzleIndex, setPuzzleIndex] = useState(0)
 
   useEffect(() => {
     axios
       .get('/api/parsewords')
       .then((res) => {
-        const fetched: Puzzle[] = res.data.map((entry: { puzzle: Puzzle }) => entry.puzzle)
+        const fetched: TestPuzzle[] = res.data.map((entry: TestPuzzle) => ({
+          id: entry.id,
+          puzzle: entry.puzzle,
+        }))
         if (fetched.length === 0) return
         setPuzzles((prev) => {
-          const byAnswer = new Map(prev.map((p) => [p.answer, p]))
-          for (const p of fetched) byAnswer.set(p.answer, p)
-          return [...byAnswer.values()]
+          const byLabel = new Map(prev.map((p) => [p.puzzle.label, p]))
+          for (const p of fetched) byLabel.set(p.puzzle.label, p)
+          return [...byLabel.values()]
         })
       })
       .catch(() => {/* backend unavailable */})
   }, [])
 
-  const puzzle = puzzles[puzzleIndex] ?? puzzles[0]
+  const { id, puzzle } = puzzles[puzzleIndex] ?? puzzles[0]
+  const checkAnswer = useCallback(
+    async (guess: string) =>
+      id === undefined ? null : ((await checkParsewordsAnswer(id, guess))?.displayAnswer ?? null),
+    [id],
+  )
 
   function switchPuzzle(index: number) {
     setPuzzleIndex(index)
@@ -198,12 +212,12 @@ export function ParsewordsTestPage() {
               style={i === puzzleIndex
                 ? { background: '#facc15', color: '#000', fontWeight: 600 }
                 : { background: 'transparent', color: 'var(--color-text-secondary)', border: '1px solid var(--color-border)' }}>
-              {p.label}
+              {p.puzzle.label}
             </button>
           ))}
         </div>
 
-        <ParsewordsGame key={puzzle.answer} puzzle={puzzle} />
+        <ParsewordsGame key={id ?? puzzle.label} puzzle={puzzle} checkAnswer={checkAnswer} />
       </div>
     </div>
   )
@@ -11,18 +11,22 @@ import { usePuzzleSync } from '@/hooks/usePuzzleSync'
 import { usePuzzleInput } from '@/hooks/usePuzzleInput'
 import { useCursorSelection } from '@/hooks/useCursorSelection'
 import { useAnswerChecker } from '@/hooks/useAnswerChecker'
+import { usePresenceBroadcast } from '@/hooks/usePresenceBroadcast'
 import { setNickname } from '@/utils/sessionManager'
 import { GameConnectionProvider, useGameConnection } from '@/context/GameConnectionContext'
 import { setPuzzleComplete, updateCell } from '@/store/slices/puzzleSlice'
 import { getCellsForClue } from '@/utils/lockCells'
+import { splitAnswer } from '@/utils/cellState'
 import type { AppDispatch, RootState } from '@/store/store'
-import type { Direction } from '@/types'
+import type { CheckRequest, Direction } from '@/types'
 
 // Selectors
 const selectIsLoading = (state: RootState) => state.puzzle.isLoading
 const selectError = (state: RootState) => state.puzzle.error
 const selectGrid = (state: RootState) => state.puzzle.grid
+const selectRebusCells = (state: RootState) => state.puzzle.rebusCells
 const selectPuzzleComplete = (state: RootState) => state.puzzle.puzzleComplete
+const selectClues = (state: RootState) => state.puzzle.clues
 
 // Inner component rendered inside GameConnectionProvider so hooks that call
 // useGameConnection() (e.g. useAnswerChecker → sendAnswerFeedback) get the
@@ -42,7 +46,9 @@ function PlaySessionInner({ sessionId }: { sessionId: string | undefined }) {
   const isLoading = useSelector(selectIsLoading)
   const error = useSelector(selectError)
   const grid = useSelector(selectGrid)
+  const rebusCells = useSelector(selectRebusCells)
   const puzzleComplete = useSelector(selectPuzzleComplete)
+  const clues = useSelector(selectClues)
 
   // Modal is visible when puzzle is complete and hasn't been dismissed
   const showCongratsModal = puzzleComplete && !congratsDismissed
@@ -64,50 +70,56 @@ function PlaySessionInner({ sessionId }: { sessionId: string | undefined }) {
     }
   }, [puzzleComplete])
 
-  const { sendCellUpdate, sendCellsUpdate } = usePuzzleSync(sessionId)
-  const { checkCurrentWord, checkAllAnswers, checkIsPuzzleComplete, claimWord } = useAnswerChecker()
+  const { sendCellUpdate, sendCellsUpdate, whenSaved, undo, redo, reveal } =
+    usePuzzleSync(sessionId)
+  const { checkCurrentWord, checkAnswers, claimWord } = useAnswerChecker()
   const { selectCell, navigateToClue } = useCursorSelection()
+  usePresenceBroadcast(sessionId)
 
   const handleFillAnswer = (clueNumber: number, direction: Direction, answer: string) => {
-    const cells = getCellsForClue(grid, clueNumber, direction)
+    const cells = getCellsForClue(grid, clueNumber, direction, clues)
+    const values = splitAnswer(answer, cells, rebusCells)
     const updates: Array<{ r: number; c: number; value: string }> = []
     cells.forEach((cellKey, i) => {
       const [r, c] = cellKey.split('-').map(Number)
-      const letter = answer[i] ?? ' '
-      updates.push({ r, c, value: letter })
+      updates.push({ r, c, value: values[i] || ' ' })
     })
     sendCellsUpdate(updates)
   }
 
-  const handleCheckAllAnswers = () => {
-    console.log('[PlaySession] handleCheckAllAnswers called')
-    checkAllAnswers()
+  const handleCheck = (request: CheckRequest) => {
+    void checkAnswers(request)
   }
 
-  const handleWordCheck = (
+  const handleReveal = (request: CheckRequest) => {
+    void reveal(request)
+  }
+
+  const handleWordCheck = async (
     clueNumber: number,
     direction: Direction,
     answersOverride?: string[],
   ) => {
-    const result = checkCurrentWord(clueNumber, direction, answersOverride, () => {
+    // The server checks the letters it has, so let the one just typed arrive
+    await whenSaved()
+    const result = await checkCurrentWord(clueNumber, direction, answersOverride, () => {
       setPendingClaim({ clueNumber, direction })
       setShowNicknameModal(true)
     })
 
-    // After each correct word, silently check if the whole puzzle is done.
-    // Pass answersOverride so the check uses the freshly-typed answers rather
-    // than the Redux state, which may not have re-rendered yet.
-    if (result === 'correct' && !hasFiredConfettiRef.current) {
-      if (checkIsPuzzleComplete(answersOverride)) {
-        dispatch(setPuzzleComplete(true))
-        if (sessionId) {
-          void sendPuzzleComplete(sessionId)
-        }
+    // The server reports whether this word completed the whole grid
+    if (result?.puzzleComplete && !hasFiredConfettiRef.current) {
+      dispatch(setPuzzleComplete(true))
+      if (sessionId) {
+        void sendPuzzleComplete(sessionId)
       }
     }
   }
 
-  const { onVirtualKeyPress, onVirtualDelete } = usePuzzleInput(sendCellUpdate, handleWordCheck)
+  const { onVirtualKeyPress, onVirtualDelete } = usePuzzleInput(sendCellUpdate, handleWordCheck, {
+    undo,
+    redo,
+  })
 
   const handleNicknameSubmit = (nickname: string) => {
     setNickname(nickname)
@@ -168,14 +180,16 @@ function PlaySessionInner({ sessionId }: { sessionId: string | undefined }) {
           onCellClick={selectCell}
           onVirtualKeyPress={onVirtualKeyPress}
           onVirtualDelete={onVirtualDelete}
-          onCheckAnswers={handleCheckAllAnswers}
+          onCheck={handleCheck}
+          onReveal={handleReveal}
           onFillAnswer={handleFillAnswer}
         />
       ) : (
         <DesktopView
           onClueClick={navigateToClue}
           onCellClick={selectCell}
-          onCheckAnswers={handleCheckAllAnswers}
+          onCheck={handleCheck}
+          onReveal={handleReveal}
           onFillAnswer={handleFillAnswer}
         />
       )}
@@ -0,0 +1,146 @@
+import { Link } from 'react-router-dom'
+import { LuFlame, LuLightbulb, LuSearch, LuTimer, LuTrophy } from 'react-icons/lu'
+import { useAuth } from '../context/AuthContext'
+import { useGetMyStatsQuery } from '../store/api/statsApi'
+import { formatTimerTime } from '../hooks/usePuzzleTimer'
+
+const formatSeconds = (seconds: number | null) =>
+  seconds === null ? '—' : formatTimerTime(seconds)
+
+function StatCard({
+  icon,
+  label,
+  value,
+  detail,
+}: {
+  icon: React.ReactNode
+  label: string
+  value: string | number
+  detail?: string
+}) {
+  return (
+    <div className="bg-surface rounded-xl shadow-lg border border-border p-5 flex flex-col gap-1">
+      <span className="flex items-center gap-2 text-text-secondary text-xs font-bold uppercase tracking-wide">
+        {icon} {label}
+      </span>
+      <span className="text-2xl font-bold text-text">{value}</span>
+      {detail && <span className="text-xs text-text-secondary">{detail}</span>}
+    </div>
+  )
+}
+
+export function ProfilePage() {
+  const { user, loading: authLoading, openAuthModal } = useAuth()
+  const {
+    data: stats,
+    isLoading,
+    isError,
+  } = useGetMyStatsQuery(undefined, { skip: !user, refetchOnMountOrArgChange: true })
+
+  if (authLoading) {
+    return null
+  }
+
+  if (!user) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-8 pb-12 text-center">
+        <p className="text-text-secondary mb-4">Log in to see your solving stats.</p>
+        <button
+          onClick={openAuthModal}
+          className="px-6 py-3 rounded-xl bg-primary text-white font-bold shadow-md hover:bg-primary-hover active:scale-95 transition-all border-none cursor-pointer"
+        >
+          Login/Register
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-8 pb-12 flex flex-col gap-8">
+      <header>
+        <h1 className="text-3xl font-bold text-text italic tracking-tight">{user.username}</h1>
+        <p className="text-text-secondary text-sm">Your solving history across all devices.</p>
+      </header>
+
+      {isLoading ? (
+        <p className="text-text-secondary text-sm">Loading...</p>
+      ) : isError || !stats ? (
+        <div className="px-4 py-3 rounded-lg bg-error/10 border border-error/30 text-error text-sm">
+          Failed to load stats
+        </div>
+      ) : (
+        <>
+          <section className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <StatCard
+              icon={<LuTrophy size={14} />}
+              label="Completed"
+              value={stats.puzzlesCompleted}
+              detail={`of ${stats.sessionsStarted} started`}
+            />
+            <StatCard
+              icon={<LuTimer size={14} />}
+              label="Average time"
+              value={formatSeconds(stats.averageSolveSeconds)}
+              detail={
+                stats.fastestSolveSeconds !== null
+                  ? `Fastest ${formatTimerTime(stats.fastestSolveSeconds)}`
+                  : undefined
+              }
+            />
+            <StatCard
+              icon={<LuFlame size={14} />}
+              label="Streak"
+              value={`${stats.currentStreak} ${stats.currentStreak === 1 ? 'day' : 'days'}`}
+              detail={`Longest ${stats.longestStreak}`}
+            />
+            <StatCard
+              icon={<LuLightbulb size={14} />}
+              label="Hints used"
+              value={stats.lettersRevealed + stats.wordsRevealed}
+              detail={`${stats.lettersRevealed} letters, ${stats.wordsRevealed} words`}
+            />
+            <StatCard
+              icon={<LuTrophy size={14} />}
+              label="Hint-free solves"
+              value={stats.hintFreeSolves}
+            />
+            <StatCard icon={<LuSearch size={14} />} label="Checks" value={stats.checkCount} />
+          </section>
+
+          <section className="bg-surface rounded-xl shadow-lg border border-border p-6">
+            <h2 className="text-lg font-bold text-text mb-4">Recent Solves</h2>
+            {stats.recentSolves.length === 0 ? (
+              <p className="text-text-secondary italic text-sm">
+                No completed puzzles yet. Finish one to start your streak.
+              </p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {stats.recentSolves.map((solve) => (
+                  <li key={solve.sessionId} className="py-3 flex items-center justify-between gap-4">
+                    <div className="flex flex-col">
+                      <Link
+                        to={`/play/${solve.sessionId}`}
+                        className="text-text font-medium no-underline hover:text-primary transition-colors"
+                      >
+                        {solve.title}
+                      </Link>
+                      <span className="text-xs text-text-secondary">
+                        {new Date(solve.completedAt).toLocaleDateString()}
+                        {solve.lettersRevealed + solve.wordsRevealed > 0 &&
+                          ` · ${solve.lettersRevealed + solve.wordsRevealed} hints`}
+                        {solve.checkCount > 0 && ` · ${solve.checkCount} checks`}
+                      </span>
+                    </div>
+                    <span className="font-mono text-text">
+                      {solve.solveSeconds > 0 ? formatTimerTime(solve.solveSeconds) : '—'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
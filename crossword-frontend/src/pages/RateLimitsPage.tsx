@@ -0,0 +1,133 @@
+import { Link } from 'react-router-dom'
+import { useGetRateLimitsQuery, useResetRateLimitMutation } from '../store/api/adminApi'
+import { useAuth } from '../context/AuthContext'
+
+// Budget keys as shown to admins
+const BUDGET_LABELS: Record<string, string> = {
+  explain: 'Clue explanations',
+  clueTranscription: 'Clue transcription from images',
+  parsewordsGenerate: 'Parsewords generation',
+  adminChat: 'Admin chat assistant',
+}
+
+export function RateLimitsPage() {
+  const { user } = useAuth()
+  const isAdmin = user?.isAdmin === true
+  const { data, isLoading, refetch } = useGetRateLimitsQuery(undefined, {
+    skip: !isAdmin,
+  })
+  const [resetRateLimit] = useResetRateLimitMutation()
+
+  const budgets = Object.entries(data?.budgets ?? {})
+  const usage = data?.usage ?? []
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-8 pb-12">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-10 pb-6 border-b border-border pt-8">
+        <div>
+          <h1 className="text-3xl font-bold text-text italic tracking-tight">AI Usage Limits</h1>
+          <p className="text-text-secondary text-sm">
+            Per-caller budgets for endpoints that call paid models, and who is using them.
+          </p>
+        </div>
+        <div className="flex gap-4">
+          <Link
+            to="/admin"
+            className="px-6 py-3 rounded-xl bg-surface border-2 border-border text-text font-bold shadow-sm hover:border-primary hover:text-primary active:scale-95 transition-all text-center no-underline flex items-center justify-center gap-2"
+          >
+            Back to Dashboard
+          </Link>
+          <button
+            onClick={() => refetch()}
+            className="px-6 py-3 rounded-xl bg-primary text-white font-bold shadow-md hover:bg-primary-hover active:scale-95 transition-all border-none cursor-pointer"
+          >
+            Refresh
+          </button>
+        </div>
+      </header>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12 text-text-secondary gap-2">
+          <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          Loading usage...
+        </div>
+      ) : (
+        <div className="flex flex-col gap-8">
+          <section className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {budgets.map(([bucket, budget]) => (
+              <div key={bucket} className="bg-surface rounded-xl shadow border border-border p-4">
+                <h2 className="text-sm font-bold text-text mb-1">
+                  {BUDGET_LABELS[bucket] ?? bucket}
+                </h2>
+                <p className="text-sm text-text-secondary">
+                  {budget.capacity} at once, {budget.perHour} per hour
+                </p>
+                <p className="text-xs text-text-secondary mt-2">
+                  {usage.filter((u) => u.bucket === bucket).length} active callers
+                </p>
+              </div>
+            ))}
+          </section>
+
+          <div className="bg-surface rounded-xl shadow-lg border border-border overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-input-bg border-b border-border">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-sm font-bold text-text">Endpoint</th>
+                    <th className="px-6 py-4 text-left text-sm font-bold text-text">Caller</th>
+                    <th className="px-6 py-4 text-center text-sm font-bold text-text">
+                      Requests Left
+                    </th>
+                    <th className="px-6 py-4 text-left text-sm font-bold text-text">Last Used</th>
+                    <th className="px-6 py-4 text-right text-sm font-bold text-text">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {usage.map((entry) => (
+                    <tr
+                      key={`${entry.bucket}-${entry.subject}`}
+                      className="hover:bg-input-bg/30 transition-colors"
+                    >
+                      <td className="px-6 py-4 text-sm text-text">
+                        {BUDGET_LABELS[entry.bucket] ?? entry.bucket}
+                      </td>
+                      <td className="px-6 py-4 text-sm font-mono text-text-secondary">
+                        {entry.subject}
+                      </td>
+                      <td
+                        className={`px-6 py-4 text-sm text-center font-mono ${
+                          entry.tokens < 1 ? 'text-error font-bold' : 'text-text'
+                        }`}
+                      >
+                        {Math.floor(entry.tokens)} / {entry.capacity}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-text-secondary whitespace-nowrap">
+                        {new Date(entry.updatedAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() =>
+                            resetRateLimit({ bucket: entry.bucket, subject: entry.subject })
+                          }
+                          className="px-4 py-2 rounded-lg bg-primary/10 text-primary text-sm font-medium hover:bg-primary hover:text-white transition-all border-none cursor-pointer"
+                        >
+                          Reset
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {usage.length === 0 && (
+              <div className="py-16 text-center">
+                <p className="text-text-secondary italic">Nobody is near their limits.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
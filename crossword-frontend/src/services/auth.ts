@@ -1,5 +1,5 @@
 import axios from 'axios'
-import { getLocalSessions, clearLocalSessions } from '../utils/sessionManager'
+import { getLocalSessions, clearLocalSessions, getAnonymousId } from '../utils/sessionManager'
 
 const API_URL = '/api/auth'
 const TOKEN_KEY = 'cryptic_share_token'
@@ -16,12 +16,13 @@ export const setAuthToken = (token: string | null) => {
 
 export const removeAuthToken = () => localStorage.removeItem(TOKEN_KEY)
 
-// Axios interceptor to add token
+// Axios interceptor to add token, plus the guest id that session access is checked against
 axios.interceptors.request.use((config) => {
   const token = getAuthToken()
   if (token) {
     config.headers.Authorization = `Bearer ${token}`
   }
+  config.headers['X-Anonymous-Id'] = getAnonymousId()
   return config
 })
 
@@ -1,4 +1,5 @@
 import { createAction } from '@reduxjs/toolkit'
+import type { CellMark, ChatMessage, Collaborator } from '@/types'
 
 export const sendCellUpdate = createAction<{
   sessionId: string
@@ -23,6 +24,8 @@ export const socketReceivedCellUpdated = createAction<{
   c: number
   value: string
   senderId?: string
+  version?: number
+  tentative?: boolean
 }>('socket/receivedCellUpdated')
 
 export const socketReceivedWordClaimed = createAction<{
@@ -51,3 +54,33 @@ export const socketReceivedAnswerFeedback = createAction<{
 }>('socket/receivedAnswerFeedback')
 
 export const socketReceivedPuzzleComplete = createAction('socket/receivedPuzzleComplete')
+
+export const socketReceivedPresence = createAction<{
+  clients: Collaborator[]
+}>('socket/receivedPresence')
+
+export const socketReceivedPresenceJoined = createAction<Collaborator>(
+  'socket/receivedPresenceJoined',
+)
+
+export const socketReceivedPresenceUpdated = createAction<Collaborator>(
+  'socket/receivedPresenceUpdated',
+)
+
+export const socketReceivedPresenceLeft = createAction<{
+  clientId: string
+  userId: number | null
+  username: string
+}>('socket/receivedPresenceLeft')
+
+export const socketReceivedChatMessage = createAction<ChatMessage>('socket/receivedChatMessage')
+
+export const socketReceivedCellsMarked = createAction<{
+  marks: Record<string, CellMark>
+}>('socket/receivedCellsMarked')
+
+export const socketReceivedSettingsUpdated = createAction<{
+  autocheck: boolean
+}>('socket/receivedSettingsUpdated')
+
+export const socketReceivedAccessRevoked = createAction('socket/receivedAccessRevoked')
@@ -1,6 +1,6 @@
 import { createApi } from '@reduxjs/toolkit/query/react'
 import type { Report, Session } from '../slices/adminSlice'
-import type { PuzzleSummary } from '../../types'
+import type { Clue, PuzzleSummary } from '../../types'
 import { axiosBaseQuery } from './axiosBaseQuery'
 
 export interface PuzzleDetail {
@@ -11,6 +11,38 @@ export interface PuzzleDetail {
   answers: any
 }
 
+export interface CreatePuzzleRequest {
+  title: string
+  grid: string
+  clues: { across: Clue[]; down: Clue[] }
+  answers?: AutofillAnswers
+}
+
+// ROT13 answer key, as puzzles store it
+export interface AutofillAnswers {
+  across: { number: number; answer: string }[]
+  down: { number: number; answer: string }[]
+}
+
+export interface AutofillRequest {
+  grid: string
+  letters?: string[]
+  blacklist?: string[]
+  useCorpus?: boolean
+  maxStates?: number
+  maxMillis?: number
+}
+
+export interface AutofillResponse {
+  success: boolean
+  letters?: string[]
+  entries?: { number: number; direction: 'across' | 'down'; word: string; score: number | null }[]
+  answers?: AutofillAnswers
+  score?: number
+  message?: string
+  exploredStates: number
+}
+
 export interface PuzzleMissingCluesSummary {
   id: number
   title: string
@@ -18,12 +50,60 @@ export interface PuzzleMissingCluesSummary {
   puzzle_number?: number
 }
 
+export interface ImportPuzzleRequest {
+  data: string
+  filename?: string
+  title?: string
+}
+
+export interface ImportPuzzleResponse {
+  success: boolean
+  puzzle: { id: number; title: string }
+  integrity: { isValid: boolean; errors: { message: string }[] } | null
+}
+
+export interface RateLimitBudget {
+  capacity: number
+  perHour: number
+}
+
+export interface RateLimitUsage {
+  bucket: string
+  subject: string
+  tokens: number
+  capacity: number
+  perHour: number
+  updatedAt: number
+}
+
+export interface RateLimitOverview {
+  budgets: Record<string, RateLimitBudget>
+  usage: RateLimitUsage[]
+}
+
+export interface SpendTotals {
+  calls: number
+  failures: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+export interface ModelUsageSummary {
+  days: number
+  totals: SpendTotals
+  byDay: Array<SpendTotals & { day: string }>
+  byPurpose: Array<SpendTotals & { purpose: string }>
+  byPuzzle: Array<SpendTotals & { puzzleId: number; title: string | null }>
+  byModel: Array<SpendTotals & { provider: string; model: string }>
+}
+
 export const adminApi = createApi({
   reducerPath: 'adminApi',
   baseQuery: axiosBaseQuery({
     baseUrl: '/api/admin/',
   }),
-  tagTypes: ['Report', 'Puzzle', 'Session'],
+  tagTypes: ['Report', 'Puzzle', 'Session', 'RateLimit'],
   endpoints: (builder) => ({
     getReports: builder.query<Report[], void>({
       query: () => ({ url: 'reports', method: 'GET' }),
@@ -52,6 +132,14 @@ export const adminApi = createApi({
       query: (id) => ({ url: `../../api/puzzles/${id}`, method: 'GET' }),
       providesTags: (result, error, id) => [{ type: 'Puzzle', id }],
     }),
+    createPuzzle: builder.mutation<{ id: number; title: string }, CreatePuzzleRequest>({
+      query: (body) => ({
+        url: '../../api/puzzles',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['Puzzle'],
+    }),
     deletePuzzle: builder.mutation<number, number>({
       query: (id) => ({
         url: `../../api/puzzles/${id}`,
@@ -75,6 +163,31 @@ export const adminApi = createApi({
       }),
       invalidatesTags: (result, error, { id }) => [{ type: 'Puzzle', id }, 'Puzzle'],
     }),
+    importPuzzle: builder.mutation<ImportPuzzleResponse, ImportPuzzleRequest>({
+      query: (body) => ({
+        url: '../../api/puzzles/import',
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['Puzzle'],
+    }),
+    getRateLimits: builder.query<RateLimitOverview, void>({
+      query: () => ({ url: 'rate-limits', method: 'GET' }),
+      providesTags: ['RateLimit'],
+    }),
+    resetRateLimit: builder.mutation<void, { bucket: string; subject: string }>({
+      query: ({ bucket, subject }) => ({
+        url: `rate-limits/${encodeURIComponent(bucket)}/${encodeURIComponent(subject)}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['RateLimit'],
+    }),
+    getModelUsage: builder.query<ModelUsageSummary, number>({
+      query: (days) => ({ url: `model-usage?days=${days}`, method: 'GET' }),
+    }),
+    autofillGrid: builder.mutation<AutofillResponse, AutofillRequest>({
+      query: (body) => ({ url: 'autofill', method: 'POST', body }),
+    }),
   }),
 })
 
@@ -87,5 +200,11 @@ export const {
   useGetSessionsQuery,
   useDeleteSessionMutation,
   useGetPuzzleByIdQuery,
+  useCreatePuzzleMutation,
   useUpdatePuzzleMutation,
+  useImportPuzzleMutation,
+  useGetRateLimitsQuery,
+  useResetRateLimitMutation,
+  useGetModelUsageQuery,
+  useAutofillGridMutation,
 } = adminApi
@@ -0,0 +1,74 @@
+import { createApi } from '@reduxjs/toolkit/query/react'
+import { axiosBaseQuery } from './axiosBaseQuery'
+
+export interface Friend {
+  id: number
+  username: string
+}
+
+export interface FriendRequest {
+  id: number
+  user: Friend
+  created_at: string
+}
+
+export interface FriendRequests {
+  incoming: FriendRequest[]
+  outgoing: FriendRequest[]
+}
+
+export type FriendRelationship = 'none' | 'friends' | 'incoming' | 'outgoing'
+
+export interface UserSearchResult extends Friend {
+  relationship: FriendRelationship
+}
+
+export const friendsApi = createApi({
+  reducerPath: 'friendsApi',
+  baseQuery: axiosBaseQuery({
+    baseUrl: '/api/friends',
+  }),
+  tagTypes: ['Friend', 'FriendRequest', 'UserSearch'],
+  endpoints: (builder) => ({
+    getFriends: builder.query<Friend[], void>({
+      query: () => ({ url: '', method: 'GET' }),
+      providesTags: ['Friend'],
+    }),
+    getFriendRequests: builder.query<FriendRequests, void>({
+      query: () => ({ url: '/requests', method: 'GET' }),
+      providesTags: ['FriendRequest'],
+    }),
+    searchUsers: builder.query<UserSearchResult[], string>({
+      query: (q) => ({ url: '/search', method: 'GET', params: { q } }),
+      providesTags: ['UserSearch'],
+    }),
+    sendFriendRequest: builder.mutation<{ success: boolean; status: 'pending' | 'accepted' }, number>(
+      {
+        query: (userId) => ({ url: '/requests', method: 'POST', body: { userId } }),
+        invalidatesTags: ['Friend', 'FriendRequest', 'UserSearch'],
+      },
+    ),
+    acceptFriendRequest: builder.mutation<void, number>({
+      query: (userId) => ({ url: `/requests/${userId}/accept`, method: 'POST' }),
+      invalidatesTags: ['Friend', 'FriendRequest', 'UserSearch'],
+    }),
+    declineFriendRequest: builder.mutation<void, number>({
+      query: (userId) => ({ url: `/requests/${userId}/decline`, method: 'POST' }),
+      invalidatesTags: ['FriendRequest', 'UserSearch'],
+    }),
+    removeFriend: builder.mutation<void, number>({
+      query: (userId) => ({ url: `/${userId}`, method: 'DELETE' }),
+      invalidatesTags: ['Friend', 'FriendRequest', 'UserSearch'],
+    }),
+  }),
+})
+
+export const {
+  useGetFriendsQuery,
+  useGetFriendRequestsQuery,
+  useSearchUsersQuery,
+  useSendFriendRequestMutation,
+  useAcceptFriendRequestMutation,
+  useDeclineFriendRequestMutation,
+  useRemoveFriendMutation,
+} = friendsApi
@@ -17,6 +17,35 @@ export interface ExplanationResponse {
   message?: string
 }
 
+export type HintRequest = {
+  sessionId: string
+  dryRun?: boolean
+} & (
+  | { type: 'letter'; target: { number: number; direction: 'across' | 'down'; index: number } }
+  | { type: 'word'; target: { number: number; direction: 'across' | 'down' } }
+)
+
+export type HintRungKind =
+  | 'definition_location'
+  | 'definition'
+  | 'wordplay_types'
+  | 'indicators'
+  | 'step'
+  | 'answer'
+
+export interface HintRung {
+  level: number
+  kind: HintRungKind
+  text: string
+  highlight: string[]
+}
+
+export interface HintLadder {
+  levels: HintRung[]
+  total: number
+  next: HintRungKind | null
+}
+
 export interface ProcessingResponse {
   processing: true
   requestId: string
@@ -28,7 +57,7 @@ export const sessionApi = createApi({
   baseQuery: axiosBaseQuery({
     baseUrl: '/api/sessions/',
   }),
-  tagTypes: ['Explanation'],
+  tagTypes: ['Explanation', 'HintLadder'],
   endpoints: (builder) => ({
     // Query for cached explanations only
     getCachedExplanation: builder.query<ClueExplanation | null, ExplanationRequest>({
@@ -90,6 +119,39 @@ export const sessionApi = createApi({
         body: { clueNumber, direction, feedback },
       }),
     }),
+
+    // Mutation to reveal part of an answer; the server records it in the session's hint usage
+    revealHint: builder.mutation<{ success: boolean; value: string }, HintRequest>({
+      query: ({ sessionId, type, target, dryRun }) => ({
+        url: `${sessionId}/hint`,
+        method: 'POST',
+        body: { type, target, dryRun },
+      }),
+    }),
+
+    // Hint ladder levels already used on this clue (404 until it has an explanation)
+    getHintLadder: builder.query<HintLadder, ExplanationRequest>({
+      query: ({ sessionId, clueNumber, direction }) => ({
+        url: `${sessionId}/hint-ladder`,
+        method: 'GET',
+        params: { clueNumber, direction },
+      }),
+      providesTags: (result, error, arg) => [
+        { type: 'HintLadder', id: `${arg.clueNumber}-${arg.direction}` },
+      ],
+    }),
+
+    // Mutation to climb one level; the server records it against the session
+    revealHintLevel: builder.mutation<HintLadder, ExplanationRequest>({
+      query: ({ sessionId, clueNumber, direction }) => ({
+        url: `${sessionId}/hint-ladder`,
+        method: 'POST',
+        body: { clueNumber, direction },
+      }),
+      invalidatesTags: (result, error, arg) => [
+        { type: 'HintLadder', id: `${arg.clueNumber}-${arg.direction}` },
+      ],
+    }),
   }),
 })
 
@@ -97,4 +159,7 @@ export const {
   useGetCachedExplanationQuery,
   useRequestExplanationMutation,
   useReportExplanationMutation,
+  useRevealHintMutation,
+  useGetHintLadderQuery,
+  useRevealHintLevelMutation,
 } = sessionApi
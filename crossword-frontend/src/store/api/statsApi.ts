@@ -0,0 +1,41 @@
+import { createApi } from '@reduxjs/toolkit/query/react'
+import { axiosBaseQuery } from './axiosBaseQuery'
+
+export interface SolveRecord {
+  sessionId: string
+  puzzleId: number
+  title: string
+  solveSeconds: number
+  lettersRevealed: number
+  wordsRevealed: number
+  checkCount: number
+  completedAt: string
+}
+
+export interface UserStats {
+  sessionsStarted: number
+  puzzlesCompleted: number
+  averageSolveSeconds: number | null
+  fastestSolveSeconds: number | null
+  lettersRevealed: number
+  wordsRevealed: number
+  checkCount: number
+  hintFreeSolves: number
+  currentStreak: number
+  longestStreak: number
+  recentSolves: SolveRecord[]
+}
+
+export const statsApi = createApi({
+  reducerPath: 'statsApi',
+  baseQuery: axiosBaseQuery({
+    baseUrl: '/api/me',
+  }),
+  endpoints: (builder) => ({
+    getMyStats: builder.query<UserStats, void>({
+      query: () => ({ url: '/stats', method: 'GET' }),
+    }),
+  }),
+})
+
+export const { useGetMyStatsQuery } = statsApi
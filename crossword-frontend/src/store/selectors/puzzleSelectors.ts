@@ -1,3 +1,6 @@
+import { createSelector } from '@reduxjs/toolkit'
+import { getWordBreaks } from '@/utils/enumeration'
+import { clueRefKey, getLinkedEntries } from '@/utils/linkedClues'
 import type { RootState } from '@/store/store'
 
 export const selectGrid = (state: RootState) => state.puzzle.grid
@@ -15,5 +18,39 @@ export const selectErrorCells = (state: RootState) => state.puzzle.errorCells
 export const selectIsChecking = (state: RootState) => state.puzzle.isChecking
 export const selectCheckResult = (state: RootState) => state.puzzle.checkResult
 export const selectIsLockModeEnabled = (state: RootState) => state.puzzle.isLockModeEnabled
+export const selectIsPencilModeEnabled = (state: RootState) => state.puzzle.isPencilModeEnabled
+export const selectIsRebusEntryActive = (state: RootState) => state.puzzle.isRebusEntryActive
+export const selectRebusCells = (state: RootState) => state.puzzle.rebusCells
 export const selectIsHintModalOpen = (state: RootState) => state.puzzle.isHintModalOpen
+export const selectIsAutocheckEnabled = (state: RootState) => state.puzzle.isAutocheckEnabled
 export const selectPuzzleId = (state: RootState) => state.puzzle.puzzleId
+export const selectSessionRole = (state: RootState) => state.puzzle.sessionRole
+
+/**
+ * Attributions keyed by every light they cover. A linked answer is claimed
+ * under its first light, so its other lights borrow that claim for display.
+ */
+export const selectLightAttributions = createSelector(
+  selectAttributions,
+  selectClues,
+  (attributions, clues) => {
+    const entries = getLinkedEntries(clues)
+    if (entries.length === 0) return attributions
+
+    const byLight = { ...attributions }
+    for (const [head, ...rest] of entries) {
+      const attribution = attributions[clueRefKey(head)]
+      if (!attribution) continue
+      for (const ref of rest) byLight[clueRefKey(ref)] ??= attribution
+    }
+    return byLight
+  },
+)
+
+// Word breaks and hyphens from the clues' enumerations, drawn between cells
+export const selectWordBreaks = createSelector(
+  selectGrid,
+  selectClues,
+  selectRebusCells,
+  (grid, clues, rebusCells) => getWordBreaks(grid, clues, rebusCells),
+)
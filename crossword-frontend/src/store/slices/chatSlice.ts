@@ -0,0 +1,68 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit'
+import type { ChatMessage } from '@/types'
+import { socketReceivedChatMessage } from '../actions/socketActions'
+
+export interface ChatState {
+  sessionId: string | null
+  messages: ChatMessage[]
+  isOpen: boolean
+  // Messages from others that arrived while the panel was closed
+  unreadCount: number
+}
+
+const initialState: ChatState = {
+  sessionId: null,
+  messages: [],
+  isOpen: false,
+  unreadCount: 0,
+}
+
+// SSE and the POST response can both deliver our own message, so merge by id
+const addMessage = (state: ChatState, message: ChatMessage) => {
+  if (message.sessionId !== state.sessionId) return false
+  if (state.messages.some((m) => m.id === message.id)) return false
+  state.messages.push(message)
+  return true
+}
+
+const chatSlice = createSlice({
+  name: 'chat',
+  initialState,
+  reducers: {
+    chatHistoryLoaded: (
+      state,
+      action: PayloadAction<{ sessionId: string; messages: ChatMessage[] }>,
+    ) => {
+      const isNewSession = state.sessionId !== action.payload.sessionId
+      state.sessionId = action.payload.sessionId
+      // Keep anything that arrived over SSE while the history was loading
+      const pending = isNewSession ? [] : state.messages
+      state.messages = action.payload.messages
+      pending.forEach((message) => addMessage(state, message))
+      state.messages.sort((a, b) => a.id - b.id)
+      if (isNewSession) state.unreadCount = 0
+    },
+    chatMessageSent: (state, action: PayloadAction<ChatMessage>) => {
+      addMessage(state, action.payload)
+    },
+    setChatOpen: (state, action: PayloadAction<boolean>) => {
+      state.isOpen = action.payload
+      if (action.payload) state.unreadCount = 0
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(socketReceivedChatMessage, (state, action) => {
+      if (addMessage(state, action.payload) && !state.isOpen) {
+        state.unreadCount += 1
+      }
+    })
+  },
+})
+
+export const selectChatMessages = (state: { chat: ChatState }) => state.chat.messages
+export const selectIsChatOpen = (state: { chat: ChatState }) => state.chat.isOpen
+export const selectChatUnreadCount = (state: { chat: ChatState }) => state.chat.unreadCount
+
+export const { chatHistoryLoaded, chatMessageSent, setChatOpen } = chatSlice.actions
+
+export default chatSlice.reducer
@@ -0,0 +1,67 @@
+import { createSlice, createSelector } from '@reduxjs/toolkit'
+import type { Collaborator } from '@/types'
+import {
+  socketReceivedPresence,
+  socketReceivedPresenceJoined,
+  socketReceivedPresenceUpdated,
+  socketReceivedPresenceLeft,
+} from '../actions/socketActions'
+import { connectionLost } from './socketSlice'
+
+export interface PresenceState {
+  // Other people in the session, keyed by their SSE client id
+  collaborators: Record<string, Collaborator>
+  // Latest join/leave announcement; id lets repeated messages re-trigger the toast
+  notice: { id: number; message: string } | null
+}
+
+const initialState: PresenceState = {
+  collaborators: {},
+  notice: null,
+}
+
+let nextNoticeId = 1
+
+const presenceSlice = createSlice({
+  name: 'presence',
+  initialState,
+  reducers: {
+    dismissPresenceNotice: (state) => {
+      state.notice = null
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(socketReceivedPresence, (state, action) => {
+        state.collaborators = {}
+        action.payload.clients.forEach((client) => {
+          state.collaborators[client.clientId] = client
+        })
+      })
+      .addCase(socketReceivedPresenceJoined, (state, action) => {
+        state.collaborators[action.payload.clientId] = action.payload
+        state.notice = { id: nextNoticeId++, message: `${action.payload.username} joined` }
+      })
+      .addCase(socketReceivedPresenceUpdated, (state, action) => {
+        state.collaborators[action.payload.clientId] = action.payload
+      })
+      .addCase(socketReceivedPresenceLeft, (state, action) => {
+        if (!state.collaborators[action.payload.clientId]) return
+        delete state.collaborators[action.payload.clientId]
+        state.notice = { id: nextNoticeId++, message: `${action.payload.username} left` }
+      })
+      // The server re-sends the full list when we reconnect
+      .addCase(connectionLost, () => initialState)
+  },
+})
+
+export const selectCollaborators = createSelector(
+  (state: { presence: PresenceState }) => state.presence.collaborators,
+  (collaborators) => Object.values(collaborators),
+)
+
+export const selectPresenceNotice = (state: { presence: PresenceState }) => state.presence.notice
+
+export const { dismissPresenceNotice } = presenceSlice.actions
+
+export default presenceSlice.reducer
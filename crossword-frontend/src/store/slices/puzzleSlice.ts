@@ -1,13 +1,26 @@
 import { createSlice, createSelector, type PayloadAction } from '@reduxjs/toolkit'
-import type { CellType, Direction, Clue } from '@/types'
+import type {
+  CellType,
+  CellMark,
+  CheckRequest,
+  Direction,
+  Clue,
+  RebusCells,
+  SessionRole,
+  AccessMode,
+} from '@/types'
 import {
   socketReceivedPuzzleUpdated,
   socketReceivedCellUpdated,
   socketReceivedWordClaimed,
   socketReceivedAnswerFeedback,
   socketReceivedPuzzleComplete,
+  socketReceivedAccessRevoked,
+  socketReceivedCellsMarked,
+  socketReceivedSettingsUpdated,
 } from '../actions/socketActions'
 import { getCellsForClue } from '@/utils/lockCells'
+import { getCellAt, parseRow, serializeRow, setCellAt } from '@/utils/cellState'
 
 interface Cursor {
   r: number
@@ -23,10 +36,11 @@ export interface PuzzleState {
   title: string
   sessionId: string | null
   puzzleId: number | null
-  answersEncrypted: {
-    across: Record<string, string>
-    down: Record<string, string>
-  } | null
+  // Cells that hold several letters of the answer
+  rebusCells: RebusCells
+  // What this client may do in the session, and who else is let in
+  sessionRole: SessionRole | null
+  accessMode: AccessMode
 
   // UI state
   cursor: Cursor | null
@@ -48,9 +62,27 @@ export interface PuzzleState {
   // Attributions (who solved which word) — locked cells are derived from this
   attributions: Record<string, { userId: number | null; username: string; timestamp: string }>
 
+  // Server write counter per "r-c" cell, sent back when replaying offline edits
+  cellVersions: Record<string, number>
+
+  // "r-c" keys of letters pencilled in as guesses
+  tentativeCells: string[]
+
+  // Check and reveal marks by "r-c" key; a mark goes when its cell changes
+  cellMarks: Record<string, CellMark>
+
+  // Shared session setting: wrong letters are marked as they are typed
+  isAutocheckEnabled: boolean
+
   // Lock mode toggle
   isLockModeEnabled: boolean
 
+  // New letters are pencilled in while this is on
+  isPencilModeEnabled: boolean
+
+  // Letters are appended to the cursor cell (rebus entry) while this is on
+  isRebusEntryActive: boolean
+
   // Puzzle completion
   puzzleComplete: boolean
 
@@ -67,7 +99,9 @@ const initialState: PuzzleState = {
   title: '',
   sessionId: null,
   puzzleId: null,
-  answersEncrypted: null,
+  rebusCells: {},
+  sessionRole: null,
+  accessMode: 'link',
   cursor: null,
   changedCells: [],
   showChangeNotification: false,
@@ -84,7 +118,13 @@ const initialState: PuzzleState = {
     show: false,
   },
   attributions: {},
+  cellVersions: {},
+  tentativeCells: [],
+  cellMarks: {},
+  isAutocheckEnabled: false,
   isLockModeEnabled: true,
+  isPencilModeEnabled: false,
+  isRebusEntryActive: false,
   puzzleComplete: false,
   isLoading: false,
   error: null,
@@ -97,8 +137,10 @@ function normalizeToGrid(state: string[], rows: number, cols: number): string[]
 
   for (let r = 0; r < rows; r++) {
     let row = state[r] || ''
-    if (row.length !== cols) {
-      row = row.padEnd(cols, ' ').slice(0, cols)
+    const cells = parseRow(row)
+    if (cells.length !== cols) {
+      const padded = [...cells, ...Array(Math.max(cols - cells.length, 0)).fill(' ')]
+      row = serializeRow(padded.slice(0, cols))
     }
     result.push(row)
   }
@@ -106,6 +148,23 @@ function normalizeToGrid(state: string[], rows: number, cols: number): string[]
   return result
 }
 
+// Only a letter can be pencilled in; inking or clearing a cell drops the flag
+function markTentative(
+  state: PuzzleState,
+  r: number,
+  c: number,
+  value: string,
+  tentative?: boolean,
+) {
+  const key = `${r}-${c}`
+  const isTentative = Boolean(tentative) && value.trim() !== ''
+  if (isTentative && !state.tentativeCells.includes(key)) {
+    state.tentativeCells.push(key)
+  } else if (!isTentative && state.tentativeCells.includes(key)) {
+    state.tentativeCells = state.tentativeCells.filter((cell) => cell !== key)
+  }
+}
+
 const puzzleSlice = createSlice({
   name: 'puzzle',
   initialState,
@@ -119,9 +178,16 @@ const puzzleSlice = createSlice({
       state.title = ''
       state.sessionId = null
       state.puzzleId = null
-      state.answersEncrypted = null
+      state.rebusCells = {}
+      state.sessionRole = null
+      state.accessMode = 'link'
       state.cursor = null
+      state.isRebusEntryActive = false
       state.attributions = {}
+      state.cellVersions = {}
+      state.tentativeCells = []
+      state.cellMarks = {}
+      state.isAutocheckEnabled = false
       state.puzzleComplete = false
     },
     loadSessionSuccess: (
@@ -133,14 +199,17 @@ const puzzleSlice = createSlice({
         sessionState: string[]
         sessionId: string
         puzzleId: number
-        answersEncrypted?: {
-          across: Record<string, string>
-          down: Record<string, string>
-        }
         attributions?: Record<
           string,
           { userId: number | null; username: string; timestamp: string }
         >
+        cellVersions?: Record<string, number>
+        tentativeCells?: string[]
+        rebus_cells?: RebusCells
+        role?: SessionRole | null
+        accessMode?: AccessMode
+        cellMarks?: Record<string, CellMark>
+        autocheck?: boolean
       }>,
     ) => {
       const {
@@ -150,8 +219,14 @@ const puzzleSlice = createSlice({
         sessionState,
         sessionId,
         puzzleId,
-        answersEncrypted,
         attributions,
+        cellVersions,
+        tentativeCells,
+        rebus_cells,
+        role,
+        accessMode,
+        cellMarks,
+        autocheck,
       } = action.payload
 
       // Parse grid
@@ -174,8 +249,15 @@ const puzzleSlice = createSlice({
       state.answers = normalizedAnswers
       state.sessionId = sessionId
       state.puzzleId = puzzleId
-      state.answersEncrypted = answersEncrypted || null
+      state.rebusCells = rebus_cells || {}
+      // Older servers don't report a role; everyone could edit there
+      state.sessionRole = role ?? 'editor'
+      state.accessMode = accessMode ?? 'link'
       state.attributions = attributions || {}
+      state.cellVersions = cellVersions || {}
+      state.tentativeCells = tentativeCells || []
+      state.cellMarks = cellMarks || {}
+      state.isAutocheckEnabled = autocheck ?? false
       state.isLoading = false
       state.lastSyncedAt = Date.now()
     },
@@ -183,8 +265,12 @@ const puzzleSlice = createSlice({
       state.isLoading = false
       state.error = action.payload
     },
+    setAccessMode: (state, action: PayloadAction<AccessMode>) => {
+      state.accessMode = action.payload
+    },
     setCursor: (state, action: PayloadAction<Cursor>) => {
       state.cursor = action.payload
+      state.isRebusEntryActive = false
     },
     toggleDirection: (state) => {
       if (state.cursor) {
@@ -196,6 +282,7 @@ const puzzleSlice = createSlice({
 
       const { direction, delta } = action.payload
       let { r, c } = state.cursor
+      state.isRebusEntryActive = false
 
       // Always update direction to match movement intent
       state.cursor.direction = direction
@@ -218,17 +305,34 @@ const puzzleSlice = createSlice({
         loopCount++
       }
     },
-    updateCell: (state, action: PayloadAction<{ r: number; c: number; value: string }>) => {
-      const { r, c, value } = action.payload
+    updateCell: (
+      state,
+      action: PayloadAction<{ r: number; c: number; value: string; tentative?: boolean }>,
+    ) => {
+      const { r, c, value, tentative } = action.payload
       if (r >= 0 && r < state.answers.length) {
-        const row = state.answers[r] || ''
-        state.answers[r] = row.substring(0, c) + value + row.substring(c + 1)
+        if (getCellAt(state.answers, r, c) !== value) {
+          delete state.cellMarks[`${r}-${c}`]
+        }
+        state.answers[r] = setCellAt(state.answers[r] || '', c, value)
+        markTentative(state, r, c, value, tentative)
         if (state.errorCells.length > 0) {
           const key = `${r}-${c}`
           state.errorCells = state.errorCells.filter((cell) => cell !== key)
         }
       }
     },
+    // Versions only move forward, so a late response can't roll one back
+    cellVersionsReceived: (state, action: PayloadAction<Record<string, number>>) => {
+      Object.entries(action.payload).forEach(([key, version]) => {
+        if (version > (state.cellVersions[key] ?? 0)) {
+          state.cellVersions[key] = version
+        }
+      })
+    },
+    tentativeCellsSynced: (state, action: PayloadAction<string[]>) => {
+      state.tentativeCells = action.payload
+    },
     syncFromServer: (state, action: PayloadAction<string[]>) => {
       const serverState = action.payload
       if (!serverState || state.grid.length === 0) return
@@ -242,8 +346,8 @@ const puzzleSlice = createSlice({
       // Find changed cells
       const changedCells: string[] = []
       for (let r = 0; r < normalizedServer.length; r++) {
-        const localRow = state.answers[r] || ''
-        const serverRow = normalizedServer[r] || ''
+        const localRow = parseRow(state.answers[r] || '')
+        const serverRow = parseRow(normalizedServer[r] || '')
         for (let c = 0; c < serverRow.length; c++) {
           if (localRow[c] !== serverRow[c]) {
             changedCells.push(`${r}-${c}`)
@@ -252,6 +356,7 @@ const puzzleSlice = createSlice({
       }
 
       state.answers = normalizedServer
+      changedCells.forEach((key) => delete state.cellMarks[key])
       state.changedCells = changedCells
       state.showChangeNotification = changedCells.length > 0
       state.lastSyncedAt = Date.now()
@@ -296,9 +401,23 @@ const puzzleSlice = createSlice({
     },
     setCheckResult: (
       state,
-      action: PayloadAction<{ errorCells: string[]; totalChecked?: number; isComplete?: boolean }>,
+      action: PayloadAction<{
+        errorCells: string[]
+        totalChecked?: number
+        isComplete?: boolean
+        tentativeSkipped?: number
+        scope?: CheckRequest['scope']
+      }>,
     ) => {
       const errorCount = action.payload.errorCells.length
+      const skipped = action.payload.tentativeSkipped || 0
+      // A grid check counts whole answers, a word or letter check single letters
+      const unit = !action.payload.scope || action.payload.scope === 'grid' ? 'answer' : 'letter'
+      // Pencilled letters (and grid-check words containing them) are left unchecked
+      const skippedNote =
+        skipped > 0
+          ? `${skipped} pencilled ${unit === 'answer' ? 'word' : 'letter'}${skipped === 1 ? ' was' : 's were'} not checked.`
+          : ''
       state.errorCells = action.payload.errorCells
       state.checkResult = {
         errorCount,
@@ -306,8 +425,8 @@ const puzzleSlice = createSlice({
         isComplete: action.payload.isComplete || false,
         message:
           errorCount === 0
-            ? `Good job! All ${action.payload.totalChecked || 0} checked answers are correct.`
-            : `${errorCount} cells incorrect`,
+            ? `Good job! All ${action.payload.totalChecked || 0} checked ${unit}s are correct.${skippedNote ? ` ${skippedNote}` : ''}`
+            : `${errorCount} cells incorrect${skippedNote ? `. ${skippedNote}` : ''}`,
         show: errorCount === 0,
       }
     },
@@ -315,6 +434,12 @@ const puzzleSlice = createSlice({
       state.checkResult.show = false
       state.checkResult.message = null
     },
+    cellMarksReceived: (state, action: PayloadAction<Record<string, CellMark>>) => {
+      Object.assign(state.cellMarks, action.payload)
+    },
+    setAutocheckEnabled: (state, action: PayloadAction<boolean>) => {
+      state.isAutocheckEnabled = action.payload
+    },
     setHintModalOpen: (state, action: PayloadAction<boolean>) => {
       state.isHintModalOpen = action.payload
     },
@@ -334,6 +459,13 @@ const puzzleSlice = createSlice({
     toggleLockMode: (state) => {
       state.isLockModeEnabled = !state.isLockModeEnabled
     },
+    togglePencilMode: (state) => {
+      state.isPencilModeEnabled = !state.isPencilModeEnabled
+    },
+    // Start or finish typing several letters into the cursor cell
+    toggleRebusEntry: (state) => {
+      state.isRebusEntryActive = state.cursor !== null && !state.isRebusEntryActive
+    },
 
     setPuzzleComplete: (state, action: PayloadAction<boolean>) => {
       state.puzzleComplete = action.payload
@@ -355,8 +487,8 @@ const puzzleSlice = createSlice({
         // Find changed cells
         const changedCells: string[] = []
         for (let r = 0; r < normalizedServer.length; r++) {
-          const localRow = state.answers[r] || ''
-          const serverRow = normalizedServer[r] || ''
+          const localRow = parseRow(state.answers[r] || '')
+          const serverRow = parseRow(normalizedServer[r] || '')
           for (let c = 0; c < serverRow.length; c++) {
             if (localRow[c] !== serverRow[c]) {
               changedCells.push(`${r}-${c}`)
@@ -365,20 +497,25 @@ const puzzleSlice = createSlice({
         }
 
         state.answers = normalizedServer
+        changedCells.forEach((key) => delete state.cellMarks[key])
         state.changedCells = changedCells
         state.showChangeNotification = changedCells.length > 0
         state.lastSyncedAt = Date.now()
       })
       .addCase(socketReceivedCellUpdated, (state, action) => {
-        const { r, c, value } = action.payload
+        const { r, c, value, version, tentative } = action.payload
+        if (version && version > (state.cellVersions[`${r}-${c}`] ?? 0)) {
+          state.cellVersions[`${r}-${c}`] = version
+        }
         if (r >= 0 && r < state.answers.length) {
-          const row = state.answers[r] || ''
-          const oldVal = row[c]
-          state.answers[r] = row.substring(0, c) + value + row.substring(c + 1)
+          const oldVal = getCellAt(state.answers, r, c)
+          state.answers[r] = setCellAt(state.answers[r] || '', c, value)
+          markTentative(state, r, c, value, tentative)
           state.lastSyncedAt = Date.now()
 
           if (oldVal !== value) {
             const cellKey = `${r}-${c}`
+            delete state.cellMarks[cellKey]
             // Add to changedCells if not present
             if (!state.changedCells.includes(cellKey)) {
               state.changedCells.push(cellKey)
@@ -404,6 +541,16 @@ const puzzleSlice = createSlice({
       .addCase(socketReceivedPuzzleComplete, (state) => {
         state.puzzleComplete = true
       })
+      .addCase(socketReceivedCellsMarked, (state, action) => {
+        Object.assign(state.cellMarks, action.payload.marks)
+      })
+      .addCase(socketReceivedSettingsUpdated, (state, action) => {
+        state.isAutocheckEnabled = action.payload.autocheck
+      })
+      .addCase(socketReceivedAccessRevoked, (state) => {
+        state.sessionRole = null
+        state.error = 'Your access to this session has been revoked'
+      })
   },
 })
 
@@ -411,11 +558,14 @@ export const {
   loadSessionStart,
   loadSessionSuccess,
   loadSessionError,
+  setAccessMode,
   setCursor,
   toggleDirection,
   moveCursor,
   updateCell,
   syncFromServer,
+  cellVersionsReceived,
+  tentativeCellsSynced,
   dismissChangeNotification,
   setCorrectFlashCells,
   setIncorrectFlashCells,
@@ -427,8 +577,12 @@ export const {
   setCheckInProgress,
   setCheckResult,
   dismissCheckResult,
+  cellMarksReceived,
+  setAutocheckEnabled,
   setAttribution,
   toggleLockMode,
+  togglePencilMode,
+  toggleRebusEntry,
   setPuzzleComplete,
   clearPuzzle,
 } = puzzleSlice.actions
@@ -436,21 +590,27 @@ export const {
 /**
  * Derives the set of locked cell keys ("r-c") from attributions.
  * Cells belonging to a claimed/correct word are locked.
- * Memoized — only recomputes when grid or attributions change.
+ * Memoized — only recomputes when grid, attributions or clues change.
  */
 export const selectLockedCells = createSelector(
   (state: { puzzle: PuzzleState }) => state.puzzle.grid,
   (state: { puzzle: PuzzleState }) => state.puzzle.attributions,
-  (grid, attributions) => {
+  (state: { puzzle: PuzzleState }) => state.puzzle.clues,
+  (grid, attributions, clues) => {
     const locked = new Set<string>()
     if (!grid || grid.length === 0) return locked
     for (const clueKey of Object.keys(attributions)) {
       const [numberStr, direction] = clueKey.split('-')
-      const cells = getCellsForClue(grid, parseInt(numberStr, 10), direction as Direction)
+      const cells = getCellsForClue(grid, parseInt(numberStr, 10), direction as Direction, clues)
       for (const cell of cells) locked.add(cell)
     }
     return locked
   },
 )
 
+export const selectTentativeCells = createSelector(
+  (state: { puzzle: PuzzleState }) => state.puzzle.tentativeCells,
+  (cells) => new Set(cells),
+)
+
 export default puzzleSlice.reducer
@@ -3,8 +3,12 @@ import adminReducer from './slices/adminSlice'
 import sessionReducer from './slices/sessionSlice'
 import puzzleReducer from './slices/puzzleSlice'
 import socketReducer from './slices/socketSlice'
+import presenceReducer from './slices/presenceSlice'
+import chatReducer from './slices/chatSlice'
 import { adminApi } from './api/adminApi'
 import { sessionApi } from './api/sessionApi'
+import { friendsApi } from './api/friendsApi'
+import { statsApi } from './api/statsApi'
 
 export const store = configureStore({
   reducer: {
@@ -12,11 +16,19 @@ export const store = configureStore({
     session: sessionReducer,
     puzzle: puzzleReducer,
     socket: socketReducer,
+    presence: presenceReducer,
+    chat: chatReducer,
     [adminApi.reducerPath]: adminApi.reducer,
     [sessionApi.reducerPath]: sessionApi.reducer,
+    [friendsApi.reducerPath]: friendsApi.reducer,
+    [statsApi.reducerPath]: statsApi.reducer,
   },
   middleware: (getDefaultMiddleware) =>
-    getDefaultMiddleware().concat(adminApi.middleware).concat(sessionApi.middleware),
+    getDefaultMiddleware()
+      .concat(adminApi.middleware)
+      .concat(sessionApi.middleware)
+      .concat(friendsApi.middleware)
+      .concat(statsApi.middleware),
 })
 
 export type RootState = ReturnType<typeof store.getState>
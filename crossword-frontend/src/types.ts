@@ -1,15 +1,54 @@
-export type CellType = 'N' | 'W' | 'B'
+// 'B' block, 'N' numbered letter cell, 'W' other letter cell. In barred grids
+// a letter cell can carry a bar on its right ('|') and/or bottom ('_') edge.
+export type CellType = 'B' | `${'N' | 'W'}${'' | '|' | '_' | '|_'}`
 export type Mode = 'edit' | 'play' | 'view'
 export type Direction = 'across' | 'down'
+// The caller's role in a shared session; spectators can watch but not type
+export type SessionRole = 'owner' | 'editor' | 'spectator'
+// 'link': anyone with the session URL may edit; 'friends': only the owner's friends and invitees
+export type AccessMode = 'link' | 'friends'
+
+// How a cell was last checked or revealed: 'checked' letters were found right,
+// 'incorrect' ones wrong (by a check or by autocheck), 'revealed' ones filled
+// in from the answer
+export type CellMark = 'checked' | 'incorrect' | 'revealed'
+
+// What a check or a reveal covers: one cell, one word, or the whole grid
+export type CheckRequest =
+  | { scope: 'letter'; target: { r: number; c: number } }
+  | { scope: 'word'; target: { number: number; direction: Direction } }
+  | { scope: 'grid' }
+
+// Cells holding more than one letter (rebus squares), keyed "r-c", mapped to
+// how many letters of the answer they take
+export type RebusCells = Record<string, number>
 
 export interface PuzzleSummary {
   id: number
   title: string
 }
 
+export interface ClueRef {
+  number: number
+  direction: Direction
+}
+
+export type WordBreak = 'space' | 'hyphen'
+
+// A clue's "(2,3-4)": letters per word and the break after each word but the last
+export interface Enumeration {
+  words: number[]
+  breaks: WordBreak[]
+}
+
 export interface Clue {
   number: number
   clue: string
+  // An answer split over several lights ("5/14 Across") is clued on its first
+  // light, which lists the lights it carries on into
+  continued?: ClueRef[]
+  // Parsed from the clue text by the server when the puzzle is saved
+  enumeration?: Enumeration
 }
 
 export interface AnswerEntry {
@@ -38,6 +77,28 @@ export interface RenderedCell {
   isSelected: boolean
   isActiveWord: boolean
   answer: string
+  // Pencilled in as a guess
+  isTentative?: boolean
+  mark?: CellMark | null
+}
+
+// Another person connected to the same session, as reported over SSE
+export interface Collaborator {
+  clientId: string
+  userId: number | null
+  username: string
+  cursor: { r: number; c: number; direction: Direction } | null
+  clue: { number: number; direction: Direction } | null
+  updatedAt: string
+}
+
+export interface ChatMessage {
+  id: number
+  sessionId: string
+  userId: number | null
+  username: string
+  body: string
+  createdAt: string
 }
 
 export interface User {
@@ -31,6 +31,19 @@ export function getUserColor(userId: number | null): string {
   return color
 }
 
+// Guests have no userId, so colour them by a stable key (their connection id) instead
+export function getPresenceColor(userId: number | null, fallbackKey: string): string {
+  if (userId !== null) {
+    return getUserColor(userId)
+  }
+
+  let hash = 0
+  for (let i = 0; i < fallbackKey.length; i++) {
+    hash = (hash * 31 + fallbackKey.charCodeAt(i)) | 0
+  }
+  return ATTRIBUTION_COLORS[Math.abs(hash) % ATTRIBUTION_COLORS.length]
+}
+
 // Get background color with opacity for cell highlighting
 export function getAttributionBackground(userId: number | null): string {
   const color = getUserColor(userId)
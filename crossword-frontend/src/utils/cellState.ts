@@ -0,0 +1,64 @@
+import type { RebusCells } from '@/types'
+
+// Session state is one string per row with one character per cell (a space
+// when empty). A rebus cell holding several letters is written in brackets,
+// e.g. "C[HEART]S" is three cells. This matches the backend's stateHelpers.
+
+export function parseRow(row: string): string[] {
+  if (!row.includes('[')) return row.split('')
+
+  const cells: string[] = []
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '[') {
+      const end = row.indexOf(']', i)
+      if (end !== -1) {
+        cells.push(row.substring(i + 1, end) || ' ')
+        i = end
+        continue
+      }
+    }
+    cells.push(row[i])
+  }
+  return cells
+}
+
+export function serializeRow(cells: string[]): string {
+  return cells.map((cell) => (cell.length > 1 ? `[${cell}]` : cell || ' ')).join('')
+}
+
+// Set a cell's contents (one letter, several for a rebus) in a row string
+export function setCellAt(row: string, index: number, value: string): string {
+  const cleaned = value.replace(/[[\]]/g, '')
+  const cell = cleaned.length > 1 ? cleaned.replace(/\s/g, '') || ' ' : cleaned || ' '
+
+  if (cell.length === 1 && !row.includes('[')) {
+    const paddedRow = row.length <= index ? row.padEnd(index + 1, ' ') : row
+    return paddedRow.substring(0, index) + cell + paddedRow.substring(index + 1)
+  }
+
+  const cells = parseRow(row)
+  while (cells.length <= index) cells.push(' ')
+  cells[index] = cell
+  return serializeRow(cells)
+}
+
+// Get a cell's contents (' ' when empty or out of bounds)
+export function getCellAt(state: string[], r: number, c: number): string {
+  const row = state[r]
+  if (!row) return ' '
+  return (row.includes('[') ? parseRow(row)[c] : row[c]) || ' '
+}
+
+/**
+ * Split an answer's letters across a word's "r-c" cells, giving each rebus
+ * cell as many letters as it holds. Cells past the end of the answer get ''.
+ */
+export function splitAnswer(letters: string, cellKeys: string[], rebus: RebusCells = {}): string[] {
+  let offset = 0
+  return cellKeys.map((key) => {
+    const width = rebus[key] ?? 1
+    const part = letters.substring(offset, offset + width)
+    offset += width
+    return part
+  })
+}
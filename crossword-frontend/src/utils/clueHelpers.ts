@@ -1,4 +1,5 @@
 import type { CellType, Direction } from '../types'
+import { continuesLight, isNumberedCell } from './gridCells'
 
 export interface ClueMetadata {
   number: number
@@ -15,28 +16,23 @@ export function extractClueMetadata(grid: CellType[][]): ClueMetadata[] {
   const height = grid.length
   const width = grid[0].length
 
-  // Helper to check if a cell contains a letter (White or Numbered)
-  const isLetter = (r: number, c: number) => {
-    if (r < 0 || r >= height || c < 0 || c >= width) return false
-    return grid[r][c] !== 'B'
-  }
 
   let currentNumber = 1
 
   for (let r = 0; r < height; r++) {
     for (let c = 0; c < width; c++) {
-      if (grid[r][c] === 'N') {
+      if (isNumberedCell(grid[r][c])) {
         const num = currentNumber
 
-        // Check Across: valid if there is a letter to the right AND NO letter to the left
+        // Check Across: valid if the light runs on to the right AND not in from the left
         // This ensures mid-word numbers don't trigger a new Across clue
-        if (isLetter(r, c + 1) && !isLetter(r, c - 1)) {
+        if (continuesLight(grid, r, c, 'across') && !continuesLight(grid, r, c - 1, 'across')) {
           clues.push({ number: num, direction: 'across', row: r, col: c })
         }
 
-        // Check Down: valid if there is a letter below AND NO letter above
+        // Check Down: valid if the light runs on below AND not in from above
         // This ensures mid-word numbers don't trigger a new Down clue
-        if (isLetter(r + 1, c) && !isLetter(r - 1, c)) {
+        if (continuesLight(grid, r, c, 'down') && !continuesLight(grid, r - 1, c, 'down')) {
           clues.push({ number: num, direction: 'down', row: r, col: c })
         }
 
@@ -119,5 +115,29 @@ export function validateClues(grid: CellType[][], cluesJson: string): string[] {
     }
   })
 
+  // 6. Validate linked clues ("continued") point at lights the grid has
+  for (const [direction, label] of [['across', 'Across'], ['down', 'Down']] as const) {
+    if (!Array.isArray(cluesData[direction])) continue
+    cluesData[direction].forEach((c: { number?: unknown; continued?: unknown }) => {
+      if (c.continued === undefined) return
+      if (!Array.isArray(c.continued)) {
+        errors.push(`${label} clue ${c.number} has a "continued" that is not an array`)
+        return
+      }
+      c.continued.forEach((ref: { number?: number; direction?: string } | null) => {
+        const expected = ref?.direction === 'down' ? expectedDown : expectedAcross
+        if (
+          (ref?.direction !== 'across' && ref?.direction !== 'down') ||
+          ref.number === undefined ||
+          !expected.has(ref.number)
+        ) {
+          errors.push(
+            `${label} clue ${c.number} links to ${ref?.number} ${ref?.direction}, which is not in the grid`,
+          )
+        }
+      })
+    })
+  }
+
   return errors
 }
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { parseClueReferences } from './clueReferences'
+
+const anyClue = () => true
+
+const links = (text: string) =>
+  parseClueReferences(text, anyClue)
+    .filter((segment) => segment.type === 'clue')
+    .map((segment) => segment.text)
+
+describe('parseClueReferences', () => {
+  it('links the usual ways of naming a clue', () => {
+    expect(links('try 14 across, 14across or 14-down')).toEqual([
+      '14 across',
+      '14across',
+      '14-down',
+    ])
+    expect(links('3 dn and 9ac')).toEqual(['3 dn', '9ac'])
+    expect(links('14a and 3D')).toEqual(['14a', '3D'])
+  })
+
+  it('leaves a lone a or d after a number as text', () => {
+    expect(links('5 a day, give me 2 d')).toEqual([])
+    expect(links('see you at 2am, it is 3-d')).toEqual([])
+  })
+
+  it('only links clues the puzzle has', () => {
+    const segments = parseClueReferences('14a or 15a?', (number) => number === 14)
+    expect(segments).toEqual([
+      { type: 'clue', text: '14a', number: 14, direction: 'across' },
+      { type: 'text', text: ' or 15a?' },
+    ])
+  })
+})
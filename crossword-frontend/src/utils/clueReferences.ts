@@ -0,0 +1,43 @@
+import type { Direction } from '@/types'
+
+export type MessageSegment =
+  | { type: 'text'; text: string }
+  | { type: 'clue'; text: string; number: number; direction: Direction }
+
+// "14 across", "14across", "14-down", "3 dn", "9ac", and "14a" or "3d" only
+// with the letter right against the number, so "5 a day" stays text
+const CLUE_REFERENCE = /\b(\d{1,3})(?:\s*-?\s*(across|down|ac|dn)|(a|d))\b/gi
+
+const toDirection = (suffix: string): Direction =>
+  suffix.toLowerCase().startsWith('a') ? 'across' : 'down'
+
+/**
+ * Split chat text into plain text and clue references. Only references to
+ * clues that exist in the puzzle (per `hasClue`) become links.
+ */
+export function parseClueReferences(
+  text: string,
+  hasClue: (number: number, direction: Direction) => boolean,
+): MessageSegment[] {
+  const segments: MessageSegment[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(CLUE_REFERENCE)) {
+    const number = Number(match[1])
+    const direction = toDirection(match[2] ?? match[3])
+    if (!hasClue(number, direction)) continue
+
+    const start = match.index!
+    if (start > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, start) })
+    }
+    segments.push({ type: 'clue', text: match[0], number, direction })
+    lastIndex = start + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) })
+  }
+
+  return segments
+}
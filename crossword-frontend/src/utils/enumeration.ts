@@ -0,0 +1,73 @@
+import { getCellsForClue } from './lockCells'
+import type { CellType, Clue, Enumeration, RebusCells, WordBreak } from '@/types'
+
+// The breaks that lie between two cells of a word, on the cell before them
+export interface CellWordBreaks {
+  right?: WordBreak
+  bottom?: WordBreak
+}
+
+/**
+ * The break after each word but the last, keyed by the number of letters
+ * before it: (4,5) has a space after letter 4.
+ */
+export function letterBreaks(enumeration: Enumeration): Map<number, WordBreak> {
+  const breaks = new Map<number, WordBreak>()
+  let offset = 0
+  enumeration.words.slice(0, -1).forEach((n, i) => {
+    offset += n
+    breaks.set(offset, enumeration.breaks[i] ?? 'space')
+  })
+  return breaks
+}
+
+/**
+ * The break after each cell of a word, by the letters the cells hold: a
+ * break that falls inside a rebus cell is left out, as is one after the last.
+ */
+export function cellBreaks(
+  enumeration: Enumeration | undefined,
+  cellKeys: string[],
+  rebus: RebusCells = {},
+): Array<WordBreak | undefined> {
+  if (!enumeration) return cellKeys.map(() => undefined)
+  const breaks = letterBreaks(enumeration)
+  let letters = 0
+  return cellKeys.map((key, i) => {
+    letters += rebus[key] ?? 1
+    return i < cellKeys.length - 1 ? breaks.get(letters) : undefined
+  })
+}
+
+/**
+ * The word breaks to draw between cells, keyed "r-c" by the cell before the
+ * break. A break between two lights of a linked answer has no cell edge to
+ * sit on and is left out.
+ */
+export function getWordBreaks(
+  grid: CellType[][],
+  clues: { across: Clue[]; down: Clue[] } | null,
+  rebus: RebusCells = {},
+): Map<string, CellWordBreaks> {
+  const wordBreaks = new Map<string, CellWordBreaks>()
+  if (!clues || grid.length === 0) return wordBreaks
+
+  for (const direction of ['across', 'down'] as const) {
+    for (const clue of clues[direction]) {
+      if (!clue.enumeration || clue.enumeration.words.length < 2) continue
+      const cells = getCellsForClue(grid, clue.number, direction, clues)
+
+      cellBreaks(clue.enumeration, cells, rebus).forEach((wordBreak, i) => {
+        const key = cells[i]!
+        if (!wordBreak) return
+
+        const [r, c] = key.split('-').map(Number)
+        const edge = direction === 'across' ? 'right' : 'bottom'
+        const adjacent = direction === 'across' ? `${r}-${c + 1}` : `${r + 1}-${c}`
+        if (cells[i + 1] !== adjacent) return
+        wordBreaks.set(key, { ...wordBreaks.get(key), [edge]: wordBreak })
+      })
+    }
+  }
+  return wordBreaks
+}
@@ -0,0 +1,60 @@
+import type { CellType, Direction } from '@/types'
+
+// Grid cells as the backend's utils/gridCells: 'B', 'N' or 'W', with '|' and
+// '_' marking a bar on a letter cell's right and bottom edge in barred grids
+
+const CELL_PATTERN = /^(B|[NW]\|?_?)$/
+
+export const isCellType = (token: string): token is CellType => CELL_PATTERN.test(token)
+
+export const isLetterCell = (cell: CellType | undefined): boolean =>
+  cell?.[0] === 'N' || cell?.[0] === 'W'
+
+export const isNumberedCell = (cell: CellType | undefined): boolean => cell?.[0] === 'N'
+
+export const hasRightBar = (cell: CellType | undefined): boolean => !!cell?.includes('|')
+
+export const hasBottomBar = (cell: CellType | undefined): boolean => !!cell?.includes('_')
+
+// Whether a light carries on from (r, c) into the next cell in `direction`
+export function continuesLight(
+  grid: CellType[][],
+  r: number,
+  c: number,
+  direction: Direction,
+): boolean {
+  const cell = grid[r]?.[c]
+  if (!isLetterCell(cell)) return false
+  if (direction === 'across') {
+    return !hasRightBar(cell) && isLetterCell(grid[r]?.[c + 1])
+  }
+  return !hasBottomBar(cell) && isLetterCell(grid[r + 1]?.[c])
+}
+
+/**
+ * The cells of the light running through (r, c), in answer order. A letter
+ * cell with no light in that direction is a light of its own.
+ */
+export function lightCells(
+  grid: CellType[][],
+  r: number,
+  c: number,
+  direction: Direction,
+): Array<{ r: number; c: number }> {
+  if (!isLetterCell(grid[r]?.[c])) return []
+
+  const dr = direction === 'down' ? 1 : 0
+  const dc = direction === 'across' ? 1 : 0
+  while (continuesLight(grid, r - dr, c - dc, direction)) {
+    r -= dr
+    c -= dc
+  }
+
+  const cells = [{ r, c }]
+  while (continuesLight(grid, r, c, direction)) {
+    r += dr
+    c += dc
+    cells.push({ r, c })
+  }
+  return cells
+}
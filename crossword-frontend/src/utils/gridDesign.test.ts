@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import type { CellType } from '../types'
+import {
+  emptyGrid,
+  findGridWarnings,
+  fitLetters,
+  gridToString,
+  mergeDesignClues,
+  PENDING_CLUE,
+  renumberGrid,
+  toggleBlock,
+} from './gridDesign'
+
+const parse = (text: string) => text.split('\n').map((row) => row.split(' ') as CellType[])
+
+const kinds = (grid: CellType[][], symmetry: 'rotational' | 'mirror' | 'none' = 'none') =>
+  findGridWarnings(grid, symmetry).map((w) => w.kind)
+
+describe('gridDesign', () => {
+  it('numbers only the cells that start a light', () => {
+    expect(gridToString(emptyGrid(3, 3))).toBe('N N N\nN W W\nN W W')
+    expect(gridToString(renumberGrid(parse('W W B\nW B W|\nW W W')))).toBe(
+      'N W B\nW B N|\nN W W',
+    )
+  })
+
+  it('places blocks in symmetric pairs', () => {
+    const grid = emptyGrid(5, 5)
+
+    expect(toggleBlock(grid, 0, 1, 'rotational')[4][3]).toBe('B')
+    expect(toggleBlock(grid, 0, 1, 'mirror')[0][3]).toBe('B')
+
+    const single = toggleBlock(grid, 0, 1, 'none')
+    expect(single.flat().filter((cell) => cell === 'B')).toHaveLength(1)
+  })
+
+  it('removes a block pair when either half is clicked again', () => {
+    const blocked = toggleBlock(emptyGrid(5, 5), 0, 0, 'rotational')
+    expect(gridToString(toggleBlock(blocked, 4, 4, 'rotational'))).toBe(
+      gridToString(emptyGrid(5, 5)),
+    )
+  })
+
+  it('renumbers as blocks are placed', () => {
+    const grid = toggleBlock(emptyGrid(5, 5), 0, 0, 'rotational')
+    expect(gridToString(grid)).toBe(
+      ['B N N N N', 'N W W W W', 'N W W W W', 'N W W W W', 'N W W W B'].join('\n'),
+    )
+  })
+
+  it('drops bars from a cell that becomes a block', () => {
+    const grid = toggleBlock(parse('N| N N\nN W W\nN W W'), 0, 0, 'none')
+    expect(grid[0][0]).toBe('B')
+  })
+
+  it('warns about cells out of step with the symmetry', () => {
+    const grid = toggleBlock(emptyGrid(5, 5), 0, 0, 'none')
+    const warnings = findGridWarnings(grid, 'rotational')
+    const asymmetric = warnings.find((w) => w.kind === 'asymmetric')
+    expect(asymmetric?.cells).toEqual([
+      { r: 0, c: 0 },
+      { r: 4, c: 4 },
+    ])
+    expect(kinds(grid, 'none')).not.toContain('asymmetric')
+  })
+
+  it('warns about cells no light crosses', () => {
+    const warnings = findGridWarnings(parse('N N W\nB W B\nN W W'), 'none')
+    expect(warnings).toContainEqual(
+      expect.objectContaining({ kind: 'unchecked', cells: [{ r: 0, c: 0 }, { r: 0, c: 2 }] }),
+    )
+
+    const isolated = findGridWarnings(parse('N W W\nB B B\nB W B'), 'none')
+    expect(isolated).toContainEqual(
+      expect.objectContaining({ kind: 'unchecked', cells: [{ r: 2, c: 1 }] }),
+    )
+  })
+
+  it('warns about lights that are too short', () => {
+    const warnings = findGridWarnings(parse('N N\nN W'), 'none')
+    expect(warnings.filter((w) => w.kind === 'short_light')).toHaveLength(4)
+    expect(kinds(emptyGrid(3, 3))).toEqual([])
+  })
+
+  it('warns about parts of the grid cut off from the rest', () => {
+    let grid = emptyGrid(3, 7)
+    for (let r = 0; r < 3; r++) grid = toggleBlock(grid, r, 3, 'none')
+
+    const disconnected = findGridWarnings(grid, 'none').filter((w) => w.kind === 'disconnected')
+    expect(disconnected).toHaveLength(1)
+    expect(disconnected[0].cells).toHaveLength(9)
+  })
+
+  it('keeps clues for lights that survive a redesign', () => {
+    const grid = toggleBlock(emptyGrid(3, 3), 0, 2, 'none')
+    const { clues, dropped } = mergeDesignClues(grid, {
+      across: [
+        { number: 1, clue: 'Kept (2)' },
+        { number: 3, clue: 'Also kept (3)' },
+      ],
+      down: [{ number: 3, clue: 'Gone (3)' }],
+    })
+
+    expect(clues.across.map((c) => c.clue)).toEqual(['Kept (2)', 'Also kept (3)', PENDING_CLUE])
+    expect(clues.down.map((c) => c.number)).toEqual([1, 2, 4])
+    expect(dropped).toEqual([{ number: 3, clue: 'Gone (3)' }])
+  })
+
+  it('fits letters to the grid after blocks change', () => {
+    const grid = toggleBlock(emptyGrid(3, 3), 1, 1, 'none')
+    expect(fitLetters(grid, ['CAT', 'ORE', 'W'])).toEqual(['CAT', 'O E', 'W  '])
+  })
+})
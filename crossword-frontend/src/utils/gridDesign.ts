@@ -0,0 +1,266 @@
+import type { CellType, Clue, Direction } from '@/types'
+import { extractClueMetadata } from './answerChecker'
+import { getCellAt } from './cellState'
+import { continuesLight, hasBottomBar, hasRightBar, isLetterCell, lightCells } from './gridCells'
+
+// Helpers for the grid designer: symmetric block toggling, numbering and the
+// checks a setter makes before a grid is worth filling
+
+export type Symmetry = 'rotational' | 'mirror' | 'none'
+
+export type GridWarningKind = 'asymmetric' | 'unchecked' | 'short_light' | 'disconnected'
+
+export interface GridWarning {
+  kind: GridWarningKind
+  message: string
+  cells: Array<{ r: number; c: number }>
+}
+
+export interface DesignLight {
+  number: number
+  direction: Direction
+  cells: Array<{ r: number; c: number }>
+}
+
+// Lights shorter than this are flagged
+export const MIN_LIGHT_LENGTH = 3
+
+// The placeholder the missing clues queue looks for
+export const PENDING_CLUE = '[CLUE PENDING]'
+
+const letterCell = (numbered: boolean, cell: CellType): CellType =>
+  `${numbered ? 'N' : 'W'}${hasRightBar(cell) ? '|' : ''}${hasBottomBar(cell) ? '_' : ''}` as CellType
+
+export function emptyGrid(height: number, width: number): CellType[][] {
+  return renumberGrid(Array.from({ length: height }, () => Array<CellType>(width).fill('W')))
+}
+
+// The cell that must match (r, c) under the symmetry, if any
+export function symmetricPartner(
+  grid: CellType[][],
+  r: number,
+  c: number,
+  symmetry: Symmetry,
+): { r: number; c: number } | null {
+  const height = grid.length
+  const width = grid[0]?.length ?? 0
+  if (symmetry === 'rotational') return { r: height - 1 - r, c: width - 1 - c }
+  if (symmetry === 'mirror') return { r, c: width - 1 - c }
+  return null
+}
+
+/**
+ * Numbers every cell that starts a light and no other, as
+ * extractClueMetadata reads them.
+ */
+export function renumberGrid(grid: CellType[][]): CellType[][] {
+  // With every letter cell numbered, extractClueMetadata finds each light start
+  const allNumbered = grid.map((row) =>
+    row.map((cell) => (isLetterCell(cell) ? letterCell(true, cell) : cell)),
+  )
+  const starts = new Set(extractClueMetadata(allNumbered).map((m) => `${m.row}-${m.col}`))
+
+  return grid.map((row, r) =>
+    row.map((cell, c) => (isLetterCell(cell) ? letterCell(starts.has(`${r}-${c}`), cell) : cell)),
+  )
+}
+
+/**
+ * Turns a block into a letter cell or back, along with its symmetric
+ * partner, and renumbers. Blocks can't carry bars, so a cell loses its bars
+ * when it becomes a block.
+ */
+export function toggleBlock(
+  grid: CellType[][],
+  r: number,
+  c: number,
+  symmetry: Symmetry,
+): CellType[][] {
+  const makeBlock = isLetterCell(grid[r]?.[c])
+  const next = grid.map((row) => [...row])
+  const targets = [{ r, c }]
+  const partner = symmetricPartner(grid, r, c, symmetry)
+  if (partner) targets.push(partner)
+
+  for (const target of targets) {
+    if (!next[target.r]?.[target.c]) continue
+    next[target.r][target.c] = makeBlock ? 'B' : 'W'
+  }
+  return renumberGrid(next)
+}
+
+export function getDesignLights(grid: CellType[][]): DesignLight[] {
+  return extractClueMetadata(grid).map((meta) => ({
+    number: meta.number,
+    direction: meta.direction,
+    cells: lightCells(grid, meta.row, meta.col, meta.direction),
+  }))
+}
+
+/**
+ * Everything a setter would want fixed before filling the grid: cells out of
+ * step with the symmetry, cells no light crosses, lights with too many
+ * unchecked cells, lights that are too short and parts of the grid cut off
+ * from the rest.
+ */
+export function findGridWarnings(grid: CellType[][], symmetry: Symmetry): GridWarning[] {
+  const warnings: GridWarning[] = []
+  if (grid.length === 0) return warnings
+
+  const asymmetric: Array<{ r: number; c: number }> = []
+  grid.forEach((row, r) =>
+    row.forEach((cell, c) => {
+      const partner = symmetricPartner(grid, r, c, symmetry)
+      if (partner && isLetterCell(cell) !== isLetterCell(grid[partner.r]?.[partner.c])) {
+        asymmetric.push({ r, c })
+      }
+    }),
+  )
+  if (asymmetric.length > 0) {
+    warnings.push({
+      kind: 'asymmetric',
+      message: `${asymmetric.length} cells break ${symmetry} symmetry`,
+      cells: asymmetric,
+    })
+  }
+
+  const lights = getDesignLights(grid)
+  const lightCount = new Map<string, number>()
+  for (const light of lights) {
+    for (const { r, c } of light.cells) {
+      lightCount.set(`${r}-${c}`, (lightCount.get(`${r}-${c}`) ?? 0) + 1)
+    }
+  }
+
+  grid.forEach((row, r) =>
+    row.forEach((cell, c) => {
+      if (isLetterCell(cell) && !lightCount.has(`${r}-${c}`)) {
+        warnings.push({
+          kind: 'unchecked',
+          message: `Cell at row ${r + 1}, column ${c + 1} is not in any light`,
+          cells: [{ r, c }],
+        })
+      }
+    }),
+  )
+
+  for (const light of lights) {
+    const label = `${light.number} ${light.direction}`
+    const unchecked = light.cells.filter(({ r, c }) => lightCount.get(`${r}-${c}`) === 1)
+    const consecutive = light.cells.some(
+      (cell, i) =>
+        i > 0 &&
+        lightCount.get(`${cell.r}-${cell.c}`) === 1 &&
+        lightCount.get(`${light.cells[i - 1].r}-${light.cells[i - 1].c}`) === 1,
+    )
+    if (unchecked.length > light.cells.length / 2 || consecutive) {
+      warnings.push({
+        kind: 'unchecked',
+        message: consecutive
+          ? `${label} has unchecked cells next to each other`
+          : `${label} has ${unchecked.length} of ${light.cells.length} cells unchecked`,
+        cells: unchecked,
+      })
+    }
+
+    if (light.cells.length < MIN_LIGHT_LENGTH) {
+      warnings.push({
+        kind: 'short_light',
+        message: `${label} has only ${light.cells.length} letters`,
+        cells: light.cells,
+      })
+    }
+  }
+
+  const regions = findRegions(grid)
+  if (regions.length > 1) {
+    const largest = regions.reduce((a, b) => (b.length > a.length ? b : a))
+    for (const region of regions) {
+      if (region === largest) continue
+      warnings.push({
+        kind: 'disconnected',
+        message: `${region.length} cells are cut off from the rest of the grid`,
+        cells: region,
+      })
+    }
+  }
+
+  return warnings
+}
+
+// Groups of letter cells joined through the lights they share
+function findRegions(grid: CellType[][]): Array<Array<{ r: number; c: number }>> {
+  const seen = new Set<string>()
+  const regions: Array<Array<{ r: number; c: number }>> = []
+
+  grid.forEach((row, r0) =>
+    row.forEach((cell, c0) => {
+      if (!isLetterCell(cell) || seen.has(`${r0}-${c0}`)) return
+
+      const region: Array<{ r: number; c: number }> = []
+      const stack = [{ r: r0, c: c0 }]
+      seen.add(`${r0}-${c0}`)
+      while (stack.length > 0) {
+        const { r, c } = stack.pop()!
+        region.push({ r, c })
+        const neighbours = [
+          continuesLight(grid, r, c, 'across') && { r, c: c + 1 },
+          continuesLight(grid, r, c - 1, 'across') && { r, c: c - 1 },
+          continuesLight(grid, r, c, 'down') && { r: r + 1, c },
+          continuesLight(grid, r - 1, c, 'down') && { r: r - 1, c },
+        ]
+        for (const next of neighbours) {
+          if (!next || seen.has(`${next.r}-${next.c}`)) continue
+          seen.add(`${next.r}-${next.c}`)
+          stack.push(next)
+        }
+      }
+      regions.push(region)
+    }),
+  )
+  return regions
+}
+
+export const gridToString = (grid: CellType[][]) => grid.map((row) => row.join(' ')).join('\n')
+
+type DesignClues = { across: Clue[]; down: Clue[] }
+
+/**
+ * Clues for a redesigned grid: each light keeps the clue it had under the
+ * same number and direction, new lights get a pending placeholder, and clues
+ * for lights the grid no longer has are dropped (and returned).
+ */
+export function mergeDesignClues(
+  grid: CellType[][],
+  existing: DesignClues | null | undefined,
+): { clues: DesignClues; dropped: Clue[] } {
+  const lights = getDesignLights(grid)
+  const clues: DesignClues = { across: [], down: [] }
+  const dropped: Clue[] = []
+
+  for (const direction of ['across', 'down'] as const) {
+    const previous = new Map((existing?.[direction] ?? []).map((clue) => [clue.number, clue]))
+    for (const light of lights.filter((l) => l.direction === direction)) {
+      clues[direction].push(
+        previous.get(light.number) ?? { number: light.number, clue: PENDING_CLUE },
+      )
+      previous.delete(light.number)
+    }
+    dropped.push(...previous.values())
+  }
+  return { clues, dropped }
+}
+
+// Letters the setter has placed, one string per row as in session state
+export const emptyLetters = (grid: CellType[][]) =>
+  grid.map((row) => ' '.repeat(row.length))
+
+/**
+ * Letters that still fit the grid: rows and columns sized to it, with blocks
+ * left empty. Run after any change to the blocks.
+ */
+export function fitLetters(grid: CellType[][], letters: string[]): string[] {
+  return grid.map((row, r) =>
+    row.map((cell, c) => (isLetterCell(cell) ? getCellAt(letters, r, c) : ' ')).join(''),
+  )
+}
@@ -1,4 +1,6 @@
 import type { CellType, RenderedCell, Direction } from '../types'
+import { getCellAt } from './cellState'
+import { isLetterCell, isNumberedCell, lightCells } from './gridCells'
 
 export function parseGridString(gridString: string): CellType[][] {
   return gridString
@@ -46,13 +48,21 @@ export function renderGrid({
     return { renderedGrid: [], numberMap: new Map(), currentClueNumber: null }
   }
 
+  // Cells of the light under the cursor, for active word highlighting
+  const activeWord = new Set<string>()
+  if (mode === 'play' && cursor) {
+    for (const { r, c } of lightCells(grid, cursor.r, cursor.c, cursor.direction)) {
+      activeWord.add(`${r}-${c}`)
+    }
+  }
+
   let currentNumber = 1
   const numberMap = new Map<number, { r: number; c: number }>()
 
   const renderedGrid = grid.map((row, r) =>
     row.map((cell, c) => {
       let number = null
-      if (cell === 'N') {
+      if (isNumberedCell(cell)) {
         number = currentNumber
         numberMap.set(currentNumber, { r, c })
         currentNumber++
@@ -60,34 +70,14 @@ export function renderGrid({
 
       // Visuals
       const isSelected = !!(mode === 'play' && cursor?.r === r && cursor?.c === c)
-      const isPlayableCell = cell !== 'B'
-
-      // Active word highlighting
-      let isActiveWord = false
-      if (mode === 'play' && cursor && isPlayableCell) {
-        if (cursor.direction === 'across' && r === cursor.r) {
-          let startC = cursor.c
-          while (startC > 0 && grid[r][startC - 1] !== 'B') startC--
-          let endC = cursor.c
-          while (endC < grid[0].length - 1 && grid[r][endC + 1] !== 'B') endC++
-
-          if (c >= startC && c <= endC) isActiveWord = true
-        } else if (cursor.direction === 'down' && c === cursor.c) {
-          let startR = cursor.r
-          while (startR > 0 && grid[startR - 1][c] !== 'B') startR--
-          let endR = cursor.r
-          while (endR < grid.length - 1 && grid[endR + 1][c] !== 'B') endR++
-
-          if (r >= startR && r <= endR) isActiveWord = true
-        }
-      }
+      const isActiveWord = isLetterCell(cell) && activeWord.has(`${r}-${c}`)
 
       return {
         type: cell,
         number,
         isSelected,
         isActiveWord,
-        answer: answers && answers[r] ? answers[r][c] : '',
+        answer: answers && answers[r] ? getCellAt(answers, r, c) : '',
       }
     }),
   )
@@ -95,17 +85,11 @@ export function renderGrid({
   // Find the number for the active word
   let currentClueNumber = null
   if (mode === 'play' && cursor) {
-    let r = cursor.r
-    let c = cursor.c
     // Backtrack
-    if (cursor.direction === 'across') {
-      while (c > 0 && grid[r][c - 1] !== 'B') c--
-    } else {
-      while (r > 0 && grid[r - 1][c] !== 'B') r--
-    }
+    const start = lightCells(grid, cursor.r, cursor.c, cursor.direction)[0]
 
-    if (renderedGrid[r] && renderedGrid[r][c] && renderedGrid[r][c].number) {
-      currentClueNumber = renderedGrid[r][c].number
+    if (start && renderedGrid[start.r]?.[start.c]?.number) {
+      currentClueNumber = renderedGrid[start.r][start.c].number
     }
   }
 
@@ -0,0 +1,56 @@
+export interface DiffRow {
+  left: string | null
+  right: string | null
+  kind: 'same' | 'changed' | 'removed' | 'added'
+}
+
+/**
+ * Line-by-line diff laid out for side-by-side display. Runs of removed and
+ * added lines between unchanged ones are paired up as 'changed' rows.
+ */
+export function sideBySideDiff(before: string, after: string): DiffRow[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // Longest common subsequence lengths of every pair of suffixes
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const rows: DiffRow[] = []
+  let removed: string[] = []
+  let added: string[] = []
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k] ?? null
+      const right = added[k] ?? null
+      rows.push({ left, right, kind: left === null ? 'added' : right === null ? 'removed' : 'changed' })
+    }
+    removed = []
+    added = []
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush()
+      rows.push({ left: a[i], right: b[j], kind: 'same' })
+      i++
+      j++
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(a[i])
+      i++
+    } else {
+      added.push(b[j])
+      j++
+    }
+  }
+  flush()
+
+  return rows
+}
@@ -0,0 +1,32 @@
+import type { Clue, ClueRef } from '@/types'
+
+// Linked answers as the backend's utils/linkedClues: the clued light lists the
+// lights its answer carries on into, and the whole answer is one word
+
+type ClueLists = { across: Clue[]; down: Clue[] } | null | undefined
+
+export const clueRefKey = (ref: ClueRef) => `${ref.number}-${ref.direction}`
+
+// Every linked answer, as its lights in answer order (clued light first)
+export function getLinkedEntries(clues: ClueLists): ClueRef[][] {
+  const entries: ClueRef[][] = []
+  for (const direction of ['across', 'down'] as const) {
+    for (const clue of clues?.[direction] ?? []) {
+      if (!clue.continued?.length) continue
+      entries.push([{ number: clue.number, direction }, ...clue.continued])
+    }
+  }
+  return entries
+}
+
+// The lights answered together with `ref`; an unlinked light is its own answer
+export function getEntryRefs(clues: ClueLists, ref: ClueRef): ClueRef[] {
+  const key = clueRefKey(ref)
+  return (
+    getLinkedEntries(clues).find((entry) => entry.some((part) => clueRefKey(part) === key)) ?? [
+      ref,
+    ]
+  )
+}
+
+export const getEntryHead = (clues: ClueLists, ref: ClueRef): ClueRef => getEntryRefs(clues, ref)[0]
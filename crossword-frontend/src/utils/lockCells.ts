@@ -1,31 +1,29 @@
-import type { CellType, Direction } from '@/types'
+import type { CellType, Clue, Direction } from '@/types'
 import { extractClueMetadata } from './answerChecker'
+import { lightCells } from './gridCells'
+import { getEntryRefs } from './linkedClues'
 
 /**
  * Get all cell keys for a specific clue (word)
- * Returns array of "r-c" strings
+ * Returns array of "r-c" strings. Given the clues, a linked answer covers
+ * every one of its lights, in answer order.
  */
 export function getCellsForClue(
   grid: CellType[][],
   clueNumber: number,
   direction: Direction,
+  clues?: { across: Clue[]; down: Clue[] } | null,
 ): string[] {
   if (!grid || grid.length === 0) return []
 
   const metadata = extractClueMetadata(grid)
-  const clueMeta = metadata.find((m) => m.number === clueNumber && m.direction === direction)
 
-  if (!clueMeta) return []
+  return getEntryRefs(clues, { number: clueNumber, direction }).flatMap((ref) => {
+    const clueMeta = metadata.find((m) => m.number === ref.number && m.direction === ref.direction)
+    if (!clueMeta) return []
 
-  const cells: string[] = []
-  let r = clueMeta.row
-  let c = clueMeta.col
-
-  while (r < grid.length && c < grid[0].length && grid[r][c] !== 'B') {
-    cells.push(`${r}-${c}`)
-    if (direction === 'across') c++
-    else r++
-  }
-
-  return cells
+    return lightCells(grid, clueMeta.row, clueMeta.col, ref.direction).map(
+      ({ r, c }) => `${r}-${c}`,
+    )
+  })
 }
@@ -0,0 +1,114 @@
+// Cell edits made while disconnected, kept in IndexedDB so they survive a
+// reload and can be replayed to the server's merge endpoint on reconnect
+
+export interface QueuedCellEdit {
+  sessionId: string
+  r: number
+  c: number
+  value: string
+  tentative?: boolean
+  // Version of the cell when this client first changed it offline
+  baseVersion: number
+  queuedAt: number
+}
+
+const DB_NAME = 'cryptic_share_offline'
+const STORE_NAME = 'cell_edits'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: ['sessionId', 'r', 'c'],
+        })
+        store.createIndex('sessionId', 'sessionId')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode)
+    const request = run(tx.objectStore(STORE_NAME))
+    tx.oncomplete = () => resolve(request ? request.result : undefined)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+const isAvailable = () => typeof indexedDB !== 'undefined'
+
+export const getQueuedEdits = async (sessionId: string): Promise<QueuedCellEdit[]> => {
+  if (!isAvailable()) return []
+  try {
+    const edits = await withStore<QueuedCellEdit[]>('readonly', (store) =>
+      store.index('sessionId').getAll(sessionId),
+    )
+    return (edits ?? []).sort((a, b) => a.queuedAt - b.queuedAt)
+  } catch (e) {
+    console.error('Failed to read offline edits', e)
+    return []
+  }
+}
+
+/**
+ * Queue edits for later. Each cell keeps only its latest value but the
+ * version it was first changed from, since that's what the server must
+ * still hold for the edit to be safe to apply.
+ */
+export const queueEdits = async (
+  sessionId: string,
+  edits: Array<{ r: number; c: number; value: string; tentative?: boolean; baseVersion: number }>,
+): Promise<void> => {
+  if (!isAvailable() || edits.length === 0) return
+  try {
+    const existing = new Map(
+      (await getQueuedEdits(sessionId)).map((edit) => [`${edit.r}-${edit.c}`, edit]),
+    )
+    await withStore('readwrite', (store) => {
+      edits.forEach(({ r, c, value, tentative, baseVersion }) => {
+        const previous = existing.get(`${r}-${c}`)
+        store.put({
+          sessionId,
+          r,
+          c,
+          value,
+          tentative,
+          baseVersion: previous ? previous.baseVersion : baseVersion,
+          queuedAt: previous ? previous.queuedAt : Date.now(),
+        } satisfies QueuedCellEdit)
+      })
+    })
+  } catch (e) {
+    console.error('Failed to queue offline edits', e)
+  }
+}
+
+export const clearQueuedEdits = async (
+  sessionId: string,
+  edits: Array<{ r: number; c: number }>,
+): Promise<void> => {
+  if (!isAvailable() || edits.length === 0) return
+  try {
+    await withStore('readwrite', (store) => {
+      edits.forEach(({ r, c }) => store.delete([sessionId, r, c]))
+    })
+  } catch (e) {
+    console.error('Failed to clear offline edits', e)
+  }
+}
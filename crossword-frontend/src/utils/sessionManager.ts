@@ -4,12 +4,16 @@ export interface LocalSession {
   puzzleTitle: string
   lastPlayed: number
   lastKnownState?: string[]
+  // Cell versions matching lastKnownState, for merging edits made offline
+  cellVersions?: Record<string, number>
+  // Pencilled-in cells of lastKnownState
+  tentativeCells?: string[]
   // Cached puzzle definition for offline loading
   puzzleData?: {
     grid: string // string representation from server
     clues: { across: any[]; down: any[] }
-    answersEncrypted?: { across: Record<string, string>; down: Record<string, string> }
     attributions?: Record<string, any>
+    rebusCells?: Record<string, number>
   }
 }
 